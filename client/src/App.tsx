@@ -16,6 +16,7 @@ import Calendar from "@/pages/calendar";
 import Analytics from "@/pages/analytics";
 import Settings from "@/pages/settings";
 import ProfilePage from "@/pages/profile";
+import SearchPage from "@/pages/search";
 import SubscriptionGuard from "@/components/plan-expiration/SubscriptionGuard";
 import { suppressAuthErrors } from "@/utils/suppress-auth-errors";
 
@@ -182,6 +183,7 @@ function Router() {
 
 
         <ProtectedRoute path="/profile" component={ProfilePage} />
+        <ProtectedRoute path="/search" component={SearchPage} />
 
         <Route path="/access-denied" component={AccessDenied} />
 
@@ -148,9 +148,17 @@ interface BackupStats {
   storage_usage: {
     local: number;
     google_drive: number;
+    s3: number;
   };
 }
 
+interface S3Status {
+  configured: boolean;
+  bucket: string | null;
+  prefix: string;
+  available: boolean;
+}
+
 export default function BackupManagement() {
   const { toast } = useToast();
   const { t } = useTranslation();
@@ -272,6 +280,15 @@ export default function BackupManagement() {
     }
   });
 
+  const { data: s3Status } = useQuery<S3Status>({
+    queryKey: ['/api/admin/backup/s3/status'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/admin/backup/s3/status');
+      if (!res.ok) throw new Error('Failed to fetch S3 status');
+      return res.json();
+    }
+  });
+
   const { data: oauthConfig, isLoading: isLoadingOAuth } = useQuery({
     queryKey: ['/api/admin/backup/google-drive/oauth-config'],
     queryFn: async () => {
@@ -1526,6 +1543,9 @@ export default function BackupManagement() {
                       <SelectItem value="google_drive" disabled={!config?.google_drive?.enabled}>
                         {t('admin.backup.storage.google_drive', 'Google Drive')} {!config?.google_drive?.enabled && t('admin.backup.storage.not_connected', '(Not Connected)')}
                       </SelectItem>
+                      <SelectItem value="s3" disabled={!s3Status?.available}>
+                        {t('admin.backup.storage.s3', 'S3 Storage')} {!s3Status?.available && t('admin.backup.storage.not_connected', '(Not Connected)')}
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -1750,6 +1770,12 @@ export default function BackupManagement() {
                                 {t('admin.backup.storage.drive', 'Drive')}
                               </Badge>
                             )}
+                            {backup.storage_locations.includes('s3') && (
+                              <Badge variant="outline" className="text-xs">
+                                <Cloud className="h-3 w-3 mr-1" />
+                                S3
+                              </Badge>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>{formatDate(backup.created_at)}</TableCell>
@@ -1934,6 +1960,12 @@ export default function BackupManagement() {
                                   Drive
                                 </Badge>
                               )}
+                              {schedule.storage_locations.includes('s3') && (
+                                <Badge variant="outline" className="text-xs">
+                                  <Cloud className="h-3 w-3 mr-1" />
+                                  S3
+                                </Badge>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>
@@ -2072,6 +2104,23 @@ export default function BackupManagement() {
                         {t('admin.backup.storage.google_drive', 'Google Drive')} {!settingsForm.google_drive.enabled && t('admin.backup.storage.not_connected', '(Not Connected)')}
                       </Label>
                     </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="default-s3"
+                        checked={settingsForm.default_storage_locations.includes('s3')}
+                        onChange={(e) => {
+                          const locations = e.target.checked
+                            ? [...settingsForm.default_storage_locations, 's3']
+                            : settingsForm.default_storage_locations.filter(l => l !== 's3');
+                          setSettingsForm({ ...settingsForm, default_storage_locations: locations });
+                        }}
+                        disabled={!s3Status?.available}
+                      />
+                      <Label htmlFor="default-s3" className="text-sm">
+                        {t('admin.backup.storage.s3', 'S3 Storage')} {s3Status?.bucket && `(${s3Status.bucket})`} {!s3Status?.available && t('admin.backup.storage.not_connected', '(Not Connected)')}
+                      </Label>
+                    </div>
                   </div>
                   <p className="text-xs text-muted-foreground">
                     {t('admin.backup.settings.default_storage_help', 'Default storage locations for new backups')}
@@ -2537,6 +2586,12 @@ export default function BackupManagement() {
                           {t('admin.backup.storage.google_drive', 'Google Drive')}
                         </Badge>
                       )}
+                      {selectedBackupForRestore.storage_locations.includes('s3') && (
+                        <Badge variant="outline" className="text-xs">
+                          <Cloud className="h-3 w-3 mr-1" />
+                          {t('admin.backup.storage.s3', 'S3 Storage')}
+                        </Badge>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -2954,6 +3009,23 @@ export default function BackupManagement() {
                     {t('admin.backup.storage.google_drive', 'Google Drive')} {!config?.google_drive?.enabled && t('admin.backup.storage.not_connected', '(Not Connected)')}
                   </Label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="schedule-s3"
+                    checked={scheduleForm.storage_locations.includes('s3')}
+                    onChange={(e) => {
+                      const locations = e.target.checked
+                        ? [...scheduleForm.storage_locations, 's3']
+                        : scheduleForm.storage_locations.filter(l => l !== 's3');
+                      setScheduleForm({ ...scheduleForm, storage_locations: locations });
+                    }}
+                    disabled={!s3Status?.available}
+                  />
+                  <Label htmlFor="schedule-s3" className="text-sm">
+                    {t('admin.backup.storage.s3', 'S3 Storage')} {!s3Status?.available && t('admin.backup.storage.not_connected', '(Not Connected)')}
+                  </Label>
+                </div>
               </div>
               <p className="text-xs text-muted-foreground">
                 {t('admin.backup.schedule_dialog.storage_help', 'Where to store the backup files')}
@@ -3109,6 +3181,23 @@ export default function BackupManagement() {
                     {t('admin.backup.storage.google_drive', 'Google Drive')} {!config?.google_drive?.enabled && t('admin.backup.storage.not_connected', '(Not Connected)')}
                   </Label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="upload-s3"
+                    checked={uploadForm.storage_locations.includes('s3')}
+                    onChange={(e) => {
+                      const locations = e.target.checked
+                        ? [...uploadForm.storage_locations, 's3']
+                        : uploadForm.storage_locations.filter(l => l !== 's3');
+                      setUploadForm(prev => ({ ...prev, storage_locations: locations }));
+                    }}
+                    disabled={!s3Status?.available || isUploading}
+                  />
+                  <Label htmlFor="upload-s3" className="text-sm">
+                    {t('admin.backup.storage.s3', 'S3 Storage')} {!s3Status?.available && t('admin.backup.storage.not_connected', '(Not Connected)')}
+                  </Label>
+                </div>
               </div>
               <p className="text-xs text-muted-foreground">
                 {t('admin.backup.upload.storage_help', 'Choose where to store the uploaded backup')}
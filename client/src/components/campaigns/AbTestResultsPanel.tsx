@@ -0,0 +1,171 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { FlaskConical, Loader2, Trophy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import type { CampaignAbTestSettings } from '@shared/schema';
+
+interface AbTestVariantResult {
+  variantId: string;
+  name: string;
+  splitPercentage: number;
+  recipients: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  failed: number;
+  deliveryRate: number;
+  readRate: number;
+  replyRate: number;
+}
+
+interface AbTestResults {
+  settings: CampaignAbTestSettings;
+  variants: AbTestVariantResult[];
+  heldBack: number;
+  decidesAt: string | null;
+  leadingVariantId: string | null;
+}
+
+interface AbTestResultsPanelProps {
+  campaignId: number;
+}
+
+export function AbTestResultsPanel({ campaignId }: AbTestResultsPanelProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: results } = useQuery<AbTestResults | null>({
+    queryKey: ['/api/campaigns', campaignId, 'ab-test'],
+    queryFn: async () => {
+      const response = await fetch(`/api/campaigns/${campaignId}/ab-test`, { credentials: 'include' });
+      const result = await response.json();
+      return result.success ? result.data : null;
+    },
+    refetchInterval: 30000,
+  });
+
+  const winnerMutation = useMutation({
+    mutationFn: async (variantId: string) => {
+      const response = await fetch(`/api/campaigns/${campaignId}/ab-test/winner`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ variantId })
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/campaigns', campaignId, 'ab-test'] });
+      toast({
+        title: t('common.success', 'Success'),
+        description: t('campaigns.ab_test.winner_selected', 'The winning variant is being sent to the remaining recipients'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', 'Error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!results) {
+    return null;
+  }
+
+  const { settings } = results;
+  const isTesting = settings.status === 'testing';
+
+  return (
+    <div className="space-y-3 py-4 border-b">
+      <div className="flex flex-wrap items-center gap-2">
+        <FlaskConical className="w-4 h-4" />
+        <span className="font-medium">{t('campaigns.ab_test.title', 'A/B Test')}</span>
+        {isTesting && (
+          <Badge variant="outline">
+            {results.decidesAt
+              ? t('campaigns.ab_test.testing_until', 'Testing until {{date}}', { date: new Date(results.decidesAt).toLocaleString() })
+              : t('campaigns.ab_test.testing', 'Testing')}
+          </Badge>
+        )}
+        {settings.status === 'winner_selected' && (
+          <Badge variant="secondary">
+            {settings.winnerSelectedBy === 'auto'
+              ? t('campaigns.ab_test.winner_auto', 'Winner selected automatically')
+              : t('campaigns.ab_test.winner_manual', 'Winner selected manually')}
+          </Badge>
+        )}
+        {isTesting && results.heldBack > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {t('campaigns.ab_test.held_back', '{{count}} recipients waiting for the winner', { count: results.heldBack })}
+          </span>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t('campaigns.ab_test.variant', 'Variant')}</TableHead>
+            <TableHead className="text-right">{t('campaigns.ab_test.recipients', 'Recipients')}</TableHead>
+            <TableHead className="text-right">{t('campaigns.ab_test.sent', 'Sent')}</TableHead>
+            <TableHead className="text-right">{t('campaigns.ab_test.delivery_rate', 'Delivery rate')}</TableHead>
+            <TableHead className="text-right">{t('campaigns.ab_test.read_rate', 'Read rate')}</TableHead>
+            <TableHead className="text-right">{t('campaigns.ab_test.reply_rate', 'Reply rate')}</TableHead>
+            {isTesting && <TableHead />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.variants.map(variant => {
+            const isWinner = variant.variantId === settings.winnerVariantId;
+            const isLeading = !settings.winnerVariantId && variant.variantId === results.leadingVariantId;
+
+            return (
+              <TableRow key={variant.variantId}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {variant.name}
+                    <span className="text-xs text-muted-foreground">{variant.splitPercentage}%</span>
+                    {isWinner && <Trophy className="w-4 h-4 text-yellow-500" />}
+                    {isLeading && (
+                      <Badge variant="outline" className="text-xs">{t('campaigns.ab_test.leading', 'Leading')}</Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{variant.recipients}</TableCell>
+                <TableCell className="text-right">{variant.sent}</TableCell>
+                <TableCell className="text-right">{variant.deliveryRate}%</TableCell>
+                <TableCell className="text-right">{variant.readRate}%</TableCell>
+                <TableCell className="text-right">{variant.replyRate}%</TableCell>
+                {isTesting && (
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={winnerMutation.isPending}
+                      onClick={() => winnerMutation.mutate(variant.variantId)}
+                    >
+                      {winnerMutation.isPending && winnerMutation.variables === variant.variantId && (
+                        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                      )}
+                      {t('campaigns.ab_test.pick_winner', 'Send to rest')}
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { FlaskConical, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useTranslation } from '@/hooks/use-translation';
+import type { CampaignAbTestMetric, CampaignAbTestSettings, CampaignAbTestVariant } from '@shared/schema';
+
+const MIN_VARIANTS = 2;
+const MAX_VARIANTS = 5;
+const VARIANT_IDS = ['A', 'B', 'C', 'D', 'E'];
+
+interface AbTestVariantsEditorProps {
+  value?: CampaignAbTestSettings | null;
+  onChange: (settings: CampaignAbTestSettings) => void;
+  baseContent: string;
+  disabled?: boolean;
+}
+
+/**
+ * Even split of 100% across the variants, the first ones get the remainder
+ */
+const evenSplit = (count: number) =>
+  Array.from({ length: count }, (_, index) => Math.floor(100 / count) + (index < 100 % count ? 1 : 0));
+
+const withEvenSplit = (variants: CampaignAbTestVariant[]) => {
+  const split = evenSplit(variants.length);
+  return variants.map((variant, index) => ({ ...variant, splitPercentage: split[index] }));
+};
+
+export const getAbTestValidationError = (settings: CampaignAbTestSettings | null | undefined): string | null => {
+  if (!settings?.enabled) {
+    return null;
+  }
+  if (settings.variants.length < MIN_VARIANTS || settings.variants.length > MAX_VARIANTS) {
+    return `A/B tests need ${MIN_VARIANTS}-${MAX_VARIANTS} variants`;
+  }
+  if (settings.variants.some(variant => !variant.content.trim())) {
+    return 'Every A/B test variant needs message content';
+  }
+  if (settings.variants.reduce((sum, variant) => sum + variant.splitPercentage, 0) !== 100) {
+    return 'A/B test split percentages must add up to 100';
+  }
+  return null;
+};
+
+export function AbTestVariantsEditor({ value, onChange, baseContent, disabled }: AbTestVariantsEditorProps) {
+  const { t } = useTranslation();
+
+  const settings: CampaignAbTestSettings = value || {
+    enabled: false,
+    variants: [],
+    testCohortPercentage: 20,
+    winnerMetric: 'read_rate',
+    testWindowHours: 4
+  };
+  const splitTotal = settings.variants.reduce((sum, variant) => sum + variant.splitPercentage, 0);
+
+  const toggleEnabled = (enabled: boolean) => {
+    const variants = settings.variants.length >= MIN_VARIANTS
+      ? settings.variants
+      : withEvenSplit([
+        { id: 'A', name: 'Variant A', content: baseContent, splitPercentage: 0 },
+        { id: 'B', name: 'Variant B', content: '', splitPercentage: 0 }
+      ]);
+    onChange({ ...settings, enabled, variants });
+  };
+
+  const updateVariant = (index: number, updates: Partial<CampaignAbTestVariant>) => {
+    onChange({
+      ...settings,
+      variants: settings.variants.map((variant, i) => i === index ? { ...variant, ...updates } : variant)
+    });
+  };
+
+  const addVariant = () => {
+    const id = VARIANT_IDS.find(candidate => !settings.variants.some(variant => variant.id === candidate)) || String(settings.variants.length + 1);
+    onChange({
+      ...settings,
+      variants: withEvenSplit([...settings.variants, { id, name: `Variant ${id}`, content: '', splitPercentage: 0 }])
+    });
+  };
+
+  const removeVariant = (index: number) => {
+    onChange({ ...settings, variants: withEvenSplit(settings.variants.filter((_, i) => i !== index)) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <FlaskConical className="w-4 h-4" />
+              {t('campaigns.builder.ab_test.title', 'A/B Test')}
+            </CardTitle>
+            <CardDescription>
+              {t('campaigns.builder.ab_test.description', 'Send variants to a test group first, then send the best one to everyone else')}
+            </CardDescription>
+          </div>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={toggleEnabled}
+            disabled={disabled}
+          />
+        </div>
+        {disabled && (
+          <p className="text-xs text-muted-foreground">
+            {t('campaigns.builder.ab_test.template_unsupported', 'A/B tests are not available for approved template messages')}
+          </p>
+        )}
+      </CardHeader>
+
+      {settings.enabled && !disabled && (
+        <CardContent className="space-y-4">
+          {settings.variants.map((variant, index) => (
+            <div key={variant.id} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={variant.name}
+                  onChange={(e) => updateVariant(index, { name: e.target.value })}
+                  className="flex-1"
+                />
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={variant.splitPercentage}
+                    onChange={(e) => updateVariant(index, { splitPercentage: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) })}
+                    className="w-20"
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+                {settings.variants.length > MIN_VARIANTS && (
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeVariant(index)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                rows={4}
+                value={variant.content}
+                onChange={(e) => updateVariant(index, { content: e.target.value })}
+                placeholder={t('campaigns.builder.ab_test.variant_placeholder', 'Message content for this variant')}
+              />
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            {settings.variants.length < MAX_VARIANTS ? (
+              <Button type="button" variant="outline" size="sm" onClick={addVariant}>
+                <Plus className="w-4 h-4 mr-1" />
+                {t('campaigns.builder.ab_test.add_variant', 'Add variant')}
+              </Button>
+            ) : <span />}
+            <span className={splitTotal === 100 ? 'text-sm text-muted-foreground' : 'text-sm text-destructive'}>
+              {t('campaigns.builder.ab_test.split_total', 'Split total: {{total}}%', { total: splitTotal })}
+            </span>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>{t('campaigns.builder.ab_test.cohort', 'Test group (% of recipients)')}</Label>
+              <Input
+                type="number"
+                min={1}
+                max={90}
+                value={settings.testCohortPercentage}
+                onChange={(e) => onChange({ ...settings, testCohortPercentage: Math.max(1, Math.min(90, parseInt(e.target.value) || 1)) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('campaigns.builder.ab_test.window', 'Pick winner after (hours)')}</Label>
+              <Input
+                type="number"
+                min={1}
+                max={168}
+                value={settings.testWindowHours}
+                onChange={(e) => onChange({ ...settings, testWindowHours: Math.max(1, Math.min(168, parseInt(e.target.value) || 1)) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('campaigns.builder.ab_test.metric', 'Winner is the highest')}</Label>
+              <Select
+                value={settings.winnerMetric}
+                onValueChange={(winnerMetric) => onChange({ ...settings, winnerMetric: winnerMetric as CampaignAbTestMetric })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="delivery_rate">{t('campaigns.builder.ab_test.delivery_rate', 'Delivery rate')}</SelectItem>
+                  <SelectItem value="read_rate">{t('campaigns.builder.ab_test.read_rate', 'Read rate')}</SelectItem>
+                  <SelectItem value="reply_rate">{t('campaigns.builder.ab_test.reply_rate', 'Reply rate')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
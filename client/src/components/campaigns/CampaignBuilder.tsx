@@ -32,6 +32,7 @@ import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { useChannelConnections } from '@/hooks/useChannelConnections';
+import { useBusinessHoursCalendars } from '@/hooks/use-business-hours-calendars';
 import { useTranslation } from '@/hooks/use-translation';
 import {
   AlertTriangle,
@@ -70,6 +71,7 @@ import { CreateTemplateModal } from './CreateTemplateModal';
 import { EditSegmentModal } from './EditSegmentModal';
 import { EditTemplateModal } from './EditTemplateModal';
 import { VariableInsertion } from './VariableInsertion';
+import { AbTestVariantsEditor, getAbTestValidationError } from './AbTestVariantsEditor';
 import {
   WhatsAppCampaignData,
   WhatsAppCampaignTemplate,
@@ -319,6 +321,12 @@ export function CampaignBuilder() {
   const { toast } = useToast();
 
   const { data: channelConnections = [], isLoading: connectionsLoading } = useChannelConnections();
+  const { calendars: businessHoursCalendars } = useBusinessHoursCalendars();
+  const selectedBusinessHoursCalendar = businessHoursCalendars.find(calendar =>
+    campaignData.antiBanSettings.businessHoursCalendarId
+      ? calendar.id === campaignData.antiBanSettings.businessHoursCalendarId
+      : calendar.isDefault
+  );
 
   const whatsappConnections = channelConnections.filter(
     (conn: any) => {
@@ -524,6 +532,7 @@ export function CampaignBuilder() {
             cooldownPeriod: 30,
             messageVariation: false
           },
+          abTestSettings: campaign.abTestSettings || undefined,
           recurringDailySettings: campaign.recurringDailySettings || (campaign.campaignType === 'recurring_daily' && campaign.dripSettings ? {
             enabled: true,
             sendTimes: campaign.dripSettings.sendTimes || ['10:00'],
@@ -1106,6 +1115,11 @@ export function CampaignBuilder() {
       errors.push(t('campaigns.builder.validation.name_required', 'Campaign name is required'));
     }
 
+    const abTestError = getAbTestValidationError(campaignData.abTestSettings);
+    if (abTestError) {
+      errors.push(t('campaigns.builder.validation.ab_test_invalid', abTestError));
+    }
+
 
     const hasAccounts = (campaignData.whatsappAccountIds?.length || 0) > 0 ||
                        (campaignData.channelIds?.length || 0) > 0 ||
@@ -2157,6 +2171,15 @@ export function CampaignBuilder() {
               )}
             </div>
 
+            {campaignData.campaignType !== 'recurring_daily' && (
+              <AbTestVariantsEditor
+                value={campaignData.abTestSettings}
+                onChange={(abTestSettings) => setCampaignData(prev => ({ ...prev, abTestSettings }))}
+                baseContent={campaignData.content}
+                disabled={isOfficialTemplateSelected()}
+              />
+            )}
+
           </div>
         );
 
@@ -2341,46 +2364,32 @@ export function CampaignBuilder() {
                       <CardTitle className="text-lg">{t('campaigns.builder.antiban.business_hours_config_title', 'Business Hours Configuration')}</CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <Label htmlFor="businessStartTime">{t('campaigns.builder.antiban.start_time_label', 'Start Time')}</Label>
-                          <Input
-                            id="businessStartTime"
-                            type="time"
-                            defaultValue="09:00"
-                            className="w-full"
-                          />
-                        </div>
-                        <div>
-                          <Label htmlFor="businessEndTime">{t('campaigns.builder.antiban.end_time_label', 'End Time')}</Label>
-                          <Input
-                            id="businessEndTime"
-                            type="time"
-                            defaultValue="18:00"
-                            className="w-full"
-                          />
-                        </div>
-                      </div>
-
                       <div>
-                        <Label htmlFor="timezone">{t('campaigns.builder.antiban.timezone_label', 'Timezone')}</Label>
-                        <Select defaultValue="UTC">
-                          <SelectTrigger>
-                            <SelectValue placeholder={t('campaigns.builder.antiban.timezone_placeholder', 'Select timezone')} />
+                        <Label htmlFor="businessHoursCalendar">{t('campaigns.builder.antiban.calendar_label', 'Business hours calendar')}</Label>
+                        <Select
+                          value={campaignData.antiBanSettings.businessHoursCalendarId ? String(campaignData.antiBanSettings.businessHoursCalendarId) : 'default'}
+                          onValueChange={(value) => setCampaignData(prev => ({
+                            ...prev,
+                            antiBanSettings: { ...prev.antiBanSettings, businessHoursCalendarId: value === 'default' ? null : Number(value) }
+                          }))}
+                        >
+                          <SelectTrigger id="businessHoursCalendar">
+                            <SelectValue placeholder={t('campaigns.builder.antiban.calendar_placeholder', 'Select calendar')} />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="UTC">UTC (Coordinated Universal Time)</SelectItem>
-                            <SelectItem value="America/New_York">Eastern Time (ET)</SelectItem>
-                            <SelectItem value="America/Chicago">Central Time (CT)</SelectItem>
-                            <SelectItem value="America/Denver">Mountain Time (MT)</SelectItem>
-                            <SelectItem value="America/Los_Angeles">Pacific Time (PT)</SelectItem>
-                            <SelectItem value="Europe/London">London (GMT/BST)</SelectItem>
-                            <SelectItem value="Europe/Paris">Paris (CET/CEST)</SelectItem>
-                            <SelectItem value="Asia/Tokyo">Tokyo (JST)</SelectItem>
-                            <SelectItem value="Asia/Shanghai">Shanghai (CST)</SelectItem>
-                            <SelectItem value="Asia/Kolkata">India (IST)</SelectItem>
+                            <SelectItem value="default">{t('campaigns.builder.antiban.default_calendar', 'Company default calendar')}</SelectItem>
+                            {businessHoursCalendars.map(calendar => (
+                              <SelectItem key={calendar.id} value={String(calendar.id)}>
+                                {calendar.name} ({calendar.timezone})
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {businessHoursCalendars.length === 0
+                            ? t('campaigns.builder.antiban.no_calendars', 'No business hours calendars yet. Messages are sent between 9:00 and 18:00 server time. Create calendars in Settings.')
+                            : t('campaigns.builder.antiban.calendar_help', 'Messages due while the calendar is closed, including holidays, wait until it next opens.')}
+                        </p>
                       </div>
 
                       {/* Business Hours Preview */}
@@ -2391,7 +2400,7 @@ export function CampaignBuilder() {
                             <>
                               <p>{t('campaigns.builder.antiban.estimated_schedule', 'Estimated schedule based on current settings')}:</p>
                               <ul className="mt-2 space-y-1">
-                                <li>• {t('campaigns.builder.antiban.daily_hours', 'Daily sending window')}: 9:00 AM - 6:00 PM</li>
+                                <li>• {t('campaigns.builder.antiban.daily_hours', 'Daily sending window')}: {selectedBusinessHoursCalendar?.name || '9:00 AM - 6:00 PM'}</li>
                                 <li>• {t('campaigns.builder.antiban.messages_per_day', 'Messages per day')}: {Math.min(rateLimitCalculation.recommended_messages_per_minute * 60 * 9, segments.find(s => s.id === campaignData.segmentId)?.contactCount || 0)}</li>
                                 <li>• {t('campaigns.builder.antiban.estimated_days', 'Estimated completion')}: {Math.ceil((segments.find(s => s.id === campaignData.segmentId)?.contactCount || 0) / (rateLimitCalculation.recommended_messages_per_minute * 60 * 9))} business days</li>
                                 {campaignData.antiBanSettings.respectWeekends && (
@@ -26,6 +26,7 @@ import {
 import { Loader2, Download, Search, ChevronLeft, ChevronRight, Eye, EyeOff } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from '@/hooks/use-translation';
+import { AbTestResultsPanel } from './AbTestResultsPanel';
 
 interface CampaignDetail {
   id: number;
@@ -224,6 +225,8 @@ export function CampaignDetailsModal({
           <DialogTitle>{t('campaigns.details.title', 'Campaign Details')} - {campaignName}</DialogTitle>
         </DialogHeader>
 
+        <AbTestResultsPanel campaignId={campaignId} />
+
         <div className="flex flex-col sm:flex-row gap-4 py-4 border-b">
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { FilterSection } from '@/components/segments/FilterSection';
 import { ContactPreviewTable } from '@/components/segments/ContactPreviewTable';
 import { SegmentSummary } from '@/components/segments/SegmentSummary';
+import { CustomFieldFilters, getActiveCustomFieldFilters } from '@/components/segments/CustomFieldFilters';
+import { SegmentRuleBuilder, countActiveRules, createEmptyRuleGroup } from '@/components/segments/SegmentRuleBuilder';
 import {
   Dialog,
   DialogContent,
@@ -47,7 +49,9 @@ import {
   Download,
   FileText,
   Target,
-  Settings
+  Settings,
+  SlidersHorizontal,
+  GitBranch
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from '@/hooks/use-translation';
@@ -88,7 +92,8 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
   const [criteria, setCriteria] = useState<SegmentCriteria>({
     tags: [],
     created_after: '',
-    created_before: ''
+    created_before: '',
+    customFields: []
   });
   const [newTag, setNewTag] = useState('');
   const [contactCount, setContactCount] = useState<number | null>(null);
@@ -117,7 +122,7 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
   useEffect(() => {
     if (isOpen) {
       setFormData({ name: '', description: '' });
-      setCriteria({ tags: [], created_after: '', created_before: '' });
+      setCriteria({ tags: [], created_after: '', created_before: '', customFields: [] });
       setNewTag('');
       setContactCount(null);
       setContactPreview([]);
@@ -180,7 +185,7 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
   );
 
   useEffect(() => {
-    if (isOpen && ((criteria.tags?.length ?? 0) > 0 || criteria.created_after || criteria.created_before || (selectedPipelineStageIds.length > 0))) {
+    if (isOpen && ((criteria.tags?.length ?? 0) > 0 || criteria.created_after || criteria.created_before || getActiveCustomFieldFilters(criteria.customFields).length > 0 || countActiveRules(criteria.rules) > 0 || (selectedPipelineStageIds.length > 0))) {
       const criteriaWithPipelineStages = {
         ...criteria,
         pipelineStageIds: selectedPipelineStageIds.length > 0 ? selectedPipelineStageIds : undefined
@@ -379,7 +384,7 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
           ...criteria,
           pipelineStageIds: selectedPipelineStageIds.length > 0 ? selectedPipelineStageIds : undefined
         };
-        if ((criteria.tags?.length ?? 0) > 0 || criteria.created_after || criteria.created_before || (selectedPipelineStageIds.length > 0)) {
+        if ((criteria.tags?.length ?? 0) > 0 || criteria.created_after || criteria.created_before || getActiveCustomFieldFilters(criteria.customFields).length > 0 || countActiveRules(criteria.rules) > 0 || (selectedPipelineStageIds.length > 0)) {
           debouncedPreview(criteriaWithPipelineStages);
         }
 
@@ -435,7 +440,7 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
     try {
       let criteriaToSend: SegmentFilterCriteria;
 
-      if (hasMoreContacts) {
+      if (hasMoreContacts || countActiveRules(criteria.rules) > 0) {
         criteriaToSend = {
           ...criteria,
           excludedContactIds,
@@ -485,6 +490,10 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
 
   const hasDateFilters = !!(criteria.created_after || criteria.created_before);
   const hasTagFilters = (criteria.tags?.length ?? 0) > 0;
+  const activeCustomFieldFilterCount = getActiveCustomFieldFilters(criteria.customFields).length;
+  const hasCustomFieldFilters = activeCustomFieldFilterCount > 0;
+  const activeRuleCount = countActiveRules(criteria.rules);
+  const hasRuleFilters = activeRuleCount > 0;
   const hasPipelineFilters = selectedPipelineStageIds.length > 0;
 
   const getDateSummary = () => {
@@ -676,6 +685,37 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
               </div>
             </FilterSection>
 
+            {/* Custom Field Filters */}
+            <FilterSection
+              title={t('segments.create.custom_field_filters', 'Custom Field Filters')}
+              icon={<SlidersHorizontal className="w-4 h-4" />}
+              summary={hasCustomFieldFilters ? `${activeCustomFieldFilterCount} conditions` : 'No custom field filter'}
+              isActive={hasCustomFieldFilters}
+              defaultExpanded={false}
+              color="orange"
+            >
+              <CustomFieldFilters
+                value={criteria.customFields ?? []}
+                onChange={(customFields) => setCriteria(prev => ({ ...prev, customFields }))}
+              />
+            </FilterSection>
+
+            {/* Advanced Rules */}
+            <FilterSection
+              title={t('segments.create.advanced_rules', 'Advanced Rules')}
+              icon={<GitBranch className="w-4 h-4" />}
+              summary={hasRuleFilters ? `${activeRuleCount} rules` : 'No advanced rules'}
+              isActive={hasRuleFilters}
+              defaultExpanded={false}
+              color="purple"
+            >
+              <SegmentRuleBuilder
+                value={criteria.rules ?? createEmptyRuleGroup()}
+                onChange={(rules) => setCriteria(prev => ({ ...prev, rules }))}
+                pipelineStages={pipelineStages}
+              />
+            </FilterSection>
+
             {/* Pipeline Stage Filters */}
             <FilterSection
               title={t('segments.create.pipeline_stage_filters', 'Pipeline Stage Filters')}
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { FilterSection } from '@/components/segments/FilterSection';
 import { ContactPreviewTable } from '@/components/segments/ContactPreviewTable';
 import { SegmentSummary } from '@/components/segments/SegmentSummary';
+import { CustomFieldFilters, getActiveCustomFieldFilters } from '@/components/segments/CustomFieldFilters';
+import { SegmentRuleBuilder, countActiveRules, createEmptyRuleGroup } from '@/components/segments/SegmentRuleBuilder';
 import {
   Dialog,
   DialogContent,
@@ -56,7 +58,9 @@ import {
   Target,
   Settings,
   Download,
-  Upload
+  Upload,
+  SlidersHorizontal,
+  GitBranch
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from '@/hooks/use-translation';
@@ -89,7 +93,8 @@ export function EditSegmentModal({ isOpen, onClose, segmentId, onSegmentUpdated
   const [criteria, setCriteria] = useState<SegmentCriteria>({
     tags: [],
     created_after: '',
-    created_before: ''
+    created_before: '',
+    customFields: []
   });
   const [newTag, setNewTag] = useState('');
   const [contactCount, setContactCount] = useState<number | null>(null);
@@ -150,6 +155,7 @@ export function EditSegmentModal({ isOpen, onClose, segmentId, onSegmentUpdated
           tags: [],
           created_after: '',
           created_before: '',
+          customFields: [],
           ...segment.criteria
         };
         setCriteria(segmentCriteria);
@@ -480,6 +486,10 @@ export function EditSegmentModal({ isOpen, onClose, segmentId, onSegmentUpdated
 
   const hasDateFilters = !!(criteria.created_after || criteria.created_before);
   const hasTagFilters = (criteria.tags?.length ?? 0) > 0;
+  const activeCustomFieldFilterCount = getActiveCustomFieldFilters(criteria.customFields).length;
+  const hasCustomFieldFilters = activeCustomFieldFilterCount > 0;
+  const activeRuleCount = countActiveRules(criteria.rules);
+  const hasRuleFilters = activeRuleCount > 0;
   const hasPipelineFilters = selectedPipelineStageIds.length > 0;
 
   const getDateSummary = () => {
@@ -680,6 +690,37 @@ export function EditSegmentModal({ isOpen, onClose, segmentId, onSegmentUpdated
                 </div>
               </FilterSection>
 
+              {/* Custom Field Filters */}
+              <FilterSection
+                title={t('segments.edit.custom_field_filters', 'Custom Field Filters')}
+                icon={<SlidersHorizontal className="w-4 h-4" />}
+                summary={hasCustomFieldFilters ? `${activeCustomFieldFilterCount} conditions` : 'No custom field filter'}
+                isActive={hasCustomFieldFilters}
+                defaultExpanded={false}
+                color="orange"
+              >
+                <CustomFieldFilters
+                  value={criteria.customFields ?? []}
+                  onChange={(customFields) => setCriteria(prev => ({ ...prev, customFields }))}
+                />
+              </FilterSection>
+
+              {/* Advanced Rules */}
+              <FilterSection
+                title={t('segments.create.advanced_rules', 'Advanced Rules')}
+                icon={<GitBranch className="w-4 h-4" />}
+                summary={hasRuleFilters ? `${activeRuleCount} rules` : 'No advanced rules'}
+                isActive={hasRuleFilters}
+                defaultExpanded={false}
+                color="purple"
+              >
+                <SegmentRuleBuilder
+                  value={criteria.rules ?? createEmptyRuleGroup()}
+                  onChange={(rules) => setCriteria(prev => ({ ...prev, rules }))}
+                  pipelineStages={pipelineStages}
+                />
+              </FilterSection>
+
               {/* Pipeline Stage Filters */}
               <FilterSection
                 title={t('segments.edit.pipeline_stage_filters', 'Pipeline Stage Filters')}
@@ -745,7 +786,7 @@ export function EditSegmentModal({ isOpen, onClose, segmentId, onSegmentUpdated
               </FilterSection>
 
               {/* Warning when contactIds are combined with other criteria */}
-              {hasContactIds && ((criteria.tags?.length ?? 0) > 0 || criteria.created_after || criteria.created_before) && (
+              {hasContactIds && ((criteria.tags?.length ?? 0) > 0 || criteria.created_after || criteria.created_before || hasCustomFieldFilters || hasRuleFilters) && (
                 <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
                   <div className="flex items-start gap-2">
                     <AlertTriangle className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
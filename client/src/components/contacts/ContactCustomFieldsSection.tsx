@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { apiRequest } from '@/lib/queryClient';
+import { formatCustomFieldValue } from '@shared/utils/custom-fields';
+import type { CustomFieldValue } from '@shared/schema';
+import { CustomFieldInput } from './CustomFieldInput';
+
+interface ContactCustomFieldsSectionProps {
+  contact: any;
+  onContactUpdated?: (contact: any) => void;
+}
+
+export function ContactCustomFieldsSection({ contact, onContactUpdated }: ContactCustomFieldsSectionProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { customFields } = useCustomFields('contact');
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<string, CustomFieldValue>>({});
+
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(contact?.customFields || {});
+    }
+  }, [contact?.customFields, isEditing]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload: Record<string, CustomFieldValue> = {};
+      customFields.forEach(field => {
+        payload[field.fieldName] = draft[field.fieldName] ?? null;
+      });
+      const res = await apiRequest('PATCH', `/api/contacts/${contact.id}`, { customFields: payload });
+      return res.json();
+    },
+    onSuccess: (updatedContact) => {
+      setIsEditing(false);
+      onContactUpdated?.(updatedContact);
+      toast({
+        title: t('common.success', 'Success'),
+        description: t('contacts.custom_fields.saved', 'Custom fields updated'),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t('common.error', 'Error'),
+        description: error.message || t('contacts.custom_fields.save_failed', 'Failed to update custom fields'),
+        variant: 'destructive'
+      });
+    }
+  });
+
+  if (!contact || customFields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 border-b border-border">
+      <h3 className="font-medium mb-4">{t('contacts.custom_fields.title', 'Custom Fields')}</h3>
+
+      <div className="space-y-3">
+        {customFields.map(field => (
+          <div key={field.id}>
+            <p className="text-xs text-muted-foreground">
+              {field.fieldLabel}
+              {field.required && isEditing && <span className="text-destructive ml-0.5">*</span>}
+            </p>
+            {isEditing ? (
+              <div className="mt-1">
+                <CustomFieldInput
+                  field={field}
+                  value={draft[field.fieldName]}
+                  onChange={(value) => setDraft(prev => ({ ...prev, [field.fieldName]: value }))}
+                  disabled={saveMutation.isPending}
+                />
+              </div>
+            ) : (
+              <p className="text-sm">
+                {formatCustomFieldValue(field, contact.customFields?.[field.fieldName]) ||
+                  t('contacts.details.not_provided', 'Not provided')}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isEditing ? (
+        <div className="flex gap-2 mt-4">
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {t('common.save', 'Save')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsEditing(false)}
+            disabled={saveMutation.isPending}
+          >
+            {t('common.cancel', 'Cancel')}
+          </Button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsEditing(true)}
+          className="mt-4 text-primary-600 text-sm flex items-center hover:text-primary-700 transition-colors"
+        >
+          <i className="ri-edit-line mr-1"></i>
+          {t('contacts.custom_fields.edit', 'Edit custom fields')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation } from '@/hooks/use-translation';
+import type { CompanyCustomField, CustomFieldValue } from '@shared/schema';
+
+const CLEAR_VALUE = '__none__';
+
+interface CustomFieldInputProps {
+  field: CompanyCustomField;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+  disabled?: boolean;
+}
+
+export function CustomFieldInput({ field, value, onChange, disabled }: CustomFieldInputProps) {
+  const { t } = useTranslation();
+  const options = field.options || [];
+
+  switch (field.fieldType) {
+    case 'number':
+      return (
+        <Input
+          type="number"
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          disabled={disabled}
+        />
+      );
+
+    case 'date':
+      return (
+        <Input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          disabled={disabled}
+        />
+      );
+
+    case 'boolean':
+      return (
+        <Switch
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked)}
+          disabled={disabled}
+        />
+      );
+
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' && value ? value : CLEAR_VALUE}
+          onValueChange={(selected) => onChange(selected === CLEAR_VALUE ? null : selected)}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CLEAR_VALUE}>{t('contacts.custom_fields.not_set', 'Not set')}</SelectItem>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-3">
+          {options.map(option => (
+            <label key={option.value} className="flex items-center gap-1.5 text-sm">
+              <Checkbox
+                checked={selected.includes(option.value)}
+                onCheckedChange={(checked) => {
+                  const next = checked
+                    ? [...selected, option.value]
+                    : selected.filter(item => item !== option.value);
+                  onChange(next.length > 0 ? next : null);
+                }}
+                disabled={disabled}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <Input
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      );
+  }
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { AlertTriangle, CheckCircle, Download, Loader2, ShieldAlert } from 'lucide-react';
+
+type ErasureMode = 'erase' | 'anonymize';
+
+interface ErasureReport {
+  mode: ErasureMode;
+  affected: Record<string, number>;
+  files: { deleted: number; failed: string[] };
+  recordings: { deleted: number; failed: number };
+  remaining: Record<string, number>;
+  verified: boolean;
+}
+
+interface DataSubjectRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contact: { id: number; name: string } | null;
+  onErased?: () => void;
+}
+
+/**
+ * GDPR access and erasure requests for one contact: download everything stored about them, or
+ * erase/anonymize it after typing the contact's name
+ */
+export function DataSubjectRequestModal({ isOpen, onClose, contact, onErased }: DataSubjectRequestModalProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [exportingFormat, setExportingFormat] = useState<'zip' | 'json' | null>(null);
+  const [mode, setMode] = useState<ErasureMode>('erase');
+  const [confirmation, setConfirmation] = useState('');
+  const [isErasing, setIsErasing] = useState(false);
+  const [report, setReport] = useState<ErasureReport | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('erase');
+      setConfirmation('');
+      setReport(null);
+    }
+  }, [isOpen, contact?.id]);
+
+  if (!contact) return null;
+
+  const handleExport = async (format: 'zip' | 'json') => {
+    setExportingFormat(format);
+    try {
+      const response = await fetch(`/api/data-subject-requests/contacts/${contact.id}/export?format=${format}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Export failed');
+      }
+
+      const contentDisposition = response.headers.get('Content-Disposition');
+      const filename = contentDisposition?.split('filename=')[1]?.replace(/"/g, '') || `contact-${contact.id}-export.${format}`;
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      window.URL.revokeObjectURL(url);
+
+      toast({
+        title: t('contacts.data_request.export_success_title', 'Export Ready'),
+        description: t('contacts.data_request.export_success_message', 'The contact\'s data has been downloaded.')
+      });
+    } catch (error: any) {
+      toast({
+        title: t('contacts.data_request.export_error_title', 'Export Failed'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleErase = async () => {
+    setIsErasing(true);
+    try {
+      const response = await fetch(`/api/data-subject-requests/contacts/${contact.id}/erase`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode, confirmation: confirmation.trim() })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Erasure failed');
+      }
+
+      setReport(data.data);
+      onErased?.();
+      toast({
+        title: data.data.verified
+          ? t('contacts.data_request.erase_verified_title', 'Personal Data Removed')
+          : t('contacts.data_request.erase_incomplete_title', 'Erasure Needs Attention'),
+        description: data.data.verified
+          ? t('contacts.data_request.erase_verified_message', 'Verification found no personal data left for this contact.')
+          : t('contacts.data_request.erase_incomplete_message', 'Some data could not be removed. See the report for details.'),
+        variant: data.data.verified ? 'default' : 'destructive'
+      });
+    } catch (error: any) {
+      toast({
+        title: t('contacts.data_request.erase_error_title', 'Erasure Failed'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    } finally {
+      setIsErasing(false);
+    }
+  };
+
+  const remainingEntries = report ? Object.entries(report.remaining).filter(([, count]) => count > 0) : [];
+  const affectedEntries = report ? Object.entries(report.affected).filter(([, count]) => count > 0) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            {t('contacts.data_request.title', 'Data Subject Request')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('contacts.data_request.description', 'Export or erase everything stored about {{name}}.', { name: contact.name })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <h4 className="font-medium">{t('contacts.data_request.export_heading', 'Export')}</h4>
+          <p className="text-sm text-muted-foreground">
+            {t('contacts.data_request.export_help', 'Messages, media, notes, deals, tasks, appointments, flow data, campaigns and call logs. The ZIP also contains files and documents.')}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleExport('zip')} disabled={!!exportingFormat}>
+              {exportingFormat === 'zip' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+              {t('contacts.data_request.download_zip', 'Download ZIP')}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={!!exportingFormat}>
+              {exportingFormat === 'json' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+              {t('contacts.data_request.download_json', 'Download JSON')}
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        {report ? (
+          <div className="space-y-3">
+            <Alert variant={report.verified ? 'default' : 'destructive'}>
+              {report.verified ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+              <AlertDescription>
+                {report.verified
+                  ? t('contacts.data_request.report_verified', 'Verified: no personal data remains for this contact.')
+                  : t('contacts.data_request.report_incomplete', 'Verification found data that was not removed.')}
+              </AlertDescription>
+            </Alert>
+            {affectedEntries.length > 0 && (
+              <div className="text-sm">
+                <p className="text-muted-foreground mb-1">{t('contacts.data_request.report_affected', 'Records processed')}</p>
+                <div className="flex flex-wrap gap-1">
+                  {affectedEntries.map(([key, count]) => (
+                    <span key={key} className="px-2 py-0.5 text-xs rounded-full bg-muted">{key}: {count}</span>
+                  ))}
+                </div>
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              {t('contacts.data_request.report_files', '{{deleted}} files and {{recordings}} call recordings deleted.', {
+                deleted: report.files.deleted,
+                recordings: report.recordings.deleted
+              })}
+            </p>
+            {(remainingEntries.length > 0 || report.files.failed.length > 0) && (
+              <ul className="text-sm list-disc pl-5">
+                {remainingEntries.map(([key, count]) => <li key={key}>{key}: {count}</li>)}
+                {report.files.failed.map(file => <li key={file} className="break-all">{file}</li>)}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('contacts.data_request.erase_heading', 'Erase')}</h4>
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as ErasureMode)} className="space-y-2">
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="erase" id="dsr-erase" className="mt-1" />
+                <Label htmlFor="dsr-erase" className="font-normal">
+                  <span className="font-medium">{t('contacts.data_request.mode_erase', 'Erase')}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {t('contacts.data_request.mode_erase_help', 'Delete conversations, notes, deals, tasks, flow and campaign records, calls and files.')}
+                  </span>
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="anonymize" id="dsr-anonymize" className="mt-1" />
+                <Label htmlFor="dsr-anonymize" className="font-normal">
+                  <span className="font-medium">{t('contacts.data_request.mode_anonymize', 'Anonymize')}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {t('contacts.data_request.mode_anonymize_help', 'Keep records for reporting but redact content and personal details, and delete files.')}
+                  </span>
+                </Label>
+              </div>
+            </RadioGroup>
+            <div className="grid gap-2">
+              <Label htmlFor="dsr-confirmation">
+                {t('contacts.data_request.confirm_label', 'Type {{name}} to confirm', { name: contact.name })}
+              </Label>
+              <Input id="dsr-confirmation" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} autoComplete="off" />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t('contacts.data_request.erase_warning', 'This cannot be undone. The request is recorded in the contact\'s audit log.')}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {report ? t('common.close', 'Close') : t('common.cancel', 'Cancel')}
+          </Button>
+          {!report && (
+            <Button
+              variant="destructive"
+              onClick={handleErase}
+              disabled={isErasing || confirmation.trim() !== contact.name.trim()}
+            >
+              {isErasing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {mode === 'erase'
+                ? t('contacts.data_request.erase_button', 'Erase Data')
+                : t('contacts.data_request.anonymize_button', 'Anonymize Data')}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,6 +10,8 @@ import { ContactAvatar } from '@/components/contacts/ContactAvatar';
 import { ClearChatHistoryDialog } from './ClearChatHistoryDialog';
 import { TwilioIcon } from '@/components/icons/TwilioIcon';
 import EditContactDialog from './EditContactDialog';
+import WebChatVisitorInfo from './WebChatVisitorInfo';
+import { ContactCustomFieldsSection } from '@/components/contacts/ContactCustomFieldsSection';
 import useSocket from '@/hooks/useSocket';
 import { useMobileLayout } from '@/contexts/mobile-layout-context';
 import { usePermissions } from '@/hooks/usePermissions';
@@ -229,6 +231,11 @@ export default function ContactDetails({
           </div>
         </div>
 
+        <ContactCustomFieldsSection
+          contact={currentContact || contact}
+          onContactUpdated={handleContactUpdated}
+        />
+
         <div className="p-4 border-b border-border">
           <h3 className="font-medium mb-4">{t('contacts.details.conversation_details', 'Conversation Details')}</h3>
 
@@ -252,6 +259,10 @@ export default function ContactDetails({
           </div>
         </div>
 
+        {conversation?.channelType === 'webchat' && (
+          <WebChatVisitorInfo metadata={conversation.visitorMetadata} />
+        )}
+
         <div className="p-4">
           <Separator className="mb-4" />
           <Button
@@ -4,6 +4,7 @@ import { GroupAvatar } from '@/components/groups/GroupAvatar';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { ChannelConnection } from '@shared/schema';
 import AgentAssignment from './AgentAssignment';
+import SlaBadge from './SlaBadge';
 import { useState, useMemo, useEffect } from 'react';
 import { apiRequest } from '@/lib/queryClient';
 import { useTranslation } from '@/hooks/use-translation';
@@ -75,6 +76,8 @@ export default function ConversationItem({ conversation, isActive, onClick, sear
         return { icon: 'ri-message-3-line', color: '#6366f1', name: t('conversations.item.channel.webchat', 'WebChat') };
       case 'telegram':
         return { icon: 'ri-telegram-line', color: '#0088CC', name: t('conversations.item.channel.telegram', 'Telegram') };
+      case 'custom':
+        return { icon: 'ri-plug-line', color: '#0EA5E9', name: t('conversations.item.channel.custom', 'Custom Channel') };
       default:
         return { icon: 'ri-message-3-line', color: '#333235', name: t('conversations.item.channel.chat', 'Chat') };
     }
@@ -328,6 +331,8 @@ export default function ConversationItem({ conversation, isActive, onClick, sear
                 <span className="sm:hidden">{t('conversations.item.waiting', 'Waiting')}</span>
               </span>
             )}
+
+            <SlaBadge conversation={conversation} />
           </div>
 
           <div className="flex items-center flex-shrink-0" onClick={(e) => e.stopPropagation()}>
@@ -22,6 +22,8 @@ import { shouldShowDateSeparator, getConversationStartDate, formatMessageDate, f
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { useTikTokMessagingWindow } from '@/hooks/useTikTokMessagingWindow';
+import { useWebChatTypingListener } from '@/hooks/useWebChatTypingIndicator';
+import { TypingIndicator } from './TypingIndicator';
 import { useLocation } from 'wouter';
 import { useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
@@ -38,6 +40,9 @@ import { Loader2 } from 'lucide-react';
 import { requestMicrophoneAccess, checkMicrophonePermission, stopMicrophoneStream } from '@/utils/microphone-permissions';
 import './ConversationStyles.css';
 
+/** Pages of history to walk back through when jumping to a message from search */
+const MAX_FOCUS_PAGES = 40;
+
 export default function ConversationView() {
   const {
     activeConversationId,
@@ -45,6 +50,8 @@ export default function ConversationView() {
     messagesPagination,
     loadMoreMessages,
     setReplyToMessage,
+    focusMessageId,
+    setFocusMessageId,
     conversations,
     groupConversations
   } = useConversations();
@@ -55,6 +62,7 @@ export default function ConversationView() {
   const queryClient = useQueryClient();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const focusPagesLoadedRef = useRef(0);
   const [shouldScrollToBottom, setShouldScrollToBottom] = useState(true);
   const [prevMessageCount, setPrevMessageCount] = useState(0);
   const [connectionStatus, setConnectionStatus] = useState<string>('unknown');
@@ -155,6 +163,11 @@ export default function ConversationView() {
     activeConversation?.groupMetadata
   );
 
+  const { isVisitorTyping } = useWebChatTypingListener(
+    activeConversationId,
+    activeConversation?.channelType === 'webchat'
+  );
+
   const handleDeleteContact = async () => {
     if (!contact || !activeConversationId) return;
 
@@ -405,6 +418,41 @@ export default function ConversationView() {
     setPrevMessageCount(currentMessageCount);
   }, [activeMessages, prevMessageCount, shouldScrollToBottom, shouldScrollOnLoad]);
 
+  useEffect(() => {
+    focusPagesLoadedRef.current = 0;
+  }, [focusMessageId]);
+
+  useEffect(() => {
+    if (!focusMessageId || !activeConversationId) return;
+
+    const pagination = messagesPagination[activeConversationId];
+    if (!pagination || pagination.loading || activeMessages.length === 0) return;
+
+    if (activeMessages.some(message => message.id === focusMessageId)) {
+      const timeoutId = setTimeout(() => {
+        const messageElement = document.querySelector(`[data-message-id="${focusMessageId}"]`);
+        if (messageElement) {
+          setShouldScrollToBottom(false);
+          messageElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+          messageElement.classList.add('highlighted-message');
+          setTimeout(() => {
+            messageElement.classList.remove('highlighted-message');
+          }, 2000);
+        }
+        setFocusMessageId(null);
+      }, 400);
+
+      return () => clearTimeout(timeoutId);
+    }
+
+    if (pagination.hasMore && focusPagesLoadedRef.current < MAX_FOCUS_PAGES) {
+      focusPagesLoadedRef.current += 1;
+      loadMoreMessages(activeConversationId);
+    } else {
+      setFocusMessageId(null);
+    }
+  }, [focusMessageId, activeConversationId, activeMessages, messagesPagination, loadMoreMessages, setFocusMessageId]);
+
   const scrollToBottom = () => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
@@ -607,6 +655,8 @@ export default function ConversationView() {
         return { icon: TwilioIcon, color: '#F22F46', name: t('conversations.view.channel.twilio', 'Twilio') };
       case 'webapp':
         return { icon: 'ri-global-line', color: '#8B5CF6', name: t('conversations.view.channel.web_chat', 'Web Chat') };
+      case 'custom':
+        return { icon: 'ri-plug-line', color: '#0EA5E9', name: t('conversations.view.channel.custom', 'Custom Channel') };
       default:
         return { icon: 'ri-message-3-line', color: '#333235', name: t('conversations.view.channel.chat', 'Chat') };
     }
@@ -853,6 +903,13 @@ export default function ConversationView() {
 
             {renderMessagesWithDateSeparators()}
 
+            <TypingIndicator
+              isTyping={isVisitorTyping}
+              variant="inline"
+              userName={contact?.name || t('inbox.visitor', 'Visitor')}
+              className="mt-2"
+            />
+
             <div ref={messagesEndRef} />
           </div>
 
@@ -1103,7 +1103,7 @@ export default function MessageBubble({ message, contact, channelType, onReply,
     const participantInfo = getParticipantInfo();
 
     return (
-      <div className="flex mb-4" data-external-id={message.externalId}>
+      <div className="flex mb-4" data-external-id={message.externalId} data-message-id={message.id}>
         <div className="flex-shrink-0 mr-2">
           {isGroupChat() && participantInfo ? (
             <GroupParticipantAvatar
@@ -1194,7 +1194,7 @@ export default function MessageBubble({ message, contact, channelType, onReply,
   }
   
   return (
-    <div className="flex mb-4 justify-end" data-external-id={message.externalId}>
+    <div className="flex mb-4 justify-end" data-external-id={message.externalId} data-message-id={message.id}>
       <div className="max-w-[75%] md:max-w-[70%]">
         
         <div
@@ -3,6 +3,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from '@/hooks/use-translation';
 import { useConversations } from '@/context/ConversationContext';
 import { useBotStatus } from '@/hooks/useBotStatus';
+import { useWebChatTypingIndicator } from '@/hooks/useWebChatTypingIndicator';
 import MediaUploadModal from './MediaUploadModal';
 import MessageScheduler from './MessageScheduler';
 import EmojiPickerComponent from '@/components/ui/emoji-picker';
@@ -29,6 +30,10 @@ export default function MessageInput({ conversationId, conversation, contact }:
   const [isSchedulerOpen, setIsSchedulerOpen] = useState(false);
 
   const { isBotDisabled, toggleBot, isToggling } = useBotStatus(conversationId);
+  const webchatTyping = useWebChatTypingIndicator({
+    conversationId,
+    enabled: conversation?.channelType === 'webchat'
+  });
 
   const [showRecordingUI, setShowRecordingUI] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
@@ -516,6 +521,7 @@ export default function MessageInput({ conversationId, conversation, contact }:
   const handleSendMessage = async () => {
     if (!message.trim() || isSending) return;
 
+    webchatTyping.stopTyping();
     setIsSending(true);
     let messageWasSent = false;
     const wasReply = !!replyToMessage;
@@ -589,6 +595,7 @@ export default function MessageInput({ conversationId, conversation, contact }:
           mediaType: scheduledData.mediaType,
           caption: scheduledData.caption,
           timezone: scheduledData.timezone,
+          businessHoursCalendarId: scheduledData.businessHoursCalendarId ?? null,
           metadata: scheduledData.metadata || {}
         }),
       });
@@ -890,7 +897,10 @@ export default function MessageInput({ conversationId, conversation, contact }:
                 border-none
               "
               value={message}
-              onChange={(e) => setMessage(e.target.value)}
+              onChange={(e) => {
+                setMessage(e.target.value);
+                webchatTyping.handleInputChange();
+              }}
               onKeyDown={handleKeyDown}
               disabled={isSending || !tiktokCanReply}
               aria-label={t('messages.input.type_message', 'Type a message...')}
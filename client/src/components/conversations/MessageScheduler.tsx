@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useTranslation } from '@/hooks/use-translation';
 import { useToast } from '@/hooks/use-toast';
+import { useBusinessHoursCalendars } from '@/hooks/use-business-hours-calendars';
 import { Calendar, Clock, X, Send, Image, FileText, Mic } from 'lucide-react';
 
 interface MessageSchedulerProps {
@@ -21,6 +22,7 @@ interface ScheduledMessageData {
   mediaUrl?: string;
   mediaType?: string;
   caption?: string;
+  businessHoursCalendarId?: number | null;
 }
 
 export default function MessageScheduler({
@@ -39,6 +41,8 @@ export default function MessageScheduler({
   const [scheduledTime, setScheduledTime] = useState('');
   const [timezone, setTimezone] = useState('');
   const [isScheduling, setIsScheduling] = useState(false);
+  const [businessHoursCalendarId, setBusinessHoursCalendarId] = useState<number | null>(null);
+  const { calendars: businessHoursCalendars } = useBusinessHoursCalendars(isOpen);
 
 
   const tomorrow = new Date();
@@ -181,6 +185,7 @@ export default function MessageScheduler({
         scheduledFor: scheduledDateTime,
         timezone,
         messageType: messageType,
+        businessHoursCalendarId,
         ...(messageType === 'media' && mediaFile && {
           mediaType: mediaFile.type.startsWith('image/') ? 'image' : 
                     mediaFile.type.startsWith('video/') ? 'video' : 
@@ -351,6 +356,30 @@ export default function MessageScheduler({
             </p>
           </div>
 
+          {/* Business hours */}
+          {businessHoursCalendars.length > 0 && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-foreground mb-2">
+                {t('scheduler.business_hours_label', 'Only send during business hours')}
+              </label>
+              <select
+                value={businessHoursCalendarId ?? ''}
+                onChange={(e) => setBusinessHoursCalendarId(e.target.value ? Number(e.target.value) : null)}
+                className="w-full px-3 py-2 border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent bg-background text-foreground"
+              >
+                <option value="">{t('scheduler.business_hours_any_time', 'Send at the scheduled time')}</option>
+                {businessHoursCalendars.map((calendar) => (
+                  <option key={calendar.id} value={calendar.id}>
+                    {calendar.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {t('scheduler.business_hours_help', 'If the calendar is closed at the scheduled time, the message waits until it next opens.')}
+              </p>
+            </div>
+          )}
+
           {/* Preview */}
           <div className="mb-6 p-4 bg-primary-50 dark:bg-primary-900/20 rounded-md">
             <div className="flex items-center gap-2 mb-2">
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface SlaBadgeProps {
+  conversation: {
+    slaPolicyId?: number | null;
+    firstResponseDueAt?: string | Date | null;
+    firstRespondedAt?: string | Date | null;
+    resolutionDueAt?: string | Date | null;
+    resolvedAt?: string | Date | null;
+    firstResponseBreachedAt?: string | Date | null;
+    resolutionBreachedAt?: string | Date | null;
+  };
+}
+
+const WARNING_THRESHOLD_MS = 15 * 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const minutes = Math.max(0, Math.floor(Math.abs(ms) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+/**
+ * Countdown to the next running SLA target of a conversation (first response, then resolution)
+ */
+export default function SlaBadge({ conversation }: SlaBadgeProps) {
+  const { t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+
+  const awaitingFirstResponse = !!conversation.firstResponseDueAt && !conversation.firstRespondedAt;
+  const dueAt = conversation.resolvedAt
+    ? null
+    : awaitingFirstResponse
+      ? conversation.firstResponseDueAt
+      : conversation.resolutionDueAt;
+
+  useEffect(() => {
+    if (!dueAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [dueAt]);
+
+  if (!conversation.slaPolicyId || !dueAt) {
+    return null;
+  }
+
+  const remaining = new Date(dueAt).getTime() - now;
+  const breached = remaining <= 0 || !!(awaitingFirstResponse
+    ? conversation.firstResponseBreachedAt
+    : conversation.resolutionBreachedAt);
+  const label = awaitingFirstResponse
+    ? t('conversations.item.sla_first_response', 'Reply')
+    : t('conversations.item.sla_resolution', 'Resolve');
+
+  const colorClass = breached
+    ? 'bg-red-100 text-red-800'
+    : remaining <= WARNING_THRESHOLD_MS
+      ? 'bg-orange-100 text-orange-800'
+      : 'bg-muted text-muted-foreground';
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 text-xs rounded-full whitespace-nowrap ${colorClass}`}
+      title={`${label}: ${new Date(dueAt).toLocaleString()}`}
+    >
+      <i className="ri-timer-line mr-1"></i>
+      {breached
+        ? `${label} ${t('conversations.item.sla_overdue', 'overdue')} ${formatRemaining(remaining)}`
+        : `${label} ${formatRemaining(remaining)}`}
+    </span>
+  );
+}
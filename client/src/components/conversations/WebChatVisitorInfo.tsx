@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+import { useTranslation } from '@/hooks/use-translation';
+import type { WebChatVisitorMetadata } from '@shared/schema';
+
+interface WebChatVisitorInfoProps {
+  metadata: WebChatVisitorMetadata | null | undefined;
+}
+
+const RECENT_PAGES = 5;
+
+/**
+ * Where a webchat visitor came from: landing page, referrer, campaign tags and recent pages
+ */
+export default function WebChatVisitorInfo({ metadata }: WebChatVisitorInfoProps) {
+  const { t } = useTranslation();
+
+  if (!metadata) return null;
+
+  const utmEntries = Object.entries(metadata.utm || {}).filter(([, value]) => !!value);
+  const recentPages = (metadata.pageHistory || []).slice(-RECENT_PAGES).reverse();
+
+  const renderLink = (url: string, label?: string) => (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="text-sm text-primary-600 hover:underline break-all">
+      {label || url}
+    </a>
+  );
+
+  return (
+    <div className="p-4 border-b border-border">
+      <h3 className="font-medium mb-4">{t('contacts.details.visitor_information', 'Visitor Information')}</h3>
+
+      <div className="space-y-3">
+        {metadata.landingPage && (
+          <div>
+            <p className="text-xs text-muted-foreground">{t('contacts.details.landing_page', 'Landing page')}</p>
+            {renderLink(metadata.landingPage)}
+          </div>
+        )}
+
+        <div>
+          <p className="text-xs text-muted-foreground">{t('contacts.details.referrer', 'Referrer')}</p>
+          {metadata.referrer ? renderLink(metadata.referrer) : (
+            <p className="text-sm">{t('contacts.details.direct_visit', 'Direct visit')}</p>
+          )}
+        </div>
+
+        {utmEntries.length > 0 && (
+          <div>
+            <p className="text-xs text-muted-foreground">{t('contacts.details.campaign', 'Campaign')}</p>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {utmEntries.map(([key, value]) => (
+                <span key={key} className="px-2 py-0.5 text-xs rounded-full bg-muted">
+                  utm_{key}: {value}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {recentPages.length > 0 && (
+          <div>
+            <p className="text-xs text-muted-foreground">{t('contacts.details.recent_pages', 'Recent pages')}</p>
+            <ul className="space-y-1 mt-1">
+              {recentPages.map((page, index) => (
+                <li key={`${page.at}-${index}`} className="flex items-start justify-between gap-2">
+                  {renderLink(page.url, page.title)}
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">{format(new Date(page.at), 'p')}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {metadata.consentAt && (
+          <div>
+            <p className="text-xs text-muted-foreground">{t('contacts.details.consent_given', 'Consent given')}</p>
+            <p className="text-sm" title={metadata.consentText}>{format(new Date(metadata.consentAt), 'PPP, p')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
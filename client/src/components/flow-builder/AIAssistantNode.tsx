@@ -34,6 +34,7 @@ import { useGoogleCalendarAuth } from '@/hooks/useGoogleCalendarAuth';
 import { useZohoCalendarAuth } from '@/hooks/useZohoCalendarAuth';
 import { DocumentList } from "@/components/knowledge-base/DocumentList";
 import { RAGConfiguration } from "@/components/knowledge-base/RAGConfiguration";
+import { WebsiteSources } from "@/components/knowledge-base/WebsiteSources";
 import { MCPServerConfig } from '@shared/types/mcp-types';
 import { WeeklyScheduleEditor } from './WeeklyScheduleEditor';
 import type { DaySchedule, CalendarAdvancedSettings } from '@shared/types/calendar-types';
@@ -272,11 +273,25 @@ const FALLBACK_OPENROUTER_MODELS = [
 ];
 
 /**
- * Hook to get AI providers with dynamic OpenRouter models
+ * Hook to get AI providers with dynamic OpenRouter and self-hosted models
  */
 function useAIProviders(): { providers: Provider[]; isLoading: boolean; error: Error | null } {
   const openRouterQuery = useQuery(useOpenRouterModels());
 
+  const selfHostedQuery = useQuery<string[]>({
+    queryKey: ['openai-compatible-models'],
+    queryFn: async () => {
+      try {
+        const response = await apiRequest('GET', '/api/company/ai-credentials/openai-compatible/models');
+        const result = await response.json();
+        return result.data?.models || [];
+      } catch (error) {
+        return [];
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
   const providers: Provider[] = [
     {
       id: 'openai',
@@ -293,6 +308,11 @@ function useAIProviders(): { providers: Provider[]; isLoading: boolean; error: E
             supportsTools: model.supportsTools
           }))
         : FALLBACK_OPENROUTER_MODELS
+    },
+    {
+      id: 'openai_compatible',
+      name: 'Self-hosted (OpenAI-compatible)',
+      models: (selfHostedQuery.data || []).map(model => ({ id: model, name: model }))
     }
   ];
 
@@ -694,6 +714,17 @@ export function AIAssistantNode({ id, data, isConnectable }: AIAssistantNodeProp
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
+  const { data: knowledgeBaseVectorStore } = useQuery({
+    queryKey: ['knowledge-base-config', id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/knowledge-base/config/${id}`);
+      const result = await response.json();
+      return result.data;
+    },
+    select: (config: { vectorStore?: string } | null) => config?.vectorStore ?? 'pinecone',
+    enabled: knowledgeBaseEnabled,
+  });
+
   const { data: aiPreferences } = useQuery({
     queryKey: ['company-ai-preferences'],
     queryFn: async () => {
@@ -3031,6 +3062,7 @@ export function AIAssistantNode({ id, data, isConnectable }: AIAssistantNodeProp
                 {knowledgeBaseEnabled ? (
                   <div className="space-y-4">
                     {/* Pinecone Credentials */}
+                    {knowledgeBaseVectorStore !== 'postgres' && (
                     <div className="space-y-3 p-3 bg-card rounded-lg border border-blue-200 dark:border-blue-900">
                       <div className="flex items-center gap-2 mb-2">
                         <Target className="h-4 w-4 text-blue-600 dark:text-blue-400" />
@@ -3104,6 +3136,7 @@ export function AIAssistantNode({ id, data, isConnectable }: AIAssistantNodeProp
                         </div>
                       )}
                     </div>
+                    )}
 
                     {/* Document List with Upload Button */}
                     <div className="space-y-2">
@@ -3113,6 +3146,11 @@ export function AIAssistantNode({ id, data, isConnectable }: AIAssistantNodeProp
                       />
                     </div>
 
+                    {/* Website Sources */}
+                    <div className="space-y-2">
+                      <WebsiteSources nodeId={id} />
+                    </div>
+
                     {/* RAG Configuration */}
                     <div className="space-y-2">
                       <RAGConfiguration
@@ -21,7 +21,8 @@ import {
   Building,
   Minimize2,
   Maximize2,
-  Clock
+  Clock,
+  Server
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -98,6 +99,7 @@ export function AIFlowAssistant({
   const [previewModalOpen, setPreviewModalOpen] = useState(false);
   const [selectedSuggestion, setSelectedSuggestion] = useState<FlowSuggestion | null>(null);
   const [credentialSource, setCredentialSource] = useState<'auto' | 'company' | 'system'>('auto');
+  const [provider, setProvider] = useState<'openai' | 'openai_compatible'>('openai');
   const [showSettings, setShowSettings] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
@@ -223,7 +225,9 @@ Choose a WhatsApp bot template to get started instantly, or describe your own cu
             content: msg.content,
             timestamp: msg.timestamp.toISOString()
           })),
-          flowId
+          flowId,
+          credentialSource,
+          provider
         }),
       });
 
@@ -302,7 +306,8 @@ Choose a WhatsApp bot template to get started instantly, or describe your own cu
             content: msg.content,
             timestamp: msg.timestamp.toISOString()
           })), // Send last 10 messages for context
-          credentialSource
+          credentialSource,
+          provider
         }),
       });
 
@@ -563,6 +568,26 @@ Choose a WhatsApp bot template to get started instantly, or describe your own cu
               >
                 <div className={`bg-muted/30 ${isMobile ? 'p-4' : 'p-4'}`}>
                   <div className={`space-y-${isMobile ? '4' : '3'}`}>
+                    <div>
+                      <Label className={`font-medium text-muted-foreground flex items-center gap-2 ${isMobile ? 'text-sm' : 'text-xs'}`}>
+                        <Server className={`${isMobile ? 'w-4 h-4' : 'w-3 h-3'}`} />
+                        Provider
+                      </Label>
+                      <Select value={provider} onValueChange={(value: 'openai' | 'openai_compatible') => setProvider(value)}>
+                        <SelectTrigger className={`mt-2 ${isMobile ? 'text-sm h-10' : 'text-xs h-7'}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="openai">
+                            <span className={isMobile ? 'text-sm' : 'text-xs'}>OpenAI</span>
+                          </SelectItem>
+                          <SelectItem value="openai_compatible">
+                            <span className={isMobile ? 'text-sm' : 'text-xs'}>Self-hosted (OpenAI-compatible)</span>
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <div>
                       <Label className={`font-medium text-muted-foreground flex items-center gap-2 ${isMobile ? 'text-sm' : 'text-xs'}`}>
                         <Key className={`${isMobile ? 'w-4 h-4' : 'w-3 h-3'}`} />
@@ -611,13 +636,13 @@ Choose a WhatsApp bot template to get started instantly, or describe your own cu
                       {credentialSource === 'company' && (
                         <span className="flex items-center gap-2">
                           <Building className={`text-green-500 ${isMobile ? 'w-3.5 h-3.5' : 'w-2.5 h-2.5'}`} />
-                          Using company-configured OpenAI credentials
+                          Using company-configured {provider === 'openai' ? 'OpenAI' : 'self-hosted'} credentials
                         </span>
                       )}
                       {credentialSource === 'system' && (
                         <span className="flex items-center gap-2">
                           <Shield className={`text-blue-500 ${isMobile ? 'w-3.5 h-3.5' : 'w-2.5 h-2.5'}`} />
-                          Using system-level OpenAI credentials
+                          Using system-level {provider === 'openai' ? 'OpenAI' : 'self-hosted'} credentials
                         </span>
                       )}
                     </div>
@@ -0,0 +1,315 @@
+import { useId } from 'react';
+import { FolderPlus, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/use-translation';
+import { useFlowVariables } from '@/hooks/useFlowVariables';
+import type {
+  FlowConditionBranch,
+  FlowConditionGroup,
+  FlowConditionOperator,
+  FlowConditionRule
+} from '@shared/schema';
+
+const MAX_DEPTH = 3;
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+/**
+ * Variables evaluated at run time that aren't stored in the flow context
+ */
+const CONDITION_VARIABLES = [
+  'channel.type',
+  'conversation.status',
+  'time.hour',
+  'time.hhmm',
+  'time.weekday',
+  'time.weekdayNumber',
+  'date.now',
+  'user.input',
+  'http.response',
+  'webhook.response'
+];
+
+const VALUELESS_OPERATORS: FlowConditionOperator[] = ['is_set', 'is_not_set'];
+const TEXT_OPERATORS: FlowConditionOperator[] = ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'in_list', 'not_in_list'];
+
+export const createConditionRule = (): FlowConditionRule => ({
+  type: 'rule',
+  id: newId(),
+  variable: 'message.content',
+  operator: 'contains',
+  value: ''
+});
+
+export const createConditionGroup = (): FlowConditionGroup => ({
+  type: 'group',
+  id: newId(),
+  combinator: 'and',
+  rules: [createConditionRule()]
+});
+
+export const createConditionBranch = (index: number): FlowConditionBranch => ({
+  id: newId(),
+  name: `Branch ${index + 1}`,
+  conditions: createConditionGroup()
+});
+
+const getOperatorLabels = (t: any): Record<FlowConditionOperator, string> => ({
+  equals: t('flow_builder.condition_rules.equals', 'equals'),
+  not_equals: t('flow_builder.condition_rules.not_equals', 'does not equal'),
+  contains: t('flow_builder.condition_rules.contains', 'contains'),
+  not_contains: t('flow_builder.condition_rules.not_contains', 'does not contain'),
+  starts_with: t('flow_builder.condition_rules.starts_with', 'starts with'),
+  ends_with: t('flow_builder.condition_rules.ends_with', 'ends with'),
+  matches_regex: t('flow_builder.condition_rules.matches_regex', 'matches regex'),
+  in_list: t('flow_builder.condition_rules.in_list', 'is one of'),
+  not_in_list: t('flow_builder.condition_rules.not_in_list', 'is none of'),
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  between: t('flow_builder.condition_rules.between', 'is between'),
+  date_before: t('flow_builder.condition_rules.date_before', 'date is before'),
+  date_after: t('flow_builder.condition_rules.date_after', 'date is after'),
+  within_last_days: t('flow_builder.condition_rules.within_last_days', 'within last N days'),
+  is_set: t('flow_builder.condition_rules.is_set', 'is set'),
+  is_not_set: t('flow_builder.condition_rules.is_not_set', 'is empty')
+});
+
+/**
+ * One-line summary of a branch's conditions for the collapsed node
+ */
+export const describeConditionGroup = (group: FlowConditionGroup, t: any): string => {
+  const labels = getOperatorLabels(t);
+  const parts = group.rules.map(rule => {
+    if (rule.type === 'group') {
+      return `(${describeConditionGroup(rule, t)})`;
+    }
+    if (VALUELESS_OPERATORS.includes(rule.operator)) {
+      return `${rule.variable} ${labels[rule.operator]}`;
+    }
+    if (rule.operator === 'between') {
+      return `${rule.variable} ${labels.between} ${rule.value || '?'}–${rule.valueTo || '?'}`;
+    }
+    return `${rule.variable} ${labels[rule.operator]} "${rule.value ?? ''}"`;
+  });
+  return parts.join(group.combinator === 'or' ? ' OR ' : ' AND ');
+};
+
+interface RuleEditorProps {
+  rule: FlowConditionRule;
+  listId: string;
+  onChange: (rule: FlowConditionRule) => void;
+  onRemove: () => void;
+}
+
+function RuleEditor({ rule, listId, onChange, onRemove }: RuleEditorProps) {
+  const { t } = useTranslation();
+  const labels = getOperatorLabels(t);
+
+  return (
+    <div className="space-y-1 rounded border p-1.5">
+      <div className="flex items-center gap-1">
+        <input
+          className="flex-1 min-w-0 p-1 text-xs border rounded"
+          list={listId}
+          value={rule.variable}
+          onChange={(e) => onChange({ ...rule, variable: e.target.value })}
+          placeholder={t('flow_builder.condition_rules.variable', 'Variable, e.g. contact.custom.plan')}
+        />
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-destructive"
+          onClick={onRemove}
+        >
+          <Trash2 className="h-3 w-3" />
+        </button>
+      </div>
+      <div className="flex items-center gap-1">
+        <select
+          className="p-1 text-xs border rounded"
+          value={rule.operator}
+          onChange={(e) => onChange({ ...rule, operator: e.target.value as FlowConditionOperator })}
+        >
+          {(Object.keys(labels) as FlowConditionOperator[]).map(operator => (
+            <option key={operator} value={operator}>{labels[operator]}</option>
+          ))}
+        </select>
+        {!VALUELESS_OPERATORS.includes(rule.operator) && (
+          <input
+            className="flex-1 min-w-0 p-1 text-xs border rounded"
+            value={rule.value ?? ''}
+            onChange={(e) => onChange({ ...rule, value: e.target.value })}
+            placeholder={rule.operator === 'in_list' || rule.operator === 'not_in_list'
+              ? t('flow_builder.condition_rules.list_placeholder', 'a, b, c')
+              : t('flow_builder.condition_rules.value', 'Value or {{variable}}')}
+          />
+        )}
+        {rule.operator === 'between' && (
+          <input
+            className="flex-1 min-w-0 p-1 text-xs border rounded"
+            value={rule.valueTo ?? ''}
+            onChange={(e) => onChange({ ...rule, valueTo: e.target.value })}
+            placeholder={t('flow_builder.condition_rules.value_to', 'and')}
+          />
+        )}
+      </div>
+      {TEXT_OPERATORS.includes(rule.operator) && (
+        <label className="flex items-center gap-1 text-[10px] text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={!!rule.caseSensitive}
+            onChange={(e) => onChange({ ...rule, caseSensitive: e.target.checked })}
+          />
+          {t('flow_builder.case_sensitive', 'Case sensitive')}
+        </label>
+      )}
+    </div>
+  );
+}
+
+interface GroupEditorProps {
+  group: FlowConditionGroup;
+  depth: number;
+  listId: string;
+  onChange: (group: FlowConditionGroup) => void;
+  onRemove?: () => void;
+}
+
+function GroupEditor({ group, depth, listId, onChange, onRemove }: GroupEditorProps) {
+  const { t } = useTranslation();
+
+  const updateRule = (index: number, rule: FlowConditionRule | FlowConditionGroup) => {
+    onChange({ ...group, rules: group.rules.map((current, i) => i === index ? rule : current) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={depth > 0 ? 'space-y-1 rounded border border-dashed p-1.5' : 'space-y-1'}>
+      <div className="flex items-center gap-1">
+        <select
+          className="p-1 text-xs border rounded"
+          value={group.combinator}
+          onChange={(e) => onChange({ ...group, combinator: e.target.value as 'and' | 'or' })}
+        >
+          <option value="and">{t('flow_builder.condition_rules.all', 'All of (AND)')}</option>
+          <option value="or">{t('flow_builder.condition_rules.any', 'Any of (OR)')}</option>
+        </select>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-foreground"
+            title={t('flow_builder.condition_rules.add_rule', 'Add rule')}
+            onClick={() => onChange({ ...group, rules: [...group.rules, createConditionRule()] })}
+          >
+            <Plus className="h-3 w-3" />
+          </button>
+          {depth < MAX_DEPTH && (
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-foreground"
+              title={t('flow_builder.condition_rules.add_group', 'Add group')}
+              onClick={() => onChange({ ...group, rules: [...group.rules, createConditionGroup()] })}
+            >
+              <FolderPlus className="h-3 w-3" />
+            </button>
+          )}
+          {onRemove && (
+            <button type="button" className="text-muted-foreground hover:text-destructive" onClick={onRemove}>
+              <Trash2 className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      </div>
+      {group.rules.map((rule, index) => rule.type === 'group' ? (
+        <GroupEditor
+          key={rule.id}
+          group={rule}
+          depth={depth + 1}
+          listId={listId}
+          onChange={(updated) => updateRule(index, updated)}
+          onRemove={() => removeRule(index)}
+        />
+      ) : (
+        <RuleEditor
+          key={rule.id}
+          rule={rule}
+          listId={listId}
+          onChange={(updated) => updateRule(index, updated)}
+          onRemove={() => removeRule(index)}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface ConditionBranchesEditorProps {
+  branches: FlowConditionBranch[];
+  onChange: (branches: FlowConditionBranch[]) => void;
+}
+
+/**
+ * Named branches of a rules-mode condition node. Each branch is an AND/OR expression tree over
+ * flow variables; the first matching branch is followed, otherwise the default output.
+ */
+export function ConditionBranchesEditor({ branches, onChange }: ConditionBranchesEditorProps) {
+  const { t } = useTranslation();
+  const listId = useId();
+  const { variables } = useFlowVariables(undefined);
+  const suggestions = Array.from(new Set([...variables.map(variable => variable.value), ...CONDITION_VARIABLES]));
+
+  const updateBranch = (index: number, updates: Partial<FlowConditionBranch>) => {
+    onChange(branches.map((branch, i) => i === index ? { ...branch, ...updates } : branch));
+  };
+
+  return (
+    <div className="space-y-2">
+      <datalist id={listId}>
+        {suggestions.map(value => <option key={value} value={value} />)}
+      </datalist>
+
+      {branches.map((branch, index) => (
+        <div key={branch.id} className="space-y-1 rounded border p-2">
+          <div className="flex items-center gap-1">
+            <input
+              className="flex-1 min-w-0 p-1 text-xs font-medium border rounded"
+              value={branch.name}
+              onChange={(e) => updateBranch(index, { name: e.target.value })}
+              placeholder={t('flow_builder.condition_rules.branch_name', 'Branch name')}
+            />
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-destructive"
+              onClick={() => onChange(branches.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </div>
+          <GroupEditor
+            group={branch.conditions}
+            depth={0}
+            listId={listId}
+            onChange={(conditions) => updateBranch(index, { conditions })}
+          />
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="w-full h-7 text-xs"
+        onClick={() => onChange([...branches, createConditionBranch(branches.length)])}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        {t('flow_builder.condition_rules.add_branch', 'Add branch')}
+      </Button>
+      <div className="text-[10px] text-muted-foreground">
+        {t('flow_builder.condition_rules.help', 'Branches are checked top to bottom. JSON paths work on any variable, e.g. http.response.data.items[0].status. Times use HH:MM.')}
+      </div>
+    </div>
+  );
+}
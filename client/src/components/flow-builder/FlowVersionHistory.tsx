@@ -0,0 +1,421 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { GitCompare, History, Loader2, RotateCcw, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface FlowVersionSummary {
+  id: number;
+  version: number;
+  name: string;
+  note: string | null;
+  rolledBackFromVersionId: number | null;
+  publishedById: number | null;
+  publishedAt: string;
+  nodeCount: number;
+  edgeCount: number;
+  isPublished: boolean;
+}
+
+interface FlowVersionsResponse {
+  publishedVersionId: number | null;
+  publishedAt: string | null;
+  hasUnpublishedChanges: boolean;
+  versions: FlowVersionSummary[];
+}
+
+interface FlowNodeChange {
+  id: string;
+  type: string | null;
+  label: string | null;
+  changedFields: string[];
+}
+
+interface FlowEdgeSummary {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle: string | null;
+}
+
+interface FlowDiff {
+  from: { versionId: number | null; version: number | null; label: string };
+  to: { versionId: number | null; version: number | null; label: string };
+  nodes: { added: FlowNodeChange[]; removed: FlowNodeChange[]; changed: FlowNodeChange[] };
+  edges: { added: FlowEdgeSummary[]; removed: FlowEdgeSummary[] };
+  nameChanged: boolean;
+  descriptionChanged: boolean;
+}
+
+interface FlowVersionControlsProps {
+  flowId: number;
+  /** Saves the builder's draft, resolves to false when there was nothing valid to save */
+  onSaveDraft: () => Promise<boolean>;
+}
+
+const versionsQueryKey = (flowId: number) => ['/api/flows', flowId, 'versions'];
+
+const fetchJson = async <T,>(url: string): Promise<T> => {
+  const response = await fetch(url, { credentials: 'include' });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data;
+};
+
+const nodeLabel = (node: FlowNodeChange) => node.label || node.type || node.id;
+
+/**
+ * Publish button, draft indicator and version history (diff and rollback) for the flow builder
+ * header. The builder edits the draft; only published versions run for new conversations.
+ */
+export function FlowVersionControls({ flowId, onSaveDraft }: FlowVersionControlsProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [publishNote, setPublishNote] = useState('');
+  const [diffSelection, setDiffSelection] = useState<{ from?: number; to: number | 'draft' } | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<FlowVersionSummary | null>(null);
+
+  const { data: versionData } = useQuery<FlowVersionsResponse>({
+    queryKey: versionsQueryKey(flowId),
+    queryFn: () => fetchJson<FlowVersionsResponse>(`/api/flows/${flowId}/versions`)
+  });
+
+  const { data: diff, isLoading: isLoadingDiff } = useQuery<FlowDiff>({
+    queryKey: [...versionsQueryKey(flowId), 'diff', diffSelection?.from ?? null, diffSelection?.to ?? null],
+    queryFn: () => {
+      const params = new URLSearchParams({ to: String(diffSelection!.to) });
+      if (diffSelection?.from) {
+        params.set('from', String(diffSelection.from));
+      }
+      return fetchJson<FlowDiff>(`/api/flows/${flowId}/versions/diff?${params}`);
+    },
+    enabled: !!diffSelection
+  });
+
+  const refreshFlow = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/flows', flowId] });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: async (note: string) => {
+      const saved = await onSaveDraft();
+      if (!saved) {
+        throw new Error(t('flow_builder.versions.save_failed', 'Save the flow before publishing'));
+      }
+      const response = await apiRequest('POST', `/api/flows/${flowId}/publish`, { note: note.trim() || null });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onSuccess: (data) => {
+      refreshFlow();
+      setIsPublishOpen(false);
+      setPublishNote('');
+      toast({
+        title: t('flow_builder.versions.published', 'Flow published'),
+        description: t('flow_builder.versions.published_description', 'Version {{version}} is now live for new conversations', { version: data.version.version })
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('flow_builder.versions.publish_failed', 'Publish failed'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (versionId: number) => {
+      const response = await apiRequest('POST', `/api/flows/${flowId}/versions/${versionId}/rollback`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onSuccess: (data) => {
+      refreshFlow();
+      setRollbackTarget(null);
+      toast({
+        title: t('flow_builder.versions.rolled_back', 'Flow rolled back'),
+        description: t('flow_builder.versions.rolled_back_description', 'Published as version {{version}}, the draft has been reset to it', { version: data.version.version })
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('flow_builder.versions.rollback_failed', 'Rollback failed'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const versions = versionData?.versions || [];
+  const publishedVersion = versions.find(version => version.isPublished);
+
+  return (
+    <>
+      {versionData && (
+        versionData.hasUnpublishedChanges ? (
+          <Badge variant="outline" className="self-center border-amber-500 text-amber-600">
+            {t('flow_builder.versions.unpublished_changes', 'Unpublished changes')}
+          </Badge>
+        ) : publishedVersion && (
+          <Badge variant="secondary" className="self-center">
+            {t('flow_builder.versions.live_version', 'Live: v{{version}}', { version: publishedVersion.version })}
+          </Badge>
+        )
+      )}
+      <Button
+        variant="outline"
+        onClick={() => setIsPublishOpen(true)}
+        disabled={publishMutation.isPending}
+        className="flex-1 sm:flex-none"
+      >
+        {publishMutation.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Upload className="h-4 w-4 mr-2" />
+        )}
+        {t('flow_builder.versions.publish', 'Publish')}
+      </Button>
+      <Button
+        variant="outline"
+        onClick={() => setIsHistoryOpen(true)}
+        className="flex-1 sm:flex-none"
+      >
+        <History className="h-4 w-4 mr-2" />
+        {t('flow_builder.versions.history', 'History')}
+      </Button>
+
+      <Dialog open={isPublishOpen} onOpenChange={setIsPublishOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('flow_builder.versions.publish_title', 'Publish flow')}</DialogTitle>
+            <DialogDescription>
+              {t('flow_builder.versions.publish_description', 'Your changes are saved and published as a new version. Conversations already in this flow finish on the version they started with.')}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            rows={3}
+            maxLength={500}
+            value={publishNote}
+            onChange={(e) => setPublishNote(e.target.value)}
+            placeholder={t('flow_builder.versions.note_placeholder', 'What changed? (optional)')}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPublishOpen(false)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button onClick={() => publishMutation.mutate(publishNote)} disabled={publishMutation.isPending}>
+              {publishMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('flow_builder.versions.publish', 'Publish')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Sheet open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <SheetContent className="w-full sm:max-w-md">
+          <SheetHeader>
+            <SheetTitle>{t('flow_builder.versions.history_title', 'Version history')}</SheetTitle>
+            <SheetDescription>
+              {t('flow_builder.versions.history_description', 'Every publish is kept. Rolling back publishes a copy of the selected version.')}
+            </SheetDescription>
+          </SheetHeader>
+
+          {versionData?.hasUnpublishedChanges && versionData.publishedVersionId && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4 w-full"
+              onClick={() => setDiffSelection({ to: 'draft' })}
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              {t('flow_builder.versions.compare_draft', 'Compare draft with live version')}
+            </Button>
+          )}
+
+          <ScrollArea className="mt-4 h-[calc(100vh-12rem)] pr-3">
+            <div className="space-y-3">
+              {versions.map((version, index) => {
+                const previous = versions[index + 1];
+
+                return (
+                  <div key={version.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">v{version.version}</span>
+                        {version.isPublished && (
+                          <Badge variant="secondary">{t('flow_builder.versions.live', 'Live')}</Badge>
+                        )}
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(version.publishedAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                    {version.note && <p className="text-sm">{version.note}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {t('flow_builder.versions.counts', '{{nodes}} nodes, {{edges}} connections', { nodes: version.nodeCount, edges: version.edgeCount })}
+                    </p>
+                    <div className="flex gap-2">
+                      {previous && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDiffSelection({ from: previous.id, to: version.id })}
+                        >
+                          <GitCompare className="h-4 w-4 mr-1" />
+                          {t('flow_builder.versions.changes', 'Changes')}
+                        </Button>
+                      )}
+                      {!version.isPublished && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={rollbackMutation.isPending}
+                          onClick={() => setRollbackTarget(version)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          {t('flow_builder.versions.rollback', 'Roll back')}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </SheetContent>
+      </Sheet>
+
+      <Dialog open={!!diffSelection} onOpenChange={(open) => !open && setDiffSelection(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {diff
+                ? t('flow_builder.versions.diff_title', '{{from}} → {{to}}', { from: diff.from.label, to: diff.to.label })
+                : t('flow_builder.versions.changes', 'Changes')}
+            </DialogTitle>
+          </DialogHeader>
+          {isLoadingDiff || !diff ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <FlowDiffSummary diff={diff} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!rollbackTarget} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t('flow_builder.versions.rollback_title', 'Roll back to v{{version}}?', { version: rollbackTarget?.version })}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('flow_builder.versions.rollback_description', 'This version is published again as the newest version and replaces your draft, including unsaved and unpublished changes.')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel', 'Cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => rollbackTarget && rollbackMutation.mutate(rollbackTarget.id)}>
+              {t('flow_builder.versions.rollback', 'Roll back')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+function FlowDiffSummary({ diff }: { diff: FlowDiff }) {
+  const { t } = useTranslation();
+  const isEmpty = !diff.nameChanged && !diff.descriptionChanged &&
+    diff.nodes.added.length === 0 && diff.nodes.removed.length === 0 && diff.nodes.changed.length === 0 &&
+    diff.edges.added.length === 0 && diff.edges.removed.length === 0;
+
+  if (isEmpty) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        {t('flow_builder.versions.no_changes', 'No changes that affect how the flow runs')}
+      </p>
+    );
+  }
+
+  return (
+    <ScrollArea className="max-h-[60vh] pr-3">
+      <div className="space-y-4 text-sm">
+        {diff.nameChanged && <p>{t('flow_builder.versions.name_changed', 'Flow name changed')}</p>}
+        {diff.descriptionChanged && <p>{t('flow_builder.versions.description_changed', 'Flow description changed')}</p>}
+
+        {diff.nodes.added.length > 0 && (
+          <div>
+            <h4 className="font-medium text-green-600 mb-1">{t('flow_builder.versions.nodes_added', 'Nodes added')}</h4>
+            <ul className="space-y-1">
+              {diff.nodes.added.map(node => <li key={node.id}>+ {nodeLabel(node)}</li>)}
+            </ul>
+          </div>
+        )}
+        {diff.nodes.removed.length > 0 && (
+          <div>
+            <h4 className="font-medium text-red-600 mb-1">{t('flow_builder.versions.nodes_removed', 'Nodes removed')}</h4>
+            <ul className="space-y-1">
+              {diff.nodes.removed.map(node => <li key={node.id}>− {nodeLabel(node)}</li>)}
+            </ul>
+          </div>
+        )}
+        {diff.nodes.changed.length > 0 && (
+          <div>
+            <h4 className="font-medium text-amber-600 mb-1">{t('flow_builder.versions.nodes_changed', 'Nodes changed')}</h4>
+            <ul className="space-y-1">
+              {diff.nodes.changed.map(node => (
+                <li key={node.id}>
+                  ~ {nodeLabel(node)}
+                  <span className="ml-2 text-xs text-muted-foreground">{node.changedFields.join(', ')}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {(diff.edges.added.length > 0 || diff.edges.removed.length > 0) && (
+          <div>
+            <h4 className="font-medium mb-1">{t('flow_builder.versions.connections', 'Connections')}</h4>
+            <p className="text-muted-foreground">
+              {t('flow_builder.versions.connections_summary', '{{added}} added, {{removed}} removed', {
+                added: diff.edges.added.length,
+                removed: diff.edges.removed.length
+              })}
+            </p>
+          </div>
+        )}
+      </div>
+    </ScrollArea>
+  );
+}
@@ -47,6 +47,7 @@ import { cn } from "@/lib/utils";
 import { standardHandleStyle } from './StyledHandle';
 import { useTranslation } from '@/hooks/use-translation';
 import { EnhancedVariablePicker } from './EnhancedVariablePicker';
+import { useCustomFields } from '@/hooks/use-custom-fields';
 
 export type ManageContactData = {
   id: string;
@@ -62,6 +63,7 @@ export type ManageContactData = {
     notes?: string;
     isActive?: boolean;
     isArchived?: boolean;
+    customFields?: Record<string, string>;
   };
   deleteConfirmation: boolean;
   errorHandling: 'continue' | 'stop';
@@ -80,6 +82,7 @@ function ManageContactNode({
   const { onDeleteNode, onDuplicateNode } = useFlowContext();
   const { getNodes, setNodes } = useReactFlow();
   const [showToolbar, setShowToolbar] = useState(false);
+  const { customFields } = useCustomFields('contact');
 
   useEffect(() => {
     if (data && (!data.operation || !data.contactIdVariable)) {
@@ -148,6 +151,21 @@ function ManageContactNode({
     });
   }, [data.updateFields, updateNodeData]);
 
+  const handleCustomFieldChange = useCallback((fieldName: string, value: string) => {
+    const currentCustomFields = { ...(data.updateFields?.customFields || {}) };
+    if (value) {
+      currentCustomFields[fieldName] = value;
+    } else {
+      delete currentCustomFields[fieldName];
+    }
+    updateNodeData({
+      updateFields: {
+        ...data.updateFields,
+        customFields: currentCustomFields
+      }
+    });
+  }, [data.updateFields, updateNodeData]);
+
   const handleAddTag = useCallback((tag: string) => {
     if (tag.trim()) {
       const currentTags = data.updateFields?.tags || [];
@@ -202,6 +220,7 @@ function ManageContactNode({
     if (data.updateFields?.company) fields.push('company');
     if (data.updateFields?.tags && data.updateFields.tags.length > 0) fields.push('tags');
     if (data.updateFields?.notes) fields.push('notes');
+    Object.keys(data.updateFields?.customFields || {}).forEach(fieldName => fields.push(`custom.${fieldName}`));
     if (data.updateFields?.isActive !== undefined) fields.push('isActive');
     if (data.updateFields?.isArchived !== undefined) fields.push('isArchived');
     return fields;
@@ -440,6 +459,37 @@ function ManageContactNode({
                     />
                   </div>
 
+                  {customFields.length > 0 && (
+                    <div className="space-y-3 pt-2 border-t">
+                      <Label className="text-xs font-medium flex items-center gap-1">
+                        <FileText className="w-3 h-3" />
+                        {t('flow_builder.contact_custom_fields', 'Custom Fields')}
+                        <Tooltip>
+                          <TooltipTrigger>
+                            <HelpCircle className="w-3 h-3 text-muted-foreground" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>{t('flow_builder.contact_custom_fields_help', 'Values are converted to the field type; select fields accept an option value or label')}</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </Label>
+                      {customFields.map(field => (
+                        <div key={field.id} className="space-y-1">
+                          <Label className="text-xs text-muted-foreground">
+                            {field.fieldLabel}
+                            <span className="ml-1 text-[10px] font-mono">({field.fieldType})</span>
+                          </Label>
+                          <EnhancedVariablePicker
+                            value={data.updateFields?.customFields?.[field.fieldName] || ''}
+                            onChange={(value) => handleCustomFieldChange(field.fieldName, value)}
+                            placeholder={`{{contact.custom.${field.fieldName}}}`}
+                            className="h-8"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between">
                     <Label className="text-xs font-medium">{t('flow_builder.contact_is_active', 'Is Active')}</Label>
                     <Switch
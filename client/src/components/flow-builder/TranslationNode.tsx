@@ -42,6 +42,7 @@ const getTranslationModes = (t: any) => [
 interface TranslationNodeData {
   label: string;
   enabled?: boolean;
+  provider?: 'openai' | 'openai_compatible';
   apiKey?: string;
   targetLanguage?: string;
   translationMode?: string;
@@ -98,7 +99,7 @@ const NodeHeader: FC<{ isEditing: boolean; onToggleEdit: () => void; }> = memo((
 });
 
 
-const TranslationNodeSummary: FC<Pick<TranslationNodeData, 'enabled' | 'targetLanguage' | 'translationMode' | 'detectLanguage'>> = memo(({ enabled, targetLanguage, translationMode, detectLanguage }) => {
+const TranslationNodeSummary: FC<Pick<TranslationNodeData, 'enabled' | 'provider' | 'targetLanguage' | 'translationMode' | 'detectLanguage'>> = memo(({ enabled, provider, targetLanguage, translationMode, detectLanguage }) => {
   const { t } = useTranslation();
   const targetLanguageName = TRANSLATION_LANGUAGES.find(l => l.code === targetLanguage)?.name || targetLanguage?.toUpperCase();
   const modeName = getTranslationModes(t).find(m => m.id === translationMode)?.name || t('flow_builder.translation_node.separate_message', 'Separate');
@@ -107,7 +108,11 @@ const TranslationNodeSummary: FC<Pick<TranslationNodeData, 'enabled' | 'targetLa
     <div className="text-sm p-3  rounded border border-border">
       <div className="flex items-center gap-1 mb-2">
         <Settings className="h-3.5 w-3.5 text-muted-foreground" />
-        <span className="font-medium">{t('flow_builder.translation_node.openai_translation', 'OpenAI Translation')}</span>
+        <span className="font-medium">
+          {provider === 'openai_compatible'
+            ? t('flow_builder.translation_node.self_hosted_translation', 'Self-hosted Translation')
+            : t('flow_builder.translation_node.openai_translation', 'OpenAI Translation')}
+        </span>
         {enabled && <span className="text-xs text-muted-foreground">{targetLanguageName}</span>}
       </div>
       <div className="text-xs text-muted-foreground mb-2">
@@ -130,7 +135,7 @@ const TranslationNodeSettings: FC<{
   setState: (updates: Partial<TranslationNodeData>) => void;
 }> = memo(({ state, setState }) => {
   const { t } = useTranslation();
-  const { enabled, apiKey, targetLanguage, translationMode, detectLanguage } = state;
+  const { enabled, provider, apiKey, targetLanguage, translationMode, detectLanguage } = state;
   const getApiDocUrl = () => 'https://platform.openai.com/api-keys';
 
   return (
@@ -153,10 +158,26 @@ const TranslationNodeSettings: FC<{
         {enabled && (
           <div className="pl-4 border-l-2 border-primary/20 space-y-3">
             <div>
-              <Label className="text-[10px] font-medium text-foreground">{t('flow_builder.translation_node.openai_api_key', 'OpenAI API Key')}</Label>
-              <Input type="password" placeholder={t('flow_builder.translation_node.api_key_placeholder', 'Enter your OpenAI API key')} value={apiKey} onChange={e => setState({ apiKey: e.target.value })} className="text-xs h-7 mt-1" />
-              <a href={getApiDocUrl()} target="_blank" rel="noopener noreferrer" className="text-[10px] text-primary hover:underline mt-1 block">{t('flow_builder.translation_node.get_api_key', 'Get your API key here')}</a>
+              <Label className="text-[10px] font-medium text-foreground">{t('flow_builder.translation_node.provider', 'Provider')}</Label>
+              <Select value={provider} onValueChange={value => setState({ provider: value as TranslationNodeData['provider'] })}>
+                <SelectTrigger className="text-xs h-7 mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="openai">OpenAI</SelectItem>
+                  <SelectItem value="openai_compatible">{t('flow_builder.translation_node.self_hosted', 'Self-hosted (OpenAI-compatible)')}</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
+            {provider === 'openai_compatible' ? (
+              <p className="text-[10px] text-muted-foreground">
+                {t('flow_builder.translation_node.self_hosted_desc', 'Uses the endpoint and default model of the self-hosted AI credential in the AI settings.')}
+              </p>
+            ) : (
+              <div>
+                <Label className="text-[10px] font-medium text-foreground">{t('flow_builder.translation_node.openai_api_key', 'OpenAI API Key')}</Label>
+                <Input type="password" placeholder={t('flow_builder.translation_node.api_key_placeholder', 'Enter your OpenAI API key')} value={apiKey} onChange={e => setState({ apiKey: e.target.value })} className="text-xs h-7 mt-1" />
+                <a href={getApiDocUrl()} target="_blank" rel="noopener noreferrer" className="text-[10px] text-primary hover:underline mt-1 block">{t('flow_builder.translation_node.get_api_key', 'Get your API key here')}</a>
+              </div>
+            )}
             <div>
               <Label className="text-[10px] font-medium text-foreground">{t('flow_builder.translation_node.target_language', 'Target Language')}</Label>
               <Select value={targetLanguage} onValueChange={value => setState({ targetLanguage: value })}>
@@ -196,6 +217,7 @@ export function TranslationNode({ id, data, isConnectable }: TranslationNodeProp
   const [nodeState, setNodeState] = useState<TranslationNodeData>({
     label: data.label,
     enabled: data.enabled ?? true,
+    provider: data.provider || 'openai',
     apiKey: data.apiKey || '',
     targetLanguage: data.targetLanguage || 'en',
     translationMode: data.translationMode || 'separate',
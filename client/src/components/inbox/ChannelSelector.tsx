@@ -144,6 +144,8 @@ export function ChannelSelector({ activeChannelId, onChannelChange, className }:
         return 'Twilio Calls';
       case 'webchat':
         return 'WebChat';
+      case 'custom':
+        return 'Custom Channel';
       default:
         return channelType;
     }
@@ -171,6 +173,8 @@ export function ChannelSelector({ activeChannelId, onChannelChange, className }:
         return <TwilioIcon className="w-4 h-4" />;
       case 'webchat':
         return <i className="ri-message-3-line" style={{ color: '#6366f1' }} />;
+      case 'custom':
+        return <i className="ri-plug-line" style={{ color: '#0EA5E9' }} />;
       default:
         return <i className="ri-message-3-line" style={{ color: '#333235' }} />;
     }
@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -42,7 +43,9 @@ import {
   Eye,
   ExternalLink,
   X,
-  Upload
+  Upload,
+  Globe,
+  FileSpreadsheet
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -56,10 +59,21 @@ interface Document {
   chunkCount: number;
   processingError?: string;
   processingDurationMs?: number;
+  sourceUrl?: string | null;
+  tags: string[];
+  language: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface DocumentChunk {
+  id: number;
+  chunkIndex: number;
+  content: string;
+  section: string | null;
+  tokenCount: number | null;
+}
+
 interface DocumentListProps {
   nodeId?: string;
   showNodeFilter?: boolean;
@@ -78,6 +92,8 @@ export function DocumentList({
   const queryClient = useQueryClient();
   const [selectedDocuments, setSelectedDocuments] = useState<number[]>([]);
   const [previewDocument, setPreviewDocument] = useState<Document | null>(null);
+  const [tagsText, setTagsText] = useState('');
+  const [languageText, setLanguageText] = useState('');
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
 
@@ -95,6 +111,23 @@ export function DocumentList({
   });
 
 
+  const { data: previewChunks, isLoading: isLoadingChunks } = useQuery({
+    queryKey: ['knowledge-base-document-chunks', previewDocument?.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/knowledge-base/documents/${previewDocument!.id}/chunks`);
+      const result = await response.json();
+      return result.data as DocumentChunk[];
+    },
+    enabled: !!previewDocument
+  });
+
+
+  React.useEffect(() => {
+    setTagsText(previewDocument?.tags?.join(', ') ?? '');
+    setLanguageText(previewDocument?.language ?? '');
+  }, [previewDocument]);
+
+
   React.useEffect(() => {
     if (!documents) return;
 
@@ -138,6 +171,32 @@ export function DocumentList({
   });
 
 
+  const metadataMutation = useMutation({
+    mutationFn: async (documentId: number) => {
+      const response = await apiRequest('PATCH', `/api/knowledge-base/documents/${documentId}`, {
+        tags: tagsText.split(',').map(tag => tag.trim()).filter(Boolean),
+        language: languageText.trim() || null
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setPreviewDocument(result.data);
+      toast({
+        title: t('knowledge_base.document.metadata_saved', 'Document updated'),
+        description: t('knowledge_base.document.metadata_saved_desc', 'Tags and language are used to filter retrieval')
+      });
+      queryClient.invalidateQueries({ queryKey: ['knowledge-base-documents'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('knowledge_base.document.metadata_error', 'Update failed'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
@@ -204,6 +263,9 @@ export function DocumentList({
     if (mimeType.includes('word')) {
       return <FileText className="w-4 h-4 text-blue-500" />;
     }
+    if (mimeType === 'text/csv' || mimeType.includes('excel') || mimeType.includes('spreadsheet')) {
+      return <FileSpreadsheet className="w-4 h-4 text-green-600" />;
+    }
     return <File className="w-4 h-4 text-muted-foreground" />;
   };
 
@@ -326,7 +388,7 @@ export function DocumentList({
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".pdf,.docx,.doc,.txt"
+          accept=".pdf,.docx,.doc,.txt,.md,.markdown,.html,.htm,.csv,.xls,.xlsx,.json"
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -355,16 +417,23 @@ export function DocumentList({
               >
                 {/* File Icon & Info */}
                 <div className="flex items-center gap-3 flex-1 min-w-0">
-                  {getFileIcon(document.mimeType)}
+                  {document.sourceUrl ? <Globe className="w-4 h-4 text-blue-500" /> : getFileIcon(document.mimeType)}
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
                       <p className="font-medium truncate">
                         {document.originalName}
                       </p>
                       {getStatusBadge(document.status)}
+                      {document.tags?.map((tag) => (
+                        <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                      ))}
                     </div>
                     <div className="flex items-center gap-4 text-sm text-gray-500">
-                      <span>{formatFileSize(document.fileSize)}</span>
+                      {document.sourceUrl ? (
+                        <span className="truncate max-w-[200px]" title={document.sourceUrl}>{document.sourceUrl}</span>
+                      ) : (
+                        <span>{formatFileSize(document.fileSize)}</span>
+                      )}
                       {document.status === 'completed' && (
                         <span>{document.chunkCount} chunks</span>
                       )}
@@ -503,6 +572,36 @@ export function DocumentList({
                       </div>
                     </div>
 
+                    {/* Retrieval filters */}
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-gray-700">
+                        {t('knowledge_base.document.metadata_title', 'Retrieval Filters')}
+                      </h4>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={tagsText}
+                          onChange={(e) => setTagsText(e.target.value)}
+                          placeholder={t('knowledge_base.document.tags_placeholder', 'Tags, comma-separated')}
+                          className="flex-1"
+                        />
+                        <Input
+                          value={languageText}
+                          onChange={(e) => setLanguageText(e.target.value)}
+                          placeholder={t('knowledge_base.document.language_placeholder', 'Language (e.g. en)')}
+                          className="w-44"
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => metadataMutation.mutate(previewDocument.id)}
+                          disabled={metadataMutation.isPending}
+                        >
+                          {metadataMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          {t('common.save', 'Save')}
+                        </Button>
+                      </div>
+                    </div>
+
                     {/* Download/View Actions */}
                     <div className="flex items-center gap-2">
                       <Button
@@ -534,11 +633,38 @@ export function DocumentList({
                       </Button>
                     </div>
 
-                    {/* Note about content */}
-                    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                      <p className="text-sm text-blue-800">
-                        {t('knowledge_base.document.preview_note', 'This document has been processed and chunked for the knowledge base. Use the "Open File" button to view the original document content.')}
-                      </p>
+                    {/* Chunk previews */}
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium text-gray-700">
+                        {t('knowledge_base.document.chunks_title', 'How this document was split')}
+                      </h4>
+                      {isLoadingChunks ? (
+                        <div className="flex items-center justify-center py-4">
+                          <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                          {t('common.loading', 'Loading...')}
+                        </div>
+                      ) : !previewChunks || previewChunks.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          {t('knowledge_base.document.no_chunks', 'No chunks were created for this document')}
+                        </p>
+                      ) : (
+                        previewChunks.map((chunk) => (
+                          <div key={chunk.id} className="p-3 border rounded-lg">
+                            <div className="flex items-center gap-2 mb-2">
+                              <Badge variant="outline">
+                                {t('knowledge_base.document.chunk_label', 'Chunk {{index}}', { index: chunk.chunkIndex + 1 })}
+                              </Badge>
+                              {chunk.section && (
+                                <span className="text-xs text-gray-500 truncate" title={chunk.section}>{chunk.section}</span>
+                              )}
+                              {chunk.tokenCount !== null && (
+                                <span className="text-xs text-gray-500">~{chunk.tokenCount} tokens</span>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-700 whitespace-pre-wrap">{chunk.content}</p>
+                          </div>
+                        ))
+                      )}
                     </div>
                   </div>
                 )}
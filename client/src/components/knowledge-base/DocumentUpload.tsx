@@ -38,9 +38,17 @@ const ACCEPTED_FILE_TYPES = {
   'application/pdf': ['.pdf'],
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
   'application/msword': ['.doc'],
-  'text/plain': ['.txt']
+  'text/plain': ['.txt'],
+  'text/markdown': ['.md', '.markdown'],
+  'text/html': ['.html', '.htm'],
+  'text/csv': ['.csv'],
+  'application/vnd.ms-excel': ['.xls'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+  'application/json': ['.json']
 };
 
+const ACCEPTED_EXTENSIONS = Object.values(ACCEPTED_FILE_TYPES).flat();
+
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
 export function DocumentUpload({ 
@@ -92,7 +100,9 @@ export function DocumentUpload({
 
     const validFiles: File[] = [];
     for (const file of files) {
-      if (!Object.keys(ACCEPTED_FILE_TYPES).includes(file.type)) {
+      // Browsers report no type, or a generic one, for Markdown and some other text formats
+      const hasAcceptedExtension = ACCEPTED_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+      if (!Object.keys(ACCEPTED_FILE_TYPES).includes(file.type) && !hasAcceptedExtension) {
         toast({
           title: t('knowledge_base.upload.file_rejected', 'File rejected'),
           description: `${file.name}: ${t('knowledge_base.upload.invalid_type', 'File type not supported')}`,
@@ -282,7 +292,7 @@ export function DocumentUpload({
             {t('knowledge_base.upload.title', 'Upload Documents')}
           </CardTitle>
           <CardDescription>
-            {t('knowledge_base.upload.description', 'Upload PDF, Word documents, or text files to enhance your AI assistant with knowledge base capabilities.')}
+            {t('knowledge_base.upload.description', 'Upload PDF, Word, Markdown, HTML, spreadsheet or FAQ files to enhance your AI assistant with knowledge base capabilities.')}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -294,7 +304,7 @@ export function DocumentUpload({
                   {t('knowledge_base.upload.select_files', 'Select files to upload')}
                 </p>
                 <p className="text-sm text-gray-500 mb-4">
-                  {t('knowledge_base.upload.supported_formats', 'Supports PDF, Word documents, and text files (max 50MB each)')}
+                  {t('knowledge_base.upload.supported_formats', 'Supports PDF, Word, text, Markdown, HTML, CSV, Excel and JSON FAQ files (max 50MB each)')}
                 </p>
                 <Button
                   variant="outline"
@@ -308,7 +318,7 @@ export function DocumentUpload({
                   id="file-upload-input"
                   type="file"
                   multiple
-                  accept=".pdf,.docx,.doc,.txt"
+                  accept={ACCEPTED_EXTENSIONS.join(',')}
                   onChange={handleFileSelect}
                   className="hidden"
                   disabled={disabled}
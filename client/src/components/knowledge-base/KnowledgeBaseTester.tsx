@@ -31,6 +31,8 @@ import { ChevronDown, ChevronRight } from 'lucide-react';
 interface SearchResult {
   content: string;
   similarity: number;
+  score: number;
+  matchedBy: ('vector' | 'keyword')[];
   document: {
     id: number;
     filename: string;
@@ -38,6 +40,7 @@ interface SearchResult {
   };
   chunk: {
     index: number;
+    section: string | null;
     tokenCount: number;
   };
 }
@@ -249,10 +252,24 @@ export function KnowledgeBaseTester({
                     <Badge variant="secondary" className="text-xs">
                       Chunk {result.chunk.index + 1}
                     </Badge>
+                    {result.chunk.section && (
+                      <span className="text-xs text-gray-500 truncate max-w-[200px]" title={result.chunk.section}>
+                        {result.chunk.section}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {result.matchedBy.includes('keyword') && (
+                      <Badge variant="outline" className="text-xs">
+                        {t('knowledge_base.test.keyword_match', 'Keyword')}
+                      </Badge>
+                    )}
+                    {result.matchedBy.includes('vector') && (
+                      <Badge className={`text-xs ${getSimilarityColor(result.similarity)}`}>
+                        {formatSimilarity(result.similarity)} match
+                      </Badge>
+                    )}
                   </div>
-                  <Badge className={`text-xs ${getSimilarityColor(result.similarity)}`}>
-                    {formatSimilarity(result.similarity)} match
-                  </Badge>
                 </div>
                 
                 <Collapsible>
@@ -35,12 +35,23 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 
+type VectorStoreType = 'pinecone' | 'postgres';
+type RetrievalMode = 'vector' | 'hybrid';
+
 interface RAGConfig {
   id?: number;
   enabled: boolean;
   maxRetrievedChunks: number;
   similarityThreshold: number;
   embeddingModel: string;
+  vectorStore: VectorStoreType;
+  chunkTargetTokens: number;
+  chunkOverlapTokens: number;
+  retrievalMode: RetrievalMode;
+  rerankEnabled: boolean;
+  citationsEnabled: boolean;
+  filterTags: string[];
+  filterByLanguage: boolean;
   contextPosition: 'before_system' | 'after_system' | 'before_user';
   contextTemplate: string;
 }
@@ -56,10 +67,48 @@ const DEFAULT_CONFIG: RAGConfig = {
   maxRetrievedChunks: 3,
   similarityThreshold: 0.7,
   embeddingModel: 'text-embedding-3-small', // Fixed for Pinecone compatibility
+  vectorStore: 'pinecone',
+  chunkTargetTokens: 500,
+  chunkOverlapTokens: 80,
+  retrievalMode: 'hybrid',
+  rerankEnabled: false,
+  citationsEnabled: false,
+  filterTags: [],
+  filterByLanguage: false,
   contextPosition: 'before_system',
   contextTemplate: 'Based on the following knowledge base information:\n\n{context}\n\nPlease answer the user\'s question using this information when relevant.'
 };
 
+const VECTOR_STORES: { id: VectorStoreType; name: string; description: string }[] = [
+  {
+    id: 'pinecone',
+    name: 'Pinecone',
+    description: 'Embeddings are stored in your Pinecone index'
+  },
+  {
+    id: 'postgres',
+    name: 'PostgreSQL',
+    description: 'Embeddings are stored in the application database, no Pinecone account needed'
+  }
+];
+
+const RETRIEVAL_MODES: { id: RetrievalMode; name: string; description: string }[] = [
+  {
+    id: 'hybrid',
+    name: 'Hybrid',
+    description: 'Combines keyword and semantic search, finds exact product codes and SKUs'
+  },
+  {
+    id: 'vector',
+    name: 'Semantic only',
+    description: 'Only returns chunks whose meaning is similar to the question'
+  }
+];
+
+function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
 const CONTEXT_POSITIONS = [
   { 
     id: 'before_system', 
@@ -89,6 +138,8 @@ export function RAGConfiguration({
   const [config, setConfig] = useState<RAGConfig>(DEFAULT_CONFIG);
   const [hasChanges, setHasChanges] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false); // Collapsed by default
+  const [targetVectorStore, setTargetVectorStore] = useState<VectorStoreType>('pinecone');
+  const [filterTagsText, setFilterTagsText] = useState('');
 
 
   const { data: currentConfig, isLoading, error } = useQuery({
@@ -107,6 +158,8 @@ export function RAGConfiguration({
     } else {
       setConfig(DEFAULT_CONFIG);
     }
+    setTargetVectorStore(currentConfig?.vectorStore ?? DEFAULT_CONFIG.vectorStore);
+    setFilterTagsText((currentConfig?.filterTags ?? []).join(', '));
     setHasChanges(false);
   }, [currentConfig]);
 
@@ -141,6 +194,30 @@ export function RAGConfiguration({
     }
   });
 
+  const migrateMutation = useMutation({
+    mutationFn: async (target: VectorStoreType) => {
+      const response = await apiRequest('POST', `/api/knowledge-base/config/${nodeId}/vector-store`, { target });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      const { migrated, missing } = result.data;
+      toast({
+        title: t('knowledge_base.config.vector_store_switched', 'Vector store switched'),
+        description: missing > 0
+          ? t('knowledge_base.config.vector_store_switched_missing', '{{migrated}} chunks moved, {{missing}} chunks had no embedding and need to be re-uploaded', { migrated, missing })
+          : t('knowledge_base.config.vector_store_switched_desc', '{{migrated}} chunks moved', { migrated })
+      });
+      queryClient.invalidateQueries({ queryKey: ['knowledge-base-config', nodeId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('knowledge_base.config.vector_store_switch_error', 'Switching vector store failed'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
   const handleConfigChange = (updates: Partial<RAGConfig>) => {
     setConfig(prev => ({ ...prev, ...updates }));
     setHasChanges(true);
@@ -156,6 +233,7 @@ export function RAGConfiguration({
     } else {
       setConfig(DEFAULT_CONFIG);
     }
+    setFilterTagsText((currentConfig?.filterTags ?? []).join(', '));
     setHasChanges(false);
   };
 
@@ -295,6 +373,109 @@ export function RAGConfiguration({
                 </div>
               </div>
 
+              {/* Retrieval Mode */}
+              <div className="space-y-2">
+                <Label>
+                  {t('knowledge_base.config.retrieval_mode', 'Search Mode')}
+                </Label>
+                <Select
+                  value={config.retrievalMode}
+                  onValueChange={(value: RetrievalMode) => handleConfigChange({ retrievalMode: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETRIEVAL_MODES.map((mode) => (
+                      <SelectItem key={mode.id} value={mode.id}>
+                        <div>
+                          <div className="font-medium">{mode.name}</div>
+                          <div className="text-xs text-gray-500">{mode.description}</div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Reranking */}
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>
+                    {t('knowledge_base.config.rerank', 'Rerank Results')}
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {t('knowledge_base.config.rerank_desc', 'Let the AI model reorder retrieved chunks by relevance. Adds one model call per message.')}
+                  </p>
+                </div>
+                <Switch
+                  checked={config.rerankEnabled}
+                  onCheckedChange={(rerankEnabled) => handleConfigChange({ rerankEnabled })}
+                />
+              </div>
+
+              {/* Citations */}
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>
+                    {t('knowledge_base.config.citations', 'Cite Sources')}
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {t('knowledge_base.config.citations_desc', 'Append the title and section of the documents used to each reply')}
+                  </p>
+                </div>
+                <Switch
+                  checked={config.citationsEnabled}
+                  onCheckedChange={(citationsEnabled) => handleConfigChange({ citationsEnabled })}
+                />
+              </div>
+
+              {/* Filters */}
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label>
+                    {t('knowledge_base.config.filter_tags', 'Only Documents Tagged')}
+                  </Label>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger>
+                        <Info className="w-4 h-4 text-gray-400" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">
+                          {t('knowledge_base.config.filter_tags_tooltip',
+                            'Comma-separated tags. When set, only documents with at least one of these tags are searched. Leave empty to search all documents.'
+                          )}
+                        </p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                <Input
+                  value={filterTagsText}
+                  onChange={(e) => {
+                    setFilterTagsText(e.target.value);
+                    handleConfigChange({ filterTags: parseTags(e.target.value) });
+                  }}
+                  placeholder={t('knowledge_base.config.filter_tags_placeholder', 'e.g. pricing, returns')}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>
+                    {t('knowledge_base.config.filter_by_language', 'Match Conversation Language')}
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {t('knowledge_base.config.filter_by_language_desc', 'Skip documents set to a different language than the conversation')}
+                  </p>
+                </div>
+                <Switch
+                  checked={config.filterByLanguage}
+                  onCheckedChange={(filterByLanguage) => handleConfigChange({ filterByLanguage })}
+                />
+              </div>
+
               {/* Embedding Model - Read-only (Pinecone uses text-embedding-3-small) */}
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
@@ -324,6 +505,116 @@ export function RAGConfiguration({
               </div>
             </div>
 
+            {/* Chunking Settings */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <h3 className="text-lg font-medium">
+                  {t('knowledge_base.config.chunking_title', 'Chunking')}
+                </h3>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger>
+                      <Info className="w-4 h-4 text-gray-400" />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="max-w-xs">
+                        {t('knowledge_base.config.chunking_tooltip',
+                          'Documents are split at headings and paragraphs into chunks of about this size. Changes apply to documents processed after saving.'
+                        )}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+
+              <div className="space-y-2">
+                <Label>
+                  {t('knowledge_base.config.chunk_size', 'Target Chunk Size (tokens)')}
+                </Label>
+                <div className="flex items-center gap-4">
+                  <Slider
+                    value={[config.chunkTargetTokens]}
+                    onValueChange={([value]) => handleConfigChange({ chunkTargetTokens: value })}
+                    max={2000}
+                    min={100}
+                    step={50}
+                    className="flex-1"
+                  />
+                  <span className="w-12 text-sm font-medium">{config.chunkTargetTokens}</span>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>
+                  {t('knowledge_base.config.chunk_overlap', 'Chunk Overlap (tokens)')}
+                </Label>
+                <div className="flex items-center gap-4">
+                  <Slider
+                    value={[config.chunkOverlapTokens]}
+                    onValueChange={([value]) => handleConfigChange({ chunkOverlapTokens: value })}
+                    max={500}
+                    min={0}
+                    step={10}
+                    className="flex-1"
+                  />
+                  <span className="w-12 text-sm font-medium">{config.chunkOverlapTokens}</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Vector Store */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label>
+                  {t('knowledge_base.config.vector_store', 'Vector Store')}
+                </Label>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger>
+                      <Info className="w-4 h-4 text-gray-400" />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="max-w-xs">
+                        {t('knowledge_base.config.vector_store_tooltip',
+                          'Switching copies the existing embeddings into the new store. The old store keeps its copy, so you can switch back without re-processing documents.'
+                        )}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={targetVectorStore}
+                  onValueChange={(value: VectorStoreType) => setTargetVectorStore(value)}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VECTOR_STORES.map((store) => (
+                      <SelectItem key={store.id} value={store.id}>
+                        <div>
+                          <div className="font-medium">{store.name}</div>
+                          <div className="text-xs text-gray-500">{store.description}</div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {targetVectorStore !== config.vectorStore && (
+                  <Button
+                    variant="outline"
+                    onClick={() => migrateMutation.mutate(targetVectorStore)}
+                    disabled={migrateMutation.isPending}
+                  >
+                    {migrateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {t('knowledge_base.config.vector_store_switch', 'Switch and move embeddings')}
+                  </Button>
+                )}
+              </div>
+            </div>
+
             {/* Context Injection Settings */}
             <div className="space-y-4">
               <h3 className="text-lg font-medium">
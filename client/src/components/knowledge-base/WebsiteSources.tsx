@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from '@/hooks/use-translation';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Globe, Loader2, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface WebsiteSource {
+  id: number;
+  nodeId: string;
+  type: 'sitemap' | 'website';
+  url: string;
+  maxPages: number;
+  syncIntervalHours: number | null;
+  status: 'pending' | 'syncing' | 'completed' | 'failed';
+  pageCount: number;
+  lastSyncError: string | null;
+  lastSyncedAt: string | null;
+}
+
+interface WebsiteSourcesProps {
+  nodeId: string;
+}
+
+const SYNC_SCHEDULES = [
+  { value: 'manual', hours: null, label: 'Manual only' },
+  { value: '6', hours: 6, label: 'Every 6 hours' },
+  { value: '24', hours: 24, label: 'Daily' },
+  { value: '168', hours: 168, label: 'Weekly' }
+];
+
+export function WebsiteSources({ nodeId }: WebsiteSourcesProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<WebsiteSource['type']>('sitemap');
+  const [url, setUrl] = useState('');
+  const [maxPages, setMaxPages] = useState('50');
+  const [schedule, setSchedule] = useState('24');
+
+  const { data: sources, isLoading } = useQuery({
+    queryKey: ['knowledge-base-sources', nodeId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/knowledge-base/sources?nodeId=${nodeId}`);
+      const result = await response.json();
+      return result.data as WebsiteSource[];
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some(source => source.status === 'syncing') ? 5000 : false
+  });
+
+  const isSyncing = sources?.some(source => source.status === 'syncing');
+
+  React.useEffect(() => {
+    if (isSyncing === false) {
+      queryClient.invalidateQueries({ queryKey: ['knowledge-base-documents'] });
+    }
+  }, [isSyncing, queryClient]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/knowledge-base/sources', {
+        nodeId,
+        type,
+        url: url.trim(),
+        maxPages: parseInt(maxPages),
+        syncIntervalHours: SYNC_SCHEDULES.find(option => option.value === schedule)?.hours ?? null
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setUrl('');
+      queryClient.invalidateQueries({ queryKey: ['knowledge-base-sources', nodeId] });
+      toast({
+        title: t('knowledge_base.sources.added', 'Website added'),
+        description: t('knowledge_base.sources.added_desc', 'Pages are being crawled and added to the knowledge base')
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('knowledge_base.sources.add_error', 'Could not add website'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async (sourceId: number) => {
+      const response = await apiRequest('POST', `/api/knowledge-base/sources/${sourceId}/sync`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge-base-sources', nodeId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('knowledge_base.sources.sync_error', 'Sync failed'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sourceId: number) => {
+      const response = await apiRequest('DELETE', `/api/knowledge-base/sources/${sourceId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge-base-sources', nodeId] });
+      queryClient.invalidateQueries({ queryKey: ['knowledge-base-documents'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('knowledge_base.sources.delete_error', 'Delete failed'),
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const getStatusBadge = (source: WebsiteSource) => {
+    switch (source.status) {
+      case 'pending':
+        return <Badge variant="secondary">{t('knowledge_base.sources.status_pending', 'Pending')}</Badge>;
+      case 'syncing':
+        return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+          {t('knowledge_base.sources.status_syncing', 'Syncing')}
+        </Badge>;
+      case 'completed':
+        return <Badge variant="default" className="bg-green-100 text-green-800">
+          {t('knowledge_base.sources.status_completed', 'Synced')}
+        </Badge>;
+      case 'failed':
+        return <Badge variant="destructive">{t('knowledge_base.sources.status_failed', 'Failed')}</Badge>;
+    }
+  };
+
+  const canAdd = url.trim().length > 0 && parseInt(maxPages) > 0 && !createMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="w-5 h-5" />
+          {t('knowledge_base.sources.title', 'Website Sources')}
+        </CardTitle>
+        <CardDescription>
+          {t('knowledge_base.sources.description', 'Crawl a help center from its sitemap or start page. Changed pages are re-ingested on every sync.')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            {t('common.loading', 'Loading...')}
+          </div>
+        ) : sources && sources.length > 0 && (
+          <div className="space-y-2">
+            {sources.map((source) => (
+              <div key={source.id} className="p-3 border rounded-lg space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {source.type === 'sitemap'
+                      ? t('knowledge_base.sources.type_sitemap', 'Sitemap')
+                      : t('knowledge_base.sources.type_website', 'Website')}
+                  </Badge>
+                  <span className="text-sm font-medium truncate flex-1" title={source.url}>{source.url}</span>
+                  {getStatusBadge(source)}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    disabled={source.status === 'syncing' || syncMutation.isPending}
+                    onClick={() => syncMutation.mutate(source.id)}
+                    title={t('knowledge_base.sources.sync_now', 'Sync now')}
+                  >
+                    <RefreshCw className={`w-4 h-4 ${source.status === 'syncing' ? 'animate-spin' : ''}`} />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                        disabled={source.status === 'syncing' || deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>
+                          {t('knowledge_base.sources.delete_confirm_title', 'Remove Website')}
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {t('knowledge_base.sources.delete_confirm_desc', 'All pages ingested from this website will be removed from the knowledge base.')}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>{t('common.cancel', 'Cancel')}</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteMutation.mutate(source.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          {t('common.delete', 'Delete')}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+                <div className="flex items-center gap-4 text-xs text-gray-500">
+                  <span>{t('knowledge_base.sources.page_count', '{{count}} pages', { count: source.pageCount })}</span>
+                  <span>
+                    {SYNC_SCHEDULES.find(option => option.hours === source.syncIntervalHours)?.label
+                      ?? t('knowledge_base.sources.every_hours', 'Every {{hours}} hours', { hours: source.syncIntervalHours })}
+                  </span>
+                  {source.lastSyncedAt && (
+                    <span>
+                      {t('knowledge_base.sources.last_synced', 'Synced {{time}}', {
+                        time: formatDistanceToNow(new Date(source.lastSyncedAt), { addSuffix: true })
+                      })}
+                    </span>
+                  )}
+                </div>
+                {source.status === 'failed' && source.lastSyncError && (
+                  <p className="text-xs text-red-600">{source.lastSyncError}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 pt-2 border-t">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">{t('knowledge_base.sources.type', 'Type')}</Label>
+              <Select value={type} onValueChange={(value: WebsiteSource['type']) => setType(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sitemap">{t('knowledge_base.sources.type_sitemap', 'Sitemap')}</SelectItem>
+                  <SelectItem value="website">{t('knowledge_base.sources.type_website', 'Website')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('knowledge_base.sources.max_pages', 'Max pages')}</Label>
+              <Input type="number" min="1" max="500" value={maxPages} onChange={(e) => setMaxPages(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('knowledge_base.sources.schedule', 'Re-sync')}</Label>
+              <Select value={schedule} onValueChange={setSchedule}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SYNC_SCHEDULES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder={type === 'sitemap' ? 'https://help.example.com/sitemap.xml' : 'https://help.example.com/articles/'}
+            />
+            <Button onClick={() => createMutation.mutate()} disabled={!canAdd}>
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4 mr-2" />
+              )}
+              {t('knowledge_base.sources.add', 'Add')}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ export { DocumentList } from './DocumentList';
 export { RAGConfiguration } from './RAGConfiguration';
 export { KnowledgeBaseTester } from './KnowledgeBaseTester';
 export { ProcessorStatus } from './ProcessorStatus';
+export { WebsiteSources } from './WebsiteSources';
 
 
 export interface KnowledgeBaseDocument {
@@ -16,6 +17,9 @@ export interface KnowledgeBaseDocument {
   chunkCount: number;
   processingError?: string;
   processingDurationMs?: number;
+  sourceUrl?: string | null;
+  tags: string[];
+  language: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -26,6 +30,14 @@ export interface RAGConfig {
   maxRetrievedChunks: number;
   similarityThreshold: number;
   embeddingModel: string;
+  vectorStore: 'pinecone' | 'postgres';
+  chunkTargetTokens: number;
+  chunkOverlapTokens: number;
+  retrievalMode: 'vector' | 'hybrid';
+  rerankEnabled: boolean;
+  citationsEnabled: boolean;
+  filterTags: string[];
+  filterByLanguage: boolean;
   contextPosition: 'before_system' | 'after_system' | 'before_user';
   contextTemplate: string;
 }
@@ -33,6 +45,8 @@ export interface RAGConfig {
 export interface SearchResult {
   content: string;
   similarity: number;
+  score: number;
+  matchedBy: ('vector' | 'keyword')[];
   document: {
     id: number;
     filename: string;
@@ -40,6 +54,7 @@ export interface SearchResult {
   };
   chunk: {
     index: number;
+    section: string | null;
     tokenCount: number;
   };
 }
@@ -508,6 +508,10 @@ export default function Sidebar() {
                   icon = "ri-message-3-line";
                   color = "#6366f1";
                   break;
+                case 'custom':
+                  icon = "ri-plug-line";
+                  color = "#0EA5E9";
+                  break;
                 
                 default:
                   icon = "ri-message-3-line";
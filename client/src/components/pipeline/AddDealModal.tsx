@@ -39,11 +39,13 @@ import { Label } from '@/components/ui/label';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useTranslation } from '@/hooks/use-translation';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
 
 const createAddDealSchema = (t: (key: string, fallback?: string) => string) => z.object({
   title: z.string().min(2, t('pipeline.validation.title_min', 'Title must be at least 2 characters')),
   stage: z.string().min(1, t('pipeline.validation.stage_required', 'Please select a pipeline stage')),
   value: z.number().min(0).optional().nullable(),
+  currency: z.string().length(3).optional().nullable(),
   contactId: z.number().min(1, t('pipeline.validation.contact_required', 'Please select a contact')),
   priority: z.enum(['low', 'medium', 'high']).default('medium'),
   dueDate: z.date().optional().nullable(),
@@ -84,6 +86,7 @@ function validatePhoneNumber(phone: string): { isValid: boolean; error?: string
 export default function AddDealModal({ isOpen, onClose, activePipelineId }: AddDealModalProps) {
   const { toast } = useToast();
   const { t } = useTranslation();
+  const { baseCurrency, currencies } = useDealCurrency();
   const queryClient = useQueryClient();
   const { activePipeline } = usePipeline();
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
@@ -152,6 +155,7 @@ export default function AddDealModal({ isOpen, onClose, activePipelineId }: AddD
       title: '',
       stage: '',
       value: null,
+      currency: null,
       contactId: undefined,
       priority: 'medium',
       dueDate: null,
@@ -458,6 +462,29 @@ export default function AddDealModal({ isOpen, onClose, activePipelineId }: AddD
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('pipeline.currency', 'Currency')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || baseCurrency}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {currencies.map(code => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="stage"
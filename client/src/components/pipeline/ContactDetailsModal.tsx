@@ -8,6 +8,7 @@ import { Separator } from '@/components/ui/separator';
 import { ContactAvatar } from '@/components/contacts/ContactAvatar';
 import { Button } from '@/components/ui/button';
 import { useTranslation } from '@/hooks/use-translation';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
 import { 
   User, 
   Phone, 
@@ -26,6 +27,7 @@ interface ContactDetailsModalProps {
 
 export default function ContactDetailsModal({ contactId, isOpen, onClose }: ContactDetailsModalProps) {
   const { t } = useTranslation();
+  const { formatAmount } = useDealCurrency();
   const { data: contact, isLoading } = useQuery({
     queryKey: ['/api/contacts', contactId],
     queryFn: () => apiRequest('GET', `/api/contacts/${contactId}`)
@@ -256,7 +258,7 @@ export default function ContactDetailsModal({ contactId, isOpen, onClose }: Cont
                           <div className="flex-1">
                             <p className="text-sm font-medium">{deal.title}</p>
                             <p className="text-xs text-muted-foreground">
-                              {deal.value && `$${new Intl.NumberFormat().format(deal.value)} • `}
+                              {deal.value && `${formatAmount(deal.value, deal.currency)} • `}
                               {deal.stage}
                             </p>
                           </div>
@@ -10,6 +10,7 @@ import { useLocation } from 'wouter';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { useTranslation } from '@/hooks/use-translation';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -53,6 +54,7 @@ export default function DealCard({
   searchTerm = ''
 }: DealCardProps) {
   const { t } = useTranslation();
+  const { baseCurrency } = useDealCurrency();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -345,7 +347,7 @@ export default function DealCard({
             </div>
             {deal.value && (
               <div className="text-lg font-semibold text-green-600 mt-1">
-                ${new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(deal.value)}
+                {new Intl.NumberFormat('en-US', { style: 'currency', currency: deal.currency || baseCurrency, notation: 'compact', maximumFractionDigits: 1 }).format(deal.value)}
               </div>
             )}
           </div>
@@ -8,6 +8,8 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ContactAvatar } from '@/components/contacts/ContactAvatar';
 import { useTranslation } from '@/hooks/use-translation';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
+import DealLineItemsEditor from './DealLineItemsEditor';
 import {
   User,
   Calendar,
@@ -37,6 +39,7 @@ interface DealDetailsModalProps {
 
 export default function DealDetailsModal({ deal, isOpen, onClose }: DealDetailsModalProps) {
   const { t } = useTranslation();
+  const { formatAmount } = useDealCurrency();
   const { pipelines } = usePipeline();
   const dealPipeline = deal?.pipelineId ? pipelines.find(p => p.id === deal.pipelineId) : null;
   
@@ -261,7 +264,7 @@ export default function DealDetailsModal({ deal, isOpen, onClose }: DealDetailsM
                     <div>
                       <p className="text-sm text-muted-foreground">{t('pipeline.deal_value', 'Deal Value')}</p>
                       <p className="font-semibold text-lg">
-                        ${new Intl.NumberFormat().format(deal.value)}
+                        {formatAmount(deal.value, deal.currency)}
                       </p>
                     </div>
                   </div>
@@ -336,6 +339,10 @@ export default function DealDetailsModal({ deal, isOpen, onClose }: DealDetailsM
               </div>
             </div>
 
+            <Separator />
+
+            <DealLineItemsEditor deal={deal} />
+
             {deal.description && (
               <>
                 <Separator />
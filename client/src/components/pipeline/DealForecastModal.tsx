@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatCurrency as formatCurrencyUtil } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, Loader2, TrendingUp } from 'lucide-react';
+import type { DealForecastBucket, DealForecastReport } from '@shared/schema';
+
+interface DealForecastModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pipelines: { id: number; name: string }[];
+  activePipelineId: number | null;
+}
+
+interface TeamMember {
+  id: number;
+  fullName?: string;
+  username?: string;
+}
+
+export default function DealForecastModal({ isOpen, onClose, pipelines, activePipelineId }: DealForecastModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [pipelineId, setPipelineId] = useState<string>('all');
+  const [ownerId, setOwnerId] = useState<string>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPipelineId(activePipelineId ? String(activePipelineId) : 'all');
+    }
+  }, [isOpen, activePipelineId]);
+
+  const params = new URLSearchParams();
+  if (pipelineId !== 'all') params.set('pipelineId', pipelineId);
+  if (ownerId !== 'all') params.set('ownerId', ownerId);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const queryString = params.toString();
+
+  const { data: report, isLoading, error } = useQuery<DealForecastReport>({
+    queryKey: ['/api/deal-forecast', queryString],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/deal-forecast${queryString ? `?${queryString}` : ''}`);
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: isOpen,
+  });
+
+  const { data: teamMembers = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team-members'],
+    queryFn: () => apiRequest('GET', '/api/team-members')
+      .then(res => res.json()),
+    enabled: isOpen,
+  });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const exportParams = new URLSearchParams(queryString);
+      exportParams.set('format', 'csv');
+      const response = await fetch(`/api/deal-forecast/export?${exportParams.toString()}`, { credentials: 'include' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `deal_forecast_${new Date().toISOString().split('T')[0]}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err: any) {
+      toast({
+        title: t('pipeline.forecast.export_failed', 'Export Failed'),
+        description: err.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => formatCurrencyUtil(amount, report?.currency);
+
+  const pipelineName = (id: number) => pipelines.find(pipeline => pipeline.id === id)?.name || `#${id}`;
+
+  const renderBuckets = (buckets: DealForecastBucket[], labelHeading: string) => (
+    buckets.length === 0 ? (
+      <p className="text-sm text-muted-foreground py-4">{t('pipeline.forecast.no_deals', 'No deals match these filters.')}</p>
+    ) : (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{labelHeading}</TableHead>
+            <TableHead className="text-right">{t('pipeline.forecast.open_deals', 'Open deals')}</TableHead>
+            <TableHead className="text-right">{t('pipeline.forecast.pipeline_value', 'Pipeline')}</TableHead>
+            <TableHead className="text-right">{t('pipeline.forecast.weighted', 'Weighted')}</TableHead>
+            <TableHead className="text-right">{t('pipeline.forecast.won', 'Won')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {buckets.map(bucket => (
+            <TableRow key={bucket.key}>
+              <TableCell className="font-medium">{bucket.label}</TableCell>
+              <TableCell className="text-right">{bucket.openDeals}</TableCell>
+              <TableCell className="text-right">{formatCurrency(bucket.openValue)}</TableCell>
+              <TableCell className="text-right font-medium">{formatCurrency(bucket.weightedValue)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(bucket.wonValue)} ({bucket.wonDeals})</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            {t('pipeline.forecast.title', 'Sales Forecast')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('pipeline.forecast.description', 'Open deal values weighted by each stage\'s win probability, grouped by expected close month, owner and pipeline.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-5 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">{t('pipeline.forecast.pipeline', 'Pipeline')}</Label>
+            <Select value={pipelineId} onValueChange={setPipelineId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('pipeline.forecast.all_pipelines', 'All pipelines')}</SelectItem>
+                {pipelines.map(pipeline => (
+                  <SelectItem key={pipeline.id} value={String(pipeline.id)}>{pipeline.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{t('pipeline.forecast.owner', 'Owner')}</Label>
+            <Select value={ownerId} onValueChange={setOwnerId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('pipeline.forecast.all_owners', 'All owners')}</SelectItem>
+                {teamMembers.map(member => (
+                  <SelectItem key={member.id} value={String(member.id)}>{member.fullName || member.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{t('pipeline.forecast.from', 'Close date from')}</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{t('pipeline.forecast.to', 'Close date to')}</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={isExporting || !report}>
+            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            {t('pipeline.forecast.export_csv', 'Export CSV')}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive py-4">{(error as Error).message}</p>
+        ) : report && (
+          <div className="space-y-4">
+            {report.missingRates.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {t('pipeline.forecast.missing_rates', 'Deals in {{currencies}} are excluded from values until an exchange rate to {{currency}} is set.', {
+                    currencies: report.missingRates.join(', '),
+                    currency: report.currency
+                  })}
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="grid gap-3 sm:grid-cols-4">
+              {[
+                { label: t('pipeline.forecast.weighted_forecast', 'Weighted forecast'), value: formatCurrency(report.totals.weightedValue) },
+                { label: t('pipeline.forecast.open_pipeline', 'Open pipeline'), value: formatCurrency(report.totals.openValue) },
+                { label: t('pipeline.forecast.closed_won', 'Closed won'), value: formatCurrency(report.totals.wonValue) },
+                {
+                  label: t('pipeline.forecast.win_rate', 'Win rate'),
+                  value: report.totals.wonDeals + report.totals.lostDeals > 0
+                    ? `${Math.round(report.totals.wonDeals / (report.totals.wonDeals + report.totals.lostDeals) * 100)}%`
+                    : '—'
+                }
+              ].map(card => (
+                <div key={card.label} className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">{card.label}</p>
+                  <p className="text-lg font-semibold">{card.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <Tabs defaultValue="stages">
+              <TabsList>
+                <TabsTrigger value="stages">{t('pipeline.forecast.by_stage', 'Stages')}</TabsTrigger>
+                <TabsTrigger value="month">{t('pipeline.forecast.by_month', 'By month')}</TabsTrigger>
+                <TabsTrigger value="owner">{t('pipeline.forecast.by_owner', 'By owner')}</TabsTrigger>
+                <TabsTrigger value="pipeline">{t('pipeline.forecast.by_pipeline', 'By pipeline')}</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="stages">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('pipeline.forecast.stage', 'Stage')}</TableHead>
+                      <TableHead className="text-right">{t('pipeline.forecast.probability', 'Win probability')}</TableHead>
+                      <TableHead className="text-right">{t('pipeline.forecast.open_deals', 'Open deals')}</TableHead>
+                      <TableHead className="text-right">{t('pipeline.forecast.weighted', 'Weighted')}</TableHead>
+                      <TableHead className="text-right">{t('pipeline.forecast.conversion', 'Conversion')}</TableHead>
+                      <TableHead className="text-right">{t('pipeline.forecast.avg_days', 'Avg. days in stage')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.stages.map(stage => (
+                      <TableRow key={stage.stageId}>
+                        <TableCell>
+                          <div className="font-medium">{stage.name}</div>
+                          {pipelineId === 'all' && (
+                            <div className="text-xs text-muted-foreground">{pipelineName(stage.pipelineId)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {stage.winProbability}%
+                          {stage.probabilitySource === 'default' && (
+                            <Badge variant="outline" className="ml-2 text-xs">{t('pipeline.forecast.default', 'default')}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{stage.openDeals} · {formatCurrency(stage.openValue)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(stage.weightedValue)}</TableCell>
+                        <TableCell className="text-right">
+                          {stage.conversionRate === null ? '—' : `${stage.conversionRate}% (${stage.advanced}/${stage.reached})`}
+                        </TableCell>
+                        <TableCell className="text-right">{stage.avgDaysInStage === null ? '—' : stage.avgDaysInStage}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+              <TabsContent value="month">
+                {renderBuckets(report.byMonth, t('pipeline.forecast.month', 'Expected close'))}
+              </TabsContent>
+              <TabsContent value="owner">
+                {renderBuckets(report.byOwner, t('pipeline.forecast.owner', 'Owner'))}
+              </TabsContent>
+              <TabsContent value="pipeline">
+                {renderBuckets(report.byPipeline, t('pipeline.forecast.pipeline', 'Pipeline'))}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Package, Plus, Trash2 } from 'lucide-react';
+import type { Deal, DealLineItem, Product } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface DealLineItemsEditorProps {
+  deal: Deal;
+}
+
+interface LineItemRow {
+  productId: number | null;
+  name: string;
+  quantity: string;
+  unitPrice: string;
+  discountPercent: string;
+  taxRate: string;
+}
+
+interface LineItemsResponse {
+  items: DealLineItem[];
+  totals: { subtotal: number; discount: number; tax: number; total: number };
+}
+
+const emptyRow = (): LineItemRow => ({
+  productId: null,
+  name: '',
+  quantity: '1',
+  unitPrice: '0',
+  discountPercent: '0',
+  taxRate: '0',
+});
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const rowTotal = (row: LineItemRow) => {
+  const subtotal = toNumber(row.quantity) * toNumber(row.unitPrice);
+  const discounted = subtotal - subtotal * toNumber(row.discountPercent) / 100;
+  return discounted + discounted * toNumber(row.taxRate) / 100;
+};
+
+export default function DealLineItemsEditor({ deal }: DealLineItemsEditorProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatAmount } = useDealCurrency();
+  const [rows, setRows] = useState<LineItemRow[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const lineItemsKey = ['/api/deals', deal.id, 'line-items'];
+
+  const { data, isLoading } = useQuery<LineItemsResponse>({
+    queryKey: lineItemsKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/deals/${deal.id}/line-items`);
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/products');
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  useEffect(() => {
+    if (data && !isDirty) {
+      setRows(data.items.map(item => ({
+        productId: item.productId,
+        name: item.name,
+        quantity: String(Number(item.quantity)),
+        unitPrice: String(Number(item.unitPrice)),
+        discountPercent: String(Number(item.discountPercent)),
+        taxRate: String(Number(item.taxRate)),
+      })));
+    }
+  }, [data, isDirty]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (items: LineItemRow[]) => {
+      const response = await apiRequest('PUT', `/api/deals/${deal.id}/line-items`, {
+        items: items.map(row => ({
+          productId: row.productId,
+          name: row.name.trim(),
+          quantity: toNumber(row.quantity),
+          unitPrice: toNumber(row.unitPrice),
+          discountPercent: toNumber(row.discountPercent),
+          taxRate: toNumber(row.taxRate),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsDirty(false);
+      queryClient.invalidateQueries({ queryKey: lineItemsKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/deals'] });
+      toast({
+        title: t('common.success', 'Success'),
+        description: t('pipeline.line_items.saved', 'Line items saved'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', 'Error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<LineItemRow>) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setIsDirty(true);
+  };
+
+  const selectProduct = (index: number, value: string) => {
+    if (value === 'custom') {
+      updateRow(index, { productId: null });
+      return;
+    }
+    const product = products.find(p => p.id === parseInt(value));
+    if (!product) return;
+    updateRow(index, {
+      productId: product.id,
+      name: product.name,
+      unitPrice: String(Number(product.unitPrice)),
+      taxRate: String(Number(product.taxRate)),
+    });
+  };
+
+  const addRow = () => {
+    setRows(current => [...current, emptyRow()]);
+    setIsDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(current => current.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const total = rows.reduce((sum, row) => sum + rowTotal(row), 0);
+  const hasInvalidRow = rows.some(row => !row.name.trim() || toNumber(row.quantity) <= 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Package className="h-5 w-5" />
+          {t('pipeline.line_items.title', 'Products')}
+        </h3>
+        <Button variant="outline" size="sm" onClick={addRow}>
+          <Plus className="h-4 w-4 mr-1" />
+          {t('pipeline.line_items.add', 'Add line')}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t('pipeline.line_items.empty', 'No products on this deal. The deal value is entered manually.')}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[180px]">{t('pipeline.line_items.item', 'Item')}</TableHead>
+              <TableHead className="w-20">{t('pipeline.line_items.quantity', 'Qty')}</TableHead>
+              <TableHead className="w-28">{t('pipeline.line_items.unit_price', 'Unit price')}</TableHead>
+              <TableHead className="w-20">{t('pipeline.line_items.discount', 'Disc. %')}</TableHead>
+              <TableHead className="w-20">{t('pipeline.line_items.tax', 'Tax %')}</TableHead>
+              <TableHead className="text-right">{t('pipeline.line_items.total', 'Total')}</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index}>
+                <TableCell className="space-y-1">
+                  <Select
+                    value={row.productId ? String(row.productId) : 'custom'}
+                    onValueChange={(value) => selectProduct(index, value)}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="custom">{t('pipeline.line_items.custom', 'Custom item')}</SelectItem>
+                      {products.map(product => (
+                        <SelectItem key={product.id} value={String(product.id)}>
+                          {product.sku ? `${product.name} (${product.sku})` : product.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="h-8"
+                    value={row.name}
+                    placeholder={t('pipeline.line_items.name', 'Name')}
+                    onChange={(e) => updateRow(index, { name: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input className="h-8" type="number" min="0" step="any" value={row.quantity}
+                    onChange={(e) => updateRow(index, { quantity: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <Input className="h-8" type="number" min="0" step="0.01" value={row.unitPrice}
+                    onChange={(e) => updateRow(index, { unitPrice: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <Input className="h-8" type="number" min="0" max="100" value={row.discountPercent}
+                    onChange={(e) => updateRow(index, { discountPercent: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <Input className="h-8" type="number" min="0" max="100" value={row.taxRate}
+                    onChange={(e) => updateRow(index, { taxRate: e.target.value })} />
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {formatAmount(rowTotal(row), deal.currency)}
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeRow(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {(rows.length > 0 || isDirty) && (
+        <div className="flex items-center justify-between">
+          <p className="font-semibold">
+            {t('pipeline.line_items.grand_total', 'Total')}: {formatAmount(total, deal.currency)}
+          </p>
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate(rows)}
+            disabled={!isDirty || hasInvalidRow || saveMutation.isPending}
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {t('pipeline.line_items.save', 'Save products')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
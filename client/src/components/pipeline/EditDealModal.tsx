@@ -9,6 +9,7 @@ import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { usePipeline } from '@/hooks/use-pipeline';
 import { useTranslation } from '@/hooks/use-translation';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
@@ -36,6 +37,7 @@ const createEditDealSchema = (t: (key: string, fallback?: string) => string) =>
   title: z.string().min(2, t('pipeline.validation.title_min', 'Title must be at least 2 characters')),
   stageId: z.string().min(1, t('pipeline.validation.stage_required', 'Please select a pipeline stage')),
   value: z.number().min(0).optional().nullable(),
+  currency: z.string().length(3).optional().nullable(),
   contactId: z.number().min(1, t('pipeline.validation.contact_required', 'Please select a contact')),
   priority: z.enum(['low', 'medium', 'high']).default('medium'),
   dueDate: z.date().optional().nullable(),
@@ -56,6 +58,7 @@ interface EditDealModalProps {
 export default function EditDealModal({ deal, isOpen, onClose, activePipelineId }: EditDealModalProps) {
   const { toast } = useToast();
   const { t } = useTranslation();
+  const { baseCurrency, currencies } = useDealCurrency();
   const queryClient = useQueryClient();
   const { pipelines } = usePipeline();
   const dealPipelineId = deal?.pipelineId || activePipelineId;
@@ -96,6 +99,7 @@ export default function EditDealModal({ deal, isOpen, onClose, activePipelineId
       title: '',
       stageId: '',
       value: null,
+      currency: null,
       contactId: undefined,
       priority: 'medium',
       dueDate: null,
@@ -111,6 +115,7 @@ export default function EditDealModal({ deal, isOpen, onClose, activePipelineId
         title: deal.title || '',
         stageId: deal.stageId?.toString() || '',
         value: deal.value || null,
+        currency: deal.currency || null,
         contactId: deal.contactId || undefined,
         priority: deal.priority || 'medium',
         dueDate: deal.dueDate ? new Date(deal.dueDate) : null,
@@ -287,7 +292,7 @@ export default function EditDealModal({ deal, isOpen, onClose, activePipelineId
                   name="value"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>{t('pipeline.deal_value_dollar', 'Deal Value ($)')}</FormLabel>
+                      <FormLabel>{t('pipeline.deal_value', 'Deal Value')}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
@@ -302,6 +307,29 @@ export default function EditDealModal({ deal, isOpen, onClose, activePipelineId
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('pipeline.currency', 'Currency')}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || baseCurrency}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {currencies.map(code => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="priority"
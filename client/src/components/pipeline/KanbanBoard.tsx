@@ -5,9 +5,10 @@ import DealCard from '@/components/pipeline/DealCard';
 import StageHeader from '@/components/pipeline/StageHeader';
 import BulkOperationsBar from '@/components/pipeline/BulkOperationsBar';
 import ImportExportModal from '@/components/pipeline/ImportExportModal';
+import StageAutomationsModal from '@/components/pipeline/StageAutomationsModal';
 import { PipelineLoadingSkeleton } from '@/components/pipeline/PipelineSkeletons';
 import { EmptyPipelineState, EmptyDealsState, EmptyStageState } from '@/components/pipeline/EmptyStates';
-import { Deal, PipelineStage } from '@shared/schema';
+import { Deal, DEAL_REQUIRED_FIELDS, DealRequiredField, PipelineStage } from '@shared/schema';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from '@/hooks/use-translation';
@@ -32,6 +33,7 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 interface KanbanBoardProps {
@@ -39,6 +41,15 @@ interface KanbanBoardProps {
   activePipelineId: number | null;
 }
 
+const requiredFieldLabels: Record<DealRequiredField, string> = {
+  value: 'Value',
+  currency: 'Currency',
+  dueDate: 'Due date',
+  assignedToUserId: 'Owner',
+  description: 'Description',
+  tags: 'Tags',
+};
+
 export default function KanbanBoard({ onAddDeal, activePipelineId }: KanbanBoardProps) {
   const { filters } = usePipeline();
   const { toast } = useToast();
@@ -49,6 +60,9 @@ export default function KanbanBoard({ onAddDeal, activePipelineId }: KanbanBoard
   const [newStageColor, setNewStageColor] = useState('#3a86ff');
   const [editedStageName, setEditedStageName] = useState('');
   const [editedStageColor, setEditedStageColor] = useState('');
+  const [editedStageProbability, setEditedStageProbability] = useState('');
+  const [editedStageRequiredFields, setEditedStageRequiredFields] = useState<string[]>([]);
+  const [automationStage, setAutomationStage] = useState<PipelineStage | null>(null);
   const [isAddingStage, setIsAddingStage] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [stageToDelete, setStageToDelete] = useState<PipelineStage | null>(null);
@@ -285,15 +299,18 @@ export default function KanbanBoard({ onAddDeal, activePipelineId }: KanbanBoard
   });
 
   const updateStageMutation = useMutation({
-    mutationFn: async ({ id, name, color }: { id: number; name: string; color: string }) => {
-      const response = await apiRequest('PUT', `/api/pipeline/stages/${id}`, { name, color });
+    mutationFn: async ({ id, name, color, winProbability, requiredFields }: { id: number; name: string; color: string; winProbability: number | null; requiredFields: string[] }) => {
+      const response = await apiRequest('PUT', `/api/pipeline/stages/${id}`, { name, color, winProbability, requiredFields });
       return response.json();
     },
     onSuccess: () => {
       setEditingStageId(null);
       setEditedStageName('');
       setEditedStageColor('');
+      setEditedStageProbability('');
+      setEditedStageRequiredFields([]);
       queryClient.invalidateQueries({ queryKey: ['/api/pipeline/stages'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/deal-forecast'] });
       toast({
         title: t('common.success', 'Success'),
         description: t('pipeline.stage_updated_success', 'Stage updated successfully'),
@@ -377,6 +394,8 @@ export default function KanbanBoard({ onAddDeal, activePipelineId }: KanbanBoard
     setEditingStageId(stage.id);
     setEditedStageName(stage.name);
     setEditedStageColor(stage.color);
+    setEditedStageProbability(stage.winProbability !== null && stage.winProbability !== undefined ? String(stage.winProbability) : '');
+    setEditedStageRequiredFields(stage.requiredFields || []);
   };
 
   const handleUpdateStage = (id: number) => {
@@ -389,13 +408,25 @@ export default function KanbanBoard({ onAddDeal, activePipelineId }: KanbanBoard
       return;
     }
 
-    updateStageMutation.mutate({ id, name: editedStageName, color: editedStageColor });
+    const winProbability = editedStageProbability.trim() === '' ? null : Number(editedStageProbability);
+    if (winProbability !== null && (!Number.isInteger(winProbability) || winProbability < 0 || winProbability > 100)) {
+      toast({
+        title: t('common.error', 'Error'),
+        description: t('pipeline.stage_probability_invalid', 'Win probability must be a whole number from 0 to 100'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    updateStageMutation.mutate({ id, name: editedStageName, color: editedStageColor, winProbability, requiredFields: editedStageRequiredFields });
   };
 
   const handleCancelEdit = () => {
     setEditingStageId(null);
     setEditedStageName('');
     setEditedStageColor('');
+    setEditedStageProbability('');
+    setEditedStageRequiredFields([]);
   };
 
   const handleDeleteStage = (stage: PipelineStage) => {
@@ -598,6 +629,7 @@ export default function KanbanBoard({ onAddDeal, activePipelineId }: KanbanBoard
                       deals={currentDeals[stage.id] || []}
                       onEditStage={handleEditStage}
                       onDeleteStage={handleDeleteStage}
+                      onManageAutomations={setAutomationStage}
                     />
                     <Droppable droppableId={stage.id.toString()}>
                       {(provided, snapshot) => (
@@ -738,6 +770,40 @@ export default function KanbanBoard({ onAddDeal, activePipelineId }: KanbanBoard
                 <span className="text-sm">{editedStageColor}</span>
               </div>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-probability">{t('pipeline.stage_win_probability', 'Win Probability (%)')}</Label>
+              <Input
+                id="edit-probability"
+                type="number"
+                min={0}
+                max={100}
+                placeholder={t('pipeline.stage_win_probability_placeholder', 'Default for this stage type')}
+                value={editedStageProbability}
+                onChange={(e) => setEditedStageProbability(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t('pipeline.stage_win_probability_help', 'Weights the value of open deals in this stage in the forecast.')}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('pipeline.stage_required_fields', 'Required Fields')}</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {DEAL_REQUIRED_FIELDS.map((field) => (
+                  <label key={field} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={editedStageRequiredFields.includes(field)}
+                      onCheckedChange={(checked) => setEditedStageRequiredFields(current =>
+                        checked ? [...current, field] : current.filter(item => item !== field)
+                      )}
+                    />
+                    {t(`pipeline.required_field.${field}`, requiredFieldLabels[field])}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t('pipeline.stage_required_fields_help', 'Deals must have these fields filled in before they can enter this stage.')}
+              </p>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={handleCancelEdit}>
@@ -833,6 +899,15 @@ export default function KanbanBoard({ onAddDeal, activePipelineId }: KanbanBoard
           queryClient.invalidateQueries({ queryKey: ['/api/deals'] });
         }}
       />
+
+      {automationStage && (
+        <StageAutomationsModal
+          isOpen={!!automationStage}
+          onClose={() => setAutomationStage(null)}
+          stage={automationStage}
+          stages={pipelineStages}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
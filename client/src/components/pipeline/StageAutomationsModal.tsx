@@ -0,0 +1,454 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Loader2, Pencil, Plus, Trash2, Zap } from 'lucide-react';
+import type { PipelineStage, PipelineStageAutomation, StageAutomationAction, StageAutomationTrigger } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface StageAutomationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stage: PipelineStage;
+  stages: PipelineStage[];
+}
+
+interface AutomationForm {
+  name: string;
+  trigger: StageAutomationTrigger;
+  idleDays: string;
+  actions: StageAutomationAction[];
+  isActive: boolean;
+}
+
+interface TeamMember {
+  id: number;
+  fullName?: string;
+  username?: string;
+}
+
+interface QuickReplyTemplate {
+  id: number;
+  name: string;
+}
+
+type ActionType = StageAutomationAction['type'];
+
+const ACTION_TYPES: ActionType[] = ['send_template', 'create_task', 'assign_owner', 'webhook', 'move_stage', 'add_tags'];
+
+const defaultAction = (type: ActionType): StageAutomationAction => {
+  switch (type) {
+    case 'send_template': return { type, templateId: 0 };
+    case 'create_task': return { type, title: 'Follow up on {{deal.title}}', dueInDays: 1, priority: 'medium' };
+    case 'assign_owner': return { type, userId: 0 };
+    case 'webhook': return { type, url: '', message: 'Deal {{deal.title}} reached {{stage.name}}' };
+    case 'move_stage': return { type, stageId: 0 };
+    case 'add_tags': return { type, tags: [] };
+  }
+};
+
+const emptyForm = (): AutomationForm => ({
+  name: '',
+  trigger: 'enter',
+  idleDays: '7',
+  actions: [defaultAction('create_task')],
+  isActive: true,
+});
+
+export default function StageAutomationsModal({ isOpen, onClose, stage, stages }: StageAutomationsModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = usePermissions();
+  const canManage = hasPermission(PERMISSIONS.MANAGE_PIPELINE);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<AutomationForm | null>(null);
+
+  const automationsKey = ['/api/pipeline-automations', stage.pipelineId];
+
+  const { data: automations = [], isLoading } = useQuery<PipelineStageAutomation[]>({
+    queryKey: automationsKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/pipeline-automations?pipelineId=${stage.pipelineId}`);
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: isOpen,
+  });
+
+  const { data: templates = [] } = useQuery<QuickReplyTemplate[]>({
+    queryKey: ['quick-reply-templates'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/quick-replies');
+      const data = await response.json();
+      return data.data || [];
+    },
+    enabled: isOpen,
+  });
+
+  const { data: teamMembers = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team-members'],
+    queryFn: () => apiRequest('GET', '/api/team-members')
+      .then(res => res.json()),
+    enabled: isOpen,
+  });
+
+  const stageAutomations = automations.filter(automation => automation.stageId === stage.id);
+  const otherStages = stages.filter(item => item.id !== stage.id);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', 'Error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number | null; data: AutomationForm }) => {
+      const payload = {
+        stageId: stage.id,
+        name: data.name.trim(),
+        trigger: data.trigger,
+        idleDays: data.trigger === 'idle' ? parseInt(data.idleDays) || null : null,
+        actions: data.actions,
+        isActive: data.isActive,
+      };
+      const response = id
+        ? await apiRequest('PUT', `/api/pipeline-automations/${id}`, payload)
+        : await apiRequest('POST', '/api/pipeline-automations', payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: automationsKey });
+      setForm(null);
+      setEditingId(null);
+      toast({
+        title: t('pipeline.automations.saved', 'Automation saved'),
+      });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (automation: PipelineStageAutomation) => {
+      const { id, companyId, createdAt, updatedAt, ...data } = automation;
+      const response = await apiRequest('PUT', `/api/pipeline-automations/${id}`, { ...data, isActive: !automation.isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: automationsKey });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/pipeline-automations/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: automationsKey });
+    },
+    onError,
+  });
+
+  const openEditor = (automation?: PipelineStageAutomation) => {
+    if (automation) {
+      setEditingId(automation.id);
+      setForm({
+        name: automation.name,
+        trigger: automation.trigger,
+        idleDays: automation.idleDays ? String(automation.idleDays) : '7',
+        actions: automation.actions,
+        isActive: automation.isActive,
+      });
+    } else {
+      setEditingId(null);
+      setForm(emptyForm());
+    }
+  };
+
+  const updateForm = (updates: Partial<AutomationForm>) => {
+    if (form) setForm({ ...form, ...updates });
+  };
+
+  const updateAction = (index: number, action: StageAutomationAction) => {
+    if (form) updateForm({ actions: form.actions.map((item, i) => i === index ? action : item) });
+  };
+
+  const triggerLabel = (automation: PipelineStageAutomation) => {
+    if (automation.trigger === 'enter') return t('pipeline.automations.trigger_enter', 'On enter');
+    if (automation.trigger === 'exit') return t('pipeline.automations.trigger_exit', 'On exit');
+    return t('pipeline.automations.trigger_idle_days', 'Idle {{days}} days', { days: automation.idleDays });
+  };
+
+  const actionLabel = (type: ActionType) => ({
+    send_template: t('pipeline.automations.action_send_template', 'Send template to contact'),
+    create_task: t('pipeline.automations.action_create_task', 'Create task'),
+    assign_owner: t('pipeline.automations.action_assign_owner', 'Assign owner'),
+    webhook: t('pipeline.automations.action_webhook', 'Notify webhook'),
+    move_stage: t('pipeline.automations.action_move_stage', 'Move to stage'),
+    add_tags: t('pipeline.automations.action_add_tags', 'Add tags'),
+  })[type];
+
+  const isActionComplete = (action: StageAutomationAction) => {
+    switch (action.type) {
+      case 'send_template': return action.templateId > 0;
+      case 'create_task': return action.title.trim().length > 0;
+      case 'assign_owner': return action.userId > 0;
+      case 'webhook': return action.url.trim().length > 0 && action.message.trim().length > 0;
+      case 'move_stage': return action.stageId > 0;
+      case 'add_tags': return action.tags.length > 0;
+    }
+  };
+
+  const canSave = !!form && form.name.trim().length > 0 && form.actions.length > 0 &&
+    form.actions.every(isActionComplete) && (form.trigger !== 'idle' || parseInt(form.idleDays) > 0);
+
+  const renderActionFields = (action: StageAutomationAction, index: number) => {
+    switch (action.type) {
+      case 'send_template':
+        return (
+          <Select value={action.templateId ? String(action.templateId) : ''} onValueChange={(value) => updateAction(index, { ...action, templateId: parseInt(value) })}>
+            <SelectTrigger><SelectValue placeholder={t('pipeline.automations.select_template', 'Select a quick reply template')} /></SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'create_task':
+        return (
+          <div className="space-y-2">
+            <Input value={action.title} placeholder={t('pipeline.automations.task_title', 'Task title')}
+              onChange={(e) => updateAction(index, { ...action, title: e.target.value })} />
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">{t('pipeline.automations.due_in_days', 'Due in (days)')}</Label>
+                <Input type="number" min={0} value={action.dueInDays}
+                  onChange={(e) => updateAction(index, { ...action, dueInDays: parseInt(e.target.value) || 0 })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">{t('pipeline.automations.priority', 'Priority')}</Label>
+                <Select value={action.priority} onValueChange={(value) => updateAction(index, { ...action, priority: value as typeof action.priority })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">{t('pipeline.low', 'Low')}</SelectItem>
+                    <SelectItem value="medium">{t('pipeline.medium', 'Medium')}</SelectItem>
+                    <SelectItem value="high">{t('pipeline.high', 'High')}</SelectItem>
+                    <SelectItem value="urgent">{t('pipeline.urgent', 'Urgent')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        );
+      case 'assign_owner':
+        return (
+          <Select value={action.userId ? String(action.userId) : ''} onValueChange={(value) => updateAction(index, { ...action, userId: parseInt(value) })}>
+            <SelectTrigger><SelectValue placeholder={t('pipeline.automations.select_user', 'Select a team member')} /></SelectTrigger>
+            <SelectContent>
+              {teamMembers.map(member => (
+                <SelectItem key={member.id} value={String(member.id)}>{member.fullName || member.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'webhook':
+        return (
+          <div className="space-y-2">
+            <Input value={action.url} placeholder="https://hooks.slack.com/services/..."
+              onChange={(e) => updateAction(index, { ...action, url: e.target.value })} />
+            <Textarea rows={2} value={action.message}
+              onChange={(e) => updateAction(index, { ...action, message: e.target.value })} />
+          </div>
+        );
+      case 'move_stage':
+        return (
+          <Select value={action.stageId ? String(action.stageId) : ''} onValueChange={(value) => updateAction(index, { ...action, stageId: parseInt(value) })}>
+            <SelectTrigger><SelectValue placeholder={t('pipeline.automations.select_stage', 'Select a stage')} /></SelectTrigger>
+            <SelectContent>
+              {otherStages.map(item => (
+                <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'add_tags':
+        return (
+          <Input value={action.tags.join(', ')} placeholder={t('pipeline.automations.tags_placeholder', 'tag1, tag2')}
+            onChange={(e) => updateAction(index, { ...action, tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean) })} />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="h-5 w-5" />
+            {t('pipeline.automations.title', 'Automations: {{stage}}', { stage: stage.name })}
+          </DialogTitle>
+          <DialogDescription>
+            {t('pipeline.automations.description', 'Run actions when a deal enters or leaves this stage, or has no activity in it for a number of days.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>{t('pipeline.automations.name', 'Name')}</Label>
+                <Input value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('pipeline.automations.trigger', 'When')}</Label>
+                <div className="flex gap-2">
+                  <Select value={form.trigger} onValueChange={(value) => updateForm({ trigger: value as StageAutomationTrigger })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="enter">{t('pipeline.automations.trigger_enter', 'On enter')}</SelectItem>
+                      <SelectItem value="exit">{t('pipeline.automations.trigger_exit', 'On exit')}</SelectItem>
+                      <SelectItem value="idle">{t('pipeline.automations.trigger_idle', 'Idle for')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {form.trigger === 'idle' && (
+                    <Input className="w-24" type="number" min={1} value={form.idleDays}
+                      placeholder={t('pipeline.automations.days', 'days')}
+                      onChange={(e) => updateForm({ idleDays: e.target.value })} />
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>{t('pipeline.automations.actions', 'Actions')}</Label>
+              {form.actions.map((action, index) => (
+                <div key={index} className="border rounded-md p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Select value={action.type} onValueChange={(value) => updateAction(index, defaultAction(value as ActionType))}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {ACTION_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{actionLabel(type)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => updateForm({ actions: form.actions.filter((_, i) => i !== index) })}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {renderActionFields(action, index)}
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => updateForm({ actions: [...form.actions, defaultAction('create_task')] })}>
+                <Plus className="h-4 w-4 mr-1" />
+                {t('pipeline.automations.add_action', 'Add action')}
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                {t('pipeline.automations.variables_help', 'Text can use {{contact.name}}, {{deal.title}}, {{deal.value}} and {{stage.name}}.')}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch checked={form.isActive} onCheckedChange={(checked) => updateForm({ isActive: checked })} />
+              <Label>{t('pipeline.automations.active', 'Active')}</Label>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : stageAutomations.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            {t('pipeline.automations.empty', 'No automations for this stage yet.')}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {stageAutomations.map(automation => (
+              <div key={automation.id} className="flex items-center justify-between gap-4 border rounded-md p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{automation.name}</span>
+                    <Badge variant="outline">{triggerLabel(automation)}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {automation.actions.map(action => actionLabel(action.type)).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={automation.isActive}
+                    disabled={!canManage || toggleMutation.isPending}
+                    onCheckedChange={() => toggleMutation.mutate(automation)}
+                  />
+                  {canManage && (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(automation)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => {
+                          if (confirm(t('pipeline.automations.delete_confirm', 'Delete this automation?'))) {
+                            deleteMutation.mutate(automation.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {form ? (
+            <>
+              <Button variant="outline" onClick={() => setForm(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                {t('common.back', 'Back')}
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate({ id: editingId, data: form })}
+                disabled={!canSave || saveMutation.isPending}
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t('common.save', 'Save')}
+              </Button>
+            </>
+          ) : canManage && (
+            <Button onClick={() => openEditor()}>
+              <Plus className="h-4 w-4 mr-1" />
+              {t('pipeline.automations.add', 'Add automation')}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
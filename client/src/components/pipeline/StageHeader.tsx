@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { MoreHorizontal, Edit2, Trash2, TrendingUp, DollarSign, Clock } from 'lucide-react';
+import { MoreHorizontal, Edit2, Trash2, TrendingUp, DollarSign, Clock, Zap } from 'lucide-react';
 import { PipelineStage, Deal } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -10,22 +10,28 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useTranslation } from '@/hooks/use-translation';
-import { useCurrency } from '@/contexts/currency-context';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
 
 interface StageHeaderProps {
   stage: PipelineStage;
   deals: Deal[];
   onEditStage: (stage: PipelineStage) => void;
   onDeleteStage: (stage: PipelineStage) => void;
+  onManageAutomations: (stage: PipelineStage) => void;
 }
 
-export default function StageHeader({ stage, deals, onEditStage, onDeleteStage }: StageHeaderProps) {
+export default function StageHeader({ stage, deals, onEditStage, onDeleteStage, onManageAutomations }: StageHeaderProps) {
   const { t } = useTranslation();
-  const { currency, formatCurrency } = useCurrency();
+  const { baseCurrency, toBase, formatAmount } = useDealCurrency();
 
   const stageStats = useMemo(() => {
-    const totalValue = deals.reduce((sum, deal) => sum + (deal.value || 0), 0);
-    const avgValue = deals.length > 0 ? totalValue / deals.length : 0;
+    let unconverted = 0;
+    const totalValue = deals.reduce((sum, deal) => {
+      const value = toBase(deal.value || 0, deal.currency);
+      if (value === null) unconverted++;
+      return sum + (value ?? 0);
+    }, 0);
+    const avgValue = deals.length > unconverted ? totalValue / (deals.length - unconverted) : 0;
     
 
     const now = new Date();
@@ -46,6 +52,7 @@ export default function StageHeader({ stage, deals, onEditStage, onDeleteStage }
 
     return {
       count: deals.length,
+      unconverted,
       totalValue,
       avgValue,
       avgDaysInStage: Math.round(avgDaysInStage),
@@ -53,12 +60,12 @@ export default function StageHeader({ stage, deals, onEditStage, onDeleteStage }
       mediumPriority: priorities.medium || 0,
       lowPriority: priorities.low || 0,
     };
-  }, [deals]);
+  }, [deals, toBase]);
 
   const formatValue = (value: number) => {
 
 
-    const sampleFormatted = formatCurrency(1);
+    const sampleFormatted = formatAmount(1);
     const currencySymbol = sampleFormatted.replace(/[\d.,\s]/g, '').trim();
     
     if (value >= 1000000) {
@@ -67,7 +74,7 @@ export default function StageHeader({ stage, deals, onEditStage, onDeleteStage }
     if (value >= 1000) {
       return `${(value / 1000).toFixed(1)}K ${currencySymbol}`;
     }
-    return formatCurrency(value);
+    return formatAmount(value);
   };
 
   return (
@@ -106,6 +113,10 @@ export default function StageHeader({ stage, deals, onEditStage, onDeleteStage }
               <Edit2 className="mr-2 h-4 w-4" />
               {t('common.edit', 'Edit')}
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onManageAutomations(stage)}>
+              <Zap className="mr-2 h-4 w-4" />
+              {t('pipeline.automations.menu', 'Automations')}
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => onDeleteStage(stage)}>
               <Trash2 className="mr-2 h-4 w-4" />
               {t('common.delete', 'Delete')}
@@ -132,6 +143,9 @@ export default function StageHeader({ stage, deals, onEditStage, onDeleteStage }
                 <div className="text-xs">
                   <p>Total Value: {formatValue(stageStats.totalValue)}</p>
                   <p>Average Value: {formatValue(stageStats.avgValue)}</p>
+                  {stageStats.unconverted > 0 && (
+                    <p>{t('pipeline.deals_without_rate', '{{count}} deals excluded: no exchange rate to {{currency}}', { count: stageStats.unconverted, currency: baseCurrency })}</p>
+                  )}
                 </div>
               </TooltipContent>
             </Tooltip>
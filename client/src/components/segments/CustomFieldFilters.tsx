@@ -0,0 +1,190 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation } from '@/hooks/use-translation';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import type { CompanyCustomField, SegmentCustomFieldFilter, SegmentCustomFieldOperator } from '@shared/schema';
+
+interface CustomFieldFiltersProps {
+  value: SegmentCustomFieldFilter[];
+  onChange: (filters: SegmentCustomFieldFilter[]) => void;
+}
+
+/**
+ * Filters that are complete enough to send to the server (value-less operators or a non-empty value)
+ */
+export const getActiveCustomFieldFilters = (filters: SegmentCustomFieldFilter[] | undefined) =>
+  (filters || []).filter(filter =>
+    filter.operator === 'is_set' ||
+    filter.operator === 'is_not_set' ||
+    (filter.value !== undefined && filter.value !== null && String(filter.value) !== '')
+  );
+
+const operatorsFor = (field?: CompanyCustomField): SegmentCustomFieldOperator[] => {
+  switch (field?.fieldType) {
+    case 'number':
+    case 'date':
+      return ['equals', 'not_equals', 'gt', 'lt', 'is_set', 'is_not_set'];
+    case 'boolean':
+      return ['equals', 'is_set', 'is_not_set'];
+    case 'select':
+    case 'multi_select':
+      return ['equals', 'not_equals', 'is_set', 'is_not_set'];
+    default:
+      return ['equals', 'not_equals', 'contains', 'is_set', 'is_not_set'];
+  }
+};
+
+export function CustomFieldFilters({ value, onChange }: CustomFieldFiltersProps) {
+  const { t } = useTranslation();
+  const { customFields } = useCustomFields('contact');
+
+  const operatorLabel = (operator: SegmentCustomFieldOperator, field?: CompanyCustomField) => {
+    switch (operator) {
+      case 'not_equals': return t('segments.custom_fields.not_equals', 'is not');
+      case 'contains': return t('segments.custom_fields.contains', 'contains');
+      case 'gt': return field?.fieldType === 'date'
+        ? t('segments.custom_fields.after', 'is after')
+        : t('segments.custom_fields.gt', 'is greater than');
+      case 'lt': return field?.fieldType === 'date'
+        ? t('segments.custom_fields.before', 'is before')
+        : t('segments.custom_fields.lt', 'is less than');
+      case 'is_set': return t('segments.custom_fields.is_set', 'is set');
+      case 'is_not_set': return t('segments.custom_fields.is_not_set', 'is not set');
+      default: return t('segments.custom_fields.equals', 'is');
+    }
+  };
+
+  const updateFilter = (index: number, updates: Partial<SegmentCustomFieldFilter>) => {
+    onChange(value.map((filter, i) => i === index ? { ...filter, ...updates } : filter));
+  };
+
+  const removeFilter = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const addFilter = () => {
+    const field = customFields[0];
+    if (!field) return;
+    onChange([...value, { field: field.fieldName, operator: 'equals', value: field.fieldType === 'boolean' ? true : '' }]);
+  };
+
+  if (customFields.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {t('segments.custom_fields.none_defined', 'No custom contact fields are defined. Add them under Settings → General Settings.')}
+      </p>
+    );
+  }
+
+  const renderValueInput = (filter: SegmentCustomFieldFilter, index: number, field?: CompanyCustomField) => {
+    if (filter.operator === 'is_set' || filter.operator === 'is_not_set') {
+      return null;
+    }
+
+    if (field?.fieldType === 'boolean') {
+      return (
+        <Select
+          value={String(filter.value ?? true)}
+          onValueChange={(selected) => updateFilter(index, { value: selected === 'true' })}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">{t('common.yes', 'Yes')}</SelectItem>
+            <SelectItem value="false">{t('common.no', 'No')}</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if ((field?.fieldType === 'select' || field?.fieldType === 'multi_select') && field.options?.length) {
+      return (
+        <Select
+          value={filter.value ? String(filter.value) : undefined}
+          onValueChange={(selected) => updateFilter(index, { value: selected })}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={t('segments.custom_fields.select_value', 'Select value')} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        type={field?.fieldType === 'number' ? 'number' : field?.fieldType === 'date' ? 'date' : 'text'}
+        value={filter.value === undefined ? '' : String(filter.value)}
+        onChange={(e) => updateFilter(index, { value: e.target.value })}
+        className="flex-1"
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((filter, index) => {
+        const field = customFields.find(f => f.fieldName === filter.field);
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Select
+              value={filter.field}
+              onValueChange={(fieldName) => {
+                const nextField = customFields.find(f => f.fieldName === fieldName);
+                updateFilter(index, {
+                  field: fieldName,
+                  operator: 'equals',
+                  value: nextField?.fieldType === 'boolean' ? true : ''
+                });
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {customFields.map(f => (
+                  <SelectItem key={f.id} value={f.fieldName}>{f.fieldLabel}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filter.operator}
+              onValueChange={(operator) => updateFilter(index, { operator: operator as SegmentCustomFieldOperator })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {operatorsFor(field).map(operator => (
+                  <SelectItem key={operator} value={operator}>{operatorLabel(operator, field)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {renderValueInput(filter, index, field)}
+
+            <Button type="button" variant="ghost" size="icon" onClick={() => removeFilter(index)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={addFilter}>
+        <Plus className="w-4 h-4 mr-1" />
+        {t('segments.custom_fields.add_condition', 'Add condition')}
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        💡 {t('segments.custom_fields.description', 'Contacts must match ALL custom field conditions')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,409 @@
+import { useQuery } from '@tanstack/react-query';
+import { FolderPlus, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation } from '@/hooks/use-translation';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { useChannelConnections } from '@/hooks/useChannelConnections';
+import { cn } from '@/lib/utils';
+import {
+  SEGMENT_RULE_FIELD_OPERATORS,
+  type SegmentCampaignEngagement,
+  type SegmentRule,
+  type SegmentRuleField,
+  type SegmentRuleGroup,
+  type SegmentRuleOperator
+} from '@shared/schema';
+
+const MAX_DEPTH = 5;
+
+const CONVERSATION_STATUSES = ['open', 'active', 'pending', 'closed', 'resolved', 'archived'];
+const ENGAGEMENT_VALUES: SegmentCampaignEngagement[] = ['delivered', 'read', 'replied', 'failed'];
+const TEXT_FIELDS: SegmentRuleField[] = ['name', 'email', 'phone', 'company', 'source'];
+const DATE_FIELDS: SegmentRuleField[] = ['created_at', 'last_message_at'];
+const LIST_FIELDS: SegmentRuleField[] = ['tags', 'channel', 'deal_stage', 'conversation_status'];
+
+interface SegmentRuleBuilderProps {
+  value: SegmentRuleGroup;
+  onChange: (group: SegmentRuleGroup) => void;
+  pipelineStages: Array<{ id: number; name: string; color: string }>;
+}
+
+export const createEmptyRuleGroup = (): SegmentRuleGroup => ({ type: 'group', combinator: 'and', rules: [] });
+
+const isGroup = (node: SegmentRule | SegmentRuleGroup): node is SegmentRuleGroup => node.type === 'group';
+
+const isRuleComplete = (rule: SegmentRule) => {
+  if (rule.operator === 'is_set' || rule.operator === 'is_not_set') {
+    return rule.field !== 'custom_field' || !!rule.customField;
+  }
+  if (rule.field === 'custom_field' && !rule.customField) {
+    return false;
+  }
+  if (Array.isArray(rule.value)) {
+    return rule.value.length > 0;
+  }
+  return rule.value !== undefined && rule.value !== null && String(rule.value) !== '';
+};
+
+/**
+ * Number of rules complete enough to be evaluated on the server
+ */
+export const countActiveRules = (group: SegmentRuleGroup | undefined): number =>
+  (group?.rules || []).reduce((count, node) =>
+    count + (isGroup(node) ? countActiveRules(node) : isRuleComplete(node) ? 1 : 0), 0);
+
+const defaultValueFor = (field: SegmentRuleField, operator: SegmentRuleOperator): SegmentRule['value'] => {
+  if (LIST_FIELDS.includes(field)) return [];
+  if (field === 'campaign_engagement') return 'replied';
+  if (operator === 'within_last_days' || operator === 'not_within_last_days') return 30;
+  return '';
+};
+
+const newRule = (field: SegmentRuleField = 'tags'): SegmentRule => {
+  const operator = SEGMENT_RULE_FIELD_OPERATORS[field][0];
+  return { type: 'rule', field, operator, value: defaultValueFor(field, operator) };
+};
+
+export function SegmentRuleBuilder({ value, onChange, pipelineStages }: SegmentRuleBuilderProps) {
+  return <RuleGroupEditor group={value} onChange={onChange} depth={1} pipelineStages={pipelineStages} />;
+}
+
+interface RuleGroupEditorProps {
+  group: SegmentRuleGroup;
+  onChange: (group: SegmentRuleGroup) => void;
+  onRemove?: () => void;
+  depth: number;
+  pipelineStages: SegmentRuleBuilderProps['pipelineStages'];
+}
+
+function RuleGroupEditor({ group, onChange, onRemove, depth, pipelineStages }: RuleGroupEditorProps) {
+  const { t } = useTranslation();
+
+  const updateNode = (index: number, node: SegmentRule | SegmentRuleGroup) => {
+    onChange({ ...group, rules: group.rules.map((existing, i) => i === index ? node : existing) });
+  };
+
+  const removeNode = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={cn('space-y-3 rounded-md border p-3', depth > 1 && 'bg-muted/40')}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.combinator}
+          onValueChange={(combinator) => onChange({ ...group, combinator: combinator as SegmentRuleGroup['combinator'] })}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">{t('segments.rules.match_all', 'Match ALL (AND)')}</SelectItem>
+            <SelectItem value="or">{t('segments.rules.match_any', 'Match ANY (OR)')}</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">
+          {t('segments.rules.of_the_following', 'of the following conditions')}
+        </span>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" className="ml-auto" onClick={onRemove}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.map((node, index) => (
+        <div key={index} className="flex items-start gap-2">
+          {index > 0 && (
+            <Badge variant="outline" className="mt-2 w-10 justify-center uppercase">
+              {group.combinator}
+            </Badge>
+          )}
+          <div className={cn('flex-1', index === 0 && 'ml-12')}>
+            {isGroup(node) ? (
+              <RuleGroupEditor
+                group={node}
+                onChange={(updated) => updateNode(index, updated)}
+                onRemove={() => removeNode(index)}
+                depth={depth + 1}
+                pipelineStages={pipelineStages}
+              />
+            ) : (
+              <RuleEditor
+                rule={node}
+                onChange={(updated) => updateNode(index, updated)}
+                onRemove={() => removeNode(index)}
+                pipelineStages={pipelineStages}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...group, rules: [...group.rules, newRule()] })}>
+          <Plus className="w-4 h-4 mr-1" />
+          {t('segments.rules.add_rule', 'Add rule')}
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({
+              ...group,
+              rules: [...group.rules, { type: 'group', combinator: group.combinator === 'and' ? 'or' : 'and', rules: [newRule()] }]
+            })}
+          >
+            <FolderPlus className="w-4 h-4 mr-1" />
+            {t('segments.rules.add_group', 'Add group')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface RuleEditorProps {
+  rule: SegmentRule;
+  onChange: (rule: SegmentRule) => void;
+  onRemove: () => void;
+  pipelineStages: SegmentRuleBuilderProps['pipelineStages'];
+}
+
+function RuleEditor({ rule, onChange, onRemove, pipelineStages }: RuleEditorProps) {
+  const { t } = useTranslation();
+  const { customFields } = useCustomFields('contact');
+  const { data: channelConnections = [] } = useChannelConnections();
+
+  const { data: campaigns = [] } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ['/api/campaigns', 'segment-rules'],
+    queryFn: async () => {
+      const response = await fetch('/api/campaigns?limit=200');
+      const result = await response.json();
+      return result.success ? result.data : [];
+    },
+    enabled: rule.field === 'campaign_engagement',
+  });
+
+  const fieldLabels: Record<SegmentRuleField, string> = {
+    name: t('segments.rules.field_name', 'Name'),
+    email: t('segments.rules.field_email', 'Email'),
+    phone: t('segments.rules.field_phone', 'Phone'),
+    company: t('segments.rules.field_company', 'Company'),
+    source: t('segments.rules.field_source', 'Source'),
+    created_at: t('segments.rules.field_created_at', 'Created date'),
+    custom_field: t('segments.rules.field_custom_field', 'Custom field'),
+    tags: t('segments.rules.field_tags', 'Tags'),
+    channel: t('segments.rules.field_channel', 'Channel'),
+    last_message_at: t('segments.rules.field_last_message_at', 'Last message date'),
+    deal_stage: t('segments.rules.field_deal_stage', 'Deal stage'),
+    campaign_engagement: t('segments.rules.field_campaign_engagement', 'Campaign engagement'),
+    conversation_status: t('segments.rules.field_conversation_status', 'Conversation status'),
+  };
+
+  const operatorLabels: Record<SegmentRuleOperator, string> = {
+    equals: t('segments.rules.op_equals', 'is'),
+    not_equals: t('segments.rules.op_not_equals', 'is not'),
+    contains: t('segments.rules.op_contains', 'contains'),
+    not_contains: t('segments.rules.op_not_contains', 'does not contain'),
+    gt: t('segments.rules.op_gt', 'is greater than'),
+    lt: t('segments.rules.op_lt', 'is less than'),
+    is_set: t('segments.rules.op_is_set', 'is set'),
+    is_not_set: t('segments.rules.op_is_not_set', 'is not set'),
+    has_any: t('segments.rules.op_has_any', 'is any of'),
+    has_all: t('segments.rules.op_has_all', 'is all of'),
+    has_none: t('segments.rules.op_has_none', 'is none of'),
+    before: t('segments.rules.op_before', 'is before'),
+    after: t('segments.rules.op_after', 'is after'),
+    within_last_days: t('segments.rules.op_within_last_days', 'is within the last (days)'),
+    not_within_last_days: t('segments.rules.op_not_within_last_days', 'is not within the last (days)'),
+  };
+
+  const changeField = (field: SegmentRuleField) => {
+    const next = newRule(field);
+    if (field === 'custom_field') {
+      next.customField = customFields[0]?.fieldName;
+      next.operator = 'equals';
+    }
+    onChange(next);
+  };
+
+  const changeOperator = (operator: SegmentRuleOperator) => {
+    const needsNumber = operator === 'within_last_days' || operator === 'not_within_last_days';
+    const hadNumber = rule.operator === 'within_last_days' || rule.operator === 'not_within_last_days';
+    onChange({
+      ...rule,
+      operator,
+      value: DATE_FIELDS.includes(rule.field) && needsNumber !== hadNumber ? defaultValueFor(rule.field, operator) : rule.value
+    });
+  };
+
+  const toggleListValue = (item: string | number, checked: boolean) => {
+    const current = Array.isArray(rule.value) ? rule.value : [];
+    onChange({ ...rule, value: checked ? [...current, item] : current.filter(existing => existing !== item) });
+  };
+
+  const renderOptionList = (options: Array<{ value: string | number; label: string }>) => (
+    <div className="flex flex-wrap gap-3">
+      {options.map(option => (
+        <label key={option.value} className="flex items-center gap-1.5 text-sm">
+          <Checkbox
+            checked={Array.isArray(rule.value) && rule.value.includes(option.value)}
+            onCheckedChange={(checked) => toggleListValue(option.value, !!checked)}
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  );
+
+  const renderValueInput = () => {
+    if (rule.operator === 'is_set' || rule.operator === 'is_not_set') {
+      return null;
+    }
+
+    switch (rule.field) {
+      case 'tags': {
+        const tags = Array.isArray(rule.value) ? rule.value.map(String) : [];
+        return (
+          <div className="w-full space-y-2">
+            <Input
+              placeholder={t('segments.rules.tags_placeholder', 'Type a tag and press Enter')}
+              onKeyDown={(e) => {
+                const tag = e.currentTarget.value.trim();
+                if (e.key === 'Enter' && tag) {
+                  e.preventDefault();
+                  if (!tags.includes(tag)) onChange({ ...rule, value: [...tags, tag] });
+                  e.currentTarget.value = '';
+                }
+              }}
+            />
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+                    {tag}
+                    <button type="button" onClick={() => onChange({ ...rule, value: tags.filter(existing => existing !== tag) })}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      }
+      case 'channel': {
+        const channelTypes = Array.from(new Set(channelConnections.map(connection => connection.channelType)));
+        return renderOptionList(channelTypes.map(type => ({ value: type, label: type })));
+      }
+      case 'deal_stage':
+        return renderOptionList(pipelineStages.map(stage => ({ value: stage.id, label: stage.name })));
+      case 'conversation_status':
+        return renderOptionList(CONVERSATION_STATUSES.map(status => ({ value: status, label: status })));
+      case 'campaign_engagement':
+        return (
+          <>
+            <Select value={String(rule.value || 'replied')} onValueChange={(engagement) => onChange({ ...rule, value: engagement })}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENGAGEMENT_VALUES.map(engagement => (
+                  <SelectItem key={engagement} value={engagement}>
+                    {t(`segments.rules.engagement_${engagement}`, engagement)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={rule.campaignId ? String(rule.campaignId) : 'any'}
+              onValueChange={(campaignId) => onChange({ ...rule, campaignId: campaignId === 'any' ? undefined : Number(campaignId) })}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">{t('segments.rules.any_campaign', 'in any campaign')}</SelectItem>
+                {campaigns.map(campaign => (
+                  <SelectItem key={campaign.id} value={String(campaign.id)}>{campaign.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        );
+    }
+
+    const isDays = rule.operator === 'within_last_days' || rule.operator === 'not_within_last_days';
+    const customField = customFields.find(field => field.fieldName === rule.customField);
+    const inputType = isDays || customField?.fieldType === 'number'
+      ? 'number'
+      : DATE_FIELDS.includes(rule.field) || customField?.fieldType === 'date' ? 'date' : 'text';
+
+    return (
+      <Input
+        type={inputType}
+        min={isDays ? 0 : undefined}
+        value={rule.value === undefined ? '' : String(rule.value)}
+        onChange={(e) => onChange({ ...rule, value: isDays ? Math.max(0, parseInt(e.target.value) || 0) : e.target.value })}
+        className={cn('flex-1 min-w-[140px]', TEXT_FIELDS.includes(rule.field) && 'min-w-[180px]')}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={rule.field} onValueChange={(field) => changeField(field as SegmentRuleField)}>
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(fieldLabels) as SegmentRuleField[])
+            .filter(field => field !== 'custom_field' || customFields.length > 0)
+            .map(field => (
+              <SelectItem key={field} value={field}>{fieldLabels[field]}</SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+
+      {rule.field === 'custom_field' && (
+        <Select value={rule.customField} onValueChange={(customField) => onChange({ ...rule, customField, value: '' })}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {customFields.map(field => (
+              <SelectItem key={field.id} value={field.fieldName}>{field.fieldLabel}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select value={rule.operator} onValueChange={(operator) => changeOperator(operator as SegmentRuleOperator)}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SEGMENT_RULE_FIELD_OPERATORS[rule.field].map(operator => (
+            <SelectItem key={operator} value={operator}>
+              {rule.field === 'campaign_engagement'
+                ? operator === 'equals' ? t('segments.rules.op_has', 'has') : t('segments.rules.op_has_not', 'has not')
+                : operatorLabels[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {renderValueInput()}
+
+      <Button type="button" variant="ghost" size="icon" onClick={onRemove}>
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
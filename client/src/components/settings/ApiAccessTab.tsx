@@ -30,9 +30,11 @@ import {
   Calendar,
   Clock,
   CheckCircle,
-  XCircle
+  XCircle,
+  Webhook
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { WebhookSubscriptionSettings } from './WebhookSubscriptionSettings';
 
 interface ApiKey {
   id: number;
@@ -260,6 +262,10 @@ export function ApiAccessTab() {
             <BarChart3 className="w-4 h-4 mr-2" />
             Usage Statistics
           </TabsTrigger>
+          <TabsTrigger value="webhooks">
+            <Webhook className="w-4 h-4 mr-2" />
+            Webhooks
+          </TabsTrigger>
           <TabsTrigger value="docs">
             <BookOpen className="w-4 h-4 mr-2" />
             Documentation
@@ -364,6 +370,10 @@ export function ApiAccessTab() {
           )}
         </TabsContent>
 
+        <TabsContent value="webhooks" className="space-y-4">
+          <WebhookSubscriptionSettings />
+        </TabsContent>
+
         <TabsContent value="usage" className="space-y-4">
           {usageStats && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
@@ -0,0 +1,364 @@
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  BUSINESS_HOURS_QUERY_KEY,
+  useBusinessHoursCalendars,
+  type BusinessHoursCalendarWithStatus
+} from '@/hooks/use-business-hours-calendars';
+import { Loader2, Clock, Plus, Pencil, Trash2, Upload, X } from 'lucide-react';
+import type { BusinessHoursCalendar, BusinessHoursHoliday } from '@shared/schema';
+
+type CalendarForm = Omit<BusinessHoursCalendar, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>;
+
+const WEEKDAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const emptyCalendar = (isDefault: boolean): CalendarForm => ({
+  name: '',
+  description: null,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  days: WEEKDAY_KEYS.map((_, index) => ({ enabled: index >= 1 && index <= 5, start: '09:00', end: '17:00' })),
+  holidays: [],
+  isDefault
+});
+
+const describeDays = (calendar: BusinessHoursCalendar, t: any) =>
+  calendar.days
+    .map((day, index) => day.enabled ? `${t(`common.days.${WEEKDAY_KEYS[index]}`, WEEKDAY_KEYS[index]).slice(0, 3)} ${day.start}–${day.end}` : null)
+    .filter(Boolean)
+    .join(', ');
+
+export function BusinessHoursSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin' || user?.isSuperAdmin;
+  const { calendars, isLoading } = useBusinessHoursCalendars();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<CalendarForm | null>(null);
+  const [newHoliday, setNewHoliday] = useState<BusinessHoursHoliday>({ date: '', name: '', source: 'manual' });
+  const [importTarget, setImportTarget] = useState<BusinessHoursCalendarWithStatus | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', 'Error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number | null; data: CalendarForm }) => {
+      const response = id
+        ? await apiRequest('PUT', `/api/business-hours/${id}`, data)
+        : await apiRequest('POST', '/api/business-hours', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [BUSINESS_HOURS_QUERY_KEY] });
+      setForm(null);
+      setEditingId(null);
+      toast({
+        title: t('settings.business_hours.saved', 'Calendar saved'),
+        description: t('settings.business_hours.saved_desc', 'Flows, campaigns and auto-replies using this calendar follow the new hours'),
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/business-hours/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [BUSINESS_HOURS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ['/api/business-hours/out-of-office'] });
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }) => {
+      const response = await apiRequest('POST', `/api/business-hours/${id}/import-ical`, { content, replaceImported: true });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [BUSINESS_HOURS_QUERY_KEY] });
+      toast({
+        title: t('settings.business_hours.imported', 'Holidays imported'),
+        description: t('settings.business_hours.imported_desc', '{{count}} closed days imported from the calendar file', { count: result.data?.imported ?? 0 }),
+      });
+    },
+    onError,
+  });
+
+  const openEditor = (calendar?: BusinessHoursCalendar) => {
+    if (calendar) {
+      const { id, companyId, createdAt, updatedAt, ...data } = calendar;
+      setEditingId(id);
+      setForm(data);
+    } else {
+      setEditingId(null);
+      setForm(emptyCalendar(calendars.length === 0));
+    }
+    setNewHoliday({ date: '', name: '', source: 'manual' });
+  };
+
+  const updateForm = (updates: Partial<CalendarForm>) => {
+    if (form) setForm({ ...form, ...updates });
+  };
+
+  const updateDay = (index: number, updates: Partial<CalendarForm['days'][number]>) => {
+    if (!form) return;
+    updateForm({ days: form.days.map((day, i) => i === index ? { ...day, ...updates } : day) });
+  };
+
+  const addHoliday = () => {
+    if (!form || !/^\d{4}-\d{2}-\d{2}$/.test(newHoliday.date)) return;
+    const holidays = [...form.holidays.filter(holiday => holiday.date !== newHoliday.date), newHoliday]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    updateForm({ holidays });
+    setNewHoliday({ date: '', name: '', source: 'manual' });
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !importTarget) return;
+    importMutation.mutate({ id: importTarget.id, content: await file.text() });
+    setImportTarget(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              {t('settings.business_hours.title', 'Business Hours')}
+            </CardTitle>
+            <CardDescription>
+              {t('settings.business_hours.description', 'Opening hours and holidays used by flow conditions, campaign sending windows, scheduled messages and out-of-office replies.')}
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button size="sm" onClick={() => openEditor()} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              {t('settings.business_hours.add', 'Add calendar')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleImportFile} />
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : calendars.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t('settings.business_hours.empty', 'No calendars yet. Everything is treated as open around the clock.')}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('settings.business_hours.calendar', 'Calendar')}</TableHead>
+                <TableHead>{t('settings.business_hours.hours', 'Hours')}</TableHead>
+                <TableHead>{t('settings.business_hours.holidays', 'Holidays')}</TableHead>
+                <TableHead>{t('settings.business_hours.status', 'Now')}</TableHead>
+                {isAdmin && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {calendars.map(calendar => (
+                <TableRow key={calendar.id}>
+                  <TableCell>
+                    <div className="font-medium">{calendar.name}</div>
+                    <div className="flex gap-1 mt-1">
+                      <Badge variant="outline">{calendar.timezone}</Badge>
+                      {calendar.isDefault && <Badge variant="secondary">{t('settings.business_hours.default', 'Default')}</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeDays(calendar, t)}</TableCell>
+                  <TableCell>{calendar.holidays.length}</TableCell>
+                  <TableCell>
+                    <Badge variant={calendar.isOpen ? 'default' : 'outline'}>
+                      {calendar.isOpen ? t('settings.business_hours.open', 'Open') : t('settings.business_hours.closed', 'Closed')}
+                    </Badge>
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t('settings.business_hours.import_ical', 'Import holidays from iCal')}
+                          disabled={importMutation.isPending}
+                          onClick={() => {
+                            setImportTarget(calendar);
+                            fileInputRef.current?.click();
+                          }}
+                        >
+                          <Upload className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => openEditor(calendar)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(t('settings.business_hours.delete_confirm', 'Delete this calendar? Out-of-office replies using it are removed.'))) {
+                              deleteMutation.mutate(calendar.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? t('settings.business_hours.edit', 'Edit calendar') : t('settings.business_hours.add', 'Add calendar')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-6">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>{t('settings.business_hours.name', 'Name')}</Label>
+                  <Input value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.business_hours.timezone', 'Timezone')}</Label>
+                  <Input value={form.timezone} onChange={(e) => updateForm({ timezone: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label className="text-base font-medium">{t('settings.business_hours.is_default', 'Company default')}</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {t('settings.business_hours.is_default_desc', 'Used when a flow, campaign or scheduled message does not pick a calendar')}
+                  </p>
+                </div>
+                <Switch checked={form.isDefault} onCheckedChange={(isDefault) => updateForm({ isDefault })} />
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-base font-medium">{t('settings.business_hours.weekly_hours', 'Weekly hours')}</Label>
+                {form.days.map((day, index) => (
+                  <div key={WEEKDAY_KEYS[index]} className="flex items-center gap-3">
+                    <Switch checked={day.enabled} onCheckedChange={(enabled) => updateDay(index, { enabled })} />
+                    <span className="w-24 text-sm capitalize">{t(`common.days.${WEEKDAY_KEYS[index]}`, WEEKDAY_KEYS[index])}</span>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={day.start}
+                      disabled={!day.enabled}
+                      onChange={(e) => updateDay(index, { start: e.target.value })}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={day.end}
+                      disabled={!day.enabled}
+                      onChange={(e) => updateDay(index, { end: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label className="text-base font-medium">{t('settings.business_hours.holidays', 'Holidays')}</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {t('settings.business_hours.holidays_desc', 'Closed all day. Import an .ics file from the calendar list to add public holidays.')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    className="w-40"
+                    value={newHoliday.date}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                  />
+                  <Input
+                    placeholder={t('settings.business_hours.holiday_name', 'Name')}
+                    value={newHoliday.name}
+                    onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                  />
+                  <Button variant="outline" size="sm" onClick={addHoliday} disabled={!newHoliday.date}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                {form.holidays.length > 0 && (
+                  <div className="max-h-48 overflow-y-auto space-y-1">
+                    {form.holidays.map(holiday => (
+                      <div key={holiday.date} className="flex items-center gap-2 text-sm">
+                        <span className="w-24 font-mono">{holiday.date}</span>
+                        <span className="flex-1 truncate">{holiday.name}</span>
+                        {holiday.source === 'ical' && <Badge variant="outline">iCal</Badge>}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => updateForm({ holidays: form.holidays.filter(item => item.date !== holiday.date) })}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button
+              onClick={() => form && saveMutation.mutate({ id: editingId, data: form })}
+              disabled={!form?.name.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from '@/hooks/use-translation';
 import { apiRequest } from '@/lib/queryClient';
 import { OpenAIIcon } from "@/components/ui/openai-icon";
-import { Bot } from "lucide-react";
+import { Bot, Server } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -66,10 +66,18 @@ interface CompanyAiCredential {
   validationError?: string;
   lastValidatedAt?: string;
   apiKeyPreview: string;
+  metadata?: Partial<OpenAICompatibleEndpoint>;
   createdAt: string;
   updatedAt: string;
 }
 
+interface OpenAICompatibleEndpoint {
+  baseUrl: string;
+  authHeader?: string;
+  defaultModel: string;
+  embeddingModel?: string;
+}
+
 interface CompanyAiPreferences {
   defaultProvider: string;
   credentialPreference: 'company' | 'system' | 'auto';
@@ -80,9 +88,91 @@ interface CompanyAiPreferences {
 
 const AI_PROVIDERS = [
   { id: 'openai', name: 'OpenAI', icon: <OpenAIIcon className="w-4 h-4" /> },
-  { id: 'openrouter', name: 'OpenRouter', icon: <Bot className="w-4 h-4" /> }
+  { id: 'openrouter', name: 'OpenRouter', icon: <Bot className="w-4 h-4" /> },
+  { id: 'openai_compatible', name: 'Self-hosted (OpenAI-compatible)', icon: <Server className="w-4 h-4" /> }
 ];
 
+const OPENAI_COMPATIBLE = 'openai_compatible';
+
+const emptyCredentialForm = {
+  provider: '',
+  apiKey: '',
+  baseUrl: '',
+  authHeader: '',
+  defaultModel: '',
+  embeddingModel: '',
+  displayName: '',
+  description: '',
+  isActive: true,
+  usageLimitMonthly: ''
+};
+
+type CredentialForm = typeof emptyCredentialForm;
+
+/**
+ * Move the endpoint fields of a self-hosted provider into the credential metadata
+ */
+const toCredentialPayload = ({ baseUrl, authHeader, defaultModel, embeddingModel, ...form }: CredentialForm) => ({
+  ...form,
+  usageLimitMonthly: form.usageLimitMonthly ? parseInt(form.usageLimitMonthly) : undefined,
+  metadata: form.provider === OPENAI_COMPATIBLE ? {
+    baseUrl: baseUrl.trim(),
+    authHeader: authHeader.trim() || undefined,
+    defaultModel: defaultModel.trim(),
+    embeddingModel: embeddingModel.trim() || undefined
+  } : undefined
+});
+
+const isCredentialFormComplete = (form: CredentialForm, requireApiKey: boolean) => form.provider === OPENAI_COMPATIBLE
+  ? !!form.baseUrl.trim() && !!form.defaultModel.trim()
+  : !!form.provider && (!requireApiKey || !!form.apiKey);
+
+function EndpointFields({ form, onChange }: { form: CredentialForm; onChange: (updates: Partial<CredentialForm>) => void }) {
+  const { t } = useTranslation();
+
+  return (
+    <>
+      <div>
+        <Label>{t('settings.ai_credentials.base_url', 'Base URL')}</Label>
+        <Input
+          value={form.baseUrl}
+          onChange={(e) => onChange({ baseUrl: e.target.value })}
+          placeholder="http://localhost:11434/v1"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label>{t('settings.ai_credentials.default_model', 'Default Model')}</Label>
+          <Input
+            value={form.defaultModel}
+            onChange={(e) => onChange({ defaultModel: e.target.value })}
+            placeholder="llama3.1"
+          />
+        </div>
+        <div>
+          <Label>{t('settings.ai_credentials.embedding_model', 'Embedding Model')} ({t('common.optional', 'Optional')})</Label>
+          <Input
+            value={form.embeddingModel}
+            onChange={(e) => onChange({ embeddingModel: e.target.value })}
+            placeholder="nomic-embed-text"
+          />
+        </div>
+      </div>
+      <div>
+        <Label>{t('settings.ai_credentials.auth_header', 'Auth Header')} ({t('common.optional', 'Optional')})</Label>
+        <Input
+          value={form.authHeader}
+          onChange={(e) => onChange({ authHeader: e.target.value })}
+          placeholder="Authorization"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {t('settings.ai_credentials.auth_header_help', 'Header carrying the API key. Leave the API key empty if the server needs no authentication.')}
+        </p>
+      </div>
+    </>
+  );
+}
+
 export default function CompanyAiCredentialsTab() {
   const { t } = useTranslation();
   const { toast } = useToast();
@@ -96,23 +186,9 @@ export default function CompanyAiCredentialsTab() {
   const [showApiKey, setShowApiKey] = useState(false);
   const [isTestingCredential, setIsTestingCredential] = useState<number | null>(null);
 
-  const [createForm, setCreateForm] = useState({
-    provider: '',
-    apiKey: '',
-    displayName: '',
-    description: '',
-    isActive: true,
-    usageLimitMonthly: ''
-  });
+  const [createForm, setCreateForm] = useState<CredentialForm>(emptyCredentialForm);
 
-  const [editForm, setEditForm] = useState({
-    provider: '',
-    apiKey: '',
-    displayName: '',
-    description: '',
-    isActive: true,
-    usageLimitMonthly: ''
-  });
+  const [editForm, setEditForm] = useState<CredentialForm>(emptyCredentialForm);
 
   const [preferencesForm, setPreferencesForm] = useState<CompanyAiPreferences>({
     defaultProvider: 'openai',
@@ -158,14 +234,7 @@ export default function CompanyAiCredentialsTab() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['company-ai-credentials'] });
       setIsCreateModalOpen(false);
-      setCreateForm({
-        provider: '',
-        apiKey: '',
-        displayName: '',
-        description: '',
-        isActive: true,
-        usageLimitMonthly: ''
-      });
+      setCreateForm(emptyCredentialForm);
       toast({
         title: t('settings.ai_credentials.create_success', 'Success'),
         description: t('settings.ai_credentials.create_success_desc', 'AI credential created successfully'),
@@ -205,7 +274,7 @@ export default function CompanyAiCredentialsTab() {
 
 
   const validateMutation = useMutation({
-    mutationFn: async (data: { provider: string; apiKey: string }) => {
+    mutationFn: async (data: { provider: string; apiKey: string; metadata?: OpenAICompatibleEndpoint }) => {
       const response = await apiRequest('POST', '/api/company/ai-credentials/validate', data);
       const result = await response.json();
       return result.data;
@@ -284,38 +353,37 @@ export default function CompanyAiCredentialsTab() {
     }
   });
 
+  const showIncompleteFormError = (form: CredentialForm) => {
+    toast({
+      title: t('settings.ai_credentials.validation_error', 'Validation Error'),
+      description: form.provider === OPENAI_COMPATIBLE
+        ? t('settings.ai_credentials.endpoint_required', 'Base URL and default model are required')
+        : t('settings.ai_credentials.provider_key_required', 'Provider and API key are required'),
+      variant: 'destructive',
+    });
+  };
+
   const handleCreateSubmit = async () => {
-    if (!createForm.provider || !createForm.apiKey) {
-      toast({
-        title: t('settings.ai_credentials.validation_error', 'Validation Error'),
-        description: t('settings.ai_credentials.provider_key_required', 'Provider and API key are required'),
-        variant: 'destructive',
-      });
+    if (!isCredentialFormComplete(createForm, true)) {
+      showIncompleteFormError(createForm);
       return;
     }
 
-    const submitData = {
-      ...createForm,
-      usageLimitMonthly: createForm.usageLimitMonthly ? parseInt(createForm.usageLimitMonthly) : undefined
-    };
-
-    createMutation.mutate(submitData);
+    createMutation.mutate(toCredentialPayload(createForm));
   };
 
   const handleValidateKey = async () => {
-    if (!createForm.provider || !createForm.apiKey) {
-      toast({
-        title: t('settings.ai_credentials.validation_error', 'Validation Error'),
-        description: t('settings.ai_credentials.provider_key_required', 'Provider and API key are required'),
-        variant: 'destructive',
-      });
+    if (!isCredentialFormComplete(createForm, true)) {
+      showIncompleteFormError(createForm);
       return;
     }
 
     try {
+      const payload = toCredentialPayload(createForm);
       const result = await validateMutation.mutateAsync({
-        provider: createForm.provider,
-        apiKey: createForm.apiKey
+        provider: payload.provider,
+        apiKey: payload.apiKey,
+        metadata: payload.metadata
       });
 
       if (result.isValid) {
@@ -365,6 +433,10 @@ export default function CompanyAiCredentialsTab() {
     setEditForm({
       provider: credential.provider,
       apiKey: '', // Don't pre-fill API key for security
+      baseUrl: credential.metadata?.baseUrl || '',
+      authHeader: credential.metadata?.authHeader || '',
+      defaultModel: credential.metadata?.defaultModel || '',
+      embeddingModel: credential.metadata?.embeddingModel || '',
       displayName: credential.displayName || '',
       description: credential.description || '',
       isActive: credential.isActive,
@@ -376,12 +448,12 @@ export default function CompanyAiCredentialsTab() {
   const handleEditSubmit = async () => {
     if (!selectedCredential) return;
 
-    const submitData = {
-      ...editForm,
-      usageLimitMonthly: editForm.usageLimitMonthly ? parseInt(editForm.usageLimitMonthly) : undefined
-    };
+    if (!isCredentialFormComplete(editForm, false)) {
+      showIncompleteFormError(editForm);
+      return;
+    }
 
-    updateMutation.mutate({ id: selectedCredential.id, data: submitData });
+    updateMutation.mutate({ id: selectedCredential.id, data: toCredentialPayload(editForm) });
   };
 
   const handleTest = (credential: CompanyAiCredential) => {
@@ -519,7 +591,7 @@ export default function CompanyAiCredentialsTab() {
                 {t('settings.ai_credentials.no_credentials', 'No company credentials configured')}
               </h3>
               <p className="text-muted-foreground mb-4">
-                {t('settings.ai_credentials.no_credentials_desc', 'Add your own OpenAI or OpenRouter credentials for better control and billing')}
+                {t('settings.ai_credentials.no_credentials_desc', 'Add your own OpenAI, OpenRouter or self-hosted credentials for better control and billing')}
               </p>
               <Button onClick={() => setIsCreateModalOpen(true)}>
                 <Plus className="w-4 h-4 mr-2" />
@@ -539,7 +611,9 @@ export default function CompanyAiCredentialsTab() {
                           <h4 className="font-medium text-foreground">
                             {credential.displayName || providerInfo.name}
                           </h4>
-                          <p className="text-sm text-muted-foreground">{credential.apiKeyPreview}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {credential.provider === OPENAI_COMPATIBLE ? credential.metadata?.baseUrl : credential.apiKeyPreview}
+                          </p>
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -599,7 +673,7 @@ export default function CompanyAiCredentialsTab() {
           <DialogHeader>
             <DialogTitle>{t('settings.ai_credentials.create_title', 'Add Company AI Credential')}</DialogTitle>
             <DialogDescription>
-              {t('settings.ai_credentials.create_desc', 'Add OpenAI or OpenRouter API credentials for your company')}
+              {t('settings.ai_credentials.create_desc', 'Add OpenAI, OpenRouter or self-hosted OpenAI-compatible credentials for your company')}
             </DialogDescription>
           </DialogHeader>
           
@@ -623,8 +697,15 @@ export default function CompanyAiCredentialsTab() {
               </Select>
             </div>
 
+            {createForm.provider === OPENAI_COMPATIBLE && (
+              <EndpointFields form={createForm} onChange={(updates) => setCreateForm(prev => ({ ...prev, ...updates }))} />
+            )}
+
             <div>
-              <Label>{t('settings.ai_credentials.api_key', 'API Key')}</Label>
+              <Label>
+                {t('settings.ai_credentials.api_key', 'API Key')}
+                {createForm.provider === OPENAI_COMPATIBLE && <> ({t('common.optional', 'Optional')})</>}
+              </Label>
               <div className="relative">
                 <Input
                   type={showApiKey ? 'text' : 'password'}
@@ -747,6 +828,10 @@ export default function CompanyAiCredentialsTab() {
               </Select>
             </div>
 
+            {editForm.provider === OPENAI_COMPATIBLE && (
+              <EndpointFields form={editForm} onChange={(updates) => setEditForm(prev => ({ ...prev, ...updates }))} />
+            )}
+
             <div>
               <Label>{t('settings.ai_credentials.api_key', 'API Key')}</Label>
               <Input
@@ -0,0 +1,450 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { useAuth } from '@/hooks/use-auth';
+import { useChannelConnections } from '@/hooks/useChannelConnections';
+import { Loader2, Shuffle, Save } from 'lucide-react';
+
+type AssignmentStrategy = 'round_robin' | 'least_open' | 'skills';
+type AgentAvailability = 'available' | 'away' | 'offline';
+
+interface ChannelRule {
+  strategy?: AssignmentStrategy;
+  requiredSkills?: string[];
+  matchContactTags?: boolean;
+}
+
+interface AssignmentPolicy {
+  enabled: boolean;
+  strategy: AssignmentStrategy;
+  respectAvailability: boolean;
+  maxConcurrentChats: number;
+  channelRules: Record<string, ChannelRule>;
+  reassignOnOffline: boolean;
+  offlineGraceMinutes: number;
+}
+
+interface AgentStatus {
+  userId: number;
+  fullName: string;
+  email: string;
+  role: string | null;
+  availability: AgentAvailability;
+  online: boolean;
+  skills: string[];
+  maxConcurrentChats: number | null;
+  autoAssignEnabled: boolean;
+  openConversations: number;
+}
+
+const parseSkills = (value: string) =>
+  value.split(',').map(skill => skill.trim()).filter(Boolean);
+
+export function ConversationAssignmentSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: channelConnections } = useChannelConnections();
+  const isAdmin = user?.role === 'admin' || user?.isSuperAdmin;
+  const [policy, setPolicy] = useState<AssignmentPolicy | null>(null);
+
+  const { data: savedPolicy, isLoading } = useQuery<AssignmentPolicy>({
+    queryKey: ['/api/conversation-assignment/policy'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/conversation-assignment/policy');
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const { data: agents = [] } = useQuery<AgentStatus[]>({
+    queryKey: ['/api/conversation-assignment/agents'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/conversation-assignment/agents');
+      const result = await response.json();
+      return result.data;
+    },
+    refetchInterval: 30000,
+  });
+
+  const { data: myProfile } = useQuery<{ availability: AgentAvailability; online: boolean }>({
+    queryKey: ['/api/conversation-assignment/me'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/conversation-assignment/me');
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  useEffect(() => {
+    if (savedPolicy) {
+      setPolicy({ ...savedPolicy, channelRules: savedPolicy.channelRules || {} });
+    }
+  }, [savedPolicy]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (data: AssignmentPolicy) => {
+      const response = await apiRequest('PUT', '/api/conversation-assignment/policy', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversation-assignment/policy'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conversation-assignment/agents'] });
+      toast({
+        title: t('settings.assignment.saved', 'Assignment policy saved'),
+        description: t('settings.assignment.saved_desc', 'New conversations will be routed using the updated policy'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', 'Error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateAgentMutation = useMutation({
+    mutationFn: async ({ userId, data }: { userId: number; data: Partial<AgentStatus> }) => {
+      const response = await apiRequest('PUT', `/api/conversation-assignment/agents/${userId}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversation-assignment/agents'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', 'Error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const availabilityMutation = useMutation({
+    mutationFn: async (availability: AgentAvailability) => {
+      const response = await apiRequest('PUT', '/api/conversation-assignment/me/availability', { availability });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversation-assignment/me'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/conversation-assignment/agents'] });
+    },
+  });
+
+  const updateChannelRule = (connectionId: number, updates: Partial<ChannelRule>) => {
+    if (!policy) return;
+    const key = String(connectionId);
+    setPolicy({
+      ...policy,
+      channelRules: {
+        ...policy.channelRules,
+        [key]: { ...(policy.channelRules[key] || {}), ...updates }
+      }
+    });
+  };
+
+  if (isLoading || !policy) {
+    return (
+      <Card>
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const strategyLabels: Record<AssignmentStrategy, string> = {
+    round_robin: t('settings.assignment.strategy_round_robin', 'Round-robin'),
+    least_open: t('settings.assignment.strategy_least_open', 'Least open conversations'),
+    skills: t('settings.assignment.strategy_skills', 'Skills / tag matching'),
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shuffle className="h-5 w-5" />
+          {t('settings.assignment.title', 'Automatic Assignment')}
+        </CardTitle>
+        <CardDescription>
+          {t('settings.assignment.description', 'Route new conversations to available agents automatically')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label className="text-base font-medium">
+              {t('settings.assignment.my_availability', 'My availability')}
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {t('settings.assignment.my_availability_desc', 'Only available agents receive new conversations')}
+            </p>
+          </div>
+          <Select
+            value={myProfile?.availability || 'available'}
+            onValueChange={(value) => availabilityMutation.mutate(value as AgentAvailability)}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="available">{t('settings.assignment.available', 'Available')}</SelectItem>
+              <SelectItem value="away">{t('settings.assignment.away', 'Away')}</SelectItem>
+              <SelectItem value="offline">{t('settings.assignment.offline', 'Offline')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isAdmin && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label htmlFor="assignment-enabled" className="text-base font-medium">
+                  {t('settings.assignment.enabled', 'Enable automatic assignment')}
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  {t('settings.assignment.enabled_desc', 'Assign every new conversation as soon as it arrives on any channel')}
+                </p>
+              </div>
+              <Switch
+                id="assignment-enabled"
+                checked={policy.enabled}
+                onCheckedChange={(enabled) => setPolicy({ ...policy, enabled })}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>{t('settings.assignment.strategy', 'Default strategy')}</Label>
+                <Select
+                  value={policy.strategy}
+                  onValueChange={(value) => setPolicy({ ...policy, strategy: value as AssignmentStrategy })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(strategyLabels) as AssignmentStrategy[]).map(strategy => (
+                      <SelectItem key={strategy} value={strategy}>{strategyLabels[strategy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('settings.assignment.max_concurrent', 'Max concurrent chats per agent (0 = unlimited)')}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={policy.maxConcurrentChats}
+                  onChange={(e) => setPolicy({ ...policy, maxConcurrentChats: Math.max(0, parseInt(e.target.value) || 0) })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label htmlFor="assignment-availability" className="text-base font-medium">
+                  {t('settings.assignment.respect_availability', 'Only assign to online, available agents')}
+                </Label>
+              </div>
+              <Switch
+                id="assignment-availability"
+                checked={policy.respectAvailability}
+                onCheckedChange={(respectAvailability) => setPolicy({ ...policy, respectAvailability })}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2 items-end">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="assignment-reassign" className="text-base font-medium">
+                  {t('settings.assignment.reassign_offline', 'Reassign when an agent goes offline')}
+                </Label>
+                <Switch
+                  id="assignment-reassign"
+                  checked={policy.reassignOnOffline}
+                  onCheckedChange={(reassignOnOffline) => setPolicy({ ...policy, reassignOnOffline })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('settings.assignment.grace_minutes', 'Grace period (minutes)')}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={policy.offlineGraceMinutes}
+                  disabled={!policy.reassignOnOffline}
+                  onChange={(e) => setPolicy({ ...policy, offlineGraceMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                />
+              </div>
+            </div>
+
+            {channelConnections && channelConnections.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-base font-medium">
+                  {t('settings.assignment.channel_rules', 'Channel rules')}
+                </Label>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('settings.assignment.channel', 'Channel')}</TableHead>
+                      <TableHead>{t('settings.assignment.strategy', 'Strategy')}</TableHead>
+                      <TableHead>{t('settings.assignment.required_skills', 'Required skills')}</TableHead>
+                      <TableHead>{t('settings.assignment.match_tags', 'Match contact tags')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {channelConnections.map(connection => {
+                      const rule = policy.channelRules[String(connection.id)] || {};
+                      return (
+                        <TableRow key={connection.id}>
+                          <TableCell>
+                            <div className="font-medium">{connection.accountName}</div>
+                            <div className="text-xs text-muted-foreground">{connection.channelType}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={rule.strategy || 'default'}
+                              onValueChange={(value) => updateChannelRule(connection.id, {
+                                strategy: value === 'default' ? undefined : value as AssignmentStrategy
+                              })}
+                            >
+                              <SelectTrigger className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="default">{t('settings.assignment.use_default', 'Use default')}</SelectItem>
+                                {(Object.keys(strategyLabels) as AssignmentStrategy[]).map(strategy => (
+                                  <SelectItem key={strategy} value={strategy}>{strategyLabels[strategy]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              placeholder="billing, spanish"
+                              defaultValue={(rule.requiredSkills || []).join(', ')}
+                              onBlur={(e) => updateChannelRule(connection.id, { requiredSkills: parseSkills(e.target.value) })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={!!rule.matchContactTags}
+                              onCheckedChange={(matchContactTags) => updateChannelRule(connection.id, { matchContactTags })}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => savePolicyMutation.mutate(policy)}
+                disabled={savePolicyMutation.isPending}
+                className="flex items-center gap-2"
+              >
+                {savePolicyMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                {t('common.save', 'Save')}
+              </Button>
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-base font-medium">
+            {t('settings.assignment.agents', 'Agents')}
+          </Label>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('settings.assignment.agent', 'Agent')}</TableHead>
+                <TableHead>{t('settings.assignment.status', 'Status')}</TableHead>
+                <TableHead>{t('settings.assignment.open', 'Open')}</TableHead>
+                <TableHead>{t('settings.assignment.skills', 'Skills')}</TableHead>
+                <TableHead>{t('settings.assignment.max_chats', 'Max chats')}</TableHead>
+                <TableHead>{t('settings.assignment.auto_assign', 'Auto-assign')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {agents.map(agent => (
+                <TableRow key={agent.userId}>
+                  <TableCell>
+                    <div className="font-medium">{agent.fullName}</div>
+                    <div className="text-xs text-muted-foreground">{agent.email}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className={`h-2 w-2 rounded-full ${agent.online ? 'bg-green-500' : 'bg-gray-300'}`} />
+                      <Badge variant="outline" className="capitalize">{agent.availability}</Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell>{agent.openConversations}</TableCell>
+                  <TableCell>
+                    {isAdmin ? (
+                      <Input
+                        className="w-48"
+                        defaultValue={agent.skills.join(', ')}
+                        onBlur={(e) => {
+                          const skills = parseSkills(e.target.value);
+                          if (skills.join(',') !== agent.skills.join(',')) {
+                            updateAgentMutation.mutate({ userId: agent.userId, data: { skills } });
+                          }
+                        }}
+                      />
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {agent.skills.map(skill => <Badge key={skill} variant="secondary">{skill}</Badge>)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isAdmin ? (
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-24"
+                        placeholder={String(policy.maxConcurrentChats || '∞')}
+                        defaultValue={agent.maxConcurrentChats ?? ''}
+                        onBlur={(e) => {
+                          const value = e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0);
+                          if (value !== agent.maxConcurrentChats) {
+                            updateAgentMutation.mutate({ userId: agent.userId, data: { maxConcurrentChats: value } });
+                          }
+                        }}
+                      />
+                    ) : (
+                      agent.maxConcurrentChats ?? policy.maxConcurrentChats
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={agent.autoAssignEnabled}
+                      disabled={!isAdmin}
+                      onCheckedChange={(autoAssignEnabled) => updateAgentMutation.mutate({ userId: agent.userId, data: { autoAssignEnabled } })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
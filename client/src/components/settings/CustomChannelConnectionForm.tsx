@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Info } from 'lucide-react';
+import { CustomChannelFormatDocs } from './CustomChannelFormatDocs';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+interface FormData {
+  accountName: string;
+  platformName: string;
+  outboundUrl: string;
+}
+
+interface CreatedChannel {
+  webhookPath: string;
+  signingSecret: string;
+}
+
+const EMPTY_FORM: FormData = {
+  accountName: '',
+  platformName: '',
+  outboundUrl: ''
+};
+
+export function CustomChannelConnectionForm({ isOpen, onClose, onSuccess }: Props) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [showDocs, setShowDocs] = useState(false);
+  const [form, setForm] = useState<FormData>(EMPTY_FORM);
+  const [created, setCreated] = useState<CreatedChannel | null>(null);
+
+  const onChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleClose = () => {
+    setForm(EMPTY_FORM);
+    setCreated(null);
+    onClose();
+  };
+
+  const validate = (): string | null => {
+    if (!form.accountName.trim() || !form.platformName.trim() || !form.outboundUrl.trim()) return 'Please fill all required fields.';
+    try {
+      if (new URL(form.outboundUrl.trim()).protocol !== 'https:') return 'Outbound URL must be HTTPS.';
+    } catch {
+      return 'Outbound URL is invalid.';
+    }
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const err = validate();
+    if (err) {
+      toast({ title: 'Validation Error', description: err, variant: 'destructive' });
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await fetch('/api/custom-channels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          accountName: form.accountName.trim(),
+          platformName: form.platformName.trim(),
+          outboundUrl: form.outboundUrl.trim()
+        })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to create custom channel');
+      }
+      setCreated({ webhookPath: data.data.webhookPath, signingSecret: data.data.signingSecret });
+      toast({ title: 'Custom Channel Connected', description: `${form.platformName} has been added.` });
+      onSuccess();
+    } catch (error: any) {
+      toast({ title: 'Connection Failed', description: error.message || 'Failed to create custom channel.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Connect Custom Channel</DialogTitle>
+          <DialogDescription>
+            Connect any messaging platform over HTTPS using signed JSON webhooks.
+          </DialogDescription>
+        </DialogHeader>
+
+        {created ? (
+          <div className="space-y-4">
+            <div className="grid gap-2">
+              <Label>Inbound Webhook URL</Label>
+              <div className="p-2 bg-muted rounded text-xs select-all break-all">{`${window.location.origin}${created.webhookPath}`}</div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Signing Secret</Label>
+              <div className="p-2 bg-muted rounded text-xs font-mono select-all break-all">{created.signingSecret}</div>
+            </div>
+
+            <Alert>
+              <AlertDescription>
+                Copy the signing secret now; it is not shown again. You can rotate it from the channel's edit dialog.
+              </AlertDescription>
+            </Alert>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDocs(true)} className="flex items-center gap-2">
+                <Info className="h-4 w-4" />
+                Message Format
+              </Button>
+              <Button type="button" className="btn-brand-primary" variant="outline" onClick={handleClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="accountName">Connection Name *</Label>
+              <Input id="accountName" name="accountName" value={form.accountName} onChange={onChange} placeholder="e.g. Support Portal" required />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="platformName">Platform Name *</Label>
+              <Input id="platformName" name="platformName" value={form.platformName} onChange={onChange} placeholder="e.g. Line, Viber, In-house app" required />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="outboundUrl">Outbound URL *</Label>
+              <Input id="outboundUrl" name="outboundUrl" value={form.outboundUrl} onChange={onChange} placeholder="https://example.com/powerchat/messages" required />
+              <p className="text-xs text-muted-foreground">Agent and bot replies are POSTed here as signed JSON.</p>
+            </div>
+
+            <Alert>
+              <AlertDescription>
+                After connecting you will receive the inbound webhook URL and a signing secret. Both directions are signed
+                with X-Channel-Signature.
+              </AlertDescription>
+            </Alert>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDocs(true)} className="flex items-center gap-2">
+                <Info className="h-4 w-4" />
+                Message Format
+              </Button>
+              <Button type="button" variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button type="submit" className="btn-brand-primary" variant="outline" disabled={loading}>
+                {loading ? 'Connecting...' : 'Connect Channel'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        <CustomChannelFormatDocs isOpen={showDocs} onClose={() => setShowDocs(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SIGNATURE_EXAMPLE = `X-Channel-Timestamp: 1700000000
+X-Channel-Signature: v1=<hex HMAC-SHA256 of "1700000000.<raw body>" using the signing secret>`;
+
+const INBOUND_MESSAGE_EXAMPLE = `{
+  "type": "message",
+  "sender": { "id": "u-42", "name": "Ada", "phone": "+15551234567", "email": "ada@example.com" },
+  "message": {
+    "id": "m-1",
+    "text": "Hello",
+    "media": { "type": "image", "url": "https://example.com/a.png", "filename": "a.png" },
+    "timestamp": "2024-01-01T12:00:00Z"
+  }
+}`;
+
+const STATUS_EXAMPLE = `{
+  "type": "status",
+  "messageId": "<id of the outbound message>",
+  "status": "delivered",
+  "error": "optional reason when status is failed"
+}`;
+
+const OUTBOUND_EXAMPLE = `{
+  "type": "message",
+  "connectionId": 12,
+  "message": {
+    "id": "0b6f8e0e-...",
+    "conversationId": 34,
+    "recipient": { "id": "u-42" },
+    "text": "Hi Ada, how can we help?",
+    "media": null,
+    "createdAt": "2024-01-01T12:00:05Z"
+  }
+}`;
+
+/**
+ * Reference for the JSON exchanged with custom channel platforms
+ */
+export function CustomChannelFormatDocs({ isOpen, onClose }: Props) {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom Channel Message Format</DialogTitle>
+          <DialogDescription>
+            Every request in either direction is JSON signed with the channel's signing secret.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 text-sm">
+          <div className="space-y-2">
+            <h4 className="font-medium">Signature headers</h4>
+            <pre className="p-2 bg-muted rounded text-xs whitespace-pre-wrap break-all">{SIGNATURE_EXAMPLE}</pre>
+            <p className="text-muted-foreground text-xs">
+              Requests older than 5 minutes are rejected. Verify our requests the same way before trusting them.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Inbound message</h4>
+            <p className="text-muted-foreground text-xs">
+              POST to the inbound webhook URL. Send one event, or up to 100 as {'{ "events": [...] }'}. Message IDs are
+              deduplicated, so retries are safe. Media type is one of image, video, audio or document.
+            </p>
+            <pre className="p-2 bg-muted rounded text-xs whitespace-pre-wrap break-all">{INBOUND_MESSAGE_EXAMPLE}</pre>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Delivery status</h4>
+            <p className="text-muted-foreground text-xs">
+              Report sent, delivered, read or failed for outbound messages using the id we sent you.
+            </p>
+            <pre className="p-2 bg-muted rounded text-xs whitespace-pre-wrap break-all">{STATUS_EXAMPLE}</pre>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Outbound message</h4>
+            <p className="text-muted-foreground text-xs">
+              POSTed to your outbound URL. Respond with any 2xx status once accepted; other responses mark the message as failed.
+            </p>
+            <pre className="p-2 bg-muted rounded text-xs whitespace-pre-wrap break-all">{OUTBOUND_EXAMPLE}</pre>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
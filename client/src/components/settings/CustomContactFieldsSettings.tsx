@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import type { CustomFieldOption, CustomFieldType } from '@shared/schema';
+import { toCustomFieldName } from '@shared/utils/custom-fields';
+
+const FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'multi_select', 'boolean'];
+
+const parseOptions = (value: string): CustomFieldOption[] =>
+  value
+    .split(',')
+    .map(option => option.trim())
+    .filter(Boolean)
+    .map(label => ({ value: toCustomFieldName(label) || label, label }));
+
+export function CustomContactFieldsSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { customFields, isLoading } = useCustomFields('contact');
+  const [fieldLabel, setFieldLabel] = useState('');
+  const [fieldType, setFieldType] = useState<CustomFieldType>('text');
+  const [optionsInput, setOptionsInput] = useState('');
+  const [required, setRequired] = useState(false);
+
+  const hasOptions = fieldType === 'select' || fieldType === 'multi_select';
+
+  const typeLabel = (type: CustomFieldType) => {
+    switch (type) {
+      case 'number': return t('settings.custom_fields.type_number', 'Number');
+      case 'date': return t('settings.custom_fields.type_date', 'Date');
+      case 'select': return t('settings.custom_fields.type_select', 'Select');
+      case 'multi_select': return t('settings.custom_fields.type_multi_select', 'Multi-select');
+      case 'boolean': return t('settings.custom_fields.type_boolean', 'Yes / No');
+      default: return t('settings.custom_fields.type_text', 'Text');
+    }
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/company/custom-fields', 'contact'] });
+  };
+
+  const showError = (error: any) => {
+    toast({
+      title: t('common.error', 'Error'),
+      description: error.message,
+      variant: 'destructive'
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/company/custom-fields', {
+        entity: 'contact',
+        fieldLabel: fieldLabel.trim(),
+        fieldType,
+        options: hasOptions ? parseOptions(optionsInput) : null,
+        required
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setFieldLabel('');
+      setFieldType('text');
+      setOptionsInput('');
+      setRequired(false);
+      toast({
+        title: t('common.success', 'Success'),
+        description: t('settings.custom_fields.created', 'Custom field created'),
+      });
+    },
+    onError: showError
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: Record<string, unknown> }) => {
+      const res = await apiRequest('PATCH', `/api/company/custom-fields/${id}`, updates);
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: showError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/company/custom-fields/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: showError
+  });
+
+  const handleDelete = (id: number, label: string) => {
+    if (window.confirm(t('settings.custom_fields.delete_confirm', 'Delete "{{label}}"? Values stored on contacts will be removed.', { label }))) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settings.custom_fields.title', 'Custom Contact Fields')}</CardTitle>
+        <CardDescription>
+          {t('settings.custom_fields.description', 'Define extra contact fields such as order IDs, customer tiers or birthdays. They can be edited on contacts, imported and exported via CSV, used in segments and read or written by flows.')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : customFields.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('settings.custom_fields.label', 'Label')}</TableHead>
+                <TableHead>{t('settings.custom_fields.key', 'Key')}</TableHead>
+                <TableHead>{t('settings.custom_fields.type', 'Type')}</TableHead>
+                <TableHead>{t('settings.custom_fields.required', 'Required')}</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {customFields.map(field => (
+                <TableRow key={field.id}>
+                  <TableCell>
+                    <div className="font-medium">{field.fieldLabel}</div>
+                    {field.options && field.options.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {field.options.map(option => (
+                          <Badge key={option.value} variant="secondary" className="text-xs">{option.label}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{`contact.custom.${field.fieldName}`}</TableCell>
+                  <TableCell>{typeLabel(field.fieldType)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={field.required}
+                      onCheckedChange={(checked) => updateMutation.mutate({ id: field.id, updates: { required: checked } })}
+                      disabled={updateMutation.isPending}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(field.id, field.fieldLabel)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {t('settings.custom_fields.empty', 'No custom contact fields defined yet.')}
+          </p>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>{t('settings.custom_fields.label', 'Label')}</Label>
+            <Input
+              value={fieldLabel}
+              onChange={(e) => setFieldLabel(e.target.value)}
+              placeholder={t('settings.custom_fields.label_placeholder', 'e.g. Customer Tier')}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('settings.custom_fields.type', 'Type')}</Label>
+            <Select value={fieldType} onValueChange={(value) => setFieldType(value as CustomFieldType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIELD_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{typeLabel(type)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {hasOptions && (
+            <div className="space-y-2 sm:col-span-2">
+              <Label>{t('settings.custom_fields.options', 'Options')}</Label>
+              <Input
+                value={optionsInput}
+                onChange={(e) => setOptionsInput(e.target.value)}
+                placeholder={t('settings.custom_fields.options_placeholder', 'Comma separated, e.g. Bronze, Silver, Gold')}
+              />
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id="custom-field-required" checked={required} onCheckedChange={setRequired} />
+            <Label htmlFor="custom-field-required">{t('settings.custom_fields.required', 'Required')}</Label>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!fieldLabel.trim() || (hasOptions && parseOptions(optionsInput).length === 0) || createMutation.isPending}
+            >
+              {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              {t('settings.custom_fields.add', 'Add field')}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,511 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { useAuth } from '@/hooks/use-auth';
+import { useChannelConnections } from '@/hooks/useChannelConnections';
+import { Archive, Eye, Loader2, Pencil, Play, Plus, Trash2 } from 'lucide-react';
+import {
+  DATA_RETENTION_DATA_CLASSES,
+  type DataRetentionDataClass,
+  type DataRetentionPolicy,
+  type DataRetentionRun,
+  type DataRetentionRunResult,
+  type DataRetentionSettings as RetentionSettings
+} from '@shared/schema';
+
+type DataRetentionPolicyForm = Pick<DataRetentionPolicy, 'dataClass' | 'channelTypes' | 'retentionDays' | 'isActive'>;
+
+const DATA_CLASS_LABELS: Record<DataRetentionDataClass, string> = {
+  message_bodies: 'Message bodies',
+  media_files: 'Media files',
+  call_recordings: 'Call recordings',
+  flow_execution_logs: 'Flow execution logs',
+  api_usage_logs: 'API usage logs'
+};
+
+const emptyPolicy = (): DataRetentionPolicyForm => ({
+  dataClass: 'message_bodies',
+  channelTypes: [],
+  retentionDays: 365,
+  isActive: true
+});
+
+const parseList = (value: string) =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const fetchData = async <T,>(url: string): Promise<T> => {
+  const response = await apiRequest('GET', url);
+  const result = await response.json();
+  return result.data;
+};
+
+export function DataRetentionSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: channelConnections = [] } = useChannelConnections();
+  const isAdmin = user?.role === 'admin' || user?.isSuperAdmin;
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<DataRetentionPolicyForm | null>(null);
+  const [settingsForm, setSettingsForm] = useState<RetentionSettings | null>(null);
+  const [preview, setPreview] = useState<DataRetentionRunResult[] | null>(null);
+
+  const { data: policies = [], isLoading } = useQuery<DataRetentionPolicy[]>({
+    queryKey: ['/api/data-retention/policies'],
+    queryFn: () => fetchData('/api/data-retention/policies'),
+  });
+
+  const { data: settings } = useQuery<RetentionSettings>({
+    queryKey: ['/api/data-retention/settings'],
+    queryFn: () => fetchData('/api/data-retention/settings'),
+  });
+
+  const { data: runs = [] } = useQuery<DataRetentionRun[]>({
+    queryKey: ['/api/data-retention/runs'],
+    queryFn: () => fetchData('/api/data-retention/runs?limit=10'),
+    enabled: !!isAdmin,
+  });
+
+  useEffect(() => {
+    if (settings) setSettingsForm(settings);
+  }, [settings]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', 'Error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number | null; data: DataRetentionPolicyForm }) => {
+      const response = id
+        ? await apiRequest('PUT', `/api/data-retention/policies/${id}`, data)
+        : await apiRequest('POST', '/api/data-retention/policies', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/data-retention/policies'] });
+      setForm(null);
+      setEditingId(null);
+      setPreview(null);
+      toast({
+        title: t('settings.retention.saved', 'Retention policy saved'),
+        description: t('settings.retention.saved_desc', 'The policy applies from the next scheduled run'),
+      });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (policy: DataRetentionPolicy) => {
+      const { dataClass, channelTypes, retentionDays } = policy;
+      const response = await apiRequest('PUT', `/api/data-retention/policies/${policy.id}`, {
+        dataClass, channelTypes, retentionDays, isActive: !policy.isActive
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/data-retention/policies'] });
+      setPreview(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/data-retention/policies/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/data-retention/policies'] });
+      setPreview(null);
+    },
+    onError,
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (data: RetentionSettings) => {
+      const { nextDeletionAt, ...rest } = data;
+      const response = await apiRequest('PUT', '/api/data-retention/settings', rest);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/data-retention/settings'] });
+      toast({
+        title: t('settings.retention.settings_saved', 'Retention settings saved'),
+      });
+    },
+    onError,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => fetchData<DataRetentionRunResult[]>('/api/data-retention/preview'),
+    onSuccess: (results) => setPreview(results),
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/data-retention/run', { dryRun: false });
+      const result = await response.json();
+      return result.data as DataRetentionRun;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/data-retention/runs'] });
+      setPreview(null);
+      const processed = run.results.reduce((sum, result) => sum + result.processed, 0);
+      toast({
+        title: run.status === 'completed'
+          ? t('settings.retention.run_completed', 'Retention applied')
+          : t('settings.retention.run_failed', 'Retention run failed'),
+        description: run.error || t('settings.retention.run_processed', '{{count}} records removed', { count: processed }),
+        variant: run.status === 'completed' ? 'default' : 'destructive',
+      });
+    },
+    onError,
+  });
+
+  const openEditor = (policy?: DataRetentionPolicy) => {
+    if (policy) {
+      const { dataClass, channelTypes, retentionDays, isActive } = policy;
+      setEditingId(policy.id);
+      setForm({ dataClass, channelTypes, retentionDays, isActive });
+    } else {
+      setEditingId(null);
+      setForm(emptyPolicy());
+    }
+  };
+
+  const updateForm = (updates: Partial<DataRetentionPolicyForm>) => {
+    if (form) setForm({ ...form, ...updates });
+  };
+
+  const updateSettings = (updates: Partial<RetentionSettings>) => {
+    if (settingsForm) setSettingsForm({ ...settingsForm, ...updates });
+  };
+
+  const toggleInList = (list: string[], value: string, checked: boolean) =>
+    checked ? Array.from(new Set([...list, value])) : list.filter(item => item !== value);
+
+  const classLabel = (dataClass: DataRetentionDataClass) =>
+    t(`settings.retention.class.${dataClass}`, DATA_CLASS_LABELS[dataClass]);
+
+  const describeScope = (channelTypes: string[], dataClass: DataRetentionDataClass) => {
+    if (dataClass === 'api_usage_logs') return '—';
+    return channelTypes.length > 0 ? channelTypes.join(', ') : t('settings.retention.all_channels', 'All channels');
+  };
+
+  const channelTypes = Array.from(new Set(channelConnections.map(connection => connection.channelType)));
+  const previewTotal = preview?.reduce((sum, result) => sum + result.matched, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Archive className="h-5 w-5" />
+              {t('settings.retention.title', 'Data Retention')}
+            </CardTitle>
+            <CardDescription>
+              {t('settings.retention.description', 'Automatically remove data older than a set number of days. Policies run daily; contacts with a legal hold tag are never affected.')}
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button size="sm" onClick={() => openEditor()} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              {t('settings.retention.add', 'Add policy')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t('settings.retention.empty', 'No retention policies yet. Data is kept indefinitely.')}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('settings.retention.data_class', 'Data')}</TableHead>
+                <TableHead>{t('settings.retention.channels', 'Channels')}</TableHead>
+                <TableHead>{t('settings.retention.keep_for', 'Keep for')}</TableHead>
+                <TableHead>{t('settings.retention.active', 'Active')}</TableHead>
+                {isAdmin && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map(policy => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium">{classLabel(policy.dataClass)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeScope(policy.channelTypes, policy.dataClass)}</TableCell>
+                  <TableCell>{t('settings.retention.days', '{{count}} days', { count: policy.retentionDays })}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={policy.isActive}
+                      disabled={!isAdmin || toggleMutation.isPending}
+                      onCheckedChange={() => toggleMutation.mutate(policy)}
+                    />
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEditor(policy)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(t('settings.retention.delete_confirm', 'Delete this retention policy? Data it covers will be kept indefinitely.'))) {
+                              deleteMutation.mutate(policy.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {settingsForm && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t('settings.retention.legal_hold_tags', 'Legal hold tags (comma separated)')}</Label>
+              <Input
+                key={settingsForm.legalHoldTags.join(',')}
+                placeholder="legal_hold"
+                disabled={!isAdmin}
+                defaultValue={settingsForm.legalHoldTags.join(', ')}
+                onBlur={(e) => updateSettings({ legalHoldTags: parseList(e.target.value) })}
+              />
+              <p className="text-sm text-muted-foreground">
+                {t('settings.retention.legal_hold_desc', 'Conversations, calls and flow runs of contacts with any of these tags are exempt from every policy.')}
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>{t('settings.retention.notify', 'Notify before deleting')}</Label>
+                <p className="text-sm text-muted-foreground">
+                  {t('settings.retention.notify_desc', 'Announce upcoming deletions in advance. Only data included in the notice is removed.')}
+                </p>
+              </div>
+              <Switch
+                checked={settingsForm.notifyBeforeDeletion}
+                disabled={!isAdmin}
+                onCheckedChange={(notifyBeforeDeletion) => updateSettings({ notifyBeforeDeletion })}
+              />
+            </div>
+            {settingsForm.notifyBeforeDeletion && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>{t('settings.retention.notification_days', 'Days of notice')}</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={90}
+                    disabled={!isAdmin}
+                    value={settingsForm.notificationDays}
+                    onChange={(e) => updateSettings({ notificationDays: Math.max(1, parseInt(e.target.value) || 1) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.retention.notify_emails', 'Notify emails (empty = company admins)')}</Label>
+                  <Input
+                    key={settingsForm.notifyEmails.join(',')}
+                    placeholder="privacy@example.com"
+                    disabled={!isAdmin}
+                    defaultValue={settingsForm.notifyEmails.join(', ')}
+                    onBlur={(e) => updateSettings({ notifyEmails: parseList(e.target.value) })}
+                  />
+                </div>
+              </div>
+            )}
+            {settingsForm.notifyBeforeDeletion && settingsForm.nextDeletionAt && (
+              <p className="text-sm text-muted-foreground">
+                {t('settings.retention.next_deletion', 'Next announced deletion: {{date}}', {
+                  date: new Date(settingsForm.nextDeletionAt).toLocaleString()
+                })}
+              </p>
+            )}
+            {isAdmin && (
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={() => settingsMutation.mutate(settingsForm)}
+                  disabled={settingsMutation.isPending}
+                >
+                  {settingsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t('common.save', 'Save')}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {isAdmin && policies.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => previewMutation.mutate()}
+                disabled={previewMutation.isPending}
+              >
+                {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                {t('settings.retention.preview', 'Preview')}
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={runMutation.isPending}
+                onClick={() => {
+                  if (confirm(t('settings.retention.run_confirm', 'Apply all active retention policies now? Removed data cannot be recovered.'))) {
+                    runMutation.mutate();
+                  }
+                }}
+              >
+                {runMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                {t('settings.retention.run_now', 'Run now')}
+              </Button>
+            </div>
+            {preview && (
+              <div className="rounded-md border p-3 space-y-2">
+                <p className="text-sm font-medium">
+                  {t('settings.retention.preview_total', '{{count}} records would be removed now', { count: previewTotal })}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {preview.map(result => (
+                    <Badge key={result.policyId} variant="outline">
+                      {classLabel(result.dataClass)} · {describeScope(result.channelTypes, result.dataClass)}: {result.matched}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+            {runs.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-sm">{t('settings.retention.recent_runs', 'Recent runs')}</Label>
+                {runs.map(run => (
+                  <div key={run.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <span>{new Date(run.startedAt).toLocaleString()}</span>
+                    <Badge variant={run.status === 'completed' ? 'secondary' : 'destructive'}>
+                      {run.dryRun
+                        ? t('settings.retention.dry_run', 'Dry run')
+                        : run.trigger === 'schedule'
+                          ? t('settings.retention.scheduled', 'Scheduled')
+                          : t('settings.retention.manual', 'Manual')}
+                    </Badge>
+                    <span>
+                      {run.error || t('settings.retention.run_summary', '{{count}} removed', {
+                        count: run.results.reduce((sum, result) => sum + (run.dryRun ? result.matched : result.processed), 0)
+                      })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? t('settings.retention.edit', 'Edit retention policy') : t('settings.retention.add', 'Add policy')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>{t('settings.retention.data_class', 'Data')}</Label>
+                <Select
+                  value={form.dataClass}
+                  onValueChange={(value) => updateForm({
+                    dataClass: value as DataRetentionDataClass,
+                    channelTypes: value === 'api_usage_logs' ? [] : form.channelTypes
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATA_RETENTION_DATA_CLASSES.map(dataClass => (
+                      <SelectItem key={dataClass} value={dataClass}>{classLabel(dataClass)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('settings.retention.retention_days', 'Delete after (days)')}</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={form.retentionDays}
+                  onChange={(e) => updateForm({ retentionDays: Math.max(1, parseInt(e.target.value) || 1) })}
+                />
+              </div>
+              {form.dataClass !== 'api_usage_logs' && channelTypes.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-sm">{t('settings.retention.channel_types', 'Channel types (none = all)')}</Label>
+                  <div className="flex flex-wrap gap-3">
+                    {channelTypes.map(type => (
+                      <label key={type} className="flex items-center gap-1.5 text-sm">
+                        <Checkbox
+                          checked={form.channelTypes.includes(type)}
+                          onCheckedChange={(checked) => updateForm({ channelTypes: toggleInList(form.channelTypes, type, !!checked) })}
+                        />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button
+              onClick={() => form && saveMutation.mutate({ id: editingId, data: form })}
+              disabled={!form || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
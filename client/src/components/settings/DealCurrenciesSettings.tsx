@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from '@/hooks/use-toast';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { useAuth } from '@/hooks/use-auth';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
+import { Coins, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { DealCurrencySettings } from '@shared/schema';
+
+interface RateRow {
+  currency: string;
+  rate: string;
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+export function DealCurrenciesSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin' || user?.isSuperAdmin;
+  const { baseCurrency, rates, isLoading } = useDealCurrency();
+  const [base, setBase] = useState('');
+  const [rows, setRows] = useState<RateRow[]>([]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    setBase(baseCurrency);
+    setRows(Object.entries(rates).map(([currency, rate]) => ({ currency, rate: String(rate) })));
+  }, [isLoading, baseCurrency, rates]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: DealCurrencySettings) => {
+      const response = await apiRequest('PUT', '/api/deal-currencies', settings);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deal-currencies'] });
+      toast({
+        title: t('settings.deal_currencies.saved', 'Currency settings saved'),
+        description: t('settings.deal_currencies.saved_desc', 'Pipeline totals and forecasts now use the updated rates'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', 'Error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateRow = (index: number, updates: Partial<RateRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
+
+  const isValid = CURRENCY_PATTERN.test(base) && rows.every(row =>
+    CURRENCY_PATTERN.test(row.currency) && parseFloat(row.rate) > 0
+  );
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      baseCurrency: base,
+      rates: Object.fromEntries(rows.map(row => [row.currency, parseFloat(row.rate)]))
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          {t('settings.deal_currencies.title', 'Deal Currencies')}
+        </CardTitle>
+        <CardDescription>
+          {t('settings.deal_currencies.description', 'Deals can be priced in any currency with a rate below. Pipeline totals and forecasts are converted to the base currency.')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2 max-w-xs">
+              <Label>{t('settings.deal_currencies.base', 'Base currency')}</Label>
+              <Input
+                value={base}
+                maxLength={3}
+                disabled={!isAdmin}
+                onChange={(e) => setBase(e.target.value.toUpperCase())}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('settings.deal_currencies.rates', 'Exchange rates')}</Label>
+              {rows.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {t('settings.deal_currencies.no_rates', 'No other currencies. All deals use the base currency.')}
+                </p>
+              )}
+              {rows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">1</span>
+                  <Input
+                    className="w-24"
+                    value={row.currency}
+                    maxLength={3}
+                    placeholder="EUR"
+                    disabled={!isAdmin}
+                    onChange={(e) => updateRow(index, { currency: e.target.value.toUpperCase() })}
+                  />
+                  <span className="text-sm text-muted-foreground">=</span>
+                  <Input
+                    className="w-32"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={row.rate}
+                    disabled={!isAdmin}
+                    onChange={(e) => updateRow(index, { rate: e.target.value })}
+                  />
+                  <span className="text-sm text-muted-foreground">{base}</span>
+                  {isAdmin && (
+                    <Button variant="ghost" size="icon" onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isAdmin && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setRows([...rows, { currency: '', rate: '' }])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t('settings.deal_currencies.add_rate', 'Add currency')}
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={!isValid || saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t('common.save', 'Save')}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Info, TestTube, Loader2, RefreshCw } from 'lucide-react';
+import { CustomChannelFormatDocs } from './CustomChannelFormatDocs';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  connectionId: number;
+}
+
+interface FormData {
+  accountName: string;
+  platformName: string;
+  outboundUrl: string;
+}
+
+export function EditCustomChannelConnectionForm({ isOpen, onClose, onSuccess, connectionId }: Props) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [isLoadingData, setIsLoadingData] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [showDocs, setShowDocs] = useState(false);
+  const [webhookPath, setWebhookPath] = useState('');
+  const [signingSecret, setSigningSecret] = useState<string | null>(null);
+  const [form, setForm] = useState<FormData>({
+    accountName: '',
+    platformName: '',
+    outboundUrl: ''
+  });
+
+  useEffect(() => {
+    if (isOpen && connectionId) {
+      setSigningSecret(null);
+      loadConfiguration();
+    }
+  }, [isOpen, connectionId]);
+
+  const loadConfiguration = async () => {
+    setIsLoadingData(true);
+    try {
+      const res = await fetch(`/api/custom-channels/${connectionId}`, { credentials: 'include' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load custom channel');
+      }
+      setForm({
+        accountName: data.data.accountName || '',
+        platformName: data.data.platformName || '',
+        outboundUrl: data.data.outboundUrl || ''
+      });
+      setWebhookPath(data.data.webhookPath);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to load custom channel.', variant: 'destructive' });
+      onClose();
+    } finally {
+      setIsLoadingData(false);
+    }
+  };
+
+  const onChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.accountName.trim() || !form.platformName.trim() || !form.outboundUrl.trim()) {
+      toast({ title: 'Validation Error', description: 'Please fill all required fields.', variant: 'destructive' });
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/custom-channels/${connectionId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          accountName: form.accountName.trim(),
+          platformName: form.platformName.trim(),
+          outboundUrl: form.outboundUrl.trim()
+        })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update custom channel');
+      }
+      toast({ title: 'Custom Channel Updated', description: 'Your changes have been saved.' });
+      onSuccess();
+    } catch (error: any) {
+      toast({ title: 'Update Failed', description: error.message || 'Failed to update custom channel.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const res = await fetch(`/api/custom-channels/${connectionId}/test`, { method: 'POST', credentials: 'include' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Test event could not be delivered');
+      }
+      toast({ title: 'Test Event Delivered', description: 'Your endpoint accepted the signed ping event.' });
+    } catch (error: any) {
+      toast({ title: 'Test Failed', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleRotateSecret = async () => {
+    if (!window.confirm('Rotate the signing secret? Requests signed with the current secret will be rejected immediately.')) {
+      return;
+    }
+    setIsRotating(true);
+    try {
+      const res = await fetch(`/api/custom-channels/${connectionId}/rotate-secret`, { method: 'POST', credentials: 'include' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to rotate signing secret');
+      }
+      setSigningSecret(data.data.signingSecret);
+      toast({ title: 'Signing Secret Rotated', description: 'Update your platform with the new secret.' });
+    } catch (error: any) {
+      toast({ title: 'Rotation Failed', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Edit Custom Channel</DialogTitle>
+          <DialogDescription>
+            Update where replies are delivered and manage the signing secret.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoadingData ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="accountName">Connection Name *</Label>
+              <Input id="accountName" name="accountName" value={form.accountName} onChange={onChange} required />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="platformName">Platform Name *</Label>
+              <Input id="platformName" name="platformName" value={form.platformName} onChange={onChange} required />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="outboundUrl">Outbound URL *</Label>
+              <Input id="outboundUrl" name="outboundUrl" value={form.outboundUrl} onChange={onChange} required />
+            </div>
+
+            <div className="border-t pt-4 grid gap-3">
+              <div className="flex items-center justify-between">
+                <Label>Inbound Webhook URL</Label>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => setShowDocs(true)} className="flex items-center gap-2">
+                    <Info className="h-4 w-4" />
+                    Message Format
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={handleTest} disabled={isTesting} className="flex items-center gap-2">
+                    {isTesting ? <Loader2 className="h-4 w-4 animate-spin" /> : <TestTube className="h-4 w-4" />}
+                    Send Test
+                  </Button>
+                </div>
+              </div>
+              <div className="p-2 bg-muted rounded text-xs select-all break-all">{`${window.location.origin}${webhookPath}`}</div>
+
+              <div className="flex items-center justify-between">
+                <Label>Signing Secret</Label>
+                <Button type="button" variant="outline" size="sm" onClick={handleRotateSecret} disabled={isRotating} className="flex items-center gap-2">
+                  {isRotating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                  Rotate Secret
+                </Button>
+              </div>
+              {signingSecret ? (
+                <>
+                  <div className="p-2 bg-muted rounded text-xs font-mono select-all break-all">{signingSecret}</div>
+                  <Alert>
+                    <AlertDescription>Copy the new signing secret now; it is not shown again.</AlertDescription>
+                  </Alert>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">The secret is only shown when the channel is created or the secret is rotated.</p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" className="btn-brand-primary" variant="outline" disabled={loading}>
+                {loading ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        <CustomChannelFormatDocs isOpen={showDocs} onClose={() => setShowDocs(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
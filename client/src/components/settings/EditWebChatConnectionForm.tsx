@@ -14,6 +14,7 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
+import { WebChatEngagementSettings, WebChatEngagementConfig, getWebChatEngagementConfig } from './WebChatEngagementSettings';
 
 interface Props {
   isOpen: boolean;
@@ -22,6 +23,24 @@ interface Props {
   connectionId: number | null;
 }
 
+function validateEngagement({ prechatForm, proactiveTriggers, offlineMode }: WebChatEngagementConfig): string | null {
+  if (prechatForm.enabled) {
+    const keys = prechatForm.fields.map(field => field.key);
+    if (prechatForm.fields.some(field => !field.key || !field.label.trim())) return 'Every pre-chat field needs a label and a key';
+    if (new Set(keys).size !== keys.length) return 'Pre-chat field keys must be unique';
+    if (prechatForm.fields.some(field => field.type === 'select' && !field.options?.length)) return 'Dropdown fields need at least one option';
+    if (prechatForm.consent?.enabled && !prechatForm.consent.text.trim()) return 'Consent checkbox text is required';
+  }
+  if (proactiveTriggers.some(trigger => trigger.enabled && !trigger.message.trim())) return 'Every active greeting needs a message';
+  if (proactiveTriggers.some(trigger => trigger.enabled && trigger.type === 'url_match' && !trigger.urlPattern?.trim())) {
+    return 'URL greetings need a URL pattern';
+  }
+  if (offlineMode.enabled && offlineMode.notifyEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(offlineMode.notifyEmail)) {
+    return 'Offline notification email is invalid';
+  }
+  return null;
+}
+
 export function EditWebChatConnectionForm({ isOpen, onClose, onSuccess, connectionId }: Props) {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
@@ -37,6 +56,7 @@ export function EditWebChatConnectionForm({ isOpen, onClose, onSuccess, connecti
   const [collectEmail, setCollectEmail] = useState(false);
   const [collectName, setCollectName] = useState(false);
   const [widgetToken, setWidgetToken] = useState<string>('');
+  const [engagement, setEngagement] = useState<WebChatEngagementConfig>(getWebChatEngagementConfig({}));
 
   useEffect(() => {
     const load = async () => {
@@ -57,6 +77,7 @@ export function EditWebChatConnectionForm({ isOpen, onClose, onSuccess, connecti
         setCollectEmail(!!data.collectEmail);
         setCollectName(data.collectName !== false);
         setWidgetToken(data.widgetToken || '');
+        setEngagement(getWebChatEngagementConfig(data));
       } catch (e: any) {
         toast({ title: 'Error', description: e?.message || 'Failed to load WebChat connection', variant: 'destructive' });
         onClose();
@@ -73,6 +94,11 @@ export function EditWebChatConnectionForm({ isOpen, onClose, onSuccess, connecti
       toast({ title: 'Validation Error', description: 'Account name is required', variant: 'destructive' });
       return;
     }
+    const engagementError = validateEngagement(engagement);
+    if (engagementError) {
+      toast({ title: 'Validation Error', description: engagementError, variant: 'destructive' });
+      return;
+    }
     setLoading(true);
     try {
       const res = await fetch(`/api/channel-connections/${connectionId}`, {
@@ -90,7 +116,8 @@ export function EditWebChatConnectionForm({ isOpen, onClose, onSuccess, connecti
             allowFileUpload,
             collectEmail,
             collectName,
-            widgetToken
+            widgetToken,
+            ...engagement
           }
         })
       });
@@ -134,7 +161,7 @@ export function EditWebChatConnectionForm({ isOpen, onClose, onSuccess, connecti
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[560px]">
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit WebChat Connection</DialogTitle>
           <DialogDescription>Update widget settings and manage your embed code.</DialogDescription>
@@ -192,6 +219,8 @@ export function EditWebChatConnectionForm({ isOpen, onClose, onSuccess, connecti
               </div>
             </div>
 
+            <WebChatEngagementSettings value={engagement} onChange={setEngagement} />
+
             <div className="border-t pt-4 space-y-3">
               <h4 className="font-medium">Embed Codes</h4>
               <div>
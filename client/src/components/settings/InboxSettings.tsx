@@ -22,6 +22,11 @@ import { Progress } from "@/components/ui/progress";
 import useSocket from '@/hooks/useSocket';
 import { InboxBackupRestore } from './InboxBackupRestore';
 import { InboxRestore } from './InboxRestore';
+import { ConversationAssignmentSettings } from './ConversationAssignmentSettings';
+import { SlaPolicySettings } from './SlaPolicySettings';
+import { BusinessHoursSettings } from './BusinessHoursSettings';
+import { OutOfOfficeSettings } from './OutOfOfficeSettings';
+import { SatisfactionSurveySettings } from './SatisfactionSurveySettings';
 
 export function InboxSettings() {
   const { t } = useTranslation();
@@ -237,6 +242,12 @@ export function InboxSettings() {
         </CardContent>
       </Card>
 
+      <ConversationAssignmentSettings />
+      <BusinessHoursSettings />
+      <OutOfOfficeSettings />
+      <SlaPolicySettings />
+      <SatisfactionSurveySettings />
+
       <WhatsAppHistorySyncSettings />
 
       {/* Backup & Restore Section */}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { useAuth } from '@/hooks/use-auth';
+import { useChannelConnections } from '@/hooks/useChannelConnections';
+import { useBusinessHoursCalendars } from '@/hooks/use-business-hours-calendars';
+import { Loader2, MoonStar } from 'lucide-react';
+import type { ChannelConnection, OutOfOfficeReply } from '@shared/schema';
+
+type ReplyForm = Pick<OutOfOfficeReply, 'calendarId' | 'isEnabled' | 'message' | 'cooldownMinutes'>;
+
+const OUT_OF_OFFICE_QUERY_KEY = '/api/business-hours/out-of-office';
+
+interface OutOfOfficeResponse {
+  replies: OutOfOfficeReply[];
+  channelTypes: string[];
+}
+
+interface ConnectionReplyEditorProps {
+  connection: ChannelConnection;
+  reply?: OutOfOfficeReply;
+  disabled: boolean;
+}
+
+function ConnectionReplyEditor({ connection, reply, disabled }: ConnectionReplyEditorProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { calendars } = useBusinessHoursCalendars();
+  const [form, setForm] = useState<ReplyForm>(() => ({
+    calendarId: reply?.calendarId ?? calendars.find(calendar => calendar.isDefault)?.id ?? calendars[0]?.id ?? 0,
+    isEnabled: reply?.isEnabled ?? true,
+    message: reply?.message ?? t('settings.out_of_office.default_message', "Thanks for your message! We're currently closed and will get back to you when we reopen."),
+    cooldownMinutes: reply?.cooldownMinutes ?? 240
+  }));
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', 'Error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ReplyForm) => {
+      const response = await apiRequest('PUT', `${OUT_OF_OFFICE_QUERY_KEY}/${connection.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [OUT_OF_OFFICE_QUERY_KEY] });
+      toast({
+        title: t('settings.out_of_office.saved', 'Out-of-office reply saved'),
+        description: connection.accountName,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `${OUT_OF_OFFICE_QUERY_KEY}/${connection.id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [OUT_OF_OFFICE_QUERY_KEY] });
+    },
+    onError,
+  });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium">{connection.accountName}</div>
+          <div className="text-xs text-muted-foreground">{connection.channelType}</div>
+        </div>
+        <Switch
+          checked={form.isEnabled}
+          disabled={disabled}
+          onCheckedChange={(isEnabled) => setForm({ ...form, isEnabled })}
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label className="text-sm">{t('settings.out_of_office.calendar', 'Calendar')}</Label>
+          <Select
+            value={form.calendarId ? String(form.calendarId) : undefined}
+            disabled={disabled}
+            onValueChange={(value) => setForm({ ...form, calendarId: parseInt(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder={t('settings.out_of_office.select_calendar', 'Select calendar')} />
+            </SelectTrigger>
+            <SelectContent>
+              {calendars.map(calendar => (
+                <SelectItem key={calendar.id} value={String(calendar.id)}>{calendar.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm">{t('settings.out_of_office.cooldown', 'Reply once per conversation every (minutes)')}</Label>
+          <Input
+            type="number"
+            min={0}
+            value={form.cooldownMinutes}
+            disabled={disabled}
+            onChange={(e) => setForm({ ...form, cooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">{t('settings.out_of_office.message', 'Message')}</Label>
+        <Textarea
+          rows={3}
+          value={form.message}
+          disabled={disabled}
+          onChange={(e) => setForm({ ...form, message: e.target.value })}
+        />
+      </div>
+
+      {!disabled && (
+        <div className="flex justify-end gap-2">
+          {reply && (
+            <Button variant="outline" size="sm" disabled={deleteMutation.isPending} onClick={() => deleteMutation.mutate()}>
+              {t('settings.out_of_office.remove', 'Remove')}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            disabled={!form.calendarId || !form.message.trim() || saveMutation.isPending}
+            onClick={() => saveMutation.mutate(form)}
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('common.save', 'Save')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function OutOfOfficeSettings() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin' || user?.isSuperAdmin;
+  const { data: channelConnections = [] } = useChannelConnections();
+  const { calendars, isLoading: calendarsLoading } = useBusinessHoursCalendars();
+
+  const { data, isLoading } = useQuery<OutOfOfficeResponse>({
+    queryKey: [OUT_OF_OFFICE_QUERY_KEY],
+    queryFn: async () => {
+      const response = await apiRequest('GET', OUT_OF_OFFICE_QUERY_KEY);
+      const result = await response.json();
+      return { replies: result.data, channelTypes: result.channelTypes };
+    },
+  });
+
+  const supportedConnections = channelConnections.filter(connection =>
+    (data?.channelTypes || []).includes(connection.channelType)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MoonStar className="h-5 w-5" />
+          {t('settings.out_of_office.title', 'Out-of-office Replies')}
+        </CardTitle>
+        <CardDescription>
+          {t('settings.out_of_office.description', 'Automatically answer customers who write while a channel\'s business hours calendar is closed.')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || calendarsLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : calendars.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t('settings.out_of_office.no_calendars', 'Create a business hours calendar first.')}
+          </p>
+        ) : supportedConnections.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t('settings.out_of_office.no_channels', 'No channel connections support out-of-office replies.')}
+          </p>
+        ) : (
+          supportedConnections.map(connection => {
+            const reply = data?.replies.find(item => item.channelConnectionId === connection.id);
+            return (
+              <ConnectionReplyEditor
+                key={`${connection.id}-${reply?.updatedAt ?? 'new'}`}
+                connection={connection}
+                reply={reply}
+                disabled={!isAdmin}
+              />
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
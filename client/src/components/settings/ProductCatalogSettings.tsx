@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
+import { useDealCurrency } from '@/hooks/use-deal-currency';
+import { Loader2, Package, Plus, Pencil, Trash2 } from 'lucide-react';
+import type { Product } from '@shared/schema';
+
+interface ProductForm {
+  name: string;
+  sku: string;
+  description: string;
+  unitPrice: string;
+  currency: string | null;
+  taxRate: string;
+  isActive: boolean;
+}
+
+const emptyProduct = (): ProductForm => ({
+  name: '',
+  sku: '',
+  description: '',
+  unitPrice: '0',
+  currency: null,
+  taxRate: '0',
+  isActive: true
+});
+
+export function ProductCatalogSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasPermission } = usePermissions();
+  const { baseCurrency, currencies, formatAmount } = useDealCurrency();
+  const canManage = hasPermission(PERMISSIONS.MANAGE_PIPELINE);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ProductForm | null>(null);
+
+  const { data: products = [], isLoading } = useQuery<Product[]>({
+    queryKey: ['/api/products', 'all'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/products?includeInactive=true');
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', 'Error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number | null; data: ProductForm }) => {
+      const payload = {
+        name: data.name.trim(),
+        sku: data.sku.trim() || null,
+        description: data.description.trim() || null,
+        unitPrice: parseFloat(data.unitPrice) || 0,
+        currency: data.currency,
+        taxRate: parseFloat(data.taxRate) || 0,
+        isActive: data.isActive
+      };
+      const response = id
+        ? await apiRequest('PUT', `/api/products/${id}`, payload)
+        : await apiRequest('POST', '/api/products', payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      setForm(null);
+      setEditingId(null);
+      toast({
+        title: t('settings.products.saved', 'Product saved'),
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/products/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+    },
+    onError,
+  });
+
+  const openEditor = (product?: Product) => {
+    if (product) {
+      setEditingId(product.id);
+      setForm({
+        name: product.name,
+        sku: product.sku || '',
+        description: product.description || '',
+        unitPrice: String(Number(product.unitPrice)),
+        currency: product.currency,
+        taxRate: String(Number(product.taxRate)),
+        isActive: product.isActive
+      });
+    } else {
+      setEditingId(null);
+      setForm(emptyProduct());
+    }
+  };
+
+  const updateForm = (updates: Partial<ProductForm>) => {
+    if (form) setForm({ ...form, ...updates });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              {t('settings.products.title', 'Product Catalog')}
+            </CardTitle>
+            <CardDescription>
+              {t('settings.products.description', 'Products that can be added to deals as line items. Prices are copied onto the deal when added.')}
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={() => openEditor()} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              {t('settings.products.add', 'Add product')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t('settings.products.empty', 'No products yet.')}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('settings.products.name', 'Name')}</TableHead>
+                <TableHead>{t('settings.products.sku', 'SKU')}</TableHead>
+                <TableHead>{t('settings.products.unit_price', 'Unit price')}</TableHead>
+                <TableHead>{t('settings.products.tax_rate', 'Tax %')}</TableHead>
+                <TableHead>{t('settings.products.active', 'Active')}</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.map(product => (
+                <TableRow key={product.id}>
+                  <TableCell>
+                    <div className="font-medium">{product.name}</div>
+                    {product.description && (
+                      <div className="text-xs text-muted-foreground">{product.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{product.sku || '—'}</TableCell>
+                  <TableCell>{formatAmount(Number(product.unitPrice), product.currency)}</TableCell>
+                  <TableCell>{Number(product.taxRate)}%</TableCell>
+                  <TableCell>
+                    <Switch checked={product.isActive} disabled />
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEditor(product)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(t('settings.products.delete_confirm', 'Delete this product? Deals that use it keep their line items.'))) {
+                              deleteMutation.mutate(product.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? t('settings.products.edit', 'Edit product') : t('settings.products.add', 'Add product')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>{t('settings.products.name', 'Name')}</Label>
+                  <Input value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.products.sku', 'SKU')}</Label>
+                  <Input value={form.sku} onChange={(e) => updateForm({ sku: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('settings.products.description_label', 'Description')}</Label>
+                <Textarea rows={2} value={form.description} onChange={(e) => updateForm({ description: e.target.value })} />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>{t('settings.products.unit_price', 'Unit price')}</Label>
+                  <Input type="number" min="0" step="0.01" value={form.unitPrice} onChange={(e) => updateForm({ unitPrice: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.products.currency', 'Currency')}</Label>
+                  <Select value={form.currency || baseCurrency} onValueChange={(value) => updateForm({ currency: value })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {currencies.map(code => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.products.tax_rate', 'Tax %')}</Label>
+                  <Input type="number" min="0" max="100" value={form.taxRate} onChange={(e) => updateForm({ taxRate: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={form.isActive} onCheckedChange={(checked) => updateForm({ isActive: checked })} />
+                <Label>{t('settings.products.active', 'Active')}</Label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button
+              onClick={() => form && saveMutation.mutate({ id: editingId, data: form })}
+              disabled={!form?.name.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { useAuth } from '@/hooks/use-auth';
+import { Loader2, Save, Star } from 'lucide-react';
+
+type SurveyType = 'csat' | 'nps';
+
+interface SurveyConfig {
+  enabled: boolean;
+  surveyType: SurveyType;
+  channelTypes: string[];
+  question: string;
+  askForComment: boolean;
+  commentPrompt: string;
+  thankYouMessage: string;
+  cooldownHours: number;
+  expiryHours: number;
+}
+
+interface SurveySettingsResponse {
+  config: SurveyConfig;
+  channelTypes: string[];
+}
+
+const DEFAULT_QUESTIONS: Record<SurveyType, string> = {
+  csat: 'How would you rate the support you received today?',
+  nps: 'How likely are you to recommend us to a friend or colleague?'
+};
+
+const parseHours = (value: string) => Math.max(0, parseInt(value) || 0);
+
+export function SatisfactionSurveySettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin' || user?.isSuperAdmin;
+  const [config, setConfig] = useState<SurveyConfig | null>(null);
+
+  const { data, isLoading } = useQuery<SurveySettingsResponse>({
+    queryKey: ['/api/satisfaction-surveys/settings'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/satisfaction-surveys/settings');
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setConfig(data.config);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: SurveyConfig) => {
+      const response = await apiRequest('PUT', '/api/satisfaction-surveys/settings', updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/satisfaction-surveys/settings'] });
+      toast({
+        title: t('settings.surveys.saved', 'Survey settings saved'),
+        description: t('settings.surveys.saved_desc', 'Closed conversations will use the updated survey settings'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('common.error', 'Error'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  if (isLoading || !config) {
+    return (
+      <Card>
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const changeSurveyType = (surveyType: SurveyType) => {
+    const usesDefaultQuestion = Object.values(DEFAULT_QUESTIONS).includes(config.question);
+    setConfig({
+      ...config,
+      surveyType,
+      question: usesDefaultQuestion ? DEFAULT_QUESTIONS[surveyType] : config.question
+    });
+  };
+
+  const toggleChannelType = (type: string, checked: boolean) => {
+    setConfig({
+      ...config,
+      channelTypes: checked
+        ? [...config.channelTypes, type]
+        : config.channelTypes.filter(existing => existing !== type)
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="h-5 w-5" />
+          {t('settings.surveys.title', 'Satisfaction Surveys')}
+        </CardTitle>
+        <CardDescription>
+          {t('settings.surveys.description', 'Ask contacts to rate the conversation when it is closed or resolved')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label htmlFor="surveys-enabled" className="text-base font-medium">
+              {t('settings.surveys.enabled', 'Send a survey after closing a conversation')}
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {t('settings.surveys.enabled_desc', 'WhatsApp gets a rating list, Messenger and Instagram get quick replies, email gets rating links and webchat shows inline stars')}
+            </p>
+          </div>
+          <Switch
+            id="surveys-enabled"
+            checked={config.enabled}
+            onCheckedChange={(enabled) => setConfig({ ...config, enabled })}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>{t('settings.surveys.type', 'Survey type')}</Label>
+            <Select value={config.surveyType} onValueChange={(value) => changeSurveyType(value as SurveyType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csat">{t('settings.surveys.type_csat', 'CSAT (1-5 stars)')}</SelectItem>
+                <SelectItem value="nps">{t('settings.surveys.type_nps', 'NPS (0-10)')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('settings.surveys.cooldown', 'Cooldown per contact (hours)')}</Label>
+            <Input
+              type="number"
+              min={0}
+              value={config.cooldownHours}
+              onChange={(e) => setConfig({ ...config, cooldownHours: parseHours(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('settings.surveys.expiry', 'Accept answers for (hours)')}</Label>
+            <Input
+              type="number"
+              min={1}
+              value={config.expiryHours}
+              onChange={(e) => setConfig({ ...config, expiryHours: Math.max(1, parseHours(e.target.value)) })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t('settings.surveys.question', 'Question')}</Label>
+          <Textarea
+            rows={2}
+            value={config.question}
+            onChange={(e) => setConfig({ ...config, question: e.target.value })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="surveys-comment" className="text-base font-medium">
+            {t('settings.surveys.ask_comment', 'Ask for a comment after the score')}
+          </Label>
+          <Switch
+            id="surveys-comment"
+            checked={config.askForComment}
+            onCheckedChange={(askForComment) => setConfig({ ...config, askForComment })}
+          />
+        </div>
+
+        {config.askForComment && (
+          <div className="space-y-2">
+            <Label>{t('settings.surveys.comment_prompt', 'Comment prompt')}</Label>
+            <Textarea
+              rows={2}
+              value={config.commentPrompt}
+              onChange={(e) => setConfig({ ...config, commentPrompt: e.target.value })}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>{t('settings.surveys.thank_you', 'Thank-you message')}</Label>
+          <Input
+            value={config.thankYouMessage}
+            onChange={(e) => setConfig({ ...config, thankYouMessage: e.target.value })}
+          />
+        </div>
+
+        {data && data.channelTypes.length > 0 && (
+          <div className="space-y-2">
+            <Label>{t('settings.surveys.channel_types', 'Channel types (none = all)')}</Label>
+            <div className="flex flex-wrap gap-3">
+              {data.channelTypes.map(type => (
+                <label key={type} className="flex items-center gap-1.5 text-sm">
+                  <Checkbox
+                    checked={config.channelTypes.includes(type)}
+                    onCheckedChange={(checked) => toggleChannelType(type, !!checked)}
+                  />
+                  {type}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate(config)}
+            disabled={saveMutation.isPending || !config.question.trim()}
+            className="flex items-center gap-2"
+          >
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            {t('common.save', 'Save')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
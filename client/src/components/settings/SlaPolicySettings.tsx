@@ -0,0 +1,467 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { useAuth } from '@/hooks/use-auth';
+import { useChannelConnections } from '@/hooks/useChannelConnections';
+import { useBusinessHoursCalendars } from '@/hooks/use-business-hours-calendars';
+import { Loader2, Timer, Plus, Pencil, Trash2 } from 'lucide-react';
+import type { SlaEscalation, SlaPolicy } from '@shared/schema';
+
+type SlaPolicyForm = Omit<SlaPolicy, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>;
+
+interface AgentOption {
+  userId: number;
+  fullName: string;
+}
+
+const DEFAULT_ESCALATION: SlaEscalation = {
+  reassign: false,
+  reassignToUserId: null,
+  notifyAssignee: true,
+  notifyUserIds: [],
+  addTags: []
+};
+
+const emptyPolicy = (priority: number): SlaPolicyForm => ({
+  name: '',
+  description: null,
+  isActive: true,
+  priority,
+  channelTypes: [],
+  channelIds: [],
+  contactTags: [],
+  firstResponseMinutes: 15,
+  resolutionMinutes: 24 * 60,
+  businessHoursCalendarId: null,
+  escalation: DEFAULT_ESCALATION
+});
+
+const parseList = (value: string) =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const parseMinutes = (value: string) => {
+  const minutes = parseInt(value);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+};
+
+const formatMinutes = (minutes: number | null) => {
+  if (!minutes) return '—';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export function SlaPolicySettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: channelConnections = [] } = useChannelConnections();
+  const { calendars } = useBusinessHoursCalendars();
+  const isAdmin = user?.role === 'admin' || user?.isSuperAdmin;
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<SlaPolicyForm | null>(null);
+
+  const { data: policies = [], isLoading } = useQuery<SlaPolicy[]>({
+    queryKey: ['/api/sla-policies'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/sla-policies');
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const { data: agents = [] } = useQuery<AgentOption[]>({
+    queryKey: ['/api/conversation-assignment/agents'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/conversation-assignment/agents');
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: !!isAdmin,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', 'Error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number | null; data: SlaPolicyForm }) => {
+      const response = id
+        ? await apiRequest('PUT', `/api/sla-policies/${id}`, data)
+        : await apiRequest('POST', '/api/sla-policies', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sla-policies'] });
+      setForm(null);
+      setEditingId(null);
+      toast({
+        title: t('settings.sla.saved', 'SLA policy saved'),
+        description: t('settings.sla.saved_desc', 'New conversations will be measured against the updated policy'),
+      });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (policy: SlaPolicy) => {
+      const { id, companyId, createdAt, updatedAt, ...data } = policy;
+      const response = await apiRequest('PUT', `/api/sla-policies/${id}`, { ...data, isActive: !policy.isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sla-policies'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/sla-policies/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sla-policies'] });
+    },
+    onError,
+  });
+
+  const openEditor = (policy?: SlaPolicy) => {
+    if (policy) {
+      const { id, companyId, createdAt, updatedAt, ...data } = policy;
+      setEditingId(id);
+      setForm({ ...data, escalation: { ...DEFAULT_ESCALATION, ...data.escalation } });
+    } else {
+      setEditingId(null);
+      setForm(emptyPolicy(policies.length));
+    }
+  };
+
+  const updateForm = (updates: Partial<SlaPolicyForm>) => {
+    if (form) setForm({ ...form, ...updates });
+  };
+
+  const updateEscalation = (updates: Partial<SlaEscalation>) => {
+    if (form) setForm({ ...form, escalation: { ...form.escalation, ...updates } });
+  };
+
+  const toggleInList = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? Array.from(new Set([...list, value])) : list.filter(item => item !== value);
+
+  const describeScope = (policy: SlaPolicy) => {
+    const parts: string[] = [];
+    if (policy.channelIds.length > 0) {
+      parts.push(channelConnections
+        .filter(connection => policy.channelIds.includes(connection.id))
+        .map(connection => connection.accountName)
+        .join(', '));
+    }
+    if (policy.channelTypes.length > 0) parts.push(policy.channelTypes.join(', '));
+    if (policy.contactTags.length > 0) parts.push(`#${policy.contactTags.join(' #')}`);
+    return parts.length > 0 ? parts.join(' · ') : t('settings.sla.all_conversations', 'All conversations');
+  };
+
+  const channelTypes = Array.from(new Set(channelConnections.map(connection => connection.channelType)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              {t('settings.sla.title', 'SLA Policies')}
+            </CardTitle>
+            <CardDescription>
+              {t('settings.sla.description', 'First-response and resolution targets for conversations. The first matching active policy applies.')}
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button size="sm" onClick={() => openEditor()} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              {t('settings.sla.add', 'Add policy')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t('settings.sla.empty', 'No SLA policies yet. Conversations are not measured against response targets.')}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('settings.sla.policy', 'Policy')}</TableHead>
+                <TableHead>{t('settings.sla.applies_to', 'Applies to')}</TableHead>
+                <TableHead>{t('settings.sla.first_response', 'First response')}</TableHead>
+                <TableHead>{t('settings.sla.resolution', 'Resolution')}</TableHead>
+                <TableHead>{t('settings.sla.active', 'Active')}</TableHead>
+                {isAdmin && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map(policy => (
+                <TableRow key={policy.id}>
+                  <TableCell>
+                    <div className="font-medium">{policy.name}</div>
+                    {policy.businessHoursCalendarId && (
+                      <Badge variant="outline" className="mt-1">
+                        {t('settings.sla.business_hours_badge', 'Business hours')} · {calendars.find(calendar => calendar.id === policy.businessHoursCalendarId)?.name || '—'}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeScope(policy)}</TableCell>
+                  <TableCell>{formatMinutes(policy.firstResponseMinutes)}</TableCell>
+                  <TableCell>{formatMinutes(policy.resolutionMinutes)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={policy.isActive}
+                      disabled={!isAdmin || toggleMutation.isPending}
+                      onCheckedChange={() => toggleMutation.mutate(policy)}
+                    />
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEditor(policy)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(t('settings.sla.delete_confirm', 'Delete this SLA policy? Running timers that use it are cleared.'))) {
+                              deleteMutation.mutate(policy.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? t('settings.sla.edit', 'Edit SLA policy') : t('settings.sla.add', 'Add policy')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-6">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>{t('settings.sla.name', 'Name')}</Label>
+                  <Input value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.sla.priority', 'Priority (lower is checked first)')}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={form.priority}
+                    onChange={(e) => updateForm({ priority: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.sla.first_response_minutes', 'First response target (minutes)')}</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={form.firstResponseMinutes ?? ''}
+                    onChange={(e) => updateForm({ firstResponseMinutes: parseMinutes(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.sla.resolution_minutes', 'Resolution target (minutes)')}</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={form.resolutionMinutes ?? ''}
+                    onChange={(e) => updateForm({ resolutionMinutes: parseMinutes(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-base font-medium">{t('settings.sla.conditions', 'Conditions')}</Label>
+                {channelTypes.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm">{t('settings.sla.channel_types', 'Channel types (none = all)')}</Label>
+                    <div className="flex flex-wrap gap-3">
+                      {channelTypes.map(type => (
+                        <label key={type} className="flex items-center gap-1.5 text-sm">
+                          <Checkbox
+                            checked={form.channelTypes.includes(type)}
+                            onCheckedChange={(checked) => updateForm({ channelTypes: toggleInList(form.channelTypes, type, !!checked) })}
+                          />
+                          {type}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {channelConnections.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm">{t('settings.sla.channels', 'Channel connections (none = all)')}</Label>
+                    <div className="flex flex-wrap gap-3">
+                      {channelConnections.map(connection => (
+                        <label key={connection.id} className="flex items-center gap-1.5 text-sm">
+                          <Checkbox
+                            checked={form.channelIds.includes(connection.id)}
+                            onCheckedChange={(checked) => updateForm({ channelIds: toggleInList(form.channelIds, connection.id, !!checked) })}
+                          />
+                          {connection.accountName}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label className="text-sm">{t('settings.sla.contact_tags', 'Contact tags (any of, comma separated)')}</Label>
+                  <Input
+                    placeholder="vip, enterprise"
+                    defaultValue={form.contactTags.join(', ')}
+                    onBlur={(e) => updateForm({ contactTags: parseList(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-base font-medium">{t('settings.sla.business_hours', 'Business hours calendar')}</Label>
+                <Select
+                  value={form.businessHoursCalendarId ? String(form.businessHoursCalendarId) : 'none'}
+                  onValueChange={(value) => updateForm({ businessHoursCalendarId: value === 'none' ? null : Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t('settings.sla.always_open', 'None (timers run 24/7)')}</SelectItem>
+                    {calendars.map(calendar => (
+                      <SelectItem key={calendar.id} value={String(calendar.id)}>
+                        {calendar.name} ({calendar.timezone})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {calendars.length === 0
+                    ? t('settings.sla.no_calendars', 'No business hours calendars yet. Create calendars in Settings to pause timers outside working hours.')
+                    : t('settings.sla.business_hours_desc', 'Timers pause outside working hours and on holidays')}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-base font-medium">{t('settings.sla.escalation', 'On breach')}</Label>
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm">{t('settings.sla.notify_assignee', 'Notify the assigned agent')}</Label>
+                  <Switch
+                    checked={form.escalation.notifyAssignee}
+                    onCheckedChange={(notifyAssignee) => updateEscalation({ notifyAssignee })}
+                  />
+                </div>
+                {agents.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm">{t('settings.sla.notify_users', 'Also notify')}</Label>
+                    <div className="flex flex-wrap gap-3">
+                      {agents.map(agent => (
+                        <label key={agent.userId} className="flex items-center gap-1.5 text-sm">
+                          <Checkbox
+                            checked={form.escalation.notifyUserIds.includes(agent.userId)}
+                            onCheckedChange={(checked) => updateEscalation({
+                              notifyUserIds: toggleInList(form.escalation.notifyUserIds, agent.userId, !!checked)
+                            })}
+                          />
+                          {agent.fullName}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="grid gap-4 sm:grid-cols-2 items-end">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm">{t('settings.sla.reassign', 'Reassign the conversation')}</Label>
+                    <Switch
+                      checked={form.escalation.reassign}
+                      onCheckedChange={(reassign) => updateEscalation({ reassign })}
+                    />
+                  </div>
+                  <Select
+                    value={form.escalation.reassignToUserId ? String(form.escalation.reassignToUserId) : 'auto'}
+                    disabled={!form.escalation.reassign}
+                    onValueChange={(value) => updateEscalation({ reassignToUserId: value === 'auto' ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">{t('settings.sla.reassign_auto', 'Next agent by assignment policy')}</SelectItem>
+                      {agents.map(agent => (
+                        <SelectItem key={agent.userId} value={String(agent.userId)}>{agent.fullName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm">{t('settings.sla.add_tags', 'Add tags to the contact')}</Label>
+                  <Input
+                    placeholder="sla-breached"
+                    defaultValue={form.escalation.addTags.join(', ')}
+                    onBlur={(e) => updateEscalation({ addTags: parseList(e.target.value) })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button
+              onClick={() => form && saveMutation.mutate({ id: editingId, data: form })}
+              disabled={!form?.name.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,330 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { useBusinessHoursCalendars } from '@/hooks/use-business-hours-calendars';
+import type {
+  WebChatOfflineMode,
+  WebChatPrechatField,
+  WebChatPrechatFieldType,
+  WebChatPrechatForm,
+  WebChatProactiveTrigger,
+  WebChatProactiveTriggerType
+} from '@shared/schema';
+
+export interface WebChatEngagementConfig {
+  prechatForm: WebChatPrechatForm;
+  proactiveTriggers: WebChatProactiveTrigger[];
+  offlineMode: WebChatOfflineMode;
+}
+
+interface Props {
+  value: WebChatEngagementConfig;
+  onChange: (value: WebChatEngagementConfig) => void;
+}
+
+const DEFAULT_CALENDAR = 'default';
+
+const FIELD_TYPES: { value: WebChatPrechatFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'email', label: 'Email' },
+  { value: 'tel', label: 'Phone' },
+  { value: 'textarea', label: 'Long text' },
+  { value: 'select', label: 'Dropdown' }
+];
+
+const TRIGGER_TYPES: { value: WebChatProactiveTriggerType; label: string }[] = [
+  { value: 'time_on_page', label: 'Time on page' },
+  { value: 'url_match', label: 'Page URL matches' },
+  { value: 'exit_intent', label: 'Exit intent' }
+];
+
+/**
+ * Engagement settings for connections saved before pre-chat forms existed, matching the form
+ * the widget showed them (name and phone, plus email when collected)
+ */
+export function getWebChatEngagementConfig(connectionData: any): WebChatEngagementConfig {
+  const data = connectionData || {};
+  return {
+    prechatForm: data.prechatForm || {
+      enabled: true,
+      fields: [
+        { key: 'name', label: 'Name', type: 'text', required: true },
+        { key: 'phone', label: 'Phone', type: 'tel', required: true },
+        ...(data.collectEmail ? [{ key: 'email', label: 'Email', type: 'email' as const, required: false }] : [])
+      ]
+    },
+    proactiveTriggers: data.proactiveTriggers || [],
+    offlineMode: data.offlineMode || { enabled: false, calendarId: null, message: '', notifyEmail: '' }
+  };
+}
+
+/**
+ * Pre-chat form, proactive greeting and offline mode settings for a WebChat widget
+ */
+export function WebChatEngagementSettings({ value, onChange }: Props) {
+  const { calendars } = useBusinessHoursCalendars();
+  const { prechatForm, proactiveTriggers, offlineMode } = value;
+
+  const setPrechatForm = (updates: Partial<WebChatPrechatForm>) =>
+    onChange({ ...value, prechatForm: { ...prechatForm, ...updates } });
+
+  const updateField = (index: number, updates: Partial<WebChatPrechatField>) =>
+    setPrechatForm({ fields: prechatForm.fields.map((field, i) => (i === index ? { ...field, ...updates } : field)) });
+
+  const updateTrigger = (index: number, updates: Partial<WebChatProactiveTrigger>) =>
+    onChange({
+      ...value,
+      proactiveTriggers: proactiveTriggers.map((trigger, i) => (i === index ? { ...trigger, ...updates } : trigger))
+    });
+
+  const setOfflineMode = (updates: Partial<WebChatOfflineMode>) =>
+    onChange({ ...value, offlineMode: { ...offlineMode, ...updates } });
+
+  return (
+    <div className="space-y-4">
+      <div className="border-t pt-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <input
+            id="prechatEnabled"
+            type="checkbox"
+            checked={prechatForm.enabled}
+            onChange={(e) => setPrechatForm({ enabled: e.target.checked })}
+          />
+          <Label htmlFor="prechatEnabled" className="font-medium">Pre-chat Form</Label>
+        </div>
+
+        {prechatForm.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={prechatForm.title || ''}
+                onChange={(e) => setPrechatForm({ title: e.target.value })}
+                placeholder="Tell us about you"
+              />
+              <Input
+                value={prechatForm.description || ''}
+                onChange={(e) => setPrechatForm({ description: e.target.value })}
+                placeholder="Please provide your details to start the chat."
+              />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              The keys name, email and phone fill the contact. Other keys are saved as contact custom fields.
+            </p>
+
+            {prechatForm.fields.map((field, index) => (
+              <div key={index} className="rounded border p-2 space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_120px_auto] gap-2 items-center">
+                  <Input value={field.label} onChange={(e) => updateField(index, { label: e.target.value })} placeholder="Label" />
+                  <Input
+                    value={field.key}
+                    onChange={(e) => updateField(index, { key: e.target.value.trim() })}
+                    placeholder="Key"
+                  />
+                  <Select value={field.type} onValueChange={(type: WebChatPrechatFieldType) => updateField(index, { type })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {FIELD_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPrechatForm({ fields: prechatForm.fields.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <input
+                      id={`prechatRequired${index}`}
+                      type="checkbox"
+                      checked={field.required}
+                      onChange={(e) => updateField(index, { required: e.target.checked })}
+                    />
+                    <Label htmlFor={`prechatRequired${index}`} className="text-xs">Required</Label>
+                  </div>
+                  {field.type === 'select' && (
+                    <Input
+                      value={(field.options || []).join(', ')}
+                      onChange={(e) => updateField(index, { options: e.target.value.split(',').map(option => option.trim()).filter(Boolean) })}
+                      placeholder="Options, separated by commas"
+                      className="h-8 text-xs"
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPrechatForm({
+                fields: [...prechatForm.fields, { key: `field_${prechatForm.fields.length + 1}`, label: '', type: 'text', required: false }]
+              })}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Add Field
+            </Button>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  id="prechatConsent"
+                  type="checkbox"
+                  checked={!!prechatForm.consent?.enabled}
+                  onChange={(e) => setPrechatForm({ consent: { text: prechatForm.consent?.text || '', enabled: e.target.checked } })}
+                />
+                <Label htmlFor="prechatConsent">Require consent checkbox</Label>
+              </div>
+              {prechatForm.consent?.enabled && (
+                <Textarea
+                  value={prechatForm.consent.text}
+                  onChange={(e) => setPrechatForm({ consent: { enabled: true, text: e.target.value } })}
+                  placeholder="I agree to the privacy policy and to being contacted about my request."
+                  maxLength={500}
+                />
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="border-t pt-4 space-y-3">
+        <div>
+          <h4 className="font-medium">Proactive Greetings</h4>
+          <p className="text-xs text-gray-500">
+            Show a greeting next to the chat button. Visitors see at most one greeting per browsing session.
+          </p>
+        </div>
+
+        {proactiveTriggers.map((trigger, index) => (
+          <div key={trigger.id} className="rounded border p-2 space-y-2">
+            <div className="grid grid-cols-[auto_1fr_110px_auto] gap-2 items-center">
+              <input
+                type="checkbox"
+                checked={trigger.enabled}
+                onChange={(e) => updateTrigger(index, { enabled: e.target.checked })}
+                aria-label="Enabled"
+              />
+              <Select value={trigger.type} onValueChange={(type: WebChatProactiveTriggerType) => updateTrigger(index, { type })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {TRIGGER_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {trigger.type === 'exit_intent' ? <span /> : (
+                <Input
+                  type="number"
+                  min={0}
+                  value={trigger.delaySeconds ?? 0}
+                  onChange={(e) => updateTrigger(index, { delaySeconds: Math.max(0, parseInt(e.target.value) || 0) })}
+                  title="Delay in seconds"
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...value, proactiveTriggers: proactiveTriggers.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {trigger.type === 'url_match' && (
+              <Input
+                value={trigger.urlPattern || ''}
+                onChange={(e) => updateTrigger(index, { urlPattern: e.target.value })}
+                placeholder="/pricing, */checkout/*, or /^https:\/\/example\.com\/docs/"
+              />
+            )}
+            <Input
+              value={trigger.message}
+              onChange={(e) => updateTrigger(index, { message: e.target.value })}
+              placeholder="Need help choosing a plan?"
+              maxLength={300}
+            />
+          </div>
+        ))}
+
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({
+            ...value,
+            proactiveTriggers: [
+              ...proactiveTriggers,
+              { id: `trigger_${Date.now()}`, type: 'time_on_page', enabled: true, message: '', delaySeconds: 30 }
+            ]
+          })}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Greeting
+        </Button>
+      </div>
+
+      <div className="border-t pt-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <input
+            id="offlineEnabled"
+            type="checkbox"
+            checked={offlineMode.enabled}
+            onChange={(e) => setOfflineMode({ enabled: e.target.checked })}
+          />
+          <Label htmlFor="offlineEnabled" className="font-medium">Offline Mode</Label>
+        </div>
+        <p className="text-xs text-gray-500">
+          Outside business hours the widget collects a message instead of starting a chat. Messages appear in the inbox and are emailed to the address below.
+        </p>
+
+        {offlineMode.enabled && (
+          <>
+            <div className="grid gap-2">
+              <Label>Business Hours</Label>
+              <Select
+                value={offlineMode.calendarId ? String(offlineMode.calendarId) : DEFAULT_CALENDAR}
+                onValueChange={(calendarId) => setOfflineMode({ calendarId: calendarId === DEFAULT_CALENDAR ? null : parseInt(calendarId) })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_CALENDAR}>Company default calendar</SelectItem>
+                  {calendars.map(calendar => (
+                    <SelectItem key={calendar.id} value={String(calendar.id)}>{calendar.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Offline Message</Label>
+              <Textarea
+                value={offlineMode.message || ''}
+                onChange={(e) => setOfflineMode({ message: e.target.value })}
+                placeholder="We're offline right now. Leave us a message and we'll reply by email."
+                maxLength={500}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Notification Email</Label>
+              <Input
+                type="email"
+                value={offlineMode.notifyEmail || ''}
+                onChange={(e) => setOfflineMode({ notifyEmail: e.target.value })}
+                placeholder="support@example.com"
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
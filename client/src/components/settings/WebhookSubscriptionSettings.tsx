@@ -0,0 +1,562 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, KeyRound, Loader2, Pencil, Plus, RefreshCw, Send, Trash2, Webhook } from 'lucide-react';
+import { WEBHOOK_EVENTS, type WebhookDelivery, type WebhookEvent, type WebhookSubscription } from '@shared/schema';
+
+type WebhookSubscriptionItem = Omit<WebhookSubscription, 'secret' | 'previousSecret'> & {
+  secretHint: string;
+  hasPreviousSecret: boolean;
+};
+
+interface SubscriptionForm {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+}
+
+const SUBSCRIPTIONS_QUERY_KEY = '/api/webhook-subscriptions';
+const DELIVERIES_QUERY_KEY = '/api/webhook-subscriptions/deliveries';
+const ALL = 'all';
+
+const emptySubscription = (): SubscriptionForm => ({
+  name: '',
+  url: 'https://',
+  events: ['message.received'],
+  isActive: true
+});
+
+const STATUS_VARIANTS: Record<WebhookDelivery['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  delivered: 'default',
+  pending: 'secondary',
+  sending: 'secondary',
+  failed: 'destructive'
+};
+
+export function WebhookSubscriptionSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<SubscriptionForm | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null);
+  const [subscriptionFilter, setSubscriptionFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+
+  const { data: subscriptions = [], isLoading } = useQuery<WebhookSubscriptionItem[]>({
+    queryKey: [SUBSCRIPTIONS_QUERY_KEY],
+    queryFn: async () => {
+      const response = await apiRequest('GET', SUBSCRIPTIONS_QUERY_KEY);
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const { data: deliveries = [], isLoading: deliveriesLoading, isFetching: deliveriesFetching, refetch: refetchDeliveries } = useQuery<WebhookDelivery[]>({
+    queryKey: [DELIVERIES_QUERY_KEY, subscriptionFilter, statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '50' });
+      if (subscriptionFilter !== ALL) params.set('subscriptionId', subscriptionFilter);
+      if (statusFilter !== ALL) params.set('status', statusFilter);
+      const response = await apiRequest('GET', `${DELIVERIES_QUERY_KEY}?${params}`);
+      const result = await response.json();
+      return result.data;
+    },
+    refetchInterval: 30 * 1000,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('common.error', 'Error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number | null; data: SubscriptionForm }) => {
+      const response = id
+        ? await apiRequest('PUT', `${SUBSCRIPTIONS_QUERY_KEY}/${id}`, data)
+        : await apiRequest('POST', SUBSCRIPTIONS_QUERY_KEY, data);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [SUBSCRIPTIONS_QUERY_KEY] });
+      setForm(null);
+      setEditingId(null);
+      if (result.data?.secret) {
+        setRevealedSecret(result.data.secret);
+      } else {
+        toast({ title: t('settings.webhooks.saved', 'Webhook saved') });
+      }
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (subscription: WebhookSubscriptionItem) => {
+      const { name, url, events } = subscription;
+      const response = await apiRequest('PUT', `${SUBSCRIPTIONS_QUERY_KEY}/${subscription.id}`, {
+        name,
+        url,
+        events,
+        isActive: !subscription.isActive
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SUBSCRIPTIONS_QUERY_KEY] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `${SUBSCRIPTIONS_QUERY_KEY}/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SUBSCRIPTIONS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [DELIVERIES_QUERY_KEY] });
+    },
+    onError,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `${SUBSCRIPTIONS_QUERY_KEY}/${id}/rotate-secret`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [SUBSCRIPTIONS_QUERY_KEY] });
+      setRevealedSecret(result.data.secret);
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `${SUBSCRIPTIONS_QUERY_KEY}/${id}/test`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: t('settings.webhooks.test_sent', 'Test event queued'),
+        description: t('settings.webhooks.test_sent_desc', 'The result appears in the delivery log in a few seconds'),
+      });
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: [DELIVERIES_QUERY_KEY] }), 3000);
+    },
+    onError,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: number) => {
+      const response = await apiRequest('POST', `${DELIVERIES_QUERY_KEY}/${deliveryId}/redeliver`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setSelectedDelivery(null);
+      toast({ title: t('settings.webhooks.redelivery_queued', 'Redelivery queued') });
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: [DELIVERIES_QUERY_KEY] }), 3000);
+    },
+    onError,
+  });
+
+  const openEditor = (subscription?: WebhookSubscriptionItem) => {
+    if (subscription) {
+      setEditingId(subscription.id);
+      setForm({
+        name: subscription.name,
+        url: subscription.url,
+        events: subscription.events,
+        isActive: subscription.isActive
+      });
+    } else {
+      setEditingId(null);
+      setForm(emptySubscription());
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      events: checked ? Array.from(new Set([...form.events, event])) : form.events.filter(item => item !== event)
+    });
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret);
+    toast({ title: t('settings.webhooks.secret_copied', 'Signing secret copied') });
+  };
+
+  const subscriptionName = (id: number) =>
+    subscriptions.find(subscription => subscription.id === id)?.name ?? `#${id}`;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Webhook className="h-5 w-5" />
+                {t('settings.webhooks.title', 'Webhooks')}
+              </CardTitle>
+              <CardDescription>
+                {t('settings.webhooks.description', 'Send events to your own endpoints. Failed deliveries are retried with increasing delays for about a day.')}
+              </CardDescription>
+            </div>
+            <Button size="sm" onClick={() => openEditor()} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              {t('settings.webhooks.add', 'Add webhook')}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : subscriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('settings.webhooks.empty', 'No webhooks yet.')}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('settings.webhooks.endpoint', 'Endpoint')}</TableHead>
+                  <TableHead>{t('settings.webhooks.events', 'Events')}</TableHead>
+                  <TableHead>{t('settings.webhooks.secret', 'Signing secret')}</TableHead>
+                  <TableHead>{t('settings.webhooks.active', 'Active')}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {subscriptions.map(subscription => (
+                  <TableRow key={subscription.id}>
+                    <TableCell>
+                      <div className="font-medium">{subscription.name}</div>
+                      <div className="text-xs text-muted-foreground break-all">{subscription.url}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {subscription.events.map(event => (
+                          <Badge key={event} variant="outline">{event}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <code>whsec_…{subscription.secretHint}</code>
+                      {subscription.hasPreviousSecret && (
+                        <div className="text-xs text-muted-foreground">
+                          {t('settings.webhooks.previous_secret_active', 'Previous secret valid until {{date}}', {
+                            date: subscription.previousSecretExpiresAt ? new Date(subscription.previousSecretExpiresAt).toLocaleString() : ''
+                          })}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={subscription.isActive}
+                        disabled={toggleMutation.isPending}
+                        onCheckedChange={() => toggleMutation.mutate(subscription)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t('settings.webhooks.send_test', 'Send test event')}
+                          disabled={!subscription.isActive || testMutation.isPending}
+                          onClick={() => testMutation.mutate(subscription.id)}
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t('settings.webhooks.rotate_secret', 'Rotate signing secret')}
+                          disabled={rotateMutation.isPending}
+                          onClick={() => {
+                            if (confirm(t('settings.webhooks.rotate_confirm', 'Issue a new signing secret? Deliveries are also signed with the current secret for the next 24 hours.'))) {
+                              rotateMutation.mutate(subscription.id);
+                            }
+                          }}
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => openEditor(subscription)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(t('settings.webhooks.delete_confirm', 'Delete this webhook and its delivery log?'))) {
+                              deleteMutation.mutate(subscription.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{t('settings.webhooks.deliveries', 'Delivery log')}</CardTitle>
+              <CardDescription>
+                {t('settings.webhooks.deliveries_description', 'Deliveries of the last 30 days. Open a delivery to inspect its attempts or send it again.')}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={subscriptionFilter} onValueChange={setSubscriptionFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>{t('settings.webhooks.all_webhooks', 'All webhooks')}</SelectItem>
+                  {subscriptions.map(subscription => (
+                    <SelectItem key={subscription.id} value={String(subscription.id)}>{subscription.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>{t('settings.webhooks.all_statuses', 'All statuses')}</SelectItem>
+                  <SelectItem value="delivered">{t('settings.webhooks.status.delivered', 'Delivered')}</SelectItem>
+                  <SelectItem value="pending">{t('settings.webhooks.status.pending', 'Retrying')}</SelectItem>
+                  <SelectItem value="failed">{t('settings.webhooks.status.failed', 'Failed')}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" disabled={deliveriesFetching} onClick={() => refetchDeliveries()}>
+                <RefreshCw className={`h-4 w-4 ${deliveriesFetching ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveriesLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('settings.webhooks.no_deliveries', 'No deliveries yet.')}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('settings.webhooks.event', 'Event')}</TableHead>
+                  <TableHead>{t('settings.webhooks.webhook', 'Webhook')}</TableHead>
+                  <TableHead>{t('settings.webhooks.status_label', 'Status')}</TableHead>
+                  <TableHead>{t('settings.webhooks.attempts', 'Attempts')}</TableHead>
+                  <TableHead>{t('settings.webhooks.created', 'Created')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <TableRow key={delivery.id} className="cursor-pointer" onClick={() => setSelectedDelivery(delivery)}>
+                    <TableCell className="font-medium">{delivery.eventType}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{subscriptionName(delivery.subscriptionId)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                        {t(`settings.webhooks.status.${delivery.status}`, delivery.status)}
+                      </Badge>
+                      {delivery.responseStatus !== null && (
+                        <span className="ml-2 text-xs text-muted-foreground">HTTP {delivery.responseStatus}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {delivery.attemptCount}/{delivery.maxAttempts}
+                      {delivery.status === 'pending' && delivery.nextAttemptAt && delivery.attemptCount > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {t('settings.webhooks.next_attempt', 'Next attempt {{time}}', {
+                            time: formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })
+                          })}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? t('settings.webhooks.edit', 'Edit webhook') : t('settings.webhooks.add', 'Add webhook')}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>{t('settings.webhooks.name', 'Name')}</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('settings.webhooks.url', 'Endpoint URL')}</Label>
+                <Input value={form.url} onChange={(e) => setForm({ ...form, url: e.target.value })} />
+                <p className="text-xs text-muted-foreground">
+                  {t('settings.webhooks.url_help', 'Must be a public HTTPS URL. Respond with a 2xx status within 10 seconds.')}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('settings.webhooks.events', 'Events')}</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {WEBHOOK_EVENTS.map(event => (
+                    <label key={event} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.events.includes(event)}
+                        onCheckedChange={(checked) => toggleEvent(event, !!checked)}
+                      />
+                      {event}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label>{t('settings.webhooks.active', 'Active')}</Label>
+                <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+            <Button
+              onClick={() => form && saveMutation.mutate({ id: editingId, data: form })}
+              disabled={!form?.name.trim() || !form?.url.trim() || form.events.length === 0 || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('common.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => { if (!open) setRevealedSecret(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t('settings.webhooks.secret_title', 'Signing secret')}</DialogTitle>
+            <DialogDescription>
+              {t('settings.webhooks.secret_description', 'Copy this secret now, it will not be shown again. Each delivery carries an X-Webhook-Signature header with v1=HMAC-SHA256("<X-Webhook-Timestamp>.<body>") for every valid secret.')}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealedSecret || ''} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>{t('common.done', 'Done')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => { if (!open) setSelectedDelivery(null); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedDelivery?.eventType}</DialogTitle>
+            <DialogDescription>
+              {selectedDelivery && `${subscriptionName(selectedDelivery.subscriptionId)} · ${selectedDelivery.eventId}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedDelivery && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>{t('settings.webhooks.attempts', 'Attempts')}</Label>
+                {selectedDelivery.attempts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t('settings.webhooks.no_attempts', 'Not attempted yet.')}</p>
+                ) : (
+                  <div className="space-y-1">
+                    {selectedDelivery.attempts.map((attempt, index) => (
+                      <div key={index} className="flex items-center justify-between rounded border px-3 py-2 text-sm">
+                        <span>{new Date(attempt.at).toLocaleString()}</span>
+                        <span className={attempt.error ? 'text-destructive' : 'text-muted-foreground'}>
+                          {attempt.error || `HTTP ${attempt.responseStatus}`} · {attempt.durationMs} ms
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {selectedDelivery.responseBody && (
+                <div className="space-y-2">
+                  <Label>{t('settings.webhooks.response', 'Last response')}</Label>
+                  <pre className="max-h-40 overflow-auto rounded bg-muted p-3 text-xs whitespace-pre-wrap break-all">
+                    {selectedDelivery.responseBody}
+                  </pre>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>{t('settings.webhooks.payload', 'Payload')}</Label>
+                <pre className="max-h-64 overflow-auto rounded bg-muted p-3 text-xs">
+                  {JSON.stringify(selectedDelivery.payload, null, 2)}
+                </pre>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedDelivery(null)}>
+              {t('common.close', 'Close')}
+            </Button>
+            <Button
+              disabled={!selectedDelivery || selectedDelivery.status === 'pending' || selectedDelivery.status === 'sending' || redeliverMutation.isPending}
+              onClick={() => selectedDelivery && redeliverMutation.mutate(selectedDelivery.id)}
+            >
+              {redeliverMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('settings.webhooks.redeliver', 'Redeliver')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
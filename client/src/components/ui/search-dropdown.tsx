@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useLocation } from 'wouter';
 import { useTranslation } from '@/hooks/use-translation';
-import { MessageCircle, User, FileText, Clock, Phone, Mail, Loader2 } from 'lucide-react';
+import { MessageCircle, User, FileText, Clock, Phone, Mail, Loader2, Search } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface SearchResult {
@@ -82,6 +82,8 @@ export function SearchDropdown({
           e.preventDefault();
           if (selectedIndex >= 0) {
             handleSelectByIndex(selectedIndex);
+          } else {
+            handleSearchEverywhere();
           }
           break;
         case 'Escape':
@@ -139,6 +141,11 @@ export function SearchDropdown({
     onSelect();
   };
 
+  const handleSearchEverywhere = () => {
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+    onSelect();
+  };
+
   const handleTemplateClick = () => {
     navigate('/campaigns/templates');
     onSelect();
@@ -293,6 +300,15 @@ export function SearchDropdown({
               )}
             </div>
           )}
+          <button
+            className="w-full px-3 py-2 text-left text-sm text-blue-600 hover:bg-gray-50 border-t flex items-center space-x-2"
+            onClick={handleSearchEverywhere}
+          >
+            <Search className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">
+              {t('search.search_everywhere', 'Search all messages, contacts and notes for "{{query}}"', { query })}
+            </span>
+          </button>
         </>
       )}
     </div>
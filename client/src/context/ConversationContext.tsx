@@ -50,6 +50,8 @@ interface ConversationContextProps {
   loadMoreGroupConversations: () => Promise<void>;
   replyToMessage: any | null;
   setReplyToMessage: (message: any | null) => void;
+  focusMessageId: number | null;
+  setFocusMessageId: (messageId: number | null) => void;
   refetchConversations: () => Promise<any>;
   refetchContacts: () => Promise<any>;
   refetchGroupConversations: () => Promise<any>;
@@ -291,6 +293,7 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
   const [allConversations, setAllConversations] = useState<any[]>([]);
   const [allGroupConversations, setAllGroupConversations] = useState<any[]>([]);
   const [replyToMessage, setReplyToMessage] = useState<any | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
   const [showGroupChats, setShowGroupChats] = useState<boolean>(false);
   const [browserNotifications, setBrowserNotifications] = useState<boolean>(false);
   const [agentSignatureEnabled, setAgentSignatureEnabled] = useState<boolean>(true);
@@ -1307,6 +1310,49 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     return unsubscribe;
   }, [onMessage, toast]);
 
+  useEffect(() => {
+    const applySla = (data: any) => {
+      const { conversationId, sla } = data.data || {};
+      if (!conversationId || !sla) return;
+
+      setAllConversations(prev =>
+        prev.map(conv =>
+          conv.id === conversationId ? { ...conv, ...sla } : conv
+        )
+      );
+    };
+
+    const unsubscribeUpdated = onMessage('slaUpdated', applySla);
+    const unsubscribeBreached = onMessage('slaBreached', (data) => {
+      applySla(data);
+
+      if (data.data?.assignedToUserId && data.data.assignedToUserId === user?.id) {
+        toast({
+          title: t('inbox.sla_breached', 'SLA breached'),
+          description: data.data.breachType === 'first_response'
+            ? t('inbox.sla_first_response_breached', 'A conversation assigned to you missed its first-response target')
+            : t('inbox.sla_resolution_breached', 'A conversation assigned to you missed its resolution target'),
+          variant: 'destructive'
+        });
+      }
+    });
+    const unsubscribeEscalation = onMessage('slaEscalation', (data) => {
+      toast({
+        title: t('inbox.sla_escalation', 'SLA escalation'),
+        description: t('inbox.sla_escalation_desc', 'Conversation #{{id}} breached the "{{policy}}" SLA policy', {
+          id: data.data?.conversationId,
+          policy: data.data?.policyName
+        }),
+      });
+    });
+
+    return () => {
+      unsubscribeUpdated();
+      unsubscribeBreached();
+      unsubscribeEscalation();
+    };
+  }, [onMessage, toast, user?.id]);
+
   useEffect(() => {
     const unsubscribe = onMessage('unreadCountUpdated', (data) => {
       const { conversationId, unreadCount } = data.data;
@@ -1626,6 +1672,8 @@ export function ConversationProvider({ children }: ConversationProviderProps) {
     loadMoreGroupConversations,
     replyToMessage,
     setReplyToMessage,
+    focusMessageId,
+    setFocusMessageId,
     refetchConversations,
     refetchContacts,
     refetchGroupConversations
@@ -164,6 +164,8 @@ export function useChannelInfo() {
         return 'Email';
       case 'webchat':
         return 'WebChat';
+      case 'custom':
+        return 'Custom Channel';
       default:
         return channelType;
     }
@@ -191,6 +193,8 @@ export function useChannelInfo() {
         return <i className="ri-mail-line" style={{ color: '#6B7280' }} />;
       case 'webchat':
         return <i className="ri-message-3-line" style={{ color: '#6366f1' }} />;
+      case 'custom':
+        return <i className="ri-plug-line" style={{ color: '#0EA5E9' }} />;
       default:
         return <i className="ri-message-3-line" style={{ color: '#333235' }} />;
     }
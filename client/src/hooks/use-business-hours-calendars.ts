@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { BusinessHoursCalendar } from "@shared/schema";
+
+export type BusinessHoursCalendarWithStatus = BusinessHoursCalendar & { isOpen: boolean };
+
+export const BUSINESS_HOURS_QUERY_KEY = '/api/business-hours';
+
+export function useBusinessHoursCalendars(enabled: boolean = true) {
+  const { data: calendars = [], isLoading, error, refetch } = useQuery<BusinessHoursCalendarWithStatus[]>({
+    queryKey: [BUSINESS_HOURS_QUERY_KEY],
+    queryFn: async () => {
+      const res = await apiRequest('GET', BUSINESS_HOURS_QUERY_KEY);
+      const result = await res.json();
+      return result.data || [];
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    calendars,
+    isLoading,
+    error,
+    refetch
+  };
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CompanyCustomField, CustomFieldEntity } from "@shared/schema";
+
+export function useCustomFields(entity: CustomFieldEntity, enabled: boolean = true) {
+  const { data: customFields = [], isLoading, error, refetch } = useQuery<CompanyCustomField[]>({
+    queryKey: ['/api/company/custom-fields', entity],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/company/custom-fields?entity=${entity}`);
+      return res.json();
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    customFields,
+    isLoading,
+    error,
+    refetch
+  };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useCurrency } from "@/contexts/currency-context";
+import type { DealCurrencySettings } from "@shared/schema";
+
+/**
+ * Company deal currencies: the base currency, manual exchange rates and helpers to convert
+ * and format deal values
+ */
+export function useDealCurrency() {
+  const { currency: defaultCurrency } = useCurrency();
+
+  const { data, isLoading } = useQuery<DealCurrencySettings>({
+    queryKey: ['/api/deal-currencies'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/deal-currencies');
+      const result = await res.json();
+      return result.data;
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const baseCurrency = data?.baseCurrency || defaultCurrency;
+  const rates = useMemo(() => data?.rates || {}, [data]);
+
+  /** Value in the base currency, or null when the currency has no rate */
+  const toBase = useCallback((amount: number, currency?: string | null): number | null => {
+    if (!currency || currency === baseCurrency) return amount;
+    const rate = rates[currency];
+    return rate ? amount * rate : null;
+  }, [baseCurrency, rates]);
+
+  const formatAmount = useCallback((amount: number, currency?: string | null) =>
+    formatCurrency(amount, currency || baseCurrency), [baseCurrency]);
+
+  return {
+    baseCurrency,
+    rates,
+    currencies: [baseCurrency, ...Object.keys(rates).filter(code => code !== baseCurrency)],
+    toBase,
+    formatAmount,
+    isLoading,
+  };
+}
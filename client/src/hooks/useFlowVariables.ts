@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useCustomFields } from './use-custom-fields';
 
 export interface FlowVariable {
   value: string;
@@ -33,10 +34,24 @@ const BASE_VARIABLES: FlowVariable[] = [
 ];
 
 export function useFlowVariables(flowId?: number) {
-  const [variables, setVariables] = useState<FlowVariable[]>(BASE_VARIABLES);
   const [capturedVariables, setCapturedVariables] = useState<FlowVariable[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { customFields } = useCustomFields('contact');
+
+  const customFieldVariables = useMemo<FlowVariable[]>(() => customFields.map(field => ({
+    value: `contact.custom.${field.fieldName}`,
+    label: field.fieldLabel,
+    description: `Custom contact field (${field.fieldType.replace('_', ' ')})`,
+    icon: null,
+    category: 'contact' as const,
+    dataType: field.fieldType
+  })), [customFields]);
+
+  const variables = useMemo(
+    () => [...BASE_VARIABLES, ...customFieldVariables, ...capturedVariables],
+    [customFieldVariables, capturedVariables]
+  );
 
 
   const fetchCapturedVariables = async () => {
@@ -66,7 +81,6 @@ export function useFlowVariables(flowId?: number) {
       })) || [];
 
       setCapturedVariables(captured);
-      setVariables([...BASE_VARIABLES, ...captured]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
       console.error('Error fetching flow variables:', err);
@@ -92,21 +106,11 @@ export function useFlowVariables(flowId?: number) {
         return [...prev, capturedVar];
       }
     });
-
-    setVariables(prev => {
-      const existing = prev.find(v => v.value === variable.value);
-      if (existing) {
-        return prev.map(v => v.value === variable.value ? capturedVar : v);
-      } else {
-        return [...prev, capturedVar];
-      }
-    });
   };
 
 
   const removeCapturedVariable = (variableKey: string) => {
     setCapturedVariables(prev => prev.filter(v => v.value !== variableKey));
-    setVariables(prev => prev.filter(v => v.value !== variableKey || v.category !== 'captured'));
   };
 
 
@@ -0,0 +1,104 @@
+import { useEffect, useCallback, useRef, useState } from 'react';
+import useSocket from '@/hooks/useSocket';
+
+const TYPING_ENDPOINT_BASE = '/api/webchat/conversations';
+const RESEND_INTERVAL = 3000;
+const IDLE_TIMEOUT = 4000;
+const VISITOR_TYPING_TIMEOUT = 8000;
+
+interface TypingIndicatorOptions {
+  conversationId: number;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for showing the agent's typing status in the website chat widget.
+ * Re-sends while the agent keeps typing and clears after a short idle period.
+ */
+export function useWebChatTypingIndicator({ conversationId, enabled = true }: TypingIndicatorOptions) {
+  const idleTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const isTypingRef = useRef(false);
+  const lastSentRef = useRef(0);
+
+  const callTypingApi = useCallback(async (isTyping: boolean) => {
+    try {
+      await fetch(`${TYPING_ENDPOINT_BASE}/${conversationId}/typing`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isTyping })
+      });
+    } catch (error) {
+      console.error('Error updating webchat typing indicator:', error);
+    }
+  }, [conversationId]);
+
+  const stopTyping = useCallback(() => {
+    if (idleTimeoutRef.current) {
+      clearTimeout(idleTimeoutRef.current);
+      idleTimeoutRef.current = null;
+    }
+    if (!enabled || !conversationId || !isTypingRef.current) return;
+
+    isTypingRef.current = false;
+    lastSentRef.current = 0;
+    callTypingApi(false);
+  }, [conversationId, enabled, callTypingApi]);
+
+  const handleInputChange = useCallback(() => {
+    if (!enabled || !conversationId) return;
+
+    if (!isTypingRef.current || Date.now() - lastSentRef.current > RESEND_INTERVAL) {
+      isTypingRef.current = true;
+      lastSentRef.current = Date.now();
+      callTypingApi(true);
+    }
+
+    if (idleTimeoutRef.current) {
+      clearTimeout(idleTimeoutRef.current);
+    }
+    idleTimeoutRef.current = setTimeout(stopTyping, IDLE_TIMEOUT);
+  }, [conversationId, enabled, callTypingApi, stopTyping]);
+
+  useEffect(() => {
+    return () => {
+      stopTyping();
+    };
+  }, [stopTyping]);
+
+  return {
+    stopTyping,
+    handleInputChange
+  };
+}
+
+/**
+ * Hook for listening to the visitor's typing status in a webchat conversation.
+ */
+export function useWebChatTypingListener(conversationId: number | null, enabled = true) {
+  const [isVisitorTyping, setIsVisitorTyping] = useState(false);
+  const { onMessage } = useSocket('/ws');
+
+  useEffect(() => {
+    setIsVisitorTyping(false);
+    if (!enabled || !conversationId) return;
+
+    let timeout: NodeJS.Timeout | null = null;
+    const unsubscribe = onMessage('webchatVisitorTyping', (data) => {
+      if (data.data?.conversationId !== conversationId) return;
+
+      if (timeout) clearTimeout(timeout);
+      setIsVisitorTyping(!!data.data.isTyping);
+      if (data.data.isTyping) {
+        timeout = setTimeout(() => setIsVisitorTyping(false), VISITOR_TYPING_TIMEOUT);
+      }
+    });
+
+    return () => {
+      if (timeout) clearTimeout(timeout);
+      unsubscribe();
+    };
+  }, [onMessage, conversationId, enabled]);
+
+  return { isVisitorTyping };
+}
@@ -8,9 +8,10 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { useState, useMemo } from 'react';
-import { Loader2, Calendar as CalendarIcon, Users, MessageSquare, AlertCircle, HelpCircle, ArrowUpRight, ArrowDownRight, Zap, Target } from 'lucide-react';
+import { Loader2, Calendar as CalendarIcon, Users, MessageSquare, AlertCircle, HelpCircle, ArrowUpRight, ArrowDownRight, Zap, Target, Timer, CheckCircle2, Star } from 'lucide-react';
 import { RiWhatsappFill, RiMessengerFill, RiInstagramFill, RiMailFill } from 'react-icons/ri';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
@@ -55,16 +56,48 @@ interface ChannelDistribution {
 
 
 
+interface SlaTargetStats {
+  total: number;
+  met: number;
+  breached: number;
+  pending: number;
+  attainment: number | null;
+}
+
+interface SlaAttainment {
+  conversations: number;
+  firstResponse: SlaTargetStats;
+  resolution: SlaTargetStats;
+}
+
+interface SatisfactionScoreStats {
+  responses: number;
+  averageScore: number | null;
+  csat: number | null;
+  nps: number | null;
+}
+
+interface SatisfactionReport {
+  summary: SatisfactionScoreStats & { sent: number; responseRate: number | null };
+  byAgent: Array<SatisfactionScoreStats & { agentId: number | null; agentName: string | null }>;
+  byChannel: Array<SatisfactionScoreStats & { channelType: string }>;
+  trend: Array<SatisfactionScoreStats & { date: string }>;
+}
+
 interface AnalyticsData {
   overview: AnalyticsOverview;
   conversationsByDay: ConversationsByDay[];
   channelDistribution: ChannelDistribution[];
   messagesByChannel: any[];
+  sla?: SlaAttainment;
+  satisfaction?: SatisfactionReport;
   conversionFunnel?: any[];
   userActivity?: any[];
 }
 
 
+const formatPercent = (value: number | null) => value === null ? '—' : `${value.toFixed(1)}%`;
+
 const DATE_RANGE_PRESETS = {
   today: { label: 'Today', key: 'today' },
   yesterday: { label: 'Yesterday', key: 'yesterday' },
@@ -747,6 +780,154 @@ export default function Analytics() {
                   </CardContent>
                 </Card>
               </div>
+
+              {analyticsData?.sla && analyticsData.sla.conversations > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-6 mb-6">
+                  {([
+                    {
+                      key: 'first_response',
+                      title: t('analytics.cards.sla_first_response', 'First Response SLA'),
+                      stats: analyticsData.sla.firstResponse,
+                      icon: <Timer className="h-5 w-5" />
+                    },
+                    {
+                      key: 'resolution',
+                      title: t('analytics.cards.sla_resolution', 'Resolution SLA'),
+                      stats: analyticsData.sla.resolution,
+                      icon: <CheckCircle2 className="h-5 w-5" />
+                    }
+                  ]).map(({ key, title, stats, icon }) => (
+                    <Card key={key} className="group hover:shadow-lg hover:shadow-amber-100/50 dark:hover:shadow-amber-900/20 transition-all duration-300 border-0 shadow-md bg-gradient-to-br from-card via-card to-primary/5">
+                      <CardContent className="pt-6">
+                        <div className="flex justify-between items-start">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-muted-foreground truncate mb-2">{title}</p>
+                            <p className="text-2xl sm:text-3xl font-bold mt-1 text-foreground group-hover:text-amber-700 dark:group-hover:text-amber-400 transition-colors">
+                              {stats.attainment === null ? '—' : `${stats.attainment.toFixed(1)}%`}
+                            </p>
+                          </div>
+                          <div className="p-3 bg-amber-100 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 rounded-xl flex-shrink-0 group-hover:bg-amber-200 dark:group-hover:bg-amber-900/30 group-hover:scale-110 transition-all duration-300">
+                            {icon}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 mt-4 text-xs">
+                          <Badge variant="outline" className="!bg-green-100 dark:!bg-green-900/20 !text-green-800 dark:!text-green-400">
+                            {t('analytics.sla.met', '{{count}} met', { count: stats.met })}
+                          </Badge>
+                          <Badge variant="outline" className="!bg-red-100 dark:!bg-red-900/20 !text-red-800 dark:!text-red-400">
+                            {t('analytics.sla.breached', '{{count}} breached', { count: stats.breached })}
+                          </Badge>
+                          <span className="text-muted-foreground">
+                            {t('analytics.sla.pending', '{{count}} in progress', { count: stats.pending })}
+                          </span>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+
+              {analyticsData?.satisfaction && analyticsData.satisfaction.summary.sent > 0 && (
+                <Card className="mb-6 border-0 shadow-lg bg-gradient-to-br from-card via-card to-primary/5">
+                  <CardHeader className="pb-3 border-b border-border">
+                    <CardTitle className="flex items-center gap-2 text-lg sm:text-xl font-semibold text-foreground">
+                      <Star className="h-5 w-5 text-amber-500" />
+                      {t('analytics.satisfaction.title', 'Customer Satisfaction')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="pt-6 space-y-6">
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6">
+                      {([
+                        {
+                          key: 'csat',
+                          label: t('analytics.satisfaction.csat', 'CSAT'),
+                          value: formatPercent(analyticsData.satisfaction.summary.csat)
+                        },
+                        {
+                          key: 'nps',
+                          label: t('analytics.satisfaction.nps', 'NPS'),
+                          value: analyticsData.satisfaction.summary.nps === null ? '—' : analyticsData.satisfaction.summary.nps.toFixed(1)
+                        },
+                        {
+                          key: 'average',
+                          label: t('analytics.satisfaction.average', 'Average score'),
+                          value: analyticsData.satisfaction.summary.averageScore === null ? '—' : analyticsData.satisfaction.summary.averageScore.toFixed(2)
+                        },
+                        {
+                          key: 'responses',
+                          label: t('analytics.satisfaction.responses', 'Responses'),
+                          value: `${analyticsData.satisfaction.summary.responses} / ${analyticsData.satisfaction.summary.sent}`,
+                          hint: t('analytics.satisfaction.response_rate', '{{rate}} response rate', { rate: formatPercent(analyticsData.satisfaction.summary.responseRate) })
+                        }
+                      ] as Array<{ key: string; label: string; value: string; hint?: string }>).map(({ key, label, value, hint }) => (
+                        <div key={key}>
+                          <p className="text-sm font-medium text-muted-foreground">{label}</p>
+                          <p className="text-2xl font-bold text-foreground mt-1">{value}</p>
+                          {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+                        </div>
+                      ))}
+                    </div>
+
+                    {analyticsData.satisfaction.trend.length > 1 && (
+                      <div className="w-full overflow-x-auto">
+                        <ResponsiveContainer width="100%" height={240} minWidth={300}>
+                          <LineChart data={analyticsData.satisfaction.trend} margin={{ top: 10, right: 30, left: 0, bottom: 10 }}>
+                            <CartesianGrid strokeDasharray="2 2" stroke={chartColors.border} opacity={0.8} />
+                            <XAxis dataKey="date" tick={{ fontSize: 11, fill: chartColors.mutedForeground }} />
+                            <YAxis tick={{ fontSize: 11, fill: chartColors.mutedForeground }} />
+                            <Tooltip />
+                            <Legend />
+                            <Line type="monotone" dataKey="csat" name={t('analytics.satisfaction.csat', 'CSAT')} stroke="#f59e0b" strokeWidth={2} connectNulls />
+                            <Line type="monotone" dataKey="nps" name={t('analytics.satisfaction.nps', 'NPS')} stroke="#3b82f6" strokeWidth={2} connectNulls />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      {([
+                        {
+                          key: 'agents',
+                          heading: t('analytics.satisfaction.by_agent', 'By agent'),
+                          rows: analyticsData.satisfaction.byAgent.map(row => ({
+                            ...row,
+                            name: row.agentName || t('analytics.satisfaction.unassigned', 'Unassigned')
+                          }))
+                        },
+                        {
+                          key: 'channels',
+                          heading: t('analytics.satisfaction.by_channel', 'By channel'),
+                          rows: analyticsData.satisfaction.byChannel.map(row => ({ ...row, name: row.channelType }))
+                        }
+                      ]).map(({ key, heading, rows }) => (
+                        <div key={key} className="space-y-2">
+                          <p className="text-sm font-medium text-muted-foreground">{heading}</p>
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>{heading}</TableHead>
+                                <TableHead className="text-right">{t('analytics.satisfaction.responses', 'Responses')}</TableHead>
+                                <TableHead className="text-right">{t('analytics.satisfaction.csat', 'CSAT')}</TableHead>
+                                <TableHead className="text-right">{t('analytics.satisfaction.nps', 'NPS')}</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {rows.map(row => (
+                                <TableRow key={row.name}>
+                                  <TableCell className="font-medium">{row.name}</TableCell>
+                                  <TableCell className="text-right">{row.responses}</TableCell>
+                                  <TableCell className="text-right">{formatPercent(row.csat)}</TableCell>
+                                  <TableCell className="text-right">{row.nps === null ? '—' : row.nps.toFixed(1)}</TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
               
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6 mb-6">
                 <Card className="group hover:shadow-xl hover:shadow-blue-100/20 dark:hover:shadow-blue-900/10 transition-all duration-300 border-0 shadow-lg bg-gradient-to-br from-card via-card to-primary/5">
@@ -11,6 +11,7 @@ import { ContactExportModal } from '@/components/contacts/ContactExportModal';
 import { CreateSegmentFromContactsModal } from '@/components/contacts/CreateSegmentFromContactsModal';
 import { AddToExistingSegmentModal } from '@/components/contacts/AddToExistingSegmentModal';
 import { WhatsAppScrapingModal } from '@/components/contacts/WhatsAppScrapingModal';
+import { DataSubjectRequestModal } from '@/components/contacts/DataSubjectRequestModal';
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow, parseISO, formatISO, addHours } from 'date-fns';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter, DialogOverlay, DialogPortal } from '@/components/ui/dialog';
@@ -38,6 +39,7 @@ import { CallTypeSelectionModal } from '@/components/conversations/CallTypeSelec
 import { CallScreenModal } from '@/components/conversations/CallScreenModal';
 import { requestMicrophoneAccess, checkMicrophonePermission, stopMicrophoneStream } from '@/utils/microphone-permissions';
 import { usePermissions } from '@/hooks/usePermissions';
+import { useAuth } from '@/hooks/use-auth';
 
 
 function normalizePhoneNumber(phone: string): string {
@@ -255,6 +257,8 @@ export default function Contacts() {
   const { toast } = useToast();
   const { t } = useTranslation();
   const { canViewContactPhone } = usePermissions();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin' || !!user?.isSuperAdmin;
   const queryClient = useQueryClient();
   const [location, setLocation] = useLocation();
 
@@ -331,6 +335,7 @@ export default function Contacts() {
 
 
   const [isWhatsAppScrapingModalOpen, setIsWhatsAppScrapingModalOpen] = useState(false);
+  const [isDataRequestModalOpen, setIsDataRequestModalOpen] = useState(false);
   const [isFilterDialogOpen, setIsFilterDialogOpen] = useState(false);
   const [contactDetailTab, setContactDetailTab] = useState('dossier');
   const [archivedFilter, setArchivedFilter] = useState('active'); // 'all', 'active', 'archived'
@@ -2427,12 +2432,16 @@ export default function Contacts() {
                       >
                         <Trash2 className="h-4 w-4" />
                       </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                      >
-                        <MoreHorizontal className="h-4 w-4" />
-                      </Button>
+                      {isAdmin && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title={t('contacts.data_request.title', 'Data Subject Request')}
+                          onClick={() => setIsDataRequestModalOpen(true)}
+                        >
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -3598,6 +3607,13 @@ export default function Contacts() {
       </Dialog>
 
       {/* Contact Export Modal */}
+      <DataSubjectRequestModal
+        isOpen={isDataRequestModalOpen}
+        onClose={() => setIsDataRequestModalOpen(false)}
+        contact={selectedContactForDetail}
+        onErased={() => queryClient.invalidateQueries({ queryKey: ['/api/contacts'] })}
+      />
+
       <ContactExportModal
         isOpen={isExportModalOpen}
         onClose={() => setIsExportModalOpen(false)}
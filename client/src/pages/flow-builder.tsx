@@ -26,6 +26,10 @@ import { WebhookNode } from '@/components/flow-builder/WebhookNode';
 import { ContactNotificationNode } from '@/components/flow-builder/ContactNotificationNode';
 import { StripeNode } from '@/components/flow-builder/StripeNode';
 import { CallAgentNode } from '@/components/flow-builder/CallAgentNode';
+import { FlowVersionControls } from '@/components/flow-builder/FlowVersionHistory';
+import { ConditionBranchesEditor, createConditionBranch, describeConditionGroup } from '@/components/flow-builder/ConditionBranchesEditor';
+import type { FlowConditionBranch } from '@shared/schema';
+import { useBusinessHoursCalendars } from '@/hooks/use-business-hours-calendars';
 import { Button } from '@/components/ui/button';
 import { Calendar } from "@/components/ui/calendar";
 import { FileUpload } from '@/components/ui/file-upload';
@@ -869,6 +873,7 @@ const getConditionTypes = (t: any) => ({
   MEDIA_TYPE: t('flow_builder.condition_types.media_type_is', "Media Type Is"),
   TIME_BASED: t('flow_builder.condition_types.time_condition', "Time Condition"),
   CONTACT_ATTRIBUTE: t('flow_builder.condition_types.contact_attribute', "Contact Attribute"),
+  BUSINESS_HOURS: t('flow_builder.condition_types.business_hours', "Within Business Hours"),
   CUSTOM: t('flow_builder.condition_types.custom_expression', "Custom Expression")
 });
 
@@ -894,6 +899,10 @@ function ConditionNode({ data, isConnectable, id }: any) {
   const [attributeValue, setAttributeValue] = useState(data.attributeValue || "");
   const [advancedMode, setAdvancedMode] = useState(data.advancedMode || false);
   const [customCondition, setCustomCondition] = useState(data.customCondition || "Contains('hello')");
+  const [conditionMode, setConditionMode] = useState<'simple' | 'rules'>(data.conditionMode || 'simple');
+  const [branches, setBranches] = useState<FlowConditionBranch[]>(data.branches || []);
+  const [businessHoursCalendarId, setBusinessHoursCalendarId] = useState<number | null>(data.businessHoursCalendarId ?? null);
+  const { calendars: businessHoursCalendars } = useBusinessHoursCalendars(isEditing || !!data.checkBusinessHours);
 
   const [condition, setCondition] = useState(data.condition || "Contains('hello')");
 
@@ -950,6 +959,9 @@ function ConditionNode({ data, isConnectable, id }: any) {
         case CONDITION_TYPES.CONTACT_ATTRIBUTE:
           newCondition = `Contact.${contactAttribute} == '${attributeValue}'`;
           break;
+        case CONDITION_TYPES.BUSINESS_HOURS:
+          newCondition = `WithinBusinessHours(${businessHoursCalendarId ?? 'default'})`;
+          break;
         default:
           newCondition = `Contains('${conditionValue}')`;
       }
@@ -967,14 +979,26 @@ function ConditionNode({ data, isConnectable, id }: any) {
       contactAttribute,
       attributeValue,
       advancedMode,
-      customCondition
+      customCondition,
+      conditionMode,
+      branches,
+      checkBusinessHours: !advancedMode && conditionType === CONDITION_TYPES.BUSINESS_HOURS,
+      businessHoursCalendarId
     });
   }, [
     advancedMode, conditionType, conditionValue, caseSensitive,
     mediaType, timeOperator, timeValue, contactAttribute,
-    attributeValue, customCondition, updateNodeData
+    attributeValue, customCondition, conditionMode, branches,
+    businessHoursCalendarId, updateNodeData
   ]);
 
+  const handleConditionModeChange = (mode: 'simple' | 'rules') => {
+    setConditionMode(mode);
+    if (mode === 'rules' && branches.length === 0) {
+      setBranches([createConditionBranch(0)]);
+    }
+  };
+
   const handleConditionTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setConditionType(e.target.value);
   };
@@ -1122,6 +1146,25 @@ function ConditionNode({ data, isConnectable, id }: any) {
           </div>
         );
 
+      case CONDITION_TYPES.BUSINESS_HOURS:
+        return (
+          <div className="space-y-2">
+            <select
+              className="w-full p-2 text-sm border rounded"
+              value={businessHoursCalendarId ?? ''}
+              onChange={(e) => setBusinessHoursCalendarId(e.target.value ? Number(e.target.value) : null)}
+            >
+              <option value="">{t('flow_builder.business_hours_default_calendar', 'Default calendar')}</option>
+              {businessHoursCalendars.map(calendar => (
+                <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+              ))}
+            </select>
+            <div className="text-[10px] text-muted-foreground">
+              {t('flow_builder.business_hours_desc', 'Yes while the calendar is open, No outside opening hours and on holidays. Manage calendars in Settings.')}
+            </div>
+          </div>
+        );
+
       default:
         return null;
     }
@@ -1151,13 +1194,19 @@ function ConditionNode({ data, isConnectable, id }: any) {
         return `Time is ${timeOperator}: ${timeValue}`;
       case CONDITION_TYPES.CONTACT_ATTRIBUTE:
         return `Contact ${contactAttribute} is: "${attributeValue}"`;
+      case CONDITION_TYPES.BUSINESS_HOURS: {
+        const calendar = businessHoursCalendars.find(item => item.id === businessHoursCalendarId);
+        return `Within business hours: ${calendar?.name || t('flow_builder.business_hours_default_calendar', 'Default calendar')}`;
+      }
       default:
         return condition;
     }
   };
 
+  const isRulesMode = conditionMode === 'rules';
+
   return (
-    <div className="node-condition p-3 rounded-lg bg-card border border-border shadow-sm max-w-[280px] group">
+    <div className={`node-condition p-3 rounded-lg bg-card border border-border shadow-sm group ${isRulesMode ? 'max-w-[380px]' : 'max-w-[280px]'}`}>
       {flowContext && (
         <NodeToolbar
           id={id}
@@ -1180,7 +1229,58 @@ function ConditionNode({ data, isConnectable, id }: any) {
         </button>
       </div>
 
-      {isEditing ? (
+      {isEditing && (
+        <select
+          className="w-full p-2 mb-3 text-sm border rounded"
+          value={conditionMode}
+          onChange={(e) => handleConditionModeChange(e.target.value as 'simple' | 'rules')}
+        >
+          <option value="simple">{t('flow_builder.condition_mode_simple', 'Yes / No on the message')}</option>
+          <option value="rules">{t('flow_builder.condition_mode_rules', 'Branches on any variable')}</option>
+        </select>
+      )}
+
+      {isRulesMode ? (
+        isEditing ? (
+          <ConditionBranchesEditor branches={branches} onChange={setBranches} />
+        ) : (
+          <div className="space-y-1">
+            {branches.map(branch => (
+              <div key={branch.id} className="relative text-xs p-2 pr-4 rounded border border-border">
+                <div className="font-medium">{branch.name}</div>
+                <div className="text-muted-foreground truncate">{describeConditionGroup(branch.conditions, t)}</div>
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id={`branch-${branch.id}`}
+                  style={{
+                    ...standardHandleStyle,
+                    top: '50%',
+                    right: '-16px',
+                    background: '#10b981'
+                  }}
+                  isConnectable={isConnectable}
+                />
+              </div>
+            ))}
+            <div className="relative text-xs p-2 pr-4 rounded border border-dashed border-border text-muted-foreground">
+              {t('flow_builder.condition_default_branch', 'Default (no branch matched)')}
+              <Handle
+                type="source"
+                position={Position.Right}
+                id="default"
+                style={{
+                  ...standardHandleStyle,
+                  top: '50%',
+                  right: '-16px',
+                  background: '#9ca3af'
+                }}
+                isConnectable={isConnectable}
+              />
+            </div>
+          </div>
+        )
+      ) : isEditing ? (
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <label className="text-xs font-medium">{t('flow_builder.condition_type', 'Condition Type:')}</label>
@@ -1214,10 +1314,12 @@ function ConditionNode({ data, isConnectable, id }: any) {
         </div>
       )}
 
-      <div className="flex mt-2 text-xs justify-between">
-        <div className="text-green-600">{t('flow_builder.yes', 'Yes')} →</div>
-        <div className="text-red-500">{t('flow_builder.no', 'No')} →</div>
-      </div>
+      {!isRulesMode && (
+        <div className="flex mt-2 text-xs justify-between">
+          <div className="text-green-600">{t('flow_builder.yes', 'Yes')} →</div>
+          <div className="text-red-500">{t('flow_builder.no', 'No')} →</div>
+        </div>
+      )}
 
       <Handle
         type="target"
@@ -1225,20 +1327,24 @@ function ConditionNode({ data, isConnectable, id }: any) {
         style={standardHandleStyle}
         isConnectable={isConnectable}
       />
-      <Handle
-        type="source"
-        position={Position.Bottom}
-        id="yes"
-        style={yesHandleStyle}
-        isConnectable={isConnectable}
-      />
-      <Handle
-        type="source"
-        position={Position.Bottom}
-        id="no"
-        style={noHandleStyle}
-        isConnectable={isConnectable}
-      />
+      {!isRulesMode && (
+        <>
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            id="yes"
+            style={yesHandleStyle}
+            isConnectable={isConnectable}
+          />
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            id="no"
+            style={noHandleStyle}
+            isConnectable={isConnectable}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -5798,14 +5904,14 @@ function FlowEditor() {
     }
   }, [previousNodePositions, setNodes, toast]);
 
-  const handleSave = async () => {
+  const handleSave = async (): Promise<boolean> => {
     if (!name.trim()) {
       toast({
         title: t('flow_builder.name_required', 'Name required'),
         description: t('flow_builder.provide_flow_name', 'Please provide a name for your flow'),
         variant: 'destructive'
       });
-      return;
+      return false;
     }
 
     setLoading(true);
@@ -5823,6 +5929,7 @@ function FlowEditor() {
       } else {
         await createFlowMutation.mutateAsync(flowToSave);
       }
+      return true;
     } finally {
       setLoading(false);
     }
@@ -5895,6 +6002,9 @@ function FlowEditor() {
               )}
               {t('common.save', 'Save')}
             </Button>
+            {isEditMode && flowId && (
+              <FlowVersionControls flowId={flowId} onSaveDraft={handleSave} />
+            )}
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
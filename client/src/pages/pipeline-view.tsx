@@ -11,12 +11,18 @@ import { QuickFilters } from '@/components/pipeline/QuickFilters';
 import { ActiveFilterChips } from '@/components/pipeline/ActiveFilterChips';
 import { PipelineProvider, usePipeline } from '@/contexts/PipelineContext';
 import ManagePipelinesModal from '@/components/pipeline/ManagePipelinesModal';
+import DealForecastModal from '@/components/pipeline/DealForecastModal';
+import { Button } from '@/components/ui/button';
+import { TrendingUp } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
 import PipelineErrorBoundary from '@/components/ErrorBoundary';
 
 function PipelineViewContent() {
   const { activePipelineId, pipelines, setActivePipelineId, isLoading } = usePipeline();
   const [isAddDealModalOpen, setIsAddDealModalOpen] = useState(false);
   const [isManagePipelinesOpen, setIsManagePipelinesOpen] = useState(false);
+  const [isForecastOpen, setIsForecastOpen] = useState(false);
+  const { t } = useTranslation();
 
 
   useEffect(() => {
@@ -54,6 +60,15 @@ function PipelineViewContent() {
                   onManagePipelines={() => setIsManagePipelinesOpen(true)}
                   isLoading={isLoading}
                 />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsForecastOpen(true)}
+                  className="flex items-center gap-1"
+                >
+                  <TrendingUp className="h-4 w-4" />
+                  {t('pipeline.forecast.open', 'Forecast')}
+                </Button>
               </div>
               <div className="w-full sm:w-auto sm:flex-1 sm:max-w-none">
                 <PipelineSearchBar />
@@ -81,6 +96,13 @@ function PipelineViewContent() {
               isOpen={isManagePipelinesOpen}
               onClose={() => setIsManagePipelinesOpen(false)}
             />
+
+            <DealForecastModal
+              isOpen={isForecastOpen}
+              onClose={() => setIsForecastOpen(false)}
+              pipelines={pipelines}
+              activePipelineId={activePipelineId}
+            />
           </div>
         </div>
       </div>
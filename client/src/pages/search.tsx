@@ -0,0 +1,382 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import Header from '@/components/layout/Header';
+import Sidebar from '@/components/layout/Sidebar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation } from '@/hooks/use-translation';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useChannelConnections } from '@/hooks/useChannelConnections';
+import { useConversations } from '@/context/ConversationContext';
+import { apiRequest } from '@/lib/queryClient';
+import { Loader2, MessageCircle, User, StickyNote, Search, ArrowDownLeft, ArrowUpRight, Mail } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+interface ConversationTarget {
+  conversationId: number | null;
+  channelId: number | null;
+  channelType: string | null;
+}
+
+interface MessageHit extends ConversationTarget {
+  messageId: number;
+  contactId: number | null;
+  contactName: string | null;
+  direction: string;
+  emailSubject: string | null;
+  snippet: string;
+  createdAt: string | null;
+}
+
+interface ContactHit extends ConversationTarget {
+  contactId: number;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  identifierType: string | null;
+}
+
+interface NoteHit extends ConversationTarget {
+  noteId: number;
+  contactId: number;
+  contactName: string;
+  snippet: string;
+  createdAt: string | null;
+}
+
+interface SearchResults {
+  messages: MessageHit[];
+  contacts: ContactHit[];
+  notes: NoteHit[];
+}
+
+const EMPTY_RESULTS: SearchResults = { messages: [], contacts: [], notes: [] };
+
+/**
+ * Render a server snippet, emphasising the ranges wrapped in highlight delimiters
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_START);
+  return (
+    <span>
+      {parts[0]}
+      {parts.slice(1).map((part, index) => {
+        const [match, rest = ''] = part.split(HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="bg-yellow-200 text-foreground rounded-sm px-0.5">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+export default function SearchPage() {
+  const { t } = useTranslation();
+  const [, navigate] = useLocation();
+  const searchString = useSearch();
+  const { canViewAllConversations } = usePermissions();
+  const { data: channelConnections = [] } = useChannelConnections();
+  const { setActiveConversationId, setActiveChannelId, setFocusMessageId } = useConversations();
+
+  const [query, setQuery] = useState(() => new URLSearchParams(searchString).get('q') || '');
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  const [channelType, setChannelType] = useState('all');
+  const [direction, setDirection] = useState('all');
+  const [assignedToUserId, setAssignedToUserId] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    const urlQuery = new URLSearchParams(searchString).get('q') || '';
+    setQuery(urlQuery);
+    setDebouncedQuery(urlQuery);
+  }, [searchString]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [debouncedQuery, channelType, direction, assignedToUserId, from, to]);
+
+  const { data: teamMembers = [] } = useQuery<Array<{ id: number; fullName: string }>>({
+    queryKey: ['/api/team-members'],
+    queryFn: () => apiRequest('GET', '/api/team-members').then(res => res.json()),
+    enabled: canViewAllConversations(),
+  });
+
+  const trimmedQuery = debouncedQuery.trim();
+  const { data: results = EMPTY_RESULTS, isFetching, error } = useQuery<SearchResults>({
+    queryKey: ['/api/search/full', trimmedQuery, channelType, direction, assignedToUserId, from, to, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        q: trimmedQuery,
+        limit: String(PAGE_SIZE),
+        offset: String(page * PAGE_SIZE)
+      });
+      if (channelType !== 'all') params.set('channelType', channelType);
+      if (direction !== 'all') params.set('direction', direction);
+      if (assignedToUserId !== 'all') params.set('assignedToUserId', assignedToUserId);
+      if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+      const response = await apiRequest('GET', `/api/search/full?${params.toString()}`);
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: trimmedQuery.length >= 2,
+    staleTime: 30000,
+    refetchOnWindowFocus: false,
+  });
+
+  const channelTypes = Array.from(new Set(channelConnections.map(connection => connection.channelType)));
+  const hasNextPage = results.messages.length === PAGE_SIZE || results.contacts.length === PAGE_SIZE || results.notes.length === PAGE_SIZE;
+  const totalResults = results.messages.length + results.contacts.length + results.notes.length;
+
+  const openTarget = (target: ConversationTarget, contactId: number | null, messageId?: number) => {
+    if (target.channelType === 'email' && target.channelId) {
+      navigate(`/email/${target.channelId}`);
+      return;
+    }
+
+    if (target.conversationId) {
+      setActiveConversationId(target.conversationId);
+      setActiveChannelId(target.channelId);
+      setFocusMessageId(messageId ?? null);
+      navigate('/inbox');
+      return;
+    }
+
+    if (contactId) {
+      navigate('/contacts');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+  };
+
+  const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : '';
+
+  return (
+    <div className="h-screen flex flex-col">
+      <Header />
+      <div className="flex flex-1 overflow-hidden">
+        <Sidebar />
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div>
+            <h1 className="text-2xl font-semibold">{t('search.page.title', 'Search')}</h1>
+            <p className="text-sm text-muted-foreground">
+              {t('search.page.description', 'Find messages, emails, contacts and notes across all conversations')}
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="relative">
+              <Search className="h-4 w-4 absolute left-3 top-3 text-muted-foreground" />
+              <Input
+                autoFocus
+                type="search"
+                className="pl-9"
+                placeholder={t('search.page.placeholder', 'Search message text, email subjects, names, phone numbers or notes...')}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <Select value={channelType} onValueChange={setChannelType}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('search.page.all_channels', 'All channels')}</SelectItem>
+                  {channelTypes.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={direction} onValueChange={setDirection}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('search.page.any_direction', 'Any direction')}</SelectItem>
+                  <SelectItem value="inbound">{t('search.page.inbound', 'Received')}</SelectItem>
+                  <SelectItem value="outbound">{t('search.page.outbound', 'Sent')}</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {canViewAllConversations() && (
+                <Select value={assignedToUserId} onValueChange={setAssignedToUserId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t('search.page.any_assignee', 'Any assignee')}</SelectItem>
+                    {teamMembers.map(member => (
+                      <SelectItem key={member.id} value={String(member.id)}>{member.fullName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Input type="date" className="w-40" value={from} onChange={(e) => setFrom(e.target.value)} />
+                <span className="text-muted-foreground">–</span>
+                <Input type="date" className="w-40" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+            {direction !== 'all' && (
+              <p className="text-xs text-muted-foreground">
+                {t('search.page.direction_hint', 'Direction applies to messages only; contacts and notes are hidden.')}
+              </p>
+            )}
+          </form>
+
+          {trimmedQuery.length < 2 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('search.page.min_length', 'Type at least 2 characters to search')}
+            </p>
+          ) : isFetching ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{(error as Error).message}</p>
+          ) : totalResults === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t('search.no_results', 'No results found for "{{query}}"', { query: trimmedQuery })}
+            </p>
+          ) : (
+            <div className="space-y-6">
+              {results.messages.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <MessageCircle className="h-4 w-4 text-blue-500" />
+                      {t('search.page.messages', 'Messages')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="divide-y p-0">
+                    {results.messages.map(hit => (
+                      <button
+                        key={`message-${hit.messageId}`}
+                        className="w-full px-6 py-3 text-left hover:bg-muted/50 space-y-1"
+                        onClick={() => openTarget(hit, hit.contactId, hit.messageId)}
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex items-center gap-2 min-w-0">
+                            {hit.direction === 'inbound'
+                              ? <ArrowDownLeft className="h-3.5 w-3.5 text-green-600 flex-shrink-0" />
+                              : <ArrowUpRight className="h-3.5 w-3.5 text-blue-600 flex-shrink-0" />}
+                            <span className="font-medium text-sm truncate">
+                              {hit.contactName || t('search.page.unknown_contact', 'Unknown contact')}
+                            </span>
+                            <Badge variant="outline" className="text-xs">{hit.channelType}</Badge>
+                          </div>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">{formatDate(hit.createdAt)}</span>
+                        </div>
+                        {hit.emailSubject && (
+                          <div className="flex items-center gap-1 text-sm font-medium">
+                            <Mail className="h-3.5 w-3.5" />
+                            {hit.emailSubject}
+                          </div>
+                        )}
+                        <div className="text-sm text-muted-foreground line-clamp-2">
+                          <Snippet text={hit.snippet} />
+                        </div>
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {results.contacts.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <User className="h-4 w-4 text-green-500" />
+                      {t('search.contacts', 'Contacts')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="divide-y p-0">
+                    {results.contacts.map(hit => (
+                      <button
+                        key={`contact-${hit.contactId}`}
+                        className="w-full px-6 py-3 text-left hover:bg-muted/50 flex items-center justify-between gap-3"
+                        onClick={() => openTarget(hit, hit.contactId)}
+                      >
+                        <div className="min-w-0">
+                          <div className="font-medium text-sm truncate">{hit.name}</div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {[hit.phone, hit.email].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                        {hit.channelType && <Badge variant="outline" className="text-xs">{hit.channelType}</Badge>}
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {results.notes.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <StickyNote className="h-4 w-4 text-amber-500" />
+                      {t('search.page.notes', 'Notes')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="divide-y p-0">
+                    {results.notes.map(hit => (
+                      <button
+                        key={`note-${hit.noteId}`}
+                        className="w-full px-6 py-3 text-left hover:bg-muted/50 space-y-1"
+                        onClick={() => openTarget(hit, hit.contactId)}
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="font-medium text-sm truncate">{hit.contactName}</span>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">{formatDate(hit.createdAt)}</span>
+                        </div>
+                        <div className="text-sm text-muted-foreground line-clamp-2">
+                          <Snippet text={hit.snippet} />
+                        </div>
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+
+          {trimmedQuery.length >= 2 && (page > 0 || hasNextPage) && (
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" disabled={page === 0 || isFetching} onClick={() => setPage(page - 1)}>
+                {t('common.previous', 'Previous')}
+              </Button>
+              <Button variant="outline" size="sm" disabled={!hasNextPage || isFetching} onClick={() => setPage(page + 1)}>
+                {t('common.next', 'Next')}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
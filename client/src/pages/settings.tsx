@@ -64,6 +64,7 @@ import { MetaWhatsAppIntegratedOnboarding } from '@/components/settings/MetaWhat
 import { ApiAccessTab } from '@/components/settings/ApiAccessTab';
 import { InstagramConnectionForm } from '@/components/settings/InstagramConnectionForm';
 import { TwilioSmsConnectionForm } from '@/components/settings/TwilioSmsConnectionForm';
+import { CustomChannelConnectionForm } from '@/components/settings/CustomChannelConnectionForm';
 import { EnhancedInstagramConnectionForm } from '@/components/settings/EnhancedInstagramConnectionForm';
 import { MessengerConnectionForm } from '@/components/settings/MessengerConnectionForm';
 import { MessengerEmbeddedSignup } from '@/components/settings/MessengerEmbeddedSignup';
@@ -76,6 +77,10 @@ import { SmtpConfiguration } from '@/components/settings/SmtpConfiguration';
 import { TikTokPlatformConfigForm } from '@/components/settings/TikTokPlatformConfigForm';
 import { WhatsAppBehaviorSettings } from '@/components/settings/WhatsAppBehaviorSettings';
 import { InboxSettings } from '@/components/settings/InboxSettings';
+import { CustomContactFieldsSettings } from '@/components/settings/CustomContactFieldsSettings';
+import { DataRetentionSettings } from '@/components/settings/DataRetentionSettings';
+import { DealCurrenciesSettings } from '@/components/settings/DealCurrenciesSettings';
+import { ProductCatalogSettings } from '@/components/settings/ProductCatalogSettings';
 import { EmailChannelForm } from '@/components/settings/EmailChannelForm';
 import { EditEmailChannelForm } from '@/components/settings/EditEmailChannelForm';
 import { EditWhatsAppBusinessApiForm } from '@/components/settings/EditWhatsAppBusinessApiForm';
@@ -83,6 +88,7 @@ import { EditMessengerConnectionForm } from '@/components/settings/EditMessenger
 import { EditInstagramConnectionForm } from '@/components/settings/EditInstagramConnectionForm';
 import { EditTikTokConnectionForm } from '@/components/settings/EditTikTokConnectionForm';
 import { EditTwilioSmsConnectionForm } from '@/components/settings/EditTwilioSmsConnectionForm';
+import { EditCustomChannelConnectionForm } from '@/components/settings/EditCustomChannelConnectionForm';
 import { TwilioVoiceConnectionForm } from '@/components/settings/TwilioVoiceConnectionForm';
 import { EditTwilioVoiceConnectionForm } from '@/components/settings/EditTwilioVoiceConnectionForm';
 import { WebChatConnectionForm } from '@/components/settings/WebChatConnectionForm';
@@ -273,6 +279,7 @@ export default function Settings() {
   const [showTelegramModal, setShowTelegramModal] = useState(false);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [showTwilioSmsModal, setShowTwilioSmsModal] = useState(false);
+  const [showCustomChannelModal, setShowCustomChannelModal] = useState(false);
   const [showTwilioVoiceModal, setShowTwilioVoiceModal] = useState(false);
   const [showEditTwilioVoiceModal, setShowEditTwilioVoiceModal] = useState(false);
   const [editTwilioVoiceConnectionId, setEditTwilioVoiceConnectionId] = useState<number | null>(null);
@@ -582,6 +589,8 @@ export default function Settings() {
 
   const [showEditTwilioSmsModal, setShowEditTwilioSmsModal] = useState(false);
   const [editTwilioSmsConnectionId, setEditTwilioSmsConnectionId] = useState<number | null>(null);
+  const [showEditCustomChannelModal, setShowEditCustomChannelModal] = useState(false);
+  const [editCustomChannelConnectionId, setEditCustomChannelConnectionId] = useState<number | null>(null);
   const [showEditWebChatModal, setShowEditWebChatModal] = useState(false);
   const [editWebChatConnectionId, setEditWebChatConnectionId] = useState<number | null>(null);
 
@@ -759,6 +768,8 @@ export default function Settings() {
         setShowTwilioVoiceModal(true);
       } else if (channelType === 'Twilio SMS') {
         setShowTwilioSmsModal(true);
+      } else if (channelType === 'Custom Channel') {
+        setShowCustomChannelModal(true);
       } else if (channelType === 'TikTok') {
         setShowTikTokModal(true);
       } else if (channelType === 'Telegram') {
@@ -1195,6 +1206,11 @@ export default function Settings() {
     setShowEditTwilioSmsModal(true);
   };
 
+  const handleOpenEditCustomChannelModal = (connectionId: number) => {
+    setEditCustomChannelConnectionId(connectionId);
+    setShowEditCustomChannelModal(true);
+  };
+
   const handleOpenEditTwilioVoiceModal = (connectionId: number) => {
     setEditTwilioVoiceConnectionId(connectionId);
     setShowEditTwilioVoiceModal(true);
@@ -1453,6 +1469,8 @@ export default function Settings() {
         return { icon: 'ri-mail-line', color: '#3B82F6', name: 'Email' };
       case 'webchat':
         return { icon: 'ri-message-3-line', color: '#6366f1', name: 'WebChat' };
+      case 'custom':
+        return { icon: 'ri-plug-line', color: '#0EA5E9', name: 'Custom Channel' };
       default:
         return { icon: 'ri-message-3-line', color: '#333235', name: 'Chat' };
     }
@@ -2248,6 +2266,23 @@ export default function Settings() {
             />
           )}
 
+          {/* Edit Custom Channel Connection Modal */}
+          {editCustomChannelConnectionId && (
+            <EditCustomChannelConnectionForm
+              isOpen={showEditCustomChannelModal}
+              onClose={() => {
+                setShowEditCustomChannelModal(false);
+                setEditCustomChannelConnectionId(null);
+              }}
+              onSuccess={() => {
+                queryClient.invalidateQueries({ queryKey: ['/api/channel-connections'] });
+                setShowEditCustomChannelModal(false);
+                setEditCustomChannelConnectionId(null);
+              }}
+              connectionId={editCustomChannelConnectionId}
+            />
+          )}
+
           {editWebChatConnectionId && (
             <EditWebChatConnectionForm
               isOpen={showEditWebChatModal}
@@ -2587,6 +2622,19 @@ export default function Settings() {
                                       </Button>
                                     )}
 
+                                    {/* Edit button for custom channels */}
+                                    {connection.channelType === 'custom' && (
+                                      <Button
+                                        variant="brand"
+                                        size="sm"
+                                        className="btn-brand-primary text-green-600 dark:text-green-400 hover:text-green-700 dark:hover:text-green-500 text-xs sm:text-sm"
+                                        onClick={() => handleOpenEditCustomChannelModal(connection.id)}
+                                      >
+                                        <span className="hidden sm:inline">Edit</span>
+                                        <span className="sm:hidden">Edit</span>
+                                      </Button>
+                                    )}
+
                                     {/* Edit button for Twilio Voice channels */}
                                     {connection.channelType === 'twilio_voice' && (
                                       <Button
@@ -2803,6 +2851,15 @@ export default function Settings() {
                             <h4 className="font-medium text-sm sm:text-base text-center">Twilio SMS</h4>
                             <p className="text-xs text-muted-foreground text-center mt-1">Programmable Messaging (SMS/MMS)</p>
                           </div>
+
+                        <div
+                          className="border border-border rounded-lg p-3 sm:p-4 flex flex-col items-center hover:bg-accent cursor-pointer transition-colors"
+                          onClick={() => handleConnectChannel('Custom Channel')}
+                        >
+                          <i className="ri-plug-line text-2xl sm:text-3xl mb-2" style={{ color: '#0EA5E9' }}></i>
+                          <h4 className="font-medium text-sm sm:text-base text-center">Custom Channel</h4>
+                          <p className="text-xs text-muted-foreground text-center mt-1">Any platform via signed HTTP webhooks</p>
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -2916,7 +2973,13 @@ export default function Settings() {
             </TabsContent>
 
             <TabsContent value="general">
-              <GeneralSettingsTab />
+              <div className="space-y-6">
+                <GeneralSettingsTab />
+                <CustomContactFieldsSettings />
+                <DataRetentionSettings />
+                <DealCurrenciesSettings />
+                <ProductCatalogSettings />
+              </div>
             </TabsContent>
 
             <TabsContent value="billing">
@@ -3255,6 +3318,13 @@ export default function Settings() {
         onSuccess={handleConnectionSuccess}
       />
 
+      {/* Custom Channel Connection Modal */}
+      <CustomChannelConnectionForm
+        isOpen={showCustomChannelModal}
+        onClose={() => setShowCustomChannelModal(false)}
+        onSuccess={handleConnectionSuccess}
+      />
+
       {/* Twilio Voice Connection Modal */}
       <TwilioVoiceConnectionForm
         isOpen={showTwilioVoiceModal}
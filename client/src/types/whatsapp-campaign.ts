@@ -9,6 +9,7 @@ import {
   WhatsAppTemplateStatus,
   WhatsAppMessageType 
 } from '@/lib/whatsapp-constants';
+import type { CampaignAbTestSettings } from '@shared/schema';
 
 
 export interface WhatsAppCampaign {
@@ -66,6 +67,8 @@ export interface WhatsAppCampaignData {
   /** Array of pipeline stage IDs to filter campaign recipients. Merged with segment criteria. */
   pipelineStageIds?: number[];
   recurringDailySettings?: WhatsAppRecurringDailySettings;
+  /** Message variants tested on part of the audience before the winner goes to the rest */
+  abTestSettings?: CampaignAbTestSettings | null;
 }
 
 
@@ -85,6 +88,7 @@ export interface WhatsAppAntiBanSettings {
   enabled: boolean;
   mode: 'conservative' | 'moderate' | 'aggressive';
   businessHoursOnly: boolean;
+  businessHoursCalendarId?: number | null; // null = the company's default calendar
   respectWeekends: boolean;
   randomizeDelay: boolean;
   minDelay: number;
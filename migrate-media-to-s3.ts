@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+const envPath = path.resolve(process.cwd(), '.env');
+dotenv.config({ path: envPath });
+
+/**
+ * Move existing media files (public/media and uploads) to S3-compatible object storage.
+ * Requires MEDIA_STORAGE_DRIVER=s3 and the S3_* variables.
+ *   --dry-run      list the files that would be moved
+ *   --keep-local   upload without deleting the local copies
+ */
+(async () => {
+    const dryRun = process.argv.includes('--dry-run');
+    const keepLocal = process.argv.includes('--keep-local');
+
+    try {
+        const { mediaStorage } = await import('./server/services/media-storage');
+
+        if (!mediaStorage.isObjectStorageEnabled()) {
+            console.error('Media object storage is not enabled. Set MEDIA_STORAGE_DRIVER=s3, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.');
+            process.exit(1);
+        }
+
+        console.log(dryRun ? 'Listing media files to move (dry run)...' : 'Moving media files to object storage...');
+        const result = await mediaStorage.migrateLocalFiles({
+            dryRun,
+            keepLocal,
+            onFile: (localPath, key) => console.log(`${path.relative(process.cwd(), localPath)} -> ${key}`)
+        });
+
+        for (const error of result.errors) {
+            console.error(error);
+        }
+        console.log(`${dryRun ? 'Would move' : 'Moved'} ${result.migrated} files (${(result.bytes / 1024 / 1024).toFixed(1)} MB), skipped ${result.skipped}, failed ${result.failed}`);
+
+        process.exit(result.failed > 0 ? 1 : 0);
+    } catch (error) {
+        console.error('Media migration failed:', error);
+        process.exit(1);
+    }
+})();
@@ -0,0 +1,35 @@
+-- Migration: Automatic conversation assignment
+-- Adds per-agent assignment profiles (availability, skills, capacity) used by the
+-- company-level assignment policy stored in company_settings
+-- (key: conversation_assignment_policy).
+
+CREATE TABLE IF NOT EXISTS agent_assignment_profiles (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  availability TEXT NOT NULL DEFAULT 'available' CHECK (availability IN ('available', 'away', 'offline')),
+  skills TEXT[] NOT NULL DEFAULT '{}',
+  max_concurrent_chats INTEGER,
+  auto_assign_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_assigned_at TIMESTAMP,
+  last_seen_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_assignment_profiles_company
+ON agent_assignment_profiles (company_id);
+
+-- Open-conversation counts per agent are computed on every assignment
+CREATE INDEX IF NOT EXISTS idx_conversations_assigned_status
+ON conversations (company_id, assigned_to_user_id, status)
+WHERE assigned_to_user_id IS NOT NULL;
+
+-- Backlog lookup for unassigned conversations when an agent becomes available
+CREATE INDEX IF NOT EXISTS idx_conversations_unassigned_open
+ON conversations (company_id, created_at)
+WHERE assigned_to_user_id IS NULL;
+
+COMMENT ON TABLE agent_assignment_profiles IS 'Per-agent availability, skills and capacity used by automatic conversation assignment';
+COMMENT ON COLUMN agent_assignment_profiles.skills IS 'Skill tags matched against channel rules and contact tags (e.g. ["billing", "spanish"])';
+COMMENT ON COLUMN agent_assignment_profiles.max_concurrent_chats IS 'Per-agent override of the policy max concurrent chats; NULL uses the company default';
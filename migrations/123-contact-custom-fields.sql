@@ -0,0 +1,11 @@
+-- Migration: Custom contact fields
+-- Stores per-contact values for the company-defined contact fields kept in
+-- company_custom_fields (entity = 'contact'), keyed by field_name.
+
+ALTER TABLE contacts
+ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Segment filters query individual keys of custom_fields
+CREATE INDEX IF NOT EXISTS idx_contacts_custom_fields ON contacts USING GIN (custom_fields);
+
+COMMENT ON COLUMN contacts.custom_fields IS 'Values of company-defined contact fields keyed by company_custom_fields.field_name (e.g. {"customer_tier": "gold", "order_id": "A-1042"})';
@@ -0,0 +1,51 @@
+-- Migration: Conversation SLA policies
+-- Adds company SLA policies (first-response and resolution targets, optional
+-- business-hours calendar and breach escalation) and the per-conversation SLA timers.
+
+CREATE TABLE IF NOT EXISTS sla_policies (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  priority INTEGER NOT NULL DEFAULT 0,
+  channel_types TEXT[] NOT NULL DEFAULT '{}',
+  channel_ids INTEGER[] NOT NULL DEFAULT '{}',
+  contact_tags TEXT[] NOT NULL DEFAULT '{}',
+  first_response_minutes INTEGER CHECK (first_response_minutes IS NULL OR first_response_minutes > 0),
+  resolution_minutes INTEGER CHECK (resolution_minutes IS NULL OR resolution_minutes > 0),
+  business_hours JSONB,
+  escalation JSONB NOT NULL DEFAULT '{"reassign": false, "reassignToUserId": null, "notifyAssignee": true, "notifyUserIds": [], "addTags": []}'::jsonb,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sla_policies_company_active
+ON sla_policies (company_id, is_active, priority);
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS sla_policy_id INTEGER REFERENCES sla_policies(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS first_response_due_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS first_responded_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS resolution_due_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS first_response_breached_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS resolution_breached_at TIMESTAMP;
+
+-- The breach monitor scans running timers every minute
+CREATE INDEX IF NOT EXISTS idx_conversations_sla_first_response_due
+ON conversations (first_response_due_at)
+WHERE first_response_due_at IS NOT NULL AND first_responded_at IS NULL AND first_response_breached_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_sla_resolution_due
+ON conversations (resolution_due_at)
+WHERE resolution_due_at IS NOT NULL AND resolved_at IS NULL AND resolution_breached_at IS NULL;
+
+-- SLA attainment reporting
+CREATE INDEX IF NOT EXISTS idx_conversations_company_sla_policy
+ON conversations (company_id, created_at)
+WHERE sla_policy_id IS NOT NULL;
+
+COMMENT ON TABLE sla_policies IS 'Company SLA policies matched to new conversations by channel and contact tags (lowest priority first)';
+COMMENT ON COLUMN sla_policies.business_hours IS 'Working-hours calendar {timezone, days[0..6]: {enabled, start, end}, holidays}; NULL counts time 24/7';
+COMMENT ON COLUMN sla_policies.escalation IS 'Actions taken on breach: {reassign, reassignToUserId, notifyAssignee, notifyUserIds, addTags}';
@@ -0,0 +1,32 @@
+-- Migration: Global search indexes
+-- Full-text index over message bodies and email subject/plain text, plus trigram
+-- indexes for substring search on contact names, phones, emails and notes.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Expression must match messageDocument in server/services/search-service.ts
+CREATE INDEX IF NOT EXISTS idx_messages_search_document
+ON messages USING gin (
+  to_tsvector('simple', coalesce(content, '') || ' ' || coalesce(email_subject, '') || ' ' || coalesce(email_plain_text, ''))
+);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_name_trgm
+ON contacts USING gin (name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_phone_trgm
+ON contacts USING gin (phone gin_trgm_ops)
+WHERE phone IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_email_trgm
+ON contacts USING gin (email gin_trgm_ops)
+WHERE email IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notes_content_trgm
+ON notes USING gin (content gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_notes_contact_id
+ON notes (contact_id);
+
+ANALYZE messages;
+ANALYZE contacts;
+ANALYZE notes;
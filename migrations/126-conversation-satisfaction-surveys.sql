@@ -0,0 +1,43 @@
+-- Migration: Conversation satisfaction surveys
+-- Stores CSAT / NPS surveys sent when a conversation is closed, with the captured
+-- score and comment. Survey settings live in company_settings
+-- (key: satisfaction_survey_config).
+
+CREATE TABLE IF NOT EXISTS conversation_surveys (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  contact_id INTEGER REFERENCES contacts(id) ON DELETE SET NULL,
+  channel_id INTEGER,
+  channel_type TEXT NOT NULL,
+  agent_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  survey_type TEXT NOT NULL CHECK (survey_type IN ('csat', 'nps')),
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'awaiting_comment', 'completed', 'expired', 'failed')),
+  token TEXT NOT NULL UNIQUE,
+  score INTEGER CHECK (score IS NULL OR (score >= 0 AND score <= 10)),
+  comment TEXT,
+  error TEXT,
+  sent_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  responded_at TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Pending survey lookup for every inbound message
+CREATE INDEX IF NOT EXISTS idx_conversation_surveys_pending
+ON conversation_surveys (conversation_id)
+WHERE status IN ('sent', 'awaiting_comment');
+
+-- Contact cooldown check
+CREATE INDEX IF NOT EXISTS idx_conversation_surveys_contact_sent
+ON conversation_surveys (contact_id, sent_at DESC);
+
+-- Reporting by period, agent and channel
+CREATE INDEX IF NOT EXISTS idx_conversation_surveys_company_responded
+ON conversation_surveys (company_id, responded_at)
+WHERE score IS NOT NULL;
+
+COMMENT ON TABLE conversation_surveys IS 'CSAT / NPS surveys sent after a conversation is closed';
+COMMENT ON COLUMN conversation_surveys.agent_id IS 'Agent the conversation was assigned to when it closed; scores are attributed to this agent';
+COMMENT ON COLUMN conversation_surveys.score IS 'CSAT 1-5 or NPS 0-10';
@@ -0,0 +1,22 @@
+-- Migration: Campaign A/B tests
+-- A campaign can carry 2-5 message variants (campaigns.ab_test_settings). A test
+-- cohort of recipients is split across the variants first; after the test window
+-- the winning variant is assigned to the remaining recipients and queued.
+
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS ab_test_settings JSONB;
+
+ALTER TABLE campaign_recipients
+ADD COLUMN IF NOT EXISTS variant_id TEXT;
+
+-- Per-variant result aggregation
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_campaign_variant
+ON campaign_recipients (campaign_id, variant_id);
+
+-- The scheduler looks for tests whose window has elapsed
+CREATE INDEX IF NOT EXISTS idx_campaigns_ab_test_status
+ON campaigns ((ab_test_settings->>'status'))
+WHERE ab_test_settings IS NOT NULL;
+
+COMMENT ON COLUMN campaigns.ab_test_settings IS 'A/B test configuration and state: variants with split percentages, test cohort size, winner metric, test window and the selected winner';
+COMMENT ON COLUMN campaign_recipients.variant_id IS 'Variant sent to this recipient; NULL for recipients held back until the winner is selected';
@@ -0,0 +1,50 @@
+-- Migration: Flow version history
+-- flows.nodes/edges become the draft that the builder edits. Publishing takes an
+-- immutable snapshot in flow_versions and points flows.published_version_id at it;
+-- new sessions run on the published version and keep it until they end.
+
+CREATE TABLE IF NOT EXISTS flow_versions (
+  id SERIAL PRIMARY KEY,
+  flow_id INTEGER NOT NULL REFERENCES flows(id) ON DELETE CASCADE,
+  company_id INTEGER REFERENCES companies(id),
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  nodes JSONB NOT NULL DEFAULT '[]',
+  edges JSONB NOT NULL DEFAULT '[]',
+  note TEXT,
+  rolled_back_from_version_id INTEGER,
+  published_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  published_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT flow_versions_flow_id_version_key UNIQUE (flow_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flow_versions_flow_id ON flow_versions (flow_id, version DESC);
+
+ALTER TABLE flows
+ADD COLUMN IF NOT EXISTS published_version_id INTEGER REFERENCES flow_versions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS published_at TIMESTAMP;
+
+ALTER TABLE flow_sessions
+ADD COLUMN IF NOT EXISTS flow_version_id INTEGER REFERENCES flow_versions(id) ON DELETE SET NULL;
+
+-- Existing flows are live already: publish their current state as version 1
+INSERT INTO flow_versions (flow_id, company_id, version, name, description, nodes, edges, note, published_by_id, published_at)
+SELECT f.id, f.company_id, 1, f.name, f.description,
+  CASE WHEN jsonb_typeof(f.nodes) = 'string' THEN (f.nodes #>> '{}')::jsonb ELSE f.nodes END,
+  CASE WHEN jsonb_typeof(f.edges) = 'string' THEN (f.edges #>> '{}')::jsonb ELSE f.edges END,
+  'Initial version', f.user_id, NOW()
+FROM flows f
+WHERE NOT EXISTS (SELECT 1 FROM flow_versions v WHERE v.flow_id = f.id);
+
+UPDATE flows f
+SET published_version_id = v.id,
+    published_at = v.published_at
+FROM flow_versions v
+WHERE v.flow_id = f.id
+  AND v.version = 1
+  AND f.published_version_id IS NULL;
+
+COMMENT ON TABLE flow_versions IS 'Immutable published snapshots of a flow; flows.nodes/edges hold the editable draft';
+COMMENT ON COLUMN flows.published_version_id IS 'Version new flow sessions start on';
+COMMENT ON COLUMN flow_sessions.flow_version_id IS 'Published version the session started on; the session keeps running on it after newer publishes';
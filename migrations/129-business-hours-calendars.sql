@@ -0,0 +1,49 @@
+-- Migration: Business hours calendars
+-- Named company calendars (timezone, weekly opening hours and holiday exceptions)
+-- shared by the flow "business hours" condition, campaign sending windows,
+-- scheduled messages and per-channel out-of-office auto-replies.
+
+CREATE TABLE IF NOT EXISTS business_hours_calendars (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  days JSONB NOT NULL,
+  holidays JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_business_hours_calendars_company
+ON business_hours_calendars (company_id);
+
+-- At most one default calendar per company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_business_hours_calendars_company_default
+ON business_hours_calendars (company_id)
+WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS out_of_office_replies (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  channel_connection_id INTEGER NOT NULL UNIQUE REFERENCES channel_connections(id) ON DELETE CASCADE,
+  calendar_id INTEGER NOT NULL REFERENCES business_hours_calendars(id) ON DELETE CASCADE,
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  message TEXT NOT NULL,
+  cooldown_minutes INTEGER NOT NULL DEFAULT 240 CHECK (cooldown_minutes >= 0),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Last auto-reply per conversation, for the cooldown
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS out_of_office_replied_at TIMESTAMP;
+
+ALTER TABLE scheduled_messages
+ADD COLUMN IF NOT EXISTS business_hours_calendar_id INTEGER REFERENCES business_hours_calendars(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE business_hours_calendars IS 'Company opening hours and holidays used by flows, campaigns, scheduled messages and out-of-office replies';
+COMMENT ON COLUMN business_hours_calendars.days IS 'Seven {enabled, start, end} entries indexed by weekday (0 = Sunday), times are HH:mm in the calendar timezone';
+COMMENT ON COLUMN business_hours_calendars.holidays IS 'Closed dates: [{date: YYYY-MM-DD, name, source: manual|ical}]';
+COMMENT ON COLUMN scheduled_messages.business_hours_calendar_id IS 'When set, a message due while the calendar is closed is held until the next opening';
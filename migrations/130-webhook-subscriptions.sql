@@ -0,0 +1,57 @@
+-- Migration: Webhook subscriptions
+-- Company-level outbound webhooks subscribed to a catalog of events. Every event is
+-- persisted as a delivery that is retried with exponential backoff until the endpoint
+-- accepts it, and kept as a delivery log for manual redelivery.
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  secret TEXT NOT NULL,
+  previous_secret TEXT,
+  previous_secret_expires_at TIMESTAMP,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_company
+ON webhook_subscriptions (company_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  subscription_id INTEGER NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'delivered', 'failed')),
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 10,
+  next_attempt_at TIMESTAMP,
+  last_attempt_at TIMESTAMP,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  attempts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  redelivery_of_id INTEGER REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  delivered_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Due deliveries picked up by the dispatcher
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+ON webhook_deliveries (next_attempt_at)
+WHERE status IN ('pending', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription
+ON webhook_deliveries (subscription_id, created_at DESC);
+
+COMMENT ON TABLE webhook_subscriptions IS 'Company webhook endpoints and the events they receive';
+COMMENT ON COLUMN webhook_subscriptions.previous_secret IS 'Secret replaced by the last rotation, still used to sign deliveries until previous_secret_expires_at';
+COMMENT ON COLUMN webhook_deliveries.attempts IS 'Attempt log: [{at, status, responseStatus, error, durationMs}]';
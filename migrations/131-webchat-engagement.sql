@@ -0,0 +1,9 @@
+-- Migration: Webchat pre-chat forms, proactive triggers and offline mode
+-- The widget settings live in channel_connections.connection_data (prechatForm,
+-- proactiveTriggers, offlineMode); visitors' page history and campaign parameters are kept
+-- on the conversation so agents can see where the visitor came from.
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS visitor_metadata JSONB;
+
+COMMENT ON COLUMN conversations.visitor_metadata IS 'Webchat visitor context: {landingPage, referrer, utm, pageHistory: [{url, title, at}], userAgent, consentText, consentAt}';
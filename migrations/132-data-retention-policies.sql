@@ -0,0 +1,42 @@
+-- Migration: Company data retention policies
+-- Per-company retention rules by data class (message bodies, media files, call recordings,
+-- flow execution logs, API usage logs) and channel type, plus a log of retention runs
+-- (scheduled, manual and dry-run previews).
+
+CREATE TABLE IF NOT EXISTS data_retention_policies (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  data_class TEXT NOT NULL CHECK (data_class IN ('message_bodies', 'media_files', 'call_recordings', 'flow_execution_logs', 'api_usage_logs')),
+  channel_types TEXT[] NOT NULL DEFAULT '{}',
+  retention_days INTEGER NOT NULL CHECK (retention_days > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_retention_policies_company
+ON data_retention_policies (company_id, is_active);
+
+CREATE TABLE IF NOT EXISTS data_retention_runs (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_retention_runs_company
+ON data_retention_runs (company_id, started_at DESC);
+
+-- Retention scans old rows by creation time
+CREATE INDEX IF NOT EXISTS idx_messages_created_at_not_anonymized
+ON messages (created_at)
+WHERE anonymized_at IS NULL;
+
+COMMENT ON TABLE data_retention_policies IS 'Company retention rules: data of a class older than retention_days is removed; empty channel_types applies to all channels';
+COMMENT ON TABLE data_retention_runs IS 'Retention job runs with per-policy matched/processed counts; dry runs only count';
@@ -0,0 +1,23 @@
+-- Migration: Deal forecasting
+-- Per-stage win probability used to weight open deal values in the forecast. Stages
+-- without a probability fall back to the default for their stage type.
+
+ALTER TABLE pipeline_stages
+  ADD COLUMN IF NOT EXISTS win_probability INTEGER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'chk_pipeline_stages_win_probability'
+  ) THEN
+    ALTER TABLE pipeline_stages
+      ADD CONSTRAINT chk_pipeline_stages_win_probability
+      CHECK (win_probability IS NULL OR (win_probability >= 0 AND win_probability <= 100));
+  END IF;
+END $$;
+
+-- Stage velocity replays stage changes per deal in order
+CREATE INDEX IF NOT EXISTS idx_deal_activities_deal_type_created
+ON deal_activities (deal_id, type, created_at);
+
+COMMENT ON COLUMN pipeline_stages.win_probability IS 'Chance (0-100) that a deal in this stage is won; weights the pipeline forecast';
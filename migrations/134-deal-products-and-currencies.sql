@@ -0,0 +1,47 @@
+-- Migration: Deal products, line items and currencies
+-- Company product catalog, itemized deals (quantity, unit price, discount, tax) and a
+-- currency per deal. Conversion to the company base currency uses manually maintained
+-- rates stored in company settings (deal_currency_settings).
+
+ALTER TABLE deals
+  ADD COLUMN IF NOT EXISTS currency TEXT;
+
+CREATE TABLE IF NOT EXISTS products (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sku TEXT,
+  description TEXT,
+  unit_price NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  currency TEXT,
+  tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_product_company_sku UNIQUE (company_id, sku)
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_company
+ON products (company_id, is_active);
+
+CREATE TABLE IF NOT EXISTS deal_line_items (
+  id SERIAL PRIMARY KEY,
+  deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  product_id INTEGER REFERENCES products(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  quantity NUMERIC(14, 3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC(14, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  discount_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  total NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_line_items_deal
+ON deal_line_items (deal_id, position);
+
+COMMENT ON COLUMN deals.currency IS 'ISO 4217 currency of the deal value; NULL means the company base currency';
+COMMENT ON TABLE products IS 'Company product catalog used to add line items to deals';
+COMMENT ON TABLE deal_line_items IS 'Itemized deal lines; when a deal has line items its value is their total';
@@ -0,0 +1,39 @@
+-- Migration: Pipeline stage automations
+-- Per-stage rules that run actions when a deal enters or leaves a stage, or sits idle in
+-- it for a number of days, plus deal fields a stage requires before a deal can enter it.
+
+ALTER TABLE pipeline_stages
+  ADD COLUMN IF NOT EXISTS required_fields TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS pipeline_stage_automations (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  stage_id INTEGER NOT NULL REFERENCES pipeline_stages(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('enter', 'exit', 'idle')),
+  idle_days INTEGER CHECK (idle_days IS NULL OR idle_days > 0),
+  actions JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT chk_pipeline_stage_automations_idle_days CHECK (trigger <> 'idle' OR idle_days IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stage_automations_stage
+ON pipeline_stage_automations (stage_id, trigger) WHERE is_active = TRUE;
+
+CREATE TABLE IF NOT EXISTS pipeline_stage_automation_runs (
+  id SERIAL PRIMARY KEY,
+  automation_id INTEGER NOT NULL REFERENCES pipeline_stage_automations(id) ON DELETE CASCADE,
+  deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Idle automations check for a run since the deal's last activity
+CREATE INDEX IF NOT EXISTS idx_pipeline_stage_automation_runs_automation_deal
+ON pipeline_stage_automation_runs (automation_id, deal_id, created_at);
+
+COMMENT ON COLUMN pipeline_stages.required_fields IS 'Deal fields that must be filled in before a deal can enter the stage';
+COMMENT ON TABLE pipeline_stage_automations IS 'Actions run when a deal enters, leaves or sits idle in a pipeline stage';
@@ -0,0 +1,28 @@
+-- Migration: OpenAI-compatible AI provider
+-- Allows credentials for self-hosted servers that speak the OpenAI API (Ollama, vLLM, LM Studio).
+-- The base URL, auth header and models are stored in the credential metadata.
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_name = 'system_ai_credentials'
+    ) THEN
+        ALTER TABLE system_ai_credentials DROP CONSTRAINT IF EXISTS system_ai_credentials_provider_check;
+        ALTER TABLE system_ai_credentials
+        ADD CONSTRAINT system_ai_credentials_provider_check
+        CHECK (provider IN ('openai', 'openrouter', 'openai_compatible'));
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_name = 'company_ai_credentials'
+    ) THEN
+        ALTER TABLE company_ai_credentials DROP CONSTRAINT IF EXISTS company_ai_credentials_provider_check;
+        ALTER TABLE company_ai_credentials
+        ADD CONSTRAINT company_ai_credentials_provider_check
+        CHECK (provider IN ('openai', 'openrouter', 'openai_compatible'));
+    END IF;
+END $$;
+
+COMMENT ON COLUMN company_ai_credentials.metadata IS 'Provider settings; for openai_compatible: baseUrl, authHeader, defaultModel, embeddingModel';
@@ -0,0 +1,40 @@
+-- Migration: Postgres vector store for the knowledge base
+-- Lets a knowledge base keep its embeddings on knowledge_base_chunks instead of Pinecone.
+-- Similarity is computed in the database, so the pgvector extension is not required.
+
+-- Migration 101 drops the legacy JSON text column; make sure it is gone before re-adding it as REAL[]
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'knowledge_base_chunks' AND column_name = 'embedding' AND data_type = 'text'
+  ) THEN
+    ALTER TABLE knowledge_base_chunks DROP COLUMN embedding;
+  END IF;
+END $$;
+
+ALTER TABLE knowledge_base_chunks
+  ADD COLUMN IF NOT EXISTS embedding REAL[];
+
+ALTER TABLE knowledge_base_configs
+  ADD COLUMN IF NOT EXISTS vector_store TEXT NOT NULL DEFAULT 'pinecone';
+
+ALTER TABLE knowledge_base_configs DROP CONSTRAINT IF EXISTS chk_knowledge_base_configs_vector_store;
+ALTER TABLE knowledge_base_configs
+  ADD CONSTRAINT chk_knowledge_base_configs_vector_store CHECK (vector_store IN ('pinecone', 'postgres'));
+
+-- Cosine similarity of two equal-length embeddings; 0 when either vector is all zeros
+CREATE OR REPLACE FUNCTION kb_cosine_similarity(a REAL[], b REAL[])
+RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE
+    WHEN SUM(x * x) = 0 OR SUM(y * y) = 0 THEN 0
+    ELSE SUM(x * y) / (SQRT(SUM(x * x)) * SQRT(SUM(y * y)))
+  END
+  FROM UNNEST(a::DOUBLE PRECISION[], b::DOUBLE PRECISION[]) AS v(x, y)
+$$ LANGUAGE SQL IMMUTABLE PARALLEL SAFE;
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_chunks_document_embedded
+ON knowledge_base_chunks (document_id) WHERE embedding IS NOT NULL;
+
+COMMENT ON COLUMN knowledge_base_chunks.embedding IS 'Chunk embedding, only set for knowledge bases using the postgres vector store';
+COMMENT ON COLUMN knowledge_base_configs.vector_store IS 'Where chunk embeddings are stored and searched: pinecone or postgres';
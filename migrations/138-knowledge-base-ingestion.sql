@@ -0,0 +1,41 @@
+-- Migration: Knowledge base ingestion improvements
+-- Per-node chunk size targets for the structure-aware chunker, and website sources
+-- (sitemaps or crawled help centers) whose pages are ingested and re-synced on a schedule.
+
+ALTER TABLE knowledge_base_configs
+  ADD COLUMN IF NOT EXISTS chunk_target_tokens INTEGER NOT NULL DEFAULT 500,
+  ADD COLUMN IF NOT EXISTS chunk_overlap_tokens INTEGER NOT NULL DEFAULT 80;
+
+CREATE TABLE IF NOT EXISTS knowledge_base_sources (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  node_id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('sitemap', 'website')),
+  url TEXT NOT NULL,
+  max_pages INTEGER NOT NULL DEFAULT 50 CHECK (max_pages > 0),
+  sync_interval_hours INTEGER CHECK (sync_interval_hours IS NULL OR sync_interval_hours > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'syncing', 'completed', 'failed')),
+  page_count INTEGER NOT NULL DEFAULT 0,
+  last_sync_error TEXT,
+  last_synced_at TIMESTAMP,
+  next_sync_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_sources_company_node
+ON knowledge_base_sources (company_id, node_id);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_sources_next_sync
+ON knowledge_base_sources (next_sync_at) WHERE sync_interval_hours IS NOT NULL;
+
+ALTER TABLE knowledge_base_documents
+  ADD COLUMN IF NOT EXISTS source_id INTEGER REFERENCES knowledge_base_sources(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS source_url TEXT,
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_documents_source
+ON knowledge_base_documents (source_id) WHERE source_id IS NOT NULL;
+
+COMMENT ON TABLE knowledge_base_sources IS 'Websites whose pages are crawled into the knowledge base of an AI Assistant node';
+COMMENT ON COLUMN knowledge_base_documents.content_hash IS 'SHA-256 of the extracted page text, used to skip unchanged pages when a source is re-synced';
@@ -0,0 +1,31 @@
+-- Migration: Knowledge base hybrid retrieval
+-- Full-text search over chunks alongside vector search, optional reranking and citations,
+-- document tags/language used as retrieval filters, and retrieval traces on usage rows.
+
+ALTER TABLE knowledge_base_documents
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS language TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_documents_tags
+ON knowledge_base_documents USING GIN (tags);
+
+ALTER TABLE knowledge_base_chunks
+  ADD COLUMN IF NOT EXISTS section TEXT;
+
+-- The 'simple' configuration keeps product codes and SKUs as-is (no stemming or stop words)
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_chunks_fulltext
+ON knowledge_base_chunks USING GIN (to_tsvector('simple', content));
+
+ALTER TABLE knowledge_base_configs
+  ADD COLUMN IF NOT EXISTS retrieval_mode TEXT NOT NULL DEFAULT 'hybrid' CHECK (retrieval_mode IN ('vector', 'hybrid')),
+  ADD COLUMN IF NOT EXISTS rerank_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS citations_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS filter_tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS filter_by_language BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE knowledge_base_usage
+  ADD COLUMN IF NOT EXISTS trace JSONB;
+
+COMMENT ON COLUMN knowledge_base_chunks.section IS 'Heading path of the document section the chunk starts in';
+COMMENT ON COLUMN knowledge_base_configs.filter_tags IS 'When not empty, only documents with at least one of these tags are retrieved';
+COMMENT ON COLUMN knowledge_base_usage.trace IS 'Vector, keyword, fused and reranked candidates of the retrieval, for debugging answers';
@@ -0,0 +1,42 @@
+-- Migration: SLA policies on business hours calendars
+-- SLA policies reference a company business hours calendar instead of embedding their own
+-- opening hours. Embedded hours are moved into a calendar per policy before the column is dropped.
+
+ALTER TABLE sla_policies
+ADD COLUMN IF NOT EXISTS business_hours_calendar_id INTEGER REFERENCES business_hours_calendars(id) ON DELETE SET NULL;
+
+DO $$
+DECLARE
+  policy RECORD;
+  calendar_id INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sla_policies' AND column_name = 'business_hours'
+  ) THEN
+    FOR policy IN EXECUTE
+      'SELECT id, company_id, name, business_hours FROM sla_policies
+       WHERE business_hours IS NOT NULL AND business_hours_calendar_id IS NULL'
+    LOOP
+      INSERT INTO business_hours_calendars (company_id, name, description, timezone, days, holidays)
+      VALUES (
+        policy.company_id,
+        policy.name || ' (SLA)',
+        'Business hours moved from the SLA policy "' || policy.name || '"',
+        COALESCE(NULLIF(policy.business_hours->>'timezone', ''), 'UTC'),
+        policy.business_hours->'days',
+        COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('date', holiday, 'name', 'Holiday', 'source', 'manual') ORDER BY holiday)
+          FROM jsonb_array_elements_text(COALESCE(policy.business_hours->'holidays', '[]'::jsonb)) AS holiday
+        ), '[]'::jsonb)
+      )
+      RETURNING id INTO calendar_id;
+
+      UPDATE sla_policies SET business_hours_calendar_id = calendar_id WHERE id = policy.id;
+    END LOOP;
+
+    ALTER TABLE sla_policies DROP COLUMN business_hours;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN sla_policies.business_hours_calendar_id IS 'Calendar the SLA timers run on; NULL = 24/7';
@@ -22,6 +22,7 @@ import { generateWebhookVerifyToken, validateWebhookToken } from "./utils/webhoo
 import { testWebhookDelivery, getAppWebhookFieldSubscriptions } from "./services/meta-webhook-configurator";
 import { checkConfigurationHealth } from "./services/meta-configuration-monitor";
 import { cleanupOldAuthBackground } from "./utils/file-system";
+import { conversationAssignmentService } from "./services/conversation-assignment-service";
 
 interface SMTPConfig {
   enabled: boolean;
@@ -584,6 +585,10 @@ function registerAdminRoutes(app: Express) {
         active: active !== undefined ? !!active : undefined
       });
 
+      if (existingUser.companyId && existingUser.active !== false && updatedUser.active === false) {
+        await conversationAssignmentService.handleAgentRemoved(userId, existingUser.companyId);
+      }
+
       const { password, ...safeUser } = updatedUser;
 
       res.json(safeUser);
@@ -4029,6 +4034,21 @@ function registerAdminRoutes(app: Express) {
     }
   });
 
+  app.get("/api/admin/backup/s3/status", ensureSuperAdmin, async (_req, res) => {
+    try {
+      const { S3StorageProvider } = await import('./services/storage-providers/s3-storage-provider');
+      const s3Provider = new S3StorageProvider();
+
+      res.json({
+        ...s3Provider.getStatus(),
+        available: await s3Provider.isAvailable()
+      });
+    } catch (error) {
+
+      res.status(500).json({ error: "Failed to get S3 storage status" });
+    }
+  });
+
   app.get("/api/admin/backup/stats", ensureSuperAdmin, async (req, res) => {
     try {
       const { BackupService } = await import('./services/backup-service');
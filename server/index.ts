@@ -379,6 +379,15 @@ app.use((req, res, next) => {
           logger.error('campaign-scheduler', '❌ Campaign Scheduler failed to start:', error);
         }
 
+        logger.info('segments', 'Starting segment refresh scheduler...');
+        try {
+          const { SegmentRefreshScheduler } = await import('./services/segment-refresh-scheduler');
+          SegmentRefreshScheduler.getInstance().start();
+          logger.info('segments', '✅ Segment refresh scheduler started successfully');
+        } catch (error) {
+          logger.error('segments', '❌ Segment refresh scheduler failed to start:', error);
+        }
+
         logger.info('message-scheduler', 'Starting Message Scheduler...');
         try {
           const messageScheduler = (await import('./services/message-scheduler')).default;
@@ -445,6 +454,24 @@ app.use((req, res, next) => {
           logger.error('follow-up-cleanup', '❌ Follow-up Cleanup Service failed to start:', error);
         }
 
+        logger.info('sla', 'Starting SLA breach monitor...');
+        try {
+          const { slaService } = await import('./services/sla-service');
+          slaService.start();
+          logger.info('sla', '✅ SLA breach monitor started successfully');
+        } catch (error) {
+          logger.error('sla', '❌ SLA breach monitor failed to start:', error);
+        }
+
+        logger.info('webhooks', 'Starting webhook dispatcher...');
+        try {
+          const { webhookSubscriptionService } = await import('./services/webhook-subscription-service');
+          webhookSubscriptionService.start();
+          logger.info('webhooks', '✅ Webhook dispatcher started successfully');
+        } catch (error) {
+          logger.error('webhooks', '❌ Webhook dispatcher failed to start:', error);
+        }
+
         logger.info('trials', 'Trial management available via API endpoints');
 
         logger.info('license', 'Checking license status...');
@@ -533,6 +560,44 @@ app.use((req, res, next) => {
           logger.error('tiktok-retention', '❌ TikTok Data Retention Policy Worker failed to start:', error);
         }
 
+        logger.info('data-retention', 'Starting data retention policy worker...');
+        try {
+          const { dataRetentionService } = await import('./services/data-retention-service');
+          dataRetentionService.start();
+          logger.info('data-retention', '✅ Data retention policy worker scheduled (daily at 3 AM)');
+        } catch (error) {
+          logger.error('data-retention', '❌ Data retention policy worker failed to start:', error);
+        }
+
+        logger.info('knowledge-base-sync', 'Starting knowledge base source sync monitor...');
+        try {
+          const { knowledgeBaseSyncService } = await import('./services/knowledge-base-sync-service');
+          knowledgeBaseSyncService.start();
+          logger.info('knowledge-base-sync', '✅ Knowledge base source sync monitor started');
+        } catch (error) {
+          logger.error('knowledge-base-sync', '❌ Knowledge base source sync monitor failed to start:', error);
+        }
+
+        logger.info('media-storage', 'Starting media offload sweeper...');
+        try {
+          const { mediaStorage } = await import('./services/media-storage');
+          mediaStorage.start();
+          if (mediaStorage.isObjectStorageEnabled()) {
+            logger.info('media-storage', '✅ Media offload sweeper started');
+          }
+        } catch (error) {
+          logger.error('media-storage', '❌ Media offload sweeper failed to start:', error);
+        }
+
+        logger.info('pipeline-automation', 'Starting pipeline idle deal monitor...');
+        try {
+          const { pipelineAutomationService } = await import('./services/pipeline-automation-service');
+          pipelineAutomationService.start();
+          logger.info('pipeline-automation', '✅ Pipeline idle deal monitor started');
+        } catch (error) {
+          logger.error('pipeline-automation', '❌ Pipeline idle deal monitor failed to start:', error);
+        }
+
       } catch (error) {
         logger.error('startup', 'Error during service initialization', error);
       }
@@ -20,7 +20,11 @@ import {
   Pipeline,
   InsertPipeline,
   PipelineStage,
-  InsertPipelineStage
+  InsertPipelineStage,
+  DealCurrencySettings,
+  DEAL_REQUIRED_FIELDS,
+  customFieldEntityTypes,
+  customFieldTypes
 } from "@shared/schema";
 import crypto, { randomBytes, scrypt, timingSafeEqual } from "crypto";
 import dns from "dns";
@@ -84,6 +88,21 @@ import planRenewalRoutes from "./routes/plan-renewal";
 import companyAiCredentialsRoutes from "./routes/company-ai-credentials";
 import companyDataUsageRoutes from "./routes/company-data-usage";
 import quickReplyRoutes from "./routes/quick-replies";
+import conversationAssignmentRoutes from "./routes/conversation-assignment";
+import slaPolicyRoutes from "./routes/sla-policies";
+import businessHoursRoutes from "./routes/business-hours";
+import webhookSubscriptionRoutes from "./routes/webhook-subscriptions";
+import customChannelRoutes from "./routes/custom-channels";
+import searchRoutes from "./routes/search";
+import dataSubjectRequestRoutes from "./routes/data-subject-requests";
+import dataRetentionRoutes from "./routes/data-retention";
+import dealForecastRoutes from "./routes/deal-forecast";
+import productRoutes from "./routes/products";
+import dealCurrencyRoutes from "./routes/deal-currencies";
+import dealLineItemRoutes from "./routes/deal-line-items";
+import pipelineAutomationRoutes from "./routes/pipeline-automations";
+import flowVersionRoutes from "./routes/flow-versions";
+import satisfactionSurveyRoutes from "./routes/satisfaction-surveys";
 import openRouterRoutes from "./routes/openrouter";
 import whatsappTemplatesRoutes from "./routes/whatsapp-templates";
 import callAgentRoutes from "./routes/call-agent-routes";
@@ -93,7 +112,9 @@ import messengerService from "./services/channels/messenger";
 import TikTokService from "./services/channels/tiktok";
 import emailService from "./services/channels/email";
 import webchatService from "./services/channels/webchat";
+import { webchatRealtime, WEBCHAT_SOCKET_PATH } from "./services/channels/webchat-realtime";
 import whatsAppService, { downloadAndSaveMedia, getConnection as getWhatsAppConnection } from "./services/channels/whatsapp";
+import { withoutSigningSecret } from "./services/channels/custom-channel";
 import whatsAppOfficialService, { downloadAndSaveMedia as downloadWhatsAppOfficialMedia } from "./services/channels/whatsapp-official";
 import whatsAppMetaPartnerService from "./services/channels/whatsapp-meta-partner";
 import { configureWebhookForWABA, subscribeToWebhookFields, retryWebhookConfiguration } from "./services/meta-webhook-configurator";
@@ -101,6 +122,7 @@ import * as metaGraphAPI from "./services/meta-graph-api";
 import { generateApiKey, hashApiKey } from "./middleware/api-auth";
 import apiV1Routes from "./routes/api-v1";
 import channelManager from "./services/channel-manager";
+import { channelAdapterRegistry } from "./services/channel-adapters/channel-adapter-registry";
 import {
   sendTeamInvitation,
   testSmtpConfig,
@@ -118,8 +140,15 @@ import { eventEmitterMonitor } from "./utils/event-emitter-monitor";
 import { inboxBackupService } from "./services/inbox-backup";
 import { inboxBackupSchedulerService } from "./services/inbox-backup-scheduler";
 import { dataUsageTracker } from "./services/data-usage-tracker";
+import { mediaStorage } from "./services/media-storage";
+import { conversationAssignmentService } from "./services/conversation-assignment-service";
+import { slaService } from "./services/sla-service";
+import { satisfactionSurveyService } from "./services/satisfaction-survey-service";
 
 import { smartWebSocketBroadcaster } from "./utils/smart-websocket-broadcaster";
+import { resolveContactCustomFields } from "./utils/contact-custom-fields";
+import { getMissingRequiredFields, isMissingRequiredFieldsError } from "./utils/deal-required-fields";
+import { formatCustomFieldValue, toCustomFieldName } from "@shared/utils/custom-fields";
 
 
 const scryptAsync = promisify(scrypt);
@@ -145,6 +174,24 @@ const validateBody = (schema: any, body: any) => {
   return result.data;
 };
 
+/**
+ * Stage win probability from a request body: omitted, null (use the stage default) or 0-100
+ */
+const isValidWinProbability = (value: unknown) =>
+  value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 100);
+
+/**
+ * Stage required fields from a request body: omitted or a list of DEAL_REQUIRED_FIELDS
+ */
+const isValidRequiredFields = (value: unknown) =>
+  value === undefined || (Array.isArray(value) && value.every(field => (DEAL_REQUIRED_FIELDS as readonly unknown[]).includes(field)));
+
+/**
+ * Deal currency from a request body: omitted, null (company base currency) or an ISO 4217 code
+ */
+const isValidCurrencyCode = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && /^[A-Z]{3}$/.test(value));
+
 const linkPreviewSchema = z.object({
   url: z.string().url({ message: "Invalid URL format" }).min(1, "URL is required")
 });
@@ -681,6 +728,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.use('/api/quick-replies', ensureAuthenticated, quickReplyRoutes);
 
+  app.use('/api/conversation-assignment', ensureAuthenticated, conversationAssignmentRoutes);
+
+  app.use('/api/sla-policies', ensureAuthenticated, slaPolicyRoutes);
+  app.use('/api/business-hours', ensureAuthenticated, businessHoursRoutes);
+  app.use('/api/webhook-subscriptions', ensureAuthenticated, webhookSubscriptionRoutes);
+  app.use('/api/custom-channels', ensureAuthenticated, customChannelRoutes);
+  app.use('/api/search', ensureAuthenticated, searchRoutes);
+  app.use('/api/data-subject-requests', ensureAuthenticated, dataSubjectRequestRoutes);
+  app.use('/api/data-retention', ensureAuthenticated, dataRetentionRoutes);
+  app.use('/api/deal-forecast', ensureAuthenticated, requirePermission(PERMISSIONS.VIEW_PIPELINE), dealForecastRoutes);
+  app.use('/api/products', ensureAuthenticated, productRoutes);
+  app.use('/api/deal-currencies', ensureAuthenticated, dealCurrencyRoutes);
+  app.use('/api/deals/:dealId/line-items', ensureAuthenticated, dealLineItemRoutes);
+  app.use('/api/pipeline-automations', ensureAuthenticated, pipelineAutomationRoutes);
+  app.use('/api/flows', ensureAuthenticated, flowVersionRoutes);
+  app.use('/api/satisfaction-surveys', satisfactionSurveyRoutes);
+
   app.use('/api/call-agent', ensureAuthenticated, callAgentRoutes);
 
   app.use('/api/whatsapp-templates', ensureAuthenticated, whatsappTemplatesRoutes);
@@ -2065,6 +2129,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         collectEmail: !!data.collectEmail,
         collectName: data.collectName !== false,
         teamAvatars,
+        ...await webchatService.getEngagementConfig(connection),
       };
       res.json(cfg);
     } catch (e) {
@@ -2075,11 +2140,31 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
   app.post('/api/webchat/session', async (req: Request, res: Response) => {
     try {
-      const { token, visitorName, visitorEmail, visitorPhone, metadata } = req.body || {};
+      const { token, fields, consent, metadata } = req.body || {};
       const connection = await webchatService.verifyWidgetToken(token);
       if (!connection) return res.status(401).json({ error: 'Invalid token' });
-      const sessionId = 's_' + crypto.randomBytes(16).toString('hex');
-      await webchatService.registerSession(connection.id, connection.companyId, sessionId, visitorName, visitorEmail, visitorPhone);
+      const data = (connection.connectionData || {}) as any;
+
+      // The legacy inline widget posts visitor details without a form; configured forms are always enforced
+      const { submission, error } = fields || data.prechatForm
+        ? webchatService.validatePrechat(webchatService.getPrechatForm(data), fields, consent)
+        : {
+          submission: {
+            visitorName: req.body.visitorName,
+            visitorEmail: req.body.visitorEmail,
+            visitorPhone: req.body.visitorPhone,
+            customFields: {}
+          },
+          error: undefined
+        };
+      if (!submission) return res.status(400).json({ error });
+
+      const { visitorName, visitorEmail, visitorPhone } = submission;
+      const sessionId = webchatService.createSessionId();
+      await webchatService.registerSession(connection.id, connection.companyId, sessionId, visitorName, visitorEmail, visitorPhone, {
+        submission,
+        visitorMetadata: webchatService.normalizeVisitorMetadata(metadata)
+      });
 
       await webchatService.processWebhook({
         token,
@@ -2143,6 +2228,82 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
   });
 
 
+  app.post('/api/webchat/page-view', async (req: Request, res: Response) => {
+    try {
+      const { token, sessionId, page } = req.body || {};
+      const connection = await webchatService.verifyWidgetToken(token);
+      if (!connection) return res.status(401).json({ error: 'Invalid token' });
+      if (!sessionId) return res.status(400).json({ error: 'Missing sessionId' });
+
+      const recorded = await webchatService.recordPageView(connection, String(sessionId), page);
+      res.json({ success: recorded });
+    } catch (e) {
+      res.status(500).json({ error: 'Failed to record page view' });
+    }
+  });
+
+
+  app.post('/api/webchat/offline-message', async (req: Request, res: Response) => {
+    try {
+      const { token, sessionId, name, email, message, metadata } = req.body || {};
+      const connection = await webchatService.verifyWidgetToken(token);
+      if (!connection) return res.status(401).json({ error: 'Invalid token' });
+
+      const result = await webchatService.submitOfflineMessage(connection, { sessionId, name, email, message, metadata });
+      if (result.error) return res.status(400).json({ error: result.error });
+      res.json({ success: true, sessionId: result.sessionId });
+    } catch (e) {
+      res.status(500).json({ error: 'Failed to send offline message' });
+    }
+  });
+
+
+  /**
+   * Server-sent events stream for widgets that cannot open a WebSocket
+   */
+  app.get('/api/webchat/events/:sessionId', async (req: Request, res: Response) => {
+    try {
+      await webchatRealtime.openEventStream(req, res);
+    } catch (e) {
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to open event stream' });
+      }
+    }
+  });
+
+
+  app.post('/api/webchat/typing', async (req: Request, res: Response) => {
+    try {
+      const { token, sessionId, isTyping } = req.body || {};
+      const session = await webchatRealtime.authorize(token, sessionId);
+      if (!session) return res.status(401).json({ error: 'Invalid session' });
+
+      webchatRealtime.handleVisitorTyping(
+        { conversationId: session.conversation.id, companyId: session.connection.companyId! },
+        !!isTyping
+      );
+      res.json({ success: true });
+    } catch (e) {
+      res.status(500).json({ error: 'Failed to update typing status' });
+    }
+  });
+
+
+  app.post('/api/webchat/conversations/:id/typing', ensureAuthenticated, async (req: any, res: Response) => {
+    try {
+      const conversation = await storage.getConversation(parseInt(req.params.id));
+      if (!conversation || conversation.channelType !== 'webchat' || conversation.companyId !== req.user.companyId) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      webchatRealtime.notifyAgentTyping(conversation.id, !!req.body?.isTyping);
+      res.json({ success: true });
+    } catch (e) {
+      res.status(500).json({ error: 'Failed to update typing status' });
+    }
+  });
+
+
   app.get('/api/users/me', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Unauthorized' });
@@ -3663,7 +3824,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
       if (message.mediaUrl) {
         const mediaPath = path.join(process.cwd(), 'public', message.mediaUrl.substring(1));
-        if (await fsExtra.pathExists(mediaPath)) {
+        if (await fsExtra.pathExists(mediaPath) || await mediaStorage.exists(message.mediaUrl)) {
 
           const fetchedAt = Date.now();
           res.setHeader('X-Media-Fetched-At', fetchedAt.toString());
@@ -3952,6 +4113,11 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
           fileStream.pipe(res);
           return;
         }
+
+        const signedUrl = await mediaStorage.getSignedUrl(message.mediaUrl, generateDownloadFilename(message, message.mediaUrl));
+        if (signedUrl) {
+          return res.redirect(signedUrl);
+        }
       }
 
       if (!message.metadata) {
@@ -4175,6 +4341,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       }
     })(req, res, next);
   });
+  app.use('/uploads', mediaStorage.redirectMiddleware('uploads'));
 
 
 
@@ -6539,6 +6706,10 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
   const cleanupClient = (clientId: string) => {
     const client = clients.get(clientId);
     if (client) {
+      if (client.isAuthenticated && client.userId && client.companyId) {
+        conversationAssignmentService.markAgentOffline(client.userId, client.companyId);
+      }
+
       if (client.unsubscribeFunctions) {
         client.unsubscribeFunctions.forEach(unsubscribe => {
           try {
@@ -6636,6 +6807,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
         const client = clients.get(clientId);
         if (client) {
+          const wasAuthenticated = client.isAuthenticated;
           client.isAuthenticated = true;
           client.userId = userId;
           client.companyId = user.companyId === null ? undefined : user.companyId;
@@ -6645,6 +6817,10 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
             clearTimeout(client.authTimeout);
             client.authTimeout = undefined;
           }
+
+          if (!wasAuthenticated && client.companyId) {
+            conversationAssignmentService.markAgentOnline(userId, client.companyId);
+          }
         }
 
 
@@ -7096,6 +7272,8 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
               }
             }
 
+            const inboxAdapter = channelAdapterRegistry.getInboxAdapter(channelTypeToUse);
+
             if (channelTypeToUse === 'whatsapp' || channelTypeToUse === 'whatsapp_unofficial') {
               let recipient: string;
 
@@ -7166,6 +7344,25 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
               if (!savedMessage) {
                 throw new Error('Failed to send WhatsApp Business API message');
               }
+            } else if (inboxAdapter) {
+              if (!conversation.contactId) {
+                throw new Error('Individual conversation missing contact ID');
+              }
+              const contact = await storage.getContact(conversation.contactId);
+              const connection = await storage.getChannelConnection(channelToUse);
+              const recipient = contact?.identifier || contact?.phone;
+              if (!recipient || !connection) {
+                throw new Error(`${inboxAdapter.displayName} contact or connection not found`);
+              }
+
+              const result = await inboxAdapter.sendText(
+                { connection, recipient, userId, conversation, isFromBot, skipBroadcast: true },
+                messageContent
+              );
+              if (!result.success) {
+                throw new Error(result.error || `Failed to send ${inboxAdapter.displayName} message`);
+              }
+              savedMessage = result.data;
             } else {
               savedMessage = await storage.createMessage({
                 conversationId,
@@ -7266,6 +7463,8 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
     const message = JSON.stringify(data);
     let sentCount = 0;
 
+    webchatRealtime.forwardBroadcast(data);
+
     clients.forEach((client, clientId) => {
       if (client.isAuthenticated && client.userId && client.socket.readyState === WebSocket.OPEN) {
         if (companyId && client.companyId !== companyId) {
@@ -7358,6 +7557,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
   (global as any).broadcastToAllClients = broadcastToAll;
   (global as any).broadcastToCompany = broadcastToCompany;
   (global as any).broadcastConversationUpdate = broadcastConversationUpdate;
+  (global as any).broadcastToWebChatWidget = (event: any, sessionId: string) => webchatRealtime.publishToSession(sessionId, event);
 
 
   let globalUnsubscribeFunctions: (() => void)[] = [];
@@ -7645,6 +7845,11 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       }
 
 
+      if (pathname === WEBCHAT_SOCKET_PATH) {
+        webchatRealtime.handleUpgrade(request, socket, head);
+        return;
+      }
+
       wss.handleUpgrade(request, socket, head, (ws) => {
         wss.emit('connection', ws, request);
       });
@@ -7694,7 +7899,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
 
       const normalizeStatuses = (conns: any[]) => conns.map(c => ({
-        ...c,
+        ...withoutSigningSecret(c),
         status: (c.status === 'connected' || c.status === 'pending' || c.status === null) 
           ? 'active' 
           : (c.status === 'disconnected' ? 'inactive' : c.status)
@@ -7740,7 +7945,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
 
       const normalizeStatuses = (conns: any[]) => conns.map(c => ({
-        ...c,
+        ...withoutSigningSecret(c),
         status: (c.status === 'connected' || c.status === 'pending' || c.status === null) 
           ? 'active' 
           : (c.status === 'disconnected' ? 'inactive' : c.status)
@@ -8029,8 +8234,8 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         connectionData: {
           ...(connection.connectionData || {}),
           accessToken: undefined,
-          appSecret: undefined
-
+          appSecret: undefined,
+          signingSecret: undefined
         }
       };
 
@@ -8517,24 +8722,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.status(403).json({ message: 'You do not have permission to delete this connection' });
       }
 
-      if (connection.channelType === 'whatsapp_unofficial' || connection.channelType === 'whatsapp') {
-        await whatsAppService.disconnect(connectionId, req.user.id);
-      } else if (connection.channelType === 'whatsapp_official') {
-
-        if (!req.user || !req.user.companyId) {
-          return res.status(400).json({ message: 'Company ID is required for multi-tenant security' });
-        }
-
-        await whatsAppOfficialService.disconnect(connectionId, req.user.id, req.user.companyId);
-      } else if (connection.channelType === 'instagram') {
-        await instagramService.disconnect(connectionId, req.user.id);
-      } else if (connection.channelType === 'messenger') {
-        await messengerService.disconnect(connectionId, req.user.id);
-      } else if (connection.channelType === 'tiktok') {
-        await TikTokService.disconnectConnection(connectionId);
-      } else if (connection.channelType === 'webchat') {
-        await webchatService.disconnect(connectionId, req.user.id);
-      }
+      await channelAdapterRegistry.get(connection.channelType)?.disconnect(connection, req.user.id);
 
       const deleted = await storage.deleteChannelConnection(connectionId);
 
@@ -10064,6 +10252,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         'Updated At'
       ];
 
+      const customFieldDefinitions = await storage.getCompanyCustomFields(user.companyId, 'contact');
+      customFieldDefinitions.forEach(definition => headers.push(escapeCsvField(definition.fieldLabel)));
+
       const csvRows = [headers.join(',')];
 
       contacts.forEach(contact => {
@@ -10079,7 +10270,10 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
           escapeCsvField(contact.source),
           escapeCsvField(contact.notes),
           escapeCsvField(formatDate(contact.createdAt)),
-          escapeCsvField(formatDate(contact.updatedAt))
+          escapeCsvField(formatDate(contact.updatedAt)),
+          ...customFieldDefinitions.map(definition =>
+            escapeCsvField(formatCustomFieldValue(definition, contact.customFields?.[definition.fieldName]))
+          )
         ];
         csvRows.push(row.join(','));
       });
@@ -10270,11 +10464,25 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         }
       }
 
+      if (updateData.customFields !== undefined) {
+        const { customFields, errors } = await resolveContactCustomFields(
+          contact.companyId!,
+          updateData.customFields,
+          contact.customFields || {}
+        );
+        if (errors.length > 0) {
+          return res.status(400).json({ message: 'Invalid custom field values', errors });
+        }
+        updateData.customFields = customFields;
+      }
+
       const updatedContact = await storage.updateContact(id, updateData);
 
 
       const changedFields = Object.keys(updateData).filter(key =>
-        contact[key as keyof typeof contact] !== updateData[key]
+        key === 'customFields'
+          ? JSON.stringify(contact.customFields || {}) !== JSON.stringify(updateData.customFields)
+          : contact[key as keyof typeof contact] !== updateData[key]
       );
 
       if (changedFields.length > 0) {
@@ -10638,6 +10846,14 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         });
       }
 
+      if (req.body.customFields !== undefined) {
+        const { customFields, errors } = await resolveContactCustomFields(req.user.companyId, req.body.customFields);
+        if (errors.length > 0) {
+          return res.status(400).json({ message: 'Invalid custom field values', errors });
+        }
+        contactData.customFields = customFields;
+      }
+
       const contact = await storage.getOrCreateContact(contactData);
 
 
@@ -10971,6 +11187,19 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         });
       }
 
+      const customFieldDefinitions = await storage.getCompanyCustomFields(companyId, 'contact');
+      const customFieldColumns = new Map<number, string>();
+      headers.forEach((header, index) => {
+        const normalizedHeader = toCustomFieldName(header);
+        const definition = customFieldDefinitions.find(field =>
+          field.fieldName === normalizedHeader ||
+          field.fieldLabel.toLowerCase() === header.toLowerCase()
+        );
+        if (definition) {
+          customFieldColumns.set(index, definition.fieldName);
+        }
+      });
+
       let successful = 0;
       let failed = 0;
       const errors: string[] = [];
@@ -10979,9 +11208,15 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         try {
           const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
           const contactData: any = { companyId, createdBy: req.user.id };
+          const rowCustomFields: Record<string, string> = {};
 
           headers.forEach((header, index) => {
             const value = values[index] || '';
+            const customFieldName = customFieldColumns.get(index);
+            if (customFieldName) {
+              rowCustomFields[customFieldName] = value;
+              return;
+            }
             switch (header.toLowerCase()) {
               case 'name':
                 contactData.name = value;
@@ -11038,6 +11273,21 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
             continue;
           }
 
+          if (customFieldColumns.size > 0) {
+            const { customFields, errors: customFieldErrors } = await resolveContactCustomFields(
+              companyId,
+              rowCustomFields,
+              {},
+              customFieldDefinitions
+            );
+            if (customFieldErrors.length > 0) {
+              errors.push(`Row ${i + 1}: ${customFieldErrors.join('; ')}`);
+              failed++;
+              continue;
+            }
+            contactData.customFields = customFields;
+          }
+
           let contact: any;
           if (duplicateHandling === 'create') {
             contact = await storage.createContact(contactData);
@@ -11052,6 +11302,13 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
             contact = await storage.createContact(contactData);
           } else {
             contact = await storage.getOrCreateContact(contactData);
+
+            if (contactData.customFields && Object.keys(contactData.customFields).length > 0) {
+              const mergedCustomFields = { ...(contact.customFields || {}), ...contactData.customFields };
+              if (JSON.stringify(contact.customFields || {}) !== JSON.stringify(mergedCustomFields)) {
+                contact = await storage.updateContact(contact.id, { customFields: mergedCustomFields });
+              }
+            }
           }
 
 
@@ -11361,6 +11618,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
       const document = await storage.createContactDocument(documentData);
 
+      mediaStorage.offloadFile(req.file.path).catch(err => {
+        console.error('Failed to move contact document to object storage:', err);
+      });
 
       await logContactAudit({
         companyId,
@@ -11426,9 +11686,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
 
       try {
-        await fsExtra.unlink(document.filePath);
+        await mediaStorage.deleteMedia(document.filePath);
       } catch (fileError) {
-        console.warn('Could not delete file from filesystem:', fileError);
+        console.warn('Could not delete file from storage:', fileError);
       }
 
       await storage.deleteContactDocument(documentId);
@@ -12893,6 +13153,11 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
       await storage.markConversationAsRead(conversationId);
 
+      if (conversation.channelType === 'webchat') {
+        webchatRealtime.notifyRead(conversationId).catch(error =>
+          logger.warn('webchat', `Failed to send read receipt for conversation ${conversationId}`, error));
+      }
+
       broadcastToAll({
         type: 'unreadCountUpdated',
         data: {
@@ -14705,8 +14970,12 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.status(403).json({ error: 'You do not have permission to access this connection' });
       }
 
+      const inboxAdapter = channelAdapterRegistry.getInboxAdapter(conversation.channelType);
+
       let isConnectionActive = false;
-      if (conversation.channelType === 'whatsapp_official') {
+      if (inboxAdapter) {
+        isConnectionActive = channelConnection.status === 'active';
+      } else if (conversation.channelType === 'whatsapp_official') {
         isConnectionActive = whatsAppOfficialService.isActive?.(conversation.channelId) ?? false;
 
         if (!isConnectionActive && channelConnection.connectionData) {
@@ -14747,7 +15016,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
       if (!isConnectionActive) {
         await fsExtra.unlink(req.file.path);
-        const channelName = conversation.channelType === 'messenger' ? 'Messenger' : 'WhatsApp';
+        const channelName = inboxAdapter
+          ? inboxAdapter.displayName
+          : conversation.channelType === 'messenger' ? 'Messenger' : 'WhatsApp';
         return res.status(500).json({
           error: `${channelName} connection not active`,
           message: `The ${channelName} connection is not currently active. Please refresh the connection or try again later.`
@@ -14779,7 +15050,31 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       let convertedFilePath: string | null = null;
 
       try {
-        if (conversation.channelType === 'whatsapp_official') {
+        if (inboxAdapter?.sendMedia) {
+          const host = req.get('host') || 'localhost:9000';
+          const protocol = host.includes('localhost') ? 'http' : req.protocol;
+          const publicUrl = `${protocol}://${host}/uploads/${path.basename(req.file.path)}`;
+          const publicPath = path.join(process.cwd(), 'uploads', path.basename(req.file.path));
+
+          if (path.resolve(req.file.path) !== path.resolve(publicPath)) {
+            await fsExtra.copy(req.file.path, publicPath);
+          }
+
+          const result = await inboxAdapter.sendMedia(
+            { connection: channelConnection, recipient: contact.identifier || contact.phone || '', userId: req.user.id, conversation },
+            { type: determinedMediaType, url: publicUrl, filePath: publicPath, caption: messageCaption, filename: req.file.originalname }
+          );
+          if (!result.success) {
+            throw new Error(result.error || `Failed to send ${inboxAdapter.displayName} media message`);
+          }
+
+          if (path.resolve(req.file.path) !== path.resolve(publicPath)) {
+            await fsExtra.unlink(req.file.path);
+          }
+
+          return res.status(201).json(result.data);
+
+        } else if (conversation.channelType === 'whatsapp_official') {
           if (!req.user || !req.user.companyId) {
             await fsExtra.unlink(req.file.path);
             return res.status(400).json({ error: 'Company ID is required for multi-tenant security' });
@@ -15459,9 +15754,8 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.status(403).json({ message: 'You do not have permission to update this flow' });
       }
 
-      const updatedData = {
-        ...req.body
-      };
+      // Saving only changes the draft, the published version is moved by publish/rollback
+      const { publishedVersionId, publishedAt, ...updatedData } = req.body;
 
       const updatedFlow = await storage.updateFlow(id, updatedData);
       res.json(updatedFlow);
@@ -17887,6 +18181,10 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.status(403).json({ message: 'Access denied. You can only remove members from your own company.' });
       }
 
+      if (existingMember.companyId) {
+        await conversationAssignmentService.handleAgentRemoved(memberId, existingMember.companyId);
+      }
+
       const success = await storage.deleteUser(memberId);
 
       if (!success) {
@@ -20951,6 +21249,129 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
     }
   });
 
+  const customFieldOptionSchema = z.object({
+    value: z.string().trim().min(1).max(100),
+    label: z.string().trim().min(1).max(100)
+  });
+
+  const customFieldDefinitionSchema = z.object({
+    entity: customFieldEntityTypes,
+    fieldName: z.string().trim().max(64).optional(),
+    fieldLabel: z.string().trim().min(1).max(100),
+    fieldType: customFieldTypes,
+    options: z.array(customFieldOptionSchema).max(100).nullable().optional(),
+    required: z.boolean().optional(),
+    displayOrder: z.number().int().min(0).optional()
+  }).refine(
+    data => !['select', 'multi_select'].includes(data.fieldType) || (data.options && data.options.length > 0),
+    { message: 'Select fields require at least one option', path: ['options'] }
+  );
+
+  app.post('/api/company/custom-fields', ensureAuthenticated, requirePermission(PERMISSIONS.MANAGE_SETTINGS), async (req, res) => {
+    try {
+      const user = req.user as any;
+
+      if (!user.companyId) {
+        return res.status(400).json({ message: 'User must be associated with a company' });
+      }
+
+      const validation = customFieldDefinitionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid custom field', errors: validation.error.errors });
+      }
+
+      const data = validation.data;
+      const fieldName = toCustomFieldName(data.fieldName || data.fieldLabel);
+      if (!fieldName) {
+        return res.status(400).json({ message: 'Field name must contain letters or numbers' });
+      }
+
+      const existingFields = await storage.getCompanyCustomFields(user.companyId, data.entity);
+      if (existingFields.some(field => field.fieldName === fieldName)) {
+        return res.status(409).json({ message: `A custom field named "${fieldName}" already exists` });
+      }
+
+      const customField = await storage.createCompanyCustomField({
+        companyId: user.companyId,
+        entity: data.entity,
+        fieldName,
+        fieldType: data.fieldType,
+        fieldLabel: data.fieldLabel,
+        options: ['select', 'multi_select'].includes(data.fieldType) ? data.options : null,
+        required: data.required,
+        displayOrder: data.displayOrder ?? existingFields.length
+      });
+
+      return res.status(201).json(customField);
+    } catch (error) {
+      console.error('Error creating custom field:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.patch('/api/company/custom-fields/:id', ensureAuthenticated, requirePermission(PERMISSIONS.MANAGE_SETTINGS), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const id = parseInt(req.params.id);
+
+      const existing = await storage.getCompanyCustomField(id);
+      if (!existing || existing.companyId !== user.companyId) {
+        return res.status(404).json({ message: 'Custom field not found' });
+      }
+
+      const validation = customFieldDefinitionSchema.safeParse({
+        entity: existing.entity,
+        fieldType: existing.fieldType,
+        fieldLabel: existing.fieldLabel,
+        options: existing.options,
+        ...req.body
+      });
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid custom field', errors: validation.error.errors });
+      }
+
+      const { fieldLabel, fieldType, options, required, displayOrder } = validation.data;
+      if (fieldType !== existing.fieldType && existing.entity === 'contact') {
+        return res.status(400).json({ message: 'The type of an existing contact field cannot be changed' });
+      }
+
+      const customField = await storage.updateCompanyCustomField(id, {
+        fieldLabel,
+        fieldType,
+        options: ['select', 'multi_select'].includes(fieldType) ? options ?? null : null,
+        ...(required !== undefined && { required }),
+        ...(displayOrder !== undefined && { displayOrder })
+      });
+
+      return res.status(200).json(customField);
+    } catch (error) {
+      console.error('Error updating custom field:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/company/custom-fields/:id', ensureAuthenticated, requirePermission(PERMISSIONS.MANAGE_SETTINGS), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const id = parseInt(req.params.id);
+
+      const existing = await storage.getCompanyCustomField(id);
+      if (!existing || existing.companyId !== user.companyId) {
+        return res.status(404).json({ message: 'Custom field not found' });
+      }
+
+      const deleted = await storage.deleteCompanyCustomField(id);
+      if (!deleted) {
+        return res.status(500).json({ message: 'Failed to delete custom field' });
+      }
+
+      return res.status(200).json({ message: 'Custom field deleted' });
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   app.get('/api/deals/stage/:stage', ensureAuthenticated, async (req, res) => {
     try {
       const { stage } = req.params;
@@ -21058,17 +21479,31 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       );
       const contactsMap = new Map(contacts.filter(Boolean).map(c => [c!.id, c]));
 
+      const { dealProductsService } = await import('./services/deal-products-service');
+      const lineItemSummaries = await dealProductsService.getLineItemSummaries(deals.map(deal => deal.id));
+      const currencySettings = new Map<number, DealCurrencySettings>();
+      for (const companyId of Array.from(new Set(deals.map(deal => deal.companyId).filter((id): id is number => !!id)))) {
+        currencySettings.set(companyId, await dealProductsService.getCurrencySettings(companyId));
+      }
+
 
       const enrichedDeals = deals.map(deal => {
         const stage = stages.find(s => s.id === deal.stageId);
         const assignee = teamMembers.find((m: any) => m.id === deal.assignedToUserId);
         const contact = contactsMap.get(deal.contactId);
+        const settings = deal.companyId ? currencySettings.get(deal.companyId) : undefined;
+        const lineItems = lineItemSummaries.get(deal.id);
 
         return {
           id: deal.id,
           title: deal.title,
           description: deal.description,
           value: deal.value,
+          currency: deal.currency || settings?.baseCurrency || '',
+          baseCurrency: settings?.baseCurrency || '',
+          baseValue: settings && deal.value !== null ? dealProductsService.toBase(deal.value, deal.currency, settings) : null,
+          lineItemCount: lineItems?.count || 0,
+          lineItemsTotal: lineItems?.total ?? null,
           priority: deal.priority,
           contactId: deal.contactId,
           contactName: contact?.name || '',
@@ -21095,13 +21530,18 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.json(enrichedDeals);
       } else if (format === 'csv') {
 
-        const csvHeader = 'id,title,description,value,priority,contactId,contactName,contactEmail,contactPhone,assignedToUserId,assignedToEmail,assignedToName,tags,pipelineId,pipelineName,stage,stageId,createdAt,updatedAt\n';
+        const csvHeader = 'id,title,description,value,currency,baseValue,baseCurrency,lineItemCount,lineItemsTotal,priority,contactId,contactName,contactEmail,contactPhone,assignedToUserId,assignedToEmail,assignedToName,tags,pipelineId,pipelineName,stage,stageId,createdAt,updatedAt\n';
         const csvData = enrichedDeals.map(deal => {
           return [
             deal.id,
             `"${deal.title || ''}"`,
             `"${deal.description || ''}"`,
             deal.value || 0,
+            deal.currency,
+            deal.baseValue ?? '',
+            deal.baseCurrency,
+            deal.lineItemCount,
+            deal.lineItemsTotal ?? '',
             deal.priority || '',
             deal.contactId || '',
             `"${deal.contactName || ''}"`,
@@ -21126,13 +21566,18 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       } else if (format === 'excel') {
 
 
-        const csvHeader = 'id,title,description,value,priority,contactId,contactName,contactEmail,contactPhone,assignedToUserId,assignedToEmail,assignedToName,tags,pipelineId,pipelineName,stage,stageId,createdAt,updatedAt\n';
+        const csvHeader = 'id,title,description,value,currency,baseValue,baseCurrency,lineItemCount,lineItemsTotal,priority,contactId,contactName,contactEmail,contactPhone,assignedToUserId,assignedToEmail,assignedToName,tags,pipelineId,pipelineName,stage,stageId,createdAt,updatedAt\n';
         const csvData = enrichedDeals.map(deal => {
           return [
             deal.id,
             `"${deal.title || ''}"`,
             `"${deal.description || ''}"`,
             deal.value || 0,
+            deal.currency,
+            deal.baseValue ?? '',
+            deal.baseCurrency,
+            deal.lineItemCount,
+            deal.lineItemsTotal ?? '',
             deal.priority || '',
             deal.contactId || '',
             `"${deal.contactName || ''}"`,
@@ -21194,6 +21639,10 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.status(400).json({ message: 'Deal title is required' });
       }
 
+      if (!isValidCurrencyCode(req.body.currency)) {
+        return res.status(400).json({ message: 'Currency must be a 3-letter ISO code' });
+      }
+
       if (!user.companyId) {
         return res.status(400).json({ message: 'User must be associated with a company' });
       }
@@ -21290,6 +21739,10 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.status(400).json({ message: 'Contact ID is required' });
       }
 
+      if (isMissingRequiredFieldsError(error)) {
+        return res.status(400).json({ message: error.message, missingFields: error.missingFields });
+      }
+
       if (error.message === 'Deal title is required') {
         return res.status(400).json({ message: 'Deal title is required' });
       }
@@ -21309,6 +21762,11 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
   app.patch('/api/deals/:id', ensureAuthenticated, async (req, res) => {
     try {
       const dealId = parseInt(req.params.id);
+
+      if (!isValidCurrencyCode(req.body.currency)) {
+        return res.status(400).json({ message: 'Currency must be a 3-letter ISO code' });
+      }
+
       const updatedDeal = await storage.updateDeal(dealId, req.body);
 
       await storage.createDealActivity({
@@ -21322,6 +21780,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       return res.status(200).json(updatedDeal);
     } catch (error) {
       console.error(`Error updating deal ${req.params.id}:`, error);
+      if (isMissingRequiredFieldsError(error)) {
+        return res.status(400).json({ message: error.message, missingFields: error.missingFields });
+      }
       res.status(500).json({ message: 'Internal server error' });
     }
   });
@@ -21389,6 +21850,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       return res.status(200).json(updatedDeal);
     } catch (error) {
       console.error(`Error updating stage ID for deal ${req.params.id}:`, error);
+      if (isMissingRequiredFieldsError(error)) {
+        return res.status(400).json({ message: error.message, missingFields: error.missingFields });
+      }
       res.status(500).json({ message: 'Internal server error' });
     }
   });
@@ -21687,6 +22151,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       return res.status(200).json(updatedDeal);
     } catch (error) {
       console.error(`Error moving deal ${req.params.id} to different pipeline:`, error);
+      if (isMissingRequiredFieldsError(error)) {
+        return res.status(400).json({ message: error.message, missingFields: error.missingFields });
+      }
       if (error instanceof Error && error.message.includes('not found')) {
         return res.status(404).json({ message: error.message });
       }
@@ -21872,6 +22339,23 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.status(400).json({ message: 'stageId must be a valid number' });
       }
 
+      // Storage checks required fields per deal; checking all of them first avoids moving only part of the selection
+      const targetStage = await storage.getPipelineStage(stageId);
+      if (targetStage && targetStage.requiredFields.length > 0) {
+        for (const dealId of dealIds) {
+          const deal = await storage.getDeal(parseInt(dealId));
+          if (!deal || deal.stageId === stageId) continue;
+          const missingFields = getMissingRequiredFields(deal, targetStage);
+          if (missingFields.length > 0) {
+            return res.status(400).json({
+              message: `Deal "${deal.title}" needs ${missingFields.join(', ')} before it can move to ${targetStage.name}`,
+              dealId: deal.id,
+              missingFields
+            });
+          }
+        }
+      }
+
 
       const updatePromises = dealIds.map(dealId => {
         const parsedDealId = parseInt(dealId);
@@ -22329,13 +22813,21 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
   app.post('/api/pipeline/stages', ensureAuthenticated, async (req, res) => {
     try {
-      const { name, color, order, pipelineId } = req.body;
+      const { name, color, order, pipelineId, winProbability, requiredFields } = req.body;
       const user = req.user as any;
 
       if (!name) {
         return res.status(400).json({ message: 'Stage name is required' });
       }
 
+      if (!isValidWinProbability(winProbability)) {
+        return res.status(400).json({ message: 'Win probability must be a whole number from 0 to 100' });
+      }
+
+      if (!isValidRequiredFields(requiredFields)) {
+        return res.status(400).json({ message: `Required fields must be any of: ${DEAL_REQUIRED_FIELDS.join(', ')}` });
+      }
+
       if (!pipelineId) {
         return res.status(400).json({ message: 'pipelineId is required' });
       }
@@ -22359,7 +22851,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         companyId: user.companyId,
         name,
         color: color || '#3a86ff',
-        order: order || 0
+        order: order || 0,
+        winProbability: winProbability ?? null,
+        requiredFields: requiredFields ?? []
       });
 
 
@@ -22377,9 +22871,17 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
   app.put('/api/pipeline/stages/:id', ensureAuthenticated, async (req, res) => {
     try {
       const stageId = parseInt(req.params.id);
-      const { name, color, order, pipelineId } = req.body;
+      const { name, color, order, pipelineId, winProbability, requiredFields } = req.body;
       const user = req.user as any;
 
+      if (!isValidWinProbability(winProbability)) {
+        return res.status(400).json({ message: 'Win probability must be a whole number from 0 to 100' });
+      }
+
+      if (!isValidRequiredFields(requiredFields)) {
+        return res.status(400).json({ message: `Required fields must be any of: ${DEAL_REQUIRED_FIELDS.join(', ')}` });
+      }
+
       const stage = await storage.getPipelineStage(stageId);
 
       if (!stage) {
@@ -22398,7 +22900,9 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       const updatedStage = await storage.updatePipelineStage(stageId, {
         name: name !== undefined ? name : stage.name,
         color: color !== undefined ? color : stage.color,
-        order: order !== undefined ? order : stage.order
+        order: order !== undefined ? order : stage.order,
+        winProbability: winProbability !== undefined ? winProbability : stage.winProbability,
+        requiredFields: requiredFields !== undefined ? requiredFields : stage.requiredFields
       });
 
 
@@ -23161,6 +23665,10 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
       const messagesByChannel = await storage.getMessagesByChannelByCompany(user.companyId);
 
 
+      const sla = await slaService.getAttainment(user.companyId, startDate, endDate);
+      const satisfaction = await satisfactionSurveyService.getReport(user.companyId, startDate, endDate);
+
+
       const queryMetadata = {
         period: {
           start: startDate.toISOString(),
@@ -23186,6 +23694,8 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         conversationsByDay,
         channelDistribution: channelDistributionData,
         messagesByChannel,
+        sla,
+        satisfaction,
         metadata: queryMetadata
       });
     } catch (error) {
@@ -23969,6 +24479,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         mediaType,
         caption,
         timezone = 'UTC',
+        businessHoursCalendarId = null,
         metadata = {}
       } = req.body;
 
@@ -24002,6 +24513,14 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         return res.status(404).json({ message: 'Channel connection not found' });
       }
 
+      if (businessHoursCalendarId) {
+        const { businessHoursService } = await import('./services/business-hours-service');
+        const calendar = await businessHoursService.getCompanyCalendar(conversation.companyId, Number(businessHoursCalendarId));
+        if (!calendar) {
+          return res.status(400).json({ message: 'Business hours calendar not found' });
+        }
+      }
+
       const { ScheduledMessageService } = await import('./services/scheduled-message-service');
 
       const scheduledMessage = await ScheduledMessageService.createScheduledMessage({
@@ -24017,6 +24536,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
         caption,
         scheduledFor: scheduledDate,
         timezone,
+        businessHoursCalendarId: businessHoursCalendarId ? Number(businessHoursCalendarId) : null,
         metadata,
         createdBy: req.user.id
       });
@@ -24146,6 +24666,7 @@ elSend.onclick=async()=>{const v=(elInput).value.trim();if(!v)return;push('out',
 
     express.static(mediaDir)(req, res, next);
   });
+  app.use('/media', mediaStorage.redirectMiddleware('media'));
 
   const emailAttachmentsDir = path.join(process.cwd(), 'public', 'email-attachments');
   app.use('/email-attachments', (req, res, next) => {
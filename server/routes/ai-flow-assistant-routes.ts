@@ -17,7 +17,8 @@ const chatRequestSchema = z.object({
     content: z.string(),
     timestamp: z.string().transform(str => new Date(str))
   })).default([]),
-  credentialSource: z.enum(['auto', 'company', 'system']).default('auto')
+  credentialSource: z.enum(['auto', 'company', 'system']).default('auto'),
+  provider: z.enum(['openai', 'openai_compatible']).default('openai')
 });
 
 const flowAnalysisSchema = z.object({
@@ -0,0 +1,267 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ensureAuthenticated, ensureAdmin } from '../middleware';
+import { storage } from '../storage';
+import { businessHoursService } from '../services/business-hours-service';
+import { OUT_OF_OFFICE_CHANNEL_TYPES, outOfOfficeService } from '../services/out-of-office-service';
+import { isValidBusinessHours, parseTimeOfDay } from '../utils/business-hours';
+
+const router = Router();
+
+const MAX_ICAL_LENGTH = 2 * 1024 * 1024;
+
+const timeOfDaySchema = z.string().refine(value => parseTimeOfDay(value) !== null, {
+  message: 'Time must use the HH:mm format'
+});
+
+const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Holiday dates must use the YYYY-MM-DD format'),
+  name: z.string().trim().max(200).default(''),
+  source: z.enum(['manual', 'ical']).default('manual')
+});
+
+const calendarSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  timezone: z.string().min(1),
+  days: z.array(z.object({
+    enabled: z.boolean(),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema
+  })).length(7),
+  holidays: z.array(holidaySchema).max(1000).default([]),
+  isDefault: z.boolean().default(false)
+}).refine(data => isValidBusinessHours({ timezone: data.timezone, days: data.days }), {
+  message: 'Business hours need a valid timezone and at least one open day'
+});
+
+const icalImportSchema = z.object({
+  content: z.string().min(1).max(MAX_ICAL_LENGTH),
+  replaceImported: z.boolean().default(true)
+});
+
+const outOfOfficeSchema = z.object({
+  calendarId: z.number().int().positive(),
+  isEnabled: z.boolean().default(true),
+  message: z.string().trim().min(1).max(4096),
+  cooldownMinutes: z.number().int().min(0).max(60 * 24 * 7).default(240)
+});
+
+const parseId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+/**
+ * Channel connection of the requesting user's company that supports out-of-office replies
+ */
+async function loadConnection(req: any, res: any) {
+  const connectionId = parseId(req.params.connectionId);
+  if (connectionId === null) {
+    res.status(400).json({ success: false, error: 'Invalid channel connection ID' });
+    return null;
+  }
+
+  const connection = await storage.getChannelConnection(connectionId);
+  if (!connection || connection.companyId !== req.user.companyId) {
+    res.status(404).json({ success: false, error: 'Channel connection not found' });
+    return null;
+  }
+
+  return connection;
+}
+
+/**
+ * Calendar of the requesting user's company
+ */
+async function loadCalendar(req: any, res: any) {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    res.status(400).json({ success: false, error: 'Invalid calendar ID' });
+    return null;
+  }
+
+  const calendar = await businessHoursService.getCalendar(id);
+  if (!calendar || calendar.companyId !== req.user.companyId) {
+    res.status(404).json({ success: false, error: 'Business hours calendar not found' });
+    return null;
+  }
+
+  return calendar;
+}
+
+router.get('/out-of-office', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const replies = await outOfOfficeService.getReplies(req.user.companyId);
+    res.json({ success: true, data: replies, channelTypes: OUT_OF_OFFICE_CHANNEL_TYPES });
+  } catch (error) {
+    console.error('Error fetching out-of-office replies:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch out-of-office replies' });
+  }
+});
+
+router.put('/out-of-office/:connectionId', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const connection = await loadConnection(req, res);
+    if (!connection) return;
+
+    if (!OUT_OF_OFFICE_CHANNEL_TYPES.includes(connection.channelType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Out-of-office replies are not supported on ${connection.channelType} channels`
+      });
+    }
+
+    const validation = outOfOfficeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid out-of-office reply',
+        details: validation.error.errors
+      });
+    }
+
+    const calendar = await businessHoursService.getCompanyCalendar(req.user.companyId, validation.data.calendarId);
+    if (!calendar) {
+      return res.status(400).json({ success: false, error: 'Unknown business hours calendar' });
+    }
+
+    const reply = await outOfOfficeService.saveReply(req.user.companyId, connection.id, validation.data);
+    res.json({ success: true, data: reply });
+  } catch (error) {
+    console.error('Error saving out-of-office reply:', error);
+    res.status(500).json({ success: false, error: 'Failed to save out-of-office reply' });
+  }
+});
+
+router.delete('/out-of-office/:connectionId', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const connection = await loadConnection(req, res);
+    if (!connection) return;
+
+    await outOfOfficeService.deleteReply(connection.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting out-of-office reply:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete out-of-office reply' });
+  }
+});
+
+router.get('/', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const calendars = await businessHoursService.getCalendars(req.user.companyId);
+    const now = new Date();
+    res.json({
+      success: true,
+      data: calendars.map(calendar => ({ ...calendar, isOpen: businessHoursService.isOpen(calendar, now) }))
+    });
+  } catch (error) {
+    console.error('Error fetching business hours calendars:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch business hours calendars' });
+  }
+});
+
+/**
+ * GET /api/business-hours/:id/status
+ * Whether the calendar is open now and when it next opens
+ */
+router.get('/:id/status', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const calendar = await loadCalendar(req, res);
+    if (!calendar) return;
+
+    const now = new Date();
+    res.json({
+      success: true,
+      data: {
+        isOpen: businessHoursService.isOpen(calendar, now),
+        nextOpening: businessHoursService.getNextOpening(calendar, now)
+      }
+    });
+  } catch (error) {
+    console.error('Error checking business hours:', error);
+    res.status(500).json({ success: false, error: 'Failed to check business hours' });
+  }
+});
+
+router.post('/', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = calendarSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid business hours calendar',
+        details: validation.error.errors
+      });
+    }
+
+    const calendar = await businessHoursService.createCalendar(req.user.companyId, validation.data);
+    res.status(201).json({ success: true, data: calendar });
+  } catch (error) {
+    console.error('Error creating business hours calendar:', error);
+    res.status(500).json({ success: false, error: 'Failed to create business hours calendar' });
+  }
+});
+
+router.put('/:id', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const existing = await loadCalendar(req, res);
+    if (!existing) return;
+
+    const validation = calendarSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid business hours calendar',
+        details: validation.error.errors
+      });
+    }
+
+    const calendar = await businessHoursService.updateCalendar(existing.id, validation.data);
+    res.json({ success: true, data: calendar });
+  } catch (error) {
+    console.error('Error updating business hours calendar:', error);
+    res.status(500).json({ success: false, error: 'Failed to update business hours calendar' });
+  }
+});
+
+/**
+ * POST /api/business-hours/:id/import-ical
+ * Add the events of an iCalendar (.ics) file as holidays
+ */
+router.post('/:id/import-ical', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const calendar = await loadCalendar(req, res);
+    if (!calendar) return;
+
+    const validation = icalImportSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: 'Provide the contents of an .ics file' });
+    }
+
+    if (!validation.data.content.includes('BEGIN:VCALENDAR')) {
+      return res.status(400).json({ success: false, error: 'The file is not an iCalendar file' });
+    }
+
+    const result = await businessHoursService.importICal(calendar, validation.data.content, validation.data.replaceImported);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error importing iCal holidays:', error);
+    res.status(500).json({ success: false, error: 'Failed to import holidays' });
+  }
+});
+
+router.delete('/:id', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const calendar = await loadCalendar(req, res);
+    if (!calendar) return;
+
+    await businessHoursService.deleteCalendar(calendar.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting business hours calendar:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete business hours calendar' });
+  }
+});
+
+export default router;
@@ -4,6 +4,7 @@ import path from 'path';
 import fs from 'fs-extra';
 import crypto from 'crypto';
 import { CampaignService } from '../services/campaignService.js';
+import { parseSegmentRules } from '../services/segment-rules.js';
 import { requirePermission, requireAnyPermission } from '../middleware.js';
 import { db } from '../db.js';
 import { campaigns, campaignRecipients, campaignQueue, campaignMessages, contacts, channelConnections, whatsappAccounts } from '../../shared/schema.js';
@@ -412,6 +413,13 @@ router.post('/segments/preview', requireAnyPermission(['view_campaigns', 'manage
       return res.status(400).json({ success: false, error: 'Criteria is required' });
     }
 
+    if (criteria.rules) {
+      try {
+        criteria.rules = parseSegmentRules(criteria.rules);
+      } catch (error) {
+        return res.status(400).json({ success: false, error: getErrorMessage(error) });
+      }
+    }
 
 
     const tempSegment = {
@@ -745,6 +753,52 @@ router.get('/:id/analytics', requireAnyPermission(['view_campaign_analytics']),
 });
 
 
+router.get('/:id/ab-test', requireAnyPermission(['view_campaigns', 'view_campaign_analytics']), async (req, res) => {
+  try {
+    const companyId = req.user?.companyId;
+    const campaignId = parseInt(req.params.id);
+
+    if (!companyId) {
+      return res.status(400).json({ success: false, error: 'Company ID required' });
+    }
+
+    if (isNaN(campaignId)) {
+      return res.status(400).json({ success: false, error: 'Invalid campaign ID' });
+    }
+
+    const results = await campaignService.getAbTestResults(companyId, campaignId);
+    res.json({ success: true, data: results });
+  } catch (error) {
+    console.error('Error fetching A/B test results:', error);
+    res.status(500).json({ success: false, error: getErrorMessage(error) });
+  }
+});
+
+
+router.post('/:id/ab-test/winner', requireAnyPermission(['edit_campaigns']), async (req, res) => {
+  try {
+    const companyId = req.user?.companyId;
+    const campaignId = parseInt(req.params.id);
+    const variantId = typeof req.body?.variantId === 'string' ? req.body.variantId : undefined;
+
+    if (!companyId) {
+      return res.status(400).json({ success: false, error: 'Company ID required' });
+    }
+
+    if (isNaN(campaignId)) {
+      return res.status(400).json({ success: false, error: 'Invalid campaign ID' });
+    }
+
+    const results = await campaignService.selectAbTestWinner(companyId, campaignId, variantId);
+    res.json({ success: true, data: results });
+  } catch (error) {
+    console.error('Error selecting A/B test winner:', error);
+    const errorMessage = getErrorMessage(error);
+    const isClientError = errorMessage.includes('waiting for a winner') || errorMessage.includes('Unknown variant');
+    res.status(isClientError ? 400 : 500).json({ success: false, error: errorMessage });
+  }
+});
+
 router.get('/:id/details', requireAnyPermission(['view_campaigns']), async (req, res) => {
   try {
     const companyId = req.user?.companyId;
@@ -1,23 +1,41 @@
 import { Router } from 'express';
 import { ensureAuthenticated, ensureAdmin } from '../middleware';
-import { aiCredentialsService } from '../services/ai-credentials-service';
+import { aiCredentialsService, OPENAI_COMPATIBLE_PROVIDER } from '../services/ai-credentials-service';
 import { z } from 'zod';
 
 const router = Router();
 
 
+const providerSchema = z.enum(['openai', 'openrouter', OPENAI_COMPATIBLE_PROVIDER]);
+
+/** Connection settings of a self-hosted OpenAI-compatible server, kept in the credential metadata */
+const endpointSchema = z.object({
+  baseUrl: z.string().trim().url('Base URL must be a valid URL').regex(/^https?:\/\//, 'Base URL must use http or https'),
+  authHeader: z.string().trim().regex(/^[A-Za-z0-9-]+$/, 'Invalid auth header name').optional(),
+  defaultModel: z.string().trim().min(1, 'Default model is required'),
+  embeddingModel: z.string().trim().optional()
+});
+
 const createCompanyCredentialSchema = z.object({
-  provider: z.enum(['openai', 'openrouter']),
-  apiKey: z.string().min(1, 'API key is required'),
+  provider: providerSchema,
+  apiKey: z.string().default(''),
+  metadata: endpointSchema.optional(),
   displayName: z.string().optional(),
   description: z.string().optional(),
   isActive: z.boolean().default(true),
   usageLimitMonthly: z.number().optional()
+}).refine(data => data.provider === OPENAI_COMPATIBLE_PROVIDER || data.apiKey.length > 0, {
+  message: 'API key is required',
+  path: ['apiKey']
+}).refine(data => data.provider !== OPENAI_COMPATIBLE_PROVIDER || !!data.metadata, {
+  message: 'Base URL and default model are required for an OpenAI-compatible provider',
+  path: ['metadata']
 });
 
 const updateCompanyCredentialSchema = z.object({
-  provider: z.enum(['openai', 'openrouter']).optional(),
+  provider: providerSchema.optional(),
   apiKey: z.string().optional(),
+  metadata: endpointSchema.optional(),
   displayName: z.string().optional(),
   description: z.string().optional(),
   isActive: z.boolean().optional(),
@@ -25,7 +43,7 @@ const updateCompanyCredentialSchema = z.object({
 });
 
 const updatePreferencesSchema = z.object({
-  defaultProvider: z.enum(['openai', 'openrouter']).optional(),
+  defaultProvider: providerSchema.optional(),
   credentialPreference: z.enum(['company', 'system', 'auto']).optional(),
   fallbackEnabled: z.boolean().optional(),
   usageAlertsEnabled: z.boolean().optional(),
@@ -61,16 +79,28 @@ router.get('/', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
 
 router.post('/validate', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
   try {
-    const { provider, apiKey } = req.body;
+    const { provider, apiKey, metadata } = req.body;
 
-    if (!provider || !apiKey) {
+    if (!provider || (!apiKey && provider !== OPENAI_COMPATIBLE_PROVIDER)) {
       return res.status(400).json({
         success: false,
         error: 'Provider and API key are required'
       });
     }
 
-    const validation = await aiCredentialsService.validateApiKey(provider, apiKey);
+    let endpoint;
+    if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+      const endpointValidation = endpointSchema.safeParse(metadata);
+      if (!endpointValidation.success) {
+        return res.status(400).json({
+          success: false,
+          error: endpointValidation.error.errors[0]?.message || 'Invalid endpoint settings'
+        });
+      }
+      endpoint = endpointValidation.data;
+    }
+
+    const validation = await aiCredentialsService.validateApiKey(provider, apiKey || '', endpoint);
 
     res.json({
       success: true,
@@ -86,6 +116,40 @@ router.post('/validate', ensureAuthenticated, ensureAdmin, async (req: any, res)
 });
 
 
+/**
+ * Models served by the company's self-hosted endpoint, for model pickers in the flow builder
+ */
+router.get('/openai-compatible/models', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const credentialSource = await aiCredentialsService.getCredentialForCompany(req.user.companyId, OPENAI_COMPATIBLE_PROVIDER);
+
+    if (!credentialSource?.endpoint) {
+      return res.status(404).json({
+        success: false,
+        error: 'No OpenAI-compatible endpoint configured'
+      });
+    }
+
+    const models = await aiCredentialsService.listOpenAICompatibleModels(credentialSource.apiKey, credentialSource.endpoint);
+
+    res.json({
+      success: true,
+      data: {
+        models,
+        defaultModel: credentialSource.endpoint.defaultModel,
+        embeddingModel: credentialSource.endpoint.embeddingModel
+      }
+    });
+  } catch (error) {
+    console.error('Error listing OpenAI-compatible models:', error);
+    res.status(502).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reach the OpenAI-compatible endpoint'
+    });
+  }
+});
+
+
 router.get('/preferences', ensureAuthenticated, async (req: any, res) => {
   try {
     const companyId = req.user.companyId;
@@ -0,0 +1,183 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ensureAuthenticated, ensureAdmin } from '../middleware';
+import { storage } from '../storage';
+import { conversationAssignmentService } from '../services/conversation-assignment-service';
+
+const router = Router();
+
+const strategySchema = z.enum(['round_robin', 'least_open', 'skills']);
+
+const channelRuleSchema = z.object({
+  strategy: strategySchema.optional(),
+  requiredSkills: z.array(z.string().trim().min(1)).optional(),
+  matchContactTags: z.boolean().optional(),
+  eligibleUserIds: z.array(z.number().int()).optional()
+});
+
+const policySchema = z.object({
+  enabled: z.boolean(),
+  strategy: strategySchema,
+  respectAvailability: z.boolean().default(true),
+  maxConcurrentChats: z.number().int().min(0).max(500).default(0),
+  eligibleUserIds: z.array(z.number().int()).optional(),
+  channelRules: z.record(z.string(), channelRuleSchema).default({}),
+  reassignOnOffline: z.boolean().default(true),
+  offlineGraceMinutes: z.number().int().min(0).max(24 * 60).default(5)
+});
+
+const agentProfileSchema = z.object({
+  skills: z.array(z.string().trim().min(1)).optional(),
+  maxConcurrentChats: z.number().int().min(0).max(500).nullable().optional(),
+  autoAssignEnabled: z.boolean().optional(),
+  availability: z.enum(['available', 'away', 'offline']).optional()
+});
+
+const availabilitySchema = z.object({
+  availability: z.enum(['available', 'away', 'offline'])
+});
+
+
+router.get('/policy', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const policy = await conversationAssignmentService.getPolicy(req.user.companyId);
+    res.json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Error fetching assignment policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch assignment policy' });
+  }
+});
+
+router.put('/policy', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = policySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid assignment policy',
+        details: validation.error.errors
+      });
+    }
+
+    const companyId = req.user.companyId;
+    const channelIds = Object.keys(validation.data.channelRules);
+    if (channelIds.length > 0) {
+      const connections = await storage.getChannelConnectionsByCompany(companyId);
+      const ownedIds = new Set(connections.map(connection => String(connection.id)));
+      const foreign = channelIds.filter(id => !ownedIds.has(id));
+      if (foreign.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown channel connection(s): ${foreign.join(', ')}`
+        });
+      }
+    }
+
+    await storage.setConversationAssignmentPolicy(companyId, validation.data);
+    const policy = await conversationAssignmentService.getPolicy(companyId);
+
+    if (policy.enabled) {
+      conversationAssignmentService.assignPendingConversations(companyId)
+        .catch(error => console.error('Error assigning pending conversations:', error));
+    }
+
+    res.json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Error saving assignment policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to save assignment policy' });
+  }
+});
+
+router.get('/agents', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const agents = await conversationAssignmentService.getAgentStatuses(req.user.companyId);
+    res.json({ success: true, data: agents });
+  } catch (error) {
+    console.error('Error fetching agent assignment status:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch agents' });
+  }
+});
+
+router.put('/agents/:userId', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ success: false, error: 'Invalid user ID' });
+    }
+
+    const validation = agentProfileSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid agent settings',
+        details: validation.error.errors
+      });
+    }
+
+    const agent = await storage.getUser(userId);
+    if (!agent || agent.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Agent not found' });
+    }
+
+    const { availability, ...profileUpdates } = validation.data;
+    let profile = await conversationAssignmentService.upsertProfile(userId, req.user.companyId, profileUpdates);
+    if (availability) {
+      profile = await conversationAssignmentService.setAvailability(userId, req.user.companyId, availability);
+    }
+
+    res.json({ success: true, data: profile });
+  } catch (error) {
+    console.error('Error updating agent assignment profile:', error);
+    res.status(500).json({ success: false, error: 'Failed to update agent settings' });
+  }
+});
+
+router.get('/me', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const profile = await conversationAssignmentService.getProfile(req.user.id);
+    res.json({
+      success: true,
+      data: {
+        availability: profile?.availability || 'available',
+        skills: profile?.skills || [],
+        maxConcurrentChats: profile?.maxConcurrentChats ?? null,
+        online: conversationAssignmentService.isAgentOnline(req.user.id)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching assignment profile:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch availability' });
+  }
+});
+
+router.put('/me/availability', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const validation = availabilitySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: 'Invalid availability' });
+    }
+
+    const profile = await conversationAssignmentService.setAvailability(
+      req.user.id,
+      req.user.companyId,
+      validation.data.availability
+    );
+
+    res.json({ success: true, data: profile });
+  } catch (error) {
+    console.error('Error updating availability:', error);
+    res.status(500).json({ success: false, error: 'Failed to update availability' });
+  }
+});
+
+router.post('/assign-pending', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const assigned = await conversationAssignmentService.assignPendingConversations(req.user.companyId);
+    res.json({ success: true, data: { assigned } });
+  } catch (error) {
+    console.error('Error assigning pending conversations:', error);
+    res.status(500).json({ success: false, error: 'Failed to assign pending conversations' });
+  }
+});
+
+export default router;
@@ -0,0 +1,193 @@
+import { Router } from 'express';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { PERMISSIONS, type ChannelConnection } from '@shared/schema';
+import { ensureAuthenticated, ensureActiveSubscription, requirePermission } from '../middleware';
+import { storage } from '../storage';
+import customChannelService, { CUSTOM_CHANNEL_TYPE } from '../services/channels/custom-channel';
+import { validateWebhookUrl } from '../services/webhook-subscription-service';
+
+const router = Router();
+
+const customChannelSchema = z.object({
+  accountName: z.string().trim().min(1, 'Connection name is required').max(100),
+  platformName: z.string().trim().min(1, 'Platform name is required').max(100),
+  outboundUrl: z.string().trim().url('Outbound URL must be a valid URL').max(2048)
+});
+
+const parseId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+/**
+ * Connection details without the signing secret, which is only returned on creation and rotation
+ */
+const toPublicConnection = (connection: ChannelConnection) => {
+  const { signingSecret, ...connectionData } = (connection.connectionData || {}) as any;
+  return {
+    id: connection.id,
+    accountName: connection.accountName,
+    status: connection.status,
+    platformName: connectionData.platformName,
+    outboundUrl: connectionData.outboundUrl,
+    webhookPath: `/api/webhooks/custom/${connection.id}`,
+    createdAt: connection.createdAt
+  };
+};
+
+/**
+ * Custom channel connection of the requesting user's company
+ */
+async function loadConnection(req: any, res: any) {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    res.status(400).json({ success: false, error: 'Invalid connection ID' });
+    return null;
+  }
+
+  const connection = await storage.getChannelConnection(id);
+  if (!connection || connection.channelType !== CUSTOM_CHANNEL_TYPE || connection.companyId !== req.user.companyId) {
+    res.status(404).json({ success: false, error: 'Custom channel not found' });
+    return null;
+  }
+
+  return connection;
+}
+
+function broadcastConnection(type: string, connection: ChannelConnection) {
+  if ((global as any).broadcastToCompany) {
+    (global as any).broadcastToCompany({ type, data: toPublicConnection(connection) }, connection.companyId);
+  }
+}
+
+/**
+ * POST /api/custom-channels
+ * The signing secret is only included in this response and after rotation
+ */
+router.post('/', ensureAuthenticated, ensureActiveSubscription, requirePermission(PERMISSIONS.MANAGE_CHANNELS), async (req: any, res) => {
+  try {
+    const validation = customChannelSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid custom channel',
+        details: validation.error.errors
+      });
+    }
+
+    const urlError = await validateWebhookUrl(validation.data.outboundUrl);
+    if (urlError) {
+      return res.status(400).json({ success: false, error: urlError });
+    }
+
+    const signingSecret = customChannelService.generateSigningSecret();
+    const connection = await storage.createChannelConnection({
+      userId: req.user.id,
+      companyId: req.user.companyId,
+      channelType: CUSTOM_CHANNEL_TYPE,
+      accountId: `custom-${crypto.randomUUID()}`,
+      accountName: validation.data.accountName,
+      status: 'active',
+      connectionData: {
+        platformName: validation.data.platformName,
+        outboundUrl: validation.data.outboundUrl,
+        signingSecret
+      }
+    });
+
+    broadcastConnection('channelConnectionCreated', connection);
+
+    res.status(201).json({ success: true, data: { ...toPublicConnection(connection), signingSecret } });
+  } catch (error) {
+    console.error('Error creating custom channel:', error);
+    res.status(500).json({ success: false, error: 'Failed to create custom channel' });
+  }
+});
+
+router.get('/:id', ensureAuthenticated, requirePermission(PERMISSIONS.MANAGE_CHANNELS), async (req: any, res) => {
+  try {
+    const connection = await loadConnection(req, res);
+    if (!connection) return;
+
+    res.json({ success: true, data: toPublicConnection(connection) });
+  } catch (error) {
+    console.error('Error fetching custom channel:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch custom channel' });
+  }
+});
+
+router.put('/:id', ensureAuthenticated, requirePermission(PERMISSIONS.MANAGE_CHANNELS), async (req: any, res) => {
+  try {
+    const connection = await loadConnection(req, res);
+    if (!connection) return;
+
+    const validation = customChannelSchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid custom channel',
+        details: validation.error.errors
+      });
+    }
+
+    const { accountName, ...settings } = validation.data;
+    if (settings.outboundUrl) {
+      const urlError = await validateWebhookUrl(settings.outboundUrl);
+      if (urlError) {
+        return res.status(400).json({ success: false, error: urlError });
+      }
+    }
+
+    const updated = await storage.updateChannelConnection(connection.id, {
+      ...(accountName ? { accountName } : {}),
+      connectionData: { ...(connection.connectionData as any || {}), ...settings }
+    });
+
+    broadcastConnection('channelConnectionUpdated', updated);
+
+    res.json({ success: true, data: toPublicConnection(updated) });
+  } catch (error) {
+    console.error('Error updating custom channel:', error);
+    res.status(500).json({ success: false, error: 'Failed to update custom channel' });
+  }
+});
+
+/**
+ * POST /api/custom-channels/:id/rotate-secret
+ * Requests signed with the old secret are rejected as soon as the new one is issued
+ */
+router.post('/:id/rotate-secret', ensureAuthenticated, requirePermission(PERMISSIONS.MANAGE_CHANNELS), async (req: any, res) => {
+  try {
+    const connection = await loadConnection(req, res);
+    if (!connection) return;
+
+    const signingSecret = customChannelService.generateSigningSecret();
+    const updated = await storage.updateChannelConnection(connection.id, {
+      connectionData: { ...(connection.connectionData as any || {}), signingSecret }
+    });
+
+    res.json({ success: true, data: { ...toPublicConnection(updated), signingSecret } });
+  } catch (error) {
+    console.error('Error rotating custom channel secret:', error);
+    res.status(500).json({ success: false, error: 'Failed to rotate signing secret' });
+  }
+});
+
+/**
+ * POST /api/custom-channels/:id/test
+ * Sends a signed ping event to the outbound URL
+ */
+router.post('/:id/test', ensureAuthenticated, requirePermission(PERMISSIONS.MANAGE_CHANNELS), async (req: any, res) => {
+  try {
+    const connection = await loadConnection(req, res);
+    if (!connection) return;
+
+    await customChannelService.sendTestEvent(connection);
+    res.json({ success: true, data: { delivered: true } });
+  } catch (error: any) {
+    res.status(502).json({ success: false, error: error?.message || 'Test event could not be delivered' });
+  }
+});
+
+export default router;
@@ -0,0 +1,187 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { DATA_RETENTION_DATA_CLASSES } from '@shared/schema';
+import { ensureAdmin } from '../middleware';
+import { dataRetentionService } from '../services/data-retention-service';
+
+const router = Router();
+
+const policySchema = z.object({
+  dataClass: z.enum(DATA_RETENTION_DATA_CLASSES),
+  channelTypes: z.array(z.string().trim().min(1)).default([]),
+  retentionDays: z.number().int().min(1, 'Retention must be at least one day').max(36500),
+  isActive: z.boolean().default(true)
+}).refine(policy => policy.dataClass !== 'api_usage_logs' || policy.channelTypes.length === 0, {
+  message: 'API usage logs are not tied to a channel',
+  path: ['channelTypes']
+});
+
+const settingsSchema = z.object({
+  legalHoldTags: z.array(z.string().trim().min(1)).default([]),
+  notifyBeforeDeletion: z.boolean().default(false),
+  notificationDays: z.number().int().min(1).max(90).default(7),
+  notifyEmails: z.array(z.string().trim().email('Invalid notification email')).default([])
+});
+
+/**
+ * GET /api/data-retention/settings
+ */
+router.get('/settings', async (req: any, res) => {
+  try {
+    const settings = await dataRetentionService.getSettings(req.user.companyId);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Error fetching data retention settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch data retention settings' });
+  }
+});
+
+/**
+ * PUT /api/data-retention/settings
+ * Legal hold tags and pre-deletion notification options
+ */
+router.put('/settings', ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = settingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid data retention settings',
+        details: validation.error.errors
+      });
+    }
+
+    const settings = await dataRetentionService.saveSettings(req.user.companyId, validation.data);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Error saving data retention settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to save data retention settings' });
+  }
+});
+
+router.get('/policies', async (req: any, res) => {
+  try {
+    const policies = await dataRetentionService.getPolicies(req.user.companyId);
+    res.json({ success: true, data: policies });
+  } catch (error) {
+    console.error('Error fetching data retention policies:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch data retention policies' });
+  }
+});
+
+router.post('/policies', ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = policySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid data retention policy',
+        details: validation.error.errors
+      });
+    }
+
+    const policy = await dataRetentionService.createPolicy(req.user.companyId, validation.data);
+    res.status(201).json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Error creating data retention policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to create data retention policy' });
+  }
+});
+
+router.put('/policies/:id', ensureAdmin, async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid policy ID' });
+    }
+
+    const existing = await dataRetentionService.getPolicy(id);
+    if (!existing || existing.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Data retention policy not found' });
+    }
+
+    const validation = policySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid data retention policy',
+        details: validation.error.errors
+      });
+    }
+
+    const policy = await dataRetentionService.updatePolicy(id, validation.data);
+    res.json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Error updating data retention policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to update data retention policy' });
+  }
+});
+
+router.delete('/policies/:id', ensureAdmin, async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid policy ID' });
+    }
+
+    const existing = await dataRetentionService.getPolicy(id);
+    if (!existing || existing.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Data retention policy not found' });
+    }
+
+    await dataRetentionService.deletePolicy(id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting data retention policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete data retention policy' });
+  }
+});
+
+/**
+ * GET /api/data-retention/preview
+ * What the active policies would remove right now; nothing is changed or recorded
+ */
+router.get('/preview', ensureAdmin, async (req: any, res) => {
+  try {
+    const results = await dataRetentionService.preview(req.user.companyId);
+    res.json({ success: true, data: results });
+  } catch (error) {
+    console.error('Error previewing data retention:', error);
+    res.status(500).json({ success: false, error: 'Failed to preview data retention' });
+  }
+});
+
+/**
+ * POST /api/data-retention/run
+ * Body: { dryRun?: boolean }
+ */
+router.post('/run', ensureAdmin, async (req: any, res) => {
+  try {
+    const dryRun = req.body?.dryRun !== false;
+    const run = await dataRetentionService.run(req.user.companyId, {
+      dryRun,
+      trigger: 'manual',
+      userId: req.user.id
+    });
+    res.json({ success: true, data: run });
+  } catch (error: any) {
+    if (error?.message?.includes('already in progress')) {
+      return res.status(409).json({ success: false, error: error.message });
+    }
+    console.error('Error running data retention:', error);
+    res.status(500).json({ success: false, error: 'Failed to run data retention' });
+  }
+});
+
+router.get('/runs', ensureAdmin, async (req: any, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const runs = await dataRetentionService.getRuns(req.user.companyId, limit);
+    res.json({ success: true, data: runs });
+  } catch (error) {
+    console.error('Error fetching data retention runs:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch data retention runs' });
+  }
+});
+
+export default router;
@@ -0,0 +1,146 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Contact } from '@shared/schema';
+import { ensureAdmin } from '../middleware';
+import { storage } from '../storage';
+import { dataSubjectService } from '../services/data-subject-service';
+
+const router = Router();
+
+const erasureSchema = z.object({
+  mode: z.enum(['erase', 'anonymize']),
+  confirmation: z.string().trim().min(1, 'Type the contact name to confirm')
+});
+
+const requestContext = (req: any) => ({
+  userId: req.user.id,
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+/**
+ * Contact of the requesting user's company
+ */
+async function loadContact(req: any, res: any): Promise<Contact | null> {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ success: false, error: 'Invalid contact ID' });
+    return null;
+  }
+
+  const contact = await storage.getContact(id);
+  if (!contact || contact.companyId !== req.user.companyId) {
+    res.status(404).json({ success: false, error: 'Contact not found' });
+    return null;
+  }
+
+  return contact;
+}
+
+/**
+ * GET /api/data-subject-requests
+ * Exports and erasures recorded for the company
+ */
+router.get('/', ensureAdmin, async (req: any, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const requests = await dataSubjectService.listRequests(req.user.companyId, limit);
+    res.json({ success: true, data: requests });
+  } catch (error) {
+    console.error('Error fetching data subject requests:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch data subject requests' });
+  }
+});
+
+/**
+ * GET /api/data-subject-requests/contacts/:id/export?format=zip|json
+ * ZIP bundles include the contact's media and documents next to data.json
+ */
+router.get('/contacts/:id/export', ensureAdmin, async (req: any, res) => {
+  try {
+    const contact = await loadContact(req, res);
+    if (!contact) return;
+
+    const format = req.query.format === 'json' ? 'json' : 'zip';
+    const bundle = await dataSubjectService.collectContactData(contact);
+    const filename = `contact-${contact.id}-export-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'json') {
+      await dataSubjectService.logExport(contact, format, bundle, requestContext(req));
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+      return res.json(bundle);
+    }
+
+    const archive = await dataSubjectService.buildExportArchive(bundle);
+    await dataSubjectService.logExport(contact, format, bundle, requestContext(req));
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+    res.setHeader('Content-Length', archive.length);
+    res.send(archive);
+  } catch (error) {
+    console.error('Error exporting contact data:', error);
+    res.status(500).json({ success: false, error: 'Failed to export contact data' });
+  }
+});
+
+/**
+ * POST /api/data-subject-requests/contacts/:id/erase
+ * Body: { mode: 'erase' | 'anonymize', confirmation: <contact name> }
+ */
+router.post('/contacts/:id/erase', ensureAdmin, async (req: any, res) => {
+  try {
+    const contact = await loadContact(req, res);
+    if (!contact) return;
+
+    const validation = erasureSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid erasure request',
+        details: validation.error.errors
+      });
+    }
+
+    if (validation.data.confirmation !== contact.name.trim()) {
+      return res.status(400).json({ success: false, error: 'Confirmation does not match the contact name' });
+    }
+
+    const report = await dataSubjectService.eraseContact(contact, validation.data.mode, requestContext(req));
+
+    if ((global as any).broadcastToCompany) {
+      (global as any).broadcastToCompany({
+        type: 'contactUpdated',
+        data: await storage.getContact(contact.id)
+      }, contact.companyId);
+    }
+
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error erasing contact data:', error);
+    res.status(500).json({ success: false, error: 'Failed to erase contact data' });
+  }
+});
+
+/**
+ * GET /api/data-subject-requests/contacts/:id/verification?mode=erase|anonymize
+ * Re-counts personal data left for a contact after an erasure
+ */
+router.get('/contacts/:id/verification', ensureAdmin, async (req: any, res) => {
+  try {
+    const contact = await loadContact(req, res);
+    if (!contact) return;
+
+    const mode = req.query.mode === 'anonymize' ? 'anonymize' : 'erase';
+    const remaining = await dataSubjectService.verifyErasure(contact.id, mode);
+    res.json({
+      success: true,
+      data: { contactId: contact.id, mode, remaining, verified: Object.values(remaining).every(count => count === 0) }
+    });
+  } catch (error) {
+    console.error('Error verifying contact erasure:', error);
+    res.status(500).json({ success: false, error: 'Failed to verify erasure' });
+  }
+});
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ensureAdmin } from '../middleware';
+import { dealProductsService } from '../services/deal-products-service';
+
+const router = Router();
+
+const currencyCode = z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code');
+
+const settingsSchema = z.object({
+  baseCurrency: currencyCode,
+  rates: z.record(currencyCode, z.number().positive('Exchange rates must be positive')).default({})
+});
+
+/**
+ * GET /api/deal-currencies
+ * Base currency and manual exchange rates (base currency per unit of each currency)
+ */
+router.get('/', async (req: any, res) => {
+  try {
+    const settings = await dealProductsService.getCurrencySettings(req.user.companyId);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Error fetching deal currency settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch currency settings' });
+  }
+});
+
+router.put('/', ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = settingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid currency settings',
+        details: validation.error.errors
+      });
+    }
+
+    const settings = await dealProductsService.saveCurrencySettings(req.user.companyId, validation.data);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Error saving deal currency settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to save currency settings' });
+  }
+});
+
+export default router;
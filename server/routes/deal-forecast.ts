@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { dealForecastService, type DealForecastFilters } from '../services/deal-forecast-service';
+
+const router = Router();
+
+const filtersSchema = z.object({
+  pipelineId: z.coerce.number().int().positive().optional(),
+  ownerId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(['json', 'csv']).optional()
+}).refine(filters => !filters.from || !filters.to || filters.from <= filters.to, {
+  message: 'The start date must be before the end date'
+});
+
+/**
+ * Parse forecast filters from the query string and check the pipeline belongs to the
+ * requesting user's company
+ */
+async function parseFilters(req: any, res: any): Promise<(DealForecastFilters & { format?: 'json' | 'csv' }) | null> {
+  const validation = filtersSchema.safeParse(req.query);
+  if (!validation.success) {
+    res.status(400).json({
+      success: false,
+      error: validation.error.errors[0]?.message || 'Invalid forecast filters',
+      details: validation.error.errors
+    });
+    return null;
+  }
+
+  const filters = validation.data;
+  if (filters.pipelineId) {
+    const pipeline = await storage.getPipeline(filters.pipelineId);
+    if (!pipeline || pipeline.companyId !== req.user.companyId) {
+      res.status(404).json({ success: false, error: 'Pipeline not found' });
+      return null;
+    }
+  }
+
+  if (filters.to) {
+    filters.to.setHours(23, 59, 59, 999);
+  }
+
+  return filters;
+}
+
+/**
+ * GET /api/deal-forecast?pipelineId=&ownerId=&from=&to=
+ * Weighted forecast by month, owner and pipeline with per-stage conversion and velocity
+ */
+router.get('/', async (req: any, res) => {
+  try {
+    const filters = await parseFilters(req, res);
+    if (!filters) return;
+
+    const report = await dealForecastService.getForecast(req.user.companyId, filters);
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error building deal forecast:', error);
+    res.status(500).json({ success: false, error: 'Failed to build deal forecast' });
+  }
+});
+
+/**
+ * GET /api/deal-forecast/export?format=csv|json&pipelineId=&ownerId=&from=&to=
+ */
+router.get('/export', async (req: any, res) => {
+  try {
+    const filters = await parseFilters(req, res);
+    if (!filters) return;
+
+    const report = await dealForecastService.getForecast(req.user.companyId, filters);
+    const filename = `deal_forecast_${new Date().toISOString().split('T')[0]}`;
+
+    if (filters.format === 'json') {
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+      return res.json(report);
+    }
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(dealForecastService.toCsv(report));
+  } catch (error) {
+    console.error('Error exporting deal forecast:', error);
+    res.status(500).json({ success: false, error: 'Failed to export deal forecast' });
+  }
+});
+
+export default router;
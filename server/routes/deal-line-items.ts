@@ -0,0 +1,103 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { dealProductsService } from '../services/deal-products-service';
+
+const router = Router({ mergeParams: true });
+
+const lineItemSchema = z.object({
+  productId: z.number().int().positive().nullable().optional(),
+  name: z.string().trim().min(1, 'Line item name is required').max(200),
+  quantity: z.number().positive('Quantity must be greater than zero'),
+  unitPrice: z.number().min(0, 'Unit price cannot be negative'),
+  discountPercent: z.number().min(0).max(100).default(0),
+  taxRate: z.number().min(0).max(100).default(0)
+});
+
+const lineItemsSchema = z.object({
+  items: z.array(lineItemSchema).max(200)
+});
+
+/**
+ * Deal of the requesting user's company
+ */
+async function loadDeal(req: any, res: any) {
+  const dealId = parseInt(req.params.dealId);
+  if (isNaN(dealId)) {
+    res.status(400).json({ success: false, error: 'Invalid deal ID' });
+    return null;
+  }
+
+  const deal = await storage.getDeal(dealId);
+  if (!deal || deal.companyId !== req.user.companyId) {
+    res.status(404).json({ success: false, error: 'Deal not found' });
+    return null;
+  }
+
+  return deal;
+}
+
+/**
+ * GET /api/deals/:dealId/line-items
+ */
+router.get('/', async (req: any, res) => {
+  try {
+    const deal = await loadDeal(req, res);
+    if (!deal) return;
+
+    const items = await dealProductsService.getLineItems(deal.id);
+    res.json({ success: true, data: { items, totals: dealProductsService.summarize(items), currency: deal.currency } });
+  } catch (error) {
+    console.error('Error fetching deal line items:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch line items' });
+  }
+});
+
+/**
+ * PUT /api/deals/:dealId/line-items
+ * Body: { items: [...] } replaces all line items; the deal value becomes their total
+ */
+router.put('/', async (req: any, res) => {
+  try {
+    const deal = await loadDeal(req, res);
+    if (!deal) return;
+
+    const validation = lineItemsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid line items',
+        details: validation.error.errors
+      });
+    }
+
+    const productIds = validation.data.items
+      .map(item => item.productId)
+      .filter((id): id is number => !!id);
+    if (productIds.length > 0) {
+      const companyProducts = await dealProductsService.getProducts(req.user.companyId, true);
+      const known = new Set(companyProducts.map(product => product.id));
+      const unknown = productIds.filter(id => !known.has(id));
+      if (unknown.length > 0) {
+        return res.status(400).json({ success: false, error: `Unknown product(s): ${unknown.join(', ')}` });
+      }
+    }
+
+    const result = await dealProductsService.replaceLineItems(deal, validation.data.items);
+
+    await storage.createDealActivity({
+      dealId: deal.id,
+      userId: req.user.id,
+      type: 'update',
+      content: `Line items updated (${result.items.length})`,
+      metadata: { updatedBy: req.user.id, lineItems: result.items.length, total: result.totals.total }
+    });
+
+    res.json({ success: true, data: { ...result, currency: result.deal.currency } });
+  } catch (error) {
+    console.error('Error saving deal line items:', error);
+    res.status(500).json({ success: false, error: 'Failed to save line items' });
+  }
+});
+
+export default router;
@@ -0,0 +1,185 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { flowVersionService, type FlowDiffSide } from '../services/flow-version-service';
+import { broadcastToAll } from '../utils/websocket';
+
+const router = Router();
+
+const publishSchema = z.object({
+  note: z.string().trim().max(500).optional().nullable()
+});
+
+const diffSideSchema = z.union([
+  z.literal('draft'),
+  z.coerce.number().int().positive()
+]);
+
+const diffQuerySchema = z.object({
+  from: diffSideSchema.optional(),
+  to: diffSideSchema.default('draft')
+});
+
+/**
+ * Flow of the requesting user's company. Publishing and rollback are limited to the flow's owner,
+ * like editing the flow itself.
+ */
+const loadFlow = async (req: any, res: any, requireOwner = false) => {
+  const flowId = parseInt(req.params.id);
+  if (isNaN(flowId)) {
+    res.status(400).json({ success: false, error: 'Invalid flow ID' });
+    return null;
+  }
+
+  const flow = await storage.getFlow(flowId);
+  if (!flow || (!req.user.isSuperAdmin && flow.companyId !== req.user.companyId)) {
+    res.status(404).json({ success: false, error: 'Flow not found' });
+    return null;
+  }
+
+  if (requireOwner && flow.userId !== req.user.id) {
+    res.status(403).json({ success: false, error: 'You do not have permission to publish this flow' });
+    return null;
+  }
+
+  return flow;
+};
+
+/**
+ * GET /api/flows/:id/versions
+ * Published versions, newest first, and whether the draft has unpublished changes
+ */
+router.get('/:id/versions', async (req: any, res) => {
+  try {
+    const flow = await loadFlow(req, res);
+    if (!flow) return;
+
+    const [versions, hasUnpublishedChanges] = await Promise.all([
+      flowVersionService.getVersions(flow),
+      flowVersionService.hasUnpublishedChanges(flow)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        publishedVersionId: flow.publishedVersionId,
+        publishedAt: flow.publishedAt,
+        hasUnpublishedChanges,
+        versions
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching flow versions:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch flow versions' });
+  }
+});
+
+/**
+ * GET /api/flows/:id/versions/diff?from=<versionId>&to=<versionId|draft>
+ * Nodes and edges added, removed or changed between two versions. Without `from` the published
+ * version is compared with the draft.
+ */
+router.get('/:id/versions/diff', async (req: any, res) => {
+  try {
+    const flow = await loadFlow(req, res);
+    if (!flow) return;
+
+    const validation = diffQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: 'Invalid version selection' });
+    }
+
+    const from: FlowDiffSide | undefined = validation.data.from ?? flow.publishedVersionId ?? undefined;
+    if (from === undefined) {
+      return res.status(400).json({ success: false, error: 'Flow has no published version to compare with' });
+    }
+
+    const diff = await flowVersionService.diff(flow, from, validation.data.to);
+    res.json({ success: true, data: diff });
+  } catch (error: any) {
+    if (error.message === 'Flow version not found') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    console.error('Error comparing flow versions:', error);
+    res.status(500).json({ success: false, error: 'Failed to compare flow versions' });
+  }
+});
+
+/**
+ * GET /api/flows/:id/versions/:versionId
+ * A published version including its nodes and edges
+ */
+router.get('/:id/versions/:versionId', async (req: any, res) => {
+  try {
+    const flow = await loadFlow(req, res);
+    if (!flow) return;
+
+    const version = await flowVersionService.getVersion(flow.id, parseInt(req.params.versionId));
+    if (!version) {
+      return res.status(404).json({ success: false, error: 'Flow version not found' });
+    }
+
+    res.json({ success: true, data: version });
+  } catch (error) {
+    console.error('Error fetching flow version:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch flow version' });
+  }
+});
+
+/**
+ * POST /api/flows/:id/publish
+ * Publish the current draft as a new version
+ */
+router.post('/:id/publish', async (req: any, res) => {
+  try {
+    const flow = await loadFlow(req, res, true);
+    if (!flow) return;
+
+    const validation = publishSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0]?.message || 'Invalid publish note' });
+    }
+
+    const version = await flowVersionService.publish(flow, req.user.id, validation.data.note);
+    const updatedFlow = await storage.getFlow(flow.id);
+
+    res.status(201).json({ success: true, data: { version, flow: updatedFlow } });
+
+    broadcastToAll({
+      type: 'flowUpdated',
+      data: updatedFlow
+    });
+  } catch (error) {
+    console.error('Error publishing flow:', error);
+    res.status(500).json({ success: false, error: 'Failed to publish flow' });
+  }
+});
+
+/**
+ * POST /api/flows/:id/versions/:versionId/rollback
+ * Publish a copy of an earlier version and reset the draft to it
+ */
+router.post('/:id/versions/:versionId/rollback', async (req: any, res) => {
+  try {
+    const flow = await loadFlow(req, res, true);
+    if (!flow) return;
+
+    const version = await flowVersionService.rollback(flow, parseInt(req.params.versionId), req.user.id);
+    const updatedFlow = await storage.getFlow(flow.id);
+
+    res.status(201).json({ success: true, data: { version, flow: updatedFlow } });
+
+    broadcastToAll({
+      type: 'flowUpdated',
+      data: updatedFlow
+    });
+  } catch (error: any) {
+    if (error.message === 'Flow version not found') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    console.error('Error rolling back flow:', error);
+    res.status(500).json({ success: false, error: 'Failed to roll back flow' });
+  }
+});
+
+export default router;
@@ -12,6 +12,7 @@ import knowledgeBaseService from '../services/knowledge-base-service';
 import { TextDocumentProcessor } from '../services/document-processors/text-processor';
 import { z } from 'zod';
 import { dataUsageTracker } from '../services/data-usage-tracker';
+import { knowledgeBaseSyncService, validateSourceUrl } from '../services/knowledge-base-sync-service';
 
 const router = express.Router();
 
@@ -34,16 +35,17 @@ const upload = multer({
   },
   fileFilter: (req, file, cb) => {
     const supportedTypes = TextDocumentProcessor.getSupportedMimeTypes();
+    const mimeType = TextDocumentProcessor.resolveMimeType(file.mimetype, file.originalname);
 
-    if (supportedTypes.includes(file.mimetype)) {
+    if (supportedTypes.includes(mimeType)) {
       cb(null, true);
     } else {
       const availableProcessors = TextDocumentProcessor.getAvailableProcessors();
-      let errorMessage = `Unsupported file type: ${file.mimetype}. `;
+      let errorMessage = `Unsupported file type: ${mimeType}. `;
 
-      if (file.mimetype === 'application/pdf' && !availableProcessors.pdf && !availableProcessors.pdfAdvanced) {
+      if (mimeType === 'application/pdf' && !availableProcessors.pdf && !availableProcessors.pdfAdvanced) {
         errorMessage += 'PDF processing not available. Install pdf-parse or pdfjs-dist.';
-      } else if (file.mimetype.includes('word') && !availableProcessors.docx) {
+      } else if (mimeType.includes('word') && !availableProcessors.docx) {
         errorMessage += 'Word document processing not available. Install mammoth.';
       } else {
         errorMessage += `Supported types: ${supportedTypes.join(', ')}`;
@@ -60,14 +62,42 @@ const configSchema = z.object({
   maxRetrievedChunks: z.number().min(1).max(10).optional(),
   similarityThreshold: z.number().min(0).max(1).optional(),
   embeddingModel: z.string().optional(),
+  chunkTargetTokens: z.number().int().min(100).max(2000).optional(),
+  chunkOverlapTokens: z.number().int().min(0).max(500).optional(),
+  retrievalMode: z.enum(['vector', 'hybrid']).optional(),
+  rerankEnabled: z.boolean().optional(),
+  citationsEnabled: z.boolean().optional(),
+  filterTags: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20).optional(),
+  filterByLanguage: z.boolean().optional(),
   contextPosition: z.enum(['before_system', 'after_system', 'before_user']).optional(),
   contextTemplate: z.string().optional()
 });
 
+const vectorStoreMigrationSchema = z.object({
+  target: z.enum(['pinecone', 'postgres'])
+});
+
+const sourceSettingsSchema = z.object({
+  maxPages: z.number().int().min(1).max(500).default(50),
+  syncIntervalHours: z.number().int().min(1).max(24 * 30).nullable().default(null)
+});
+
+const sourceSchema = sourceSettingsSchema.extend({
+  nodeId: z.string().min(1),
+  type: z.enum(['sitemap', 'website']),
+  url: z.string().url('Source URL must be a valid URL')
+});
+
+const documentMetadataSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  language: z.string().trim().min(2).max(10).nullable().optional()
+});
+
 const searchSchema = z.object({
   query: z.string().min(1),
   nodeId: z.string().min(1),
-  maxResults: z.number().min(1).max(10).optional()
+  maxResults: z.number().min(1).max(10).optional(),
+  language: z.string().min(2).max(10).optional()
 });
 
 /**
@@ -140,7 +170,7 @@ router.post('/documents/upload',
         nodeId: nodeId || null,
         filename: req.file.filename,
         originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
+        mimeType: TextDocumentProcessor.resolveMimeType(req.file.mimetype, req.file.originalname),
         fileSize: req.file.size,
         filePath: req.file.path,
         fileUrl: `/uploads/knowledge-base/${req.file.filename}`,
@@ -262,7 +292,7 @@ router.delete('/documents/:id',
         const nodeId = document.nodeId || 'fallback';
         await knowledgeBaseService.deleteDocumentVectors(companyId, nodeId, documentId);
       } catch (error) {
-        console.error('Error deleting vectors from Pinecone:', error);
+        console.error('Error deleting document vectors:', error);
 
       }
 
@@ -288,6 +318,95 @@ router.delete('/documents/:id',
   }
 );
 
+/**
+ * Update the tags and language a document is filtered by during retrieval
+ * PATCH /api/knowledge-base/documents/:id
+ */
+router.patch('/documents/:id',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const companyId = req.user!.companyId!;
+      const metadata = documentMetadataSchema.parse(req.body);
+
+      const [document] = await db.select({ id: knowledgeBaseDocuments.id })
+        .from(knowledgeBaseDocuments)
+        .where(and(
+          eq(knowledgeBaseDocuments.id, documentId),
+          eq(knowledgeBaseDocuments.companyId, companyId)
+        ));
+
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      const updated = await knowledgeBaseService.updateDocumentMetadata(documentId, metadata);
+
+      res.json({
+        success: true,
+        data: updated
+      });
+
+    } catch (error) {
+      console.error('Error updating document:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Invalid document metadata',
+          details: error.errors
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to update document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * Get a document's chunks for previewing how it was split
+ * GET /api/knowledge-base/documents/:id/chunks
+ */
+router.get('/documents/:id/chunks',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const companyId = req.user!.companyId!;
+
+      const [document] = await db.select({ id: knowledgeBaseDocuments.id })
+        .from(knowledgeBaseDocuments)
+        .where(and(
+          eq(knowledgeBaseDocuments.id, documentId),
+          eq(knowledgeBaseDocuments.companyId, companyId)
+        ));
+
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      const chunks = await knowledgeBaseService.getDocumentChunks(documentId);
+
+      res.json({
+        success: true,
+        data: chunks
+      });
+
+    } catch (error) {
+      console.error('Error fetching document chunks:', error);
+      res.status(500).json({
+        error: 'Failed to fetch document chunks',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
 /**
  * Get document processing status
  * GET /api/knowledge-base/documents/:id/status
@@ -407,6 +526,50 @@ router.put('/config/:nodeId',
   }
 );
 
+/**
+ * Move a node's embeddings to another vector store and switch the node to it
+ * POST /api/knowledge-base/config/:nodeId/vector-store
+ */
+router.post('/config/:nodeId/vector-store',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const { nodeId } = req.params;
+      const companyId = req.user!.companyId!;
+
+      const { target } = vectorStoreMigrationSchema.parse(req.body);
+
+      const config = await knowledgeBaseService.getNodeConfig(companyId, nodeId);
+      if ((config?.vectorStore ?? 'pinecone') === target) {
+        return res.status(400).json({ error: `Knowledge base already uses the ${target} vector store` });
+      }
+
+      const result = await knowledgeBaseService.migrateVectorStore(companyId, nodeId, target);
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Error migrating vector store:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Invalid vector store',
+          details: error.errors
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to migrate vector store',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
 /**
  * Associate document with AI Assistant node
  * POST /api/knowledge-base/config/:nodeId/documents/assign
@@ -448,6 +611,205 @@ router.post('/config/:nodeId/documents/assign',
   }
 );
 
+/**
+ * Get website sources, optionally for one node
+ * GET /api/knowledge-base/sources
+ */
+router.get('/sources',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const companyId = req.user!.companyId!;
+      const { nodeId } = req.query;
+
+      const sources = await knowledgeBaseSyncService.getSources(companyId, nodeId as string | undefined);
+
+      res.json({
+        success: true,
+        data: sources
+      });
+
+    } catch (error) {
+      console.error('Error fetching sources:', error);
+      res.status(500).json({
+        error: 'Failed to fetch sources',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * Add a sitemap or website to crawl into a node's knowledge base, and start the first sync
+ * POST /api/knowledge-base/sources
+ */
+router.post('/sources',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const companyId = req.user!.companyId!;
+
+      const data = sourceSchema.parse(req.body);
+
+      const urlError = await validateSourceUrl(data.url);
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+
+      const source = await knowledgeBaseSyncService.createSource(companyId, data);
+
+      knowledgeBaseSyncService.syncSource(source.id)
+        .catch(error => {
+          console.error('Background source sync failed:', error);
+        });
+
+      res.json({
+        success: true,
+        data: { ...source, status: 'syncing' }
+      });
+
+    } catch (error) {
+      console.error('Error creating source:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Invalid source',
+          details: error.errors
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to create source',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * Update a source's page limit and sync schedule
+ * PUT /api/knowledge-base/sources/:id
+ */
+router.put('/sources/:id',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const sourceId = parseInt(req.params.id);
+      const companyId = req.user!.companyId!;
+
+      const existing = isNaN(sourceId) ? null : await knowledgeBaseSyncService.getSource(sourceId);
+      if (!existing || existing.companyId !== companyId) {
+        return res.status(404).json({ error: 'Source not found' });
+      }
+
+      const data = sourceSettingsSchema.parse(req.body);
+      const source = await knowledgeBaseSyncService.updateSource(sourceId, data);
+
+      res.json({
+        success: true,
+        data: source
+      });
+
+    } catch (error) {
+      console.error('Error updating source:', error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Invalid source settings',
+          details: error.errors
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to update source',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * Delete a source and the documents of its pages
+ * DELETE /api/knowledge-base/sources/:id
+ */
+router.delete('/sources/:id',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const sourceId = parseInt(req.params.id);
+      const companyId = req.user!.companyId!;
+
+      const existing = isNaN(sourceId) ? null : await knowledgeBaseSyncService.getSource(sourceId);
+      if (!existing || existing.companyId !== companyId) {
+        return res.status(404).json({ error: 'Source not found' });
+      }
+
+      if (knowledgeBaseSyncService.isSyncing(sourceId)) {
+        return res.status(409).json({ error: 'Source is being synced, try again when the sync has finished' });
+      }
+
+      await knowledgeBaseSyncService.deleteSource(sourceId);
+
+      res.json({
+        success: true,
+        message: 'Source deleted successfully'
+      });
+
+    } catch (error) {
+      console.error('Error deleting source:', error);
+      res.status(500).json({
+        error: 'Failed to delete source',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * Re-sync a source now
+ * POST /api/knowledge-base/sources/:id/sync
+ */
+router.post('/sources/:id/sync',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const sourceId = parseInt(req.params.id);
+      const companyId = req.user!.companyId!;
+
+      const existing = isNaN(sourceId) ? null : await knowledgeBaseSyncService.getSource(sourceId);
+      if (!existing || existing.companyId !== companyId) {
+        return res.status(404).json({ error: 'Source not found' });
+      }
+
+      if (knowledgeBaseSyncService.isSyncing(sourceId)) {
+        return res.status(409).json({ error: 'Source is already being synced' });
+      }
+
+      knowledgeBaseSyncService.syncSource(sourceId)
+        .catch(error => {
+          console.error('Background source sync failed:', error);
+        });
+
+      res.json({
+        success: true,
+        message: 'Sync started'
+      });
+
+    } catch (error) {
+      console.error('Error starting source sync:', error);
+      res.status(500).json({
+        error: 'Failed to start sync',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
 /**
  * Search knowledge base
  * POST /api/knowledge-base/search
@@ -460,12 +822,13 @@ router.post('/search',
       const companyId = req.user!.companyId!;
 
 
-      const { query, nodeId, maxResults = 5 } = searchSchema.parse(req.body);
+      const { query, nodeId, maxResults = 5, language } = searchSchema.parse(req.body);
 
       const results = await knowledgeBaseService.retrieveContext(
         companyId,
         nodeId,
-        query
+        query,
+        { language }
       );
 
       res.json({
@@ -475,6 +838,8 @@ router.post('/search',
           results: results.map(r => ({
             content: r.chunk.content,
             similarity: r.similarity,
+            score: r.score,
+            matchedBy: r.matchedBy,
             document: {
               id: r.document.id,
               filename: r.document.filename,
@@ -482,6 +847,7 @@ router.post('/search',
             },
             chunk: {
               index: r.chunk.chunkIndex,
+              section: r.chunk.section,
               tokenCount: r.chunk.tokenCount
             }
           }))
@@ -506,6 +872,40 @@ router.post('/search',
   }
 );
 
+/**
+ * Get recent retrievals of a node with their traces, for debugging answers
+ * GET /api/knowledge-base/usage?nodeId=...&limit=...
+ */
+router.get('/usage',
+  ensureAuthenticated,
+  ensureCompanyUser,
+  async (req, res) => {
+    try {
+      const companyId = req.user!.companyId!;
+      const { nodeId } = req.query;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+      if (!nodeId) {
+        return res.status(400).json({ error: 'nodeId is required' });
+      }
+
+      const usage = await knowledgeBaseService.getRecentUsage(companyId, nodeId as string, limit);
+
+      res.json({
+        success: true,
+        data: usage.map(({ queryEmbedding, ...entry }) => entry)
+      });
+
+    } catch (error) {
+      console.error('Error fetching knowledge base usage:', error);
+      res.status(500).json({
+        error: 'Failed to fetch knowledge base usage',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
 /**
  * Test query against knowledge base
  * POST /api/knowledge-base/test-query
@@ -0,0 +1,213 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { and, eq, inArray } from 'drizzle-orm';
+import { PERMISSIONS, quickReplyTemplates } from '@shared/schema';
+import { db } from '../db';
+import { requirePermission } from '../middleware';
+import { storage } from '../storage';
+import { pipelineAutomationService } from '../services/pipeline-automation-service';
+import { validateWebhookUrl } from '../services/webhook-subscription-service';
+
+const router = Router();
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('send_template'), templateId: z.number().int().positive() }),
+  z.object({
+    type: z.literal('create_task'),
+    title: z.string().trim().min(1, 'Task title is required').max(200),
+    description: z.string().trim().max(1000).optional(),
+    dueInDays: z.number().int().min(0).max(365).default(1),
+    priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium')
+  }),
+  z.object({ type: z.literal('assign_owner'), userId: z.number().int().positive() }),
+  z.object({
+    type: z.literal('webhook'),
+    url: z.string().url('Webhook URL must be a valid URL'),
+    message: z.string().trim().min(1, 'Webhook message is required').max(2000)
+  }),
+  z.object({ type: z.literal('move_stage'), stageId: z.number().int().positive() }),
+  z.object({ type: z.literal('add_tags'), tags: z.array(z.string().trim().min(1)).min(1, 'Add at least one tag') })
+]);
+
+const automationSchema = z.object({
+  stageId: z.number().int().positive(),
+  name: z.string().trim().min(1, 'Automation name is required').max(100),
+  trigger: z.enum(['enter', 'exit', 'idle']),
+  idleDays: z.number().int().min(1).max(365).nullable().default(null),
+  actions: z.array(actionSchema).min(1, 'Add at least one action').max(10),
+  isActive: z.boolean().default(true)
+}).refine(data => data.trigger !== 'idle' || data.idleDays !== null, {
+  message: 'Idle automations need a number of days',
+  path: ['idleDays']
+});
+
+type AutomationData = z.infer<typeof automationSchema>;
+
+/**
+ * Reject stages, templates and users of another company, and unsafe webhook URLs
+ */
+async function validateReferences(companyId: number, data: AutomationData): Promise<string | null> {
+  const stage = await storage.getPipelineStage(data.stageId);
+  if (!stage || stage.companyId !== companyId) {
+    return 'Pipeline stage not found';
+  }
+
+  for (const action of data.actions) {
+    if (action.type === 'move_stage') {
+      const target = await storage.getPipelineStage(action.stageId);
+      if (!target || target.pipelineId !== stage.pipelineId) {
+        return 'Deals can only be moved to a stage of the same pipeline';
+      }
+      if (target.id === stage.id) {
+        return 'Deals cannot be moved to the stage the automation belongs to';
+      }
+    }
+    if (action.type === 'webhook') {
+      const urlError = await validateWebhookUrl(action.url);
+      if (urlError) return urlError;
+    }
+  }
+
+  const userIds = data.actions.flatMap(action => action.type === 'assign_owner' ? [action.userId] : []);
+  if (userIds.length > 0) {
+    const companyUsers = await storage.getUsersByCompany(companyId);
+    const memberIds = new Set(companyUsers.map(user => user.id));
+    const foreign = userIds.filter(id => !memberIds.has(id));
+    if (foreign.length > 0) {
+      return `Unknown user(s): ${foreign.join(', ')}`;
+    }
+  }
+
+  const templateIds = data.actions.flatMap(action => action.type === 'send_template' ? [action.templateId] : []);
+  if (templateIds.length > 0) {
+    const templates = await db
+      .select({ id: quickReplyTemplates.id })
+      .from(quickReplyTemplates)
+      .where(and(eq(quickReplyTemplates.companyId, companyId), inArray(quickReplyTemplates.id, templateIds)));
+    const ownedIds = new Set(templates.map(template => template.id));
+    const foreign = templateIds.filter(id => !ownedIds.has(id));
+    if (foreign.length > 0) {
+      return `Unknown template(s): ${foreign.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+function toInput(data: AutomationData) {
+  return { ...data, idleDays: data.trigger === 'idle' ? data.idleDays : null };
+}
+
+/**
+ * GET /api/pipeline-automations?pipelineId=1
+ */
+router.get('/', async (req: any, res) => {
+  try {
+    const pipelineId = req.query.pipelineId ? parseInt(req.query.pipelineId as string) : undefined;
+    if (pipelineId !== undefined && isNaN(pipelineId)) {
+      return res.status(400).json({ success: false, error: 'Invalid pipeline ID' });
+    }
+
+    const automations = await pipelineAutomationService.getAutomations(req.user.companyId, pipelineId);
+    res.json({ success: true, data: automations });
+  } catch (error) {
+    console.error('Error fetching pipeline automations:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch pipeline automations' });
+  }
+});
+
+router.get('/:id/runs', async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const automation = isNaN(id) ? null : await pipelineAutomationService.getAutomation(id);
+    if (!automation || automation.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Automation not found' });
+    }
+
+    const runs = await pipelineAutomationService.getRuns(id);
+    res.json({ success: true, data: runs });
+  } catch (error) {
+    console.error('Error fetching pipeline automation runs:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch automation runs' });
+  }
+});
+
+router.post('/', requirePermission(PERMISSIONS.MANAGE_PIPELINE), async (req: any, res) => {
+  try {
+    const validation = automationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid automation',
+        details: validation.error.errors
+      });
+    }
+
+    const referenceError = await validateReferences(req.user.companyId, validation.data);
+    if (referenceError) {
+      return res.status(400).json({ success: false, error: referenceError });
+    }
+
+    const automation = await pipelineAutomationService.createAutomation(req.user.companyId, toInput(validation.data));
+    res.status(201).json({ success: true, data: automation });
+  } catch (error) {
+    console.error('Error creating pipeline automation:', error);
+    res.status(500).json({ success: false, error: 'Failed to create pipeline automation' });
+  }
+});
+
+router.put('/:id', requirePermission(PERMISSIONS.MANAGE_PIPELINE), async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid automation ID' });
+    }
+
+    const existing = await pipelineAutomationService.getAutomation(id);
+    if (!existing || existing.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Automation not found' });
+    }
+
+    const validation = automationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid automation',
+        details: validation.error.errors
+      });
+    }
+
+    const referenceError = await validateReferences(req.user.companyId, validation.data);
+    if (referenceError) {
+      return res.status(400).json({ success: false, error: referenceError });
+    }
+
+    const automation = await pipelineAutomationService.updateAutomation(id, toInput(validation.data));
+    res.json({ success: true, data: automation });
+  } catch (error) {
+    console.error('Error updating pipeline automation:', error);
+    res.status(500).json({ success: false, error: 'Failed to update pipeline automation' });
+  }
+});
+
+router.delete('/:id', requirePermission(PERMISSIONS.MANAGE_PIPELINE), async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid automation ID' });
+    }
+
+    const existing = await pipelineAutomationService.getAutomation(id);
+    if (!existing || existing.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Automation not found' });
+    }
+
+    await pipelineAutomationService.deleteAutomation(id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting pipeline automation:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete pipeline automation' });
+  }
+});
+
+export default router;
@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PERMISSIONS } from '@shared/schema';
+import { requirePermission } from '../middleware';
+import { dealProductsService } from '../services/deal-products-service';
+
+const router = Router();
+
+const productSchema = z.object({
+  name: z.string().trim().min(1, 'Product name is required').max(200),
+  sku: z.string().trim().max(100).nullable().optional(),
+  description: z.string().trim().max(2000).nullable().optional(),
+  unitPrice: z.number().min(0, 'Unit price cannot be negative'),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').nullable().optional(),
+  taxRate: z.number().min(0).max(100).default(0),
+  isActive: z.boolean().default(true)
+});
+
+/**
+ * GET /api/products?includeInactive=true
+ */
+router.get('/', async (req: any, res) => {
+  try {
+    const products = await dealProductsService.getProducts(req.user.companyId, req.query.includeInactive === 'true');
+    res.json({ success: true, data: products });
+  } catch (error) {
+    console.error('Error fetching products:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch products' });
+  }
+});
+
+router.post('/', requirePermission(PERMISSIONS.MANAGE_PIPELINE), async (req: any, res) => {
+  try {
+    const validation = productSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid product',
+        details: validation.error.errors
+      });
+    }
+
+    const product = await dealProductsService.createProduct(req.user.companyId, validation.data);
+    res.status(201).json({ success: true, data: product });
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      return res.status(409).json({ success: false, error: 'A product with this SKU already exists' });
+    }
+    console.error('Error creating product:', error);
+    res.status(500).json({ success: false, error: 'Failed to create product' });
+  }
+});
+
+router.put('/:id', requirePermission(PERMISSIONS.MANAGE_PIPELINE), async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid product ID' });
+    }
+
+    const existing = await dealProductsService.getProduct(id);
+    if (!existing || existing.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Product not found' });
+    }
+
+    const validation = productSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid product',
+        details: validation.error.errors
+      });
+    }
+
+    const product = await dealProductsService.updateProduct(id, validation.data);
+    res.json({ success: true, data: product });
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      return res.status(409).json({ success: false, error: 'A product with this SKU already exists' });
+    }
+    console.error('Error updating product:', error);
+    res.status(500).json({ success: false, error: 'Failed to update product' });
+  }
+});
+
+router.delete('/:id', requirePermission(PERMISSIONS.MANAGE_PIPELINE), async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid product ID' });
+    }
+
+    const existing = await dealProductsService.getProduct(id);
+    if (!existing || existing.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Product not found' });
+    }
+
+    await dealProductsService.deleteProduct(id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting product:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete product' });
+  }
+});
+
+export default router;
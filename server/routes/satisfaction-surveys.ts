@@ -0,0 +1,160 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ensureAuthenticated, ensureAdmin } from '../middleware';
+import { storage } from '../storage';
+import { SURVEY_CHANNEL_TYPES, satisfactionSurveyService } from '../services/satisfaction-survey-service';
+import type { ConversationSurvey } from '@shared/schema';
+
+const router = Router();
+
+const configSchema = z.object({
+  enabled: z.boolean(),
+  surveyType: z.enum(['csat', 'nps']),
+  channelTypes: z.array(z.enum(SURVEY_CHANNEL_TYPES as [string, ...string[]])).default([]),
+  question: z.string().trim().min(1).max(1024),
+  askForComment: z.boolean().default(true),
+  commentPrompt: z.string().trim().max(1024).default(''),
+  thankYouMessage: z.string().trim().max(1024).default(''),
+  cooldownHours: z.number().int().min(0).max(24 * 90).default(24),
+  expiryHours: z.number().int().min(1).max(24 * 30).default(72)
+});
+
+const responseSchema = z.object({
+  score: z.coerce.number().int().min(0).max(10).optional(),
+  comment: z.string().trim().max(2000).optional()
+});
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Minimal standalone page for contacts answering through an email link
+ */
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; background: #f9fafb; color: #111827; margin: 0; padding: 48px 16px; }
+    main { max-width: 480px; margin: 0 auto; background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 32px; }
+    h1 { font-size: 20px; margin: 0 0 12px; }
+    textarea { width: 100%; min-height: 120px; box-sizing: border-box; padding: 8px; border: 1px solid #d1d5db; border-radius: 6px; font: inherit; }
+    button { margin-top: 12px; padding: 8px 16px; border: 0; border-radius: 6px; background: #111827; color: #fff; font: inherit; cursor: pointer; }
+  </style>
+</head>
+<body><main>${body}</main></body>
+</html>`;
+}
+
+async function renderSurveyResult(survey: ConversationSurvey): Promise<string> {
+  const config = await satisfactionSurveyService.getConfig(survey.companyId);
+
+  if (survey.status === 'awaiting_comment') {
+    return renderPage('Thank you', `
+      <h1>Thanks for your rating!</h1>
+      <form method="POST" action="/api/satisfaction-surveys/respond/${encodeURIComponent(survey.token)}">
+        <p>${escapeHtml(config.commentPrompt || 'Anything else you would like to tell us?')}</p>
+        <textarea name="comment" maxlength="2000"></textarea>
+        <button type="submit">Send feedback</button>
+      </form>`);
+  }
+
+  return renderPage('Thank you', `<h1>${escapeHtml(config.thankYouMessage || 'Thank you for your feedback!')}</h1>`);
+}
+
+router.use('/respond', (req, res, next) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  next();
+});
+
+/**
+ * GET /api/satisfaction-surveys/respond/:token?score=N
+ * Public link used in survey emails. Records the score and asks for an optional comment.
+ */
+router.get('/respond/:token', async (req, res) => {
+  try {
+    const validation = responseSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).send(renderPage('Invalid rating', '<h1>That rating is not valid.</h1>'));
+    }
+
+    const survey = await satisfactionSurveyService.respondByToken(req.params.token, { score: validation.data.score });
+    res.send(await renderSurveyResult(survey));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to record your rating';
+    res.status(400).send(renderPage('Survey unavailable', `<h1>${escapeHtml(message)}</h1>`));
+  }
+});
+
+/**
+ * POST /api/satisfaction-surveys/respond/:token
+ * Public endpoint for the email comment form (form post) and the webchat widget rating (JSON).
+ */
+router.post('/respond/:token', async (req, res) => {
+  const wantsJson = !req.is('application/x-www-form-urlencoded');
+
+  try {
+    const validation = responseSchema.safeParse(req.body);
+    if (!validation.success) {
+      return wantsJson
+        ? res.status(400).json({ success: false, error: 'Invalid survey response', details: validation.error.errors })
+        : res.status(400).send(renderPage('Invalid response', '<h1>That response is not valid.</h1>'));
+    }
+
+    const survey = await satisfactionSurveyService.respondByToken(req.params.token, validation.data);
+
+    if (wantsJson) {
+      return res.json({ success: true, data: { status: survey.status, score: survey.score } });
+    }
+    res.send(await renderSurveyResult(survey));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to record your response';
+    return wantsJson
+      ? res.status(400).json({ success: false, error: message })
+      : res.status(400).send(renderPage('Survey unavailable', `<h1>${escapeHtml(message)}</h1>`));
+  }
+});
+
+router.get('/settings', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const config = await satisfactionSurveyService.getConfig(req.user.companyId);
+    res.json({ success: true, data: { config, channelTypes: SURVEY_CHANNEL_TYPES } });
+  } catch (error) {
+    console.error('Error fetching satisfaction survey settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch survey settings' });
+  }
+});
+
+router.put('/settings', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = configSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid survey settings',
+        details: validation.error.errors
+      });
+    }
+
+    await storage.setSatisfactionSurveyConfig(req.user.companyId, validation.data);
+    const config = await satisfactionSurveyService.getConfig(req.user.companyId);
+    res.json({ success: true, data: { config, channelTypes: SURVEY_CHANNEL_TYPES } });
+  } catch (error) {
+    console.error('Error saving satisfaction survey settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to save survey settings' });
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ensureAuthenticated, requireAnyPermission } from '../middleware';
+import { PERMISSIONS } from '@shared/schema';
+import { searchService, type SearchResultType } from '../services/search-service';
+
+const router = Router();
+
+const SEARCH_TYPES: SearchResultType[] = ['messages', 'contacts', 'notes'];
+
+const optionalDate = z.string().trim().optional()
+  .transform(value => value ? new Date(value) : undefined)
+  .refine(value => !value || !isNaN(value.getTime()), { message: 'Invalid date' });
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, 'Search term must be at least 2 characters').max(200),
+  types: z.string().optional()
+    .transform(value => value
+      ? value.split(',').map(type => type.trim()).filter((type): type is SearchResultType => SEARCH_TYPES.includes(type as SearchResultType))
+      : SEARCH_TYPES),
+  channelType: z.string().trim().min(1).optional(),
+  direction: z.enum(['inbound', 'outbound']).optional(),
+  assignedToUserId: z.coerce.number().int().positive().optional(),
+  from: optionalDate,
+  to: optionalDate,
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * GET /api/search/full
+ * Full-text search over messages (body, email subject and plain text), contacts and notes.
+ * Agents limited to assigned conversations only see hits from conversations assigned to them.
+ */
+router.get('/full', ensureAuthenticated, requireAnyPermission([PERMISSIONS.VIEW_ALL_CONVERSATIONS, PERMISSIONS.VIEW_ASSIGNED_CONVERSATIONS]), async (req: any, res) => {
+  try {
+    const user = req.user;
+    const userPermissions = req.userPermissions;
+
+    if (!user.companyId && !user.isSuperAdmin) {
+      return res.status(400).json({ success: false, error: 'Company ID required' });
+    }
+
+    const validation = searchQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid search parameters',
+        details: validation.error.errors
+      });
+    }
+
+    const { q, types, limit, offset, ...filters } = validation.data;
+    const restrictedToAssigned = userPermissions && !userPermissions[PERMISSIONS.VIEW_ALL_CONVERSATIONS];
+
+    const results = await searchService.search(q, {
+      ...filters,
+      companyId: user.isSuperAdmin ? undefined : user.companyId,
+      assignedToUserId: restrictedToAssigned ? user.id : filters.assignedToUserId
+    }, { types, limit, offset });
+
+    res.json({ success: true, data: results });
+  } catch (error) {
+    console.error('Error performing full-text search:', error);
+    res.status(500).json({ success: false, error: 'Search failed' });
+  }
+});
+
+export default router;
@@ -0,0 +1,160 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ensureAuthenticated, ensureAdmin } from '../middleware';
+import { storage } from '../storage';
+import { slaService } from '../services/sla-service';
+import { businessHoursService } from '../services/business-hours-service';
+
+const router = Router();
+
+const escalationSchema = z.object({
+  reassign: z.boolean().default(false),
+  reassignToUserId: z.number().int().nullable().default(null),
+  notifyAssignee: z.boolean().default(true),
+  notifyUserIds: z.array(z.number().int()).default([]),
+  addTags: z.array(z.string().trim().min(1)).default([])
+});
+
+const policySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  isActive: z.boolean().default(true),
+  priority: z.number().int().min(0).default(0),
+  channelTypes: z.array(z.string().trim().min(1)).default([]),
+  channelIds: z.array(z.number().int()).default([]),
+  contactTags: z.array(z.string().trim().min(1)).default([]),
+  firstResponseMinutes: z.number().int().min(1).max(60 * 24 * 30).nullable().default(null),
+  resolutionMinutes: z.number().int().min(1).max(60 * 24 * 90).nullable().default(null),
+  businessHoursCalendarId: z.number().int().positive().nullable().default(null),
+  escalation: escalationSchema.default({})
+}).refine(data => data.firstResponseMinutes !== null || data.resolutionMinutes !== null, {
+  message: 'Set a first-response or resolution target',
+  path: ['firstResponseMinutes']
+});
+
+/**
+ * Reject channel connections, calendars and users that belong to another company
+ */
+async function validateReferences(companyId: number, data: z.infer<typeof policySchema>): Promise<string | null> {
+  if (data.businessHoursCalendarId) {
+    const calendar = await businessHoursService.getCompanyCalendar(companyId, data.businessHoursCalendarId);
+    if (!calendar) {
+      return 'Business hours calendar not found';
+    }
+  }
+
+  if (data.channelIds.length > 0) {
+    const connections = await storage.getChannelConnectionsByCompany(companyId);
+    const ownedIds = new Set(connections.map(connection => connection.id));
+    const foreign = data.channelIds.filter(id => !ownedIds.has(id));
+    if (foreign.length > 0) {
+      return `Unknown channel connection(s): ${foreign.join(', ')}`;
+    }
+  }
+
+  const userIds = [...data.escalation.notifyUserIds];
+  if (data.escalation.reassignToUserId) {
+    userIds.push(data.escalation.reassignToUserId);
+  }
+  if (userIds.length > 0) {
+    const companyUsers = await storage.getUsersByCompany(companyId);
+    const memberIds = new Set(companyUsers.map(user => user.id));
+    const foreign = userIds.filter(id => !memberIds.has(id));
+    if (foreign.length > 0) {
+      return `Unknown user(s): ${foreign.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+
+router.get('/', ensureAuthenticated, async (req: any, res) => {
+  try {
+    const policies = await slaService.getPolicies(req.user.companyId);
+    res.json({ success: true, data: policies });
+  } catch (error) {
+    console.error('Error fetching SLA policies:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch SLA policies' });
+  }
+});
+
+router.post('/', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = policySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid SLA policy',
+        details: validation.error.errors
+      });
+    }
+
+    const referenceError = await validateReferences(req.user.companyId, validation.data);
+    if (referenceError) {
+      return res.status(400).json({ success: false, error: referenceError });
+    }
+
+    const policy = await slaService.createPolicy(req.user.companyId, validation.data);
+    res.status(201).json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Error creating SLA policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to create SLA policy' });
+  }
+});
+
+router.put('/:id', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid policy ID' });
+    }
+
+    const existing = await slaService.getPolicy(id);
+    if (!existing || existing.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'SLA policy not found' });
+    }
+
+    const validation = policySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid SLA policy',
+        details: validation.error.errors
+      });
+    }
+
+    const referenceError = await validateReferences(req.user.companyId, validation.data);
+    if (referenceError) {
+      return res.status(400).json({ success: false, error: referenceError });
+    }
+
+    const policy = await slaService.updatePolicy(id, validation.data);
+    res.json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Error updating SLA policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to update SLA policy' });
+  }
+});
+
+router.delete('/:id', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: 'Invalid policy ID' });
+    }
+
+    const existing = await slaService.getPolicy(id);
+    if (!existing || existing.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'SLA policy not found' });
+    }
+
+    await slaService.deletePolicy(id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting SLA policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete SLA policy' });
+  }
+});
+
+export default router;
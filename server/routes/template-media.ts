@@ -5,6 +5,7 @@ import fs from 'fs/promises';
 import { ensureAuthenticated, requirePermission } from '../middleware';
 import { User as SelectUser } from '@shared/schema';
 import { dataUsageTracker } from '../services/data-usage-tracker';
+import { mediaStorage } from '../services/media-storage';
 
 const router = express.Router();
 
@@ -141,6 +142,10 @@ router.post('/upload-media',
         });
       }
 
+      mediaStorage.offloadFile(file.path).catch(err => {
+        console.error('Failed to move template media to object storage:', err);
+      });
+
       res.json({
         success: true,
         data: mediaInfo,
@@ -228,6 +233,12 @@ router.post('/upload-multiple-media',
         });
       }
 
+      for (const file of req.files) {
+        mediaStorage.offloadFile(file.path).catch(err => {
+          console.error('Failed to move template media to object storage:', err);
+        });
+      }
+
       res.json({
         success: true,
         data: uploadedFiles,
@@ -276,9 +287,8 @@ router.delete('/media/:filename',
       const filePath = path.join(process.cwd(), 'uploads', 'templates', filename);
       
 
-      try {
-        await fs.access(filePath);
-      } catch (error) {
+      const stats = await mediaStorage.statMedia(filePath);
+      if (!stats) {
         res.status(404).json({
           success: false,
           error: 'File not found'
@@ -286,11 +296,9 @@ router.delete('/media/:filename',
         return;
       }
 
-
-      const stats = await fs.stat(filePath);
       const fileSize = stats.size;
 
-      await fs.unlink(filePath);
+      await mediaStorage.deleteMedia(filePath);
 
 
       const user = req.user as SelectUser;
@@ -334,26 +342,26 @@ router.get('/media/:filename',
       const filePath = path.join(process.cwd(), 'uploads', 'templates', filename);
       
 
-      try {
-        const stats = await fs.stat(filePath);
-        
-        res.json({
-          success: true,
-          data: {
-            filename,
-            size: stats.size,
-            createdAt: stats.birthtime,
-            modifiedAt: stats.mtime,
-            url: `/uploads/templates/${filename}`
-          }
-        });
-      } catch (error) {
+      const stats = await mediaStorage.statMedia(filePath);
+      if (!stats) {
         res.status(404).json({
           success: false,
           error: 'File not found'
         });
+        return;
       }
 
+      res.json({
+        success: true,
+        data: {
+          filename,
+          size: stats.size,
+          createdAt: stats.createdAt,
+          modifiedAt: stats.modifiedAt,
+          url: `/uploads/templates/${filename}`
+        }
+      });
+
     } catch (error) {
       console.error('Template media info error:', error);
       res.status(500).json({
@@ -0,0 +1,197 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { WEBHOOK_EVENTS } from '@shared/schema';
+import { ensureAuthenticated, ensureAdmin } from '../middleware';
+import {
+  toPublicSubscription,
+  validateWebhookUrl,
+  webhookSubscriptionService
+} from '../services/webhook-subscription-service';
+
+const router = Router();
+
+const subscriptionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z.string().trim().url().max(2048),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+  isActive: z.boolean().default(true)
+});
+
+const deliveriesQuerySchema = z.object({
+  subscriptionId: z.coerce.number().int().positive().optional(),
+  status: z.enum(['pending', 'sending', 'delivered', 'failed']).optional(),
+  eventType: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const parseId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+/**
+ * Subscription of the requesting user's company
+ */
+async function loadSubscription(req: any, res: any) {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    res.status(400).json({ success: false, error: 'Invalid webhook ID' });
+    return null;
+  }
+
+  const subscription = await webhookSubscriptionService.getSubscription(id);
+  if (!subscription || subscription.companyId !== req.user.companyId) {
+    res.status(404).json({ success: false, error: 'Webhook not found' });
+    return null;
+  }
+
+  return subscription;
+}
+
+router.get('/', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const subscriptions = await webhookSubscriptionService.getSubscriptions(req.user.companyId);
+    res.json({ success: true, data: subscriptions.map(toPublicSubscription), events: WEBHOOK_EVENTS });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhooks' });
+  }
+});
+
+/**
+ * POST /api/webhook-subscriptions
+ * The signing secret is only included in this response and after rotation
+ */
+router.post('/', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = subscriptionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid webhook',
+        details: validation.error.errors
+      });
+    }
+
+    const urlError = await validateWebhookUrl(validation.data.url);
+    if (urlError) {
+      return res.status(400).json({ success: false, error: urlError });
+    }
+
+    const subscription = await webhookSubscriptionService.createSubscription(req.user.companyId, req.user.id, validation.data);
+    res.status(201).json({ success: true, data: { ...toPublicSubscription(subscription), secret: subscription.secret } });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to create webhook' });
+  }
+});
+
+/**
+ * GET /api/webhook-subscriptions/deliveries
+ * Delivery log of the company, newest first
+ */
+router.get('/deliveries', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const validation = deliveriesQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0]?.message || 'Invalid filters' });
+    }
+
+    const { deliveries, total } = await webhookSubscriptionService.getDeliveries(req.user.companyId, validation.data);
+    res.json({ success: true, data: deliveries, total });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+router.post('/deliveries/:deliveryId/redeliver', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const deliveryId = parseId(req.params.deliveryId);
+    const delivery = deliveryId === null ? null : await webhookSubscriptionService.getDelivery(deliveryId);
+    if (!delivery || delivery.companyId !== req.user.companyId) {
+      return res.status(404).json({ success: false, error: 'Webhook delivery not found' });
+    }
+
+    const redelivery = await webhookSubscriptionService.redeliver(delivery);
+    res.status(201).json({ success: true, data: redelivery });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to redeliver webhook' });
+  }
+});
+
+router.put('/:id', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const existing = await loadSubscription(req, res);
+    if (!existing) return;
+
+    const validation = subscriptionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.errors[0]?.message || 'Invalid webhook',
+        details: validation.error.errors
+      });
+    }
+
+    if (validation.data.url !== existing.url) {
+      const urlError = await validateWebhookUrl(validation.data.url);
+      if (urlError) {
+        return res.status(400).json({ success: false, error: urlError });
+      }
+    }
+
+    const subscription = await webhookSubscriptionService.updateSubscription(existing.id, validation.data);
+    res.json({ success: true, data: toPublicSubscription(subscription) });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to update webhook' });
+  }
+});
+
+/**
+ * POST /api/webhook-subscriptions/:id/rotate-secret
+ * Issue a new signing secret; the previous one keeps signing deliveries for 24 hours
+ */
+router.post('/:id/rotate-secret', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const existing = await loadSubscription(req, res);
+    if (!existing) return;
+
+    const subscription = await webhookSubscriptionService.rotateSecret(existing);
+    res.json({ success: true, data: { ...toPublicSubscription(subscription), secret: subscription.secret } });
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    res.status(500).json({ success: false, error: 'Failed to rotate webhook secret' });
+  }
+});
+
+router.post('/:id/test', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const subscription = await loadSubscription(req, res);
+    if (!subscription) return;
+
+    const delivery = await webhookSubscriptionService.sendTest(subscription);
+    res.status(201).json({ success: true, data: delivery });
+  } catch (error) {
+    console.error('Error sending test webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to send test webhook' });
+  }
+});
+
+router.delete('/:id', ensureAuthenticated, ensureAdmin, async (req: any, res) => {
+  try {
+    const subscription = await loadSubscription(req, res);
+    if (!subscription) return;
+
+    await webhookSubscriptionService.deleteSubscription(subscription);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete webhook' });
+  }
+});
+
+export default router;
@@ -4,8 +4,8 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import elevenLabsService, { ElevenLabsConfig } from './elevenlabs-service';
-import { aiCredentialsService } from './ai-credentials-service';
-import knowledgeBaseService from './knowledge-base-service';
+import { aiCredentialsService, OPENAI_COMPATIBLE_PROVIDER, OpenAICompatibleEndpoint } from './ai-credentials-service';
+import knowledgeBaseService, { type RetrievalResult } from './knowledge-base-service';
 import serverI18n from '../utils/server-i18n';
 
 interface ConversationMessage {
@@ -851,17 +851,118 @@ class OpenRouterProvider implements AIProviderInterface {
   }
 }
 
+/**
+ * Self-hosted server speaking the OpenAI chat completions API (Ollama, vLLM, LM Studio).
+ * Tool support depends on the served model, so a request rejecting tools is retried without them.
+ */
+class OpenAICompatibleProvider implements AIProviderInterface {
+  private client: OpenAI;
+  private defaultModel: string;
+
+  constructor(apiKey: string, endpoint: OpenAICompatibleEndpoint) {
+    this.client = aiCredentialsService.createOpenAICompatibleClient(apiKey, endpoint);
+    this.defaultModel = endpoint.defaultModel;
+  }
+
+  async generateResponse(
+    messages: ConversationMessage[],
+    options: Parameters<AIProviderInterface['generateResponse']>[1]
+  ): Promise<{
+    text: string;
+    audioUrl?: string;
+    functionCalls?: any[];
+  }> {
+    const openAIMessages = messages.map(msg => ({
+      role: msg.role as 'system' | 'user' | 'assistant',
+      content: msg.content
+    }));
+
+    if (options.systemPrompt && !messages.find(m => m.role === 'system')) {
+      openAIMessages.unshift({
+        role: 'system',
+        content: options.systemPrompt
+      });
+    }
+
+    const tools = options.enableFunctionCalling && options.functionDefinitions
+      ? options.functionDefinitions.map(func => ({
+        type: 'function',
+        function: {
+          name: func.name,
+          description: func.description,
+          parameters: func.parameters
+        }
+      }))
+      : [];
+
+    const runRequest = (withTools: boolean) => {
+      const requestParams: any = {
+        model: options.model || this.defaultModel,
+        messages: openAIMessages,
+        max_tokens: 4096,
+        temperature: 0.7
+      };
+      if (withTools) {
+        requestParams.tools = tools;
+        requestParams.tool_choice = 'auto';
+      }
+      return this.client.chat.completions.create(requestParams);
+    };
+
+    try {
+      let response;
+      try {
+        response = await runRequest(tools.length > 0);
+      } catch (error) {
+        if (tools.length === 0) throw error;
+        console.warn('OpenAI-compatible Provider: Model rejected tools, retrying without them', error);
+        response = await runRequest(false);
+      }
+
+      const functionCalls: Array<{ name: string, arguments: any }> = [];
+      for (const toolCall of response.choices[0]?.message?.tool_calls || []) {
+        if (toolCall.type === 'function') {
+          functionCalls.push({
+            name: toolCall.function.name,
+            arguments: JSON.parse(toolCall.function.arguments || '{}')
+          });
+        }
+      }
+
+      return {
+        text: response.choices[0]?.message?.content || "",
+        functionCalls: functionCalls.length > 0 ? functionCalls : undefined
+      };
+    } catch (error) {
+      console.error('OpenAI-compatible Provider: Error in generateResponse', error);
+      return { text: "" };
+    }
+  }
+}
+
 class TranslationService {
+  /**
+   * Client and model used for detection and translation, or null when the provider has no chat client here
+   */
+  private getChatClient(provider: string, apiKey: string, endpoint?: OpenAICompatibleEndpoint): { client: OpenAI; model: string } | null {
+    if (provider === 'openai') {
+      return { client: new OpenAI({ apiKey: apiKey || process.env.OPENAI_API_KEY }), model: 'gpt-3.5-turbo' };
+    }
+    if (provider === OPENAI_COMPATIBLE_PROVIDER && endpoint?.defaultModel) {
+      return { client: aiCredentialsService.createOpenAICompatibleClient(apiKey, endpoint), model: endpoint.defaultModel };
+    }
+    return null;
+  }
+
   /**
    * Detect if text is in a foreign language (not the target language)
    */
-  async detectLanguage(text: string, provider: string, apiKey: string): Promise<string> {
+  async detectLanguage(text: string, provider: string, apiKey: string, endpoint?: OpenAICompatibleEndpoint): Promise<string> {
     try {
-      if (provider === 'openai') {
-        const openai = new OpenAI({ apiKey: apiKey || process.env.OPENAI_API_KEY });
-
-        const response = await openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
+      const chat = this.getChatClient(provider, apiKey, endpoint);
+      if (chat) {
+        const response = await chat.client.chat.completions.create({
+          model: chat.model,
           messages: [
             {
               role: 'system',
@@ -921,12 +1022,12 @@ class TranslationService {
     text: string,
     targetLanguage: string,
     provider: string,
-    apiKey: string
+    apiKey: string,
+    endpoint?: OpenAICompatibleEndpoint
   ): Promise<string> {
     try {
-      if (provider === 'openai') {
-        const openai = new OpenAI({ apiKey: apiKey || process.env.OPENAI_API_KEY });
-
+      const chat = this.getChatClient(provider, apiKey, endpoint);
+      if (chat) {
         const languageNames: Record<string, string> = {
           en: 'English', es: 'Spanish', fr: 'French', de: 'German', it: 'Italian',
           pt: 'Portuguese', ru: 'Russian', ja: 'Japanese', ko: 'Korean', zh: 'Chinese',
@@ -939,8 +1040,8 @@ class TranslationService {
 
         const targetLanguageName = languageNames[targetLanguage] || targetLanguage;
 
-        const response = await openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
+        const response = await chat.client.chat.completions.create({
+          model: chat.model,
           messages: [
             {
               role: 'system',
@@ -959,6 +1060,11 @@ class TranslationService {
       }
 
 
+      if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+        console.warn('Translation: No self-hosted endpoint configured, leaving text untranslated');
+        return text;
+      }
+
       console.warn('Google Translate provider not yet implemented, using OpenAI fallback');
       return await this.translateText(text, targetLanguage, 'openai', apiKey);
 
@@ -975,11 +1081,12 @@ class TranslationService {
     text: string,
     targetLanguage: string,
     provider: string,
-    apiKey: string
+    apiKey: string,
+    endpoint?: OpenAICompatibleEndpoint
   ): Promise<{ needsTranslation: boolean; translatedText?: string; detectedLanguage?: string }> {
     try {
 
-      const detectedLanguage = await this.detectLanguage(text, provider, apiKey);
+      const detectedLanguage = await this.detectLanguage(text, provider, apiKey, endpoint);
 
 
       const needsTranslation = detectedLanguage !== targetLanguage && detectedLanguage !== 'unknown';
@@ -989,7 +1096,7 @@ class TranslationService {
       }
 
 
-      const translatedText = await this.translateText(text, targetLanguage, provider, apiKey);
+      const translatedText = await this.translateText(text, targetLanguage, provider, apiKey, endpoint);
 
       return {
         needsTranslation: true,
@@ -1025,6 +1132,27 @@ class AIAssistantService {
     return Math.ceil((charBasedTokens + wordBasedTokens) / 2);
   }
 
+  /**
+   * Append the title and section of each knowledge base passage the reply cites as [n]
+   */
+  private async appendCitations(text: string, sources: RetrievalResult[], language: string): Promise<string> {
+    if (!text) return text;
+
+    const cited = new Set(Array.from(text.matchAll(/\[(\d+)\]/g), match => parseInt(match[1])));
+    const lines = sources
+      .map((source, index) => ({ source, number: index + 1 }))
+      .filter(({ number }) => cited.has(number))
+      .map(({ source, number }) => {
+        const title = [source.document.originalName, source.chunk.section].filter(Boolean).join(' — ');
+        return source.document.sourceUrl ? `[${number}] ${title} (${source.document.sourceUrl})` : `[${number}] ${title}`;
+      });
+
+    if (lines.length === 0) return text;
+
+    const heading = await serverI18n.t('ai_assistant.knowledge_base_citations_heading', language, 'Sources:');
+    return `${text}\n\n${heading}\n${lines.join('\n')}`;
+  }
+
   /**
    * Generate audio capability prompt based on configuration
    */
@@ -1170,13 +1298,23 @@ ${importantTitle}
 ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabilities.length - 1] : ''}`.trim();
   }
 
-  private async getProvider(provider: string, apiKey: string, companyId?: number): Promise<AIProviderInterface> {
+  private async getProvider(
+    provider: string,
+    apiKey: string,
+    companyId?: number,
+    endpoint?: OpenAICompatibleEndpoint
+  ): Promise<AIProviderInterface> {
 
     if (!provider) {
       provider = 'openai';
     }
 
 
+    if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+      return this.getOpenAICompatibleProvider(apiKey, companyId, endpoint);
+    }
+
+
     if (apiKey) {
       return this.createProviderInstance(provider, apiKey);
     }
@@ -1214,12 +1352,40 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
     throw new Error(errorMessage);
   }
 
-  private createProviderInstance(provider: string, apiKey: string): AIProviderInterface {
+  /**
+   * Self-hosted endpoints never fall back to a cloud provider, so conversations stay on the company's servers
+   */
+  private async getOpenAICompatibleProvider(
+    apiKey: string,
+    companyId?: number,
+    endpoint?: OpenAICompatibleEndpoint
+  ): Promise<AIProviderInterface> {
+    if (endpoint) {
+      return this.createProviderInstance(OPENAI_COMPATIBLE_PROVIDER, apiKey, endpoint);
+    }
+
+    const credentialSource = companyId
+      ? await aiCredentialsService.getCredentialForCompany(companyId, OPENAI_COMPATIBLE_PROVIDER)
+      : aiCredentialsService.getEnvironmentCredential(OPENAI_COMPATIBLE_PROVIDER);
+
+    if (!credentialSource?.endpoint) {
+      throw new Error('No OpenAI-compatible endpoint configured. Please add a self-hosted AI credential in the AI settings.');
+    }
+
+    return this.createProviderInstance(OPENAI_COMPATIBLE_PROVIDER, apiKey || credentialSource.apiKey, credentialSource.endpoint);
+  }
+
+  private createProviderInstance(provider: string, apiKey: string, endpoint?: OpenAICompatibleEndpoint): AIProviderInterface {
     switch (provider.toLowerCase()) {
       case 'openai':
         return new OpenAIProvider(apiKey);
       case 'openrouter':
         return new OpenRouterProvider(apiKey);
+      case OPENAI_COMPATIBLE_PROVIDER:
+        if (!endpoint) {
+          throw new Error('OpenAI-compatible provider requires a base URL');
+        }
+        return new OpenAICompatibleProvider(apiKey, endpoint);
       default:
         throw new Error(`Unsupported AI provider: ${provider}`);
     }
@@ -1231,6 +1397,8 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
         return process.env.OPENAI_API_KEY || null;
       case 'openrouter':
         return process.env.OPENROUTER_API_KEY || null;
+      case OPENAI_COMPATIBLE_PROVIDER:
+        return process.env.OPENAI_COMPATIBLE_API_KEY || null;
       default:
         return null;
     }
@@ -1245,6 +1413,7 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
       provider: string;
       model: string;
       apiKey: string;
+      endpoint?: OpenAICompatibleEndpoint;
       systemPrompt: string;
       enableHistory: boolean;
       historyLimit?: number;
@@ -1300,7 +1469,7 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
   }> {
     try {
 
-      const provider = await this.getProvider(config.provider, config.apiKey, companyId);
+      const provider = await this.getProvider(config.provider, config.apiKey, companyId, config.endpoint);
 
 
       let language = config.language || 'en';
@@ -1315,11 +1484,13 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
             try {
 
               let detectionApiKey = config.apiKey;
-              if (!detectionApiKey && companyId) {
+              let detectionEndpoint = config.endpoint;
+              if ((!detectionApiKey || (config.provider === OPENAI_COMPATIBLE_PROVIDER && !detectionEndpoint)) && companyId) {
                 try {
                   const credentialSource = await aiCredentialsService.getCredentialForCompany(companyId, config.provider);
                   if (credentialSource) {
-                    detectionApiKey = credentialSource.apiKey;
+                    detectionApiKey = detectionApiKey || credentialSource.apiKey;
+                    detectionEndpoint = detectionEndpoint || credentialSource.endpoint;
                   }
                 } catch (error) {
 
@@ -1332,7 +1503,8 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
               const detectedLang = await this.translationService.detectLanguage(
                 messageContent,
                 config.provider,
-                detectionApiKey
+                detectionApiKey,
+                detectionEndpoint
               );
               
 
@@ -1407,6 +1579,7 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
 
 
       let knowledgeBaseContext = '';
+      let citationSources: RetrievalResult[] = [];
       if (config.knowledgeBaseEnabled && config.nodeId && companyId) {
         try {
           const userQuery = message.content || '';
@@ -1416,7 +1589,8 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
           const retrievalResults = await knowledgeBaseService.retrieveContext(
             companyId,
             config.nodeId,
-            userQuery
+            userQuery,
+            { language }
           );
 
           if (retrievalResults && retrievalResults.length > 0) {
@@ -1429,22 +1603,42 @@ ${config.enableTextToSpeech && capabilities.length > 0 ? capabilities[capabiliti
             const contextTemplate = kbConfig.contextTemplate || defaultTemplate.replace('{context}', '{{context}}');
 
 
-            const contextChunksPromises = retrievalResults
-              .slice(0, maxChunks)
+            const usedResults = retrievalResults.slice(0, maxChunks);
+            const nodeKnowledgeBaseConfig = await knowledgeBaseService.getNodeConfig(companyId, config.nodeId);
+            const citationsEnabled = !!nodeKnowledgeBaseConfig?.citationsEnabled;
+
+            const contextChunksPromises = usedResults
               .map(async (result, index) => {
                 const similarity = (result.similarity * 100).toFixed(1);
-                const label = await serverI18n.t(
-                  'ai_assistant.knowledge_base_document_label',
-                  language,
-                  `[Document: ${result.document.originalName}] (Relevance: ${similarity}%)`,
-                  { name: result.document.originalName, similarity }
-                );
-                return `${label}\n${result.chunk.content}`;
+                const label = result.matchedBy.includes('vector')
+                  ? await serverI18n.t(
+                    'ai_assistant.knowledge_base_document_label',
+                    language,
+                    `[Document: ${result.document.originalName}] (Relevance: ${similarity}%)`,
+                    { name: result.document.originalName, similarity }
+                  )
+                  : await serverI18n.t(
+                    'ai_assistant.knowledge_base_document_keyword_label',
+                    language,
+                    `[Document: ${result.document.originalName}] (Keyword match)`,
+                    { name: result.document.originalName }
+                  );
+                const sourceNumber = citationsEnabled ? `[${index + 1}] ` : '';
+                return `${sourceNumber}${label}\n${result.chunk.content}`;
               });
             const contextChunks = (await Promise.all(contextChunksPromises)).join('\n\n---\n\n');
 
             knowledgeBaseContext = contextTemplate.replace('{context}', contextChunks);
 
+            if (citationsEnabled) {
+              const citationInstruction = await serverI18n.t(
+                'ai_assistant.knowledge_base_citation_instruction',
+                language,
+                'When you use information from a numbered knowledge base passage, cite it with its number in square brackets, for example [1].'
+              );
+              knowledgeBaseContext = `${knowledgeBaseContext}\n\n${citationInstruction}`;
+              citationSources = usedResults;
+            }
 
           }
         } catch (error) {
@@ -1723,6 +1917,9 @@ ${languageInstruction}`;
 
         return {
           ...response,
+          text: citationSources.length > 0
+            ? await this.appendCitations(response.text, citationSources, language)
+            : response.text,
           triggeredTasks,
           triggeredCalendarFunctions,
           triggeredZohoCalendarFunctions,
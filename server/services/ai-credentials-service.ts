@@ -16,7 +16,19 @@ import { eq, and, desc, sql } from 'drizzle-orm';
 import crypto from 'crypto';
 import OpenAI from 'openai';
 
+/** Provider id of self-hosted servers speaking the OpenAI API (Ollama, vLLM, LM Studio) */
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai_compatible';
 
+/**
+ * Connection settings of an OpenAI-compatible server, stored in the credential metadata
+ */
+export interface OpenAICompatibleEndpoint {
+  baseUrl: string;
+  /** Header carrying the API key; Authorization sends it as a bearer token */
+  authHeader?: string;
+  defaultModel: string;
+  embeddingModel?: string;
+}
 
 interface ValidationResult {
   isValid: boolean;
@@ -28,6 +40,7 @@ interface CredentialSource {
   type: 'system' | 'company' | 'environment';
   credential?: SystemAiCredential | CompanyAiCredential;
   apiKey: string;
+  endpoint?: OpenAICompatibleEndpoint;
 }
 
 /**
@@ -69,13 +82,15 @@ export class AiCredentialsService {
   /**
    * Validate API key with the respective provider
    */
-  async validateApiKey(provider: string, apiKey: string): Promise<ValidationResult> {
+  async validateApiKey(provider: string, apiKey: string, endpoint?: OpenAICompatibleEndpoint): Promise<ValidationResult> {
     try {
       switch (provider.toLowerCase()) {
         case 'openai':
           return await this.validateOpenAIKey(apiKey);
         case 'openrouter':
           return await this.validateOpenRouterKey(apiKey);
+        case OPENAI_COMPATIBLE_PROVIDER:
+          return await this.validateOpenAICompatibleEndpoint(apiKey, endpoint);
         default:
           return { isValid: false, error: 'Unsupported provider' };
       }
@@ -137,6 +152,66 @@ export class AiCredentialsService {
     }
   }
 
+  private async validateOpenAICompatibleEndpoint(apiKey: string, endpoint?: OpenAICompatibleEndpoint): Promise<ValidationResult> {
+    if (!endpoint) {
+      return { isValid: false, error: 'Base URL and default model are required' };
+    }
+
+    try {
+      const models = await this.listOpenAICompatibleModels(apiKey, endpoint);
+      const missing = [endpoint.defaultModel, endpoint.embeddingModel].filter(
+        (model): model is string => !!model && !models.includes(model)
+      );
+      if (missing.length > 0) {
+        return { isValid: false, error: `Model(s) not served by this endpoint: ${missing.join(', ')}` };
+      }
+      return { isValid: true, metadata: { modelCount: models.length } };
+    } catch (error: any) {
+      return {
+        isValid: false,
+        error: error.message || 'Could not reach the OpenAI-compatible endpoint'
+      };
+    }
+  }
+
+  /**
+   * Create a client for a self-hosted server. The key is optional and sent in the
+   * configured header, so servers without auth receive no Authorization header.
+   */
+  createOpenAICompatibleClient(apiKey: string, endpoint: OpenAICompatibleEndpoint): OpenAI {
+    const authHeader = endpoint.authHeader || 'Authorization';
+    const useBearer = !!apiKey && authHeader.toLowerCase() === 'authorization';
+
+    return new OpenAI({
+      apiKey: useBearer ? apiKey : '',
+      baseURL: endpoint.baseUrl,
+      defaultHeaders: useBearer ? {} : {
+        Authorization: null,
+        ...(apiKey ? { [authHeader]: apiKey } : {})
+      }
+    });
+  }
+
+  /**
+   * Discover the models served by an OpenAI-compatible endpoint via GET /models
+   */
+  async listOpenAICompatibleModels(apiKey: string, endpoint: OpenAICompatibleEndpoint): Promise<string[]> {
+    const client = this.createOpenAICompatibleClient(apiKey, endpoint);
+    const response = await client.models.list();
+    return response.data.map(model => model.id).sort();
+  }
+
+  private getEndpoint(metadata: unknown): OpenAICompatibleEndpoint | undefined {
+    const endpoint = metadata as Partial<OpenAICompatibleEndpoint> | null;
+    if (!endpoint?.baseUrl) return undefined;
+    return {
+      baseUrl: endpoint.baseUrl,
+      authHeader: endpoint.authHeader,
+      defaultModel: endpoint.defaultModel || '',
+      embeddingModel: endpoint.embeddingModel
+    };
+  }
+
 
 
   /**
@@ -146,7 +221,7 @@ export class AiCredentialsService {
     const { apiKey, ...credentialData } = data;
     
 
-    const validation = await this.validateApiKey(data.provider, apiKey);
+    const validation = await this.validateApiKey(data.provider, apiKey, this.getEndpoint(data.metadata));
     
     const encryptedKey = this.encryptApiKey(apiKey);
     
@@ -168,7 +243,7 @@ export class AiCredentialsService {
     const { apiKey, ...credentialData } = data;
     
 
-    const validation = await this.validateApiKey(data.provider, apiKey);
+    const validation = await this.validateApiKey(data.provider, apiKey, this.getEndpoint(data.metadata));
     
     const encryptedKey = this.encryptApiKey(apiKey);
     
@@ -208,7 +283,8 @@ export class AiCredentialsService {
         return {
           type: 'company',
           credential: companyCredential,
-          apiKey: this.decryptApiKey(companyCredential.apiKeyEncrypted)
+          apiKey: this.decryptApiKey(companyCredential.apiKeyEncrypted),
+          endpoint: this.getEndpoint(companyCredential.metadata)
         };
       }
     }
@@ -227,21 +303,14 @@ export class AiCredentialsService {
         return {
           type: 'system',
           credential: systemCredential,
-          apiKey: this.decryptApiKey(systemCredential.apiKeyEncrypted)
+          apiKey: this.decryptApiKey(systemCredential.apiKeyEncrypted),
+          endpoint: this.getEndpoint(systemCredential.metadata)
         };
       }
     }
 
 
-    const envKey = this.getEnvironmentKey(provider);
-    if (envKey) {
-      return {
-        type: 'environment',
-        apiKey: envKey
-      };
-    }
-
-    return null;
+    return this.getEnvironmentCredential(provider);
   }
 
   /**
@@ -270,7 +339,8 @@ export class AiCredentialsService {
         return {
           type: 'company',
           credential: companyCredential,
-          apiKey: this.decryptApiKey(companyCredential.apiKeyEncrypted)
+          apiKey: this.decryptApiKey(companyCredential.apiKeyEncrypted),
+          endpoint: this.getEndpoint(companyCredential.metadata)
         };
       }
 
@@ -294,7 +364,8 @@ export class AiCredentialsService {
         return {
           type: 'system',
           credential: systemCredential,
-          apiKey: this.decryptApiKey(systemCredential.apiKeyEncrypted)
+          apiKey: this.decryptApiKey(systemCredential.apiKeyEncrypted),
+          endpoint: this.getEndpoint(systemCredential.metadata)
         };
       }
 
@@ -306,18 +377,30 @@ export class AiCredentialsService {
 
 
     if (credentialPreference === 'auto') {
-      const envKey = this.getEnvironmentKey(provider);
-      if (envKey) {
-        return {
-          type: 'environment',
-          apiKey: envKey
-        };
-      }
+      return this.getEnvironmentCredential(provider);
     }
 
     return null;
   }
 
+  /**
+   * Environment fallback; a self-hosted endpoint is configured with OPENAI_COMPATIBLE_* variables
+   */
+  getEnvironmentCredential(provider: string): CredentialSource | null {
+    if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+      const endpoint = this.getEndpoint({
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+        authHeader: process.env.OPENAI_COMPATIBLE_AUTH_HEADER,
+        defaultModel: process.env.OPENAI_COMPATIBLE_MODEL,
+        embeddingModel: process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL
+      });
+      return endpoint ? { type: 'environment', apiKey: this.getEnvironmentKey(provider) || '', endpoint } : null;
+    }
+
+    const envKey = this.getEnvironmentKey(provider);
+    return envKey ? { type: 'environment', apiKey: envKey } : null;
+  }
+
   private getEnvironmentKey(provider: string): string | null {
     switch (provider.toLowerCase()) {
       case 'openai':
@@ -325,6 +408,8 @@ export class AiCredentialsService {
       case 'anthropic':
       case 'claude':
         return process.env.ANTHROPIC_API_KEY || null;
+      case OPENAI_COMPATIBLE_PROVIDER:
+        return process.env.OPENAI_COMPATIBLE_API_KEY || null;
       default:
         return null;
     }
@@ -454,14 +539,18 @@ export class AiCredentialsService {
     };
 
 
-    if (apiKey && apiKey.trim() !== '') {
-      const provider = updateData.provider || currentCredential.provider;
+    const provider = updateData.provider || currentCredential.provider;
+    const hasNewKey = !!apiKey && apiKey.trim() !== '';
+
+    if (hasNewKey || (provider === OPENAI_COMPATIBLE_PROVIDER && updateData.metadata)) {
+      const key = hasNewKey ? apiKey! : this.decryptApiKey(currentCredential.apiKeyEncrypted);
+      const endpoint = this.getEndpoint(updateData.metadata ?? currentCredential.metadata);
 
 
-      const validation = await this.validateApiKey(provider, apiKey);
+      const validation = await this.validateApiKey(provider, key, endpoint);
 
 
-      updateFields.apiKeyEncrypted = this.encryptApiKey(apiKey);
+      updateFields.apiKeyEncrypted = this.encryptApiKey(key);
       updateFields.validationStatus = validation.isValid ? 'valid' : 'invalid';
       updateFields.validationError = validation.error;
       updateFields.lastValidatedAt = new Date();
@@ -512,14 +601,18 @@ export class AiCredentialsService {
     };
 
 
-    if (apiKey && apiKey.trim() !== '') {
-      const provider = updateData.provider || currentCredential.provider;
+    const provider = updateData.provider || currentCredential.provider;
+    const hasNewKey = !!apiKey && apiKey.trim() !== '';
+
+    if (hasNewKey || (provider === OPENAI_COMPATIBLE_PROVIDER && updateData.metadata)) {
+      const key = hasNewKey ? apiKey! : this.decryptApiKey(currentCredential.apiKeyEncrypted);
+      const endpoint = this.getEndpoint(updateData.metadata ?? currentCredential.metadata);
 
 
-      const validation = await this.validateApiKey(provider, apiKey);
+      const validation = await this.validateApiKey(provider, key, endpoint);
 
 
-      updateFields.apiKeyEncrypted = this.encryptApiKey(apiKey);
+      updateFields.apiKeyEncrypted = this.encryptApiKey(key);
       updateFields.validationStatus = validation.isValid ? 'valid' : 'invalid';
       updateFields.validationError = validation.error;
       updateFields.lastValidatedAt = new Date();
@@ -565,7 +658,7 @@ export class AiCredentialsService {
 
 
     const apiKey = this.decryptApiKey(credential.apiKeyEncrypted);
-    const validation = await this.validateApiKey(credential.provider, apiKey);
+    const validation = await this.validateApiKey(credential.provider, apiKey, this.getEndpoint(credential.metadata));
 
 
     await this.updateValidationStatus(
@@ -593,7 +686,7 @@ export class AiCredentialsService {
 
 
     const apiKey = this.decryptApiKey(credential.apiKeyEncrypted);
-    const validation = await this.validateApiKey(credential.provider, apiKey);
+    const validation = await this.validateApiKey(credential.provider, apiKey, this.getEndpoint(credential.metadata));
 
 
     await this.updateValidationStatus(
@@ -1,5 +1,5 @@
 import OpenAI from 'openai';
-import { aiCredentialsService } from './ai-credentials-service';
+import { aiCredentialsService, OPENAI_COMPATIBLE_PROVIDER } from './ai-credentials-service';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
 
@@ -41,6 +41,7 @@ interface ChatRequest {
   companyId: number;
   userId: number;
   credentialSource?: 'auto' | 'company' | 'system';
+  provider?: 'openai' | typeof OPENAI_COMPATIBLE_PROVIDER;
 }
 
 interface ChatResponse {
@@ -65,8 +66,28 @@ class AIFlowAssistantService {
    */
   private async getOpenAIClient(
     companyId: number,
-    credentialSource: 'auto' | 'company' | 'system' = 'auto'
-  ): Promise<OpenAI> {
+    credentialSource: 'auto' | 'company' | 'system' = 'auto',
+    provider: 'openai' | typeof OPENAI_COMPATIBLE_PROVIDER = 'openai'
+  ): Promise<{ client: OpenAI; model: string }> {
+    if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+      const credentialResult = await aiCredentialsService.getCredentialWithPreference(companyId, provider, credentialSource);
+
+      if (!credentialResult?.endpoint) {
+        throw new Error('No OpenAI-compatible endpoint configured. Please add a self-hosted AI credential in the AI settings.');
+      }
+
+      logger.info('AIFlowAssistant', `Using ${credentialResult.type} credentials for the OpenAI-compatible endpoint`, {
+        companyId,
+        credentialSource,
+        model: credentialResult.endpoint.defaultModel
+      });
+
+      return {
+        client: aiCredentialsService.createOpenAICompatibleClient(credentialResult.apiKey, credentialResult.endpoint),
+        model: credentialResult.endpoint.defaultModel
+      };
+    }
+
     try {
 
       const credentialResult = await aiCredentialsService.getCredentialWithPreference(
@@ -91,7 +112,7 @@ class AIFlowAssistantService {
         credentialType: credentialResult.type
       });
 
-      return new OpenAI({ apiKey: credentialResult.apiKey });
+      return { client: new OpenAI({ apiKey: credentialResult.apiKey }), model: 'gpt-4o' };
     } catch (error) {
       logger.error('AIFlowAssistant', 'Failed to get OpenAI credentials', error);
       throw error;
@@ -109,9 +130,10 @@ class AIFlowAssistantService {
     );
 
     try {
-      const openai = await this.getOpenAIClient(
+      const { client: openai, model } = await this.getOpenAIClient(
         request.companyId,
-        request.credentialSource || 'auto'
+        request.credentialSource || 'auto',
+        request.provider || 'openai'
       );
 
 
@@ -128,7 +150,7 @@ class AIFlowAssistantService {
 
 
       const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
+        model,
         messages,
         temperature: 0.7,
         max_tokens: 2000,
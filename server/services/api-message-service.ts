@@ -7,6 +7,7 @@ import telegramService from './channels/telegram';
 import instagramService from './channels/instagram';
 import messengerService from './channels/messenger';
 import twilioSmsService from './channels/twilio-sms';
+import { channelAdapterRegistry } from './channel-adapters/channel-adapter-registry';
 
 export interface SendMessageRequest {
   channelId: number;
@@ -623,8 +624,18 @@ class ApiMessageService {
           message
         );
 
-      default:
-        throw new Error(`Unsupported channel type: ${connection.channelType}`);
+      default: {
+        const adapter = channelAdapterRegistry.getInboxAdapter(connection.channelType);
+        if (!adapter) {
+          throw new Error(`Unsupported channel type: ${connection.channelType}`);
+        }
+
+        const result = await adapter.sendText({ connection, recipient: to, userId: systemUserId, isFromBot: true }, message);
+        if (!result.success) {
+          throw new Error(result.error || `Failed to send ${adapter.displayName} message`);
+        }
+        return result.data;
+      }
     }
   }
 
@@ -726,8 +737,21 @@ class ApiMessageService {
           mediaUrl
         );
 
-      default:
-        throw new Error(`Unsupported channel type for media: ${connection.channelType}`);
+      default: {
+        const adapter = channelAdapterRegistry.getInboxAdapter(connection.channelType);
+        if (!adapter?.sendMedia) {
+          throw new Error(`Unsupported channel type for media: ${connection.channelType}`);
+        }
+
+        const result = await adapter.sendMedia(
+          { connection, recipient: to, userId: systemUserId, isFromBot: true },
+          { type: mediaType, url: mediaUrl, caption, filename }
+        );
+        if (!result.success) {
+          throw new Error(result.error || `Failed to send ${adapter.displayName} media message`);
+        }
+        return result.data;
+      }
     }
   }
 
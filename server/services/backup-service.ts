@@ -1037,6 +1037,11 @@ export class BackupService {
           await googleDriveService.downloadBackup(backup.filename, filePath);
           fileDownloaded = true;
           emitProgress('download_completed', 'Download completed successfully', 15);
+        } else if (backup.storage_locations.includes('s3') && storageProviderRegistry.has('s3')) {
+          emitProgress('downloading', 'Downloading backup from S3...', 5);
+          await storageProviderRegistry.get('s3')!.downloadBackup({ filename: backup.filename, destinationPath: filePath });
+          fileDownloaded = true;
+          emitProgress('download_completed', 'Download completed successfully', 15);
         } else {
           const errorMsg = 'Backup file not found locally or in cloud storage';
           emitProgress('failed', errorMsg, 0);
@@ -1978,6 +1983,7 @@ export class BackupService {
     storage_usage: {
       local: number;
       google_drive: number;
+      s3: number;
     };
   }> {
     try {
@@ -1985,7 +1991,7 @@ export class BackupService {
 
       const totalSize = backups.reduce((sum, backup) => sum + backup.size, 0);
       const localBackups = backups.filter(b => b.storage_locations.includes('local')).length;
-      const cloudBackups = backups.filter(b => b.storage_locations.includes('google_drive')).length;
+      const cloudBackups = backups.filter(b => b.storage_locations.some(location => location !== 'local')).length;
 
       const dates = backups.map(b => new Date(b.created_at));
       const oldestBackup = dates.length > 0 ? new Date(Math.min(...dates.map(d => d.getTime()))) : null;
@@ -1999,6 +2005,10 @@ export class BackupService {
         .filter(b => b.storage_locations.includes('google_drive'))
         .reduce((sum, backup) => sum + backup.size, 0);
 
+      const s3Size = backups
+        .filter(b => b.storage_locations.includes('s3'))
+        .reduce((sum, backup) => sum + backup.size, 0);
+
       return {
         total_backups: backups.length,
         total_size: totalSize,
@@ -2008,7 +2018,8 @@ export class BackupService {
         newest_backup: newestBackup,
         storage_usage: {
           local: localSize,
-          google_drive: cloudSize
+          google_drive: cloudSize,
+          s3: s3Size
         }
       };
     } catch (error) {
@@ -2022,7 +2033,8 @@ export class BackupService {
         newest_backup: null,
         storage_usage: {
           local: 0,
-          google_drive: 0
+          google_drive: 0,
+          s3: 0
         }
       };
     }
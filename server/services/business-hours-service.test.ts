@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BusinessHoursCalendar } from '@shared/schema';
+
+vi.mock('../db', () => ({ db: {} }));
+
+const { parseICalHolidays, toBusinessHours } = await import('./business-hours-service');
+
+const calendarFile = (...events: string[][]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Test//Holidays//EN',
+  ...events.flatMap(event => ['BEGIN:VEVENT', ...event, 'END:VEVENT']),
+  'END:VCALENDAR'
+].join('\r\n');
+
+describe('parseICalHolidays', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-06-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads all-day events with an exclusive end date', () => {
+    const holidays = parseICalHolidays(calendarFile(
+      ['DTSTART;VALUE=DATE:20261225', 'DTEND;VALUE=DATE:20261226', 'SUMMARY:Christmas Day'],
+      ['DTSTART;VALUE=DATE:20260101', 'SUMMARY:New Year']
+    ), 'UTC');
+
+    expect(holidays).toEqual([
+      { date: '2026-01-01', name: 'New Year', source: 'ical' },
+      { date: '2026-12-25', name: 'Christmas Day', source: 'ical' }
+    ]);
+  });
+
+  it('closes every day of a multi-day event', () => {
+    const holidays = parseICalHolidays(calendarFile(
+      ['DTSTART;VALUE=DATE:20261224', 'DTEND;VALUE=DATE:20261227', 'SUMMARY:Winter break']
+    ), 'UTC');
+
+    expect(holidays.map(holiday => holiday.date)).toEqual(['2026-12-24', '2026-12-25', '2026-12-26']);
+  });
+
+  it('includes the end day of timed events', () => {
+    const holidays = parseICalHolidays(calendarFile(
+      ['DTSTART:20260501T090000', 'DTEND:20260502T170000', 'SUMMARY:Offsite']
+    ), 'UTC');
+
+    expect(holidays.map(holiday => holiday.date)).toEqual(['2026-05-01', '2026-05-02']);
+  });
+
+  it('converts UTC times to the calendar timezone', () => {
+    const event = ['DTSTART:20260704T030000Z', 'SUMMARY:Independence Day'];
+
+    expect(parseICalHolidays(calendarFile(event), 'America/New_York')[0].date).toBe('2026-07-03');
+    expect(parseICalHolidays(calendarFile(event), 'Europe/Berlin')[0].date).toBe('2026-07-04');
+  });
+
+  it('unfolds lines and unescapes text', () => {
+    const holidays = parseICalHolidays(
+      'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART;VALUE=DATE:20261231\r\nSUMMARY:Office closed\\, ye\r\n ar end\\; see you\r\nEND:VEVENT\r\nEND:VCALENDAR',
+      'UTC'
+    );
+
+    expect(holidays).toEqual([{ date: '2026-12-31', name: 'Office closed, year end; see you', source: 'ical' }]);
+  });
+
+  it('skips cancelled and malformed events', () => {
+    const holidays = parseICalHolidays(calendarFile(
+      ['DTSTART;VALUE=DATE:20260301', 'STATUS:CANCELLED', 'SUMMARY:Cancelled'],
+      ['DTSTART:tomorrow', 'SUMMARY:Broken'],
+      ['SUMMARY:No date']
+    ), 'UTC');
+
+    expect(holidays).toEqual([]);
+  });
+
+  it('expands yearly events from last year to two years ahead', () => {
+    const holidays = parseICalHolidays(calendarFile(
+      ['DTSTART;VALUE=DATE:20100501', 'RRULE:FREQ=YEARLY', 'SUMMARY:Labour Day']
+    ), 'UTC');
+
+    expect(holidays.map(holiday => holiday.date)).toEqual(['2025-05-01', '2026-05-01', '2027-05-01', '2028-05-01']);
+  });
+
+  it('only repeats February 29 in leap years', () => {
+    const holidays = parseICalHolidays(calendarFile(
+      ['DTSTART;VALUE=DATE:20240229', 'RRULE:FREQ=YEARLY', 'SUMMARY:Leap day']
+    ), 'UTC');
+
+    expect(holidays.map(holiday => holiday.date)).toEqual(['2028-02-29']);
+  });
+
+  it('keeps the first name of overlapping events', () => {
+    const holidays = parseICalHolidays(calendarFile(
+      ['DTSTART;VALUE=DATE:20261225', 'SUMMARY:Christmas Day'],
+      ['DTSTART;VALUE=DATE:20261224', 'DTEND;VALUE=DATE:20261227', 'SUMMARY:Winter break']
+    ), 'UTC');
+
+    expect(holidays.find(holiday => holiday.date === '2026-12-25')?.name).toBe('Christmas Day');
+    expect(holidays).toHaveLength(3);
+  });
+});
+
+describe('toBusinessHours', () => {
+  it('keeps the weekdays and flattens holidays to dates', () => {
+    const days = Array.from({ length: 7 }, () => ({ enabled: true, start: '08:00', end: '18:00' }));
+    const calendar = {
+      id: 1,
+      companyId: 1,
+      name: 'Support',
+      timezone: 'Europe/Berlin',
+      days,
+      holidays: [
+        { date: '2026-12-25', name: 'Christmas Day', source: 'manual' },
+        { date: '2026-12-26', name: 'Boxing Day', source: 'ical' }
+      ]
+    } as BusinessHoursCalendar;
+
+    expect(toBusinessHours(calendar)).toEqual({
+      timezone: 'Europe/Berlin',
+      days,
+      holidays: ['2026-12-25', '2026-12-26']
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { db } from '../db';
+import {
+  businessHoursCalendars,
+  type BusinessHoursCalendar,
+  type BusinessHoursHoliday,
+  type InsertBusinessHoursCalendar,
+  type SlaBusinessHours
+} from '@shared/schema';
+import { and, asc, desc, eq, ne } from 'drizzle-orm';
+import { getNextBusinessOpening, isWithinBusinessHours } from '../utils/business-hours';
+
+export type BusinessHoursCalendarInput = Omit<InsertBusinessHoursCalendar, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>;
+
+export interface ICalImportResult {
+  imported: number;
+  holidays: BusinessHoursHoliday[];
+}
+
+const CACHE_TTL = 60 * 1000;
+const MAX_EVENT_DAYS = 31;
+const RECURRING_YEARS_AHEAD = 2;
+const MAX_HOLIDAYS = 1000;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The weekday/holiday calendar shape used by the business-hours utilities
+ */
+export const toBusinessHours = (calendar: BusinessHoursCalendar): SlaBusinessHours => ({
+  timezone: calendar.timezone,
+  days: calendar.days,
+  holidays: (calendar.holidays || []).map(holiday => holiday.date)
+});
+
+const unescapeICalText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+const addDays = (dateKey: string, days: number) => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Date (YYYY-MM-DD) of an iCal DATE or DATE-TIME value. UTC date-times are converted to the
+ * calendar timezone, floating and TZID date-times keep their own date.
+ */
+const parseICalDate = (value: string, timezone: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!utc) {
+    return `${year}-${month}-${day}`;
+  }
+
+  const instant = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+  } catch {
+    return instant.toISOString().slice(0, 10);
+  }
+};
+
+/**
+ * Closed dates from the VEVENTs of an iCalendar file. All-day events spanning several days close
+ * every day they cover; yearly recurring events are expanded a couple of years ahead.
+ */
+export function parseICalHolidays(content: string, timezone: string): BusinessHoursHoliday[] {
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').map(line => line.trimEnd());
+  const holidays = new Map<string, BusinessHoursHoliday>();
+  const thisYear = new Date().getUTCFullYear();
+  const lastYear = thisYear + RECURRING_YEARS_AHEAD;
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const start = event.DTSTART ? parseICalDate(event.DTSTART, timezone) : null;
+      if (start && event.STATUS !== 'CANCELLED') {
+        const end = event.DTEND ? parseICalDate(event.DTEND, timezone) : null;
+        const isAllDay = /^\d{8}$/.test(event.DTSTART.trim());
+        const name = unescapeICalText(event.SUMMARY || 'Holiday');
+
+        let days = 1;
+        if (end && end > start) {
+          const span = Math.round((Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000));
+          // DTEND of all-day events is exclusive
+          days = Math.min(isAllDay ? span : span + 1, MAX_EVENT_DAYS);
+        }
+
+        const startYear = Number(start.slice(0, 4));
+        const yearly = /FREQ=YEARLY/i.test(event.RRULE || '');
+        const firstYear = yearly ? Math.max(startYear, thisYear - 1) : startYear;
+        const years = yearly ? Math.max(lastYear - firstYear + 1, 1) : 1;
+
+        for (let year = 0; year < years; year++) {
+          const occurrence = `${firstYear + year}${start.slice(4)}`;
+          if (isNaN(Date.parse(occurrence)) || addDays(occurrence, 0) !== occurrence) {
+            continue; // Feb 29 outside leap years
+          }
+          for (let day = 0; day < days; day++) {
+            const date = addDays(occurrence, day);
+            if (!holidays.has(date)) {
+              holidays.set(date, { date, name, source: 'ical' });
+            }
+          }
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).split(';')[0].toUpperCase();
+    if (!(key in event)) {
+      event[key] = line.slice(separator + 1);
+    }
+  }
+
+  return [...holidays.values()].sort((a, b) => a.date.localeCompare(b.date)).slice(0, MAX_HOLIDAYS);
+}
+
+/**
+ * Business Hours Service
+ * Company calendars of opening hours and holidays, used to decide whether a company is open
+ * when flows branch, campaigns and scheduled messages send, and out-of-office replies trigger.
+ */
+export class BusinessHoursService {
+  private cache = new Map<number, { calendar: BusinessHoursCalendar | null; expiresAt: number }>();
+
+  async getCalendars(companyId: number): Promise<BusinessHoursCalendar[]> {
+    return db
+      .select()
+      .from(businessHoursCalendars)
+      .where(eq(businessHoursCalendars.companyId, companyId))
+      .orderBy(desc(businessHoursCalendars.isDefault), asc(businessHoursCalendars.name));
+  }
+
+  async getCalendar(id: number): Promise<BusinessHoursCalendar | null> {
+    const cached = this.cache.get(id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.calendar;
+    }
+
+    const [calendar] = await db.select().from(businessHoursCalendars).where(eq(businessHoursCalendars.id, id));
+    this.cache.set(id, { calendar: calendar || null, expiresAt: Date.now() + CACHE_TTL });
+    return calendar || null;
+  }
+
+  /**
+   * Calendar by id, only when it belongs to the company. Without an id the company's default
+   * calendar is used.
+   */
+  async getCompanyCalendar(companyId: number, calendarId?: number | null): Promise<BusinessHoursCalendar | null> {
+    if (!calendarId) {
+      const [calendar] = await db
+        .select()
+        .from(businessHoursCalendars)
+        .where(and(eq(businessHoursCalendars.companyId, companyId), eq(businessHoursCalendars.isDefault, true)));
+      return calendar || null;
+    }
+
+    const calendar = await this.getCalendar(calendarId);
+    return calendar && calendar.companyId === companyId ? calendar : null;
+  }
+
+  async createCalendar(companyId: number, data: BusinessHoursCalendarInput): Promise<BusinessHoursCalendar> {
+    return db.transaction(async (tx: any) => {
+      if (data.isDefault) {
+        await tx.update(businessHoursCalendars)
+          .set({ isDefault: false })
+          .where(eq(businessHoursCalendars.companyId, companyId));
+      }
+
+      const [calendar] = await tx
+        .insert(businessHoursCalendars)
+        .values({ ...data, companyId })
+        .returning();
+      return calendar;
+    });
+  }
+
+  async updateCalendar(id: number, updates: Partial<BusinessHoursCalendarInput>): Promise<BusinessHoursCalendar> {
+    const calendar = await db.transaction(async (tx: any) => {
+      if (updates.isDefault) {
+        const [existing] = await tx.select().from(businessHoursCalendars).where(eq(businessHoursCalendars.id, id));
+        await tx.update(businessHoursCalendars)
+          .set({ isDefault: false })
+          .where(and(eq(businessHoursCalendars.companyId, existing.companyId), ne(businessHoursCalendars.id, id)));
+      }
+
+      const [updated] = await tx
+        .update(businessHoursCalendars)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(businessHoursCalendars.id, id))
+        .returning();
+      return updated;
+    });
+
+    this.cache.delete(id);
+    return calendar;
+  }
+
+  /**
+   * Delete a calendar; out-of-office replies using it are removed, scheduled messages
+   * waiting on it send without a calendar and SLA policies on it run 24/7
+   */
+  async deleteCalendar(id: number): Promise<void> {
+    await db.delete(businessHoursCalendars).where(eq(businessHoursCalendars.id, id));
+    this.cache.delete(id);
+  }
+
+  /**
+   * Merge the dates of an iCalendar file into the calendar's holidays. Previously imported dates
+   * are replaced when `replaceImported` is set; manual holidays are always kept.
+   */
+  async importICal(calendar: BusinessHoursCalendar, content: string, replaceImported = true): Promise<ICalImportResult> {
+    const imported = parseICalHolidays(content, calendar.timezone);
+    const kept = (calendar.holidays || []).filter(holiday => !replaceImported || holiday.source !== 'ical');
+    const byDate = new Map(kept.map(holiday => [holiday.date, holiday]));
+
+    for (const holiday of imported) {
+      if (!byDate.has(holiday.date)) {
+        byDate.set(holiday.date, holiday);
+      }
+    }
+
+    const holidays = [...byDate.values()]
+      .filter(holiday => DATE_KEY_PATTERN.test(holiday.date))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(0, MAX_HOLIDAYS);
+
+    await this.updateCalendar(calendar.id, { holidays });
+    return { imported: imported.length, holidays };
+  }
+
+  isOpen(calendar: BusinessHoursCalendar | null, at: Date = new Date()): boolean {
+    return calendar ? isWithinBusinessHours(at, toBusinessHours(calendar)) : true;
+  }
+
+  /**
+   * `at` when the calendar is open, otherwise when it next opens
+   */
+  getNextOpening(calendar: BusinessHoursCalendar | null, at: Date = new Date()): Date {
+    return calendar ? getNextBusinessOpening(at, toBusinessHours(calendar)) : at;
+  }
+
+  /**
+   * Whether a company calendar is open. Unknown calendars are treated as always open so a
+   * deleted calendar never blocks sending.
+   */
+  async isCompanyOpen(companyId: number, calendarId?: number | null, at: Date = new Date()): Promise<boolean> {
+    const calendar = await this.getCompanyCalendar(companyId, calendarId);
+    return this.isOpen(calendar, at);
+  }
+}
+
+export const businessHoursService = new BusinessHoursService();
@@ -969,7 +969,7 @@ export class CallLogsService {
   /**
    * Delete Twilio recording
    */
-  private async deleteTwilioRecording(callLog: { recordingSid?: string; recordingUrl?: string; channelId?: number | null }): Promise<void> {
+  async deleteTwilioRecording(callLog: { recordingSid?: string; recordingUrl?: string; channelId?: number | null }): Promise<void> {
     if (!callLog.recordingSid && !callLog.recordingUrl) {
       return;
     }
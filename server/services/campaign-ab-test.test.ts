@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CampaignAbTestSettings } from '@shared/schema';
+import type { AbTestVariantResult } from './campaign-ab-test';
+
+vi.mock('../db', () => ({ db: {} }));
+
+const { parseCampaignAbTestSettings, pickWinningVariant, splitTestCohort } = await import('./campaign-ab-test');
+
+const result = (variantId: string, overrides: Partial<AbTestVariantResult> = {}): AbTestVariantResult => ({
+  variantId,
+  name: variantId.toUpperCase(),
+  splitPercentage: 50,
+  recipients: 100,
+  sent: 100,
+  delivered: 90,
+  read: 50,
+  replied: 10,
+  failed: 0,
+  deliveryRate: 90,
+  readRate: 50,
+  replyRate: 10,
+  ...overrides
+});
+
+const settings = (overrides: Partial<CampaignAbTestSettings> = {}): CampaignAbTestSettings => ({
+  enabled: true,
+  variants: [
+    { id: 'a', name: 'A', content: 'Hello A', splitPercentage: 50 },
+    { id: 'b', name: 'B', content: 'Hello B', splitPercentage: 50 }
+  ],
+  testCohortPercentage: 20,
+  winnerMetric: 'reply_rate',
+  testWindowHours: 4,
+  status: 'pending',
+  ...overrides
+} as CampaignAbTestSettings);
+
+describe('pickWinningVariant', () => {
+  it('picks the best variant by the configured metric', () => {
+    const results = [
+      result('a', { replyRate: 12, readRate: 40 }),
+      result('b', { replyRate: 8, readRate: 70 })
+    ];
+    expect(pickWinningVariant(results, 'reply_rate')).toBe('a');
+    expect(pickWinningVariant(results, 'read_rate')).toBe('b');
+  });
+
+  it('breaks ties by read rate, then delivery rate', () => {
+    expect(pickWinningVariant([
+      result('a', { replyRate: 10, readRate: 40 }),
+      result('b', { replyRate: 10, readRate: 45 })
+    ], 'reply_rate')).toBe('b');
+
+    expect(pickWinningVariant([
+      result('a', { replyRate: 10, readRate: 45, deliveryRate: 97 }),
+      result('b', { replyRate: 10, readRate: 45, deliveryRate: 92 })
+    ], 'reply_rate')).toBe('a');
+  });
+
+  it('ignores variants that have not been sent', () => {
+    expect(pickWinningVariant([
+      result('a', { sent: 0, replyRate: 0 }),
+      result('b', { replyRate: 1 }),
+      result('c', { sent: 0, replyRate: 0 })
+    ], 'reply_rate')).toBe('b');
+  });
+
+  it('returns null until a variant has been sent', () => {
+    expect(pickWinningVariant([], 'delivery_rate')).toBeNull();
+    expect(pickWinningVariant([result('a', { sent: 0 }), result('b', { sent: 0 })], 'delivery_rate')).toBeNull();
+  });
+});
+
+describe('splitTestCohort', () => {
+  it('splits the cohort by percentage without reusing recipients', () => {
+    const recipientIds = Array.from({ length: 200 }, (_, index) => index + 1);
+    const split = splitTestCohort(recipientIds, settings({
+      variants: [
+        { id: 'a', name: 'A', content: 'A', splitPercentage: 75 },
+        { id: 'b', name: 'B', content: 'B', splitPercentage: 25 }
+      ]
+    }));
+
+    expect(split.get('a')).toHaveLength(30);
+    expect(split.get('b')).toHaveLength(10);
+    const assigned = [...split.get('a')!, ...split.get('b')!];
+    expect(new Set(assigned).size).toBe(40);
+    assigned.forEach(id => expect(recipientIds).toContain(id));
+  });
+
+  it('gives every variant a recipient when the list is small', () => {
+    const split = splitTestCohort([1, 2, 3], settings({ testCohortPercentage: 1 }));
+    expect(split.get('a')).toHaveLength(1);
+    expect(split.get('b')).toHaveLength(1);
+  });
+});
+
+describe('parseCampaignAbTestSettings', () => {
+  it('requires the split to add up to 100', () => {
+    expect(() => parseCampaignAbTestSettings(settings({
+      variants: [
+        { id: 'a', name: 'A', content: 'A', splitPercentage: 60 },
+        { id: 'b', name: 'B', content: 'B', splitPercentage: 30 }
+      ]
+    }))).toThrow('Variant split percentages must add up to 100');
+  });
+
+  it('resets the server-maintained status', () => {
+    expect(parseCampaignAbTestSettings(settings({ status: 'winner_selected' }))?.status).toBe('pending');
+    expect(parseCampaignAbTestSettings(null)).toBeNull();
+  });
+});
@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  campaignRecipients,
+  messages,
+  type Campaign,
+  type CampaignAbTestMetric,
+  type CampaignAbTestSettings
+} from '@shared/schema';
+import { and, eq, sql } from 'drizzle-orm';
+
+export const MIN_AB_VARIANTS = 2;
+export const MAX_AB_VARIANTS = 5;
+
+const variantSchema = z.object({
+  id: z.string().trim().min(1).max(20),
+  name: z.string().trim().min(1).max(100),
+  content: z.string().trim().min(1).max(4096),
+  mediaUrls: z.array(z.string().max(2048)).max(10).optional(),
+  splitPercentage: z.number().int().min(1).max(100)
+});
+
+const abTestSettingsSchema = z.object({
+  enabled: z.boolean(),
+  variants: z.array(variantSchema).min(MIN_AB_VARIANTS).max(MAX_AB_VARIANTS),
+  testCohortPercentage: z.number().int().min(1).max(90),
+  winnerMetric: z.enum(['delivery_rate', 'read_rate', 'reply_rate']),
+  testWindowHours: z.number().int().min(1).max(24 * 7)
+}).refine(settings => settings.variants.reduce((sum, variant) => sum + variant.splitPercentage, 0) === 100, {
+  message: 'Variant split percentages must add up to 100',
+  path: ['variants']
+}).refine(settings => new Set(settings.variants.map(variant => variant.id)).size === settings.variants.length, {
+  message: 'Variant ids must be unique',
+  path: ['variants']
+});
+
+export interface AbTestVariantResult {
+  variantId: string;
+  name: string;
+  splitPercentage: number;
+  recipients: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  failed: number;
+  deliveryRate: number;
+  readRate: number;
+  replyRate: number;
+}
+
+export interface AbTestResults {
+  settings: CampaignAbTestSettings;
+  variants: AbTestVariantResult[];
+  heldBack: number;
+  decidesAt: string | null;
+  leadingVariantId: string | null;
+}
+
+/**
+ * Validate A/B test settings from a campaign request. A disabled test is stored as-is so the
+ * builder keeps the drafted variants. Server-maintained state always starts over as 'pending'.
+ */
+export function parseCampaignAbTestSettings(input: unknown): CampaignAbTestSettings | null {
+  if (input === null || input === undefined) {
+    return null;
+  }
+
+  if (typeof input === 'object' && (input as CampaignAbTestSettings).enabled === false) {
+    return { ...(input as CampaignAbTestSettings), enabled: false, status: 'pending' };
+  }
+
+  const result = abTestSettingsSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(`Validation failed: A/B test ${issue?.path.join('.') || 'settings'} ${issue?.message || ''}`.trim());
+  }
+
+  return { ...result.data, status: 'pending' };
+}
+
+export function isAbTestEnabled(settings: CampaignAbTestSettings | null | undefined): settings is CampaignAbTestSettings {
+  return !!settings?.enabled && Array.isArray(settings.variants) && settings.variants.length >= MIN_AB_VARIANTS;
+}
+
+/**
+ * Whether the test cohort has been sent and the remaining recipients are still held back
+ */
+export function isAwaitingAbTestWinner(settings: CampaignAbTestSettings | null | undefined): boolean {
+  return isAbTestEnabled(settings) && settings.status === 'testing';
+}
+
+/**
+ * Content and media for a recipient. Recipients without a variant (or of a campaign without a
+ * test) get the campaign's own content.
+ */
+export function getVariantMessage(
+  campaign: Pick<Campaign, 'content' | 'mediaUrls' | 'abTestSettings'>,
+  variantId: string | null | undefined
+): { content: string; mediaUrls: string[] } {
+  const variant = variantId && isAbTestEnabled(campaign.abTestSettings)
+    ? campaign.abTestSettings.variants.find(candidate => candidate.id === variantId)
+    : undefined;
+
+  return {
+    content: variant?.content ?? campaign.content,
+    mediaUrls: variant?.mediaUrls ?? ((campaign.mediaUrls as string[]) || [])
+  };
+}
+
+/**
+ * Randomly pick the test cohort out of the recipient ids and split it across the variants by
+ * their percentages. Every variant gets at least one recipient when the cohort allows it.
+ */
+export function splitTestCohort(recipientIds: number[], settings: CampaignAbTestSettings): Map<string, number[]> {
+  const shuffled = [...recipientIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const cohortSize = Math.min(
+    shuffled.length,
+    Math.max(settings.variants.length, Math.ceil(shuffled.length * settings.testCohortPercentage / 100))
+  );
+  const cohort = shuffled.slice(0, cohortSize);
+
+  const assignments = new Map<string, number[]>();
+  let offset = 0;
+  settings.variants.forEach((variant, index) => {
+    const isLast = index === settings.variants.length - 1;
+    const size = isLast
+      ? cohort.length - offset
+      : Math.max(1, Math.round(cohort.length * variant.splitPercentage / 100));
+    assignments.set(variant.id, cohort.slice(offset, offset + size));
+    offset = Math.min(cohort.length, offset + size);
+  });
+
+  return assignments;
+}
+
+const rate = (count: number, total: number) => total > 0 ? Math.round(count / total * 10000) / 100 : 0;
+
+const metricValue = (result: AbTestVariantResult, metric: CampaignAbTestMetric) => {
+  switch (metric) {
+    case 'delivery_rate':
+      return result.deliveryRate;
+    case 'read_rate':
+      return result.readRate;
+    case 'reply_rate':
+      return result.replyRate;
+  }
+};
+
+/**
+ * Best variant by the configured metric, ties broken by read rate, then delivery rate.
+ * Returns null while none of the variants has been sent yet.
+ */
+export function pickWinningVariant(results: AbTestVariantResult[], metric: CampaignAbTestMetric): string | null {
+  const measured = results.filter(result => result.sent > 0);
+  if (measured.length === 0) {
+    return null;
+  }
+
+  const [winner] = [...measured].sort((a, b) =>
+    metricValue(b, metric) - metricValue(a, metric) ||
+    b.readRate - a.readRate ||
+    b.deliveryRate - a.deliveryRate
+  );
+  return winner.variantId;
+}
+
+/**
+ * Per-variant delivery, read and reply rates measured on campaign_recipients. Delivery and read
+ * also count the status of the sent message, a reply is any inbound message in the recipient's
+ * conversation after the campaign message. Rates are relative to the messages actually sent.
+ */
+export async function getAbTestResults(campaign: Pick<Campaign, 'id' | 'abTestSettings'>): Promise<AbTestResults | null> {
+  const settings = campaign.abTestSettings;
+  if (!isAbTestEnabled(settings)) {
+    return null;
+  }
+
+  const sentMessage = sql`(
+    SELECT ${messages.status} FROM ${messages}
+    WHERE ${messages.conversationId} = ${campaignRecipients.conversationId}
+      AND ${messages.externalId} = ${campaignRecipients.externalMessageId}
+    LIMIT 1
+  )`;
+
+  const rows = await db.select({
+    variantId: campaignRecipients.variantId,
+    recipients: sql<number>`COUNT(*)::int`,
+    sent: sql<number>`COUNT(*) FILTER (WHERE ${campaignRecipients.sentAt} IS NOT NULL)::int`,
+    delivered: sql<number>`COUNT(*) FILTER (WHERE ${campaignRecipients.status} IN ('delivered', 'read') OR ${campaignRecipients.deliveredAt} IS NOT NULL OR ${sentMessage} IN ('delivered', 'read'))::int`,
+    read: sql<number>`COUNT(*) FILTER (WHERE ${campaignRecipients.status} = 'read' OR ${campaignRecipients.readAt} IS NOT NULL OR ${sentMessage} = 'read')::int`,
+    replied: sql<number>`COUNT(*) FILTER (WHERE ${campaignRecipients.sentAt} IS NOT NULL AND EXISTS (
+      SELECT 1 FROM ${messages}
+      WHERE ${messages.conversationId} = ${campaignRecipients.conversationId}
+        AND ${messages.direction} = 'inbound'
+        AND ${messages.createdAt} > ${campaignRecipients.sentAt}
+    ))::int`,
+    failed: sql<number>`COUNT(*) FILTER (WHERE ${campaignRecipients.status} = 'failed')::int`
+  })
+    .from(campaignRecipients)
+    .where(eq(campaignRecipients.campaignId, campaign.id))
+    .groupBy(campaignRecipients.variantId);
+
+  const variants = settings.variants.map(variant => {
+    const row = rows.find(candidate => candidate.variantId === variant.id);
+    const sent = row?.sent ?? 0;
+    const delivered = row?.delivered ?? 0;
+    const read = row?.read ?? 0;
+    const replied = row?.replied ?? 0;
+
+    return {
+      variantId: variant.id,
+      name: variant.name,
+      splitPercentage: variant.splitPercentage,
+      recipients: row?.recipients ?? 0,
+      sent,
+      delivered,
+      read,
+      replied,
+      failed: row?.failed ?? 0,
+      deliveryRate: rate(delivered, sent),
+      readRate: rate(read, sent),
+      replyRate: rate(replied, sent)
+    };
+  });
+
+  const decidesAt = settings.status === 'testing' && settings.testStartedAt
+    ? new Date(new Date(settings.testStartedAt).getTime() + settings.testWindowHours * 60 * 60 * 1000).toISOString()
+    : null;
+
+  return {
+    settings,
+    variants,
+    heldBack: rows.find(row => row.variantId === null)?.recipients ?? 0,
+    decidesAt,
+    leadingVariantId: settings.winnerVariantId ?? pickWinningVariant(variants, settings.winnerMetric)
+  };
+}
+
+/**
+ * Recipient ids of a campaign still waiting for a variant
+ */
+export async function getHeldBackRecipientIds(campaignId: number): Promise<number[]> {
+  const rows = await db.select({ id: campaignRecipients.id })
+    .from(campaignRecipients)
+    .where(and(
+      eq(campaignRecipients.campaignId, campaignId),
+      eq(campaignRecipients.status, 'pending'),
+      sql`${campaignRecipients.variantId} IS NULL`
+    ));
+
+  return rows.map(row => row.id);
+}
@@ -114,6 +114,12 @@ export class CampaignScheduler {
 
 
       await this.processRecurringDailyCampaigns(now);
+
+
+      const decidedAbTests = await this.campaignService.processDueAbTests();
+      if (decidedAbTests > 0) {
+        campaignLogger.info(undefined, undefined, 'ab_test', `Selected winners for ${decidedAbTests} A/B test campaign(s)`);
+      }
       
       campaignLogger.info(undefined, undefined, 'check', `Campaign check complete`);
     } catch (error) {
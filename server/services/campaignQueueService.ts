@@ -4,7 +4,9 @@ import {
   campaigns,
   campaignTemplates,
   channelConnections,
-  contacts
+  contacts,
+  type CampaignAbTestSettings,
+  type ChannelConnection as ChannelConnectionRecord
 } from '@shared/schema';
 import { and, asc, eq, inArray, lte, sql } from 'drizzle-orm';
 import { format, isAfter, isBefore, parseISO } from 'date-fns';
@@ -17,8 +19,12 @@ import {
 } from '../types/campaign';
 import { CampaignEventEmitter } from '../utils/websocket';
 import { CampaignService } from './campaignService';
+import { getVariantMessage, isAwaitingAbTestWinner } from './campaign-ab-test';
+import { businessHoursService } from './business-hours-service';
+import { webhookSubscriptionService } from './webhook-subscription-service';
+import { channelAdapterRegistry } from './channel-adapters/channel-adapter-registry';
+import type { ChannelSendTarget, ChannelServiceResult } from './channel-adapters/channel-adapter.interface';
 import { logger } from '../utils/logger';
-import whatsappService from './channels/whatsapp';
 import whatsappOfficialService from './channels/whatsapp-official';
 import axios from 'axios';
 import FormData from 'form-data';
@@ -56,6 +62,7 @@ interface RecipientData {
   phone: string | null;
   name: string | null;
   email: string | null;
+  variantId?: string | null;
 }
 
 
@@ -663,7 +670,11 @@ export class CampaignQueueService {
 
 
     try {
-
+      const { sendable, calendarCampaignIds } = await this.deferItemsOutsideBusinessHours(items);
+      if (sendable.length === 0) {
+        return;
+      }
+      items = sendable;
 
       const channelConnection = await this.getCampaignChannelConnection(campaignId);
       if (!channelConnection) {
@@ -691,6 +702,10 @@ export class CampaignQueueService {
       .where(eq(campaigns.id, campaignId));
 
       const antiBanSettings = campaignForSettings?.antiBanSettings as any || {};
+      if (calendarCampaignIds.has(campaignId)) {
+        // The calendar already decided that now is within business hours
+        antiBanSettings.businessHoursOnly = false;
+      }
 
       
       for (let i = 0; i < items.length; i += BATCH_SIZE) {
@@ -775,6 +790,7 @@ export class CampaignQueueService {
         id: campaignRecipients.id,
         contactId: campaignRecipients.contactId,
         variables: campaignRecipients.variables,
+        variantId: campaignRecipients.variantId,
         phone: contacts.phone,
         name: contacts.name,
         email: contacts.email
@@ -804,8 +820,9 @@ export class CampaignQueueService {
       };
 
 
-      let personalizedContent = await this.campaignService.personalizeMessage(
-        campaignData.content,
+      const variantMessage = getVariantMessage(campaignData, recipientData.variantId);
+      const personalizedContent = await this.campaignService.personalizeMessage(
+        variantMessage.content,
         allVariables
       );
 
@@ -834,8 +851,13 @@ export class CampaignQueueService {
       const connection = channelConnection as ChannelConnection;
 
 
+      const adapter = channelAdapterRegistry.get(connection.channelType);
+      if (!adapter) {
+        throw new Error(`Unsupported channel type: ${connection.channelType}`);
+      }
+
       let templateData: any = null;
-      if (campaignData.templateId && connection.channelType === 'whatsapp_official') {
+      if (campaignData.templateId && adapter.sendTemplate) {
 
         const [template] = await getDb().select()
           .from(campaignTemplates)
@@ -849,133 +871,34 @@ export class CampaignQueueService {
         }
       }
 
-      const mediaUrls = (campaignData.mediaUrls as string[]) || [];
-      const hasMedia = mediaUrls.length > 0;
+      const mediaUrls = variantMessage.mediaUrls;
       let result: any;
 
 
-      if (templateData && connection.channelType === 'whatsapp_official') {
+      if (templateData && adapter.sendTemplate) {
 
         if (!connection.companyId) {
           console.error(`[Campaign Queue] Company ID missing for connection ${connection.id}`);
-          throw new Error('Company ID is required for WhatsApp Official template messages');
+          throw new Error('Company ID is required for template messages');
         }
 
-
-
         const components = this.buildWhatsappTemplateComponents(templateData, allVariables);
 
-
-
-
-
-        try {
-          result = await whatsappOfficialService.sendTemplateMessage(
-            connection.id,
-            connection.userId,
-            connection.companyId,
-            normalizePhoneToE164(recipientData.phone || ''),
-            templateData.whatsappTemplateName,
-            templateData.whatsappTemplateLanguage || 'en',
-            components.length > 0 ? components : undefined,
-            true // skipBroadcast - avoid duplicate client updates
-          );
-
-        } catch (error) {
-          console.error(`[Campaign Queue] Error sending template message:`, error);
-          throw error;
-        }
-      } else if (hasMedia) {
-
-
-        for (const mediaUrl of mediaUrls) {
-          const mediaType = this.getMediaTypeFromUrl(mediaUrl);
-          const mediaPath = this.getMediaPathFromUrl(mediaUrl);
-
-
-          if (connection.channelType === 'whatsapp_unofficial') {
-            result = await whatsappService.sendMedia(
-              connection.id,
-              connection.userId,
-              recipientData.phone || '',
-              mediaType,
-              mediaPath,
-              personalizedContent,
-              path.basename(mediaPath)
-            );
-          } else if (connection.channelType === 'whatsapp_official') {
-            if (!connection.companyId) {
-              throw new Error('Company ID is required for WhatsApp Official media messages');
-            }
-            result = await whatsappOfficialService.sendMedia(
-              connection.id,
-              connection.userId,
-              connection.companyId,
-              normalizePhoneToE164(recipientData.phone || ''),
-              mediaType,
-              mediaUrl,
-              personalizedContent,
-              undefined,
-              undefined,
-              true, // isFromBot = true for campaign messages
-              true  // skipBroadcast - avoid duplicate client updates
-            );
-          } else {
-            throw new Error(`Unsupported channel type: ${connection.channelType}`);
-          }
-
-          
-          personalizedContent = '';
-        }
-
-
-        if (personalizedContent.trim()) {
-
-          if (connection.channelType === 'whatsapp_unofficial') {
-            result = await whatsappService.sendWhatsAppMessage(
-              connection.id,
-              connection.userId,
-              recipientData.phone || '',
-              personalizedContent
-            );
-          } else if (connection.channelType === 'whatsapp_official') {
-            if (!connection.companyId) {
-              throw new Error('Company ID is required for WhatsApp Official messages');
-            }
-            result = await whatsappOfficialService.sendMessage(
-              connection.id,
-              connection.userId,
-              connection.companyId,
-              normalizePhoneToE164(recipientData.phone || ''),
-              personalizedContent
-            );
+        const sendResult = await adapter.sendTemplate(
+          this.getCampaignSendTarget(connection, recipientData.phone || ''),
+          {
+            name: templateData.whatsappTemplateName,
+            languageCode: templateData.whatsappTemplateLanguage || 'en',
+            components
           }
-
+        );
+        if (!sendResult.success) {
+          console.error(`[Campaign Queue] Error sending template message:`, sendResult.error);
+          throw new Error(sendResult.error || 'Failed to send template message');
         }
+        result = sendResult.data;
       } else {
-
-        if (connection.channelType === 'whatsapp_unofficial') {
-          result = await whatsappService.sendWhatsAppMessage(
-            connection.id,
-            connection.userId,
-            recipientData.phone || '',
-            personalizedContent
-          );
-        } else if (connection.channelType === 'whatsapp_official') {
-          if (!connection.companyId) {
-            throw new Error('Company ID is required for WhatsApp Official messages');
-          }
-          result = await whatsappOfficialService.sendMessage(
-            connection.id,
-            connection.userId,
-            connection.companyId,
-            normalizePhoneToE164(recipientData.phone || ''),
-            personalizedContent
-          );
-        } else {
-          throw new Error(`Unsupported channel type: ${connection.channelType}`);
-        }
-
+        result = await this.sendCampaignContent(connection, recipientData.phone || '', personalizedContent, mediaUrls, campaignData.name);
       }
 
 
@@ -991,7 +914,9 @@ export class CampaignQueueService {
       await getDb().update(campaignRecipients)
         .set({
           status: 'sent',
-          sentAt: new Date()
+          sentAt: new Date(),
+          conversationId: result?.conversationId ?? null,
+          externalMessageId: result?.externalId ?? null
         })
         .where(eq(campaignRecipients.id, queueItem.recipient_id));
 
@@ -1263,7 +1188,9 @@ export class CampaignQueueService {
           await getDb().update(campaignRecipients)
             .set({
               status: 'sent',
-              sentAt: new Date()
+              sentAt: new Date(),
+              conversationId: result?.conversationId ?? null,
+              externalMessageId: result?.externalId ?? null
             })
             .where(eq(campaignRecipients.id, queueItem.recipient_id));
 
@@ -1348,8 +1275,9 @@ export class CampaignQueueService {
 
 
 
-      let personalizedContent = await this.campaignService.personalizeMessage(
-        campaignData.content,
+      const variantMessage = getVariantMessage(campaignData, recipientData.variantId);
+      const personalizedContent = await this.campaignService.personalizeMessage(
+        variantMessage.content,
         allVariables
       );
 
@@ -1366,97 +1294,14 @@ export class CampaignQueueService {
         .where(eq(campaignQueue.id, queueItem.id));
 
 
-      const mediaUrls = (campaignData.mediaUrls as string[]) || [];
-      const hasMedia = mediaUrls.length > 0;
-      let result: any;
-
-      if (hasMedia) {
-
-        for (const mediaUrl of mediaUrls) {
-          const mediaType = this.getMediaTypeFromUrl(mediaUrl);
-          const mediaPath = this.getMediaPathFromUrl(mediaUrl);
-
-
-          if (channelConnection.channelType === 'whatsapp_unofficial') {
-            result = await whatsappService.sendMedia(
-              channelConnection.id,
-              channelConnection.userId,
-              recipientData.phone || '',
-              mediaType,
-              mediaPath,
-              personalizedContent,
-              path.basename(mediaPath)
-            );
-          } else if (channelConnection.channelType === 'whatsapp_official') {
-            if (!channelConnection.companyId) {
-              throw new Error('Company ID is required for WhatsApp Official media messages');
-            }
-            result = await whatsappOfficialService.sendMedia(
-              channelConnection.id,
-              channelConnection.userId,
-              channelConnection.companyId,
-              normalizePhoneToE164(recipientData.phone || ''),
-              mediaType,
-              mediaUrl,
-              personalizedContent,
-              undefined,
-              undefined,
-              true, // isFromBot = true for campaign messages
-              true  // skipBroadcast - avoid duplicate client updates
-            );
-          } else {
-            throw new Error(`Unsupported channel type: ${channelConnection.channelType}`);
-          }
-
-          personalizedContent = '';
-        }
-
-        
-        if (personalizedContent.trim()) {
-          if (channelConnection.channelType === 'whatsapp_unofficial') {
-            result = await whatsappService.sendWhatsAppMessage(
-              channelConnection.id,
-              channelConnection.userId,
-              recipientData.phone || '',
-              personalizedContent
-            );
-          } else if (channelConnection.channelType === 'whatsapp_official') {
-            if (!channelConnection.companyId) {
-              throw new Error('Company ID is required for WhatsApp Official messages');
-            }
-            result = await whatsappOfficialService.sendMessage(
-              channelConnection.id,
-              channelConnection.userId,
-              channelConnection.companyId,
-              normalizePhoneToE164(recipientData.phone || ''),
-              personalizedContent
-            );
-          }
-        }
-      } else {
-
-        if (channelConnection.channelType === 'whatsapp_unofficial') {
-          result = await whatsappService.sendWhatsAppMessage(
-            channelConnection.id,
-            channelConnection.userId,
-            recipientData.phone || '',
-            personalizedContent
-          );
-        } else if (channelConnection.channelType === 'whatsapp_official') {
-          if (!channelConnection.companyId) {
-            throw new Error('Company ID is required for WhatsApp Official messages');
-          }
-          result = await whatsappOfficialService.sendMessage(
-            channelConnection.id,
-            channelConnection.userId,
-            channelConnection.companyId,
-            normalizePhoneToE164(recipientData.phone || ''),
-            personalizedContent
-          );
-        } else {
-          throw new Error(`Unsupported channel type: ${channelConnection.channelType}`);
-        }
-      }
+      const mediaUrls = variantMessage.mediaUrls;
+      const result = await this.sendCampaignContent(
+        channelConnection,
+        recipientData.phone || '',
+        personalizedContent,
+        mediaUrls,
+        campaignData.name
+      );
 
 
       
@@ -1471,7 +1316,9 @@ export class CampaignQueueService {
       await getDb().update(campaignRecipients)
         .set({
           status: 'sent',
-          sentAt: new Date()
+          sentAt: new Date(),
+          conversationId: result?.conversationId ?? null,
+          externalMessageId: result?.externalId ?? null
         })
         .where(eq(campaignRecipients.id, queueItem.recipient_id));
 
@@ -1520,6 +1367,7 @@ export class CampaignQueueService {
         id: campaignRecipients.id,
         contactId: campaignRecipients.contactId,
         variables: campaignRecipients.variables,
+        variantId: campaignRecipients.variantId,
         phone: contacts.phone,
         name: contacts.name,
         email: contacts.email
@@ -1534,7 +1382,8 @@ export class CampaignQueueService {
         variables: r.variables as Record<string, any> | null,
         phone: r.phone || '',
         name: r.name || '',
-        email: r.email || ''
+        email: r.email || '',
+        variantId: r.variantId
       }));
     } catch (error) {
       console.error('Error fetching recipients data:', error);
@@ -1644,6 +1493,63 @@ export class CampaignQueueService {
     }
   }
 
+  /**
+   * Hold back items of business-hours-only campaigns while their calendar is closed, by moving
+   * them to the calendar's next opening. Campaigns without a calendar (none chosen and no company
+   * default) keep the fixed-hours delay of addConnectionDelay.
+   */
+  private async deferItemsOutsideBusinessHours(
+    items: QueueItem[]
+  ): Promise<{ sendable: QueueItem[]; calendarCampaignIds: Set<number> }> {
+    const calendarCampaignIds = new Set<number>();
+    const campaignIds = Array.from(new Set(items.map(item => item.campaign_id)));
+    if (campaignIds.length === 0) {
+      return { sendable: items, calendarCampaignIds };
+    }
+
+    const campaignSettings = await getDb().select({
+      id: campaigns.id,
+      companyId: campaigns.companyId,
+      antiBanSettings: campaigns.antiBanSettings
+    })
+      .from(campaigns)
+      .where(inArray(campaigns.id, campaignIds));
+
+    const deferredCampaignIds = new Set<number>();
+    const now = new Date();
+
+    for (const campaign of campaignSettings) {
+      const settings = campaign.antiBanSettings as any || {};
+      if (!settings.businessHoursOnly || !campaign.companyId) {
+        continue;
+      }
+
+      const calendar = await businessHoursService.getCompanyCalendar(campaign.companyId, settings.businessHoursCalendarId);
+      if (!calendar) {
+        continue;
+      }
+      calendarCampaignIds.add(campaign.id);
+
+      if (businessHoursService.isOpen(calendar, now)) {
+        continue;
+      }
+
+      const nextOpening = businessHoursService.getNextOpening(calendar, now);
+      const itemIds = items.filter(item => item.campaign_id === campaign.id).map(item => item.id);
+      await getDb().update(campaignQueue)
+        .set({ scheduledFor: nextOpening, updatedAt: new Date() })
+        .where(and(inArray(campaignQueue.id, itemIds), eq(campaignQueue.status, 'pending')));
+
+      deferredCampaignIds.add(campaign.id);
+      logger.info('Campaign Queue', `Campaign ${campaign.id} is outside business hours, ${itemIds.length} item(s) deferred to ${nextOpening.toISOString()}`);
+    }
+
+    return {
+      sendable: items.filter(item => !deferredCampaignIds.has(item.campaign_id)),
+      calendarCampaignIds
+    };
+  }
+
   private async addConnectionDelay(_connectionId: number, antiBanSettings?: any): Promise<void> {
     try {
       let baseDelay = 6000; 
@@ -1756,7 +1662,8 @@ export class CampaignQueueService {
         name: campaigns.name,
         dripSettings: campaigns.dripSettings,
         timezone: campaigns.timezone,
-        startedAt: campaigns.startedAt
+        startedAt: campaigns.startedAt,
+        abTestSettings: campaigns.abTestSettings
       })
         .from(campaigns)
         .where(
@@ -1815,9 +1722,14 @@ export class CampaignQueueService {
     dripSettings: any;
     timezone: string | null;
     startedAt: Date | null;
+    abTestSettings: CampaignAbTestSettings | null;
   }>): Promise<void> {
     for (const campaign of companyCampaigns) {
       try {
+        if (isAwaitingAbTestWinner(campaign.abTestSettings)) {
+          continue; // The held-back recipients are queued once the winner is selected
+        }
+
         const queueStats = await getDb().select({
           total: sql`COUNT(*)`,
           pending: sql`COUNT(*) FILTER (WHERE status = 'pending')`,
@@ -1867,6 +1779,14 @@ export class CampaignQueueService {
                 failedSends: failedItems
               }
             );
+
+            webhookSubscriptionService.emit(campaign.companyId, 'campaign.completed', {
+              campaignId: campaign.id,
+              name: campaign.name,
+              totalRecipients: totalItems,
+              successfulSends: completedItems,
+              failedSends: failedItems
+            }).catch(error => logger.error('Campaign Queue', `Failed to queue campaign.completed webhook for campaign ${campaign.id}`, error));
           }
         }
       } catch (error) {
@@ -2426,6 +2346,10 @@ export class CampaignQueueService {
 
 
     try {
+      items = (await this.deferItemsOutsideBusinessHours(items)).sendable;
+      if (items.length === 0) {
+        return;
+      }
 
       const [connection] = await getDb().select()
         .from(channelConnections)
@@ -2554,6 +2478,69 @@ export class CampaignQueueService {
   
   
 
+  /**
+   * Send target for a campaign recipient; WhatsApp Business numbers are sent in E.164 format
+   */
+  private getCampaignSendTarget(connection: ChannelConnection, phone: string): ChannelSendTarget {
+    return {
+      connection: connection as ChannelConnectionRecord,
+      recipient: connection.channelType === 'whatsapp_official' ? normalizePhoneToE164(phone) : phone,
+      userId: connection.userId,
+      isFromBot: true,
+      skipBroadcast: true // avoid duplicate client updates
+    };
+  }
+
+  /**
+   * Send each media item, captioning the first with the message, then any text left over.
+   * Returns the last message stored by the channel service.
+   */
+  private async sendCampaignContent(
+    connection: ChannelConnection,
+    phone: string,
+    content: string,
+    mediaUrls: string[],
+    subject?: string
+  ): Promise<any> {
+    const adapter = channelAdapterRegistry.get(connection.channelType);
+    if (!adapter) {
+      throw new Error(`Unsupported channel type: ${connection.channelType}`);
+    }
+
+    const target = this.getCampaignSendTarget(connection, phone);
+    let remainingContent = content;
+    let sendResult: ChannelServiceResult | undefined;
+
+    for (const mediaUrl of mediaUrls) {
+      if (!adapter.sendMedia) {
+        throw new Error(`${adapter.displayName} does not support media messages`);
+      }
+
+      const mediaPath = this.getMediaPathFromUrl(mediaUrl);
+      sendResult = await adapter.sendMedia(target, {
+        type: this.getMediaTypeFromUrl(mediaUrl),
+        url: mediaUrl,
+        filePath: mediaPath,
+        caption: remainingContent,
+        filename: path.basename(mediaPath)
+      }, { subject });
+      if (!sendResult.success) {
+        throw new Error(sendResult.error || `Failed to send ${adapter.displayName} media message`);
+      }
+
+      remainingContent = '';
+    }
+
+    if (mediaUrls.length === 0 || remainingContent.trim()) {
+      sendResult = await adapter.sendText(target, remainingContent, { subject });
+      if (!sendResult.success) {
+        throw new Error(sendResult.error || `Failed to send ${adapter.displayName} message`);
+      }
+    }
+
+    return sendResult?.data;
+  }
+
   private getMediaTypeFromUrl(mediaUrl: string): 'image' | 'video' | 'audio' | 'document' {
     const urlPath = mediaUrl.toLowerCase();
 
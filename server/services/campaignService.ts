@@ -1,5 +1,5 @@
 import { db } from '../db';
-import { eq, and, desc, sql, inArray, gte, lte, like, or, not, count } from 'drizzle-orm';
+import { eq, and, desc, sql, inArray, gte, lte, like, or, not, count, isNotNull } from 'drizzle-orm';
 import { format, isAfter, isBefore, parseISO } from 'date-fns';
 import { logger } from '../utils/logger';
 import {
@@ -21,9 +21,21 @@ import {
   type InsertCampaign,
   type InsertCampaignTemplate,
   type InsertContactSegment,
-  type SegmentFilterCriteria
+  type SegmentFilterCriteria,
+  type SegmentCustomFieldFilter
 } from '../../shared/schema';
 import { normalizePhoneForInternal } from '../../shared/utils/phone';
+import { buildCustomFieldFilterCondition, buildSegmentRulesCondition, hasSegmentRules, parseSegmentRules } from './segment-rules';
+import {
+  getAbTestResults,
+  getHeldBackRecipientIds,
+  isAbTestEnabled,
+  isAwaitingAbTestWinner,
+  parseCampaignAbTestSettings,
+  pickWinningVariant,
+  splitTestCohort,
+  type AbTestResults
+} from './campaign-ab-test';
 
 interface CampaignFilters {
   status?: string;
@@ -106,6 +118,8 @@ export class CampaignService {
         }
       }
 
+      const { abTestSettings, ...campaignFields } = campaignData;
+
       const campaignInsertData = {
         companyId,
         createdById: userId,
@@ -115,7 +129,8 @@ export class CampaignService {
         timezone,
         dripSettings,
         scheduledAt,
-        ...campaignData
+        ...campaignFields,
+        abTestSettings: parseCampaignAbTestSettings(abTestSettings)
       };
 
       const [campaign] = await db.insert(campaigns).values(campaignInsertData).returning();
@@ -537,6 +552,17 @@ export class CampaignService {
         }
       }
 
+      if (updateData.abTestSettings !== undefined) {
+        const [existing] = await db.select({ abTestSettings: campaigns.abTestSettings })
+          .from(campaigns)
+          .where(and(eq(campaigns.id, campaignId), eq(campaigns.companyId, companyId)));
+
+        if (existing?.abTestSettings?.status && existing.abTestSettings.status !== 'pending') {
+          throw new Error('Validation failed: A/B test settings cannot be changed after the test has started');
+        }
+        updateData = { ...updateData, abTestSettings: parseCampaignAbTestSettings(updateData.abTestSettings) };
+      }
+
       const updatePayload: any = {
         ...updateData,
         updatedAt: new Date()
@@ -653,6 +679,9 @@ export class CampaignService {
         startedAt: new Date()
       });
 
+      if (isAbTestEnabled(campaign.abTestSettings) && campaign.abTestSettings.status !== 'testing' && campaign.abTestSettings.status !== 'winner_selected') {
+        await this.startAbTest(campaign);
+      }
 
       const queuedCount = await this.queueCampaignRecipients(campaignId);
 
@@ -748,6 +777,12 @@ export class CampaignService {
 
       const segmentContacts = await this.getContactsBySegment(effectiveSegment);
 
+      if (effectiveSegment === segment && segment.contactCount !== segmentContacts.length) {
+        await db.update(contactSegments)
+          .set({ contactCount: segmentContacts.length, lastUpdatedAt: new Date() })
+          .where(eq(contactSegments.id, segment.id));
+      }
+
       const existingRecipients = await db.select({
           contactId: campaignRecipients.contactId,
           phone: contacts.phone
@@ -945,7 +980,9 @@ export class CampaignService {
         (criteria.tags && criteria.tags.length > 0) ||
         criteria.created_after ||
         criteria.created_before ||
-        (criteria.pipelineStageIds && criteria.pipelineStageIds.length > 0);
+        (criteria.pipelineStageIds && criteria.pipelineStageIds.length > 0) ||
+        (criteria.customFields && criteria.customFields.length > 0) ||
+        hasSegmentRules(criteria.rules);
 
 
       if (hasContactIds && !hasOtherCriteria) {
@@ -990,6 +1027,16 @@ export class CampaignService {
         whereConditions.push(tagCondition);
       }
 
+      const customFieldCondition = this.createCustomFieldFilterCondition(criteria.customFields);
+      if (customFieldCondition) {
+        whereConditions.push(customFieldCondition);
+      }
+
+      const rulesCondition = buildSegmentRulesCondition(criteria.rules);
+      if (rulesCondition) {
+        whereConditions.push(rulesCondition);
+      }
+
       if (criteria.created_after) {
         whereConditions.push(gte(contacts.createdAt, new Date(criteria.created_after)));
       }
@@ -1091,6 +1138,16 @@ export class CampaignService {
         whereConditions.push(tagCondition);
       }
 
+      const customFieldCondition = this.createCustomFieldFilterCondition(criteria.customFields);
+      if (customFieldCondition) {
+        whereConditions.push(customFieldCondition);
+      }
+
+      const rulesCondition = buildSegmentRulesCondition(criteria.rules);
+      if (rulesCondition) {
+        whereConditions.push(rulesCondition);
+      }
+
       if (criteria.created_after) {
         whereConditions.push(gte(contacts.createdAt, new Date(criteria.created_after)));
       }
@@ -1196,6 +1253,32 @@ export class CampaignService {
     };
   }
 
+  /**
+   * Creates a SQL condition for custom contact field filters; all filters must match (AND logic)
+   * @param filters Custom field conditions from the segment criteria (can be undefined)
+   * @returns SQL condition or null if no valid filters
+   */
+  private createCustomFieldFilterCondition(filters: SegmentCustomFieldFilter[] | undefined) {
+    if (!filters || !Array.isArray(filters) || filters.length === 0) {
+      return null;
+    }
+
+    const conditions = filters
+      .filter(filter => filter && typeof filter.field === 'string' && filter.field.trim().length > 0)
+      .filter(filter =>
+        filter.operator === 'is_set' ||
+        filter.operator === 'is_not_set' ||
+        (filter.value !== undefined && filter.value !== null && String(filter.value) !== '')
+      )
+      .map(buildCustomFieldFilterCondition);
+
+    if (conditions.length === 0) {
+      return null;
+    }
+
+    return and(...conditions) ?? null;
+  }
+
   /**
    * Creates a SQL condition for tag filtering with improved null handling and case-insensitive matching
    * @param tags Array of tags to filter by (can be undefined)
@@ -1333,17 +1416,6 @@ export class CampaignService {
 
   async queueCampaignRecipients(campaignId: number): Promise<number> {
     try {
-
-
-      const recipients = await db.select()
-        .from(campaignRecipients)
-        .where(and(
-          eq(campaignRecipients.campaignId, campaignId),
-          eq(campaignRecipients.status, 'pending')
-        ));
-
-
-
       const campaign = await db.select()
         .from(campaigns)
         .where(eq(campaigns.id, campaignId));
@@ -1355,6 +1427,15 @@ export class CampaignService {
       const campaignData = campaign[0];
 
 
+      const recipients = await db.select()
+        .from(campaignRecipients)
+        .where(and(
+          eq(campaignRecipients.campaignId, campaignId),
+          eq(campaignRecipients.status, 'pending'),
+          isAwaitingAbTestWinner(campaignData.abTestSettings) ? isNotNull(campaignRecipients.variantId) : undefined
+        ));
+
+
 
       const channelIds = (campaignData.channelIds as number[]) || [];
       const singleChannelId = campaignData.channelId;
@@ -1433,6 +1514,144 @@ export class CampaignService {
   }
 
 
+  /**
+   * Assign the test cohort of an A/B test campaign to its variants. The rest of the pending
+   * recipients keep a NULL variant and are not queued until a winner is selected.
+   */
+  async startAbTest(campaign: Campaign): Promise<void> {
+    const settings = campaign.abTestSettings;
+    if (!isAbTestEnabled(settings)) {
+      return;
+    }
+
+    const recipientIds = await getHeldBackRecipientIds(campaign.id);
+    const assignments = splitTestCohort(recipientIds, settings);
+
+    for (const [variantId, ids] of Array.from(assignments.entries())) {
+      if (ids.length > 0) {
+        await db.update(campaignRecipients)
+          .set({ variantId, updatedAt: new Date() })
+          .where(inArray(campaignRecipients.id, ids));
+      }
+    }
+
+    await db.update(campaigns)
+      .set({
+        abTestSettings: { ...settings, status: 'testing', testStartedAt: new Date().toISOString() },
+        updatedAt: new Date()
+      })
+      .where(eq(campaigns.id, campaign.id));
+
+    const cohortSize = Array.from(assignments.values()).reduce((sum, ids) => sum + ids.length, 0);
+    logger.info('campaigns', `A/B test started for campaign ${campaign.id}: ${cohortSize} of ${recipientIds.length} recipients in the test cohort`);
+  }
+
+  async getAbTestResults(companyId: number, campaignId: number): Promise<AbTestResults | null> {
+    const campaign = await this.getCampaignById(companyId, campaignId);
+    return getAbTestResults(campaign);
+  }
+
+  /**
+   * Finish the test phase: the winning variant (the given one, or the best one by the configured
+   * metric) is assigned to every held-back recipient, who are then queued.
+   */
+  async selectAbTestWinner(
+    companyId: number,
+    campaignId: number,
+    variantId?: string,
+    selectedBy: 'auto' | 'manual' = 'manual'
+  ): Promise<AbTestResults | null> {
+    try {
+      const campaign = await this.getCampaignById(companyId, campaignId);
+      const settings = campaign.abTestSettings as Campaign['abTestSettings'];
+
+      if (!isAbTestEnabled(settings) || !isAwaitingAbTestWinner(settings)) {
+        throw new Error('Campaign has no A/B test waiting for a winner');
+      }
+
+      if (variantId && !settings.variants.some(variant => variant.id === variantId)) {
+        throw new Error('Unknown variant');
+      }
+
+      const results = await getAbTestResults(campaign);
+      let winnerVariantId = variantId || pickWinningVariant(results?.variants || [], settings.winnerMetric);
+      if (!winnerVariantId) {
+        logger.warn('campaigns', `No test results for campaign ${campaignId}, falling back to the first variant`);
+        winnerVariantId = settings.variants[0].id;
+      }
+
+      await db.update(campaignRecipients)
+        .set({ variantId: winnerVariantId, updatedAt: new Date() })
+        .where(and(
+          eq(campaignRecipients.campaignId, campaignId),
+          sql`${campaignRecipients.variantId} IS NULL`
+        ));
+
+      await db.update(campaigns)
+        .set({
+          abTestSettings: {
+            ...settings,
+            status: 'winner_selected',
+            winnerVariantId,
+            winnerSelectedAt: new Date().toISOString(),
+            winnerSelectedBy: selectedBy
+          },
+          updatedAt: new Date()
+        })
+        .where(eq(campaigns.id, campaignId));
+
+      if (campaign.status === 'running') {
+        const queuedCount = await this.queueCampaignRecipients(campaignId);
+        logger.info('campaigns', `Variant ${winnerVariantId} won the A/B test of campaign ${campaignId} (${selectedBy}), ${queuedCount} recipients queued`);
+      }
+
+      return this.getAbTestResults(companyId, campaignId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to select A/B test winner: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Select winners for running A/B tests whose test window has elapsed
+   */
+  async processDueAbTests(): Promise<number> {
+    const testing = await db.select({
+      id: campaigns.id,
+      companyId: campaigns.companyId,
+      abTestSettings: campaigns.abTestSettings
+    })
+      .from(campaigns)
+      .where(and(
+        eq(campaigns.status, 'running'),
+        sql`${campaigns.abTestSettings}->>'status' = 'testing'`
+      ));
+
+    const now = Date.now();
+    let processed = 0;
+
+    for (const campaign of testing) {
+      const settings = campaign.abTestSettings;
+      if (!settings?.testStartedAt) {
+        continue;
+      }
+
+      const decidesAt = new Date(settings.testStartedAt).getTime() + settings.testWindowHours * 60 * 60 * 1000;
+      if (decidesAt > now) {
+        continue;
+      }
+
+      try {
+        await this.selectAbTestWinner(campaign.companyId, campaign.id, undefined, 'auto');
+        processed++;
+      } catch (error) {
+        logger.error('campaigns', `Failed to select A/B test winner for campaign ${campaign.id}`, error);
+      }
+    }
+
+    return processed;
+  }
+
   async createTemplate(companyId: number, userId: number, templateData: Partial<InsertCampaignTemplate>): Promise<CampaignTemplate> {
     try {
 
@@ -1707,6 +1926,9 @@ export class CampaignService {
     try {
       const criteria = (segmentData.criteria as SegmentFilterCriteria) || {};
 
+      if (criteria.rules) {
+        criteria.rules = parseSegmentRules(criteria.rules);
+      }
 
       if (criteria.tags && Array.isArray(criteria.tags)) {
         criteria.tags = criteria.tags
@@ -1806,14 +2028,19 @@ export class CampaignService {
             .filter((tag: string) => tag.length <= 100)
             .slice(0, 50);
         }
-        
+
+        if (criteria.rules) {
+          criteria.rules = parseSegmentRules(criteria.rules);
+        }
 
 
         const hasContactIds = criteria.contactIds && Array.isArray(criteria.contactIds) && criteria.contactIds.length > 0;
         const hasOtherCriteria = 
           (criteria.tags && criteria.tags.length > 0) ||
           criteria.created_after ||
-          criteria.created_before;
+          criteria.created_before ||
+          (criteria.customFields && criteria.customFields.length > 0) ||
+          hasSegmentRules(criteria.rules);
         
         if (hasContactIds && hasOtherCriteria) {
           console.warn(
@@ -1932,6 +2159,44 @@ export class CampaignService {
     }
   }
 
+  /**
+   * Re-evaluate dynamic segments and store their current size, so segment lists and campaign
+   * builders show the audience a campaign would target right now. Static contact-list
+   * segments are skipped because their size only changes when they are edited.
+   */
+  async refreshSegmentContactCounts(companyId?: number): Promise<number> {
+    const segments = await db.select().from(contactSegments)
+      .where(companyId ? eq(contactSegments.companyId, companyId) : undefined);
+
+    let refreshed = 0;
+    for (const segment of segments) {
+      const criteria = (segment.criteria || {}) as SegmentFilterCriteria;
+      const isDynamic =
+        (criteria.tags && criteria.tags.length > 0) ||
+        criteria.created_after ||
+        criteria.created_before ||
+        (criteria.pipelineStageIds && criteria.pipelineStageIds.length > 0) ||
+        (criteria.customFields && criteria.customFields.length > 0) ||
+        hasSegmentRules(criteria.rules);
+
+      if (!isDynamic) {
+        continue;
+      }
+
+      try {
+        const contactCount = await this.calculateSegmentContactCount(segment);
+        await db.update(contactSegments)
+          .set({ contactCount, lastUpdatedAt: new Date() })
+          .where(eq(contactSegments.id, segment.id));
+        refreshed++;
+      } catch (error) {
+        logger.error('segments', `Failed to refresh contact count for segment ${segment.id}`, error);
+      }
+    }
+
+    return refreshed;
+  }
+
   async getCampaignAnalytics(_companyId: number, campaignId: number): Promise<any> {
     try {
       const [analytics] = await db.select()
@@ -1991,6 +2256,11 @@ export class CampaignService {
     try {
       const stats = await this.calculateRealtimeStats(campaignId);
 
+      const [campaign] = await db.select({ id: campaigns.id, abTestSettings: campaigns.abTestSettings })
+        .from(campaigns)
+        .where(eq(campaigns.id, campaignId));
+      const abTest = campaign ? await getAbTestResults(campaign) : null;
+
       await db.insert(campaignAnalytics).values({
         campaignId,
         recordedAt: new Date(),
@@ -2001,7 +2271,8 @@ export class CampaignService {
         messagesFailed: stats.failed,
         deliveryRate: String(stats.delivery_rate),
         readRate: String(stats.read_rate),
-        failureRate: String(stats.failure_rate)
+        failureRate: String(stats.failure_rate),
+        metricsData: abTest ? { abTest: { variants: abTest.variants, leadingVariantId: abTest.leadingVariantId } } : {}
       });
 
       return stats;
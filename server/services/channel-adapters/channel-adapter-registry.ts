@@ -0,0 +1,124 @@
+import { IChannelAdapter, ChannelCapabilities } from './channel-adapter.interface';
+import { WhatsAppChannelAdapter } from './whatsapp-channel-adapter';
+import { WhatsAppOfficialChannelAdapter } from './whatsapp-official-channel-adapter';
+import { MessengerChannelAdapter } from './messenger-channel-adapter';
+import { InstagramChannelAdapter } from './instagram-channel-adapter';
+import { TikTokChannelAdapter } from './tiktok-channel-adapter';
+import { EmailChannelAdapter } from './email-channel-adapter';
+import { TwilioSmsChannelAdapter } from './twilio-sms-channel-adapter';
+import { WebChatChannelAdapter } from './webchat-channel-adapter';
+import { TelegramChannelAdapter } from './telegram-channel-adapter';
+import { CustomChannelAdapter } from './custom-channel-adapter';
+
+const UNSUPPORTED_CHANNEL_CAPABILITIES: ChannelCapabilities = {
+  supportsReply: false,
+  supportsDelete: false,
+  supportsQuotedMessages: false,
+  replyFormat: 'mention',
+  supportsMedia: false,
+  supportsTemplates: false,
+  supportsInteractive: false,
+  supportsMarkAsRead: false,
+  supportsGroups: false
+};
+
+/**
+ * Channel Adapter Registry
+ * Manages registration and retrieval of channel adapters by channel type
+ */
+export class ChannelAdapterRegistry {
+  private adapters: Map<string, IChannelAdapter> = new Map();
+  private static instance: ChannelAdapterRegistry;
+
+  private constructor() {
+
+  }
+
+  /**
+   * Get singleton instance with the built-in channels registered
+   */
+  static getInstance(): ChannelAdapterRegistry {
+    if (!ChannelAdapterRegistry.instance) {
+      ChannelAdapterRegistry.instance = new ChannelAdapterRegistry();
+      ChannelAdapterRegistry.instance.initializeDefaultAdapters();
+    }
+    return ChannelAdapterRegistry.instance;
+  }
+
+  /**
+   * Register a channel adapter for all of its channel types
+   */
+  register(adapter: IChannelAdapter): void {
+    for (const channelType of adapter.channelTypes) {
+      this.adapters.set(channelType, adapter);
+    }
+  }
+
+  /**
+   * Get the adapter for a channel type
+   */
+  get(channelType: string): IChannelAdapter | undefined {
+    return this.adapters.get(channelType);
+  }
+
+  /**
+   * Get the adapter for a channel type when it handles inbox sends itself
+   */
+  getInboxAdapter(channelType: string): IChannelAdapter | undefined {
+    const adapter = this.get(channelType);
+    return adapter?.capabilities.sendsInboxMessages ? adapter : undefined;
+  }
+
+  /**
+   * Check if a channel type has an adapter
+   */
+  has(channelType: string): boolean {
+    return this.adapters.has(channelType);
+  }
+
+  /**
+   * Get all registered channel types
+   */
+  getChannelTypes(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  /**
+   * Capabilities of a channel type; unknown channel types support nothing
+   */
+  getCapabilities(channelType: string): ChannelCapabilities {
+    const adapter = this.get(channelType);
+    if (!adapter) {
+      return { ...UNSUPPORTED_CHANNEL_CAPABILITIES };
+    }
+
+    const { supportsAgentSignature, sendsInboxMessages, ...capabilities } = adapter.capabilities;
+    return {
+      ...capabilities,
+      supportsDelete: !!adapter.deleteMessage,
+      supportsMedia: !!adapter.sendMedia,
+      supportsTemplates: !!adapter.sendTemplate,
+      supportsInteractive: !!adapter.sendInteractive,
+      supportsMarkAsRead: !!adapter.markAsRead
+    };
+  }
+
+  /**
+   * Initialize built-in channel adapters
+   */
+  initializeDefaultAdapters(): void {
+    this.register(new WhatsAppChannelAdapter());
+    this.register(new WhatsAppOfficialChannelAdapter());
+    this.register(new MessengerChannelAdapter());
+    this.register(new InstagramChannelAdapter());
+    this.register(new TikTokChannelAdapter());
+    this.register(new EmailChannelAdapter());
+    this.register(new TwilioSmsChannelAdapter());
+    this.register(new WebChatChannelAdapter());
+    this.register(new TelegramChannelAdapter());
+    this.register(new CustomChannelAdapter());
+  }
+}
+
+
+export const channelAdapterRegistry = ChannelAdapterRegistry.getInstance();
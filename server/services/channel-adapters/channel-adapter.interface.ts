@@ -0,0 +1,179 @@
+/**
+ * Channel Adapter Interface
+ * Defines the contract every messaging channel implements so that routes, flows and
+ * campaigns can send through a channel without knowing its service
+ */
+
+import type { ChannelConnection, Conversation, Message } from '@shared/schema';
+
+export interface ChannelCapabilities {
+  supportsReply: boolean;
+  supportsDelete: boolean;
+  supportsQuotedMessages: boolean;
+  deleteTimeLimit?: number;
+  replyFormat: 'quoted' | 'threaded' | 'mention';
+  supportsMedia: boolean;
+  supportsTemplates: boolean;
+  supportsInteractive: boolean;
+  supportsMarkAsRead: boolean;
+  supportsGroups: boolean;
+  supportsTypingIndicator?: boolean;
+  supportsReadReceipts?: boolean;
+  supportsReactions?: boolean;
+  supportsRichMedia?: boolean;
+  supportedMediaTypes?: string[];
+  hasMessagingWindow?: boolean;
+  messagingWindowDuration?: number;
+  maxMessageLength?: number;
+  requiresBusinessAccount?: boolean;
+}
+
+/**
+ * Capabilities an adapter declares; the operation flags are derived by the registry
+ * from the methods the adapter implements
+ */
+export type ChannelCapabilityProfile = Omit<
+  ChannelCapabilities,
+  'supportsDelete' | 'supportsMedia' | 'supportsTemplates' | 'supportsInteractive' | 'supportsMarkAsRead'
+> & {
+  /**
+   * Whether agent replies are prefixed with the agent's name; defaults to true
+   */
+  supportsAgentSignature?: boolean;
+  /**
+   * Whether inbox text and media sends go through the adapter instead of channel-specific
+   * code in the message routes; defaults to false
+   */
+  sendsInboxMessages?: boolean;
+};
+
+export interface ChannelServiceResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  data?: any;
+}
+
+export interface ReplyOptions {
+  originalMessageId: string;
+  originalContent: string;
+  originalSender: string;
+  quotedMessage?: any;
+}
+
+export interface ChannelSendTarget {
+  connection: ChannelConnection;
+  /**
+   * Channel-specific recipient: phone number, PSID, email address, session ID or group JID
+   */
+  recipient: string;
+  userId: number;
+  conversation?: Conversation | null;
+  isFromBot?: boolean;
+  skipBroadcast?: boolean;
+}
+
+export type ChannelMediaType = 'image' | 'video' | 'audio' | 'document';
+
+export interface ChannelMedia {
+  type: ChannelMediaType;
+  url: string;
+  /**
+   * Local copy of the media, preferred by channels that upload files themselves
+   */
+  filePath?: string;
+  caption?: string;
+  filename?: string;
+}
+
+export interface ChannelSendOptions {
+  /**
+   * Subject line for channels that require one, such as email
+   */
+  subject?: string;
+}
+
+export interface ChannelTemplate {
+  name: string;
+  languageCode: string;
+  components?: any[];
+}
+
+export interface ChannelInteractive {
+  body: string;
+  buttons: Array<{ id: string; title: string }>;
+}
+
+export interface ChannelWebhookContext {
+  companyId?: number;
+  signature?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface IChannelAdapter {
+  /**
+   * Channel types handled by this adapter
+   */
+  readonly channelTypes: string[];
+
+  /**
+   * Human readable channel name used in error messages
+   */
+  readonly displayName: string;
+
+  /**
+   * Static capabilities of the channel
+   */
+  readonly capabilities: ChannelCapabilityProfile;
+
+  /**
+   * Open the connection to the channel provider
+   */
+  connect(connection: ChannelConnection, userId: number): Promise<void>;
+
+  /**
+   * Close the connection to the channel provider
+   */
+  disconnect(connection: ChannelConnection, userId: number): Promise<void>;
+
+  /**
+   * Send a plain text message
+   */
+  sendText(target: ChannelSendTarget, text: string, options?: ChannelSendOptions): Promise<ChannelServiceResult>;
+
+  /**
+   * Send a reply to an earlier message; channels without native replies fall back to sendText
+   */
+  sendReply?(target: ChannelSendTarget, text: string, replyOptions: ReplyOptions): Promise<ChannelServiceResult>;
+
+  /**
+   * Send an image, video, audio or document message
+   */
+  sendMedia?(target: ChannelSendTarget, media: ChannelMedia, options?: ChannelSendOptions): Promise<ChannelServiceResult>;
+
+  /**
+   * Send a pre-approved message template
+   */
+  sendTemplate?(target: ChannelSendTarget, template: ChannelTemplate): Promise<ChannelServiceResult>;
+
+  /**
+   * Send a message with reply buttons
+   */
+  sendInteractive?(target: ChannelSendTarget, interactive: ChannelInteractive): Promise<ChannelServiceResult>;
+
+  /**
+   * Delete a sent message on the provider; the caller removes it from the database
+   */
+  deleteMessage?(target: ChannelSendTarget, message: Message): Promise<ChannelServiceResult>;
+
+  /**
+   * Send a read receipt for an inbound message
+   */
+  markAsRead?(target: ChannelSendTarget, message: Message): Promise<ChannelServiceResult>;
+
+  /**
+   * Parse and process an inbound webhook payload
+   */
+  handleWebhook?(payload: any, context: ChannelWebhookContext): Promise<void>;
+}
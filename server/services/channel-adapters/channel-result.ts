@@ -0,0 +1,15 @@
+import type { ChannelServiceResult } from './channel-adapter.interface';
+
+/**
+ * Result for channel services that resolve to the stored message, or null on failure
+ */
+export function messageResult(message: any, failureMessage: string): ChannelServiceResult {
+  if (!message) {
+    return { success: false, error: failureMessage };
+  }
+  return { success: true, messageId: message.id?.toString(), data: message };
+}
+
+export function errorResult(error: any, fallbackMessage: string): ChannelServiceResult {
+  return { success: false, error: error?.message || fallbackMessage };
+}
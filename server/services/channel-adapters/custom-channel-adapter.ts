@@ -0,0 +1,63 @@
+import customChannelService, { CUSTOM_CHANNEL_TYPE } from '../channels/custom-channel';
+import {
+  IChannelAdapter,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult
+} from './channel-adapter.interface';
+import { errorResult, messageResult } from './channel-result';
+
+/**
+ * Custom HTTP Channel Adapter
+ */
+export class CustomChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = [CUSTOM_CHANNEL_TYPE];
+  readonly displayName = 'Custom channel';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: false,
+    replyFormat: 'mention' as const,
+    supportsGroups: false,
+    supportsReadReceipts: true,
+    sendsInboxMessages: true
+  };
+
+  /**
+   * The platform is called per message with the stored outbound URL; there is no session to open
+   */
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    try {
+      const message = await customChannelService.sendMessage(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        text,
+        target.isFromBot ?? false,
+        target.skipBroadcast ?? false
+      );
+      return messageResult(message, 'Failed to send custom channel message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send custom channel message');
+    }
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    try {
+      const message = await customChannelService.sendMedia(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        { type: media.type, url: media.url, filename: media.filename, caption: media.caption },
+        target.isFromBot ?? false,
+        target.skipBroadcast ?? false
+      );
+      return messageResult(message, 'Failed to send custom channel media message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send custom channel media message');
+    }
+  }
+}
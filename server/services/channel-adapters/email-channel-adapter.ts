@@ -0,0 +1,148 @@
+import axios from 'axios';
+import type { ChannelConnection } from '@shared/schema';
+import { storage } from '../../storage';
+import emailService from '../channels/email';
+import {
+  IChannelAdapter,
+  ChannelMedia,
+  ChannelSendOptions,
+  ChannelSendTarget,
+  ChannelServiceResult,
+  ReplyOptions
+} from './channel-adapter.interface';
+import { errorResult, messageResult } from './channel-result';
+
+const DEFAULT_CONTENT_TYPES: Record<ChannelMedia['type'], string> = {
+  image: 'image/jpeg',
+  video: 'video/mp4',
+  audio: 'audio/mpeg',
+  document: 'application/pdf'
+};
+
+/**
+ * Default attachment extension for a media type and content type
+ */
+function getAttachmentExtension(mediaType: ChannelMedia['type'], contentType: string): string {
+  switch (mediaType) {
+    case 'image':
+      return contentType.includes('png') ? '.png' : contentType.includes('gif') ? '.gif' : '.jpg';
+    case 'video':
+      return contentType.includes('webm') ? '.webm' : '.mp4';
+    case 'audio':
+      return contentType.includes('ogg') ? '.ogg' : contentType.includes('wav') ? '.wav' : '.mp3';
+    case 'document':
+      return contentType.includes('pdf') ? '.pdf' : contentType.includes('doc') ? '.doc' : '.bin';
+    default:
+      return '.bin';
+  }
+}
+
+/**
+ * Email (IMAP/SMTP) Channel Adapter
+ */
+export class EmailChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['email'];
+  readonly displayName = 'Email';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: true,
+    replyFormat: 'threaded' as const,
+    supportsGroups: false
+  };
+
+  async connect(connection: ChannelConnection, userId: number): Promise<void> {
+    await emailService.connect(connection.id, userId);
+  }
+
+  async disconnect(connection: ChannelConnection): Promise<void> {
+    await emailService.disconnect(connection.id);
+  }
+
+  async sendText(target: ChannelSendTarget, text: string, options?: ChannelSendOptions): Promise<ChannelServiceResult> {
+    if (!options?.subject) {
+      return { success: false, error: 'Subject is required for email messages' };
+    }
+
+    try {
+      const message = await emailService.sendMessage(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        options.subject,
+        text,
+        { isHtml: false, isFromBot: target.isFromBot }
+      );
+      return messageResult(message, 'Failed to send email');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send email');
+    }
+  }
+
+  async sendReply(target: ChannelSendTarget, text: string, replyOptions: ReplyOptions): Promise<ChannelServiceResult> {
+    try {
+      const originalMessage = await storage.getMessageById(parseInt(replyOptions.originalMessageId));
+      if (!originalMessage) {
+        return { success: false, error: 'Original message not found for reply' };
+      }
+
+      const originalSubject = originalMessage.emailSubject || '(No Subject)';
+      const replySubject = originalSubject.startsWith('Re: ') ? originalSubject : `Re: ${originalSubject}`;
+
+      const inReplyTo = originalMessage.emailMessageId;
+      const references = originalMessage.emailReferences
+        ? `${originalMessage.emailReferences} ${originalMessage.emailMessageId}`
+        : originalMessage.emailMessageId;
+
+      const message = await emailService.sendMessage(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        replySubject,
+        text,
+        {
+          inReplyTo: inReplyTo || undefined,
+          references: references || undefined,
+          isHtml: false,
+          isFromBot: target.isFromBot
+        }
+      );
+      return messageResult(message, 'Failed to send email reply');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send email reply');
+    }
+  }
+
+  /**
+   * Email has no media messages; the media is downloaded and sent as an attachment
+   */
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia, options?: ChannelSendOptions): Promise<ChannelServiceResult> {
+    if (!options?.subject) {
+      return { success: false, error: 'Subject is required for email messages' };
+    }
+
+    try {
+      const mediaResponse = await axios.get(media.url, { responseType: 'arraybuffer' });
+      const contentType = (mediaResponse.headers['content-type'] as string | undefined) || DEFAULT_CONTENT_TYPES[media.type] || 'application/octet-stream';
+
+      const message = await emailService.sendMessage(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        options.subject,
+        media.caption || `${media.type} message`,
+        {
+          isHtml: false,
+          isFromBot: target.isFromBot,
+          attachments: [{
+            filename: media.filename || `attachment${getAttachmentExtension(media.type, contentType)}`,
+            content: Buffer.from(mediaResponse.data),
+            contentType
+          }]
+        }
+      );
+      return messageResult(message, 'Failed to send email media');
+    } catch (error: any) {
+      return { success: false, error: `Failed to send email media: ${error.message}` };
+    }
+  }
+}
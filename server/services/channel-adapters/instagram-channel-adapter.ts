@@ -0,0 +1,86 @@
+import type { ChannelConnection } from '@shared/schema';
+import instagramService from '../channels/instagram';
+import {
+  IChannelAdapter,
+  ChannelInteractive,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult,
+  ChannelWebhookContext,
+  ReplyOptions
+} from './channel-adapter.interface';
+import { errorResult } from './channel-result';
+
+/**
+ * Instagram Direct Channel Adapter
+ */
+export class InstagramChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['instagram'];
+  readonly displayName = 'Instagram';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: false,
+    replyFormat: 'mention' as const,
+    supportsGroups: false,
+    supportedMediaTypes: ['image', 'video'],
+    hasMessagingWindow: true,
+    messagingWindowDuration: 24 * 60 * 60 * 1000
+  };
+
+  async connect(connection: ChannelConnection, userId: number): Promise<void> {
+    await instagramService.connect(connection.id, userId, connection.companyId ?? undefined);
+  }
+
+  async disconnect(connection: ChannelConnection, userId: number): Promise<void> {
+    await instagramService.disconnect(connection.id, userId);
+  }
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    try {
+      return await instagramService.sendMessage(target.connection.id, target.recipient, text, target.userId);
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send Instagram message');
+    }
+  }
+
+  async sendReply(target: ChannelSendTarget, text: string, replyOptions: ReplyOptions): Promise<ChannelServiceResult> {
+    return this.sendText(target, `@${replyOptions.originalSender} ${text}`);
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    if (media.type !== 'image' && media.type !== 'video') {
+      return { success: false, error: `Instagram does not support ${media.type} media type` };
+    }
+
+    try {
+      return await instagramService.sendMedia(
+        target.connection.id,
+        target.recipient,
+        media.url,
+        media.type,
+        media.caption,
+        target.userId
+      );
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send Instagram media message');
+    }
+  }
+
+  async sendInteractive(target: ChannelSendTarget, interactive: ChannelInteractive): Promise<ChannelServiceResult> {
+    try {
+      return await instagramService.sendMessageWithQuickReplies(
+        target.connection.id,
+        target.recipient,
+        interactive.body,
+        interactive.buttons.map(button => ({ content_type: 'text' as const, title: button.title, payload: button.id })),
+        target.userId
+      );
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send Instagram quick replies');
+    }
+  }
+
+  async handleWebhook(payload: any, context: ChannelWebhookContext): Promise<void> {
+    await instagramService.processWebhook(payload, context.signature, context.companyId);
+  }
+}
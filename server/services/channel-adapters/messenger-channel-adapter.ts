@@ -0,0 +1,78 @@
+import type { ChannelConnection } from '@shared/schema';
+import messengerService from '../channels/messenger';
+import {
+  IChannelAdapter,
+  ChannelInteractive,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult,
+  ChannelWebhookContext,
+  ReplyOptions
+} from './channel-adapter.interface';
+import { errorResult } from './channel-result';
+
+/**
+ * Facebook Messenger Channel Adapter
+ */
+export class MessengerChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['messenger'];
+  readonly displayName = 'Messenger';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: false,
+    replyFormat: 'mention' as const,
+    supportsGroups: false,
+    hasMessagingWindow: true,
+    messagingWindowDuration: 24 * 60 * 60 * 1000
+  };
+
+  async connect(connection: ChannelConnection, userId: number): Promise<void> {
+    await messengerService.connect(connection.id, userId, connection.companyId ?? undefined);
+  }
+
+  async disconnect(connection: ChannelConnection, userId: number): Promise<void> {
+    await messengerService.disconnect(connection.id, userId);
+  }
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    try {
+      return await messengerService.sendMessage(target.connection.id, target.recipient, text, target.userId);
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send Messenger message');
+    }
+  }
+
+  async sendReply(target: ChannelSendTarget, text: string, replyOptions: ReplyOptions): Promise<ChannelServiceResult> {
+    return this.sendText(target, `@${replyOptions.originalSender} ${text}`);
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    try {
+      return await messengerService.sendMedia(
+        target.connection.id,
+        target.recipient,
+        media.url,
+        media.type === 'document' ? 'file' : media.type
+      );
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send Messenger media message');
+    }
+  }
+
+  async sendInteractive(target: ChannelSendTarget, interactive: ChannelInteractive): Promise<ChannelServiceResult> {
+    try {
+      return await messengerService.sendQuickReply(
+        target.connection.id,
+        target.recipient,
+        interactive.body,
+        interactive.buttons.map(button => ({ title: button.title, payload: button.id }))
+      );
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send Messenger quick replies');
+    }
+  }
+
+  async handleWebhook(payload: any, context: ChannelWebhookContext): Promise<void> {
+    await messengerService.processWebhook(payload, context.signature, context.companyId);
+  }
+}
@@ -0,0 +1,59 @@
+import type { ChannelConnection } from '@shared/schema';
+import telegramService from '../channels/telegram';
+import {
+  IChannelAdapter,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult,
+  ChannelWebhookContext
+} from './channel-adapter.interface';
+import { errorResult } from './channel-result';
+
+/**
+ * Telegram Bot Channel Adapter
+ */
+export class TelegramChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['telegram'];
+  readonly displayName = 'Telegram';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: false,
+    replyFormat: 'threaded' as const,
+    supportsGroups: false
+  };
+
+  async connect(connection: ChannelConnection, userId: number): Promise<void> {
+    await telegramService.connect(connection.id, userId);
+  }
+
+  async disconnect(connection: ChannelConnection, userId: number): Promise<void> {
+    await telegramService.disconnect(connection.id, userId);
+  }
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    try {
+      return await telegramService.sendMessage(target.connection.id, target.recipient, text, target.userId);
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send Telegram message');
+    }
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    try {
+      return await telegramService.sendMedia(
+        target.connection.id,
+        target.recipient,
+        media.url,
+        media.type === 'image' ? 'photo' : media.type,
+        media.caption,
+        target.userId
+      );
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send Telegram media message');
+    }
+  }
+
+  async handleWebhook(payload: any, context: ChannelWebhookContext): Promise<void> {
+    await telegramService.processWebhook(payload, context.signature);
+  }
+}
@@ -0,0 +1,123 @@
+import type { ChannelConnection, Message } from '@shared/schema';
+import TikTokService from '../channels/tiktok';
+import {
+  IChannelAdapter,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult,
+  ChannelWebhookContext,
+  ReplyOptions
+} from './channel-adapter.interface';
+
+/**
+ * TikTok Business Messaging Channel Adapter
+ */
+export class TikTokChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['tiktok'];
+  readonly displayName = 'TikTok';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: false,
+    replyFormat: 'mention' as const,
+    supportsGroups: false,
+    supportsTypingIndicator: false,
+    supportsReadReceipts: false,
+    supportsReactions: false,
+    supportsRichMedia: true,
+    supportedMediaTypes: ['text', 'image', 'video', 'sticker'],
+    hasMessagingWindow: true,
+    messagingWindowDuration: 48 * 60 * 60 * 1000,
+    maxMessageLength: 2000,
+    requiresBusinessAccount: true
+  };
+
+  async connect(connection: ChannelConnection): Promise<void> {
+    await TikTokService.initializeConnection(connection.id);
+  }
+
+  async disconnect(connection: ChannelConnection): Promise<void> {
+    await TikTokService.disconnectConnection(connection.id);
+  }
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    return this.send(target, 'text', text);
+  }
+
+  async sendReply(target: ChannelSendTarget, text: string, replyOptions: ReplyOptions): Promise<ChannelServiceResult> {
+    return this.send(target, 'text', `@${replyOptions.originalSender} ${text}`);
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    if (media.type !== 'image' && media.type !== 'video') {
+      return { success: false, error: `TikTok does not support ${media.type} media type` };
+    }
+    return this.send(target, media.type, media.url);
+  }
+
+  async markAsRead(target: ChannelSendTarget, message: Message): Promise<ChannelServiceResult> {
+    try {
+      await TikTokService.markMessageAsRead(message.id, target.userId, target.connection.companyId || 0);
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: error?.message || 'Failed to mark TikTok message as read' };
+    }
+  }
+
+  async handleWebhook(payload: any, context: ChannelWebhookContext): Promise<void> {
+    await TikTokService.processWebhookEvent(payload, { ipAddress: context.ipAddress, userAgent: context.userAgent });
+  }
+
+  /**
+   * TikTok messages are addressed to the TikTok conversation and only allowed while
+   * the messaging window opened by the customer's last message is still open
+   */
+  private async send(
+    target: ChannelSendTarget,
+    type: 'text' | 'image' | 'video',
+    content: string
+  ): Promise<ChannelServiceResult> {
+    const conversation = target.conversation;
+    const tiktokConversationId = (conversation?.groupMetadata as any)?.tiktokConversationId;
+    const companyId = conversation?.companyId ?? target.connection.companyId;
+    if (!conversation || !tiktokConversationId || !companyId) {
+      return { success: false, error: 'TikTok conversation ID not found' };
+    }
+
+    try {
+      const windowCheck = await TikTokService.checkMessagingWindow(conversation.id);
+      if (!windowCheck.isOpen) {
+        return {
+          success: false,
+          error: 'Messaging window has closed. User must send a message to reopen the conversation.',
+          data: {
+            windowStatus: windowCheck.status,
+            expiresAt: windowCheck.expiresAt,
+            lastInteractionAt: windowCheck.lastInteractionAt
+          }
+        };
+      }
+
+      const message = await TikTokService.sendAndSaveMessage(
+        target.connection.id,
+        companyId,
+        tiktokConversationId,
+        target.recipient,
+        target.userId,
+        type,
+        content,
+        undefined,
+        target.isFromBot
+      );
+      return { success: true, messageId: message.id.toString(), data: message };
+    } catch (error: any) {
+      console.error('Error sending TikTok message:', error);
+      const message =
+        (error?.error?.message != null && typeof error.error.message === 'string')
+          ? error.error.message
+          : (error?.message != null && typeof error.message === 'string')
+            ? error.message
+            : 'Failed to send message';
+      return { success: false, error: message };
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import twilioSmsService from '../channels/twilio-sms';
+import {
+  IChannelAdapter,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult
+} from './channel-adapter.interface';
+import { errorResult, messageResult } from './channel-result';
+
+/**
+ * Twilio SMS Channel Adapter
+ */
+export class TwilioSmsChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['twilio_sms'];
+  readonly displayName = 'SMS';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: false,
+    replyFormat: 'threaded' as const,
+    supportsGroups: false,
+    supportsAgentSignature: false
+  };
+
+  /**
+   * Twilio is called per request with the stored credentials; there is no session to open
+   */
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    try {
+      const message = await twilioSmsService.sendMessage(target.connection.id, target.userId, target.recipient, text, target.isFromBot);
+      return messageResult(message, 'Failed to send SMS');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send SMS');
+    }
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    try {
+      const message = await twilioSmsService.sendMedia(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        media.type,
+        media.url,
+        media.caption,
+        target.isFromBot
+      );
+      return messageResult(message, 'Failed to send MMS');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send MMS');
+    }
+  }
+}
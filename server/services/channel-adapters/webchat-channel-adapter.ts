@@ -0,0 +1,69 @@
+import type { ChannelConnection } from '@shared/schema';
+import webchatService from '../channels/webchat';
+import {
+  IChannelAdapter,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult,
+  ChannelWebhookContext
+} from './channel-adapter.interface';
+import { errorResult, messageResult } from './channel-result';
+
+/**
+ * Website Chat Widget Channel Adapter; the recipient is the widget session ID
+ */
+export class WebChatChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['webchat'];
+  readonly displayName = 'WebChat';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: false,
+    replyFormat: 'threaded' as const,
+    supportsGroups: false,
+    supportsAgentSignature: false
+  };
+
+  async connect(connection: ChannelConnection, userId: number): Promise<void> {
+    await webchatService.connect(connection.id, userId);
+  }
+
+  async disconnect(connection: ChannelConnection, userId: number): Promise<void> {
+    await webchatService.disconnect(connection.id, userId);
+  }
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    try {
+      const message = await webchatService.sendMessage(
+        target.connection.id,
+        target.recipient,
+        text,
+        'text',
+        undefined,
+        { isFromBot: target.isFromBot }
+      );
+      return messageResult(message, 'Failed to send WebChat message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WebChat message');
+    }
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    try {
+      const message = await webchatService.sendMessage(
+        target.connection.id,
+        target.recipient,
+        media.caption || `${media.type} message`,
+        media.type,
+        media.url,
+        { isFromBot: target.isFromBot }
+      );
+      return messageResult(message, 'Failed to send WebChat media message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WebChat media message');
+    }
+  }
+
+  async handleWebhook(payload: any, context: ChannelWebhookContext): Promise<void> {
+    await webchatService.processWebhook(payload, context.companyId);
+  }
+}
@@ -0,0 +1,131 @@
+import type { ChannelConnection, Message } from '@shared/schema';
+import whatsAppService, { deleteWhatsAppMessage } from '../channels/whatsapp';
+import {
+  IChannelAdapter,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult,
+  ReplyOptions
+} from './channel-adapter.interface';
+import { errorResult, messageResult } from './channel-result';
+
+/**
+ * WhatsApp (unofficial, Baileys) Channel Adapter
+ */
+export class WhatsAppChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['whatsapp', 'whatsapp_unofficial'];
+  readonly displayName = 'WhatsApp';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: true,
+    deleteTimeLimit: 4320,
+    replyFormat: 'quoted' as const,
+    supportsGroups: true
+  };
+
+  async connect(connection: ChannelConnection, userId: number): Promise<void> {
+    await whatsAppService.connect(connection.id, userId);
+  }
+
+  async disconnect(connection: ChannelConnection, userId: number): Promise<void> {
+    await whatsAppService.disconnect(connection.id, userId);
+  }
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    try {
+      const message = await whatsAppService.sendMessage(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        text,
+        target.isFromBot ?? false,
+        target.conversation?.id
+      );
+      return messageResult(message, 'Failed to send WhatsApp message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WhatsApp message');
+    }
+  }
+
+  async sendReply(target: ChannelSendTarget, text: string, replyOptions: ReplyOptions): Promise<ChannelServiceResult> {
+    if (!replyOptions.quotedMessage) {
+      return { success: false, error: 'No quoted message object provided for WhatsApp reply' };
+    }
+
+    try {
+      const message = await whatsAppService.sendQuotedMessage(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        { text, quoted: replyOptions.quotedMessage },
+        false,
+        target.conversation?.id
+      );
+      return messageResult(message, 'Failed to send WhatsApp quoted reply - sendQuotedMessage returned null');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WhatsApp quoted reply');
+    }
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    try {
+      const message = await whatsAppService.sendMedia(
+        target.connection.id,
+        target.userId,
+        target.recipient,
+        media.type,
+        media.filePath || media.url,
+        media.caption || '',
+        media.filename || '',
+        target.isFromBot ?? false,
+        target.conversation?.id
+      );
+      return messageResult(message, 'Failed to send WhatsApp media message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WhatsApp media message');
+    }
+  }
+
+  async deleteMessage(target: ChannelSendTarget, message: Message): Promise<ChannelServiceResult> {
+    const messageCreatedAt = message.createdAt ? new Date(message.createdAt) : new Date();
+    const messageAge = Date.now() - messageCreatedAt.getTime();
+    const maxAge = 72 * 60 * 1000;
+
+    if (messageAge > maxAge) {
+      return {
+        success: false,
+        error: 'Message is too old to be deleted. WhatsApp only allows deletion within 72 minutes of sending.'
+      };
+    }
+
+    let messageKey: { remoteJid?: string; fromMe?: boolean; id: string } = {
+      id: message.externalId || ''
+    };
+
+    if (message.metadata) {
+      try {
+        const metadata = typeof message.metadata === 'string'
+          ? JSON.parse(message.metadata)
+          : message.metadata;
+
+        if (metadata.whatsappMessage?.key) {
+          messageKey = metadata.whatsappMessage.key;
+        } else if (metadata.remoteJid) {
+          messageKey.remoteJid = metadata.remoteJid;
+          messageKey.fromMe = metadata.fromMe;
+        }
+      } catch (error) {
+
+      }
+    }
+
+    try {
+      const result = await deleteWhatsAppMessage(target.connection.id, target.userId, target.recipient, messageKey);
+      return result.success
+        ? { success: true }
+        : { success: false, error: result.error || 'Failed to delete message from WhatsApp' };
+    } catch (error: any) {
+      return errorResult(error, 'Failed to delete message from WhatsApp');
+    }
+  }
+}
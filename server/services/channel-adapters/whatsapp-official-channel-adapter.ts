@@ -0,0 +1,145 @@
+import type { ChannelConnection, Message } from '@shared/schema';
+import whatsAppOfficialService from '../channels/whatsapp-official';
+import {
+  IChannelAdapter,
+  ChannelInteractive,
+  ChannelMedia,
+  ChannelSendTarget,
+  ChannelServiceResult,
+  ChannelTemplate,
+  ChannelWebhookContext,
+  ReplyOptions
+} from './channel-adapter.interface';
+import { errorResult } from './channel-result';
+
+/**
+ * WhatsApp Business Cloud API Channel Adapter
+ */
+export class WhatsAppOfficialChannelAdapter implements IChannelAdapter {
+  readonly channelTypes = ['whatsapp_official'];
+  readonly displayName = 'WhatsApp Official';
+  readonly capabilities = {
+    supportsReply: true,
+    supportsQuotedMessages: true,
+    replyFormat: 'quoted' as const,
+    supportsGroups: false,
+    hasMessagingWindow: true,
+    messagingWindowDuration: 24 * 60 * 60 * 1000,
+    requiresBusinessAccount: true
+  };
+
+  async connect(connection: ChannelConnection, userId: number): Promise<void> {
+    await whatsAppOfficialService.connect(connection.id, userId, connection.companyId || 0);
+  }
+
+  async disconnect(connection: ChannelConnection, userId: number): Promise<void> {
+    await whatsAppOfficialService.disconnect(connection.id, userId, connection.companyId || 0);
+  }
+
+  async sendText(target: ChannelSendTarget, text: string): Promise<ChannelServiceResult> {
+    try {
+      const message = await whatsAppOfficialService.sendMessage(
+        target.connection.id,
+        target.userId,
+        target.connection.companyId || 0,
+        target.recipient,
+        text,
+        target.isFromBot ?? false
+      );
+      return this.toResult(message, 'Failed to send WhatsApp Official message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WhatsApp Official message');
+    }
+  }
+
+  async sendReply(target: ChannelSendTarget, text: string, replyOptions: ReplyOptions): Promise<ChannelServiceResult> {
+    const truncatedContent = replyOptions.originalContent.substring(0, 50);
+    const ellipsis = replyOptions.originalContent.length > 50 ? '...' : '';
+    return this.sendText(target, `↩️ Replying to: "${truncatedContent}${ellipsis}"\n\n${text}`);
+  }
+
+  async sendMedia(target: ChannelSendTarget, media: ChannelMedia): Promise<ChannelServiceResult> {
+    try {
+      const message = await whatsAppOfficialService.sendMedia(
+        target.connection.id,
+        target.userId,
+        target.connection.companyId || 0,
+        target.recipient,
+        media.type,
+        media.url,
+        media.caption,
+        media.filename,
+        undefined,
+        target.isFromBot ?? false,
+        target.skipBroadcast ?? false
+      );
+      return this.toResult(message, 'Failed to send WhatsApp Official media message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WhatsApp Official media message');
+    }
+  }
+
+  async sendTemplate(target: ChannelSendTarget, template: ChannelTemplate): Promise<ChannelServiceResult> {
+    try {
+      const message = await whatsAppOfficialService.sendTemplateMessage(
+        target.connection.id,
+        target.userId,
+        target.connection.companyId || 0,
+        target.recipient,
+        template.name,
+        template.languageCode,
+        template.components?.length ? template.components : undefined,
+        target.skipBroadcast ?? false
+      );
+      return this.toResult(message, 'Failed to send WhatsApp template message');
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WhatsApp template message');
+    }
+  }
+
+  async sendInteractive(target: ChannelSendTarget, interactive: ChannelInteractive): Promise<ChannelServiceResult> {
+    try {
+      const result = await whatsAppOfficialService.sendInteractiveMessage(target.connection.id, {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: target.recipient,
+        type: 'interactive',
+        interactive: {
+          type: 'button',
+          body: { text: interactive.body },
+          action: {
+            buttons: interactive.buttons.slice(0, 3).map(button => ({
+              type: 'reply',
+              reply: { id: button.id, title: button.title.substring(0, 20) }
+            }))
+          }
+        }
+      });
+      return { success: result.success, messageId: result.messageId, data: result };
+    } catch (error: any) {
+      return errorResult(error, 'Failed to send WhatsApp interactive message');
+    }
+  }
+
+  async markAsRead(target: ChannelSendTarget, message: Message): Promise<ChannelServiceResult> {
+    if (!message.externalId) {
+      return { success: false, error: 'Message has no WhatsApp message ID' };
+    }
+    return whatsAppOfficialService.markMessageAsRead(
+      target.connection.id,
+      target.connection.companyId || 0,
+      message.externalId
+    );
+  }
+
+  async handleWebhook(payload: any, context: ChannelWebhookContext): Promise<void> {
+    await whatsAppOfficialService.processWebhook(payload, context.companyId);
+  }
+
+  private toResult(message: any, failureMessage: string): ChannelServiceResult {
+    if (!message) {
+      return { success: false, error: failureMessage };
+    }
+    return { success: true, messageId: message.externalId || message.id?.toString(), data: message };
+  }
+}
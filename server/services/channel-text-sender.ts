@@ -0,0 +1,31 @@
+import type { ChannelConnection, Contact, Conversation } from '@shared/schema';
+import { channelAdapterRegistry } from './channel-adapters/channel-adapter-registry';
+
+/**
+ * Send a plain text message from the bot on the conversation's channel. The channel services
+ * store the outbound message and broadcast it themselves.
+ */
+export async function sendChannelText(
+  conversation: Conversation,
+  contact: Contact,
+  connection: ChannelConnection,
+  text: string
+): Promise<void> {
+  const recipient = contact.identifier || contact.phone;
+  if (!recipient) {
+    throw new Error('Contact has no recipient identifier');
+  }
+
+  const adapter = channelAdapterRegistry.get(connection.channelType);
+  if (!adapter) {
+    throw new Error(`Text replies are not supported on ${connection.channelType} channels`);
+  }
+
+  const result = await adapter.sendText(
+    { connection, recipient, userId: connection.userId, conversation, isFromBot: true },
+    text
+  );
+  if (!result.success) {
+    throw new Error(result.error || `Failed to send ${adapter.displayName} message`);
+  }
+}
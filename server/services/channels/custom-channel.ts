@@ -0,0 +1,526 @@
+import { storage } from '../../storage';
+import { ChannelConnection, Contact, InsertContact, InsertConversation, InsertMessage, Message } from '@shared/schema';
+import axios from 'axios';
+import crypto from 'crypto';
+import { generateWebhookSignature } from '../../middleware/api-auth';
+import { logger } from '../../utils/logger';
+import { validateWebhookUrl } from '../webhook-subscription-service';
+
+/**
+ * Custom channel connector
+ *
+ * Connects platforms without a native integration over plain HTTPS. Every request in either
+ * direction is a JSON body signed with the connection's signing secret:
+ *
+ *   X-Channel-Timestamp: <unix seconds>
+ *   X-Channel-Signature: v1=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ *
+ * Inbound, POST /api/webhooks/custom/:connectionId accepts one event or { "events": [...] }:
+ *
+ *   { "type": "message",
+ *     "sender": { "id": "u-42", "name": "Ada", "phone": "+15551234567", "email": "ada@example.com", "avatarUrl": "https://..." },
+ *     "message": { "id": "m-1", "text": "Hello", "media": { "type": "image", "url": "https://...", "filename": "a.png" },
+ *                  "timestamp": "2024-01-01T12:00:00Z" } }
+ *
+ *   { "type": "status", "messageId": "<id of an outbound message>", "status": "sent" | "delivered" | "read" | "failed",
+ *     "error": "optional reason" }
+ *
+ * Outbound, agent and bot messages are POSTed to the connection's outbound URL:
+ *
+ *   { "type": "message", "connectionId": 12,
+ *     "message": { "id": "<uuid>", "conversationId": 34, "recipient": { "id": "u-42" }, "text": "Hi",
+ *                  "media": { "type": "image", "url": "https://...", "filename": "a.png", "caption": "..." },
+ *                  "createdAt": "2024-01-01T12:00:05Z" } }
+ *
+ * The platform reports delivery by sending status events for the outbound message id.
+ */
+
+export const CUSTOM_CHANNEL_TYPE = 'custom';
+
+export const CUSTOM_CHANNEL_SIGNATURE_HEADER = 'x-channel-signature';
+export const CUSTOM_CHANNEL_TIMESTAMP_HEADER = 'x-channel-timestamp';
+
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const OUTBOUND_TIMEOUT = 10000;
+const MAX_EVENTS_PER_REQUEST = 100;
+
+const MEDIA_TYPES = ['image', 'video', 'audio', 'document'] as const;
+const DELIVERY_STATUSES = ['sent', 'delivered', 'read', 'failed'] as const;
+
+type CustomMediaType = typeof MEDIA_TYPES[number];
+type CustomDeliveryStatus = typeof DELIVERY_STATUSES[number];
+
+interface CustomChannelConfig {
+  platformName: string;
+  outboundUrl: string;
+  signingSecret: string;
+}
+
+export interface CustomChannelMedia {
+  type: CustomMediaType;
+  url: string;
+  filename?: string;
+  caption?: string;
+}
+
+export interface CustomWebhookResult {
+  ok: boolean;
+  status: number;
+  error?: string;
+  processed?: number;
+}
+
+/**
+ * Order in which delivery statuses progress; a late "delivered" must not overwrite "read"
+ */
+const STATUS_RANK: Record<string, number> = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3
+};
+
+export function generateSigningSecret(): string {
+  return `chsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Copy of a connection that is safe to send to clients; the signing secret never leaves the server
+ */
+export function withoutSigningSecret<T extends { connectionData?: unknown }>(connection: T): T {
+  if (!connection.connectionData || typeof connection.connectionData !== 'object') {
+    return connection;
+  }
+  const { signingSecret, ...connectionData } = connection.connectionData as Record<string, unknown>;
+  return { ...connection, connectionData };
+}
+
+function getConfig(connection: ChannelConnection): CustomChannelConfig {
+  const data = (connection.connectionData || {}) as any;
+  if (!data.outboundUrl || !data.signingSecret) {
+    throw new Error('Missing custom channel config: outboundUrl and signingSecret are required');
+  }
+  return {
+    platformName: data.platformName || connection.accountName,
+    outboundUrl: data.outboundUrl,
+    signingSecret: data.signingSecret
+  };
+}
+
+/**
+ * Contacts are scoped to their connection so sender IDs of different platforms never collide
+ */
+function contactIdentifierType(connectionId: number): string {
+  return `${CUSTOM_CHANNEL_TYPE}:${connectionId}`;
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `v1=${generateWebhookSignature(`${timestamp}.${body}`, secret)}`;
+}
+
+/**
+ * Check a signature header against the raw request body, rejecting stale timestamps to
+ * prevent replays
+ */
+export function verifySignature(secret: string, timestampHeader: string | undefined, body: string, signatureHeader: string | undefined): boolean {
+  if (!timestampHeader || !signatureHeader) {
+    return false;
+  }
+
+  const timestamp = parseInt(timestampHeader, 10);
+  if (isNaN(timestamp) || Math.abs(Math.floor(Date.now() / 1000) - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  return signatureHeader.split(',').some(candidate => {
+    const provided = Buffer.from(candidate.trim());
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  });
+}
+
+function toAbsoluteUrl(url: string): string {
+  if (/^https?:\/\//i.test(url)) {
+    return url;
+  }
+  const baseUrl = process.env.APP_URL || process.env.BASE_URL || process.env.PUBLIC_URL || '';
+  return `${baseUrl.replace(/\/$/, '')}/${url.replace(/^\//, '')}`;
+}
+
+async function postSigned(config: CustomChannelConfig, payload: Record<string, any>): Promise<void> {
+  const urlError = await validateWebhookUrl(config.outboundUrl);
+  if (urlError) {
+    throw new Error(urlError);
+  }
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const response = await axios.post(config.outboundUrl, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'PowerChat-Channel/1.0',
+      'X-Channel-Timestamp': String(timestamp),
+      'X-Channel-Signature': signPayload(config.signingSecret, timestamp, body)
+    },
+    timeout: OUTBOUND_TIMEOUT,
+    maxRedirects: 0,
+    validateStatus: () => true
+  });
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`${config.platformName} responded with HTTP ${response.status}`);
+  }
+}
+
+async function getConnection(connectionId: number): Promise<ChannelConnection> {
+  const connection = await storage.getChannelConnection(connectionId);
+  if (!connection || connection.channelType !== CUSTOM_CHANNEL_TYPE) {
+    throw new Error('Custom channel connection not found');
+  }
+  if (!connection.companyId) {
+    throw new Error('Connection missing companyId');
+  }
+  return connection;
+}
+
+async function getOrCreateConversation(connection: ChannelConnection, contactId: number) {
+  let conversation = await storage.getConversationByContactAndChannel(contactId, connection.id);
+  if (!conversation) {
+    const conv: InsertConversation = {
+      contactId,
+      channelId: connection.id,
+      channelType: CUSTOM_CHANNEL_TYPE,
+      companyId: connection.companyId,
+      status: 'active'
+    };
+    conversation = await storage.createConversation(conv);
+  }
+  return conversation;
+}
+
+function broadcastStatus(message: Message, status: string, companyId: number) {
+  if ((global as any).broadcastToCompany) {
+    (global as any).broadcastToCompany({
+      type: 'messageStatusUpdate',
+      data: { messageId: message.id, conversationId: message.conversationId, status }
+    }, companyId);
+  }
+}
+
+/**
+ * Store an outbound message and deliver it to the platform. The message is stored before the
+ * request so status callbacks that arrive quickly always find it.
+ */
+async function sendOutbound(
+  connectionId: number,
+  userId: number,
+  recipientId: string,
+  text: string,
+  media: CustomChannelMedia | null,
+  isFromBot: boolean,
+  skipBroadcast: boolean
+): Promise<Message> {
+  const connection = await getConnection(connectionId);
+  const config = getConfig(connection);
+  const companyId = connection.companyId!;
+
+  const contact = await storage.getContactByIdentifier(recipientId, contactIdentifierType(connection.id));
+  if (!contact || contact.companyId !== companyId) {
+    throw new Error(`No ${config.platformName} contact with ID ${recipientId}`);
+  }
+
+  const conversation = await getOrCreateConversation(connection, contact.id);
+  const externalId = crypto.randomUUID();
+  const mediaUrl = media ? toAbsoluteUrl(media.url) : null;
+
+  const msg: InsertMessage = {
+    conversationId: conversation.id,
+    senderId: isFromBot ? null : userId,
+    senderType: isFromBot ? null : 'user',
+    content: text || media?.caption || '',
+    type: media ? media.type : 'text',
+    direction: 'outbound',
+    status: 'pending',
+    mediaUrl,
+    externalId,
+    isFromBot,
+    metadata: {
+      platformName: config.platformName,
+      recipientId,
+      filename: media?.filename
+    } as any
+  };
+
+  const saved = await storage.createMessage(msg);
+  await storage.updateConversation(conversation.id, { lastMessageAt: new Date() });
+
+  if (!skipBroadcast && (global as any).broadcastToCompany) {
+    (global as any).broadcastToCompany({ type: 'newMessage', data: saved }, companyId);
+  }
+
+  try {
+    await postSigned(config, {
+      type: 'message',
+      connectionId: connection.id,
+      message: {
+        id: externalId,
+        conversationId: conversation.id,
+        recipient: { id: recipientId },
+        text: text || null,
+        media: media ? { type: media.type, url: mediaUrl, filename: media.filename, caption: media.caption } : null,
+        createdAt: (saved.createdAt || new Date()).toISOString()
+      }
+    });
+
+    /* A status callback may already have advanced the message while the request was open */
+    const current = await storage.getMessageById(saved.id);
+    if (current && current.status !== 'pending') {
+      return current;
+    }
+
+    const sent = await storage.updateMessage(saved.id, { status: 'sent' });
+    broadcastStatus(sent, 'sent', companyId);
+    return sent;
+  } catch (error: any) {
+    const reason = error?.code === 'ECONNABORTED' ? 'Request timed out' : (error?.message || 'Request failed');
+    logger.warn('custom-channel', `Delivery to ${config.platformName} (connection ${connection.id}) failed: ${reason}`);
+
+    await storage.updateMessage(saved.id, {
+      status: 'failed',
+      metadata: { ...(saved.metadata as any || {}), error: reason } as any
+    });
+    broadcastStatus(saved, 'failed', companyId);
+    throw new Error(`Failed to deliver message to ${config.platformName}: ${reason}`);
+  }
+}
+
+export async function sendMessage(
+  connectionId: number,
+  userId: number,
+  recipientId: string,
+  text: string,
+  isFromBot = false,
+  skipBroadcast = false
+): Promise<Message> {
+  return sendOutbound(connectionId, userId, recipientId, text, null, isFromBot, skipBroadcast);
+}
+
+export async function sendMedia(
+  connectionId: number,
+  userId: number,
+  recipientId: string,
+  media: CustomChannelMedia,
+  isFromBot = false,
+  skipBroadcast = false
+): Promise<Message> {
+  return sendOutbound(connectionId, userId, recipientId, media.caption || '', media, isFromBot, skipBroadcast);
+}
+
+/**
+ * Send a signed ping so the platform can verify its endpoint and signature check
+ */
+export async function sendTestEvent(connection: ChannelConnection): Promise<void> {
+  await postSigned(getConfig(connection), {
+    type: 'ping',
+    connectionId: connection.id,
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Find the sender's contact by its connection-scoped identifier only. Matching by phone would
+ * attach the sender to a contact of another channel, and replies look contacts up by identifier.
+ * Phone and email are only stored when no other contact of the company already uses them.
+ */
+async function getOrCreateSenderContact(connection: ChannelConnection, senderId: string, sender: any): Promise<Contact> {
+  const companyId = connection.companyId!;
+  const identifierType = contactIdentifierType(connection.id);
+
+  const existing = await storage.getContactByIdentifier(senderId, identifierType);
+  if (existing && existing.companyId === companyId) {
+    return existing;
+  }
+
+  const phone = sender.phone && !(await storage.getContactByPhone(String(sender.phone), companyId)) ? String(sender.phone) : null;
+  const email = sender.email && !(await storage.getContactByEmail(String(sender.email), companyId)) ? String(sender.email) : null;
+
+  const contactData: InsertContact = {
+    companyId,
+    name: sender.name || sender.phone || sender.email || senderId,
+    phone,
+    email,
+    avatarUrl: sender.avatarUrl || null,
+    identifier: senderId,
+    identifierType,
+    source: CUSTOM_CHANNEL_TYPE
+  };
+  return storage.createContact(contactData);
+}
+
+async function processInboundMessage(connection: ChannelConnection, event: any): Promise<string | null> {
+  const sender = event.sender;
+  const message = event.message;
+  if (!sender?.id || !message?.id) {
+    return 'Message events require sender.id and message.id';
+  }
+
+  const media = message.media;
+  if (media && (!MEDIA_TYPES.includes(media.type) || typeof media.url !== 'string')) {
+    return `Media requires a url and a type of ${MEDIA_TYPES.join(', ')}`;
+  }
+  if (!message.text && !media) {
+    return 'Message events require text or media';
+  }
+
+  const companyId = connection.companyId!;
+  const senderId = String(sender.id);
+  const externalId = String(message.id);
+
+  const contact = await getOrCreateSenderContact(connection, senderId, sender);
+  const conversation = await getOrCreateConversation(connection, contact.id);
+
+  const existing = await storage.getMessageByExternalId(externalId, companyId);
+  if (existing && existing.conversationId === conversation.id) {
+    return null;
+  }
+
+  const type: 'text' | CustomMediaType = media ? media.type : 'text';
+  const sentAt = message.timestamp ? new Date(message.timestamp) : null;
+
+  const msg: InsertMessage = {
+    conversationId: conversation.id,
+    content: message.text || `[${type.toUpperCase()}]`,
+    type,
+    direction: 'inbound',
+    status: 'delivered',
+    mediaUrl: media?.url || null,
+    externalId,
+    metadata: {
+      senderId,
+      filename: media?.filename,
+      sentAt: sentAt && !isNaN(sentAt.getTime()) ? sentAt.toISOString() : undefined
+    } as any
+  };
+
+  const saved = await storage.createMessage(msg);
+  await storage.updateConversation(conversation.id, { lastMessageAt: new Date(), status: 'active' });
+
+  if ((global as any).broadcastToCompany) {
+    (global as any).broadcastToCompany({ type: 'newMessage', data: saved }, companyId);
+  }
+
+  try {
+    const flowExecutorModule = await import('../flow-executor');
+    await flowExecutorModule.default.processIncomingMessage(saved, conversation, contact, connection);
+  } catch (error) {
+    logger.error('custom-channel', `Flow executor error for connection ${connection.id}`, error);
+  }
+
+  return null;
+}
+
+async function processStatusEvent(connection: ChannelConnection, event: any): Promise<string | null> {
+  if (!event.messageId || !DELIVERY_STATUSES.includes(event.status)) {
+    return `Status events require messageId and a status of ${DELIVERY_STATUSES.join(', ')}`;
+  }
+
+  const companyId = connection.companyId!;
+  const message = await storage.getMessageByExternalId(String(event.messageId), companyId);
+  if (!message || message.direction !== 'outbound') {
+    return null;
+  }
+
+  const conversation = await storage.getConversation(message.conversationId);
+  if (!conversation || conversation.channelId !== connection.id) {
+    return null;
+  }
+
+  const status = event.status as CustomDeliveryStatus;
+  const currentRank = STATUS_RANK[message.status || 'pending'] ?? 0;
+  if (status !== 'failed' && (STATUS_RANK[status] ?? 0) <= currentRank) {
+    return null;
+  }
+
+  await storage.updateMessage(message.id, {
+    status,
+    metadata: {
+      ...(message.metadata as any || {}),
+      ...(event.error ? { error: String(event.error) } : {})
+    } as any
+  });
+  broadcastStatus(message, status, companyId);
+
+  return null;
+}
+
+/**
+ * Verify and process a signed request to the connection's inbound webhook
+ */
+export async function processWebhook(
+  connectionId: number,
+  rawBody: string,
+  timestamp: string | undefined,
+  signature: string | undefined
+): Promise<CustomWebhookResult> {
+  const connection = await storage.getChannelConnection(connectionId);
+  if (!connection || connection.channelType !== CUSTOM_CHANNEL_TYPE || !connection.companyId) {
+    return { ok: false, status: 404, error: 'Unknown connection' };
+  }
+
+  let config: CustomChannelConfig;
+  try {
+    config = getConfig(connection);
+  } catch (error: any) {
+    return { ok: false, status: 409, error: error.message };
+  }
+
+  if (!verifySignature(config.signingSecret, timestamp, rawBody, signature)) {
+    return { ok: false, status: 401, error: 'Invalid or expired signature' };
+  }
+
+  if (connection.status !== 'active') {
+    return { ok: false, status: 409, error: 'Connection is not active' };
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return { ok: false, status: 400, error: 'Body must be valid JSON' };
+  }
+
+  const events: any[] = Array.isArray(payload?.events) ? payload.events : [payload];
+  if (events.length === 0 || events.length > MAX_EVENTS_PER_REQUEST) {
+    return { ok: false, status: 400, error: `Send between 1 and ${MAX_EVENTS_PER_REQUEST} events per request` };
+  }
+
+  let processed = 0;
+  for (const event of events) {
+    let error: string | null;
+    if (event?.type === 'message') {
+      error = await processInboundMessage(connection, event);
+    } else if (event?.type === 'status') {
+      error = await processStatusEvent(connection, event);
+    } else {
+      error = `Unsupported event type: ${event?.type}`;
+    }
+
+    if (error) {
+      return { ok: false, status: 400, error, processed };
+    }
+    processed++;
+  }
+
+  return { ok: true, status: 200, processed };
+}
+
+export default {
+  sendMessage,
+  sendMedia,
+  sendTestEvent,
+  processWebhook,
+  generateSigningSecret,
+  withoutSigningSecret,
+  verifySignature
+};
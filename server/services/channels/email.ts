@@ -197,7 +197,7 @@ export async function disconnectFromEmail(connectionId: number): Promise<boolean
  */
 export async function sendMessage(
   connectionId: number,
-  _userId: number,
+  userId: number,
   to: string,
   subject: string,
   content: string,
@@ -208,6 +208,7 @@ export async function sendMessage(
     inReplyTo?: string;
     references?: string;
     isHtml?: boolean;
+    isFromBot?: boolean;
     attachments?: Array<{
       filename: string;
       content: Buffer;
@@ -351,6 +352,9 @@ export async function sendMessage(
       direction: 'outbound',
       status: 'sent',
       externalId: info.messageId,
+      senderId: options.isFromBot ? null : userId,
+      senderType: options.isFromBot ? null : 'user',
+      isFromBot: !!options.isFromBot,
       metadata: JSON.stringify({
         messageId: info.messageId,
         response: info.response,
@@ -3065,7 +3065,8 @@ async function sendAndSaveMessage(
   userId: number,
   messageType: 'text' | 'image' | 'video' | 'sticker' = 'text',
   content: string,
-  thumbnailUrl?: string
+  thumbnailUrl?: string,
+  isFromBot: boolean = false
 ): Promise<any> {
   let conversation: any;
   try {
@@ -3148,7 +3149,8 @@ async function sendAndSaveMessage(
       type: messageType,
       content: messageContent,
       senderId: userId,
-      senderType: 'user',
+      senderType: isFromBot ? null : 'user',
+      isFromBot,
       externalId: sendResponse.message_id,
       status: 'sent',
       metadata: JSON.stringify({
@@ -60,7 +60,7 @@ function hasOptOutTag(contact: any): boolean {
   return Array.isArray(tags) && tags.map(x => (x || '').toLowerCase()).includes('sms_opted_out');
 }
 
-export async function sendMessage(connectionId: number, userId: number, to: string, body: string) {
+export async function sendMessage(connectionId: number, userId: number, to: string, body: string, isFromBot: boolean = false) {
 
 
 
@@ -147,6 +147,8 @@ export async function sendMessage(connectionId: number, userId: number, to: stri
   const msg: InsertMessage = {
     conversationId: conversation.id,
     senderId: userId,
+    senderType: isFromBot ? null : 'user',
+    isFromBot,
     content: body,
     type: 'text',
     direction: 'outbound',
@@ -187,7 +189,8 @@ export async function sendMedia(
   to: string,
   mediaType: 'image' | 'video' | 'audio' | 'document',
   mediaUrl: string,
-  caption?: string
+  caption?: string,
+  isFromBot: boolean = false
 ) {
   const connection = await storage.getChannelConnection(connectionId);
   if (!connection) throw new Error('Channel connection not found');
@@ -236,6 +239,8 @@ export async function sendMedia(
   const msg: InsertMessage = {
     conversationId: conversation.id,
     senderId: userId,
+    senderType: isFromBot ? null : 'user',
+    isFromBot,
     content: caption || `[${mediaType.toUpperCase()}]`,
     type: mediaType,
     direction: 'outbound',
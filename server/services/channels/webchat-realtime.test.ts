@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  getMessages: vi.fn()
+}));
+
+vi.mock('../../storage', () => ({
+  storage: {
+    getContactByIdentifier: async () => ({ id: 5, companyId: 1 }),
+    getConversationByContactAndChannel: async () => ({ id: 9 }),
+    getMessagesByConversationPaginated: mocks.getMessages
+  }
+}));
+vi.mock('../../utils/websocket', () => ({ broadcastToCompany: vi.fn() }));
+vi.mock('./webchat', () => ({
+  default: { verifyWidgetToken: async () => ({ id: 1, companyId: 1 }) }
+}));
+
+const { webchatRealtime } = await import('./webchat-realtime');
+
+/**
+ * Open an event stream and collect the events written to it
+ */
+const openStream = (lastMessageId: string) => {
+  const events: any[] = [];
+  let close = () => { };
+  const req = {
+    query: { token: 'widget-token', lastMessageId },
+    params: { sessionId: 'session-1' },
+    get: () => undefined,
+    on: (_event: string, handler: () => void) => { close = handler; }
+  };
+  const res = {
+    writeHead: vi.fn(),
+    write: (chunk: string) => {
+      const data = /data: (.*)\n\n$/.exec(chunk);
+      if (data) events.push(JSON.parse(data[1]));
+    }
+  };
+  const opened = webchatRealtime.openEventStream(req as any, res as any);
+  return { events, opened, close: () => close() };
+};
+
+const message = (id: number) => ({ id, conversationId: 9, content: `Message ${id}` });
+
+describe('webchat replay', () => {
+  it('holds live messages back until the missed ones are replayed', async () => {
+    let resolveHistory: (messages: unknown[]) => void = () => { };
+    mocks.getMessages.mockReturnValueOnce(new Promise(resolve => { resolveHistory = resolve; }));
+
+    const stream = openStream('10');
+    await vi.waitFor(() => expect(mocks.getMessages).toHaveBeenCalled());
+
+    webchatRealtime.forwardBroadcast({ type: 'newMessage', data: message(12) });
+    webchatRealtime.forwardBroadcast({ type: 'newMessage', data: message(13) });
+    expect(stream.events.map(event => event.type)).toEqual(['ready']);
+
+    resolveHistory([message(12), message(11), message(10)]);
+    await stream.opened;
+
+    expect(stream.events.map(event => event.data?.id ?? event.type)).toEqual(['ready', 11, 12, 13]);
+
+    webchatRealtime.forwardBroadcast({ type: 'newMessage', data: message(14) });
+    expect(stream.events.at(-1)?.data.id).toBe(14);
+    stream.close();
+  });
+
+  it('skips live messages the client already has', async () => {
+    mocks.getMessages.mockImplementationOnce(async () => {
+      webchatRealtime.forwardBroadcast({ type: 'newMessage', data: message(20) });
+      return [message(20)];
+    });
+
+    const stream = openStream('20');
+    await stream.opened;
+
+    expect(stream.events.map(event => event.data?.id ?? event.type)).toEqual(['ready']);
+    stream.close();
+  });
+});
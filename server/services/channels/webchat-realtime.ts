@@ -0,0 +1,320 @@
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import type { Request, Response } from 'express';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { ChannelConnection, Conversation, Message } from '@shared/schema';
+import { storage } from '../../storage';
+import { broadcastToCompany } from '../../utils/websocket';
+import { logger } from '../../utils/logger';
+import webchatService from './webchat';
+
+/**
+ * Real-time transport for the website chat widget
+ *
+ * Visitors connect to WEBCHAT_SOCKET_PATH and authenticate with their widget token and session
+ * ID, or open the server-sent events stream when WebSockets are unavailable. Either way the
+ * visitor only receives events for their own conversation:
+ *
+ *   { type: 'message', data: Message }                      new message in either direction
+ *   { type: 'typing', data: { isTyping } }                  an agent is typing
+ *   { type: 'read', data: { lastReadMessageId, readAt } }   an agent read the visitor's messages
+ *
+ * Clients pass the last message ID they have seen when (re)connecting and receive the messages
+ * they missed before live events.
+ */
+
+export const WEBCHAT_SOCKET_PATH = '/ws/webchat';
+
+const AUTH_TIMEOUT = 10000;
+const HEARTBEAT_INTERVAL = 25000;
+const REPLAY_LIMIT = 50;
+
+export interface WidgetEvent {
+  type: string;
+  data?: any;
+}
+
+interface WidgetSession {
+  sessionId: string;
+  connection: ChannelConnection;
+  conversation: Conversation;
+}
+
+interface WidgetSubscriber {
+  sessionId: string;
+  conversationId: number;
+  companyId: number;
+  send: (event: WidgetEvent) => void;
+  pending: WidgetEvent[] | null; // live events held back until the missed messages are replayed
+}
+
+class WebChatRealtime {
+  private wss = new WebSocketServer({ noServer: true });
+  private subscribers = new Map<number, Set<WidgetSubscriber>>();
+
+  /**
+   * Resolve a visitor session; the session must belong to the widget the token was issued for
+   */
+  async authorize(token: string | undefined, sessionId: string | undefined): Promise<WidgetSession | null> {
+    if (!token || !sessionId) {
+      return null;
+    }
+
+    const connection = await webchatService.verifyWidgetToken(token);
+    if (!connection || !connection.companyId) {
+      return null;
+    }
+
+    const contact = await storage.getContactByIdentifier(sessionId, 'webchat');
+    if (!contact || contact.companyId !== connection.companyId) {
+      return null;
+    }
+
+    const conversation = await storage.getConversationByContactAndChannel(contact.id, connection.id);
+    if (!conversation) {
+      return null;
+    }
+
+    return { sessionId, connection, conversation };
+  }
+
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    this.wss.handleUpgrade(request, socket, head, ws => this.handleSocket(ws));
+  }
+
+  /**
+   * Server-sent events fallback; message events carry their ID so EventSource resumes from
+   * Last-Event-ID after a reconnect
+   */
+  async openEventStream(req: Request, res: Response): Promise<void> {
+    const session = await this.authorize(String(req.query.token || ''), req.params.sessionId);
+    if (!session) {
+      res.status(401).json({ error: 'Invalid session' });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const subscriber = this.subscribe(session, event => {
+      const id = event.type === 'message' && event.data?.id ? `id: ${event.data.id}\n` : '';
+      res.write(`${id}data: ${JSON.stringify(event)}\n\n`);
+    });
+    subscriber.send({ type: 'ready' });
+
+    const heartbeat = setInterval(() => res.write(': keepalive\n\n'), HEARTBEAT_INTERVAL);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      this.unsubscribe(subscriber);
+    });
+
+    await this.replay(subscriber, req.get('last-event-id') || req.query.lastMessageId);
+  }
+
+  /**
+   * Forward message broadcasts to widgets watching the conversation
+   */
+  forwardBroadcast(event: WidgetEvent): void {
+    if (event?.type !== 'newMessage' || !event.data?.conversationId) {
+      return;
+    }
+    this.publishToConversation(event.data.conversationId, { type: 'message', data: event.data });
+  }
+
+  publishToConversation(conversationId: number, event: WidgetEvent): void {
+    this.subscribers.get(conversationId)?.forEach(subscriber => this.deliver(subscriber, event));
+  }
+
+  publishToSession(sessionId: string, event: WidgetEvent): void {
+    this.subscribers.forEach(subscribers => {
+      subscribers.forEach(subscriber => {
+        if (subscriber.sessionId === sessionId) {
+          this.deliver(subscriber, event);
+        }
+      });
+    });
+  }
+
+  handleVisitorTyping(session: { conversationId: number; companyId: number }, isTyping: boolean): void {
+    broadcastToCompany({
+      type: 'webchatVisitorTyping',
+      data: { conversationId: session.conversationId, isTyping }
+    }, session.companyId);
+  }
+
+  notifyAgentTyping(conversationId: number, isTyping: boolean): void {
+    this.publishToConversation(conversationId, { type: 'typing', data: { isTyping } });
+  }
+
+  /**
+   * Tell the visitor an agent has read everything they sent so far
+   */
+  async notifyRead(conversationId: number): Promise<void> {
+    if (!this.subscribers.has(conversationId)) {
+      return;
+    }
+
+    const recent = await storage.getMessagesByConversationPaginated(conversationId, REPLAY_LIMIT, 0);
+    const lastInbound = recent.find(message => message.direction === 'inbound');
+    if (!lastInbound) {
+      return;
+    }
+
+    this.publishToConversation(conversationId, {
+      type: 'read',
+      data: { lastReadMessageId: lastInbound.id, readAt: new Date().toISOString() }
+    });
+  }
+
+  private handleSocket(ws: WebSocket): void {
+    let subscriber: WidgetSubscriber | null = null;
+    let authenticating = false;
+
+    const authTimeout = setTimeout(() => {
+      if (!subscriber) {
+        ws.close(4001, 'Authentication timeout');
+      }
+    }, AUTH_TIMEOUT);
+
+    const heartbeat = setInterval(() => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.ping();
+      }
+    }, HEARTBEAT_INTERVAL);
+
+    ws.on('message', async raw => {
+      let data: any;
+      try {
+        data = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      if (data.type === 'ping') {
+        ws.send(JSON.stringify({ type: 'pong' }));
+        return;
+      }
+
+      if (data.type === 'auth') {
+        if (subscriber || authenticating) return;
+        authenticating = true;
+
+        try {
+          const session = await this.authorize(data.token, data.sessionId);
+          if (!session) {
+            ws.send(JSON.stringify({ type: 'authError', message: 'Invalid session' }));
+            ws.close(4003, 'Invalid session');
+            return;
+          }
+          if (ws.readyState !== WebSocket.OPEN) return;
+
+          clearTimeout(authTimeout);
+          subscriber = this.subscribe(session, event => {
+            if (ws.readyState === WebSocket.OPEN) {
+              ws.send(JSON.stringify(event));
+            }
+          });
+          subscriber.send({ type: 'ready' });
+          await this.replay(subscriber, data.lastMessageId);
+        } catch (error) {
+          logger.error('webchat', 'Error authenticating widget socket', error);
+          ws.close(1011, 'Authentication failed');
+        } finally {
+          authenticating = false;
+        }
+        return;
+      }
+
+      if (subscriber && data.type === 'typing') {
+        this.handleVisitorTyping(subscriber, !!data.isTyping);
+      }
+    });
+
+    ws.on('close', () => {
+      clearTimeout(authTimeout);
+      clearInterval(heartbeat);
+      if (subscriber) {
+        this.unsubscribe(subscriber);
+      }
+    });
+
+    ws.on('error', error => {
+      logger.warn('webchat', `Widget socket error: ${error.message}`);
+    });
+  }
+
+  private subscribe(session: WidgetSession, send: (event: WidgetEvent) => void): WidgetSubscriber {
+    const subscriber: WidgetSubscriber = {
+      sessionId: session.sessionId,
+      conversationId: session.conversation.id,
+      companyId: session.connection.companyId!,
+      send,
+      pending: []
+    };
+
+    const subscribers = this.subscribers.get(subscriber.conversationId) || new Set<WidgetSubscriber>();
+    subscribers.add(subscriber);
+    this.subscribers.set(subscriber.conversationId, subscribers);
+    return subscriber;
+  }
+
+  private unsubscribe(subscriber: WidgetSubscriber): void {
+    const subscribers = this.subscribers.get(subscriber.conversationId);
+    if (!subscribers) return;
+
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0) {
+      this.subscribers.delete(subscriber.conversationId);
+      this.handleVisitorTyping(subscriber, false);
+    }
+  }
+
+  /**
+   * Send the messages created after lastMessageId, or the recent history on first connect, then
+   * the live events that arrived meanwhile, skipping messages the client already has
+   */
+  private async replay(subscriber: WidgetSubscriber, lastMessageId: unknown): Promise<void> {
+    const afterId = parseInt(String(lastMessageId ?? ''), 10);
+    let replayedId = isNaN(afterId) ? 0 : afterId;
+
+    try {
+      const recent = await storage.getMessagesByConversationPaginated(subscriber.conversationId, REPLAY_LIMIT, 0);
+
+      recent
+        .filter((message: Message) => isNaN(afterId) || message.id > afterId)
+        .reverse()
+        .forEach(message => {
+          this.transmit(subscriber, { type: 'message', data: message });
+          replayedId = Math.max(replayedId, message.id);
+        });
+    } finally {
+      const pending = subscriber.pending || [];
+      subscriber.pending = null;
+      pending
+        .filter(event => !(event.type === 'message' && event.data?.id <= replayedId))
+        .forEach(event => this.transmit(subscriber, event));
+    }
+  }
+
+  private deliver(subscriber: WidgetSubscriber, event: WidgetEvent): void {
+    if (subscriber.pending) {
+      subscriber.pending.push(event);
+      return;
+    }
+    this.transmit(subscriber, event);
+  }
+
+  private transmit(subscriber: WidgetSubscriber, event: WidgetEvent): void {
+    try {
+      subscriber.send(event);
+    } catch (error) {
+      logger.warn('webchat', `Failed to deliver ${event.type} to widget session ${subscriber.sessionId}`);
+    }
+  }
+}
+
+export const webchatRealtime = new WebChatRealtime();
@@ -1,10 +1,23 @@
 import crypto from 'crypto';
 import { storage } from '../../storage';
 import { getCachedCompanySetting, getCachedInitialPipelineStage } from '../../utils/pipeline-cache';
-import { InsertConversation, InsertMessage, InsertContact } from '@shared/schema';
-import { broadcastToCompany, broadcastToWebChatSession } from '../../utils/websocket';
+import {
+  InsertConversation,
+  InsertMessage,
+  InsertContact,
+  Conversation,
+  WebChatOfflineMode,
+  WebChatPageView,
+  WebChatPrechatField,
+  WebChatPrechatForm,
+  WebChatProactiveTrigger,
+  WebChatVisitorMetadata
+} from '@shared/schema';
+import { broadcastToCompany } from '../../utils/websocket';
 import { smartWebSocketBroadcaster } from '../../utils/smart-websocket-broadcaster';
 import { logger } from '../../utils/logger';
+import { businessHoursService } from '../business-hours-service';
+import { sendEmail } from '../email';
 
 interface WebChatConnectionData {
   widgetToken?: string;
@@ -16,6 +29,34 @@ interface WebChatConnectionData {
   allowFileUpload?: boolean;
   collectEmail?: boolean;
   collectName?: boolean;
+  prechatForm?: WebChatPrechatForm;
+  proactiveTriggers?: WebChatProactiveTrigger[];
+  offlineMode?: WebChatOfflineMode;
+}
+
+/**
+ * Pre-chat answers split into the contact's own fields and its custom fields
+ */
+export interface PrechatSubmission {
+  visitorName?: string;
+  visitorEmail?: string;
+  visitorPhone?: string;
+  customFields: Record<string, string>;
+  consentText?: string;
+  consentAt?: string;
+}
+
+interface SessionDetails {
+  submission?: PrechatSubmission;
+  visitorMetadata?: WebChatVisitorMetadata;
+}
+
+interface OfflineMessageInput {
+  sessionId?: string;
+  name?: unknown;
+  email?: unknown;
+  message?: unknown;
+  metadata?: unknown;
 }
 
 interface SessionInfo {
@@ -31,6 +72,30 @@ interface SessionInfo {
 
 const sessions = new Map<string, SessionInfo>();
 
+const MAX_PAGE_HISTORY = 20;
+const MAX_FIELD_LENGTH = 1000;
+const UTM_KEYS = ['source', 'medium', 'campaign', 'term', 'content'] as const;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DEFAULT_OFFLINE_MESSAGE = "We're offline right now. Leave us a message and we'll reply by email.";
+
+function createSessionId(): string {
+  return 's_' + crypto.randomBytes(16).toString('hex');
+}
+
+function cleanText(value: unknown, maxLength = 2000): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 async function generateWidgetToken(connectionId: number): Promise<string> {
   const token = 'wc_' + crypto.randomBytes(24).toString('hex');
   const connection = await storage.getChannelConnection(connectionId);
@@ -91,7 +156,140 @@ async function disconnect(connectionId: number, userId: number): Promise<boolean
   }
 }
 
-async function registerSession(connectionId: number, companyId: number, sessionId: string, visitorName?: string, visitorEmail?: string, visitorPhone?: string) {
+/**
+ * The widget's pre-chat form. Widgets configured before custom forms ask for a name and phone
+ * number, plus the email address when collectEmail is set.
+ */
+function getPrechatForm(data: WebChatConnectionData): WebChatPrechatForm {
+  if (data.prechatForm) {
+    return data.prechatForm;
+  }
+
+  const fields: WebChatPrechatField[] = [
+    { key: 'name', label: 'Name', type: 'text', required: true },
+    { key: 'phone', label: 'Phone', type: 'tel', required: true }
+  ];
+  if (data.collectEmail) {
+    fields.push({ key: 'email', label: 'Email', type: 'email', required: false });
+  }
+  return { enabled: true, fields };
+}
+
+function validatePrechat(
+  form: WebChatPrechatForm,
+  answers: Record<string, unknown> | undefined,
+  consent: unknown
+): { submission?: PrechatSubmission; error?: string } {
+  const submission: PrechatSubmission = { customFields: {} };
+  if (!form.enabled) {
+    return { submission };
+  }
+
+  for (const field of form.fields || []) {
+    const value = cleanText(answers?.[field.key] == null ? undefined : String(answers[field.key]), MAX_FIELD_LENGTH);
+    if (!value) {
+      if (field.required) return { error: `${field.label} is required` };
+      continue;
+    }
+
+    if (field.type === 'email' && !EMAIL_PATTERN.test(value)) {
+      return { error: `${field.label} must be a valid email address` };
+    }
+    if (field.type === 'tel' && value.replace(/\D/g, '').length < 6) {
+      return { error: `${field.label} must be a valid phone number` };
+    }
+    if (field.type === 'select' && field.options?.length && !field.options.includes(value)) {
+      return { error: `${field.label} has an invalid value` };
+    }
+
+    if (field.key === 'name') submission.visitorName = value;
+    else if (field.key === 'email') submission.visitorEmail = value;
+    else if (field.key === 'phone') submission.visitorPhone = value;
+    else submission.customFields[field.key] = value;
+  }
+
+  if (form.consent?.enabled) {
+    if (consent !== true) {
+      return { error: 'Please accept the terms to start the chat' };
+    }
+    submission.consentText = form.consent.text;
+    submission.consentAt = new Date().toISOString();
+  }
+
+  return { submission };
+}
+
+function normalizePageView(raw: any): WebChatPageView | null {
+  const url = cleanText(raw?.url);
+  if (!url) return null;
+
+  const at = new Date(raw?.at);
+  return {
+    url,
+    title: cleanText(raw?.title, 300),
+    at: isNaN(at.getTime()) ? new Date().toISOString() : at.toISOString()
+  };
+}
+
+/**
+ * Keep only the known, size-limited parts of the metadata reported by the widget
+ */
+function normalizeVisitorMetadata(raw: any): WebChatVisitorMetadata {
+  const metadata: WebChatVisitorMetadata = {
+    landingPage: cleanText(raw?.landingPage),
+    referrer: cleanText(raw?.referrer),
+    userAgent: cleanText(raw?.userAgent, 500)
+  };
+
+  const utm: WebChatVisitorMetadata['utm'] = {};
+  for (const key of UTM_KEYS) {
+    const value = cleanText(raw?.utm?.[key], 200);
+    if (value) utm[key] = value;
+  }
+  if (Object.keys(utm).length > 0) {
+    metadata.utm = utm;
+  }
+
+  if (Array.isArray(raw?.pageHistory)) {
+    metadata.pageHistory = raw.pageHistory
+      .map(normalizePageView)
+      .filter((view: WebChatPageView | null): view is WebChatPageView => !!view)
+      .slice(-MAX_PAGE_HISTORY);
+  }
+
+  return metadata;
+}
+
+async function applySessionDetails(contactId: number, conversation: Conversation, details: SessionDetails): Promise<void> {
+  const { submission, visitorMetadata } = details;
+
+  if (submission && Object.keys(submission.customFields).length > 0) {
+    const contact = await storage.getContact(contactId);
+    await storage.updateContact(contactId, {
+      customFields: { ...(contact?.customFields || {}), ...submission.customFields }
+    });
+  }
+
+  if (visitorMetadata || submission?.consentAt) {
+    await storage.updateConversation(conversation.id, {
+      visitorMetadata: {
+        ...(conversation.visitorMetadata || {}),
+        ...visitorMetadata,
+        ...(submission?.consentAt ? { consentText: submission.consentText, consentAt: submission.consentAt } : {})
+      }
+    });
+  }
+}
+
+async function registerSession(
+  connectionId: number,
+  companyId: number,
+  sessionId: string,
+  visitorName?: string,
+  visitorEmail?: string,
+  visitorPhone?: string,
+  details?: SessionDetails
+) {
   sessions.set(sessionId, {
     connectionId,
     companyId,
@@ -103,7 +301,10 @@ async function registerSession(connectionId: number, companyId: number, sessionI
   });
 
   try {
-    await ensureContactAndConversation(connectionId, companyId, sessionId, visitorName, visitorEmail, visitorPhone);
+    const { contact, conversation } = await ensureContactAndConversation(connectionId, companyId, sessionId, visitorName, visitorEmail, visitorPhone);
+    if (details) {
+      await applySessionDetails(contact.id, conversation, details);
+    }
   } catch (e) {
     logger.warn('webchat', 'Failed to pre-create contact from session registration', e as any);
   }
@@ -332,7 +533,8 @@ async function sendMessage(
   sessionId: string,
   content: string,
   messageType: string = 'text',
-  mediaUrl?: string
+  mediaUrl?: string,
+  options: { metadata?: Record<string, any>; isFromBot?: boolean } = {}
 ): Promise<any> {
   const connection = await storage.getChannelConnection(connectionId);
   if (!connection) throw new Error(`Connection ${connectionId} not found`);
@@ -352,13 +554,13 @@ async function sendMessage(
     direction: 'outbound',
     type: messageType || 'text',
     content,
-    metadata: { channelType: 'webchat', sessionId, timestamp: Date.now() } as any,
+    metadata: { ...options.metadata, channelType: 'webchat', sessionId, timestamp: Date.now() } as any,
     senderId: undefined as any,
     senderType: 'user',
     status: 'sent',
     sentAt: new Date(),
     readAt: undefined as any,
-    isFromBot: false,
+    isFromBot: options.isFromBot ?? false,
     mediaUrl: mediaUrl || (undefined as any),
     externalId: `webchat_${Date.now()}`,
     groupParticipantJid: undefined as any,
@@ -372,8 +574,6 @@ async function sendMessage(
   await storage.updateConversation(conversation.id, { lastMessageAt: new Date() });
 
 
-  broadcastToWebChatSession({ type: 'webchatMessage', data: saved }, sessionId);
-
   smartWebSocketBroadcaster.broadcast({
     type: 'newMessage',
     data: saved,
@@ -388,6 +588,103 @@ async function sendMessage(
   return saved;
 }
 
+/**
+ * Append a page the visitor opened to their conversation's page history
+ */
+async function recordPageView(connection: any, sessionId: string, page: unknown): Promise<boolean> {
+  const view = normalizePageView(page);
+  if (!view) return false;
+
+  const contact = await storage.getContactByIdentifier(sessionId, 'webchat');
+  if (!contact || contact.companyId !== connection.companyId) return false;
+
+  const conversation = await storage.getConversationByContactAndChannel(contact.id, connection.id);
+  if (!conversation) return false;
+
+  const metadata = conversation.visitorMetadata || {};
+  const updated = await storage.updateConversation(conversation.id, {
+    visitorMetadata: {
+      ...metadata,
+      pageHistory: [...(metadata.pageHistory || []), view].slice(-MAX_PAGE_HISTORY)
+    }
+  });
+
+  broadcastToCompany({ type: 'conversationUpdated', data: updated }, connection.companyId);
+  return true;
+}
+
+/**
+ * Whether the widget should collect offline messages instead of starting a chat, based on the
+ * offline-mode business hours calendar (the company default when none is selected)
+ */
+async function isOffline(connection: any): Promise<boolean> {
+  const data = (connection.connectionData || {}) as WebChatConnectionData;
+  if (!data.offlineMode?.enabled || !connection.companyId) {
+    return false;
+  }
+  return !(await businessHoursService.isCompanyOpen(connection.companyId, data.offlineMode.calendarId));
+}
+
+/**
+ * Widget settings for pre-chat forms, proactive greetings and offline mode
+ */
+async function getEngagementConfig(connection: any) {
+  const data = (connection.connectionData || {}) as WebChatConnectionData;
+  return {
+    prechatForm: getPrechatForm(data),
+    proactiveTriggers: (data.proactiveTriggers || []).filter(trigger => trigger.enabled && trigger.message),
+    offline: {
+      isOffline: await isOffline(connection),
+      message: data.offlineMode?.message || DEFAULT_OFFLINE_MESSAGE
+    }
+  };
+}
+
+/**
+ * Record a message left while the widget is offline in the inbox and forward it to the
+ * offline-mode notification address
+ */
+async function submitOfflineMessage(connection: any, input: OfflineMessageInput): Promise<{ sessionId?: string; error?: string }> {
+  const data = (connection.connectionData || {}) as WebChatConnectionData;
+  const name = cleanText(input.name, 200);
+  const email = cleanText(input.email, 320);
+  const message = cleanText(input.message, 5000);
+  if (!name || !email || !EMAIL_PATTERN.test(email) || !message) {
+    return { error: 'Name, a valid email address and a message are required' };
+  }
+
+  let sessionId = input.sessionId;
+  const existing = sessionId ? await storage.getContactByIdentifier(sessionId, 'webchat') : undefined;
+  if (!sessionId || !existing || existing.companyId !== connection.companyId) {
+    sessionId = createSessionId();
+    await registerSession(connection.id, connection.companyId, sessionId, name, email, undefined, {
+      visitorMetadata: normalizeVisitorMetadata(input.metadata)
+    });
+  }
+
+  await processWebhook({
+    token: data.widgetToken,
+    eventType: 'message',
+    data: { sessionId, message, visitorName: name, visitorEmail: email }
+  }, connection.companyId);
+
+  const notifyEmail = data.offlineMode?.notifyEmail;
+  if (notifyEmail) {
+    const source = data.companyName || connection.accountName || 'WebChat';
+    const subject = `New offline message from ${name} via ${source}`;
+    const text = `Name: ${name}\nEmail: ${email}\n\n${message}`;
+    const html = `<p><strong>Name:</strong> ${escapeHtml(name)}<br/><strong>Email:</strong> ${escapeHtml(email)}</p>`
+      + `<p>${escapeHtml(message).replace(/\n/g, '<br/>')}</p>`;
+
+    const sent = await sendEmail(notifyEmail, subject, text, html);
+    if (!sent) {
+      logger.warn('webchat', `Failed to email offline message for connection ${connection.id} to ${notifyEmail}`);
+    }
+  }
+
+  return { sessionId };
+}
+
 async function initializeAllConnections(): Promise<void> {
   try {
     const connections = await storage.getChannelConnectionsByType('webchat');
@@ -412,4 +709,11 @@ export default {
   verifyWidgetToken,
   initializeAllConnections,
   registerSession,
+  createSessionId,
+  getPrechatForm,
+  validatePrechat,
+  normalizeVisitorMetadata,
+  recordPageView,
+  getEngagementConfig,
+  submitOfflineMessage,
 };
@@ -2527,6 +2527,64 @@ export async function sendInteractiveMessage(
   }
 }
 
+/**
+ * Mark an inbound message as read via WhatsApp Cloud API
+ * @param connectionId The ID of the channel connection
+ * @param companyId The company ID for multi-tenant security
+ * @param externalMessageId The WhatsApp message ID (wamid) of the inbound message
+ * @returns Promise resolving to success status
+ */
+export async function markMessageAsRead(
+  connectionId: number,
+  companyId: number,
+  externalMessageId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const connection = await storage.getChannelConnection(connectionId);
+    if (!connection) {
+      throw new Error(`Connection with ID ${connectionId} not found`);
+    }
+
+    if (connection.companyId !== companyId) {
+      throw new Error(`Access denied: Connection does not belong to company ${companyId}`);
+    }
+
+    const connectionData = connection.connectionData as any;
+    const accessToken = connection.accessToken || connectionData?.accessToken;
+    const phoneNumberId = connectionData?.phoneNumberId;
+
+    if (!accessToken || !phoneNumberId) {
+      throw new Error('WhatsApp Business API credentials are missing');
+    }
+
+    const response = await axios.post(
+      `${WHATSAPP_GRAPH_URL}/${WHATSAPP_API_VERSION}/${phoneNumberId}/messages`,
+      {
+        messaging_product: 'whatsapp',
+        status: 'read',
+        message_id: externalMessageId
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: 30000
+      }
+    );
+
+    return response.data?.success
+      ? { success: true }
+      : { success: false, error: 'Failed to mark message as read: Unknown error' };
+  } catch (error: any) {
+    console.error('Error marking WhatsApp message as read:', error.response?.data || error.message);
+    return {
+      success: false,
+      error: error.response?.data?.error?.message || error.message
+    };
+  }
+}
+
 /**
  * Get current typing configuration
  * @returns Current typing configuration
@@ -2569,6 +2627,7 @@ export default {
   sendInteractiveMessage: sendInteractiveMessage, // Add interactive message support
   sendWhatsAppTestTemplate, // Add the test template function
   sendTemplateMessage, // Add the campaign template message function
+  markMessageAsRead,
   sendMedia: sendWhatsAppBusinessMediaMessage,
   isActive: isBusinessConnectionActive,
   getActiveConnections: getActiveBusinessConnections,
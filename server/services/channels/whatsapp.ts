@@ -40,6 +40,7 @@ import {
   cleanupTempAudioFiles
 } from '../../utils/audio-converter';
 import { isWhatsAppGroupChatId } from '../../utils/whatsapp-group-filter';
+import { mediaStorage } from '../media-storage';
 import mimeTypes from 'mime-types';
 
 /**
@@ -5428,7 +5429,7 @@ export async function sendWhatsAppMediaMessage(
         throw new Error(`Failed to download media from URL: ${resolvedFilePath}. Error: ${downloadError.message}`);
       }
     } else {
-      if (!await fsExtra.pathExists(resolvedFilePath)) {
+      if (!await fsExtra.pathExists(resolvedFilePath) && !await mediaStorage.restoreLocalCopy(resolvedFilePath)) {
         throw new Error(`Media file not found at path: ${resolvedFilePath}`);
       }
       fileContent = await fsExtra.readFile(resolvedFilePath);
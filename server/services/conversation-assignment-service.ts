@@ -0,0 +1,568 @@
+import { db } from '../db';
+import {
+  storage,
+  type ConversationAssignmentPolicyConfig,
+  type ConversationAssignmentChannelRule,
+  type ConversationAssignmentStrategy
+} from '../storage';
+import {
+  agentAssignmentProfiles,
+  conversations,
+  users,
+  type AgentAssignmentProfile,
+  type Conversation
+} from '@shared/schema';
+import { and, asc, count, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+export const CLOSED_CONVERSATION_STATUSES = ['closed', 'resolved', 'archived'];
+
+export const DEFAULT_ASSIGNMENT_POLICY: ConversationAssignmentPolicyConfig = {
+  enabled: false,
+  strategy: 'round_robin',
+  respectAvailability: true,
+  maxConcurrentChats: 0,
+  channelRules: {},
+  reassignOnOffline: true,
+  offlineGraceMinutes: 5
+};
+
+const openConversationCondition = () =>
+  sql`COALESCE(${conversations.status}, 'open') NOT IN (${sql.join(CLOSED_CONVERSATION_STATUSES.map(status => sql`${status}`), sql`, `)})`;
+
+export type AgentAvailability = AgentAssignmentProfile['availability'];
+
+interface AssignmentCandidate {
+  userId: number;
+  fullName: string;
+  profile: AgentAssignmentProfile | null;
+  openCount: number;
+  capacity: number; // 0 = unlimited
+  skillScore: number;
+}
+
+export interface AgentAssignmentStatus {
+  userId: number;
+  fullName: string;
+  email: string;
+  role: string | null;
+  availability: AgentAvailability;
+  online: boolean;
+  skills: string[];
+  maxConcurrentChats: number | null;
+  autoAssignEnabled: boolean;
+  openConversations: number;
+  lastAssignedAt: Date | null;
+}
+
+/**
+ * Conversation Assignment Service
+ * Routes new conversations to agents according to the company assignment policy
+ * and moves open conversations away from agents who go offline or leave the team.
+ */
+export class ConversationAssignmentService {
+  // Presence lives in process memory like the WebSocket connections it counts, so this assumes a
+  // single server instance; with several instances each one would only see its own connections
+  private onlineConnections = new Map<number, number>();
+  private offlineTimers = new Map<number, NodeJS.Timeout>();
+  private pendingAssignments = new Set<number>();
+
+  /**
+   * Get the effective policy for a company, falling back to defaults (disabled)
+   */
+  async getPolicy(companyId: number): Promise<ConversationAssignmentPolicyConfig> {
+    const policy = await storage.getConversationAssignmentPolicy(companyId);
+    return { ...DEFAULT_ASSIGNMENT_POLICY, ...(policy || {}) };
+  }
+
+  /**
+   * Assign a newly created conversation according to the company policy
+   */
+  async autoAssign(conversation: Conversation): Promise<Conversation | null> {
+    if (!conversation.companyId || conversation.assignedToUserId || conversation.isGroup || conversation.isHistorySync) {
+      return null;
+    }
+
+    if (conversation.status && CLOSED_CONVERSATION_STATUSES.includes(conversation.status)) {
+      return null;
+    }
+
+    const policy = await this.getPolicy(conversation.companyId);
+    if (!policy.enabled) {
+      return null;
+    }
+
+    if (this.pendingAssignments.has(conversation.id)) {
+      return null;
+    }
+
+    this.pendingAssignments.add(conversation.id);
+    try {
+      const agentId = await this.selectAgent(conversation, policy);
+      if (!agentId) {
+        logger.debug('assignment', `No eligible agent for conversation ${conversation.id} (company ${conversation.companyId})`);
+        return null;
+      }
+
+      return await this.assignTo(conversation, agentId, 'auto');
+    } finally {
+      this.pendingAssignments.delete(conversation.id);
+    }
+  }
+
+  /**
+   * Pick the best agent for a conversation, or null when nobody is eligible
+   */
+  async selectAgent(
+    conversation: Conversation,
+    policy: ConversationAssignmentPolicyConfig,
+    excludeUserIds: number[] = []
+  ): Promise<number | null> {
+    const companyId = conversation.companyId!;
+    const channelRule: ConversationAssignmentChannelRule = policy.channelRules?.[String(conversation.channelId)] || {};
+    const strategy: ConversationAssignmentStrategy = channelRule.strategy || policy.strategy;
+
+    let contactTags: string[] = [];
+    if ((strategy === 'skills' || channelRule.matchContactTags) && conversation.contactId) {
+      const contact = await storage.getContact(conversation.contactId);
+      contactTags = (contact?.tags || []).map(tag => tag.toLowerCase());
+    }
+
+    const candidates = await this.getCandidates(companyId, policy, channelRule, contactTags, excludeUserIds);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const byLastAssigned = (a: AssignmentCandidate, b: AssignmentCandidate) => {
+      const aTime = a.profile?.lastAssignedAt ? new Date(a.profile.lastAssignedAt).getTime() : 0;
+      const bTime = b.profile?.lastAssignedAt ? new Date(b.profile.lastAssignedAt).getTime() : 0;
+      return aTime - bTime || a.userId - b.userId;
+    };
+
+    const sorted = [...candidates].sort((a, b) => {
+      if (strategy === 'skills' && a.skillScore !== b.skillScore) {
+        return b.skillScore - a.skillScore;
+      }
+      if (strategy === 'least_open' || strategy === 'skills') {
+        if (a.openCount !== b.openCount) return a.openCount - b.openCount;
+      }
+      return byLastAssigned(a, b);
+    });
+
+    return sorted[0].userId;
+  }
+
+  /**
+   * Build the list of agents that may receive a conversation right now
+   */
+  private async getCandidates(
+    companyId: number,
+    policy: ConversationAssignmentPolicyConfig,
+    channelRule: ConversationAssignmentChannelRule,
+    contactTags: string[],
+    excludeUserIds: number[]
+  ): Promise<AssignmentCandidate[]> {
+    const companyUsers = await db
+      .select({ id: users.id, fullName: users.fullName, role: users.role, isSuperAdmin: users.isSuperAdmin, active: users.active })
+      .from(users)
+      .where(eq(users.companyId, companyId));
+
+    const eligibleIds = channelRule.eligibleUserIds?.length
+      ? new Set(channelRule.eligibleUserIds)
+      : policy.eligibleUserIds?.length
+        ? new Set(policy.eligibleUserIds)
+        : null;
+
+    const agents = companyUsers.filter(user =>
+      user.active !== false &&
+      !user.isSuperAdmin &&
+      (user.role === 'agent' || user.role === 'admin') &&
+      !excludeUserIds.includes(user.id) &&
+      (!eligibleIds || eligibleIds.has(user.id))
+    );
+
+    if (agents.length === 0) {
+      return [];
+    }
+
+    const agentIds = agents.map(agent => agent.id);
+    const [profiles, openCounts] = await Promise.all([
+      db.select().from(agentAssignmentProfiles).where(inArray(agentAssignmentProfiles.userId, agentIds)),
+      this.getOpenConversationCounts(companyId, agentIds)
+    ]);
+    const profileMap = new Map(profiles.map(profile => [profile.userId, profile]));
+
+    const requiredSkills = (channelRule.requiredSkills || []).map(skill => skill.toLowerCase());
+    const candidates: AssignmentCandidate[] = [];
+
+    for (const agent of agents) {
+      const profile = profileMap.get(agent.id) || null;
+
+      if (profile && !profile.autoAssignEnabled) continue;
+
+      if (policy.respectAvailability && !this.isAgentAvailable(agent.id, profile)) continue;
+
+      const skills = (profile?.skills || []).map(skill => skill.toLowerCase());
+      if (requiredSkills.some(skill => !skills.includes(skill))) continue;
+
+      const skillScore = contactTags.filter(tag => skills.includes(tag)).length;
+      if (channelRule.matchContactTags && contactTags.length > 0 && skillScore === 0) continue;
+
+      const openCount = openCounts.get(agent.id) || 0;
+      const capacity = profile?.maxConcurrentChats ?? policy.maxConcurrentChats;
+      if (capacity > 0 && openCount >= capacity) continue;
+
+      candidates.push({
+        userId: agent.id,
+        fullName: agent.fullName,
+        profile,
+        openCount,
+        capacity,
+        skillScore
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Count open (not closed/resolved) conversations per assigned agent
+   */
+  async getOpenConversationCounts(companyId: number, userIds: number[]): Promise<Map<number, number>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db
+      .select({ userId: conversations.assignedToUserId, total: count() })
+      .from(conversations)
+      .where(and(
+        eq(conversations.companyId, companyId),
+        inArray(conversations.assignedToUserId, userIds),
+        eq(conversations.isGroup, false),
+        openConversationCondition()
+      ))
+      .groupBy(conversations.assignedToUserId);
+
+    return new Map(rows.map(row => [row.userId as number, Number(row.total)]));
+  }
+
+  /**
+   * An agent is available when marked available and connected to the inbox
+   */
+  isAgentAvailable(userId: number, profile: AgentAssignmentProfile | null): boolean {
+    const availability = profile?.availability || 'available';
+    return availability === 'available' && this.isAgentOnline(userId);
+  }
+
+  isAgentOnline(userId: number): boolean {
+    return (this.onlineConnections.get(userId) || 0) > 0;
+  }
+
+  /**
+   * Persist the assignment and notify connected clients
+   */
+  private async assignTo(conversation: Conversation, agentId: number, reason: 'auto' | 'reassign'): Promise<Conversation> {
+    const updatedConversation = await storage.updateConversation(conversation.id, {
+      assignedToUserId: agentId
+    });
+
+    await db
+      .insert(agentAssignmentProfiles)
+      .values({ userId: agentId, companyId: conversation.companyId!, lastAssignedAt: new Date() })
+      .onConflictDoUpdate({
+        target: agentAssignmentProfiles.userId,
+        set: { lastAssignedAt: new Date(), updatedAt: new Date() }
+      });
+
+    if ((global as any).broadcastToCompany) {
+      (global as any).broadcastToCompany({
+        type: 'conversationAssigned',
+        data: {
+          conversationId: conversation.id,
+          agentId,
+          previousAgentId: conversation.assignedToUserId || null,
+          assignedBy: null,
+          automatic: true,
+          reason,
+          conversation: updatedConversation
+        }
+      }, conversation.companyId!);
+    }
+
+    if ((global as any).broadcastConversationUpdate) {
+      await (global as any).broadcastConversationUpdate(updatedConversation, 'conversationUpdated');
+    }
+
+    logger.info('assignment', `Conversation ${conversation.id} ${reason === 'auto' ? 'assigned' : 'reassigned'} to agent ${agentId}`);
+    return updatedConversation;
+  }
+
+  /**
+   * Move a single conversation to another agent; without an explicit agent one is picked
+   * with the company policy, excluding the current assignee
+   */
+  async reassignConversation(conversation: Conversation, agentId?: number | null): Promise<Conversation | null> {
+    if (!conversation.companyId) {
+      return null;
+    }
+
+    const targetId = agentId ?? await this.selectAgent(
+      conversation,
+      await this.getPolicy(conversation.companyId),
+      conversation.assignedToUserId ? [conversation.assignedToUserId] : []
+    );
+    if (!targetId || targetId === conversation.assignedToUserId) {
+      return null;
+    }
+
+    return this.assignTo(conversation, targetId, 'reassign');
+  }
+
+  /**
+   * Move an agent's open conversations to other agents (or unassign them when nobody is eligible)
+   */
+  async reassignConversationsForAgent(userId: number, companyId: number, options: { unassignIfNoAgent?: boolean } = {}): Promise<{ reassigned: number; unassigned: number }> {
+    const policy = await this.getPolicy(companyId);
+    const openConversations = await db
+      .select()
+      .from(conversations)
+      .where(and(
+        eq(conversations.companyId, companyId),
+        eq(conversations.assignedToUserId, userId),
+        openConversationCondition()
+      ));
+
+    let reassigned = 0;
+    let unassigned = 0;
+
+    for (const conversation of openConversations) {
+      try {
+        const agentId = policy.enabled ? await this.selectAgent(conversation, policy, [userId]) : null;
+        if (agentId) {
+          await this.assignTo(conversation, agentId, 'reassign');
+          reassigned++;
+        } else if (options.unassignIfNoAgent) {
+          const updatedConversation = await storage.updateConversation(conversation.id, { assignedToUserId: null });
+          if ((global as any).broadcastToCompany) {
+            (global as any).broadcastToCompany({
+              type: 'conversationUnassigned',
+              data: { conversationId: conversation.id, unassignedBy: null, automatic: true, conversation: updatedConversation }
+            }, companyId);
+          }
+          unassigned++;
+        }
+      } catch (error) {
+        logger.error('assignment', `Failed to reassign conversation ${conversation.id} from agent ${userId}`, error);
+      }
+    }
+
+    if (reassigned > 0 || unassigned > 0) {
+      logger.info('assignment', `Agent ${userId}: reassigned ${reassigned}, unassigned ${unassigned} conversations`);
+    }
+
+    return { reassigned, unassigned };
+  }
+
+  /**
+   * Assign the unassigned backlog of open conversations (oldest first)
+   */
+  async assignPendingConversations(companyId: number, limit: number = 50): Promise<number> {
+    const policy = await this.getPolicy(companyId);
+    if (!policy.enabled) {
+      return 0;
+    }
+
+    const backlog = await db
+      .select()
+      .from(conversations)
+      .where(and(
+        eq(conversations.companyId, companyId),
+        isNull(conversations.assignedToUserId),
+        eq(conversations.isGroup, false),
+        openConversationCondition()
+      ))
+      .orderBy(asc(conversations.lastMessageAt))
+      .limit(limit);
+
+    let assigned = 0;
+    for (const conversation of backlog) {
+      const result = await this.autoAssign(conversation);
+      if (!result) {
+        break;
+      }
+      assigned++;
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Track an inbox connection for an agent (called when a WebSocket authenticates)
+   */
+  markAgentOnline(userId: number, companyId: number): void {
+    this.onlineConnections.set(userId, (this.onlineConnections.get(userId) || 0) + 1);
+
+    this.touchProfile(userId, companyId)
+      .then(() => this.assignPendingConversations(companyId))
+      .catch(error => logger.error('assignment', `Error handling agent ${userId} online`, error));
+  }
+
+  /**
+   * Release an inbox connection; schedules reassignment once the last one is gone
+   */
+  markAgentOffline(userId: number, companyId: number): void {
+    const remaining = Math.max(0, (this.onlineConnections.get(userId) || 0) - 1);
+    if (remaining > 0) {
+      this.onlineConnections.set(userId, remaining);
+      return;
+    }
+
+    this.onlineConnections.delete(userId);
+    this.touchProfile(userId, companyId).catch(() => { });
+    this.scheduleOfflineReassignment(userId, companyId);
+  }
+
+  /**
+   * Reassign an agent's open conversations after the grace period, unless by then they are
+   * connected and available again. Covers both disconnects and agents going away/offline.
+   */
+  private async scheduleOfflineReassignment(userId: number, companyId: number): Promise<void> {
+    const policy = await this.getPolicy(companyId);
+    if (!policy.enabled || !policy.reassignOnOffline) {
+      return;
+    }
+
+    const existing = this.offlineTimers.get(userId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const timer = setTimeout(async () => {
+      this.offlineTimers.delete(userId);
+      try {
+        if (this.isAgentAvailable(userId, await this.getProfile(userId))) {
+          return;
+        }
+        await this.reassignConversationsForAgent(userId, companyId);
+      } catch (error) {
+        logger.error('assignment', `Error reassigning conversations of unavailable agent ${userId}`, error);
+      }
+    }, policy.offlineGraceMinutes * 60 * 1000);
+
+    this.offlineTimers.set(userId, timer);
+  }
+
+  /**
+   * Handle an agent being removed or deactivated: nothing may stay assigned to them
+   */
+  async handleAgentRemoved(userId: number, companyId: number): Promise<void> {
+    const timer = this.offlineTimers.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      this.offlineTimers.delete(userId);
+    }
+    this.onlineConnections.delete(userId);
+
+    await this.reassignConversationsForAgent(userId, companyId, { unassignIfNoAgent: true });
+  }
+
+  /**
+   * Update an agent's self-reported availability
+   */
+  async setAvailability(userId: number, companyId: number, availability: AgentAvailability): Promise<AgentAssignmentProfile> {
+    const profile = await this.upsertProfile(userId, companyId, { availability });
+
+    if (availability === 'available') {
+      const timer = this.offlineTimers.get(userId);
+      if (timer) {
+        clearTimeout(timer);
+        this.offlineTimers.delete(userId);
+      }
+
+      this.assignPendingConversations(companyId)
+        .catch(error => logger.error('assignment', `Error assigning backlog for company ${companyId}`, error));
+    } else {
+      this.scheduleOfflineReassignment(userId, companyId)
+        .catch(error => logger.error('assignment', `Error scheduling reassignment for agent ${userId}`, error));
+    }
+
+    return profile;
+  }
+
+  async getProfile(userId: number): Promise<AgentAssignmentProfile | null> {
+    const [profile] = await db
+      .select()
+      .from(agentAssignmentProfiles)
+      .where(eq(agentAssignmentProfiles.userId, userId));
+    return profile || null;
+  }
+
+  async upsertProfile(
+    userId: number,
+    companyId: number,
+    updates: Partial<Pick<AgentAssignmentProfile, 'availability' | 'skills' | 'maxConcurrentChats' | 'autoAssignEnabled'>>
+  ): Promise<AgentAssignmentProfile> {
+    const [profile] = await db
+      .insert(agentAssignmentProfiles)
+      .values({ userId, companyId, ...updates })
+      .onConflictDoUpdate({
+        target: agentAssignmentProfiles.userId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+    return profile;
+  }
+
+  private async touchProfile(userId: number, companyId: number): Promise<void> {
+    await db
+      .insert(agentAssignmentProfiles)
+      .values({ userId, companyId, lastSeenAt: new Date() })
+      .onConflictDoUpdate({
+        target: agentAssignmentProfiles.userId,
+        set: { lastSeenAt: new Date() }
+      });
+  }
+
+  /**
+   * Availability, skills and load of every assignable agent in a company
+   */
+  async getAgentStatuses(companyId: number): Promise<AgentAssignmentStatus[]> {
+    const companyUsers = await db
+      .select({ id: users.id, fullName: users.fullName, email: users.email, role: users.role })
+      .from(users)
+      .where(and(
+        eq(users.companyId, companyId),
+        eq(users.isSuperAdmin, false)
+      ))
+      .orderBy(asc(users.fullName));
+
+    const userIds = companyUsers.map(user => user.id);
+    const [profiles, openCounts] = await Promise.all([
+      userIds.length > 0
+        ? db.select().from(agentAssignmentProfiles).where(inArray(agentAssignmentProfiles.userId, userIds))
+        : Promise.resolve([] as AgentAssignmentProfile[]),
+      this.getOpenConversationCounts(companyId, userIds)
+    ]);
+    const profileMap = new Map(profiles.map(profile => [profile.userId, profile]));
+
+    return companyUsers.map(user => {
+      const profile = profileMap.get(user.id);
+      return {
+        userId: user.id,
+        fullName: user.fullName,
+        email: user.email,
+        role: user.role,
+        availability: profile?.availability || 'available',
+        online: this.isAgentOnline(user.id),
+        skills: profile?.skills || [],
+        maxConcurrentChats: profile?.maxConcurrentChats ?? null,
+        autoAssignEnabled: profile?.autoAssignEnabled ?? true,
+        openConversations: openCounts.get(user.id) || 0,
+        lastAssignedAt: profile?.lastAssignedAt || null
+      };
+    });
+  }
+}
+
+export const conversationAssignmentService = new ConversationAssignmentService();
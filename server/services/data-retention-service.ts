@@ -0,0 +1,585 @@
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  apiUsage,
+  calls,
+  channelConnections,
+  contacts,
+  conversations,
+  dataRetentionPolicies,
+  dataRetentionRuns,
+  emailAttachments,
+  flowExecutions,
+  flowStepExecutions,
+  messages,
+  type DataRetentionPolicy,
+  type DataRetentionRun,
+  type DataRetentionRunResult,
+  type DataRetentionSettings,
+  type InsertDataRetentionPolicy
+} from '@shared/schema';
+import { and, arrayOverlaps, desc, eq, inArray, isNotNull, isNull, lt, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import { broadcastToCompany } from '../utils/websocket';
+import { logger } from '../utils/logger';
+import { mediaCleanupService } from './media-cleanup';
+import { mediaStorage } from './media-storage';
+import { callLogsService } from './call-logs-service';
+import { sendEmail } from './email';
+
+export type DataRetentionPolicyInput = Omit<InsertDataRetentionPolicy, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>;
+
+export interface DataRetentionRunOptions {
+  dryRun?: boolean;
+  trigger: 'schedule' | 'manual';
+  userId?: number | null;
+  asOf?: Date;
+}
+
+interface RetentionTarget {
+  table: any;
+  id: any;
+  where: SQL | undefined;
+}
+
+const SETTINGS_KEY = 'data_retention_settings';
+const RETENTION_REASON = 'retention_policy';
+const REMOVED_CONTENT = '[Removed by retention policy]';
+const FINISHED_FLOW_STATUSES = ['completed', 'failed', 'abandoned'] as const;
+const BATCH_SIZE = 500;
+const MAX_BATCHES_PER_POLICY = 200;
+const RUN_HOUR = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DATA_RETENTION_SETTINGS: DataRetentionSettings = {
+  legalHoldTags: ['legal_hold'],
+  notifyBeforeDeletion: false,
+  notificationDays: 7,
+  notifyEmails: [],
+  nextDeletionAt: null
+};
+
+export const DATA_CLASS_LABELS: Record<string, string> = {
+  message_bodies: 'Message bodies',
+  media_files: 'Media files',
+  call_recordings: 'Call recordings',
+  flow_execution_logs: 'Flow execution logs',
+  api_usage_logs: 'API usage logs'
+};
+
+/**
+ * Data Retention Service
+ * Applies company retention policies per data class and channel type. Runs daily; when
+ * notifications are enabled, deletions are announced to the company a set number of days
+ * before they happen and only what was announced is removed. Contacts carrying a legal hold
+ * tag are exempt from every policy.
+ */
+export class DataRetentionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = new Set<number>();
+
+  /**
+   * Schedule the daily retention job
+   */
+  start(): void {
+    if (this.timer) {
+      logger.info('data-retention', 'Data retention job is already scheduled');
+      return;
+    }
+
+    const scheduleNext = () => {
+      const now = new Date();
+      const next = new Date(now);
+      next.setHours(RUN_HOUR, 0, 0, 0);
+      if (next <= now) next.setDate(next.getDate() + 1);
+
+      this.timer = setTimeout(async () => {
+        try {
+          await this.runScheduled();
+        } catch (error) {
+          logger.error('data-retention', 'Data retention job failed', error);
+        }
+        scheduleNext();
+      }, next.getTime() - now.getTime());
+    };
+
+    scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getPolicies(companyId: number): Promise<DataRetentionPolicy[]> {
+    return db
+      .select()
+      .from(dataRetentionPolicies)
+      .where(eq(dataRetentionPolicies.companyId, companyId))
+      .orderBy(dataRetentionPolicies.dataClass, dataRetentionPolicies.id);
+  }
+
+  async getPolicy(id: number): Promise<DataRetentionPolicy | null> {
+    const [policy] = await db.select().from(dataRetentionPolicies).where(eq(dataRetentionPolicies.id, id));
+    return policy || null;
+  }
+
+  async createPolicy(companyId: number, data: DataRetentionPolicyInput): Promise<DataRetentionPolicy> {
+    const [policy] = await db
+      .insert(dataRetentionPolicies)
+      .values({ ...data, companyId })
+      .returning();
+    return policy;
+  }
+
+  async updatePolicy(id: number, updates: Partial<DataRetentionPolicyInput>): Promise<DataRetentionPolicy> {
+    const [policy] = await db
+      .update(dataRetentionPolicies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(dataRetentionPolicies.id, id))
+      .returning();
+    return policy;
+  }
+
+  async deletePolicy(id: number): Promise<void> {
+    await db.delete(dataRetentionPolicies).where(eq(dataRetentionPolicies.id, id));
+  }
+
+  async getSettings(companyId: number): Promise<DataRetentionSettings> {
+    const setting = await storage.getCompanySetting(companyId, SETTINGS_KEY);
+    return { ...DEFAULT_DATA_RETENTION_SETTINGS, ...((setting?.value as Partial<DataRetentionSettings>) || {}) };
+  }
+
+  /**
+   * Save company settings; a pending announced deletion is kept while notifications stay on
+   */
+  async saveSettings(companyId: number, settings: Omit<DataRetentionSettings, 'nextDeletionAt'>): Promise<DataRetentionSettings> {
+    const current = await this.getSettings(companyId);
+    const saved: DataRetentionSettings = {
+      ...settings,
+      nextDeletionAt: settings.notifyBeforeDeletion ? current.nextDeletionAt || null : null
+    };
+    await storage.saveCompanySetting(companyId, SETTINGS_KEY, saved);
+    return saved;
+  }
+
+  async getRuns(companyId: number, limit = 20): Promise<DataRetentionRun[]> {
+    return db
+      .select()
+      .from(dataRetentionRuns)
+      .where(eq(dataRetentionRuns.companyId, companyId))
+      .orderBy(desc(dataRetentionRuns.startedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Count what each active policy would remove as of the given date, without changing anything
+   */
+  async preview(companyId: number, asOf: Date = new Date()): Promise<DataRetentionRunResult[]> {
+    const [policies, settings] = await Promise.all([this.getActivePolicies(companyId), this.getSettings(companyId)]);
+    const results: DataRetentionRunResult[] = [];
+
+    for (const policy of policies) {
+      const cutoff = this.cutoffFor(policy, asOf);
+      const target = this.target(policy, cutoff, settings.legalHoldTags);
+      const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(target.table).where(target.where);
+      results.push(this.emptyResult(policy, cutoff, Number(row?.count || 0)));
+    }
+
+    return results;
+  }
+
+  /**
+   * Apply (or, for dry runs, preview) the company's policies and record the run
+   */
+  async run(companyId: number, options: DataRetentionRunOptions): Promise<DataRetentionRun> {
+    if (this.running.has(companyId)) {
+      throw new Error('A retention run is already in progress for this company');
+    }
+
+    this.running.add(companyId);
+    const startedAt = new Date();
+    const asOf = options.asOf || startedAt;
+    let results: DataRetentionRunResult[] = [];
+    let error: string | null = null;
+
+    try {
+      results = options.dryRun ? await this.preview(companyId, asOf) : await this.enforce(companyId, asOf);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      logger.error('data-retention', `Retention run failed for company ${companyId}`, err);
+    } finally {
+      this.running.delete(companyId);
+    }
+
+    const [run] = await db
+      .insert(dataRetentionRuns)
+      .values({
+        companyId,
+        dryRun: !!options.dryRun,
+        trigger: options.trigger,
+        userId: options.userId || null,
+        status: error ? 'failed' : 'completed',
+        results,
+        error,
+        startedAt,
+        completedAt: new Date()
+      })
+      .returning();
+
+    if (!options.dryRun && !error) {
+      const processed = results.reduce((sum, result) => sum + result.processed, 0);
+      logger.info('data-retention', `Retention applied for company ${companyId}`, { processed });
+    }
+
+    return run;
+  }
+
+  /**
+   * Daily job: for each company with active policies, delete what is due (or what was
+   * announced) and send the next pre-deletion notice
+   */
+  async runScheduled(): Promise<void> {
+    const rows = await db
+      .selectDistinct({ companyId: dataRetentionPolicies.companyId })
+      .from(dataRetentionPolicies)
+      .where(eq(dataRetentionPolicies.isActive, true));
+
+    for (const { companyId } of rows) {
+      try {
+        await this.processCompany(companyId, new Date());
+      } catch (error) {
+        logger.error('data-retention', `Scheduled retention failed for company ${companyId}`, error);
+      }
+    }
+  }
+
+  private async processCompany(companyId: number, now: Date): Promise<void> {
+    const settings = await this.getSettings(companyId);
+    if (!settings.notifyBeforeDeletion || settings.notificationDays <= 0) {
+      await this.run(companyId, { trigger: 'schedule' });
+      return;
+    }
+
+    const announcedAt = settings.nextDeletionAt ? new Date(settings.nextDeletionAt) : null;
+    if (announcedAt && announcedAt > now) {
+      return;
+    }
+
+    if (announcedAt) {
+      await this.run(companyId, { trigger: 'schedule', asOf: announcedAt });
+    }
+
+    const deletionAt = new Date(now.getTime() + settings.notificationDays * DAY_MS);
+    const upcoming = await this.preview(companyId, deletionAt);
+    if (upcoming.some(result => result.matched > 0)) {
+      await this.notify(companyId, settings, deletionAt, upcoming);
+    }
+
+    await storage.saveCompanySetting(companyId, SETTINGS_KEY, { ...settings, nextDeletionAt: deletionAt.toISOString() });
+  }
+
+  /**
+   * Tell the company what will be deleted: email the configured addresses (or the company
+   * admins) and show an in-app notice
+   */
+  private async notify(
+    companyId: number,
+    settings: DataRetentionSettings,
+    deletionAt: Date,
+    upcoming: DataRetentionRunResult[]
+  ): Promise<void> {
+    const lines = upcoming
+      .filter(result => result.matched > 0)
+      .map(result => {
+        const channels = result.channelTypes.length > 0 ? result.channelTypes.join(', ') : 'all channels';
+        return `- ${DATA_CLASS_LABELS[result.dataClass] || result.dataClass} (${channels}): ${result.matched} item(s) older than ${result.cutoff.slice(0, 10)}`;
+      });
+
+    broadcastToCompany({
+      type: 'dataRetentionNotice',
+      data: { deletionAt: deletionAt.toISOString(), results: upcoming }
+    }, companyId);
+
+    let recipients = settings.notifyEmails;
+    if (recipients.length === 0) {
+      const users = await storage.getUsersByCompany(companyId);
+      recipients = users.filter(user => user.role === 'admin' && user.email).map(user => user.email);
+    }
+    if (recipients.length === 0) {
+      return;
+    }
+
+    const subject = `Scheduled data deletion on ${deletionAt.toDateString()}`;
+    const text = [
+      `Your data retention policies will remove the following data on ${deletionAt.toUTCString()}:`,
+      '',
+      ...lines,
+      '',
+      `Contacts tagged ${settings.legalHoldTags.map(tag => `"${tag}"`).join(', ') || '(no legal hold tags configured)'} are exempt.`,
+      'To keep data, tag the contacts with a legal hold tag or change the policies before that date.'
+    ].join('\n');
+
+    try {
+      await sendEmail(recipients, subject, text);
+    } catch (error) {
+      logger.error('data-retention', `Failed to send retention notice for company ${companyId}`, error);
+    }
+  }
+
+  private async getActivePolicies(companyId: number): Promise<DataRetentionPolicy[]> {
+    return db
+      .select()
+      .from(dataRetentionPolicies)
+      .where(and(eq(dataRetentionPolicies.companyId, companyId), eq(dataRetentionPolicies.isActive, true)))
+      .orderBy(dataRetentionPolicies.id);
+  }
+
+  private async enforce(companyId: number, asOf: Date): Promise<DataRetentionRunResult[]> {
+    const [policies, settings] = await Promise.all([this.getActivePolicies(companyId), this.getSettings(companyId)]);
+    const results: DataRetentionRunResult[] = [];
+
+    for (const policy of policies) {
+      const cutoff = this.cutoffFor(policy, asOf);
+      const target = this.target(policy, cutoff, settings.legalHoldTags);
+      const result = this.emptyResult(policy, cutoff, 0);
+      const failedIds: number[] = [];
+
+      for (let batch = 0; batch < MAX_BATCHES_PER_POLICY; batch++) {
+        const rows = await db
+          .select({ id: target.id })
+          .from(target.table)
+          .where(and(target.where, failedIds.length > 0 ? notInArray(target.id, failedIds) : undefined))
+          .limit(BATCH_SIZE);
+        if (rows.length === 0) break;
+
+        const ids = rows.map((row: { id: number }) => row.id);
+        result.matched += ids.length;
+        try {
+          const { failed, errors } = await this.apply(policy, ids);
+          failedIds.push(...failed);
+          result.errors.push(...errors);
+          result.processed += ids.length - failed.length;
+        } catch (error) {
+          failedIds.push(...ids);
+          result.errors.push(error instanceof Error ? error.message : String(error));
+        }
+
+        if (rows.length < BATCH_SIZE) break;
+      }
+
+      result.errors = result.errors.slice(0, 20);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private cutoffFor(policy: DataRetentionPolicy, asOf: Date): Date {
+    return new Date(asOf.getTime() - policy.retentionDays * DAY_MS);
+  }
+
+  private emptyResult(policy: DataRetentionPolicy, cutoff: Date, matched: number): DataRetentionRunResult {
+    return {
+      policyId: policy.id,
+      dataClass: policy.dataClass,
+      channelTypes: policy.channelTypes,
+      cutoff: cutoff.toISOString(),
+      matched,
+      processed: 0,
+      errors: []
+    };
+  }
+
+  /**
+   * Rows a policy covers: older than the cutoff, on the policy's channels and not tied to a
+   * contact on legal hold
+   */
+  private target(policy: DataRetentionPolicy, cutoff: Date, legalHoldTags: string[]): RetentionTarget {
+    const { companyId, channelTypes } = policy;
+    const heldContacts = legalHoldTags.length > 0
+      ? db.select({ id: contacts.id }).from(contacts).where(and(eq(contacts.companyId, companyId), arrayOverlaps(contacts.tags, legalHoldTags)))
+      : null;
+
+    const scopedConversations = db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(and(
+        eq(conversations.companyId, companyId),
+        channelTypes.length > 0 ? inArray(conversations.channelType, channelTypes) : undefined,
+        heldContacts ? or(isNull(conversations.contactId), notInArray(conversations.contactId, heldContacts)) : undefined
+      ));
+
+    switch (policy.dataClass) {
+      case 'message_bodies':
+        return {
+          table: messages,
+          id: messages.id,
+          where: and(
+            inArray(messages.conversationId, scopedConversations),
+            lt(messages.createdAt, cutoff),
+            isNull(messages.anonymizedAt)
+          )
+        };
+
+      case 'media_files':
+        return {
+          table: messages,
+          id: messages.id,
+          where: and(
+            inArray(messages.conversationId, scopedConversations),
+            lt(messages.createdAt, cutoff),
+            or(
+              isNotNull(messages.mediaUrl),
+              sql`${messages.metadata}->>'mediaUrl' IS NOT NULL`,
+              inArray(messages.id, db.select({ id: emailAttachments.messageId }).from(emailAttachments))
+            )
+          )
+        };
+
+      case 'call_recordings':
+        return {
+          table: calls,
+          id: calls.id,
+          where: and(
+            eq(calls.companyId, companyId),
+            lt(calls.createdAt, cutoff),
+            or(isNotNull(calls.recordingUrl), isNotNull(calls.recordingSid)),
+            channelTypes.length > 0
+              ? inArray(calls.channelId, db
+                .select({ id: channelConnections.id })
+                .from(channelConnections)
+                .where(and(eq(channelConnections.companyId, companyId), inArray(channelConnections.channelType, channelTypes))))
+              : undefined,
+            heldContacts ? or(isNull(calls.contactId), notInArray(calls.contactId, heldContacts)) : undefined
+          )
+        };
+
+      case 'flow_execution_logs':
+        return {
+          table: flowExecutions,
+          id: flowExecutions.id,
+          where: and(
+            eq(flowExecutions.companyId, companyId),
+            inArray(flowExecutions.status, [...FINISHED_FLOW_STATUSES]),
+            sql`COALESCE(${flowExecutions.completedAt}, ${flowExecutions.lastActivityAt}) < ${cutoff}`,
+            inArray(flowExecutions.conversationId, scopedConversations)
+          )
+        };
+
+      case 'api_usage_logs':
+        return {
+          table: apiUsage,
+          id: apiUsage.id,
+          where: and(eq(apiUsage.companyId, companyId), lt(apiUsage.createdAt, cutoff))
+        };
+
+      default:
+        throw new Error(`Unknown data class: ${policy.dataClass}`);
+    }
+  }
+
+  /**
+   * Remove the data for one batch of rows; returns the IDs that could not be processed
+   */
+  private async apply(policy: DataRetentionPolicy, ids: number[]): Promise<{ failed: number[]; errors: string[] }> {
+    const failed: number[] = [];
+    const errors: string[] = [];
+
+    switch (policy.dataClass) {
+      case 'message_bodies':
+        await db
+          .update(messages)
+          .set({
+            content: REMOVED_CONTENT,
+            emailSubject: null,
+            emailHtml: null,
+            emailPlainText: null,
+            anonymizedAt: new Date(),
+            anonymizationReason: RETENTION_REASON
+          })
+          .where(inArray(messages.id, ids));
+        break;
+
+      case 'media_files': {
+        const rows = await db
+          .select({ id: messages.id, mediaUrl: messages.mediaUrl, metadata: messages.metadata })
+          .from(messages)
+          .where(inArray(messages.id, ids));
+        const attachments = await db.select().from(emailAttachments).where(inArray(emailAttachments.messageId, ids));
+
+        // Rows keep their media reference until every file of the message is gone, so a later run can retry
+        const cleared: number[] = [];
+        for (const row of rows) {
+          const files = [
+            row.mediaUrl,
+            (row.metadata as { mediaUrl?: unknown } | null)?.mediaUrl,
+            ...attachments.filter(attachment => attachment.messageId === row.id).map(attachment => attachment.filePath)
+          ];
+          try {
+            for (const file of files) {
+              const filePath = typeof file === 'string' ? mediaCleanupService.resolveLocalPath(file) : null;
+              if (filePath) {
+                await mediaStorage.deleteMedia(filePath);
+              }
+            }
+            cleared.push(row.id);
+          } catch (error) {
+            failed.push(row.id);
+            errors.push(`Message ${row.id}: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+
+        if (cleared.length === 0) break;
+        if (attachments.some(attachment => cleared.includes(attachment.messageId))) {
+          await db.delete(emailAttachments).where(inArray(emailAttachments.messageId, cleared));
+        }
+        await db
+          .update(messages)
+          .set({
+            mediaUrl: null,
+            metadata: sql`(COALESCE(${messages.metadata}, '{}'::jsonb) - 'mediaUrl') || jsonb_build_object('mediaRemovedBy', ${RETENTION_REASON}::text)`
+          })
+          .where(inArray(messages.id, cleared));
+        break;
+      }
+
+      case 'call_recordings': {
+        const rows = await db.select().from(calls).where(inArray(calls.id, ids));
+        for (const call of rows) {
+          try {
+            const localPath = call.recordingUrl ? mediaCleanupService.resolveLocalPath(call.recordingUrl) : null;
+            if (localPath) {
+              await mediaStorage.deleteMedia(localPath);
+            } else {
+              await callLogsService.deleteTwilioRecording({
+                recordingSid: call.recordingSid || undefined,
+                recordingUrl: call.recordingUrl || undefined,
+                channelId: call.channelId
+              });
+            }
+            await db.update(calls).set({ recordingUrl: null, recordingSid: null }).where(eq(calls.id, call.id));
+          } catch (error) {
+            failed.push(call.id);
+            errors.push(`Call ${call.id}: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+        break;
+      }
+
+      case 'flow_execution_logs':
+        await db.delete(flowStepExecutions).where(inArray(flowStepExecutions.flowExecutionId, ids));
+        await db.delete(flowExecutions).where(inArray(flowExecutions.id, ids));
+        break;
+
+      case 'api_usage_logs':
+        await db.delete(apiUsage).where(inArray(apiUsage.id, ids));
+        break;
+    }
+
+    return { failed, errors };
+  }
+}
+
+export const dataRetentionService = new DataRetentionService();
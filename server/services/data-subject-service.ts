@@ -0,0 +1,672 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { and, desc, eq, inArray, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  calls,
+  campaignMessages,
+  campaignQueue,
+  campaignRecipients,
+  contactAppointments,
+  contactAuditLogs,
+  contactDocuments,
+  contactTasks,
+  contacts,
+  conversationSurveys,
+  conversations,
+  dealActivities,
+  deals,
+  emailAttachments,
+  flowExecutions,
+  flowSessionCursors,
+  flowSessionVariables,
+  flowSessions,
+  flowStepExecutions,
+  followUpSchedules,
+  groupParticipants,
+  messages,
+  notes,
+  scheduledMessages,
+  type Contact,
+  type ContactAuditLog
+} from '@shared/schema';
+import { mediaCleanupService } from './media-cleanup';
+import { mediaStorage } from './media-storage';
+import { callLogsService } from './call-logs-service';
+import { createZip, type ZipEntry } from '../utils/zip';
+import { logger } from '../utils/logger';
+
+/**
+ * Data subject requests (GDPR access and erasure) for a single contact
+ *
+ * Exports collect every record tied to the contact across conversations, CRM, flows, campaigns,
+ * calls and satisfaction surveys. Erasure runs in one transaction and then re-counts what is left so the caller gets
+ * a verified report:
+ *
+ *   erase      related records and files are deleted
+ *   anonymize  related records are kept for reporting with personal data and content scrubbed
+ *
+ * In both modes the contact row stays behind as an anonymized tombstone, because
+ * contact_audit_logs cascades on contact deletion and the request itself must stay on record.
+ */
+
+export type ErasureMode = 'erase' | 'anonymize';
+
+export const DATA_SUBJECT_ACTION_TYPES = {
+  export: 'gdpr_export',
+  erase: 'gdpr_erasure',
+  anonymize: 'gdpr_anonymization'
+} as const;
+
+const AUDIT_CATEGORY = 'compliance';
+const DELETION_REASON = 'gdpr_request';
+const ERASED_NAME = '[Erased]';
+const REDACTED = '[Redacted]';
+const MAX_EXPORT_FILE_BYTES = 250 * 1024 * 1024;
+
+export interface ContactDataBundle {
+  exportedAt: string;
+  contact: Contact;
+  conversations: any[];
+  messages: any[];
+  emailAttachments: any[];
+  notes: any[];
+  deals: any[];
+  dealActivities: any[];
+  tasks: any[];
+  appointments: any[];
+  documents: any[];
+  flowSessions: any[];
+  flowSessionVariables: any[];
+  flowExecutions: any[];
+  followUps: any[];
+  campaignRecipients: any[];
+  campaignMessages: any[];
+  calls: any[];
+  scheduledMessages: any[];
+  satisfactionSurveys: any[];
+  auditLogs: ContactAuditLog[];
+}
+
+export interface DataSubjectRequestContext {
+  userId?: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ErasureReport {
+  contactId: number;
+  mode: ErasureMode;
+  completedAt: string;
+  affected: Record<string, number>;
+  files: { deleted: number; failed: string[] };
+  recordings: { deleted: number; failed: number };
+  remaining: Record<string, number>;
+  verified: boolean;
+}
+
+interface RelatedIds {
+  conversationIds: number[];
+  messageIds: number[];
+  dealIds: number[];
+  recipientIds: number[];
+  sessionIds: string[];
+  executionIds: number[];
+  surveyIds: number[];
+}
+
+const ids = (rows: { id: number }[]) => rows.map(row => row.id);
+
+const mediaUrlFromMetadata = (metadata: unknown): string | null => {
+  if (!metadata) return null;
+  try {
+    const parsed = typeof metadata === 'string' ? JSON.parse(metadata) : metadata;
+    return typeof (parsed as any)?.mediaUrl === 'string' ? (parsed as any).mediaUrl : null;
+  } catch {
+    return null;
+  }
+};
+
+class DataSubjectService {
+  /**
+   * Every record tied to the contact; messages include those the contact sent in group chats
+   */
+  async collectContactData(contact: Contact): Promise<ContactDataBundle> {
+    const contactId = contact.id;
+
+    const conversationRows = await db.select().from(conversations).where(eq(conversations.contactId, contactId));
+    const conversationIds = ids(conversationRows);
+
+    const messageRows = await db
+      .select()
+      .from(messages)
+      .where(or(
+        conversationIds.length > 0 ? inArray(messages.conversationId, conversationIds) : sql`false`,
+        and(eq(messages.senderId, contactId), eq(messages.senderType, 'contact'))
+      ))
+      .orderBy(messages.id);
+    const messageIds = ids(messageRows);
+
+    const dealRows = await db.select().from(deals).where(eq(deals.contactId, contactId));
+    const sessionRows = await db.select().from(flowSessions).where(eq(flowSessions.contactId, contactId));
+    const sessionIds = sessionRows.map((session: any) => session.sessionId);
+    const recipientRows = await db.select().from(campaignRecipients).where(eq(campaignRecipients.contactId, contactId));
+
+    return {
+      exportedAt: new Date().toISOString(),
+      contact,
+      conversations: conversationRows,
+      messages: messageRows,
+      emailAttachments: messageIds.length > 0
+        ? await db.select().from(emailAttachments).where(inArray(emailAttachments.messageId, messageIds))
+        : [],
+      notes: await db.select().from(notes).where(eq(notes.contactId, contactId)),
+      deals: dealRows,
+      dealActivities: dealRows.length > 0
+        ? await db.select().from(dealActivities).where(inArray(dealActivities.dealId, ids(dealRows)))
+        : [],
+      tasks: await db.select().from(contactTasks).where(eq(contactTasks.contactId, contactId)),
+      appointments: await db.select().from(contactAppointments).where(eq(contactAppointments.contactId, contactId)),
+      documents: await db.select().from(contactDocuments).where(eq(contactDocuments.contactId, contactId)),
+      flowSessions: sessionRows,
+      flowSessionVariables: sessionIds.length > 0
+        ? await db.select().from(flowSessionVariables).where(inArray(flowSessionVariables.sessionId, sessionIds))
+        : [],
+      flowExecutions: await db.select().from(flowExecutions).where(eq(flowExecutions.contactId, contactId)),
+      followUps: await db.select().from(followUpSchedules).where(eq(followUpSchedules.contactId, contactId)),
+      campaignRecipients: recipientRows,
+      campaignMessages: recipientRows.length > 0
+        ? await db.select().from(campaignMessages).where(inArray(campaignMessages.recipientId, ids(recipientRows)))
+        : [],
+      calls: await db.select().from(calls).where(eq(calls.contactId, contactId)),
+      scheduledMessages: conversationIds.length > 0
+        ? await db.select().from(scheduledMessages).where(inArray(scheduledMessages.conversationId, conversationIds))
+        : [],
+      satisfactionSurveys: await db
+        .select()
+        .from(conversationSurveys)
+        .where(or(
+          eq(conversationSurveys.contactId, contactId),
+          conversationIds.length > 0 ? inArray(conversationSurveys.conversationId, conversationIds) : sql`false`
+        ))
+        .orderBy(conversationSurveys.id),
+      auditLogs: await db
+        .select()
+        .from(contactAuditLogs)
+        .where(eq(contactAuditLogs.contactId, contactId))
+        .orderBy(desc(contactAuditLogs.createdAt))
+    };
+  }
+
+  /**
+   * Local files referenced by the bundle: message media, email attachments, documents and
+   * scheduled or follow-up media. Remote URLs stay in data.json only.
+   */
+  getLocalFiles(bundle: ContactDataBundle): { folder: string; source: string; path: string }[] {
+    const candidates: { folder: string; source: string }[] = [];
+
+    if (bundle.contact.avatarUrl) {
+      candidates.push({ folder: 'contact', source: bundle.contact.avatarUrl });
+    }
+    bundle.messages.forEach(message => {
+      if (message.mediaUrl) candidates.push({ folder: 'media', source: message.mediaUrl });
+      const metadataUrl = mediaUrlFromMetadata(message.metadata);
+      if (metadataUrl) candidates.push({ folder: 'media', source: metadataUrl });
+    });
+    bundle.emailAttachments.forEach(attachment => candidates.push({ folder: 'email-attachments', source: attachment.filePath }));
+    bundle.documents.forEach(document => candidates.push({ folder: 'documents', source: document.filePath || document.fileUrl }));
+    bundle.scheduledMessages.forEach(scheduled => {
+      if (scheduled.mediaFilePath) candidates.push({ folder: 'scheduled-media', source: scheduled.mediaFilePath });
+      if (scheduled.mediaUrl) candidates.push({ folder: 'scheduled-media', source: scheduled.mediaUrl });
+    });
+    bundle.followUps.forEach(followUp => {
+      if (followUp.mediaUrl) candidates.push({ folder: 'follow-up-media', source: followUp.mediaUrl });
+    });
+
+    const seen = new Set<string>();
+    return candidates.flatMap(candidate => {
+      const filePath = mediaCleanupService.resolveLocalPath(candidate.source);
+      if (!filePath || seen.has(filePath)) return [];
+      seen.add(filePath);
+      return [{ ...candidate, path: filePath }];
+    });
+  }
+
+  /**
+   * ZIP with data.json and the contact's files; files past the size cap are listed as skipped
+   */
+  async buildExportArchive(bundle: ContactDataBundle): Promise<Buffer> {
+    const entries: ZipEntry[] = [];
+    const included: string[] = [];
+    const skipped: string[] = [];
+    let totalBytes = 0;
+
+    for (const file of this.getLocalFiles(bundle)) {
+      try {
+        if (!(await mediaStorage.restoreLocalCopy(file.path))) continue;
+
+        const { size } = await fs.stat(file.path);
+        if (totalBytes + size > MAX_EXPORT_FILE_BYTES) {
+          skipped.push(file.source);
+          continue;
+        }
+
+        const name = `${file.folder}/${included.length + 1}-${path.basename(file.path)}`;
+        entries.push({ name, data: await fs.readFile(file.path) });
+        included.push(name);
+        totalBytes += size;
+      } catch (error) {
+        logger.warn('data-subject', `Could not add ${file.source} to export`, error);
+        skipped.push(file.source);
+      }
+    }
+
+    entries.unshift({
+      name: 'data.json',
+      data: JSON.stringify({ ...bundle, files: { included, skipped } }, null, 2)
+    });
+
+    return createZip(entries);
+  }
+
+  async logExport(contact: Contact, format: string, bundle: ContactDataBundle, context: DataSubjectRequestContext): Promise<void> {
+    await db.insert(contactAuditLogs).values({
+      companyId: contact.companyId!,
+      contactId: contact.id,
+      userId: context.userId || null,
+      actionType: DATA_SUBJECT_ACTION_TYPES.export,
+      actionCategory: AUDIT_CATEGORY,
+      description: `Personal data exported (${format.toUpperCase()})`,
+      metadata: {
+        format,
+        conversations: bundle.conversations.length,
+        messages: bundle.messages.length
+      },
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent || null
+    });
+  }
+
+  /**
+   * Erase or anonymize everything tied to the contact, then delete its files and call
+   * recordings and verify nothing personal is left
+   */
+  async eraseContact(contact: Contact, mode: ErasureMode, context: DataSubjectRequestContext): Promise<ErasureReport> {
+    const bundle = await this.collectContactData(contact);
+    const files = this.getLocalFiles(bundle);
+    const now = new Date();
+
+    const conversationIds = ids(bundle.conversations);
+    const messageIds = ids(bundle.messages);
+    const dealIds = ids(bundle.deals);
+    const recipientIds = ids(bundle.campaignRecipients);
+    const sessionIds: string[] = bundle.flowSessions.map(session => session.sessionId);
+    const executionIds = ids(bundle.flowExecutions);
+    const surveyIds = ids(bundle.satisfactionSurveys);
+
+    const affected: Record<string, number> = {
+      conversations: conversationIds.length,
+      messages: messageIds.length,
+      notes: bundle.notes.length,
+      deals: dealIds.length,
+      tasks: bundle.tasks.length,
+      appointments: bundle.appointments.length,
+      documents: bundle.documents.length,
+      flowSessions: sessionIds.length,
+      flowExecutions: executionIds.length,
+      followUps: bundle.followUps.length,
+      campaignRecipients: recipientIds.length,
+      calls: bundle.calls.length,
+      scheduledMessages: bundle.scheduledMessages.length,
+      satisfactionSurveys: surveyIds.length
+    };
+
+    const oldValues = {
+      name: contact.name,
+      email: contact.email,
+      phone: contact.phone,
+      identifier: contact.identifier,
+      identifierType: contact.identifierType
+    };
+
+    await db.transaction(async (tx: any) => {
+      if (sessionIds.length > 0) {
+        await tx.delete(flowSessionVariables).where(inArray(flowSessionVariables.sessionId, sessionIds));
+      }
+
+      if (mode === 'erase') {
+        await this.deleteRelatedRecords(tx, contact.id, { conversationIds, messageIds, dealIds, recipientIds, sessionIds, executionIds, surveyIds });
+      } else {
+        await this.anonymizeRelatedRecords(tx, contact.id, { conversationIds, messageIds, dealIds, recipientIds, sessionIds, executionIds, surveyIds }, now);
+      }
+
+      await tx.delete(contactDocuments).where(eq(contactDocuments.contactId, contact.id));
+
+      await tx
+        .update(contacts)
+        .set({
+          name: ERASED_NAME,
+          avatarUrl: null,
+          email: null,
+          phone: null,
+          company: null,
+          tags: null,
+          identifier: null,
+          identifierType: null,
+          notes: null,
+          customFields: {},
+          isActive: false,
+          deletedAt: now,
+          anonymizedAt: now,
+          deletionReason: DELETION_REASON,
+          deletionMetadata: { mode, requestedBy: context.userId || null },
+          updatedAt: now
+        })
+        .where(eq(contacts.id, contact.id));
+
+      await tx.insert(contactAuditLogs).values({
+        companyId: contact.companyId!,
+        contactId: contact.id,
+        userId: context.userId || null,
+        actionType: DATA_SUBJECT_ACTION_TYPES[mode],
+        actionCategory: AUDIT_CATEGORY,
+        description: mode === 'erase'
+          ? 'Personal data erased per data subject request'
+          : 'Personal data anonymized per data subject request',
+        oldValues,
+        newValues: { name: ERASED_NAME, email: null, phone: null, identifier: null },
+        metadata: { mode, affected },
+        ipAddress: context.ipAddress || null,
+        userAgent: context.userAgent || null
+      });
+    });
+
+    const deletedFiles: string[] = [];
+    const failedFiles: string[] = [];
+    for (const file of files) {
+      try {
+        if (await mediaStorage.deleteMedia(file.path)) {
+          deletedFiles.push(file.source);
+        }
+      } catch (error) {
+        logger.error('data-subject', `Failed to delete ${file.source}`, error);
+        failedFiles.push(file.source);
+      }
+    }
+
+    let recordingsDeleted = 0;
+    let recordingsFailed = 0;
+    for (const call of bundle.calls) {
+      if (!call.recordingSid && !call.recordingUrl) continue;
+      try {
+        await callLogsService.deleteTwilioRecording(call);
+        recordingsDeleted++;
+      } catch (error) {
+        logger.error('data-subject', `Failed to delete recording for call ${call.id}`, error);
+        recordingsFailed++;
+      }
+    }
+
+    const remaining = await this.verifyErasure(contact.id, mode);
+    const verified = Object.values(remaining).every(count => count === 0) && failedFiles.length === 0;
+
+    const report: ErasureReport = {
+      contactId: contact.id,
+      mode,
+      completedAt: now.toISOString(),
+      affected,
+      files: { deleted: deletedFiles.length, failed: failedFiles },
+      recordings: { deleted: recordingsDeleted, failed: recordingsFailed },
+      remaining,
+      verified
+    };
+
+    await db.insert(contactAuditLogs).values({
+      companyId: contact.companyId!,
+      contactId: contact.id,
+      userId: context.userId || null,
+      actionType: `${DATA_SUBJECT_ACTION_TYPES[mode]}_verified`,
+      actionCategory: AUDIT_CATEGORY,
+      description: verified
+        ? 'Data subject request verified: no personal data remains'
+        : 'Data subject request verification found remaining data',
+      metadata: { files: report.files, recordings: report.recordings, remaining }
+    });
+
+    logger.info('data-subject', `Contact ${contact.id} ${mode} completed`, { verified, remaining });
+    return report;
+  }
+
+  /**
+   * Count what is still personal after an erasure; all counts are zero when it succeeded
+   */
+  async verifyErasure(contactId: number, mode: ErasureMode): Promise<Record<string, number>> {
+    const count = async (table: any, where: any) => {
+      const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(table).where(where);
+      return Number(row?.count || 0);
+    };
+
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, contactId));
+    const contactPii = contact && (contact.email || contact.phone || contact.identifier || contact.name !== ERASED_NAME) ? 1 : 0;
+    const sessionIds = db.select({ sessionId: flowSessions.sessionId }).from(flowSessions).where(eq(flowSessions.contactId, contactId));
+    const ownConversations = db.select({ id: conversations.id }).from(conversations).where(eq(conversations.contactId, contactId));
+
+    const remaining: Record<string, number> = {
+      contact: contactPii,
+      documents: await count(contactDocuments, eq(contactDocuments.contactId, contactId)),
+      flowSessionVariables: await count(flowSessionVariables, inArray(flowSessionVariables.sessionId, sessionIds))
+    };
+
+    if (mode === 'erase') {
+      remaining.conversations = await count(conversations, eq(conversations.contactId, contactId));
+      remaining.messages = await count(messages, and(eq(messages.senderId, contactId), eq(messages.senderType, 'contact')));
+      remaining.notes = await count(notes, eq(notes.contactId, contactId));
+      remaining.deals = await count(deals, eq(deals.contactId, contactId));
+      remaining.tasks = await count(contactTasks, eq(contactTasks.contactId, contactId));
+      remaining.appointments = await count(contactAppointments, eq(contactAppointments.contactId, contactId));
+      remaining.flowSessions = await count(flowSessions, eq(flowSessions.contactId, contactId));
+      remaining.flowExecutions = await count(flowExecutions, eq(flowExecutions.contactId, contactId));
+      remaining.followUps = await count(followUpSchedules, eq(followUpSchedules.contactId, contactId));
+      remaining.campaignRecipients = await count(campaignRecipients, eq(campaignRecipients.contactId, contactId));
+      remaining.calls = await count(calls, eq(calls.contactId, contactId));
+      remaining.satisfactionSurveys = await count(conversationSurveys, or(
+        eq(conversationSurveys.contactId, contactId),
+        inArray(conversationSurveys.conversationId, ownConversations)
+      ));
+    } else {
+      remaining.messages = await count(messages, and(
+        or(
+          inArray(messages.conversationId, ownConversations),
+          and(eq(messages.senderId, contactId), eq(messages.senderType, 'contact'))
+        ),
+        sql`${messages.anonymizedAt} IS NULL`
+      ));
+      remaining.notes = await count(notes, and(eq(notes.contactId, contactId), sql`${notes.content} <> ${REDACTED}`));
+      remaining.campaignRecipients = await count(campaignRecipients, and(
+        eq(campaignRecipients.contactId, contactId),
+        sql`${campaignRecipients.personalizedContent} IS NOT NULL`
+      ));
+      remaining.calls = await count(calls, and(
+        eq(calls.contactId, contactId),
+        sql`(${calls.from} IS NOT NULL OR ${calls.to} IS NOT NULL OR ${calls.recordingUrl} IS NOT NULL)`
+      ));
+      remaining.satisfactionSurveys = await count(conversationSurveys, and(
+        or(
+          eq(conversationSurveys.contactId, contactId),
+          inArray(conversationSurveys.conversationId, ownConversations)
+        ),
+        sql`${conversationSurveys.comment} IS NOT NULL`
+      ));
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Data subject requests recorded for the company, newest first
+   */
+  async listRequests(companyId: number, limit = 50): Promise<ContactAuditLog[]> {
+    return db
+      .select()
+      .from(contactAuditLogs)
+      .where(and(
+        eq(contactAuditLogs.companyId, companyId),
+        inArray(contactAuditLogs.actionType, Object.values(DATA_SUBJECT_ACTION_TYPES))
+      ))
+      .orderBy(desc(contactAuditLogs.createdAt))
+      .limit(limit);
+  }
+
+  private async deleteRelatedRecords(tx: any, contactId: number, related: RelatedIds): Promise<void> {
+    const { conversationIds, messageIds, dealIds, recipientIds, sessionIds, executionIds, surveyIds } = related;
+
+    if (sessionIds.length > 0) {
+      await tx.delete(flowSessionCursors).where(inArray(flowSessionCursors.sessionId, sessionIds));
+      await tx.delete(flowStepExecutions).where(inArray(flowStepExecutions.sessionId, sessionIds));
+    }
+    if (executionIds.length > 0) {
+      await tx.delete(flowStepExecutions).where(inArray(flowStepExecutions.flowExecutionId, executionIds));
+    }
+    await tx.delete(followUpSchedules).where(eq(followUpSchedules.contactId, contactId));
+    await tx.delete(flowSessions).where(eq(flowSessions.contactId, contactId));
+    await tx.delete(flowExecutions).where(eq(flowExecutions.contactId, contactId));
+
+    if (recipientIds.length > 0) {
+      await tx.delete(campaignQueue).where(inArray(campaignQueue.recipientId, recipientIds));
+      await tx.delete(campaignMessages).where(inArray(campaignMessages.recipientId, recipientIds));
+      await tx.delete(campaignRecipients).where(inArray(campaignRecipients.id, recipientIds));
+    }
+    if (messageIds.length > 0) {
+      await tx.update(campaignMessages).set({ messageId: null }).where(inArray(campaignMessages.messageId, messageIds));
+    }
+
+    await tx.delete(calls).where(eq(calls.contactId, contactId));
+    await tx.delete(groupParticipants).where(eq(groupParticipants.contactId, contactId));
+
+    if (surveyIds.length > 0) {
+      await tx.delete(conversationSurveys).where(inArray(conversationSurveys.id, surveyIds));
+    }
+
+    if (conversationIds.length > 0) {
+      await tx.delete(scheduledMessages).where(inArray(scheduledMessages.conversationId, conversationIds));
+      await tx.delete(calls).where(inArray(calls.conversationId, conversationIds));
+      await tx.update(campaignRecipients).set({ conversationId: null }).where(inArray(campaignRecipients.conversationId, conversationIds));
+    }
+    if (messageIds.length > 0) {
+      await tx.delete(messages).where(inArray(messages.id, messageIds));
+    }
+    if (conversationIds.length > 0) {
+      await tx.delete(conversations).where(inArray(conversations.id, conversationIds));
+    }
+
+    await tx.delete(notes).where(eq(notes.contactId, contactId));
+    if (dealIds.length > 0) {
+      await tx.delete(dealActivities).where(inArray(dealActivities.dealId, dealIds));
+      await tx.delete(deals).where(inArray(deals.id, dealIds));
+    }
+    await tx.delete(contactTasks).where(eq(contactTasks.contactId, contactId));
+    await tx.delete(contactAppointments).where(eq(contactAppointments.contactId, contactId));
+  }
+
+  private async anonymizeRelatedRecords(tx: any, contactId: number, related: RelatedIds, now: Date): Promise<void> {
+    const { conversationIds, messageIds, dealIds, recipientIds, sessionIds, executionIds, surveyIds } = related;
+
+    if (messageIds.length > 0) {
+      await tx.delete(emailAttachments).where(inArray(emailAttachments.messageId, messageIds));
+      await tx
+        .update(messages)
+        .set({
+          content: REDACTED,
+          mediaUrl: null,
+          metadata: { anonymized: true },
+          groupParticipantName: null,
+          emailSubject: null,
+          emailFrom: null,
+          emailTo: null,
+          emailCc: null,
+          emailBcc: null,
+          emailHtml: null,
+          emailPlainText: null,
+          emailHeaders: null,
+          anonymizedAt: now,
+          anonymizationReason: DELETION_REASON
+        })
+        .where(inArray(messages.id, messageIds));
+    }
+
+    if (conversationIds.length > 0) {
+      await tx
+        .update(conversations)
+        .set({ visitorMetadata: null, updatedAt: now })
+        .where(inArray(conversations.id, conversationIds));
+      await tx.delete(scheduledMessages).where(inArray(scheduledMessages.conversationId, conversationIds));
+    }
+
+    // Scores stay for satisfaction reporting, free-text comments are personal
+    if (surveyIds.length > 0) {
+      await tx
+        .update(conversationSurveys)
+        .set({ comment: null, error: null, updatedAt: now })
+        .where(inArray(conversationSurveys.id, surveyIds));
+    }
+
+    await tx.update(notes).set({ content: REDACTED, updatedAt: now }).where(eq(notes.contactId, contactId));
+
+    if (dealIds.length > 0) {
+      await tx.update(deals).set({ description: null, updatedAt: now }).where(inArray(deals.id, dealIds));
+      await tx.update(dealActivities).set({ content: REDACTED, metadata: null }).where(inArray(dealActivities.dealId, dealIds));
+    }
+
+    await tx
+      .update(contactTasks)
+      .set({ description: null, updatedAt: now })
+      .where(eq(contactTasks.contactId, contactId));
+    await tx
+      .update(contactAppointments)
+      .set({ description: null, location: null, updatedAt: now })
+      .where(eq(contactAppointments.contactId, contactId));
+
+    if (sessionIds.length > 0) {
+      await tx
+        .update(flowSessions)
+        .set({ sessionData: {}, waitingContext: null, checkpointData: null, debugInfo: null, updatedAt: now })
+        .where(inArray(flowSessions.sessionId, sessionIds));
+      await tx
+        .update(flowStepExecutions)
+        .set({ inputData: null, outputData: null })
+        .where(inArray(flowStepExecutions.sessionId, sessionIds));
+    }
+    if (executionIds.length > 0) {
+      await tx
+        .update(flowExecutions)
+        .set({ contextData: {}, updatedAt: now })
+        .where(inArray(flowExecutions.id, executionIds));
+    }
+    await tx
+      .update(followUpSchedules)
+      .set({ messageContent: null, mediaUrl: null, caption: null })
+      .where(eq(followUpSchedules.contactId, contactId));
+
+    if (recipientIds.length > 0) {
+      await tx
+        .update(campaignRecipients)
+        .set({ personalizedContent: null, variables: {}, updatedAt: now })
+        .where(inArray(campaignRecipients.id, recipientIds));
+      await tx
+        .update(campaignMessages)
+        .set({ content: REDACTED, mediaUrls: [] })
+        .where(inArray(campaignMessages.recipientId, recipientIds));
+    }
+
+    await tx
+      .update(calls)
+      .set({ from: null, to: null, recordingUrl: null, recordingSid: null, metadata: null })
+      .where(eq(calls.contactId, contactId));
+    await tx
+      .update(groupParticipants)
+      .set({ participantName: null })
+      .where(eq(groupParticipants.contactId, contactId));
+  }
+}
+
+export const dataSubjectService = new DataSubjectService();
@@ -0,0 +1,333 @@
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  DEFAULT_STAGE_WIN_PROBABILITIES,
+  dealActivities,
+  deals,
+  pipelineStages,
+  type Deal,
+  type DealForecastBucket,
+  type DealForecastReport,
+  type DealForecastStage,
+  type DealForecastTotals,
+  type DealStatus,
+  type PipelineStage
+} from '@shared/schema';
+import { and, asc, eq, inArray, ne, type SQL } from 'drizzle-orm';
+import { dealProductsService } from './deal-products-service';
+
+export interface DealForecastFilters {
+  pipelineId?: number;
+  ownerId?: number;
+  from?: Date; // expected close date range, inclusive
+  to?: Date;
+}
+
+interface StageStint {
+  stageId: number;
+  enteredAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NONE_KEY = 'none';
+
+const emptyTotals = (): DealForecastTotals => ({
+  openDeals: 0,
+  openValue: 0,
+  weightedValue: 0,
+  wonDeals: 0,
+  wonValue: 0,
+  lostDeals: 0
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const stageIdFrom = (value: unknown): number | null => {
+  const id = typeof value === 'string' ? parseInt(value) : value;
+  return typeof id === 'number' && Number.isFinite(id) ? id : null;
+};
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Deal Forecast Service
+ * Weighted pipeline forecast from open deal values and per-stage win probabilities, plus
+ * stage conversion and velocity replayed from the deals' stage_change activities. Values are
+ * converted to the company base currency; deals in a currency without a rate are counted
+ * but add no value.
+ */
+export class DealForecastService {
+  /**
+   * Win probability of a stage: its own setting, or the default for the stage type its
+   * name maps to
+   */
+  stageProbability(stage: Pick<PipelineStage, 'name' | 'winProbability'>): { value: number; source: 'stage' | 'default' } {
+    if (stage.winProbability !== null && stage.winProbability !== undefined) {
+      return { value: stage.winProbability, source: 'stage' };
+    }
+    const stageType = storage.mapPipelineStageToEnum(stage.name) as DealStatus;
+    return { value: DEFAULT_STAGE_WIN_PROBABILITIES[stageType] ?? 0, source: 'default' };
+  }
+
+  /**
+   * Build the forecast report. The close date range applies to the forecast totals and
+   * buckets; conversion and velocity are computed over all matching deals.
+   */
+  async getForecast(companyId: number, filters: DealForecastFilters = {}): Promise<DealForecastReport> {
+    const dealConditions = [eq(deals.companyId, companyId), ne(deals.status, 'archived')];
+    if (filters.pipelineId) dealConditions.push(eq(deals.pipelineId, filters.pipelineId));
+    if (filters.ownerId) dealConditions.push(eq(deals.assignedToUserId, filters.ownerId));
+
+    const stageConditions = [eq(pipelineStages.companyId, companyId)];
+    if (filters.pipelineId) stageConditions.push(eq(pipelineStages.pipelineId, filters.pipelineId));
+
+    const [companyDeals, stages, pipelines, users, currencySettings] = await Promise.all([
+      db.select().from(deals).where(and(...dealConditions)),
+      db.select().from(pipelineStages).where(and(...stageConditions)).orderBy(asc(pipelineStages.pipelineId), asc(pipelineStages.order)),
+      storage.getPipelinesByCompany(companyId),
+      storage.getUsersByCompany(companyId),
+      dealProductsService.getCurrencySettings(companyId)
+    ]);
+
+    const stageById = new Map(stages.map(stage => [stage.id, stage]));
+    const probabilityByStage = new Map(stages.map(stage => [stage.id, this.stageProbability(stage)]));
+    const pipelineNames = new Map(pipelines.map(pipeline => [pipeline.id, pipeline.name || `Pipeline #${pipeline.id}`]));
+    const userNames = new Map(users.map(user => [user.id, user.fullName || user.username]));
+
+    const totals = emptyTotals();
+    const byMonth = new Map<string, DealForecastBucket>();
+    const byOwner = new Map<string, DealForecastBucket>();
+    const byPipeline = new Map<string, DealForecastBucket>();
+    const stageTotals = new Map<number, DealForecastTotals>();
+    const missingRates = new Set<string>();
+
+    const bucket = (map: Map<string, DealForecastBucket>, key: string, label: string) => {
+      let entry = map.get(key);
+      if (!entry) {
+        entry = { key, label, ...emptyTotals() };
+        map.set(key, entry);
+      }
+      return entry;
+    };
+
+    for (const deal of companyDeals) {
+      const closeDate = this.closeDate(deal);
+      if ((filters.from || filters.to) && !closeDate) continue;
+      if (filters.from && closeDate && closeDate < filters.from) continue;
+      if (filters.to && closeDate && closeDate > filters.to) continue;
+
+      const monthKey = closeDate ? closeDate.toISOString().slice(0, 7) : NONE_KEY;
+      const ownerKey = deal.assignedToUserId ? String(deal.assignedToUserId) : NONE_KEY;
+      const targets = [
+        totals,
+        bucket(byMonth, monthKey, monthKey === NONE_KEY ? 'No close date' : monthKey),
+        bucket(byOwner, ownerKey, deal.assignedToUserId ? userNames.get(deal.assignedToUserId) || `User #${deal.assignedToUserId}` : 'Unassigned'),
+        bucket(byPipeline, String(deal.pipelineId), pipelineNames.get(deal.pipelineId) || `Pipeline #${deal.pipelineId}`)
+      ];
+
+      const baseValue = dealProductsService.toBase(deal.value || 0, deal.currency, currencySettings);
+      if (baseValue === null) missingRates.add(deal.currency!);
+      const value = baseValue ?? 0;
+      if (deal.stage === 'closed_won') {
+        targets.forEach(target => { target.wonDeals++; target.wonValue += value; });
+        continue;
+      }
+      if (deal.stage === 'closed_lost') {
+        targets.forEach(target => { target.lostDeals++; });
+        continue;
+      }
+
+      const probability = deal.stageId && probabilityByStage.has(deal.stageId)
+        ? probabilityByStage.get(deal.stageId)!.value
+        : DEFAULT_STAGE_WIN_PROBABILITIES[deal.stage] ?? 0;
+      const weighted = value * probability / 100;
+
+      if (deal.stageId && stageById.has(deal.stageId)) {
+        let stageTotal = stageTotals.get(deal.stageId);
+        if (!stageTotal) {
+          stageTotal = emptyTotals();
+          stageTotals.set(deal.stageId, stageTotal);
+        }
+        targets.push(stageTotal);
+      }
+
+      targets.forEach(target => {
+        target.openDeals++;
+        target.openValue += value;
+        target.weightedValue += weighted;
+      });
+    }
+
+    const flow = await this.stageFlow(companyDeals, and(...dealConditions), stageById);
+
+    const stageReport: DealForecastStage[] = stages.map(stage => {
+      const probability = probabilityByStage.get(stage.id)!;
+      const open = stageTotals.get(stage.id) || emptyTotals();
+      const stats = flow.get(stage.id);
+      const reached = stats?.reached || 0;
+      const advanced = stats?.advanced || 0;
+      return {
+        stageId: stage.id,
+        pipelineId: stage.pipelineId,
+        name: stage.name,
+        order: stage.order,
+        winProbability: probability.value,
+        probabilitySource: probability.source,
+        openDeals: open.openDeals,
+        openValue: open.openValue,
+        weightedValue: round(open.weightedValue),
+        reached,
+        advanced,
+        conversionRate: reached > 0 ? round(advanced / reached * 100) : null,
+        avgDaysInStage: stats && stats.stints > 0 ? round(stats.totalMs / stats.stints / DAY_MS) : null
+      };
+    });
+
+    const finish = <T extends DealForecastTotals>(entry: T): T => ({ ...entry, weightedValue: round(entry.weightedValue) });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      currency: currencySettings.baseCurrency,
+      missingRates: Array.from(missingRates).sort(),
+      filters: {
+        pipelineId: filters.pipelineId || null,
+        ownerId: filters.ownerId || null,
+        from: filters.from?.toISOString() || null,
+        to: filters.to?.toISOString() || null
+      },
+      totals: finish(totals),
+      stages: stageReport,
+      byMonth: Array.from(byMonth.values()).map(finish).sort((a, b) =>
+        a.key === NONE_KEY ? 1 : b.key === NONE_KEY ? -1 : a.key.localeCompare(b.key)),
+      byOwner: Array.from(byOwner.values()).map(finish).sort((a, b) => b.weightedValue - a.weightedValue),
+      byPipeline: Array.from(byPipeline.values()).map(finish).sort((a, b) => b.weightedValue - a.weightedValue)
+    };
+  }
+
+  /**
+   * Flatten a report into one CSV; stage rows fill the conversion and velocity columns
+   */
+  toCsv(report: DealForecastReport): string {
+    const header = [
+      'section', 'key', 'label', 'openDeals', 'openValue', 'weightedValue', 'wonDeals', 'wonValue', 'lostDeals',
+      'winProbability', 'reached', 'advanced', 'conversionRate', 'avgDaysInStage'
+    ];
+    const totalsRow = (section: string, key: string, label: string, entry: DealForecastTotals) => [
+      section, key, label, entry.openDeals, entry.openValue, entry.weightedValue, entry.wonDeals, entry.wonValue, entry.lostDeals
+    ];
+
+    const rows: unknown[][] = [
+      totalsRow('total', 'all', 'All deals', report.totals),
+      ...report.byMonth.map(entry => totalsRow('month', entry.key, entry.label, entry)),
+      ...report.byOwner.map(entry => totalsRow('owner', entry.key, entry.label, entry)),
+      ...report.byPipeline.map(entry => totalsRow('pipeline', entry.key, entry.label, entry)),
+      ...report.stages.map(stage => [
+        'stage', stage.stageId, stage.name, stage.openDeals, stage.openValue, stage.weightedValue, '', '', '',
+        stage.winProbability, stage.reached, stage.advanced, stage.conversionRate, stage.avgDaysInStage
+      ])
+    ];
+
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  /**
+   * Expected close date: the due date, or for closed deals the time they were last updated
+   */
+  private closeDate(deal: Deal): Date | null {
+    if (deal.dueDate) return new Date(deal.dueDate);
+    if (deal.stage === 'closed_won' || deal.stage === 'closed_lost') return new Date(deal.updatedAt);
+    return null;
+  }
+
+  /**
+   * Replay each deal's stage changes to count how many deals reached each stage, how many
+   * moved on to a later stage (or were won), and how long completed stays in a stage lasted
+   */
+  private async stageFlow(
+    companyDeals: Deal[],
+    dealScope: SQL | undefined,
+    stageById: Map<number, PipelineStage>
+  ): Promise<Map<number, { reached: number; advanced: number; totalMs: number; stints: number }>> {
+    const flow = new Map<number, { reached: number; advanced: number; totalMs: number; stints: number }>();
+    if (companyDeals.length === 0) return flow;
+
+    const changes = await db
+      .select({ dealId: dealActivities.dealId, metadata: dealActivities.metadata, createdAt: dealActivities.createdAt })
+      .from(dealActivities)
+      .where(and(
+        eq(dealActivities.type, 'stage_change'),
+        inArray(dealActivities.dealId, db.select({ id: deals.id }).from(deals).where(dealScope))
+      ))
+      .orderBy(asc(dealActivities.dealId), asc(dealActivities.createdAt), asc(dealActivities.id));
+
+    const changesByDeal = new Map<number, typeof changes>();
+    for (const change of changes) {
+      const list = changesByDeal.get(change.dealId) || [];
+      list.push(change);
+      changesByDeal.set(change.dealId, list);
+    }
+
+    const statsFor = (stageId: number) => {
+      let stats = flow.get(stageId);
+      if (!stats) {
+        stats = { reached: 0, advanced: 0, totalMs: 0, stints: 0 };
+        flow.set(stageId, stats);
+      }
+      return stats;
+    };
+
+    for (const deal of companyDeals) {
+      const dealChanges = changesByDeal.get(deal.id) || [];
+      const stints: StageStint[] = [];
+      const first = dealChanges[0]?.metadata as Record<string, unknown> | null | undefined;
+      const initialStageId = dealChanges.length > 0
+        ? stageIdFrom(first?.previousStageId ?? first?.oldStageId)
+        : deal.stageId;
+      if (initialStageId) stints.push({ stageId: initialStageId, enteredAt: new Date(deal.createdAt) });
+
+      for (const change of dealChanges) {
+        const metadata = change.metadata as Record<string, unknown> | null;
+        const stageId = stageIdFrom(metadata?.newStageId);
+        if (!stageId || stints[stints.length - 1]?.stageId === stageId) continue;
+        stints.push({ stageId, enteredAt: new Date(change.createdAt) });
+      }
+      if (deal.stageId && stints[stints.length - 1]?.stageId !== deal.stageId) {
+        stints.push({ stageId: deal.stageId, enteredAt: new Date(deal.updatedAt) });
+      }
+
+      const reached = new Set<number>();
+      const advanced = new Set<number>();
+      stints.forEach((stint, index) => {
+        const stage = stageById.get(stint.stageId);
+        if (!stage) return;
+        reached.add(stint.stageId);
+
+        const next = stints[index + 1];
+        if (next) {
+          const stats = statsFor(stint.stageId);
+          stats.totalMs += Math.max(0, next.enteredAt.getTime() - stint.enteredAt.getTime());
+          stats.stints++;
+        }
+
+        const movedForward = stints.slice(index + 1).some(later => {
+          const laterStage = stageById.get(later.stageId);
+          return !!laterStage && laterStage.pipelineId === stage.pipelineId && laterStage.order > stage.order;
+        });
+        if (movedForward || (deal.stage === 'closed_won' && stint.stageId !== deal.stageId)) {
+          advanced.add(stint.stageId);
+        }
+      });
+
+      reached.forEach(stageId => { statsFor(stageId).reached++; });
+      advanced.forEach(stageId => { statsFor(stageId).advanced++; });
+    }
+
+    return flow;
+  }
+}
+
+export const dealForecastService = new DealForecastService();
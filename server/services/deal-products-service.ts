@@ -0,0 +1,220 @@
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  dealLineItems,
+  deals,
+  products,
+  type Deal,
+  type DealCurrencySettings,
+  type DealLineItem,
+  type InsertProduct,
+  type Product
+} from '@shared/schema';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+
+export interface ProductInput {
+  name: string;
+  sku?: string | null;
+  description?: string | null;
+  unitPrice: number;
+  currency?: string | null;
+  taxRate: number;
+  isActive: boolean;
+}
+
+export interface DealLineItemInput {
+  productId?: number | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercent: number;
+  taxRate: number;
+}
+
+export interface DealLineItemTotals {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+}
+
+const SETTINGS_KEY = 'deal_currency_settings';
+const FALLBACK_CURRENCY = 'USD';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toProductRow = (data: ProductInput): Omit<InsertProduct, 'companyId'> => ({
+  name: data.name,
+  sku: data.sku || null,
+  description: data.description || null,
+  unitPrice: String(data.unitPrice),
+  currency: data.currency || null,
+  taxRate: String(data.taxRate),
+  isActive: data.isActive
+});
+
+/**
+ * Deal Products Service
+ * Product catalog, deal line items and conversion of deal values into the company base
+ * currency. When a deal has line items, its value is kept equal to their total.
+ */
+export class DealProductsService {
+  async getProducts(companyId: number, includeInactive = false): Promise<Product[]> {
+    const conditions = [eq(products.companyId, companyId)];
+    if (!includeInactive) conditions.push(eq(products.isActive, true));
+    return db.select().from(products).where(and(...conditions)).orderBy(asc(products.name));
+  }
+
+  async getProduct(id: number): Promise<Product | null> {
+    const [product] = await db.select().from(products).where(eq(products.id, id));
+    return product || null;
+  }
+
+  async createProduct(companyId: number, data: ProductInput): Promise<Product> {
+    const [product] = await db
+      .insert(products)
+      .values({ ...toProductRow(data), companyId })
+      .returning();
+    return product;
+  }
+
+  async updateProduct(id: number, data: ProductInput): Promise<Product> {
+    const [product] = await db
+      .update(products)
+      .set({ ...toProductRow(data), updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning();
+    return product;
+  }
+
+  /**
+   * Line items that used the product keep their own name and prices
+   */
+  async deleteProduct(id: number): Promise<void> {
+    await db.delete(products).where(eq(products.id, id));
+  }
+
+  /**
+   * Base currency defaults to the platform default currency
+   */
+  async getCurrencySettings(companyId: number): Promise<DealCurrencySettings> {
+    const setting = await storage.getCompanySetting(companyId, SETTINGS_KEY);
+    const saved = (setting?.value || {}) as Partial<DealCurrencySettings>;
+    let baseCurrency = saved.baseCurrency;
+    if (!baseCurrency) {
+      const generalSettings = await storage.getAppSetting('general_settings');
+      baseCurrency = (generalSettings?.value as any)?.defaultCurrency || FALLBACK_CURRENCY;
+    }
+    return { baseCurrency: baseCurrency!, rates: saved.rates || {} };
+  }
+
+  async saveCurrencySettings(companyId: number, settings: DealCurrencySettings): Promise<DealCurrencySettings> {
+    const rates = Object.fromEntries(
+      Object.entries(settings.rates).filter(([currency]) => currency !== settings.baseCurrency)
+    );
+    const saved = { baseCurrency: settings.baseCurrency, rates };
+    await storage.saveCompanySetting(companyId, SETTINGS_KEY, saved);
+    return saved;
+  }
+
+  /**
+   * Amount in the base currency, or null when there is no rate for the currency
+   */
+  toBase(amount: number, currency: string | null | undefined, settings: DealCurrencySettings): number | null {
+    if (!currency || currency === settings.baseCurrency) return amount;
+    const rate = settings.rates[currency];
+    return rate ? round(amount * rate) : null;
+  }
+
+  lineTotal(item: Pick<DealLineItemInput, 'quantity' | 'unitPrice' | 'discountPercent' | 'taxRate'>): DealLineItemTotals {
+    const subtotal = item.quantity * item.unitPrice;
+    const discount = subtotal * item.discountPercent / 100;
+    const tax = (subtotal - discount) * item.taxRate / 100;
+    return {
+      subtotal: round(subtotal),
+      discount: round(discount),
+      tax: round(tax),
+      total: round(subtotal - discount + tax)
+    };
+  }
+
+  summarize(items: DealLineItem[]): DealLineItemTotals {
+    return items.reduce<DealLineItemTotals>((totals, item) => {
+      const line = this.lineTotal({
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+        discountPercent: Number(item.discountPercent),
+        taxRate: Number(item.taxRate)
+      });
+      return {
+        subtotal: round(totals.subtotal + line.subtotal),
+        discount: round(totals.discount + line.discount),
+        tax: round(totals.tax + line.tax),
+        total: round(totals.total + line.total)
+      };
+    }, { subtotal: 0, discount: 0, tax: 0, total: 0 });
+  }
+
+  async getLineItems(dealId: number): Promise<DealLineItem[]> {
+    return db
+      .select()
+      .from(dealLineItems)
+      .where(eq(dealLineItems.dealId, dealId))
+      .orderBy(asc(dealLineItems.position), asc(dealLineItems.id));
+  }
+
+  /**
+   * Replace a deal's line items and, when there are any, set the deal value to their total
+   */
+  async replaceLineItems(deal: Deal, items: DealLineItemInput[]): Promise<{ deal: Deal; items: DealLineItem[]; totals: DealLineItemTotals }> {
+    return db.transaction(async (tx) => {
+      await tx.delete(dealLineItems).where(eq(dealLineItems.dealId, deal.id));
+
+      const saved = items.length === 0 ? [] : await tx
+        .insert(dealLineItems)
+        .values(items.map((item, index) => ({
+          dealId: deal.id,
+          productId: item.productId || null,
+          name: item.name,
+          quantity: String(item.quantity),
+          unitPrice: String(item.unitPrice),
+          discountPercent: String(item.discountPercent),
+          taxRate: String(item.taxRate),
+          total: String(this.lineTotal(item).total),
+          position: index
+        })))
+        .returning();
+
+      const totals = this.summarize(saved);
+      let updatedDeal = deal;
+      if (saved.length > 0) {
+        [updatedDeal] = await tx
+          .update(deals)
+          .set({ value: Math.round(totals.total), updatedAt: new Date(), lastActivityAt: new Date() })
+          .where(eq(deals.id, deal.id))
+          .returning();
+      }
+
+      return { deal: updatedDeal, items: saved, totals };
+    });
+  }
+
+  /**
+   * Line item count and total per deal, for exports
+   */
+  async getLineItemSummaries(dealIds: number[]): Promise<Map<number, { count: number; total: number }>> {
+    if (dealIds.length === 0) return new Map();
+    const rows = await db
+      .select({
+        dealId: dealLineItems.dealId,
+        count: sql<number>`count(*)::int`,
+        total: sql<string>`coalesce(sum(${dealLineItems.total}), 0)`
+      })
+      .from(dealLineItems)
+      .where(inArray(dealLineItems.dealId, dealIds))
+      .groupBy(dealLineItems.dealId);
+    return new Map(rows.map(row => [row.dealId, { count: Number(row.count), total: Number(row.total) }]));
+  }
+}
+
+export const dealProductsService = new DealProductsService();
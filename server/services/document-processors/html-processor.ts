@@ -0,0 +1,102 @@
+/**
+ * HTML to structured text conversion
+ * Keeps headings as Markdown headings and list items as "- " lines so the chunker can
+ * split the result by section. Navigation, headers, footers, scripts and styles are dropped.
+ */
+
+const REMOVED_ELEMENTS = ['script', 'style', 'noscript', 'svg', 'template', 'iframe', 'nav', 'footer', 'aside', 'form'];
+const BLOCK_ELEMENTS = 'p|div|section|article|main|header|ul|ol|dl|dt|dd|table|thead|tbody|blockquote|pre|figure|figcaption';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”'
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Convert an HTML page to Markdown-like text and return it with the page title
+ */
+export function htmlToText(html: string): { title: string | null; text: string } {
+  const titleMatch = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  let body = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<head[\s\S]*?<\/head>/i, '');
+
+  for (const element of REMOVED_ELEMENTS) {
+    body = body.replace(new RegExp(`<${element}\\b[\\s\\S]*?<\\/${element}>`, 'gi'), '');
+  }
+
+  const main = /<main\b[^>]*>([\s\S]*?)<\/main>/i.exec(body) || /<article\b[^>]*>([\s\S]*?)<\/article>/i.exec(body);
+  if (main) {
+    body = main[1];
+  }
+
+  const h1Match = /<h1[^>]*>([\s\S]*?)<\/h1>/i.exec(body);
+
+  const text = decodeHtmlEntities(
+    body
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, inner: string) =>
+        `\n\n${'#'.repeat(parseInt(level))} ${stripTags(inner)}\n\n`)
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/t[dh]>/gi, ' | ')
+      .replace(/<\/tr>/gi, '\n')
+      .replace(new RegExp(`<\\/?(?:${BLOCK_ELEMENTS})\\b[^>]*>`, 'gi'), '\n\n')
+      .replace(/<[^>]*>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').replace(/\s*\|\s*$/, '').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const title = titleMatch ? stripTags(titleMatch[1]) : h1Match ? stripTags(h1Match[1]) : '';
+
+  return { title: title || null, text };
+}
+
+/**
+ * Extract absolute http(s) link targets from an HTML page, without fragments
+ */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const links = new Set<string>();
+
+  for (const match of html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"']+)["']/gi)) {
+    try {
+      const url = new URL(decodeHtmlEntities(match[1]), baseUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        url.hash = '';
+        links.add(url.toString());
+      }
+    } catch {
+      // Ignore malformed links
+    }
+  }
+
+  return Array.from(links);
+}
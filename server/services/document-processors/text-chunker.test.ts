@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { chunkDocumentText, estimateTokens } from './text-chunker';
+
+// 10 words, 44 characters = 11 tokens
+const sentence = (n: number) => `Sentence ${String(n).padStart(2, '0')} has a few words in it for tests.`;
+const paragraph = (from: number, count: number) =>
+  Array.from({ length: count }, (_, i) => sentence(from + i)).join(' ');
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('chunkDocumentText', () => {
+  it('returns no chunks for empty text', () => {
+    expect(chunkDocumentText('', { targetTokens: 100, overlapTokens: 0 })).toEqual([]);
+    expect(chunkDocumentText('\n\n  \n', { targetTokens: 100, overlapTokens: 0 })).toEqual([]);
+  });
+
+  it('keeps a short document in one chunk with its source positions', () => {
+    const text = 'First paragraph.\n\nSecond paragraph.';
+    const [chunk, ...rest] = chunkDocumentText(text, { targetTokens: 100, overlapTokens: 10 });
+
+    expect(rest).toEqual([]);
+    expect(chunk).toEqual({
+      content: 'First paragraph.\n\nSecond paragraph.',
+      section: null,
+      index: 0,
+      startPosition: 0,
+      endPosition: text.length,
+      tokenCount: estimateTokens(chunk.content)
+    });
+  });
+
+  it('prefixes chunks with their heading path', () => {
+    const text = '# Guide\n\nIntro text.\n\n## Install\n\nRun the installer.';
+    const chunks = chunkDocumentText(text, { targetTokens: 100, overlapTokens: 0 });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].section).toBe('Guide');
+    expect(chunks[0].content).toBe('Guide\n\nIntro text.\n\n## Install\n\nRun the installer.');
+  });
+
+  it('starts a new chunk at a heading once the current one is a quarter full', () => {
+    const text = `# Guide\n\n## Install\n\n${paragraph(1, 2)}\n\n## Configure\n\n${paragraph(3, 1)}`;
+    const chunks = chunkDocumentText(text, { targetTokens: 60, overlapTokens: 20 });
+
+    expect(chunks.map(chunk => chunk.section)).toEqual(['Guide > Install', 'Guide > Configure']);
+    expect(chunks[1].content).toBe(`Guide > Configure\n\n${sentence(3)}`);
+    expect(text.slice(chunks[1].startPosition, chunks[1].endPosition)).toBe(sentence(3));
+  });
+
+  it('repeats the tail of the previous chunk within a section', () => {
+    const text = [1, 4, 7, 10].map(from => paragraph(from, 3)).join('\n\n');
+    const chunks = chunkDocumentText(text, { targetTokens: 100, overlapTokens: 10 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.slice(1).forEach((chunk, i) => {
+      const previousWords = chunks[i].content.split(/\s+/);
+      const words = chunk.content.split(/\s+/);
+      const overlapLength = words.findIndex(word => word === 'Sentence');
+      const overlap = words.slice(0, overlapLength).join(' ');
+
+      expect(overlapLength).toBeGreaterThan(0);
+      expect(previousWords.slice(-overlapLength).join(' ')).toBe(overlap);
+      expect(estimateTokens(overlap)).toBeLessThanOrEqual(10);
+    });
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_, i) => i));
+  });
+
+  it('splits oversized paragraphs at sentence boundaries', () => {
+    const text = paragraph(1, 20);
+    const chunks = chunkDocumentText(text, { targetTokens: 50, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(50);
+      expect(chunk.content).toMatch(/^Sentence \d+ .*tests\.$/);
+    });
+    expect(chunks.map(chunk => chunk.content).join(' ')).toBe(text);
+  });
+
+  it('splits sentences longer than a chunk at word boundaries', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkDocumentText(text, { targetTokens: 50, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(50);
+      expect(chunk.content).toMatch(/^word\d+( word\d+)*$/);
+    });
+    expect(chunks.map(chunk => chunk.content).join(' ')).toBe(text);
+  });
+
+  it('uses at least 50 tokens per chunk and at most half of it as overlap', () => {
+    const text = paragraph(1, 8);
+    const tiny = chunkDocumentText(text, { targetTokens: 1, overlapTokens: 1000 });
+
+    expect(tiny.length).toBeGreaterThan(1);
+    tiny.forEach(chunk => expect(chunk.tokenCount).toBeLessThanOrEqual(50 + 25 + 1));
+  });
+});
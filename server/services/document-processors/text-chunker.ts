@@ -0,0 +1,215 @@
+/**
+ * Structure-aware text chunker
+ * Splits extracted document text at Markdown headings and paragraphs, packs the pieces
+ * into chunks of a target token size and repeats the tail of the previous chunk as overlap.
+ * Every chunk starts with the heading path it belongs to so it can be retrieved on its own.
+ */
+
+export interface TextChunk {
+  content: string;
+  section: string | null; // heading path of the chunk's first paragraph
+  index: number;
+  startPosition: number;
+  endPosition: number;
+  tokenCount: number;
+}
+
+export interface ChunkOptions {
+  targetTokens: number;
+  overlapTokens: number;
+}
+
+interface TextPiece {
+  text: string;
+  start: number;
+  end: number;
+  section: string;
+  heading: string | null; // heading line when the piece opens a new section
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*$/;
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)/g;
+
+/**
+ * Estimate token count (rough approximation)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split text into heading/paragraph pieces no larger than maxTokens
+ */
+function splitIntoPieces(text: string, maxTokens: number): TextPiece[] {
+  const pieces: TextPiece[] = [];
+  const headings: string[] = [];
+  let pendingHeading: string | null = null;
+  let paragraph: string[] = [];
+  let paragraphStart = 0;
+  let paragraphEnd = 0;
+  let offset = 0;
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+
+    const block: TextPiece = {
+      text: paragraph.join('\n').trim(),
+      start: paragraphStart,
+      end: paragraphEnd,
+      section: headings.filter(Boolean).join(' > '),
+      heading: pendingHeading
+    };
+    pieces.push(...splitOversizedPiece(block, maxTokens));
+    pendingHeading = null;
+    paragraph = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    const heading = HEADING_PATTERN.exec(line.trim());
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = level - 1;
+      headings[level - 1] = heading[2];
+      pendingHeading = line.trim();
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flush();
+      continue;
+    }
+
+    if (paragraph.length === 0) {
+      paragraphStart = lineStart;
+    }
+    paragraph.push(line);
+    paragraphEnd = lineStart + line.length;
+  }
+  flush();
+
+  return pieces;
+}
+
+/**
+ * Split a paragraph that exceeds maxTokens at sentence boundaries, and sentences
+ * that still exceed it at word boundaries
+ */
+function splitOversizedPiece(piece: TextPiece, maxTokens: number): TextPiece[] {
+  if (estimateTokens(piece.text) <= maxTokens) {
+    return [piece];
+  }
+
+  const maxChars = maxTokens * 4;
+  const sentences: { text: string; start: number }[] = [];
+  for (const match of piece.text.matchAll(SENTENCE_PATTERN)) {
+    const sentence = match[0];
+    if (!sentence.trim()) continue;
+
+    let start = match.index!;
+    let rest = sentence;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(' ', maxChars) > 0 ? rest.lastIndexOf(' ', maxChars) : maxChars;
+      sentences.push({ text: rest.slice(0, cut), start });
+      start += cut;
+      rest = rest.slice(cut);
+    }
+    sentences.push({ text: rest, start });
+  }
+
+  const result: TextPiece[] = [];
+  let current = '';
+  let currentStart = 0;
+  for (const sentence of sentences) {
+    if (current && estimateTokens(current + sentence.text) > maxTokens) {
+      result.push({ ...piece, text: current.trim(), start: piece.start + currentStart, end: piece.start + sentence.start, heading: result.length === 0 ? piece.heading : null });
+      current = '';
+    }
+    if (!current) {
+      currentStart = sentence.start;
+    }
+    current += sentence.text;
+  }
+  if (current.trim()) {
+    result.push({ ...piece, text: current.trim(), start: piece.start + currentStart, end: piece.end, heading: result.length === 0 ? piece.heading : null });
+  }
+
+  return result;
+}
+
+/**
+ * Take the last words of a chunk, up to maxTokens, to repeat at the start of the next one
+ */
+function getOverlapText(text: string, maxTokens: number): string {
+  if (maxTokens <= 0) return '';
+
+  const words = text.split(/\s+/);
+  let overlap = '';
+  for (let i = words.length - 1; i >= 0; i--) {
+    const candidate = overlap ? `${words[i]} ${overlap}` : words[i];
+    if (estimateTokens(candidate) > maxTokens) break;
+    overlap = candidate;
+  }
+  return overlap;
+}
+
+/**
+ * Split text into chunks of about options.targetTokens tokens.
+ * A new section starts a new chunk once the current one is a quarter full; overlap is
+ * only carried over between chunks of the same section.
+ */
+export function chunkDocumentText(text: string, options: ChunkOptions): TextChunk[] {
+  const targetTokens = Math.max(50, options.targetTokens);
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens), Math.floor(targetTokens / 2));
+  const pieces = splitIntoPieces(text, targetTokens);
+  const chunks: TextChunk[] = [];
+
+  let current: TextPiece[] = [];
+  let overlap = '';
+  let tokens = 0;
+
+  const emit = () => {
+    const body = current
+      .map((piece, i) => (i > 0 && piece.heading ? `${piece.heading}\n\n${piece.text}` : piece.text))
+      .join('\n\n');
+    const content = [current[0].section, overlap, body].filter(Boolean).join('\n\n');
+
+    chunks.push({
+      content,
+      section: current[0].section || null,
+      index: chunks.length,
+      startPosition: current[0].start,
+      endPosition: current[current.length - 1].end,
+      tokenCount: estimateTokens(content)
+    });
+    return body;
+  };
+
+  for (const piece of pieces) {
+    const pieceTokens = estimateTokens(piece.text);
+
+    if (current.length > 0) {
+      const sectionBreak = piece.heading !== null && tokens >= targetTokens / 4;
+
+      if (sectionBreak || tokens + pieceTokens > targetTokens) {
+        const body = emit();
+        const sameSection = !sectionBreak && piece.section === current[current.length - 1].section;
+        overlap = sameSection ? getOverlapText(body, overlapTokens) : '';
+        current = [];
+        tokens = estimateTokens(overlap);
+      }
+    }
+
+    current.push(piece);
+    tokens += pieceTokens;
+  }
+
+  if (current.length > 0) {
+    emit();
+  }
+
+  return chunks;
+}
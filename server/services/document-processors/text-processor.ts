@@ -1,5 +1,8 @@
 import * as fs from 'fs/promises';
+import * as path from 'path';
 import { createRequire } from 'module';
+import * as XLSX from 'xlsx';
+import { htmlToText } from './html-processor';
 
 const require = createRequire(import.meta.url);
 
@@ -22,6 +25,31 @@ try {
 } catch (error) {
 }
 
+const SPREADSHEET_MIME_TYPES = [
+  'text/csv',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+/**
+ * MIME types for file extensions browsers often upload as application/octet-stream
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.csv': 'text/csv',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.json': 'application/json'
+};
+
+const FAQ_LIST_KEYS = ['faqs', 'faq', 'questions', 'items', 'data'];
+const FAQ_QUESTION_KEYS = ['question', 'q', 'title'];
+const FAQ_ANSWER_KEYS = ['answer', 'a', 'content', 'body'];
+
 /**
  * Enhanced document processor with alternative libraries
  * Supports multiple document formats with graceful fallbacks
@@ -45,6 +73,21 @@ export class TextDocumentProcessor {
       case 'application/msword':
         return this.extractTextFromDoc(filePath);
 
+      case 'text/markdown':
+      case 'text/x-markdown':
+        return this.extractTextFromPlainText(filePath);
+
+      case 'text/html':
+        return this.extractTextFromHtml(filePath);
+
+      case 'text/csv':
+      case 'application/vnd.ms-excel':
+      case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+        return this.extractTextFromSpreadsheet(filePath);
+
+      case 'application/json':
+        return this.extractTextFromFaqJson(filePath);
+
       default:
         throw new Error(`Unsupported file type: ${mimeType}`);
     }
@@ -67,6 +110,110 @@ export class TextDocumentProcessor {
     }
   }
 
+  /**
+   * Collapse whitespace while keeping blank lines between paragraphs, so the chunker can split on them
+   */
+  private static normalizeParagraphs(text: string): string {
+    return text
+      .replace(/\r\n/g, '\n')
+      .replace(/\r/g, '\n')
+      .split('\n')
+      .map(line => line.replace(/[ \t]+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Extract text from HTML files, keeping headings and lists
+   */
+  private static async extractTextFromHtml(filePath: string): Promise<string> {
+    try {
+      const html = await fs.readFile(filePath, 'utf-8');
+      const { title, text } = htmlToText(html);
+
+      return title && !text.startsWith('# ') ? `# ${title}\n\n${text}` : text;
+
+    } catch (error) {
+      throw new Error(`Failed to extract text from HTML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Extract text from CSV and Excel files.
+   * Each sheet becomes a section and each row a paragraph of "Column: value" lines.
+   */
+  private static async extractTextFromSpreadsheet(filePath: string): Promise<string> {
+    try {
+      const buffer = await fs.readFile(filePath);
+      const workbook = XLSX.read(buffer, { type: 'buffer' });
+      const sections: string[] = [];
+
+      for (const sheetName of workbook.SheetNames) {
+        const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, defval: '', raw: false });
+        if (rows.length < 2) continue;
+
+        const headers = rows[0].map((header, index) => String(header).trim() || `Column ${index + 1}`);
+        const paragraphs = rows.slice(1)
+          .map(row => headers
+            .map((header, index) => {
+              const value = String(row[index] ?? '').trim();
+              return value ? `${header}: ${value}` : '';
+            })
+            .filter(Boolean)
+            .join('\n'))
+          .filter(Boolean);
+
+        if (paragraphs.length > 0) {
+          sections.push(workbook.SheetNames.length > 1 ? `# ${sheetName}\n\n${paragraphs.join('\n\n')}` : paragraphs.join('\n\n'));
+        }
+      }
+
+      if (sections.length === 0) {
+        throw new Error('Spreadsheet has no data rows');
+      }
+
+      return sections.join('\n\n');
+
+    } catch (error) {
+      throw new Error(`Failed to extract text from spreadsheet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Extract question/answer pairs from a JSON FAQ file.
+   * Accepts an array of entries, or an object holding one under faqs, faq, questions, items or data.
+   */
+  private static async extractTextFromFaqJson(filePath: string): Promise<string> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read JSON file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const record = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+    const entries = Array.isArray(parsed)
+      ? parsed
+      : FAQ_LIST_KEYS.map(key => record?.[key]).find(Array.isArray);
+
+    const pick = (entry: Record<string, unknown>, keys: string[]) => {
+      const key = keys.find(candidate => typeof entry[candidate] === 'string' && (entry[candidate] as string).trim());
+      return key ? (entry[key] as string).trim() : null;
+    };
+
+    const faqs = (entries || [])
+      .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+      .map(entry => ({ question: pick(entry, FAQ_QUESTION_KEYS), answer: pick(entry, FAQ_ANSWER_KEYS) }))
+      .filter(faq => faq.question && faq.answer);
+
+    if (faqs.length === 0) {
+      throw new Error('JSON files must contain a list of FAQ entries with "question" and "answer" fields');
+    }
+
+    return faqs.map(faq => `## ${faq.question}\n\n${faq.answer}`).join('\n\n');
+  }
+
   /**
    * Extract text from PDF files using pdf-parse
    */
@@ -104,11 +251,7 @@ export class TextDocumentProcessor {
     try {
       const result = await mammoth.extractRawText({ path: filePath });
 
-      return result.value
-        .replace(/\r\n/g, '\n')
-        .replace(/\r/g, '\n')
-        .replace(/\s+/g, ' ')
-        .trim();
+      return this.normalizeParagraphs(result.value);
 
     } catch (error) {
       if (pdfjsDist) {
@@ -282,7 +425,12 @@ export class TextDocumentProcessor {
     const supported = [
       'text/plain',
       'text/txt',
-      'application/octet-stream'
+      'application/octet-stream',
+      'text/markdown',
+      'text/x-markdown',
+      'text/html',
+      'application/json',
+      ...SPREADSHEET_MIME_TYPES
     ];
 
     if (pdfParse || pdfjsDist) {
@@ -297,6 +445,17 @@ export class TextDocumentProcessor {
     return supported;
   }
 
+  /**
+   * Resolve the MIME type of an upload from its extension when the browser sent a generic one
+   */
+  static resolveMimeType(mimeType: string, filename: string): string {
+    if (mimeType && mimeType !== 'application/octet-stream' && mimeType !== 'text/plain') {
+      return mimeType;
+    }
+
+    return EXTENSION_MIME_TYPES[path.extname(filename).toLowerCase()] || mimeType;
+  }
+
   /**
    * Estimate processing time based on file size and type
    */
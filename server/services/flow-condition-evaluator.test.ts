@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { FlowConditionBranch, FlowConditionGroup, FlowConditionRule } from '@shared/schema';
+import { FlowExecutionContext } from './flow-execution-context';
+import {
+  DEFAULT_BRANCH_HANDLE,
+  branchHandleId,
+  evaluateConditionGroup,
+  selectConditionBranch
+} from './flow-condition-evaluator';
+
+let ruleId = 0;
+const rule = (variable: string, operator: FlowConditionRule['operator'], value?: string, extra: Partial<FlowConditionRule> = {}): FlowConditionRule => ({
+  type: 'rule',
+  id: `rule-${++ruleId}`,
+  variable,
+  operator,
+  value,
+  ...extra
+});
+
+const group = (rules: FlowConditionGroup['rules'], combinator: 'and' | 'or' = 'and'): FlowConditionGroup => ({
+  type: 'group',
+  id: `group-${++ruleId}`,
+  combinator,
+  rules
+});
+
+const context = (variables: Record<string, unknown> = {}) => new FlowExecutionContext(variables);
+
+const matches = (condition: FlowConditionRule, variables: Record<string, unknown> = {}, now?: Date) =>
+  evaluateConditionGroup(group([condition]), context(variables), { timezone: 'UTC', now });
+
+describe('evaluateConditionGroup', () => {
+  it('compares text case-insensitively unless asked not to', () => {
+    expect(matches(rule('message.content', 'equals', 'HELLO'), { 'message.content': 'hello' })).toBe(true);
+    expect(matches(rule('message.content', 'equals', 'HELLO', { caseSensitive: true }), { 'message.content': 'hello' })).toBe(false);
+    expect(matches(rule('message.content', 'not_equals', 'bye'), { 'message.content': 'hello' })).toBe(true);
+  });
+
+  it('compares numbers numerically', () => {
+    expect(matches(rule('order.total', 'equals', '10'), { 'order.total': '10.0' })).toBe(true);
+    expect(matches(rule('order.total', 'gt', '9'), { 'order.total': 10 })).toBe(true);
+    expect(matches(rule('order.total', 'lte', '9'), { 'order.total': 10 })).toBe(false);
+    expect(matches(rule('order.total', 'gt', '9'), { 'order.total': 'ten' })).toBe(false);
+  });
+
+  it('handles text operators', () => {
+    const variables = { 'contact.email': 'Ada@Example.com' };
+    expect(matches(rule('contact.email', 'contains', 'example'), variables)).toBe(true);
+    expect(matches(rule('contact.email', 'not_contains', 'example'), variables)).toBe(false);
+    expect(matches(rule('contact.email', 'starts_with', 'ada'), variables)).toBe(true);
+    expect(matches(rule('contact.email', 'ends_with', '.org'), variables)).toBe(false);
+  });
+
+  it('checks array membership for contains and list operators', () => {
+    const variables = { 'contact.tags': ['VIP', 'lead'] };
+    expect(matches(rule('contact.tags', 'contains', 'vip'), variables)).toBe(true);
+    expect(matches(rule('contact.tags', 'contains', 'vi'), variables)).toBe(false);
+    expect(matches(rule('contact.tags', 'in_list', 'customer, lead'), variables)).toBe(true);
+    expect(matches(rule('contact.tags', 'not_in_list', 'customer, partner'), variables)).toBe(true);
+  });
+
+  it('tests regular expressions and ignores invalid ones', () => {
+    const variables = { 'message.content': 'Order #12345' };
+    expect(matches(rule('message.content', 'matches_regex', '#\\d{5}'), variables)).toBe(true);
+    expect(matches(rule('message.content', 'matches_regex', '/order/'), variables)).toBe(false);
+    expect(matches(rule('message.content', 'matches_regex', '/order/i'), variables)).toBe(true);
+    expect(matches(rule('message.content', 'matches_regex', '(unclosed'), variables)).toBe(false);
+  });
+
+  it('checks whether variables are set', () => {
+    expect(matches(rule('contact.name', 'is_set'), { 'contact.name': 'Ada' })).toBe(true);
+    expect(matches(rule('contact.name', 'is_not_set'), { 'contact.name': '' })).toBe(true);
+    expect(matches(rule('contact.tags', 'is_not_set'), { 'contact.tags': [] })).toBe(true);
+  });
+
+  it('resolves JSON paths and {{variables}} in values', () => {
+    const variables = {
+      'http.response': JSON.stringify({ data: { items: [{ status: 'shipped' }] } }),
+      'expected.status': 'shipped'
+    };
+    expect(matches(rule('http.response.data.items[0].status', 'equals', '{{expected.status}}'), variables)).toBe(true);
+    expect(matches(rule('{{http.response.data.items[1].status}}', 'is_not_set'), variables)).toBe(true);
+  });
+
+  it('compares time variables, including windows across midnight', () => {
+    const late = new Date('2026-03-02T23:30:00Z');
+    const noon = new Date('2026-03-02T12:00:00Z');
+    const overnight = rule('time.hhmm', 'between', '22:00', { valueTo: '06:00' });
+    expect(matches(overnight, {}, late)).toBe(true);
+    expect(matches(overnight, {}, noon)).toBe(false);
+    expect(matches(rule('time.weekday', 'equals', 'monday'), {}, noon)).toBe(true);
+    expect(matches(rule('time.hour', 'gte', '12'), {}, noon)).toBe(true);
+  });
+
+  it('uses the requested timezone for time variables', () => {
+    const now = new Date('2026-03-02T12:00:00Z');
+    expect(evaluateConditionGroup(group([rule('time.hhmm', 'equals', '21:00')]), context(), { timezone: 'Asia/Tokyo', now })).toBe(true);
+  });
+
+  it('compares dates', () => {
+    const variables = { 'deal.closedAt': '2026-01-15T10:00:00Z' };
+    expect(matches(rule('deal.closedAt', 'date_before', '2026-02-01'), variables)).toBe(true);
+    expect(matches(rule('deal.closedAt', 'date_after', '2026-02-01'), variables)).toBe(false);
+    expect(matches(rule('deal.closedAt', 'within_last_days', '7'), { 'deal.closedAt': new Date(Date.now() - 2 * 86400000).toISOString() })).toBe(true);
+    expect(matches(rule('deal.closedAt', 'within_last_days', '7'), variables)).toBe(false);
+  });
+
+  it('combines rules with and/or and nested groups', () => {
+    const variables = { 'contact.country': 'DE', 'order.total': 150 };
+    const vipInEurope = group([
+      rule('order.total', 'gt', '100'),
+      group([rule('contact.country', 'equals', 'FR'), rule('contact.country', 'equals', 'DE')], 'or')
+    ]);
+    expect(evaluateConditionGroup(vipInEurope, context(variables))).toBe(true);
+    expect(evaluateConditionGroup(vipInEurope, context({ ...variables, 'order.total': 50 }))).toBe(false);
+  });
+
+  it('never matches empty groups or rules without a variable', () => {
+    expect(evaluateConditionGroup(group([]), context())).toBe(false);
+    expect(matches(rule('', 'is_not_set'))).toBe(false);
+  });
+});
+
+describe('selectConditionBranch', () => {
+  const branches: FlowConditionBranch[] = [
+    { id: 'urgent', name: 'Urgent', conditions: group([rule('message.content', 'contains', 'urgent')]) },
+    { id: 'question', name: 'Question', conditions: group([rule('message.content', 'ends_with', '?')]) }
+  ];
+
+  it('takes the first matching branch', () => {
+    const result = selectConditionBranch(branches, context({ 'message.content': 'Urgent: can you help?' }));
+    expect(result.handle).toBe(branchHandleId('urgent'));
+    expect(result.branch?.id).toBe('urgent');
+  });
+
+  it('falls back to the default handle', () => {
+    expect(selectConditionBranch(branches, context({ 'message.content': 'Thanks' }))).toEqual({
+      handle: DEFAULT_BRANCH_HANDLE,
+      branch: null
+    });
+  });
+});
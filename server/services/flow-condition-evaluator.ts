@@ -0,0 +1,258 @@
+import type {
+  FlowConditionBranch,
+  FlowConditionGroup,
+  FlowConditionRule
+} from '@shared/schema';
+import type { FlowExecutionContext } from './flow-execution-context';
+
+export const DEFAULT_BRANCH_HANDLE = 'default';
+
+const MAX_GROUP_DEPTH = 5;
+const MAX_REGEX_LENGTH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const branchHandleId = (branchId: string) => `branch-${branchId}`;
+
+interface EvaluationOptions {
+  /** IANA time zone for the `time.*` variables, defaults to the server's */
+  timezone?: string;
+  now?: Date;
+}
+
+/**
+ * Time-of-day variables computed at evaluation time: `time.hour`, `time.minute`,
+ * `time.hhmm` ("14:05"), `time.weekday` ("monday") and `time.weekdayNumber` (0 = Sunday).
+ */
+const getTimeVariables = ({ timezone, now = new Date() }: EvaluationOptions): Record<string, string | number> => {
+  let parts: Record<string, string> = {};
+  try {
+    parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || undefined,
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'long',
+      hourCycle: 'h23'
+    }).formatToParts(now).map(part => [part.type, part.value]));
+  } catch {
+    return getTimeVariables({ now });
+  }
+
+  const hour = parseInt(parts.hour, 10) % 24;
+  const minute = parseInt(parts.minute, 10);
+  const weekday = (parts.weekday || '').toLowerCase();
+
+  return {
+    'time.hour': hour,
+    'time.minute': minute,
+    'time.hhmm': `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`,
+    'time.weekday': weekday,
+    'time.weekdayNumber': WEEKDAYS.indexOf(weekday)
+  };
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const HHMM_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Comparable number for ordering operators: plain numbers, or minutes since midnight for HH:MM
+ */
+const toComparable = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : null;
+  }
+  const text = toText(value).trim();
+  const time = text.match(HHMM_PATTERN);
+  if (time) {
+    return parseInt(time[1], 10) * 60 + parseInt(time[2], 10);
+  }
+  if (text === '' || isNaN(Number(text))) {
+    return null;
+  }
+  return Number(text);
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (isEmpty(value)) {
+    return null;
+  }
+  const date = typeof value === 'number' ? new Date(value) : new Date(toText(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toList = (value: string) => value.split(/[,\n]/).map(item => item.trim()).filter(item => item.length > 0);
+
+const testRegex = (pattern: string, text: string): boolean => {
+  if (!pattern || pattern.length > MAX_REGEX_LENGTH) {
+    return false;
+  }
+  try {
+    const literal = pattern.match(/^\/(.*)\/([gimsuy]*)$/);
+    const regex = literal ? new RegExp(literal[1], literal[2].replace('g', '')) : new RegExp(pattern, 'i');
+    return regex.test(text);
+  } catch {
+    return false;
+  }
+};
+
+const evaluateRule = (
+  rule: FlowConditionRule,
+  context: FlowExecutionContext,
+  timeVariables: Record<string, string | number>
+): boolean => {
+  const variable = (rule.variable || '').replace(/^{{|}}$/g, '').trim();
+  if (!variable) {
+    return false;
+  }
+
+  const actual = variable in timeVariables ? timeVariables[variable] : context.resolveVariablePath(variable);
+  const expected = context.replaceVariables(rule.value ?? '');
+  const fold = (text: string) => rule.caseSensitive ? text : text.toLowerCase();
+  const actualText = fold(toText(actual));
+  const expectedText = fold(expected);
+
+  switch (rule.operator) {
+    case 'is_set':
+      return !isEmpty(actual);
+    case 'is_not_set':
+      return isEmpty(actual);
+    case 'equals': {
+      const actualNumber = toComparable(actual);
+      const expectedNumber = toComparable(expected);
+      if (actualNumber !== null && expectedNumber !== null) {
+        return actualNumber === expectedNumber;
+      }
+      return actualText === expectedText;
+    }
+    case 'not_equals':
+      return !evaluateRule({ ...rule, operator: 'equals' }, context, timeVariables);
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(item => fold(toText(item)) === expectedText)
+        : actualText.includes(expectedText);
+    case 'not_contains':
+      return !evaluateRule({ ...rule, operator: 'contains' }, context, timeVariables);
+    case 'starts_with':
+      return actualText.startsWith(expectedText);
+    case 'ends_with':
+      return actualText.endsWith(expectedText);
+    case 'matches_regex':
+      return testRegex(rule.value ?? '', toText(actual));
+    case 'in_list':
+    case 'not_in_list': {
+      const list = toList(expected);
+      const values = Array.isArray(actual) ? actual.map(item => fold(toText(item))) : [actualText];
+      const found = values.some(value => list.includes(value));
+      return rule.operator === 'in_list' ? found : !found;
+    }
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const left = toComparable(actual);
+      const right = toComparable(expected);
+      if (left === null || right === null) {
+        return false;
+      }
+      return rule.operator === 'gt' ? left > right
+        : rule.operator === 'gte' ? left >= right
+        : rule.operator === 'lt' ? left < right
+        : left <= right;
+    }
+    case 'between': {
+      const value = toComparable(actual);
+      const from = toComparable(expected);
+      const to = toComparable(context.replaceVariables(rule.valueTo ?? ''));
+      if (value === null || from === null || to === null) {
+        return false;
+      }
+      // A time window like 22:00-06:00 wraps around midnight
+      return from <= to ? value >= from && value <= to : value >= from || value <= to;
+    }
+    case 'date_before':
+    case 'date_after': {
+      const left = toDate(actual);
+      const right = toDate(expected);
+      if (!left || !right) {
+        return false;
+      }
+      return rule.operator === 'date_before' ? left < right : left > right;
+    }
+    case 'within_last_days': {
+      const date = toDate(actual);
+      const days = Number(expected);
+      if (!date || isNaN(days)) {
+        return false;
+      }
+      return Date.now() - date.getTime() <= days * DAY_MS && date.getTime() <= Date.now();
+    }
+    default:
+      return false;
+  }
+};
+
+const evaluateGroup = (
+  group: FlowConditionGroup,
+  context: FlowExecutionContext,
+  timeVariables: Record<string, string | number>,
+  depth = 0
+): boolean => {
+  if (depth > MAX_GROUP_DEPTH) {
+    return false;
+  }
+
+  const rules = group.rules || [];
+  if (rules.length === 0) {
+    return false;
+  }
+
+  const results = rules.map(rule => rule.type === 'group'
+    ? () => evaluateGroup(rule, context, timeVariables, depth + 1)
+    : () => evaluateRule(rule, context, timeVariables));
+
+  return group.combinator === 'or'
+    ? results.some(evaluate => evaluate())
+    : results.every(evaluate => evaluate());
+};
+
+export function evaluateConditionGroup(
+  group: FlowConditionGroup,
+  context: FlowExecutionContext,
+  options: EvaluationOptions = {}
+): boolean {
+  return evaluateGroup(group, context, getTimeVariables(options));
+}
+
+/**
+ * Source handle of the first branch whose conditions match, or the default handle
+ */
+export function selectConditionBranch(
+  branches: FlowConditionBranch[],
+  context: FlowExecutionContext,
+  options: EvaluationOptions = {}
+): { handle: string; branch: FlowConditionBranch | null } {
+  const timeVariables = getTimeVariables(options);
+
+  for (const branch of branches || []) {
+    if (branch?.conditions && evaluateGroup(branch.conditions, context, timeVariables)) {
+      return { handle: branchHandleId(branch.id), branch };
+    }
+  }
+
+  return { handle: DEFAULT_BRANCH_HANDLE, branch: null };
+}
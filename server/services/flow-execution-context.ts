@@ -52,6 +52,44 @@ export class FlowExecutionContext {
     return this.variables.get(key);
   }
 
+  /**
+   * Resolve a variable with an optional JSON path into its value, e.g.
+   * `http.response.data.items[0].status` or `contact.custom.plan`. The longest variable name
+   * that exists wins; JSON strings met on the way are parsed.
+   */
+  resolveVariablePath(path: string): any {
+    if (this.variables.has(path)) {
+      return this.variables.get(path);
+    }
+
+    const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(segment => segment.length > 0);
+
+    for (let prefixLength = segments.length - 1; prefixLength > 0; prefixLength--) {
+      const key = segments.slice(0, prefixLength).join('.');
+      if (!this.variables.has(key)) {
+        continue;
+      }
+
+      let current = this.variables.get(key);
+      for (const segment of segments.slice(prefixLength)) {
+        if (typeof current === 'string') {
+          try {
+            current = JSON.parse(current);
+          } catch {
+            return undefined;
+          }
+        }
+        if (current === null || typeof current !== 'object' || !(segment in current)) {
+          return undefined;
+        }
+        current = current[segment];
+      }
+      return current;
+    }
+
+    return undefined;
+  }
+
   /**
    * Check if variable exists
    */
@@ -297,6 +335,9 @@ export class FlowExecutionContext {
     this.setVariable('contact.identifier', contact.identifier || '');
     this.setVariable('contact.phone', contact.phone || '');
     this.setVariable('contact.email', contact.email || '');
+    Object.entries(contact.customFields || {}).forEach(([fieldName, value]) => {
+      this.setVariable(`contact.custom.${fieldName}`, value);
+    });
     this.setVariable('contact', contact);
   }
 
@@ -331,6 +372,7 @@ export class FlowExecutionContext {
   setConversationVariables(conversation: any): void {
     this.setVariable('conversation.id', conversation.id);
     this.setVariable('conversation.status', conversation.status || '');
+    this.setVariable('channel.type', conversation.channelType || '');
     this.setVariable('conversation', conversation);
   }
 
@@ -34,13 +34,15 @@ export class FlowExecutionManager extends EventEmitter {
     conversationId: number,
     contactId: number,
     triggerNodeId: string,
-    initialData?: any
+    initialData?: any,
+    flowVersionId: number | null = null
   ): string {
     const executionId = `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     const execution: FlowExecutionState = {
       id: executionId,
       flowId,
+      flowVersionId,
       conversationId,
       contactId,
       currentNodeId: triggerNodeId,
@@ -375,6 +377,7 @@ export class FlowExecutionManager extends EventEmitter {
 export interface FlowExecutionState {
   id: string;
   flowId: number;
+  flowVersionId: number | null;
   conversationId: number;
   contactId: number;
   currentNodeId: string | null;
@@ -8,15 +8,17 @@ import {
 import { randomUUID } from 'crypto';
 import Stripe from 'stripe';
 import whatsAppService from './channels/whatsapp';
-import instagramService from './channels/instagram';
-import messengerService from './channels/messenger';
-import TikTokService from './channels/tiktok';
 import googleCalendarService from './google-calendar';
 import googleSheetsService from './google-sheets';
 import { dataCaptureService } from './data-capture-service';
+import { satisfactionSurveyService } from './satisfaction-survey-service';
+import { businessHoursService } from './business-hours-service';
+import { webhookSubscriptionService } from './webhook-subscription-service';
+import { channelAdapterRegistry } from './channel-adapters/channel-adapter-registry';
 import axios from 'axios';
 import { FlowExecutionManager } from './flow-execution-manager';
 import { FlowExecutionContext } from './flow-execution-context';
+import { DEFAULT_BRANCH_HANDLE, selectConditionBranch } from './flow-condition-evaluator';
 import {
   NodeType,
   NodeTypeUtils,
@@ -27,8 +29,10 @@ import { executeContactNotificationNode } from './nodes/contact-notification-exe
 import { EventEmitter } from 'events';
 import * as path from 'path';
 import { isWhatsAppGroupChatId } from '../utils/whatsapp-group-filter';
+import { resolveContactCustomFields } from '../utils/contact-custom-fields';
 import serverI18n from '../utils/server-i18n';
 import type { CallAgentConfig, CallStatus } from './call-agent-service';
+import type { OpenAICompatibleEndpoint } from './ai-credentials-service';
 
 interface Flow {
   id: number;
@@ -39,6 +43,7 @@ interface Flow {
   updatedAt: Date;
   userId: number;
   version: number;
+  publishedVersionId: number | null;
   nodes: unknown;
   edges: unknown;
   definition?: string | any;
@@ -57,6 +62,8 @@ interface NodeExecutionResult {
 interface FlowSessionState {
   sessionId: string;
   flowId: number;
+  /** Published version the session started on, it keeps running on it after newer publishes */
+  flowVersionId: number | null;
   conversationId: number;
   contactId: number;
   companyId: number;
@@ -172,7 +179,8 @@ class FlowExecutor extends EventEmitter {
     companyId: number,
     triggerNodeId: string,
     initialContext: any,
-    triggerNodeData?: any
+    triggerNodeData?: any,
+    flowVersionId: number | null = null
   ): Promise<string> {
     const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const now = new Date();
@@ -204,6 +212,7 @@ class FlowExecutor extends EventEmitter {
     const session: FlowSessionState = {
       sessionId,
       flowId,
+      flowVersionId,
       conversationId,
       contactId,
       companyId,
@@ -242,6 +251,7 @@ class FlowExecutor extends EventEmitter {
       await storage.createFlowSession({
         sessionId,
         flowId,
+        flowVersionId,
         conversationId,
         contactId,
         companyId,
@@ -333,7 +343,7 @@ class FlowExecutor extends EventEmitter {
   private async renewSessionTimeout(session: FlowSessionState): Promise<void> {
     try {
 
-      const baseFlow = await storage.getFlow(session.flowId);
+      const baseFlow = await storage.getFlowAtVersion(session.flowId, session.flowVersionId);
       if (!baseFlow) return;
 
       const flow: Flow = { ...baseFlow, definition: (baseFlow as any).definition || null };
@@ -417,6 +427,7 @@ class FlowExecutor extends EventEmitter {
       const session: FlowSessionState = {
         sessionId: dbSession.sessionId,
         flowId: dbSession.flowId,
+        flowVersionId: dbSession.flowVersionId,
         conversationId: dbSession.conversationId,
         contactId: dbSession.contactId,
         companyId: dbSession.companyId || 0,
@@ -542,6 +553,7 @@ class FlowExecutor extends EventEmitter {
       const session: FlowSessionState = {
         sessionId: dbSession.sessionId,
         flowId: dbSession.flowId,
+        flowVersionId: dbSession.flowVersionId,
         conversationId: dbSession.conversationId,
         contactId: dbSession.contactId,
         companyId: dbSession.companyId || 0,
@@ -602,6 +614,14 @@ class FlowExecutor extends EventEmitter {
 
     this.executionManager.on('executionCompleted', (data) => {
       this.broadcastExecutionEvent('flowExecutionCompleted', data);
+
+      webhookSubscriptionService.emitForConversation(data.conversationId, 'flow.completed', {
+        executionId: data.executionId,
+        flowId: data.flowId,
+        conversationId: data.conversationId,
+        contactId: data.contactId,
+        durationMs: data.duration
+      }).catch(error => console.error(`Error queueing flow.completed webhook for execution ${data.executionId}:`, error));
     });
 
     this.executionManager.on('executionFailed', (data) => {
@@ -665,92 +685,33 @@ class FlowExecutor extends EventEmitter {
         throw new Error('Contact identifier is required for message sending');
       }
 
-      switch (channelType) {
-        case 'whatsapp':
-        case 'whatsapp_unofficial':
-          return await whatsAppService.sendMessage(
-            channelConnection.id,
-            channelConnection.userId,
-            contactIdentifier,
-            message,
-            isFromBot,
-            conversation?.id
-          );
-
-        case 'whatsapp_official':
-          const whatsAppOfficialService = await import('./channels/whatsapp-official');
-          return await whatsAppOfficialService.default.sendMessage(
-            channelConnection.id,
-            channelConnection.userId,
-            channelConnection.companyId || 0,
-            contactIdentifier,
-            message,
-            isFromBot
-          );
-
-        case 'instagram':
-          return await instagramService.sendMessage(
-            channelConnection.id,
-            contactIdentifier,
-            message,
-            channelConnection.userId
-          );
-
-        case 'messenger':
-          return await messengerService.sendMessage(
-            channelConnection.id,
-            contactIdentifier,
-            message,
-            channelConnection.userId
-          );
-
-        case 'tiktok':
-          if (!conversation?.id) {
-            throw new Error('Conversation ID required for TikTok messages');
-          }
-          return await TikTokService.sendAndSaveMessage(
-            channelConnection.id,
-            conversation.id,
-            contactIdentifier,
-            message,
-            'text'
-          );
-
-        case 'email':
-          const emailService = await import('./channels/email');
-          return await emailService.sendMessage(
-            channelConnection.id,
-            channelConnection.userId,
-            contactIdentifier,
-            'Flow Message',
-            message,
-            { isHtml: false }
-          );
-
-        case 'webchat':
-          const webchatService = await import('./channels/webchat');
-          return await webchatService.default.sendMessage(
-            channelConnection.id,
-            contactIdentifier,  // This is the sessionId
-            message
-          );
+      const adapter = channelAdapterRegistry.get(channelType);
+      if (!adapter) {
+        if (conversation) {
+          const insertMessage = {
+            conversationId: conversation.id,
+            senderId: channelConnection.userId,
+            content: message,
+            type: 'text' as const,
+            direction: 'outbound' as const,
+            status: 'sent',
+            isFromBot: isFromBot,
+            timestamp: new Date()
+          };
+          return await storage.createMessage(insertMessage);
+        }
+        throw new Error(`Unsupported channel type: ${channelType}`);
+      }
 
-        default:
-          if (conversation) {
-            const insertMessage = {
-              conversationId: conversation.id,
-              senderId: channelConnection.userId,
-              content: message,
-              type: 'text' as const,
-              direction: 'outbound' as const,
-              status: 'sent',
-              isFromBot: isFromBot,
-              timestamp: new Date()
-            };
-            return await storage.createMessage(insertMessage);
-          }
-          throw new Error(`Unsupported channel type: ${channelType}`);
+      const result = await adapter.sendText(
+        { connection: channelConnection, recipient: contactIdentifier, userId: channelConnection.userId, conversation, isFromBot },
+        message,
+        { subject: 'Flow Message' }
+      );
+      if (!result.success) {
+        throw new Error(result.error || `Failed to send ${adapter.displayName} message`);
       }
+      return result.data ?? result;
     } catch (error) {
       console.error(`Error sending message through ${channelConnection.channelType}:`, error);
       throw error;
@@ -779,159 +740,38 @@ class FlowExecutor extends EventEmitter {
         throw new Error('Contact identifier is required for media sending');
       }
 
-      switch (channelType) {
-        case 'whatsapp':
-        case 'whatsapp_unofficial':
-          return await whatsAppService.sendMedia(
-            channelConnection.id,
-            channelConnection.userId,
-            contactIdentifier,
-            mediaType,
-            mediaUrl,
-            caption || '',
-            filename || '',
-            isFromBot,
-            conversation?.id
-          );
-
-        case 'whatsapp_official':
-          const whatsAppOfficialService = await import('./channels/whatsapp-official');
-          return await whatsAppOfficialService.default.sendMedia(
-            channelConnection.id,
-            channelConnection.userId,
-            channelConnection.companyId || 0,
-            contactIdentifier,
-            mediaType,
-            mediaUrl,
-            caption,
-            filename,
-            undefined,
-            isFromBot
-          );
-
-        case 'instagram':
-          if (mediaType === 'image' || mediaType === 'video') {
-            return await instagramService.sendMedia(
-              channelConnection.id,
-              contactIdentifier,
-              mediaUrl,
-              mediaType,
-              caption,
-              channelConnection.userId
-            );
-          } else {
-            throw new Error(`Instagram does not support ${mediaType} media type`);
-          }
-
-        case 'messenger':
-          const messengerMediaType = mediaType === 'document' ? 'file' : mediaType;
-          return await messengerService.sendMedia(
-            channelConnection.id,
-            contactIdentifier,
-            mediaUrl,
-            messengerMediaType as 'image' | 'video' | 'audio' | 'file'
-          );
-
-        case 'tiktok':
-          if (!conversation?.id) {
-            throw new Error('Conversation ID required for TikTok messages');
-          }
-
-          if (mediaType === 'image' || mediaType === 'video') {
-            return await TikTokService.sendAndSaveMessage(
-              channelConnection.id,
-              conversation.id,
-              contactIdentifier,
-              mediaUrl,
-              mediaType
-            );
-          } else {
-            throw new Error(`TikTok does not support ${mediaType} media type`);
-          }
-
-        case 'email':
-          try {
-
-            const mediaResponse = await axios.get(mediaUrl, { responseType: 'arraybuffer' });
-            const mediaBuffer = Buffer.from(mediaResponse.data);
-            
-
-            let contentType: string;
-            let defaultExtension: string;
-            switch (mediaType) {
-              case 'image':
-                contentType = mediaResponse.headers['content-type'] || 'image/jpeg';
-                defaultExtension = contentType.includes('png') ? '.png' : contentType.includes('gif') ? '.gif' : '.jpg';
-                break;
-              case 'video':
-                contentType = mediaResponse.headers['content-type'] || 'video/mp4';
-                defaultExtension = contentType.includes('webm') ? '.webm' : '.mp4';
-                break;
-              case 'audio':
-                contentType = mediaResponse.headers['content-type'] || 'audio/mpeg';
-                defaultExtension = contentType.includes('ogg') ? '.ogg' : contentType.includes('wav') ? '.wav' : '.mp3';
-                break;
-              case 'document':
-                contentType = mediaResponse.headers['content-type'] || 'application/pdf';
-                defaultExtension = contentType.includes('pdf') ? '.pdf' : contentType.includes('doc') ? '.doc' : '.bin';
-                break;
-              default:
-                contentType = mediaResponse.headers['content-type'] || 'application/octet-stream';
-                defaultExtension = '.bin';
-            }
-            
-
-            const attachmentFilename = filename || `attachment${defaultExtension}`;
-            
-
-            const emailService = await import('./channels/email');
-            return await emailService.sendMessage(
-              channelConnection.id,
-              channelConnection.userId,
-              contactIdentifier,
-              'Flow Message',
-              caption || `${mediaType} message`,
-              {
-                isHtml: false,
-                attachments: [{
-                  filename: attachmentFilename,
-                  content: mediaBuffer,
-                  contentType: contentType
-                }]
-              }
-            );
-          } catch (error: any) {
-            console.error(`Error sending email media through ${channelConnection.channelType}:`, error);
-            throw new Error(`Failed to send email media: ${error.message}`);
-          }
+      const adapter = channelAdapterRegistry.get(channelType);
+      if (!adapter) {
+        if (conversation) {
+          const insertMessage = {
+            conversationId: conversation.id,
+            senderId: channelConnection.userId,
+            content: caption || `${mediaType} message`,
+            type: mediaType,
+            direction: 'outbound' as const,
+            status: 'sent',
+            mediaUrl: mediaUrl,
+            isFromBot: isFromBot,
+            timestamp: new Date()
+          };
+          return await storage.createMessage(insertMessage);
+        }
+        throw new Error(`Unsupported channel type for media: ${channelType}`);
+      }
 
-        case 'webchat':
-          const webchatService = await import('./channels/webchat');
-          return await webchatService.default.sendMessage(
-            channelConnection.id,
-            contactIdentifier,  // This is the sessionId
-            caption || `${mediaType} message`,
-            mediaType,
-            mediaUrl
-          );
+      if (!adapter.sendMedia) {
+        throw new Error(`${adapter.displayName} does not support ${mediaType} media type`);
+      }
 
-        default:
-          if (conversation) {
-            const insertMessage = {
-              conversationId: conversation.id,
-              senderId: channelConnection.userId,
-              content: caption || `${mediaType} message`,
-              type: mediaType,
-              direction: 'outbound' as const,
-              status: 'sent',
-              mediaUrl: mediaUrl,
-              isFromBot: isFromBot,
-              timestamp: new Date()
-            };
-            return await storage.createMessage(insertMessage);
-          }
-          throw new Error(`Unsupported channel type for media: ${channelType}`);
+      const result = await adapter.sendMedia(
+        { connection: channelConnection, recipient: contactIdentifier, userId: channelConnection.userId, conversation, isFromBot },
+        { type: mediaType, url: mediaUrl, caption, filename },
+        { subject: 'Flow Message' }
+      );
+      if (!result.success) {
+        throw new Error(result.error || `Failed to send ${adapter.displayName} media message`);
       }
+      return result.data ?? result;
     } catch (error) {
       console.error(`Error sending media through ${channelConnection.channelType}:`, error);
       throw error;
@@ -949,9 +789,9 @@ class FlowExecutor extends EventEmitter {
     contact: Contact,
     channelConnection: ChannelConnection
   ): Promise<void> {
-    
-
-
+    if (satisfactionSurveyService.isSurveyReply(message.id)) {
+      return;
+    }
 
     if (channelConnection.channelType === 'whatsapp_unofficial' || channelConnection.channelType === 'whatsapp') {
 
@@ -1149,7 +989,7 @@ class FlowExecutor extends EventEmitter {
       }
 
 
-      const flowData = await storage.getFlow(session.flowId);
+      const flowData = await storage.getFlowAtVersion(session.flowId, session.flowVersionId);
       if (!flowData || !flowData.nodes) {
         console.warn(`Flow ${session.flowId} not found or has no nodes, ending AI session`);
         await this.resetAISessionState(session);
@@ -1171,7 +1011,7 @@ class FlowExecutor extends EventEmitter {
         return await this.endAISession(session, message, conversation, contact, channelConnection);
       }
 
-      const baseFlow = await storage.getFlow(session.flowId);
+      const baseFlow = await storage.getFlowAtVersion(session.flowId, session.flowVersionId);
       if (!baseFlow) return false;
 
       const flow: Flow = { ...baseFlow, definition: (baseFlow as any).definition || null };
@@ -1202,7 +1042,7 @@ class FlowExecutor extends EventEmitter {
           
 
 
-          const baseFlow = await storage.getFlow(session.flowId);
+          const baseFlow = await storage.getFlowAtVersion(session.flowId, session.flowVersionId);
           if (baseFlow) {
             const flowEdges = typeof baseFlow.edges === 'string' ? JSON.parse(baseFlow.edges) : baseFlow.edges;
             const outgoingEdges = flowEdges.filter((edge: any) => edge.source === session.aiNodeId);
@@ -1280,7 +1120,7 @@ class FlowExecutor extends EventEmitter {
       });
 
       if (aiNodeId && aiExitOutputHandle) {
-        const baseFlow = await storage.getFlow(session.flowId);
+        const baseFlow = await storage.getFlowAtVersion(session.flowId, session.flowVersionId);
         if (baseFlow) {
           const flow: Flow = { ...baseFlow, definition: (baseFlow as any).definition || null };
           const { nodes, edges } = await this.parseFlowDefinition(flow);
@@ -1407,7 +1247,7 @@ class FlowExecutor extends EventEmitter {
 
 
 
-      const baseFlow = await storage.getFlow(session.flowId);
+      const baseFlow = await storage.getFlowAtVersion(session.flowId, session.flowVersionId);
       if (!baseFlow) {
 
         return false;
@@ -1524,7 +1364,7 @@ class FlowExecutor extends EventEmitter {
         return false;
       }
 
-      const baseFlow = await storage.getFlow(session.flowId);
+      const baseFlow = await storage.getFlowAtVersion(session.flowId, session.flowVersionId);
       if (!baseFlow) return false;
 
       const flow: Flow = { ...baseFlow, definition: (baseFlow as any).definition || null };
@@ -1759,7 +1599,10 @@ class FlowExecutor extends EventEmitter {
 
       let edgesToExecute = outgoingEdges;
 
-      if (isConditionNode) {
+      if (isConditionNode && currentNode.data?.conditionMode === 'rules') {
+        const branchHandle = this.selectConditionBranchWithContext(currentNode, context);
+        edgesToExecute = outgoingEdges.filter((edge: any) => edge.sourceHandle === branchHandle);
+      } else if (isConditionNode) {
         const conditionResult = await this.executeConditionNodeWithContext(currentNode, context);
 
         const yesEdges = outgoingEdges.filter((edge: any) =>
@@ -2619,7 +2462,7 @@ class FlowExecutor extends EventEmitter {
       if (!this.isValidIndividualContact(contact)) {
         return false;
       }
-      const baseFlow = await storage.getFlow(execution.flowId);
+      const baseFlow = await storage.getFlowAtVersion(execution.flowId, execution.flowVersionId);
       if (!baseFlow) return false;
 
       const flow: Flow = { ...baseFlow, definition: (baseFlow as any).definition || null };
@@ -3445,7 +3288,7 @@ class FlowExecutor extends EventEmitter {
         return;
       }
 
-      const baseFlow = await storage.getFlow(assignment.flowId);
+      const baseFlow = await storage.getPublishedFlow(assignment.flowId);
 
       if (!baseFlow) {
         console.error(`❌ Flow ${assignment.flowId} not found`);
@@ -3510,7 +3353,8 @@ class FlowExecutor extends EventEmitter {
                 conversation,
                 channelConnection
               },
-              enhancedTriggerData
+              enhancedTriggerData,
+              flow.publishedVersionId
             );
             session = this.activeSessions.get(sessionId) || null;
           }
@@ -3520,6 +3364,20 @@ class FlowExecutor extends EventEmitter {
             return;
           }
 
+          let sessionNodes = nodes;
+          let sessionEdges = edges;
+          let sessionTriggerNode = triggerNode;
+
+          if (existingSession && existingSession.flowVersionId && existingSession.flowVersionId !== flow.publishedVersionId) {
+            const pinnedFlow = await storage.getFlowAtVersion(flow.id, existingSession.flowVersionId);
+            if (pinnedFlow) {
+              const pinned = await this.parseFlowDefinition({ ...pinnedFlow, definition: (pinnedFlow as any).definition || null });
+              sessionNodes = pinned.nodes;
+              sessionEdges = pinned.edges;
+              sessionTriggerNode = pinned.nodes.find((node: any) => node.id === triggerNode.id) || triggerNode;
+            }
+          }
+
           const context = new FlowExecutionContext();
           context.setContactVariables(contact);
           context.setMessageVariables(message);
@@ -3574,9 +3432,9 @@ class FlowExecutor extends EventEmitter {
 
           await this.executeConnectedNodesWithSession(
             session,
-            triggerNode,
-            nodes,
-            edges,
+            sessionTriggerNode,
+            sessionNodes,
+            sessionEdges,
             message,
             conversation,
             contact,
@@ -3597,7 +3455,8 @@ class FlowExecutor extends EventEmitter {
               conversation: conversation,
               channelConnection: channelConnection,
               sessionId: sessionId
-            }
+            },
+            session.flowVersionId
           );
 
           const execution = this.executionManager.getExecution(executionId);
@@ -3680,7 +3539,9 @@ class FlowExecutor extends EventEmitter {
         emailPlainText: null,
         emailHeaders: null,
         isHistorySync: false,
-        historySyncBatchId: null
+        historySyncBatchId: null,
+        anonymizedAt: null,
+        anonymizationReason: null
       };
 
 
@@ -4257,7 +4118,10 @@ class FlowExecutor extends EventEmitter {
 
     let edgesToExecute = connectedEdges;
 
-    if (isConditionNode) {
+    if (isConditionNode && currentNode.data?.conditionMode === 'rules') {
+      const branchHandle = this.selectConditionBranchWithContext(currentNode, execution.context);
+      edgesToExecute = connectedEdges.filter((edge: any) => edge.sourceHandle === branchHandle);
+    } else if (isConditionNode) {
       const conditionResult = await this.executeConditionNodeWithContext(currentNode, execution.context);
 
       const yesEdges = connectedEdges.filter((edge: any) =>
@@ -5827,6 +5691,16 @@ class FlowExecutor extends EventEmitter {
 
       const data = node.data || {};
 
+      if (data.checkBusinessHours) {
+        const companyId = context.getVariable('conversation')?.companyId || context.getVariable('flow.companyId');
+        const calendar = companyId
+          ? await businessHoursService.getCompanyCalendar(companyId, data.businessHoursCalendarId)
+          : null;
+        const isOpen = businessHoursService.isOpen(calendar);
+        context.setVariable('businessHours.isOpen', isOpen);
+        return isOpen;
+      }
+
       const conditionType = data.conditionType || 'contains';
       const conditionValue = data.conditionValue || '';
 
@@ -5874,6 +5748,31 @@ class FlowExecutor extends EventEmitter {
     }
   }
 
+  /**
+   * Pick the output of a rules-mode condition node: the first named branch whose expression
+   * matches, otherwise the default branch. The result is kept in `condition.*` variables.
+   */
+  private selectConditionBranchWithContext(
+    node: any,
+    context: FlowExecutionContext
+  ): string {
+    const data = node.data || {};
+
+    try {
+      context.updateCurrentTimeVariables();
+      const { handle, branch } = selectConditionBranch(data.branches || [], context, { timezone: data.timezone });
+
+      context.setVariable('condition.matchedBranch', branch?.name ?? DEFAULT_BRANCH_HANDLE);
+      context.setVariable('condition.matchedBranchId', branch?.id ?? null);
+      return handle;
+    } catch (error) {
+      console.error('Error evaluating condition branches:', error);
+      context.setVariable('condition.matchedBranch', DEFAULT_BRANCH_HANDLE);
+      context.setVariable('condition.matchedBranchId', null);
+      return DEFAULT_BRANCH_HANDLE;
+    }
+  }
+
   /**
    * Execute wait node with execution context
    */
@@ -6123,7 +6022,9 @@ class FlowExecutor extends EventEmitter {
         emailPlainText: null,
         emailHeaders: null,
         isHistorySync: false,
-        historySyncBatchId: null
+        historySyncBatchId: null,
+        anonymizedAt: null,
+        anonymizationReason: null
       };
 
       const data = node.data || {};
@@ -11080,6 +10981,7 @@ ${eventResult.eventLink ? `\nView event: ${eventResult.eventLink}` : ''}`;
       let model = data.model || 'gpt-4o-mini';
 
       let apiKey = '';
+      let endpoint: OpenAICompatibleEndpoint | undefined;
       const credentialSource = data.credentialSource || 'auto';
 
       if (credentialSource === 'company' || credentialSource === 'system' || credentialSource === 'auto') {
@@ -11139,6 +11041,7 @@ ${eventResult.eventLink ? `\nView event: ${eventResult.eventLink}` : ''}`;
 
           if (credentialData) {
             apiKey = credentialData.apiKey;
+            endpoint = credentialData.endpoint;
 
           } else {
             throw new Error(`No valid ${provider} ${credentialSource} credential found. Please configure ${credentialSource} credentials for ${provider}.`);
@@ -11495,6 +11398,7 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
           provider,
           model,
           apiKey,
+          endpoint,
           systemPrompt,
           enableHistory,
           historyLimit,
@@ -13982,7 +13886,7 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
       const activeAssignments = flowAssignments.filter(assignment => assignment.isActive);
 
       for (const assignment of activeAssignments) {
-        const baseFlow = await storage.getFlow(assignment.flowId);
+        const baseFlow = await storage.getPublishedFlow(assignment.flowId);
         if (!baseFlow) continue;
 
         const flow: Flow = { ...baseFlow, definition: (baseFlow as any).definition || null };
@@ -14127,7 +14031,9 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
         emailPlainText: null,
         emailHeaders: null,
         isHistorySync: false,
-        historySyncBatchId: null
+        historySyncBatchId: null,
+        anonymizedAt: null,
+        anonymizationReason: null
       };
 
       if (this.matchesTrigger(triggerNode, resetMessage)) {
@@ -14142,7 +14048,9 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
             contact,
             conversation,
             channelConnection
-          }
+          },
+          undefined,
+          flow.publishedVersionId
         );
 
         const session = this.activeSessions.get(sessionId);
@@ -15436,7 +15344,9 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
         emailPlainText: null,
         emailHeaders: null,
         isHistorySync: false,
-        historySyncBatchId: null
+        historySyncBatchId: null,
+        anonymizedAt: null,
+        anonymizationReason: null
       };
 
       switch (calendarAction) {
@@ -15505,7 +15415,9 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
         emailPlainText: null,
         emailHeaders: null,
         isHistorySync: false,
-        historySyncBatchId: null
+        historySyncBatchId: null,
+        anonymizedAt: null,
+        anonymizationReason: null
       };
 
       const data = node.data || {};
@@ -15642,7 +15554,9 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
         emailPlainText: null,
         emailHeaders: null,
         isHistorySync: false,
-        historySyncBatchId: null
+        historySyncBatchId: null,
+        anonymizedAt: null,
+        anonymizationReason: null
       };
 
 
@@ -15896,9 +15810,36 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
           updates.isArchived = updateFields.isArchived;
         }
 
+        if (updateFields.customFields && typeof updateFields.customFields === 'object') {
+          const customFieldInput: Record<string, string> = {};
+          Object.entries(updateFields.customFields as Record<string, string>).forEach(([fieldName, template]) => {
+            const fieldValue = context.replaceVariables(String(template ?? '')).trim();
+            if (!skipEmptyValues || fieldValue) {
+              customFieldInput[fieldName] = fieldValue;
+            }
+          });
+
+          if (Object.keys(customFieldInput).length > 0) {
+            const targetContact = targetContactId === contact.id ? contact : await storage.getContact(targetContactId);
+            const { customFields, errors } = await resolveContactCustomFields(
+              companyId,
+              customFieldInput,
+              targetContact?.customFields || {}
+            );
+            if (errors.length > 0) {
+              throw new Error(`Invalid custom field values: ${errors.join('; ')}`);
+            }
+            updates.customFields = customFields;
+          }
+        }
+
 
         const updatedContact = await storage.updateContact(targetContactId, updates);
 
+        if (updatedContact.id === contact.id) {
+          context.setContactVariables(updatedContact);
+        }
+
         context.setVariable('contact.updated', true);
         context.setVariable('contact.lastUpdateTime', new Date().toISOString());
         context.setVariable('contact.updatedId', updatedContact.id.toString());
@@ -15964,16 +15905,36 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
         return;
       }
 
-      const apiKey = data.apiKey || process.env.OPENAI_API_KEY || '';
+      const provider = data.provider || 'openai';
+      let apiKey = data.apiKey || '';
+      let endpoint: OpenAICompatibleEndpoint | undefined;
       const targetLanguage = data.targetLanguage || 'en';
       const translationMode = data.translationMode || 'separate';
       const detectLanguage = data.detectLanguage !== undefined ? data.detectLanguage : true;
 
 
-      if (!apiKey) {
-        console.error('Translation Node: No OpenAI API key provided');
-        context.setVariable('translation.error', 'No API key provided');
-        return;
+      if (provider === 'openai_compatible') {
+        const { aiCredentialsService } = await import('../services/ai-credentials-service');
+        const credentialSource = conversation.companyId
+          ? await aiCredentialsService.getCredentialForCompany(conversation.companyId, provider)
+          : null;
+
+        if (!credentialSource?.endpoint) {
+          console.error('Translation Node: No OpenAI-compatible endpoint configured');
+          context.setVariable('translation.error', 'No OpenAI-compatible endpoint configured');
+          return;
+        }
+
+        apiKey = apiKey || credentialSource.apiKey;
+        endpoint = credentialSource.endpoint;
+      } else {
+        apiKey = apiKey || process.env.OPENAI_API_KEY || '';
+
+        if (!apiKey) {
+          console.error('Translation Node: No OpenAI API key provided');
+          context.setVariable('translation.error', 'No API key provided');
+          return;
+        }
       }
 
 
@@ -15989,8 +15950,9 @@ IMPORTANT: These calendar behaviors are enforced and cannot be overridden by use
       const translationResult = await translationService.processTranslation(
         message.content,
         targetLanguage,
-        'openai',
-        apiKey
+        provider,
+        apiKey,
+        endpoint
       );
 
       if (!translationResult.needsTranslation) {
@@ -0,0 +1,357 @@
+import { db } from '../db';
+import { flows, flowVersions, type Flow, type FlowVersion } from '@shared/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+
+export type FlowVersionSummary = Omit<FlowVersion, 'nodes' | 'edges'> & {
+  nodeCount: number;
+  edgeCount: number;
+  isPublished: boolean;
+};
+
+export interface FlowNodeChange {
+  id: string;
+  type: string | null;
+  label: string | null;
+  changedFields: string[];
+}
+
+export interface FlowDiff {
+  from: { versionId: number | null; version: number | null; label: string };
+  to: { versionId: number | null; version: number | null; label: string };
+  nodes: {
+    added: FlowNodeChange[];
+    removed: FlowNodeChange[];
+    changed: FlowNodeChange[];
+  };
+  edges: {
+    added: FlowEdgeSummary[];
+    removed: FlowEdgeSummary[];
+  };
+  nameChanged: boolean;
+  descriptionChanged: boolean;
+}
+
+export interface FlowEdgeSummary {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle: string | null;
+}
+
+/**
+ * 'draft' or a flow_versions id
+ */
+export type FlowDiffSide = 'draft' | number;
+
+interface FlowSnapshot {
+  versionId: number | null;
+  version: number | null;
+  name: string;
+  description: string | null;
+  nodes: any[];
+  edges: any[];
+}
+
+/**
+ * Fields of a React Flow node that are layout only and not part of the flow's behaviour
+ */
+const LAYOUT_NODE_FIELDS = new Set(['position', 'positionAbsolute', 'width', 'height', 'selected', 'dragging', 'measured']);
+
+/**
+ * The builder saves nodes and edges as JSON strings, older rows hold plain arrays
+ */
+export const toElementArray = (value: unknown): any[] => {
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value : [];
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const describeNode = (node: any, changedFields: string[] = []): FlowNodeChange => ({
+  id: String(node.id),
+  type: node.type ?? null,
+  label: node.data?.label ?? node.data?.name ?? null,
+  changedFields
+});
+
+const describeEdge = (edge: any): FlowEdgeSummary => ({
+  id: String(edge.id),
+  source: String(edge.source),
+  target: String(edge.target),
+  sourceHandle: edge.sourceHandle ?? null
+});
+
+/**
+ * Edges are compared by what they connect, React Flow regenerates edge ids freely
+ */
+const edgeKey = (edge: any) => `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}:${edge.targetHandle ?? ''}`;
+
+/**
+ * Behavioural fields that differ between two versions of a node. Changes inside node data are
+ * reported per data key (e.g. 'data.message'), moving a node is ignored.
+ */
+const changedNodeFields = (before: any, after: any): string[] => {
+  const changed: string[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (LAYOUT_NODE_FIELDS.has(key)) {
+      continue;
+    }
+    if (key === 'data') {
+      const dataKeys = new Set([...Object.keys(before?.data || {}), ...Object.keys(after?.data || {})]);
+      for (const dataKey of dataKeys) {
+        if (stableStringify(before?.data?.[dataKey]) !== stableStringify(after?.data?.[dataKey])) {
+          changed.push(`data.${dataKey}`);
+        }
+      }
+      continue;
+    }
+    if (stableStringify(before?.[key]) !== stableStringify(after?.[key])) {
+      changed.push(key);
+    }
+  }
+
+  return changed;
+};
+
+export function diffFlowSnapshots(from: Pick<FlowSnapshot, 'nodes' | 'edges'>, to: Pick<FlowSnapshot, 'nodes' | 'edges'>): Pick<FlowDiff, 'nodes' | 'edges'> {
+  const fromNodes = new Map((from.nodes || []).map(node => [String(node.id), node]));
+  const toNodes = new Map((to.nodes || []).map(node => [String(node.id), node]));
+
+  const added = [...toNodes.values()].filter(node => !fromNodes.has(String(node.id))).map(node => describeNode(node));
+  const removed = [...fromNodes.values()].filter(node => !toNodes.has(String(node.id))).map(node => describeNode(node));
+  const changed: FlowNodeChange[] = [];
+
+  for (const [id, node] of toNodes) {
+    const previous = fromNodes.get(id);
+    if (!previous) {
+      continue;
+    }
+    const fields = changedNodeFields(previous, node);
+    if (fields.length > 0) {
+      changed.push(describeNode(node, fields));
+    }
+  }
+
+  const fromEdges = new Map((from.edges || []).map(edge => [edgeKey(edge), edge]));
+  const toEdges = new Map((to.edges || []).map(edge => [edgeKey(edge), edge]));
+
+  return {
+    nodes: { added, removed, changed },
+    edges: {
+      added: [...toEdges.entries()].filter(([key]) => !fromEdges.has(key)).map(([, edge]) => describeEdge(edge)),
+      removed: [...fromEdges.entries()].filter(([key]) => !toEdges.has(key)).map(([, edge]) => describeEdge(edge))
+    }
+  };
+}
+
+/**
+ * Draft/publish lifecycle of flows. flows.nodes/edges are the draft the builder saves to;
+ * publishing snapshots the draft into flow_versions and makes it the version new sessions run.
+ */
+class FlowVersionService {
+  async getVersions(flow: Flow): Promise<FlowVersionSummary[]> {
+    const rows = await db
+      .select({
+        id: flowVersions.id,
+        flowId: flowVersions.flowId,
+        companyId: flowVersions.companyId,
+        version: flowVersions.version,
+        name: flowVersions.name,
+        description: flowVersions.description,
+        note: flowVersions.note,
+        rolledBackFromVersionId: flowVersions.rolledBackFromVersionId,
+        publishedById: flowVersions.publishedById,
+        publishedAt: flowVersions.publishedAt,
+        nodeCount: sql<number>`CASE WHEN jsonb_typeof(${flowVersions.nodes}) = 'array' THEN jsonb_array_length(${flowVersions.nodes}) ELSE 0 END::int`,
+        edgeCount: sql<number>`CASE WHEN jsonb_typeof(${flowVersions.edges}) = 'array' THEN jsonb_array_length(${flowVersions.edges}) ELSE 0 END::int`
+      })
+      .from(flowVersions)
+      .where(eq(flowVersions.flowId, flow.id))
+      .orderBy(desc(flowVersions.version));
+
+    return rows.map(row => ({ ...row, isPublished: row.id === flow.publishedVersionId }));
+  }
+
+  async getVersion(flowId: number, versionId: number): Promise<FlowVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(flowVersions)
+      .where(and(eq(flowVersions.flowId, flowId), eq(flowVersions.id, versionId)));
+    return version;
+  }
+
+  /**
+   * Whether the draft differs from the published version in anything that affects execution
+   */
+  async hasUnpublishedChanges(flow: Flow): Promise<boolean> {
+    if (!flow.publishedVersionId) {
+      return true;
+    }
+    const published = await this.getVersion(flow.id, flow.publishedVersionId);
+    if (!published) {
+      return true;
+    }
+
+    const diff = diffFlowSnapshots(
+      { nodes: toElementArray(published.nodes), edges: toElementArray(published.edges) },
+      { nodes: toElementArray(flow.nodes), edges: toElementArray(flow.edges) }
+    );
+    return diff.nodes.added.length > 0 || diff.nodes.removed.length > 0 || diff.nodes.changed.length > 0 ||
+      diff.edges.added.length > 0 || diff.edges.removed.length > 0;
+  }
+
+  /**
+   * Snapshot the current draft as the next version and make it live. Sessions that are already
+   * running stay on the version they started with.
+   */
+  async publish(flow: Flow, userId: number, note?: string | null): Promise<FlowVersion> {
+    const version = await this.createPublishedVersion(flow.id, userId, current => ({
+      name: current.name,
+      description: current.description,
+      nodes: toElementArray(current.nodes),
+      edges: toElementArray(current.edges),
+      note: note || null,
+      rolledBackFromVersionId: null
+    }));
+
+    logger.info('flow-versions', `Published flow ${flow.id} as version ${version.version}`);
+    return version;
+  }
+
+  /**
+   * Publish a copy of an earlier version and reset the draft to it. History is never rewritten,
+   * the rollback itself becomes the newest version.
+   */
+  async rollback(flow: Flow, versionId: number, userId: number): Promise<FlowVersion> {
+    const target = await this.getVersion(flow.id, versionId);
+    if (!target) {
+      throw new Error('Flow version not found');
+    }
+
+    const version = await this.createPublishedVersion(flow.id, userId, () => ({
+      name: target.name,
+      description: target.description,
+      nodes: target.nodes,
+      edges: target.edges,
+      note: `Rollback to version ${target.version}`,
+      rolledBackFromVersionId: target.id
+    }), true);
+
+    logger.info('flow-versions', `Rolled flow ${flow.id} back to version ${target.version} (published as version ${version.version})`);
+    return version;
+  }
+
+  async diff(flow: Flow, from: FlowDiffSide, to: FlowDiffSide): Promise<FlowDiff> {
+    const [fromSnapshot, toSnapshot] = await Promise.all([this.getSnapshot(flow, from), this.getSnapshot(flow, to)]);
+
+    return {
+      from: { versionId: fromSnapshot.versionId, version: fromSnapshot.version, label: this.label(fromSnapshot) },
+      to: { versionId: toSnapshot.versionId, version: toSnapshot.version, label: this.label(toSnapshot) },
+      ...diffFlowSnapshots(fromSnapshot, toSnapshot),
+      nameChanged: fromSnapshot.name !== toSnapshot.name,
+      descriptionChanged: (fromSnapshot.description || '') !== (toSnapshot.description || '')
+    };
+  }
+
+  private label(snapshot: FlowSnapshot): string {
+    return snapshot.version === null ? 'Draft' : `Version ${snapshot.version}`;
+  }
+
+  private async getSnapshot(flow: Flow, side: FlowDiffSide): Promise<FlowSnapshot> {
+    if (side === 'draft') {
+      return {
+        versionId: null,
+        version: null,
+        name: flow.name,
+        description: flow.description,
+        nodes: toElementArray(flow.nodes),
+        edges: toElementArray(flow.edges)
+      };
+    }
+
+    const version = await this.getVersion(flow.id, side);
+    if (!version) {
+      throw new Error('Flow version not found');
+    }
+
+    return {
+      versionId: version.id,
+      version: version.version,
+      name: version.name,
+      description: version.description,
+      nodes: toElementArray(version.nodes),
+      edges: toElementArray(version.edges)
+    };
+  }
+
+  /**
+   * Insert the next version number and point the flow at it in one transaction. The flow row is
+   * locked so concurrent publishes can't pick the same version number.
+   */
+  private async createPublishedVersion(
+    flowId: number,
+    userId: number,
+    buildVersion: (current: Flow) => Pick<FlowVersion, 'name' | 'description' | 'nodes' | 'edges' | 'note' | 'rolledBackFromVersionId'>,
+    resetDraft = false
+  ): Promise<FlowVersion> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(flows).where(eq(flows.id, flowId)).for('update');
+      if (!current) {
+        throw new Error('Flow not found');
+      }
+
+      const [{ maxVersion }] = await tx
+        .select({ maxVersion: sql<number>`COALESCE(MAX(${flowVersions.version}), 0)::int` })
+        .from(flowVersions)
+        .where(eq(flowVersions.flowId, flowId));
+
+      const data = buildVersion(current);
+      const [version] = await tx.insert(flowVersions).values({
+        ...data,
+        flowId,
+        companyId: current.companyId,
+        version: maxVersion + 1,
+        publishedById: userId
+      }).returning();
+
+      await tx.update(flows)
+        .set({
+          publishedVersionId: version.id,
+          publishedAt: version.publishedAt,
+          ...(resetDraft ? {
+            name: data.name,
+            description: data.description,
+            nodes: data.nodes,
+            edges: data.edges,
+            version: current.version + 1,
+            updatedAt: new Date()
+          } : {})
+        })
+        .where(eq(flows.id, flowId));
+
+      return version;
+    });
+  }
+}
+
+export const flowVersionService = new FlowVersionService();
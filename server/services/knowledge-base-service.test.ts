@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../db', () => ({ db: {} }));
+vi.mock('./ai-credentials-service', () => ({ aiCredentialsService: {}, OPENAI_COMPATIBLE_PROVIDER: 'openai_compatible' }));
+vi.mock('./knowledge-base-vector-store', () => ({ getVectorStore: vi.fn() }));
+
+const { fuseRankings } = await import('./knowledge-base-service');
+
+const matches = (...chunkIds: number[]) => chunkIds.map((chunkId, i) => ({ chunkId, score: 0.9 - i * 0.1 }));
+const rrf = (rank: number) => 1 / (60 + rank + 1);
+
+describe('fuseRankings', () => {
+  it('scores each list by reciprocal rank with k = 60', () => {
+    const candidates = fuseRankings(matches(1, 2), []);
+
+    expect(candidates.map(candidate => candidate.chunkId)).toEqual([1, 2]);
+    expect(candidates[0].score).toBeCloseTo(rrf(0), 12);
+    expect(candidates[1].score).toBeCloseTo(rrf(1), 12);
+  });
+
+  it('sums the scores of chunks found by both searches', () => {
+    const candidates = fuseRankings(matches(1, 2, 3), matches(3, 4));
+    const both = candidates.find(candidate => candidate.chunkId === 3);
+
+    expect(both?.score).toBeCloseTo(rrf(2) + rrf(0), 12);
+    expect(both?.matchedBy).toEqual(['vector', 'keyword']);
+    expect(candidates[0].chunkId).toBe(3);
+  });
+
+  it('takes similarity from the vector search only', () => {
+    const candidates = fuseRankings([{ chunkId: 1, score: 0.82 }], [{ chunkId: 1, score: 12.5 }, { chunkId: 2, score: 9 }]);
+
+    expect(candidates).toEqual([
+      { chunkId: 1, score: rrf(0) + rrf(0), similarity: 0.82, matchedBy: ['vector', 'keyword'] },
+      { chunkId: 2, score: rrf(1), similarity: 0, matchedBy: ['keyword'] }
+    ]);
+  });
+
+  it('orders candidates by fused score', () => {
+    const candidates = fuseRankings(matches(1, 2, 3), matches(3, 1, 4, 5));
+    const scores = candidates.map(candidate => candidate.score);
+
+    expect(candidates.map(candidate => candidate.chunkId)).toEqual([1, 3, 2, 4, 5]);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('returns nothing when neither search matched', () => {
+    expect(fuseRankings([], [])).toEqual([]);
+  });
+});
@@ -11,30 +11,100 @@ import {
   type KnowledgeBaseConfig,
   type InsertKnowledgeBaseDocument,
   type InsertKnowledgeBaseConfig,
-  type InsertKnowledgeBaseUsage
+  type InsertKnowledgeBaseUsage,
+  type KnowledgeBaseUsage
 } from '../../shared/schema';
-import { eq, and, desc, inArray } from 'drizzle-orm';
+import { eq, and, or, asc, desc, inArray, isNull, arrayOverlaps, sql, type SQL } from 'drizzle-orm';
 import OpenAI from 'openai';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { TextDocumentProcessor } from './document-processors/text-processor';
-import { aiCredentialsService } from './ai-credentials-service';
-import { pineconeService } from './pinecone-service';
+import { chunkDocumentText } from './document-processors/text-chunker';
+import { aiCredentialsService, OPENAI_COMPATIBLE_PROVIDER } from './ai-credentials-service';
+import { getVectorStore, type VectorMatch, type VectorStoreType } from './knowledge-base-vector-store';
 
 interface DocumentChunk {
   content: string;
+  section: string | null;
   index: number;
   startPosition: number;
   endPosition: number;
   tokenCount: number;
 }
 
-interface RetrievalResult {
+export type RetrievalMatchType = 'vector' | 'keyword';
+
+export interface RetrievalResult {
   chunk: KnowledgeBaseChunk;
-  similarity: number;
+  similarity: number; // 0 when only the keyword search matched
+  score: number; // fused or reranked score the results are ordered by
+  matchedBy: RetrievalMatchType[];
   document: KnowledgeBaseDocument;
 }
 
+export interface RetrievalOptions {
+  language?: string; // conversation language, applied when the node filters by language
+}
+
+export interface RetrievalCandidate {
+  chunkId: number;
+  score: number;
+  similarity: number;
+  matchedBy: RetrievalMatchType[];
+}
+
+/**
+ * Stored on knowledge_base_usage to explain which chunks a retrieval picked and why
+ */
+export interface RetrievalTrace {
+  mode: KnowledgeBaseConfig['retrievalMode'];
+  filters: { tags: string[]; language: string | null };
+  documentCount: number;
+  vector: VectorMatch[];
+  keyword: VectorMatch[];
+  fused: VectorMatch[];
+  reranked: VectorMatch[] | null;
+  results: { chunkId: number; documentId: number; matchedBy: RetrievalMatchType[] }[];
+  errors: string[];
+}
+
+// Words, numbers and codes such as "AB-1234", "v2.1" or "SKU_77/B"
+const SEARCH_TERM_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}_.\/-]*/gu;
+const RRF_K = 60; // reciprocal rank fusion constant
+
+/**
+ * Reduce a language tag such as "en-US" to its primary language code
+ */
+export function normalizeLanguageCode(language: string): string {
+  return language.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Merge ranked vector and keyword matches with reciprocal rank fusion
+ */
+export function fuseRankings(vectorMatches: VectorMatch[], keywordMatches: VectorMatch[]): RetrievalCandidate[] {
+  const candidates = new Map<number, RetrievalCandidate>();
+
+  const addMatches = (matches: VectorMatch[], matchType: RetrievalMatchType) => {
+    matches.forEach((match, rank) => {
+      const candidate = candidates.get(match.chunkId)
+        || { chunkId: match.chunkId, score: 0, similarity: 0, matchedBy: [] };
+
+      candidate.score += 1 / (RRF_K + rank + 1);
+      candidate.matchedBy.push(matchType);
+      if (matchType === 'vector') {
+        candidate.similarity = match.score;
+      }
+      candidates.set(match.chunkId, candidate);
+    });
+  };
+
+  addMatches(vectorMatches, 'vector');
+  addMatches(keywordMatches, 'keyword');
+
+  return Array.from(candidates.values()).sort((a, b) => b.score - a.score);
+}
+
 interface ContextEnhancementResult {
   enhancedPrompt: string;
   contextUsed: string[];
@@ -51,14 +121,81 @@ interface ContextEnhancementResult {
  * Handles document processing, embedding generation, and RAG retrieval
  */
 export class KnowledgeBaseService {
-  private readonly CHUNK_SIZE = 1000; // tokens per chunk
-  private readonly CHUNK_OVERLAP = 200; // token overlap between chunks
+  private readonly DEFAULT_CHUNK_TARGET_TOKENS = 500; // tokens per chunk
+  private readonly DEFAULT_CHUNK_OVERLAP_TOKENS = 80; // token overlap between chunks
   private readonly DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+  private readonly RERANK_MODEL = 'gpt-4o-mini';
+  private readonly RERANK_PASSAGE_CHARS = 1200;
+  private readonly CANDIDATE_MULTIPLIER = 4; // candidates per returned chunk for fusion and reranking
+  private readonly MAX_SEARCH_TERMS = 20;
 
   constructor() {
 
   }
 
+  /**
+   * Get the embeddings client and model for a node. Nodes using a self-hosted provider embed
+   * with the endpoint's embedding model so documents never leave the company's servers.
+   */
+  private async getEmbeddingClient(companyId: number, nodeId: string): Promise<{ client: OpenAI; model: string }> {
+    const nodeConfig = nodeId && nodeId !== 'fallback' ? await this.getNodeCredentialConfig(companyId, nodeId) : null;
+
+    if (nodeConfig?.provider === OPENAI_COMPATIBLE_PROVIDER) {
+      const credentialSource = await this.getCompatibleCredential(companyId, nodeConfig.credentialSource);
+
+      if (!credentialSource?.endpoint?.embeddingModel) {
+        throw new Error('No embedding model configured for the OpenAI-compatible endpoint. Please set one in the AI settings.');
+      }
+
+      return {
+        client: aiCredentialsService.createOpenAICompatibleClient(credentialSource.apiKey, credentialSource.endpoint),
+        model: credentialSource.endpoint.embeddingModel
+      };
+    }
+
+    return {
+      client: await this.getOpenAIClient(companyId, nodeId),
+      model: this.DEFAULT_EMBEDDING_MODEL
+    };
+  }
+
+  /**
+   * Get the chat client and model used to rerank retrieved chunks: the endpoint's default
+   * model for nodes using a self-hosted provider, otherwise a small OpenAI model
+   */
+  private async getRerankClient(companyId: number, nodeId: string): Promise<{ client: OpenAI; model: string }> {
+    const nodeConfig = nodeId && nodeId !== 'fallback' ? await this.getNodeCredentialConfig(companyId, nodeId) : null;
+
+    if (nodeConfig?.provider === OPENAI_COMPATIBLE_PROVIDER) {
+      const credentialSource = await this.getCompatibleCredential(companyId, nodeConfig.credentialSource);
+
+      if (!credentialSource?.endpoint?.defaultModel) {
+        throw new Error('No default model configured for the OpenAI-compatible endpoint. Please set one in the AI settings.');
+      }
+
+      return {
+        client: aiCredentialsService.createOpenAICompatibleClient(credentialSource.apiKey, credentialSource.endpoint),
+        model: credentialSource.endpoint.defaultModel
+      };
+    }
+
+    return {
+      client: await this.getOpenAIClient(companyId, nodeId),
+      model: this.RERANK_MODEL
+    };
+  }
+
+  /**
+   * Get the company or system OpenAI-compatible endpoint credential a node resolves to
+   */
+  private async getCompatibleCredential(companyId: number, nodeCredentialSource?: string) {
+    const preference = nodeCredentialSource === 'company' || nodeCredentialSource === 'system'
+      ? nodeCredentialSource
+      : 'auto';
+
+    return aiCredentialsService.getCredentialWithPreference(companyId, OPENAI_COMPATIBLE_PROVIDER, preference);
+  }
+
   /**
    * Get OpenAI client with appropriate API key based on node configuration
    */
@@ -162,11 +299,8 @@ export class KnowledgeBaseService {
       const extractedText = await this.extractTextFromFile(document.filePath, document.mimeType);
       
 
-      const chunks = await this.chunkText(extractedText);
-      
-
-
       const nodeId = document.nodeId || 'fallback';
+      const chunks = await this.chunkText(document.companyId, nodeId, extractedText);
       const chunksWithEmbeddings = await this.generateEmbeddings(document.companyId, nodeId, chunks);
       
 
@@ -199,6 +333,45 @@ export class KnowledgeBaseService {
     }
   }
 
+  /**
+   * Replace a document's chunks and vectors after its file changed
+   */
+  async reprocessDocument(documentId: number): Promise<void> {
+    const [document] = await db.select()
+      .from(knowledgeBaseDocuments)
+      .where(eq(knowledgeBaseDocuments.id, documentId));
+
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    await this.deleteDocumentVectors(document.companyId, document.nodeId || 'fallback', documentId);
+    await db.delete(knowledgeBaseChunks)
+      .where(eq(knowledgeBaseChunks.documentId, documentId));
+
+    await this.processDocument(documentId);
+  }
+
+  /**
+   * Get a document's chunks in order, for previews
+   */
+  async getDocumentChunks(documentId: number): Promise<Omit<KnowledgeBaseChunk, 'embedding'>[]> {
+    return db.select({
+      id: knowledgeBaseChunks.id,
+      documentId: knowledgeBaseChunks.documentId,
+      content: knowledgeBaseChunks.content,
+      section: knowledgeBaseChunks.section,
+      chunkIndex: knowledgeBaseChunks.chunkIndex,
+      tokenCount: knowledgeBaseChunks.tokenCount,
+      startPosition: knowledgeBaseChunks.startPosition,
+      endPosition: knowledgeBaseChunks.endPosition,
+      createdAt: knowledgeBaseChunks.createdAt
+    })
+      .from(knowledgeBaseChunks)
+      .where(eq(knowledgeBaseChunks.documentId, documentId))
+      .orderBy(asc(knowledgeBaseChunks.chunkIndex));
+  }
+
   /**
    * Extract text from various file formats
    */
@@ -215,74 +388,15 @@ export class KnowledgeBaseService {
 
 
   /**
-   * Split text into semantic chunks
+   * Split text into chunks at headings and paragraphs, using the node's chunk size settings
    */
-  private async chunkText(text: string): Promise<DocumentChunk[]> {
+  private async chunkText(companyId: number, nodeId: string, text: string): Promise<DocumentChunk[]> {
+    const config = await this.getNodeConfig(companyId, nodeId);
 
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const chunks: DocumentChunk[] = [];
-    
-    let currentChunk = '';
-    let currentTokenCount = 0;
-    let chunkIndex = 0;
-    let startPosition = 0;
-    
-    for (const sentence of sentences) {
-      const sentenceTokens = this.estimateTokens(sentence);
-      
-      if (currentTokenCount + sentenceTokens > this.CHUNK_SIZE && currentChunk.length > 0) {
-
-        chunks.push({
-          content: currentChunk.trim(),
-          index: chunkIndex,
-          startPosition,
-          endPosition: startPosition + currentChunk.length,
-          tokenCount: currentTokenCount
-        });
-        
-
-        const overlapText = this.getOverlapText(currentChunk, this.CHUNK_OVERLAP);
-        currentChunk = overlapText + sentence;
-        currentTokenCount = this.estimateTokens(currentChunk);
-        startPosition += currentChunk.length - overlapText.length;
-        chunkIndex++;
-      } else {
-        currentChunk += (currentChunk ? ' ' : '') + sentence;
-        currentTokenCount += sentenceTokens;
-      }
-    }
-    
-
-    if (currentChunk.trim().length > 0) {
-      chunks.push({
-        content: currentChunk.trim(),
-        index: chunkIndex,
-        startPosition,
-        endPosition: startPosition + currentChunk.length,
-        tokenCount: currentTokenCount
-      });
-    }
-    
-    return chunks;
-  }
-
-  /**
-   * Estimate token count (rough approximation)
-   */
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
-  }
-
-  /**
-   * Get overlap text from end of chunk
-   */
-  private getOverlapText(text: string, maxTokens: number): string {
-    const words = text.split(' ');
-    const maxWords = Math.floor(maxTokens / 0.75); // Rough word-to-token ratio
-    
-    if (words.length <= maxWords) return text;
-    
-    return words.slice(-maxWords).join(' ');
+    return chunkDocumentText(text, {
+      targetTokens: config?.chunkTargetTokens ?? this.DEFAULT_CHUNK_TARGET_TOKENS,
+      overlapTokens: config?.chunkOverlapTokens ?? this.DEFAULT_CHUNK_OVERLAP_TOKENS
+    });
   }
 
   /**
@@ -293,14 +407,14 @@ export class KnowledgeBaseService {
     const results: (DocumentChunk & { embedding: number[] })[] = [];
 
 
-    const openai = await this.getOpenAIClient(companyId, nodeId);
+    const { client, model } = await this.getEmbeddingClient(companyId, nodeId);
 
     for (let i = 0; i < chunks.length; i += batchSize) {
       const batch = chunks.slice(i, i + batchSize);
       const texts = batch.map(chunk => chunk.content);
 
-      const response = await openai.embeddings.create({
-        model: this.DEFAULT_EMBEDDING_MODEL,
+      const response = await client.embeddings.create({
+        model,
         input: texts
       });
       
@@ -316,7 +430,7 @@ export class KnowledgeBaseService {
   }
 
   /**
-   * Store chunks with embeddings in Pinecone
+   * Store chunks and hand their embeddings to the node's vector store
    */
   private async storeChunks(documentId: number, chunks: (DocumentChunk & { embedding: number[] })[]): Promise<void> {
 
@@ -334,9 +448,9 @@ export class KnowledgeBaseService {
     const chunkRecords = chunks.map(chunk => ({
       documentId,
       content: chunk.content,
+      section: chunk.section,
       chunkIndex: chunk.index,
       tokenCount: chunk.tokenCount,
-      embedding: null, // No longer storing embeddings in PostgreSQL
       startPosition: chunk.startPosition,
       endPosition: chunk.endPosition
     }));
@@ -347,40 +461,30 @@ export class KnowledgeBaseService {
       .returning();
 
 
-    const vectors = insertedChunks.map((dbChunk, index) => ({
-      id: `chunk-${dbChunk.id}`,
-      values: chunks[index].embedding,
-      metadata: {
-        companyId: document.companyId,
-        nodeId,
-        documentId,
-        chunkId: dbChunk.id,
-        chunkIndex: dbChunk.chunkIndex,
-        content: dbChunk.content,
-        tokenCount: dbChunk.tokenCount || 0,
-        documentName: document.originalName,
-        mimeType: document.mimeType,
-        startPosition: dbChunk.startPosition || 0,
-        endPosition: dbChunk.endPosition || 0,
-        createdAt: new Date().toISOString(),
-      },
-    }));
-
-
-    await pineconeService.ensureIndex(document.companyId, nodeId);
-
-
-    await pineconeService.upsertVectors(document.companyId, nodeId, vectors);
+    const vectorStore = getVectorStore(await this.getVectorStoreType(document.companyId, nodeId));
 
+    await vectorStore.upsertVectors(
+      document.companyId,
+      nodeId,
+      insertedChunks.map((chunk, index) => ({ chunk, document, embedding: chunks[index].embedding }))
+    );
+  }
 
+  /**
+   * Get the vector store a node's knowledge base uses (Pinecone unless configured otherwise)
+   */
+  private async getVectorStoreType(companyId: number, nodeId: string): Promise<VectorStoreType> {
+    const config = await this.getNodeConfig(companyId, nodeId);
+    return config?.vectorStore ?? 'pinecone';
   }
 
   /**
-   * Delete document vectors from Pinecone
+   * Delete document vectors from the node's vector store
    */
   async deleteDocumentVectors(companyId: number, nodeId: string, documentId: number): Promise<void> {
     try {
-      await pineconeService.deleteDocumentVectors(companyId, nodeId, documentId);
+      const vectorStore = getVectorStore(await this.getVectorStoreType(companyId, nodeId));
+      await vectorStore.deleteDocumentVectors(companyId, nodeId, documentId);
 
     } catch (error) {
       console.error('Error deleting document vectors:', error);
@@ -389,12 +493,65 @@ export class KnowledgeBaseService {
   }
 
   /**
-   * Retrieve relevant context for a query using vector similarity
+   * Copy a node's chunk embeddings into another vector store and switch the node to it.
+   * Vectors in the previous store are kept so the switch can be reverted without re-embedding.
+   */
+  async migrateVectorStore(
+    companyId: number,
+    nodeId: string,
+    target: VectorStoreType
+  ): Promise<{ vectorStore: VectorStoreType; migrated: number; missing: number }> {
+    const source = await this.getVectorStoreType(companyId, nodeId);
+
+    if (source === target) {
+      throw new Error(`Knowledge base already uses the ${target} vector store`);
+    }
+
+    const chunks = await db.select({
+      chunk: knowledgeBaseChunks,
+      document: knowledgeBaseDocuments
+    })
+    .from(knowledgeBaseChunks)
+    .innerJoin(knowledgeBaseDocuments, eq(knowledgeBaseChunks.documentId, knowledgeBaseDocuments.id))
+    .innerJoin(knowledgeBaseDocumentNodes, eq(knowledgeBaseDocumentNodes.documentId, knowledgeBaseDocuments.id))
+    .where(and(
+      eq(knowledgeBaseDocumentNodes.companyId, companyId),
+      eq(knowledgeBaseDocumentNodes.nodeId, nodeId)
+    ));
+
+    const sourceStore = getVectorStore(source);
+    const targetStore = getVectorStore(target);
+    let migrated = 0;
+
+    const batchSize = 100;
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize);
+      const embeddings = await sourceStore.fetchVectors(companyId, nodeId, batch.map(row => row.chunk.id));
+
+      const vectors = batch
+        .filter(row => embeddings.has(row.chunk.id))
+        .map(row => ({ chunk: row.chunk, document: row.document, embedding: embeddings.get(row.chunk.id)! }));
+
+      await targetStore.upsertVectors(companyId, nodeId, vectors);
+      migrated += vectors.length;
+    }
+
+    await this.upsertNodeConfig({ companyId, nodeId, vectorStore: target });
+
+    return { vectorStore: target, migrated, missing: chunks.length - migrated };
+  }
+
+  /**
+   * Retrieve relevant context for a query. In hybrid mode full-text matches are merged with
+   * vector matches by reciprocal rank fusion, so exact terms such as product codes are found
+   * even when their embeddings are not close to the query. Every retrieval is traced to
+   * knowledge_base_usage.
    */
   async retrieveContext(
     companyId: number,
     nodeId: string,
-    query: string
+    query: string,
+    options: RetrievalOptions = {}
   ): Promise<RetrievalResult[]> {
     const startTime = Date.now();
 
@@ -411,46 +568,94 @@ export class KnowledgeBaseService {
         return [];
       }
 
+      const language = config.filterByLanguage && options.language ? normalizeLanguageCode(options.language) : null;
+      const documentIds = await this.getSearchableDocumentIds(companyId, nodeId, config.filterTags, language);
 
-      const queryEmbedding = await this.generateQueryEmbedding(companyId, nodeId, query);
+      if (documentIds.length === 0) {
+        return [];
+      }
 
+      const hybrid = config.retrievalMode === 'hybrid';
+      const maxResults = config.maxRetrievedChunks || 3;
+      const candidateCount = maxResults * this.CANDIDATE_MULTIPLIER;
+      const trace: RetrievalTrace = {
+        mode: config.retrievalMode,
+        filters: { tags: config.filterTags, language },
+        documentCount: documentIds.length,
+        vector: [],
+        keyword: [],
+        fused: [],
+        reranked: null,
+        results: [],
+        errors: []
+      };
 
-      const associatedDocs = await db.select({ documentId: knowledgeBaseDocumentNodes.documentId })
-        .from(knowledgeBaseDocumentNodes)
-        .where(and(
-          eq(knowledgeBaseDocumentNodes.companyId, companyId),
-          eq(knowledgeBaseDocumentNodes.nodeId, nodeId)
-        ));
 
-      if (associatedDocs.length === 0) {
-        return [];
+      let queryEmbedding: number[] | null = null;
+      let embeddingDurationMs = 0;
+      let vectorMatches: VectorMatch[] = [];
+      try {
+        const embeddingStart = Date.now();
+        queryEmbedding = await this.generateQueryEmbedding(companyId, nodeId, query);
+        embeddingDurationMs = Date.now() - embeddingStart;
+
+        vectorMatches = await getVectorStore(config.vectorStore).queryVectors(
+          companyId,
+          nodeId,
+          queryEmbedding,
+          documentIds,
+          candidateCount,
+          config.similarityThreshold || 0.7
+        );
+      } catch (error) {
+        // Keyword matches can still answer the query in hybrid mode
+        if (!hybrid) {
+          throw error;
+        }
+        trace.errors.push(`Vector search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
+      trace.vector = vectorMatches;
 
-      const documentIds = associatedDocs.map(doc => doc.documentId);
 
+      const keywordMatches = hybrid ? await this.performKeywordSearch(query, documentIds, candidateCount) : [];
+      trace.keyword = keywordMatches;
 
-      const results = await this.performVectorSearch(
-        companyId,
-        nodeId,
-        queryEmbedding,
-        documentIds,
-        config.maxRetrievedChunks || 3,
-        config.similarityThreshold || 0.7
-      );
+      const candidates = fuseRankings(vectorMatches, keywordMatches);
+      trace.fused = candidates.map(candidate => ({ chunkId: candidate.chunkId, score: candidate.score }));
+
+
+      let results = await this.loadRetrievalResults(candidates.slice(0, config.rerankEnabled ? candidateCount : maxResults));
+
+      if (config.rerankEnabled && results.length > 1) {
+        try {
+          results = await this.rerankResults(companyId, nodeId, query, results);
+          trace.reranked = results.map(result => ({ chunkId: result.chunk.id, score: result.score }));
+        } catch (error) {
+          trace.errors.push(`Reranking failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      results = results.slice(0, maxResults);
+      trace.results = results.map(result => ({
+        chunkId: result.chunk.id,
+        documentId: result.document.id,
+        matchedBy: result.matchedBy
+      }));
 
 
       await this.trackUsage({
         companyId,
         nodeId,
         queryText: query,
-        queryEmbedding: JSON.stringify(queryEmbedding),
-        chunksRetrieved: results.length,
+        queryEmbedding: queryEmbedding ? JSON.stringify(queryEmbedding) : null,
+        chunksRetrieved: candidates.length,
         chunksUsed: results.length,
         similarityScores: results.map(r => r.similarity),
         retrievalDurationMs: Date.now() - startTime,
-        embeddingDurationMs: 0, // Would be measured separately
+        embeddingDurationMs,
         contextInjected: results.length > 0,
-        contextLength: results.reduce((sum, r) => sum + r.chunk.content.length, 0)
+        contextLength: results.reduce((sum, r) => sum + r.chunk.content.length, 0),
+        trace
       });
 
       return results;
@@ -461,15 +666,46 @@ export class KnowledgeBaseService {
     }
   }
 
+  /**
+   * Get the IDs of the node's documents that pass its tag and language filters
+   */
+  private async getSearchableDocumentIds(
+    companyId: number,
+    nodeId: string,
+    tags: string[],
+    language: string | null
+  ): Promise<number[]> {
+    const conditions: SQL[] = [
+      eq(knowledgeBaseDocumentNodes.companyId, companyId),
+      eq(knowledgeBaseDocumentNodes.nodeId, nodeId)
+    ];
+
+    if (tags.length > 0) {
+      conditions.push(arrayOverlaps(knowledgeBaseDocuments.tags, tags));
+    }
+
+    if (language) {
+      // Documents without a language apply to every conversation
+      conditions.push(or(isNull(knowledgeBaseDocuments.language), eq(knowledgeBaseDocuments.language, language))!);
+    }
+
+    const associatedDocs = await db.select({ documentId: knowledgeBaseDocumentNodes.documentId })
+      .from(knowledgeBaseDocumentNodes)
+      .innerJoin(knowledgeBaseDocuments, eq(knowledgeBaseDocumentNodes.documentId, knowledgeBaseDocuments.id))
+      .where(and(...conditions));
+
+    return associatedDocs.map(doc => doc.documentId);
+  }
+
   /**
    * Generate embedding for query
    */
   private async generateQueryEmbedding(companyId: number, nodeId: string, query: string): Promise<number[]> {
 
-    const openai = await this.getOpenAIClient(companyId, nodeId);
+    const { client, model } = await this.getEmbeddingClient(companyId, nodeId);
 
-    const response = await openai.embeddings.create({
-      model: this.DEFAULT_EMBEDDING_MODEL,
+    const response = await client.embeddings.create({
+      model,
       input: query
     });
 
@@ -477,33 +713,42 @@ export class KnowledgeBaseService {
   }
 
   /**
-   * Perform vector similarity search using Pinecone
+   * Full-text search over the chunks of the given documents. Query terms are OR-ed,
+   * so a chunk containing just the product code or SKU of the query is a match.
    */
-  private async performVectorSearch(
-    companyId: number,
-    nodeId: string,
-    queryEmbedding: number[],
-    documentIds: number[],
-    maxResults: number,
-    similarityThreshold: number
-  ): Promise<RetrievalResult[]> {
-
-    const pineconeResults = await pineconeService.queryVectors(
-      companyId,
-      nodeId,
-      queryEmbedding,
-      maxResults,
-      similarityThreshold
-    );
+  private async performKeywordSearch(query: string, documentIds: number[], limit: number): Promise<VectorMatch[]> {
+    const words = (query.toLowerCase().match(SEARCH_TERM_PATTERN) || []).map(word => word.replace(/[_.\/-]+$/, ''));
+    const terms = Array.from(new Set(words))
+      .filter(term => term.length > 1)
+      .slice(0, this.MAX_SEARCH_TERMS);
 
-    if (pineconeResults.length === 0) {
+    if (terms.length === 0) {
       return [];
     }
 
+    const tsQuery = sql`to_tsquery('simple', ${terms.map(term => `'${term}'`).join(' | ')})`;
+    const tsVector = sql`to_tsvector('simple', ${knowledgeBaseChunks.content})`;
+    const rank = sql<number>`ts_rank_cd(${tsVector}, ${tsQuery})`;
 
-    const chunkIds = pineconeResults.map(result =>
-      parseInt(result.id.replace('chunk-', ''))
-    );
+    const matches = await db.select({ chunkId: knowledgeBaseChunks.id, score: rank })
+      .from(knowledgeBaseChunks)
+      .where(and(
+        inArray(knowledgeBaseChunks.documentId, documentIds),
+        sql`${tsVector} @@ ${tsQuery}`
+      ))
+      .orderBy(desc(rank))
+      .limit(limit);
+
+    return matches.map(match => ({ chunkId: match.chunkId, score: Number(match.score) }));
+  }
+
+  /**
+   * Load the chunks and documents of ranked candidates, keeping their order
+   */
+  private async loadRetrievalResults(candidates: RetrievalCandidate[]): Promise<RetrievalResult[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
 
 
     const chunks = await db.select({
@@ -512,19 +757,20 @@ export class KnowledgeBaseService {
     })
     .from(knowledgeBaseChunks)
     .innerJoin(knowledgeBaseDocuments, eq(knowledgeBaseChunks.documentId, knowledgeBaseDocuments.id))
-    .where(inArray(knowledgeBaseChunks.id, chunkIds));
+    .where(inArray(knowledgeBaseChunks.id, candidates.map(candidate => candidate.chunkId)));
 
 
     const results: RetrievalResult[] = [];
-    for (const pineconeResult of pineconeResults) {
-      const chunkId = parseInt(pineconeResult.id.replace('chunk-', ''));
-      const chunkData = chunks.find(c => c.chunk.id === chunkId);
+    for (const candidate of candidates) {
+      const chunkData = chunks.find(c => c.chunk.id === candidate.chunkId);
 
       if (chunkData) {
         results.push({
           chunk: chunkData.chunk,
           document: chunkData.document,
-          similarity: pineconeResult.score,
+          similarity: candidate.similarity,
+          score: candidate.score,
+          matchedBy: candidate.matchedBy
         });
       }
     }
@@ -532,6 +778,48 @@ export class KnowledgeBaseService {
     return results;
   }
 
+  /**
+   * Let a chat model score how well each retrieved chunk answers the query and reorder by
+   * that score. Throws when the model does not return one score per chunk.
+   */
+  private async rerankResults(
+    companyId: number,
+    nodeId: string,
+    query: string,
+    results: RetrievalResult[]
+  ): Promise<RetrievalResult[]> {
+    const { client, model } = await this.getRerankClient(companyId, nodeId);
+
+    const passages = results
+      .map((result, index) => `[${index + 1}] ${result.chunk.content.slice(0, this.RERANK_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const response = await client.chat.completions.create({
+      model,
+      temperature: 0,
+      messages: [
+        {
+          role: 'system',
+          content: 'You rate how relevant passages are to a search query. Reply with JSON only, in the form {"scores": [...]}, '
+            + 'giving one score per passage in passage order, from 0 (unrelated) to 10 (answers the query).'
+        },
+        { role: 'user', content: `Query: ${query}\n\nPassages:\n\n${passages}` }
+      ]
+    });
+
+    const json = /\{[\s\S]*\}/.exec(response.choices[0]?.message?.content || '');
+    const scores: unknown = json ? JSON.parse(json[0]).scores : null;
+
+    if (!Array.isArray(scores) || scores.length !== results.length || scores.some(score => typeof score !== 'number')) {
+      throw new Error('Reranker did not return a score for every passage');
+    }
+
+    return results
+      .map((result, index) => ({ result, index, score: scores[index] as number }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ result, score }) => ({ ...result, score }));
+  }
+
   /**
    * Track knowledge base usage
    */
@@ -543,6 +831,20 @@ export class KnowledgeBaseService {
     }
   }
 
+  /**
+   * Get the most recent retrievals of a node with their traces
+   */
+  async getRecentUsage(companyId: number, nodeId: string, limit: number): Promise<KnowledgeBaseUsage[]> {
+    return db.select()
+      .from(knowledgeBaseUsage)
+      .where(and(
+        eq(knowledgeBaseUsage.companyId, companyId),
+        eq(knowledgeBaseUsage.nodeId, nodeId)
+      ))
+      .orderBy(desc(knowledgeBaseUsage.createdAt))
+      .limit(limit);
+  }
+
   /**
    * Enhance system prompt with retrieved context
    */
@@ -701,6 +1003,14 @@ export class KnowledgeBaseService {
           maxRetrievedChunks: config.maxRetrievedChunks ?? 3,
           similarityThreshold: config.similarityThreshold ?? 0.7,
           embeddingModel: config.embeddingModel ?? 'text-embedding-3-small',
+          vectorStore: config.vectorStore ?? 'pinecone',
+          chunkTargetTokens: config.chunkTargetTokens ?? this.DEFAULT_CHUNK_TARGET_TOKENS,
+          chunkOverlapTokens: config.chunkOverlapTokens ?? this.DEFAULT_CHUNK_OVERLAP_TOKENS,
+          retrievalMode: config.retrievalMode ?? 'hybrid',
+          rerankEnabled: config.rerankEnabled ?? false,
+          citationsEnabled: config.citationsEnabled ?? false,
+          filterTags: config.filterTags ?? [],
+          filterByLanguage: config.filterByLanguage ?? false,
           contextPosition: config.contextPosition ?? 'before_system',
           contextTemplate: config.contextTemplate ?? 'Based on the following knowledge base information:\n\n{context}\n\nPlease answer the user\'s question using this information when relevant.'
         })
@@ -709,6 +1019,30 @@ export class KnowledgeBaseService {
     }
   }
 
+  /**
+   * Update the tags and language a document is filtered by during retrieval
+   */
+  async updateDocumentMetadata(
+    documentId: number,
+    metadata: { tags?: string[]; language?: string | null }
+  ): Promise<KnowledgeBaseDocument> {
+    const updates: Partial<InsertKnowledgeBaseDocument> = {};
+
+    if (metadata.tags !== undefined) {
+      updates.tags = Array.from(new Set(metadata.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+    }
+    if (metadata.language !== undefined) {
+      updates.language = metadata.language ? normalizeLanguageCode(metadata.language) : null;
+    }
+
+    const [updated] = await db.update(knowledgeBaseDocuments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(knowledgeBaseDocuments.id, documentId))
+      .returning();
+
+    return updated;
+  }
+
   /**
    * Associate document with AI Assistant node
    */
@@ -759,8 +1093,10 @@ export function getKnowledgeBaseService(): KnowledgeBaseService {
 
 export default {
   processDocument: (documentId: number) => getKnowledgeBaseService().processDocument(documentId),
-  retrieveContext: (companyId: number, nodeId: string, query: string) =>
-    getKnowledgeBaseService().retrieveContext(companyId, nodeId, query),
+  reprocessDocument: (documentId: number) => getKnowledgeBaseService().reprocessDocument(documentId),
+  getDocumentChunks: (documentId: number) => getKnowledgeBaseService().getDocumentChunks(documentId),
+  retrieveContext: (companyId: number, nodeId: string, query: string, options?: RetrievalOptions) =>
+    getKnowledgeBaseService().retrieveContext(companyId, nodeId, query, options),
   enhancePromptWithContext: (companyId: number, nodeId: string, systemPrompt: string, userQuery: string) =>
     getKnowledgeBaseService().enhancePromptWithContext(companyId, nodeId, systemPrompt, userQuery),
   getNodeConfig: (companyId: number, nodeId: string) =>
@@ -772,5 +1108,11 @@ export default {
   getNodeDocuments: (companyId: number, nodeId: string) =>
     getKnowledgeBaseService().getNodeDocuments(companyId, nodeId),
   deleteDocumentVectors: (companyId: number, nodeId: string, documentId: number) =>
-    getKnowledgeBaseService().deleteDocumentVectors(companyId, nodeId, documentId)
+    getKnowledgeBaseService().deleteDocumentVectors(companyId, nodeId, documentId),
+  migrateVectorStore: (companyId: number, nodeId: string, target: VectorStoreType) =>
+    getKnowledgeBaseService().migrateVectorStore(companyId, nodeId, target),
+  updateDocumentMetadata: (documentId: number, metadata: { tags?: string[]; language?: string | null }) =>
+    getKnowledgeBaseService().updateDocumentMetadata(documentId, metadata),
+  getRecentUsage: (companyId: number, nodeId: string, limit: number) =>
+    getKnowledgeBaseService().getRecentUsage(companyId, nodeId, limit)
 };
@@ -0,0 +1,470 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { db } from '../db';
+import {
+  knowledgeBaseDocuments,
+  knowledgeBaseSources,
+  type InsertKnowledgeBaseSource,
+  type KnowledgeBaseDocument,
+  type KnowledgeBaseSource
+} from '@shared/schema';
+import { and, desc, eq, isNotNull, lte } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { htmlToText, extractLinks, decodeHtmlEntities } from './document-processors/html-processor';
+import { getKnowledgeBaseService } from './knowledge-base-service';
+import { isPrivateAddress } from './webhook-subscription-service';
+
+export type KnowledgeBaseSourceInput = Omit<InsertKnowledgeBaseSource, 'companyId'>;
+
+export interface SourceSyncResult {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  failed: number;
+}
+
+interface FetchedPage {
+  url: string;
+  body: string;
+  contentType: string;
+}
+
+const SYNC_CHECK_INTERVAL = 15 * 60 * 1000;
+const REQUEST_TIMEOUT = 15 * 1000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const MAX_NESTED_SITEMAPS = 20;
+const HOUR_MS = 60 * 60 * 1000;
+const UPLOAD_DIR = path.join(process.cwd(), 'uploads', 'knowledge-base');
+
+/**
+ * Reason a URL cannot be crawled, or null when it can. Sources must be public http(s)
+ * URLs so tenants cannot reach services on the internal network.
+ */
+export async function validateSourceUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Source URLs must use HTTP or HTTPS';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Source URLs must not contain credentials';
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local') || hostname.endsWith('.internal')) {
+    return 'Source URLs must point to a public host';
+  }
+
+  try {
+    const addresses = net.isIP(hostname)
+      ? [{ address: hostname }]
+      : await dns.promises.lookup(hostname, { all: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return 'Source URLs must point to a public host';
+    }
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+
+  return null;
+}
+
+/**
+ * Knowledge Base Sync Service
+ * Ingests the pages of a sitemap or a crawled website into a node's knowledge base and
+ * re-syncs sources on their schedule, re-embedding only pages whose text changed.
+ */
+export class KnowledgeBaseSyncService {
+  private interval: NodeJS.Timeout | null = null;
+  private isCheckingDue = false;
+  private syncing = new Set<number>();
+
+  /**
+   * Start the scheduled re-sync monitor
+   */
+  start(): void {
+    if (this.interval) {
+      logger.info('knowledge-base-sync', 'Source sync monitor is already running');
+      return;
+    }
+
+    db.update(knowledgeBaseSources)
+      .set({ status: 'failed', lastSyncError: 'Sync was interrupted by a server restart', updatedAt: new Date() })
+      .where(eq(knowledgeBaseSources.status, 'syncing'))
+      .catch(error => logger.error('knowledge-base-sync', 'Error resetting interrupted syncs', error));
+
+    this.interval = setInterval(() => {
+      this.syncDueSources().catch(error => logger.error('knowledge-base-sync', 'Error syncing due sources', error));
+    }, SYNC_CHECK_INTERVAL);
+  }
+
+  /**
+   * Stop the scheduled re-sync monitor
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async getSources(companyId: number, nodeId?: string): Promise<KnowledgeBaseSource[]> {
+    const conditions = [eq(knowledgeBaseSources.companyId, companyId)];
+    if (nodeId) conditions.push(eq(knowledgeBaseSources.nodeId, nodeId));
+
+    return db.select()
+      .from(knowledgeBaseSources)
+      .where(and(...conditions))
+      .orderBy(desc(knowledgeBaseSources.createdAt));
+  }
+
+  async getSource(id: number): Promise<KnowledgeBaseSource | null> {
+    const [source] = await db.select().from(knowledgeBaseSources).where(eq(knowledgeBaseSources.id, id));
+    return source || null;
+  }
+
+  async createSource(companyId: number, data: KnowledgeBaseSourceInput): Promise<KnowledgeBaseSource> {
+    const [source] = await db.insert(knowledgeBaseSources)
+      .values({ ...data, companyId })
+      .returning();
+    return source;
+  }
+
+  async updateSource(
+    id: number,
+    data: Pick<KnowledgeBaseSourceInput, 'maxPages' | 'syncIntervalHours'>
+  ): Promise<KnowledgeBaseSource> {
+    const existing = await this.getSource(id);
+    const nextSyncAt = data.syncIntervalHours
+      ? new Date((existing?.lastSyncedAt?.getTime() ?? Date.now()) + data.syncIntervalHours * HOUR_MS)
+      : null;
+
+    const [source] = await db.update(knowledgeBaseSources)
+      .set({ ...data, nextSyncAt, updatedAt: new Date() })
+      .where(eq(knowledgeBaseSources.id, id))
+      .returning();
+    return source;
+  }
+
+  /**
+   * Delete a source together with the documents and vectors of its pages
+   */
+  async deleteSource(id: number): Promise<void> {
+    const pages = await db.select()
+      .from(knowledgeBaseDocuments)
+      .where(eq(knowledgeBaseDocuments.sourceId, id));
+
+    for (const page of pages) {
+      await this.removePage(page);
+    }
+
+    await db.delete(knowledgeBaseSources).where(eq(knowledgeBaseSources.id, id));
+  }
+
+  isSyncing(id: number): boolean {
+    return this.syncing.has(id);
+  }
+
+  /**
+   * Fetch a source's pages and bring its documents up to date
+   */
+  async syncSource(id: number): Promise<SourceSyncResult> {
+    if (this.syncing.has(id)) {
+      throw new Error('Source is already being synced');
+    }
+
+    const source = await this.getSource(id);
+    if (!source) {
+      throw new Error('Source not found');
+    }
+
+    this.syncing.add(id);
+    await db.update(knowledgeBaseSources)
+      .set({ status: 'syncing', lastSyncError: null, updatedAt: new Date() })
+      .where(eq(knowledgeBaseSources.id, id));
+
+    try {
+      const pages = source.type === 'sitemap'
+        ? await this.fetchSitemapPages(source.url, source.maxPages)
+        : await this.crawlWebsite(source.url, source.maxPages);
+
+      if (pages.size === 0) {
+        throw new Error('No pages with text content were found');
+      }
+
+      const result = await this.applyPages(source, pages);
+
+      await db.update(knowledgeBaseSources)
+        .set({
+          status: 'completed',
+          pageCount: pages.size,
+          lastSyncedAt: new Date(),
+          nextSyncAt: source.syncIntervalHours ? new Date(Date.now() + source.syncIntervalHours * HOUR_MS) : null,
+          updatedAt: new Date()
+        })
+        .where(eq(knowledgeBaseSources.id, id));
+
+      logger.info('knowledge-base-sync', `Synced source ${id}: ${JSON.stringify(result)}`);
+      return result;
+    } catch (error) {
+      await db.update(knowledgeBaseSources)
+        .set({
+          status: 'failed',
+          lastSyncError: error instanceof Error ? error.message : 'Unknown error',
+          nextSyncAt: source.syncIntervalHours ? new Date(Date.now() + source.syncIntervalHours * HOUR_MS) : null,
+          updatedAt: new Date()
+        })
+        .where(eq(knowledgeBaseSources.id, id));
+      throw error;
+    } finally {
+      this.syncing.delete(id);
+    }
+  }
+
+  private async syncDueSources(): Promise<void> {
+    if (this.isCheckingDue) return;
+    this.isCheckingDue = true;
+
+    try {
+      const due = await db.select({ id: knowledgeBaseSources.id })
+        .from(knowledgeBaseSources)
+        .where(and(
+          isNotNull(knowledgeBaseSources.syncIntervalHours),
+          lte(knowledgeBaseSources.nextSyncAt, new Date())
+        ));
+
+      for (const { id } of due) {
+        if (this.syncing.has(id)) continue;
+        try {
+          await this.syncSource(id);
+        } catch (error) {
+          logger.error('knowledge-base-sync', `Scheduled sync of source ${id} failed`, error);
+        }
+      }
+    } finally {
+      this.isCheckingDue = false;
+    }
+  }
+
+  /**
+   * Store new and changed pages as documents and remove pages that disappeared
+   */
+  private async applyPages(source: KnowledgeBaseSource, pages: Map<string, { title: string | null; text: string }>): Promise<SourceSyncResult> {
+    const knowledgeBaseService = getKnowledgeBaseService();
+    const result: SourceSyncResult = { added: 0, updated: 0, unchanged: 0, removed: 0, failed: 0 };
+
+    const existingPages = await db.select()
+      .from(knowledgeBaseDocuments)
+      .where(eq(knowledgeBaseDocuments.sourceId, source.id));
+    const existingByUrl = new Map(existingPages.map(page => [page.sourceUrl, page]));
+
+    for (const [url, page] of pages) {
+      const content = page.title && !page.text.startsWith('# ') ? `# ${page.title}\n\n${page.text}` : page.text;
+      const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+      const existing = existingByUrl.get(url);
+
+      if (existing && existing.contentHash === contentHash && existing.status === 'completed') {
+        result.unchanged++;
+        continue;
+      }
+
+      try {
+        const fileSize = Buffer.byteLength(content);
+
+        if (existing) {
+          await fs.writeFile(existing.filePath, content, 'utf-8');
+          await db.update(knowledgeBaseDocuments)
+            .set({ originalName: page.title || url, fileSize, contentHash, status: 'uploading', updatedAt: new Date() })
+            .where(eq(knowledgeBaseDocuments.id, existing.id));
+          await knowledgeBaseService.reprocessDocument(existing.id);
+          result.updated++;
+        } else {
+          const filename = `${Date.now()}-${Math.round(Math.random() * 1E9)}-source-${source.id}.md`;
+          const filePath = path.join(UPLOAD_DIR, filename);
+          await fs.mkdir(UPLOAD_DIR, { recursive: true });
+          await fs.writeFile(filePath, content, 'utf-8');
+
+          const [document] = await db.insert(knowledgeBaseDocuments)
+            .values({
+              companyId: source.companyId,
+              nodeId: source.nodeId,
+              filename,
+              originalName: page.title || url,
+              mimeType: 'text/markdown',
+              fileSize,
+              filePath,
+              fileUrl: `/uploads/knowledge-base/${filename}`,
+              status: 'uploading',
+              sourceId: source.id,
+              sourceUrl: url,
+              contentHash
+            })
+            .returning();
+
+          await knowledgeBaseService.associateDocumentWithNode(document.id, source.companyId, source.nodeId);
+          await knowledgeBaseService.processDocument(document.id);
+          result.added++;
+        }
+      } catch (error) {
+        logger.error('knowledge-base-sync', `Failed to ingest ${url}`, error);
+        result.failed++;
+      }
+    }
+
+    for (const page of existingPages) {
+      if (page.sourceUrl && !pages.has(page.sourceUrl)) {
+        await this.removePage(page);
+        result.removed++;
+      }
+    }
+
+    return result;
+  }
+
+  private async removePage(page: KnowledgeBaseDocument): Promise<void> {
+    try {
+      await getKnowledgeBaseService().deleteDocumentVectors(page.companyId, page.nodeId || 'fallback', page.id);
+    } catch (error) {
+      logger.warn('knowledge-base-sync', `Could not delete vectors of document ${page.id}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    await db.delete(knowledgeBaseDocuments).where(eq(knowledgeBaseDocuments.id, page.id));
+    await fs.unlink(page.filePath).catch(() => undefined);
+  }
+
+  /**
+   * Read the page URLs of a sitemap (or sitemap index) and fetch the pages on the same host
+   */
+  private async fetchSitemapPages(sitemapUrl: string, maxPages: number): Promise<Map<string, { title: string | null; text: string }>> {
+    const host = new URL(sitemapUrl).host;
+    const pageUrls: string[] = [];
+    const sitemaps = [sitemapUrl];
+    let sitemapCount = 0;
+
+    while (sitemaps.length > 0 && pageUrls.length < maxPages && sitemapCount < MAX_NESTED_SITEMAPS) {
+      const { body } = await this.fetchUrl(sitemaps.shift()!);
+      sitemapCount++;
+
+      const locations = Array.from(body.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi), match => decodeHtmlEntities(match[1]));
+      const isIndex = /<sitemapindex[\s>]/i.test(body);
+
+      for (const location of locations) {
+        try {
+          if (new URL(location).host !== host) continue;
+        } catch {
+          continue;
+        }
+        if (isIndex) {
+          sitemaps.push(location);
+        } else if (pageUrls.length < maxPages && !pageUrls.includes(location)) {
+          pageUrls.push(location);
+        }
+      }
+    }
+
+    const pages = new Map<string, { title: string | null; text: string }>();
+    for (const url of pageUrls) {
+      try {
+        const page = await this.fetchUrl(url);
+        if (!page.contentType.includes('html')) continue;
+
+        const { title, text } = htmlToText(page.body);
+        if (text) pages.set(url, { title, text });
+      } catch (error) {
+        logger.warn('knowledge-base-sync', `Skipping ${url}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Breadth-first crawl of the pages under the start URL's path on the same host
+   */
+  private async crawlWebsite(startUrl: string, maxPages: number): Promise<Map<string, { title: string | null; text: string }>> {
+    const start = new URL(startUrl);
+    const scope = start.pathname.endsWith('/') ? start.pathname : start.pathname.replace(/[^/]*$/, '');
+    const normalize = (url: URL) => `${url.origin}${url.pathname}`;
+
+    const pages = new Map<string, { title: string | null; text: string }>();
+    const queue = [normalize(start)];
+    const seen = new Set(queue);
+    let fetched = 0;
+
+    while (queue.length > 0 && pages.size < maxPages && fetched < maxPages * 2) {
+      const url = queue.shift()!;
+      fetched++;
+
+      try {
+        const page = await this.fetchUrl(url);
+        if (!page.contentType.includes('html')) continue;
+
+        const { title, text } = htmlToText(page.body);
+        if (text) pages.set(url, { title, text });
+
+        for (const link of extractLinks(page.body, page.url)) {
+          const target = new URL(link);
+          const normalized = normalize(target);
+          if (target.host === start.host && target.pathname.startsWith(scope) && !seen.has(normalized)) {
+            seen.add(normalized);
+            queue.push(normalized);
+          }
+        }
+      } catch (error) {
+        if (url === normalize(start)) throw error;
+        logger.warn('knowledge-base-sync', `Skipping ${url}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * GET a public URL, validating every redirect target
+   */
+  private async fetchUrl(url: string): Promise<FetchedPage> {
+    let current = url;
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const urlError = await validateSourceUrl(current);
+      if (urlError) {
+        throw new Error(`${current}: ${urlError}`);
+      }
+
+      const response = await axios.get<string>(current, {
+        timeout: REQUEST_TIMEOUT,
+        maxRedirects: 0,
+        maxContentLength: MAX_PAGE_BYTES,
+        responseType: 'text',
+        validateStatus: status => status < 400,
+        headers: { 'User-Agent': 'PowerChatPlus-KnowledgeBase/1.0' }
+      });
+
+      if (response.status >= 300 && response.headers.location) {
+        current = new URL(response.headers.location, current).toString();
+        continue;
+      }
+
+      return {
+        url: current,
+        body: typeof response.data === 'string' ? response.data : String(response.data),
+        contentType: String(response.headers['content-type'] || '')
+      };
+    }
+
+    throw new Error(`${url}: Too many redirects`);
+  }
+}
+
+export const knowledgeBaseSyncService = new KnowledgeBaseSyncService();
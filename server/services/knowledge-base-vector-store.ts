@@ -0,0 +1,193 @@
+import { db } from '../db';
+import {
+  knowledgeBaseChunks,
+  type KnowledgeBaseChunk,
+  type KnowledgeBaseConfig,
+  type KnowledgeBaseDocument
+} from '../../shared/schema';
+import { and, desc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { pineconeService, type UpsertVector } from './pinecone-service';
+
+export type VectorStoreType = KnowledgeBaseConfig['vectorStore'];
+
+export const VECTOR_STORE_TYPES: VectorStoreType[] = ['pinecone', 'postgres'];
+
+export interface ChunkVector {
+  chunk: KnowledgeBaseChunk;
+  document: KnowledgeBaseDocument;
+  embedding: number[];
+}
+
+export interface VectorMatch {
+  chunkId: number;
+  score: number;
+}
+
+/**
+ * Storage backend for knowledge base chunk embeddings.
+ * Vectors are scoped to a company and AI Assistant node.
+ */
+export interface VectorStore {
+  upsertVectors(companyId: number, nodeId: string, vectors: ChunkVector[]): Promise<void>;
+
+  queryVectors(
+    companyId: number,
+    nodeId: string,
+    queryEmbedding: number[],
+    documentIds: number[],
+    topK: number,
+    similarityThreshold: number
+  ): Promise<VectorMatch[]>;
+
+  /**
+   * Return the stored embedding of each chunk that has one, keyed by chunk ID
+   */
+  fetchVectors(companyId: number, nodeId: string, chunkIds: number[]): Promise<Map<number, number[]>>;
+
+  deleteDocumentVectors(companyId: number, nodeId: string, documentId: number): Promise<void>;
+}
+
+function toVectorId(chunkId: number): string {
+  return `chunk-${chunkId}`;
+}
+
+function fromVectorId(vectorId: string): number {
+  return parseInt(vectorId.replace('chunk-', ''));
+}
+
+/**
+ * Pinecone-backed store, one namespace per company and node
+ */
+class PineconeVectorStore implements VectorStore {
+  async upsertVectors(companyId: number, nodeId: string, vectors: ChunkVector[]): Promise<void> {
+    if (vectors.length === 0) return;
+
+    const records: UpsertVector[] = vectors.map(({ chunk, document, embedding }) => ({
+      id: toVectorId(chunk.id),
+      values: embedding,
+      metadata: {
+        companyId,
+        nodeId,
+        documentId: document.id,
+        chunkId: chunk.id,
+        chunkIndex: chunk.chunkIndex,
+        content: chunk.content,
+        tokenCount: chunk.tokenCount || 0,
+        documentName: document.originalName,
+        mimeType: document.mimeType,
+        startPosition: chunk.startPosition || 0,
+        endPosition: chunk.endPosition || 0,
+        createdAt: new Date().toISOString(),
+      },
+    }));
+
+    await pineconeService.ensureIndex(companyId, nodeId);
+    await pineconeService.upsertVectors(companyId, nodeId, records);
+  }
+
+  async queryVectors(
+    companyId: number,
+    nodeId: string,
+    queryEmbedding: number[],
+    documentIds: number[],
+    topK: number,
+    similarityThreshold: number
+  ): Promise<VectorMatch[]> {
+    if (documentIds.length === 0) return [];
+
+    const results = await pineconeService.queryVectors(
+      companyId,
+      nodeId,
+      queryEmbedding,
+      topK,
+      similarityThreshold,
+      { documentId: { $in: documentIds } }
+    );
+
+    return results.map(result => ({ chunkId: fromVectorId(result.id), score: result.score }));
+  }
+
+  async fetchVectors(companyId: number, nodeId: string, chunkIds: number[]): Promise<Map<number, number[]>> {
+    const vectors = await pineconeService.fetchVectors(companyId, nodeId, chunkIds.map(toVectorId));
+
+    return new Map(Array.from(vectors, ([id, values]) => [fromVectorId(id), values]));
+  }
+
+  async deleteDocumentVectors(companyId: number, nodeId: string, documentId: number): Promise<void> {
+    await pineconeService.deleteDocumentVectors(companyId, nodeId, documentId);
+  }
+}
+
+/**
+ * Stores embeddings on knowledge_base_chunks and ranks them with the
+ * kb_cosine_similarity SQL function, so no external service is needed.
+ * Chunks are already scoped to the node through its associated documents.
+ */
+class PostgresVectorStore implements VectorStore {
+  async upsertVectors(companyId: number, nodeId: string, vectors: ChunkVector[]): Promise<void> {
+    if (vectors.length === 0) return;
+
+    await db.transaction(async (tx) => {
+      for (const { chunk, embedding } of vectors) {
+        await tx.update(knowledgeBaseChunks)
+          .set({ embedding })
+          .where(eq(knowledgeBaseChunks.id, chunk.id));
+      }
+    });
+  }
+
+  async queryVectors(
+    companyId: number,
+    nodeId: string,
+    queryEmbedding: number[],
+    documentIds: number[],
+    topK: number,
+    similarityThreshold: number
+  ): Promise<VectorMatch[]> {
+    if (documentIds.length === 0 || queryEmbedding.length === 0) return [];
+
+    const queryVector = `{${queryEmbedding.join(',')}}`;
+    const similarity = sql<number>`kb_cosine_similarity(${knowledgeBaseChunks.embedding}, ${queryVector}::real[])`;
+
+    const matches = await db.select({ chunkId: knowledgeBaseChunks.id, score: similarity })
+      .from(knowledgeBaseChunks)
+      .where(and(
+        inArray(knowledgeBaseChunks.documentId, documentIds),
+        isNotNull(knowledgeBaseChunks.embedding),
+        sql`array_length(${knowledgeBaseChunks.embedding}, 1) = ${queryEmbedding.length}`,
+        sql`${similarity} >= ${similarityThreshold}`
+      ))
+      .orderBy(desc(similarity))
+      .limit(topK);
+
+    return matches.map(match => ({ chunkId: match.chunkId, score: Number(match.score) }));
+  }
+
+  async fetchVectors(companyId: number, nodeId: string, chunkIds: number[]): Promise<Map<number, number[]>> {
+    if (chunkIds.length === 0) return new Map();
+
+    const rows = await db.select({ id: knowledgeBaseChunks.id, embedding: knowledgeBaseChunks.embedding })
+      .from(knowledgeBaseChunks)
+      .where(and(
+        inArray(knowledgeBaseChunks.id, chunkIds),
+        isNotNull(knowledgeBaseChunks.embedding)
+      ));
+
+    return new Map(rows.map(row => [row.id, row.embedding!]));
+  }
+
+  async deleteDocumentVectors(companyId: number, nodeId: string, documentId: number): Promise<void> {
+    await db.update(knowledgeBaseChunks)
+      .set({ embedding: null })
+      .where(eq(knowledgeBaseChunks.documentId, documentId));
+  }
+}
+
+const vectorStores: Record<VectorStoreType, VectorStore> = {
+  pinecone: new PineconeVectorStore(),
+  postgres: new PostgresVectorStore()
+};
+
+export function getVectorStore(type: VectorStoreType | null | undefined): VectorStore {
+  return vectorStores[type || 'pinecone'];
+}
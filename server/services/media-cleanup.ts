@@ -1,5 +1,6 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { mediaStorage } from './media-storage';
 
 /**
  * Service for cleaning up media files associated with conversations
@@ -40,7 +41,7 @@ export class MediaCleanupService {
           continue;
         }
 
-        const exists = await fs.pathExists(filePath);
+        const exists = await fs.pathExists(filePath) || await mediaStorage.exists(filePath);
         if (!exists) {
           
           continue;
@@ -52,7 +53,7 @@ export class MediaCleanupService {
           continue;
         }
 
-        await fs.unlink(filePath);
+        await mediaStorage.deleteMedia(filePath);
         deletedFiles.push(mediaUrl);
         
 
@@ -76,6 +77,18 @@ export class MediaCleanupService {
     };
   }
 
+  /**
+   * Resolve a media URL or stored file path to a file inside the media or uploads directories
+   * @param mediaUrl Media URL (e.g., /media/image/filename.jpg) or absolute file path
+   * @returns File system path, or null for remote or unsafe URLs
+   */
+  resolveLocalPath(mediaUrl: string): string | null {
+    const filePath = path.isAbsolute(mediaUrl) && this.isValidFilePath(mediaUrl)
+      ? mediaUrl
+      : this.getFilePathFromUrl(mediaUrl);
+    return filePath && this.isValidFilePath(filePath) ? filePath : null;
+  }
+
   /**
    * Convert media URL to file system path
    * @param mediaUrl Media URL (e.g., /media/image/filename.jpg)
@@ -150,11 +163,10 @@ export class MediaCleanupService {
           continue;
         }
 
-        const exists = await fs.pathExists(filePath);
-        if (exists) {
+        const fileStats = await mediaStorage.statMedia(filePath);
+        if (fileStats) {
           stats.existingFiles++;
           
-          const fileStats = await fs.stat(filePath);
           stats.totalSize += fileStats.size;
 
           const ext = path.extname(filePath).toLowerCase();
@@ -0,0 +1,408 @@
+import fs from 'fs-extra';
+import path from 'path';
+import mimeTypes from 'mime-types';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createS3ClientFromEnv, S3Client } from './s3-client';
+import { logger } from '../utils/logger';
+
+/**
+ * Media storage
+ * Media files keep their /media/... and /uploads/... URLs. With MEDIA_STORAGE_DRIVER=s3 and the
+ * S3_* variables set, files are moved to the bucket under the same path ("media/..." or
+ * "uploads/..." after S3_MEDIA_PREFIX) and requests for them are redirected to signed URLs.
+ *   MEDIA_STORAGE_DRIVER                local (default) or s3
+ *   S3_MEDIA_PREFIX                     key prefix for media objects, empty by default
+ *   MEDIA_STORAGE_OFFLOAD_AFTER_HOURS   age after which local files are moved, defaults to 24
+ *   MEDIA_SIGNED_URL_EXPIRY             signed URL lifetime in seconds, defaults to 3600
+ */
+
+export type MediaRoot = 'media' | 'uploads';
+
+export interface MediaFileStats {
+  size: number;
+  createdAt: Date;
+  modifiedAt: Date;
+  location: 'local' | 's3';
+}
+
+export interface MediaMigrationOptions {
+  dryRun?: boolean;
+  keepLocal?: boolean;
+  olderThanMs?: number;
+  onFile?: (localPath: string, key: string) => void;
+}
+
+export interface MediaMigrationResult {
+  migrated: number;
+  skipped: number;
+  failed: number;
+  bytes: number;
+  errors: string[];
+}
+
+const MEDIA_ROOTS: Record<MediaRoot, string> = {
+  media: path.join(process.cwd(), 'public', 'media'),
+  uploads: path.join(process.cwd(), 'uploads')
+};
+
+/**
+ * Directories that stay on local disk: files the server reads back by path
+ * (knowledge base ingestion, scheduled and flow media, imports) and public site assets
+ */
+const LOCAL_ONLY_DIRECTORIES: Record<MediaRoot, string[]> = {
+  media: ['flow-media'],
+  uploads: ['knowledge-base', 'branding', 'pages', 'api', 'csv', 'deals', 'flow-media', 'scheduled-media', 'temp', 'tmp']
+};
+
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export class MediaStorageService {
+  private client: S3Client | null;
+  private prefix: string;
+  private interval: NodeJS.Timeout | null = null;
+  private isSweeping = false;
+
+  constructor() {
+    this.client = (process.env.MEDIA_STORAGE_DRIVER || 'local').toLowerCase() === 's3'
+      ? createS3ClientFromEnv()
+      : null;
+    this.prefix = (process.env.S3_MEDIA_PREFIX ?? '').replace(/^\/+/, '');
+  }
+
+  /**
+   * Whether media files are moved to object storage
+   */
+  isObjectStorageEnabled(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Object key for a media URL (/media/..., /uploads/...) or a path inside the media
+   * directories, or null for remote URLs and paths outside them
+   */
+  getObjectKey(mediaUrlOrPath: string): string | null {
+    const location = this.resolve(mediaUrlOrPath);
+    return location ? `${this.prefix}${location.root}/${location.relativePath}` : null;
+  }
+
+  /**
+   * Upload a local file to object storage and remove the local copy
+   * @returns True when the file was moved
+   */
+  async offloadFile(localPath: string, options: { keepLocal?: boolean } = {}): Promise<boolean> {
+    const location = this.resolve(localPath);
+    if (!this.client || !location || this.isLocalOnly(location.root, location.relativePath)) {
+      return false;
+    }
+
+    const key = `${this.prefix}${location.root}/${location.relativePath}`;
+    const contentType = mimeTypes.lookup(localPath) || 'application/octet-stream';
+    await this.client.putObjectFromFile(key, location.localPath, contentType);
+
+    if (!options.keepLocal) {
+      await fs.unlink(location.localPath);
+    }
+    return true;
+  }
+
+  /**
+   * Size and modification time of a media file, from local disk or object storage
+   */
+  async statMedia(mediaUrlOrPath: string): Promise<MediaFileStats | null> {
+    const location = this.resolve(mediaUrlOrPath);
+    if (!location) {
+      return null;
+    }
+
+    if (await fs.pathExists(location.localPath)) {
+      const stats = await fs.stat(location.localPath);
+      return { size: stats.size, createdAt: stats.birthtime, modifiedAt: stats.mtime, location: 'local' };
+    }
+
+    if (!this.client) {
+      return null;
+    }
+
+    const object = await this.client.headObject(`${this.prefix}${location.root}/${location.relativePath}`);
+    return object ? { size: object.size, createdAt: object.lastModified, modifiedAt: object.lastModified, location: 's3' } : null;
+  }
+
+  async exists(mediaUrlOrPath: string): Promise<boolean> {
+    return (await this.statMedia(mediaUrlOrPath)) !== null;
+  }
+
+  /**
+   * Delete a media file from local disk and object storage
+   * @returns True when a copy was found and deleted
+   */
+  async deleteMedia(mediaUrlOrPath: string): Promise<boolean> {
+    const location = this.resolve(mediaUrlOrPath);
+    if (!location) {
+      return false;
+    }
+
+    let deleted = false;
+    if (await fs.pathExists(location.localPath)) {
+      await fs.unlink(location.localPath);
+      deleted = true;
+    }
+
+    if (this.client) {
+      const key = `${this.prefix}${location.root}/${location.relativePath}`;
+      if (await this.client.headObject(key)) {
+        await this.client.deleteObject(key);
+        deleted = true;
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Signed download URL for a media file that lives in object storage, or null when the
+   * file is not there
+   */
+  async getSignedUrl(mediaUrlOrPath: string, downloadName?: string): Promise<string | null> {
+    const location = this.resolve(mediaUrlOrPath);
+    if (!this.client || !location) {
+      return null;
+    }
+
+    const key = `${this.prefix}${location.root}/${location.relativePath}`;
+    if (!await this.client.headObject(key)) {
+      return null;
+    }
+    return this.client.presignGetUrl(key, this.getSignedUrlExpiry(), downloadName);
+  }
+
+  /**
+   * Download a media file back to its local path, for code that reads media from disk
+   * @returns True when the local file exists afterwards
+   */
+  async restoreLocalCopy(localPath: string): Promise<boolean> {
+    const location = this.resolve(localPath);
+    if (!location) {
+      return false;
+    }
+    if (await fs.pathExists(location.localPath)) {
+      return true;
+    }
+    if (!this.client) {
+      return false;
+    }
+
+    const key = `${this.prefix}${location.root}/${location.relativePath}`;
+    if (!await this.client.headObject(key)) {
+      return false;
+    }
+
+    await fs.ensureDir(path.dirname(location.localPath));
+    const tempPath = `${location.localPath}.download`;
+    try {
+      await this.client.getObjectToFile(key, tempPath);
+      await fs.move(tempPath, location.localPath, { overwrite: true });
+    } catch (error) {
+      await fs.remove(tempPath).catch(() => {});
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Middleware mounted after the static handler of a media root: files that are no longer
+   * on local disk are redirected to a signed object storage URL
+   */
+  redirectMiddleware(root: MediaRoot): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!this.client || (req.method !== 'GET' && req.method !== 'HEAD')) {
+        return next();
+      }
+
+      let relativePath: string;
+      try {
+        relativePath = path.posix.normalize(decodeURIComponent(req.path)).replace(/^\/+/, '');
+      } catch {
+        return next();
+      }
+      if (!relativePath || relativePath.startsWith('..') || this.isLocalOnly(root, relativePath)) {
+        return next();
+      }
+
+      try {
+        const signedUrl = await this.getSignedUrl(path.join(MEDIA_ROOTS[root], relativePath));
+        if (!signedUrl) {
+          return next();
+        }
+        res.setHeader('Cache-Control', 'private, no-store');
+        res.redirect(302, signedUrl);
+      } catch (error) {
+        logger.error('media-storage', `Error resolving ${root}/${relativePath} in object storage`, error);
+        next();
+      }
+    };
+  }
+
+  /**
+   * Move local media files to object storage
+   * @param options.dryRun Only report the files that would be moved
+   * @param options.keepLocal Upload without deleting the local copies
+   * @param options.olderThanMs Skip files modified more recently than this
+   */
+  async migrateLocalFiles(options: MediaMigrationOptions = {}): Promise<MediaMigrationResult> {
+    if (!this.client) {
+      throw new Error('Media object storage is not enabled. Set MEDIA_STORAGE_DRIVER=s3 and the S3_* variables.');
+    }
+
+    const result: MediaMigrationResult = { migrated: 0, skipped: 0, failed: 0, bytes: 0, errors: [] };
+    const cutoff = options.olderThanMs !== undefined ? Date.now() - options.olderThanMs : null;
+
+    for (const root of Object.keys(MEDIA_ROOTS) as MediaRoot[]) {
+      for await (const localPath of this.walk(MEDIA_ROOTS[root])) {
+        const relativePath = path.relative(MEDIA_ROOTS[root], localPath).split(path.sep).join('/');
+
+        // Files directly in public/media are bundled placeholders, not message media
+        if (this.isLocalOnly(root, relativePath) || (root === 'media' && !relativePath.includes('/'))) {
+          result.skipped++;
+          continue;
+        }
+
+        try {
+          const stats = await fs.stat(localPath);
+          if (cutoff !== null && stats.mtimeMs > cutoff) {
+            result.skipped++;
+            continue;
+          }
+
+          options.onFile?.(localPath, `${this.prefix}${root}/${relativePath}`);
+          if (!options.dryRun) {
+            await this.offloadFile(localPath, { keepLocal: options.keepLocal });
+          }
+          result.migrated++;
+          result.bytes += stats.size;
+        } catch (error) {
+          result.failed++;
+          result.errors.push(`${localPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Start moving media older than MEDIA_STORAGE_OFFLOAD_AFTER_HOURS to object storage every hour
+   */
+  start(): void {
+    if (!this.client) {
+      logger.info('media-storage', 'Media object storage is not enabled, files stay on local disk');
+      return;
+    }
+    if (this.interval) {
+      logger.info('media-storage', 'Media offload sweeper is already running');
+      return;
+    }
+
+    this.interval = setInterval(() => {
+      this.sweep().catch(error => logger.error('media-storage', 'Error moving media to object storage', error));
+    }, SWEEP_INTERVAL);
+  }
+
+  /**
+   * Stop the media offload sweeper
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    if (this.isSweeping) return;
+    this.isSweeping = true;
+
+    try {
+      const hours = parseFloat(process.env.MEDIA_STORAGE_OFFLOAD_AFTER_HOURS || '24');
+      const result = await this.migrateLocalFiles({ olderThanMs: (isNaN(hours) ? 24 : hours) * HOUR_MS });
+      if (result.migrated > 0 || result.failed > 0) {
+        logger.info('media-storage', `Moved ${result.migrated} media files to object storage, ${result.failed} failed`);
+      }
+      for (const error of result.errors.slice(0, 10)) {
+        logger.warn('media-storage', error);
+      }
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  private getSignedUrlExpiry(): number {
+    const seconds = parseInt(process.env.MEDIA_SIGNED_URL_EXPIRY || '3600');
+    return isNaN(seconds) || seconds <= 0 ? 3600 : Math.min(seconds, 7 * 24 * 3600);
+  }
+
+  private isLocalOnly(root: MediaRoot, relativePath: string): boolean {
+    const topLevel = relativePath.split('/')[0];
+    return relativePath.includes('/') && LOCAL_ONLY_DIRECTORIES[root].includes(topLevel);
+  }
+
+  /**
+   * Map a media URL or a path inside one of the media roots to its root, path relative to
+   * the root and local file path. Rejects paths that escape the roots.
+   */
+  private resolve(mediaUrlOrPath: string): { root: MediaRoot; relativePath: string; localPath: string } | null {
+    let localPath: string;
+
+    if (mediaUrlOrPath.startsWith('http://') || mediaUrlOrPath.startsWith('https://')) {
+      return null;
+    } else if (path.isAbsolute(mediaUrlOrPath) && !/^\/(media|uploads)\//.test(mediaUrlOrPath)) {
+      localPath = path.resolve(mediaUrlOrPath);
+    } else {
+      let url: string;
+      try {
+        url = decodeURIComponent(mediaUrlOrPath.split('?')[0]).replace(/^\/+/, '');
+      } catch {
+        return null;
+      }
+
+      if (url.startsWith('media/')) {
+        localPath = path.resolve(MEDIA_ROOTS.media, url.slice('media/'.length));
+      } else if (url.startsWith('uploads/')) {
+        localPath = path.resolve(MEDIA_ROOTS.uploads, url.slice('uploads/'.length));
+      } else {
+        return null;
+      }
+    }
+
+    for (const root of Object.keys(MEDIA_ROOTS) as MediaRoot[]) {
+      if (localPath.startsWith(MEDIA_ROOTS[root] + path.sep)) {
+        return {
+          root,
+          relativePath: path.relative(MEDIA_ROOTS[root], localPath).split(path.sep).join('/'),
+          localPath
+        };
+      }
+    }
+    return null;
+  }
+
+  private async *walk(directory: string): AsyncGenerator<string> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.walk(entryPath);
+      } else if (entry.isFile() && !entry.name.endsWith('.download')) {
+        yield entryPath;
+      }
+    }
+  }
+}
+
+export const mediaStorage = new MediaStorageService();
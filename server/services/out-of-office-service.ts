@@ -0,0 +1,114 @@
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  conversations,
+  outOfOfficeReplies,
+  type InsertOutOfOfficeReply,
+  type Message,
+  type OutOfOfficeReply
+} from '@shared/schema';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { businessHoursService } from './business-hours-service';
+import { sendChannelText } from './channel-text-sender';
+import { satisfactionSurveyService } from './satisfaction-survey-service';
+
+export const OUT_OF_OFFICE_CHANNEL_TYPES = [
+  'whatsapp_official',
+  'whatsapp',
+  'whatsapp_unofficial',
+  'messenger',
+  'instagram',
+  'webchat'
+];
+
+export type OutOfOfficeReplyInput = Pick<InsertOutOfOfficeReply, 'calendarId' | 'isEnabled' | 'message' | 'cooldownMinutes'>;
+
+/**
+ * Out-of-office Service
+ * Answers inbound messages on a channel connection while its business-hours calendar is closed,
+ * at most once per conversation within the cooldown.
+ */
+export class OutOfOfficeService {
+  async getReplies(companyId: number): Promise<OutOfOfficeReply[]> {
+    return db.select().from(outOfOfficeReplies).where(eq(outOfOfficeReplies.companyId, companyId));
+  }
+
+  async getReplyForConnection(channelConnectionId: number): Promise<OutOfOfficeReply | null> {
+    const [reply] = await db
+      .select()
+      .from(outOfOfficeReplies)
+      .where(eq(outOfOfficeReplies.channelConnectionId, channelConnectionId));
+    return reply || null;
+  }
+
+  async saveReply(companyId: number, channelConnectionId: number, data: OutOfOfficeReplyInput): Promise<OutOfOfficeReply> {
+    const [reply] = await db
+      .insert(outOfOfficeReplies)
+      .values({ ...data, companyId, channelConnectionId })
+      .onConflictDoUpdate({
+        target: outOfOfficeReplies.channelConnectionId,
+        set: { ...data, updatedAt: new Date() }
+      })
+      .returning();
+    return reply;
+  }
+
+  async deleteReply(channelConnectionId: number): Promise<void> {
+    await db.delete(outOfOfficeReplies).where(eq(outOfOfficeReplies.channelConnectionId, channelConnectionId));
+  }
+
+  async handleInboundMessage(message: Message): Promise<void> {
+    if (message.direction !== 'inbound' || message.isFromBot || message.isHistorySync) {
+      return;
+    }
+    if (satisfactionSurveyService.isSurveyReply(message.id)) {
+      return;
+    }
+
+    const conversation = await storage.getConversation(message.conversationId);
+    if (!conversation?.channelId || !conversation.companyId || conversation.isGroup) {
+      return;
+    }
+
+    const reply = await this.getReplyForConnection(conversation.channelId);
+    if (!reply?.isEnabled || !reply.message.trim()) {
+      return;
+    }
+
+    const calendar = await businessHoursService.getCompanyCalendar(conversation.companyId, reply.calendarId);
+    if (!calendar || businessHoursService.isOpen(calendar)) {
+      return;
+    }
+
+    // Claim the reply on the conversation first so simultaneous messages send it once
+    const now = new Date();
+    const cooldownStart = new Date(now.getTime() - reply.cooldownMinutes * 60 * 1000);
+    const [claimed] = await db
+      .update(conversations)
+      .set({ outOfOfficeRepliedAt: now })
+      .where(and(
+        eq(conversations.id, conversation.id),
+        or(isNull(conversations.outOfOfficeRepliedAt), lt(conversations.outOfOfficeRepliedAt, cooldownStart))
+      ))
+      .returning({ id: conversations.id });
+    if (!claimed) {
+      return;
+    }
+
+    try {
+      const contact = conversation.contactId ? await storage.getContact(conversation.contactId) : null;
+      const connection = await storage.getChannelConnection(conversation.channelId);
+      if (!contact || !connection || !OUT_OF_OFFICE_CHANNEL_TYPES.includes(connection.channelType)) {
+        return;
+      }
+
+      await sendChannelText(conversation, contact, connection, reply.message);
+      logger.info('out-of-office', `Sent out-of-office reply in conversation ${conversation.id}`);
+    } catch (error) {
+      logger.error('out-of-office', `Failed to send out-of-office reply in conversation ${conversation.id}`, error);
+    }
+  }
+}
+
+export const outOfOfficeService = new OutOfOfficeService();
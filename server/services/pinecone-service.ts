@@ -9,7 +9,7 @@ interface PineconeCredentials {
   indexName: string; // Will be auto-generated if not provided
 }
 
-interface VectorMetadata extends RecordMetadata {
+export interface VectorMetadata extends RecordMetadata {
   companyId: number;
   nodeId: string;
   documentId: number;
@@ -24,7 +24,7 @@ interface VectorMetadata extends RecordMetadata {
   createdAt: string;
 }
 
-interface UpsertVector {
+export interface UpsertVector {
   id: string;
   values: number[];
   metadata: VectorMetadata;
@@ -192,7 +192,8 @@ export class PineconeService {
     nodeId: string,
     queryEmbedding: number[],
     topK: number,
-    similarityThreshold: number = 0.7
+    similarityThreshold: number = 0.7,
+    filter?: Record<string, unknown>
   ): Promise<QueryResult[]> {
     try {
       const { client, indexName } = await this.getPineconeClient(companyId, nodeId);
@@ -205,9 +206,9 @@ export class PineconeService {
         topK,
         includeMetadata: true,
         includeValues: false, // Don't return embeddings to save bandwidth
+        ...(filter ? { filter } : {}),
       });
 
-
       return results.matches
         .filter(match => match.score !== undefined && match.score >= similarityThreshold)
         .map(match => ({
@@ -221,6 +222,39 @@ export class PineconeService {
     }
   }
 
+  /**
+   * Fetch stored vector values by IDs
+   */
+  async fetchVectors(
+    companyId: number,
+    nodeId: string,
+    vectorIds: string[]
+  ): Promise<Map<string, number[]>> {
+    try {
+      const { client, indexName } = await this.getPineconeClient(companyId, nodeId);
+      const namespace = this.getNamespace(companyId, nodeId);
+
+      const index = client.index(indexName);
+
+      const vectors = new Map<string, number[]>();
+      const batchSize = 100;
+      for (let i = 0; i < vectorIds.length; i += batchSize) {
+        const batch = vectorIds.slice(i, i + batchSize);
+        const response = await index.namespace(namespace).fetch(batch);
+        for (const [id, record] of Object.entries(response.records)) {
+          if (record.values?.length) {
+            vectors.set(id, record.values);
+          }
+        }
+      }
+
+      return vectors;
+    } catch (error) {
+      console.error('Error fetching vectors from Pinecone:', error);
+      throw new Error(`Failed to fetch vectors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Delete vectors by IDs
    */
@@ -0,0 +1,330 @@
+import axios from 'axios';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  deals,
+  pipelineStageAutomationRuns,
+  pipelineStageAutomations,
+  pipelineStages,
+  quickReplyTemplates,
+  type Contact,
+  type Deal,
+  type InsertPipelineStageAutomation,
+  type PipelineStage,
+  type PipelineStageAutomation,
+  type PipelineStageAutomationRun,
+  type StageAutomationAction,
+  type StageAutomationTrigger
+} from '@shared/schema';
+import { and, asc, desc, eq, lte, sql } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { sendChannelText } from './channel-text-sender';
+import { validateWebhookUrl } from './webhook-subscription-service';
+
+export type StageAutomationInput = Omit<InsertPipelineStageAutomation, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>;
+
+interface AutomationContext {
+  automation: PipelineStageAutomation;
+  deal: Deal;
+  stage: PipelineStage;
+  contact: Contact | null;
+  depth: number;
+}
+
+const IDLE_CHECK_INTERVAL = 15 * 60 * 1000;
+const IDLE_BATCH_SIZE = 100;
+const MAX_CHAIN_DEPTH = 5; // stage moves made by automations that may trigger further automations
+const WEBHOOK_TIMEOUT = 10 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pipeline Automation Service
+ * Runs per-stage automations when a deal enters or leaves a stage, or stays in a stage
+ * without activity. Storage checks the fields a stage requires before a deal can enter it.
+ */
+export class PipelineAutomationService {
+  private idleInterval: NodeJS.Timeout | null = null;
+  private isCheckingIdle = false;
+
+  /**
+   * Start the idle deal monitor
+   */
+  start(): void {
+    if (this.idleInterval) {
+      logger.info('pipeline-automation', 'Idle deal monitor is already running');
+      return;
+    }
+
+    this.idleInterval = setInterval(() => {
+      this.checkIdleDeals().catch(error => logger.error('pipeline-automation', 'Error checking idle deals', error));
+    }, IDLE_CHECK_INTERVAL);
+  }
+
+  /**
+   * Stop the idle deal monitor
+   */
+  stop(): void {
+    if (this.idleInterval) {
+      clearInterval(this.idleInterval);
+      this.idleInterval = null;
+    }
+  }
+
+  async getAutomations(companyId: number, pipelineId?: number): Promise<PipelineStageAutomation[]> {
+    const conditions = [eq(pipelineStageAutomations.companyId, companyId)];
+    if (pipelineId) conditions.push(eq(pipelineStages.pipelineId, pipelineId));
+
+    const rows = await db
+      .select({ automation: pipelineStageAutomations })
+      .from(pipelineStageAutomations)
+      .innerJoin(pipelineStages, eq(pipelineStageAutomations.stageId, pipelineStages.id))
+      .where(and(...conditions))
+      .orderBy(asc(pipelineStages.order), asc(pipelineStageAutomations.id));
+    return rows.map(row => row.automation);
+  }
+
+  async getAutomation(id: number): Promise<PipelineStageAutomation | null> {
+    const [automation] = await db.select().from(pipelineStageAutomations).where(eq(pipelineStageAutomations.id, id));
+    return automation || null;
+  }
+
+  async createAutomation(companyId: number, data: StageAutomationInput): Promise<PipelineStageAutomation> {
+    const [automation] = await db
+      .insert(pipelineStageAutomations)
+      .values({ ...data, companyId })
+      .returning();
+    return automation;
+  }
+
+  async updateAutomation(id: number, data: StageAutomationInput): Promise<PipelineStageAutomation> {
+    const [automation] = await db
+      .update(pipelineStageAutomations)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(pipelineStageAutomations.id, id))
+      .returning();
+    return automation;
+  }
+
+  async deleteAutomation(id: number): Promise<void> {
+    await db.delete(pipelineStageAutomations).where(eq(pipelineStageAutomations.id, id));
+  }
+
+  async getRuns(automationId: number, limit = 50): Promise<PipelineStageAutomationRun[]> {
+    return db
+      .select()
+      .from(pipelineStageAutomationRuns)
+      .where(eq(pipelineStageAutomationRuns.automationId, automationId))
+      .orderBy(desc(pipelineStageAutomationRuns.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Run exit automations of the previous stage and enter automations of the deal's stage
+   */
+  async handleStageChange(deal: Deal, previousStageId: number | null, depth = 0): Promise<void> {
+    if (!deal.stageId || deal.stageId === previousStageId) {
+      return;
+    }
+
+    if (previousStageId) {
+      await this.runTrigger(deal, previousStageId, 'exit', depth);
+    }
+    await this.runTrigger(deal, deal.stageId, 'enter', depth);
+  }
+
+  /**
+   * Run idle automations for deals that have had no activity for the configured number of
+   * days. Each automation runs once per idle period; new deal activity starts a new one.
+   */
+  async checkIdleDeals(): Promise<void> {
+    if (this.isCheckingIdle) return;
+    this.isCheckingIdle = true;
+
+    try {
+      const automations = await db
+        .select()
+        .from(pipelineStageAutomations)
+        .where(and(
+          eq(pipelineStageAutomations.trigger, 'idle'),
+          eq(pipelineStageAutomations.isActive, true)
+        ));
+
+      for (const automation of automations) {
+        if (!automation.idleDays) continue;
+
+        const cutoff = new Date(Date.now() - automation.idleDays * DAY_MS);
+        const idleDeals = await db
+          .select()
+          .from(deals)
+          .where(and(
+            eq(deals.stageId, automation.stageId),
+            eq(deals.companyId, automation.companyId),
+            lte(deals.lastActivityAt, cutoff),
+            sql`NOT EXISTS (
+              SELECT 1 FROM ${pipelineStageAutomationRuns}
+              WHERE ${pipelineStageAutomationRuns.automationId} = ${automation.id}
+                AND ${pipelineStageAutomationRuns.dealId} = ${deals.id}
+                AND ${pipelineStageAutomationRuns.createdAt} >= ${deals.lastActivityAt}
+            )`
+          ))
+          .limit(IDLE_BATCH_SIZE);
+
+        for (const deal of idleDeals) {
+          await this.runAutomation(automation, deal, 0);
+        }
+      }
+    } finally {
+      this.isCheckingIdle = false;
+    }
+  }
+
+  private async runTrigger(deal: Deal, stageId: number, trigger: StageAutomationTrigger, depth: number): Promise<void> {
+    const automations = await db
+      .select()
+      .from(pipelineStageAutomations)
+      .where(and(
+        eq(pipelineStageAutomations.stageId, stageId),
+        eq(pipelineStageAutomations.trigger, trigger),
+        eq(pipelineStageAutomations.isActive, true)
+      ))
+      .orderBy(asc(pipelineStageAutomations.id));
+
+    for (const automation of automations) {
+      await this.runAutomation(automation, deal, depth);
+    }
+  }
+
+  private async runAutomation(automation: PipelineStageAutomation, deal: Deal, depth: number): Promise<void> {
+    const stage = await storage.getPipelineStage(automation.stageId);
+    if (!stage) return;
+
+    const contact = deal.contactId ? (await storage.getContact(deal.contactId)) || null : null;
+    const context: AutomationContext = { automation, deal, stage, contact, depth };
+    const errors: string[] = [];
+
+    for (const action of automation.actions) {
+      try {
+        context.deal = await this.runAction(action, context);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${action.type}: ${message}`);
+        logger.warn('pipeline-automation', `Automation ${automation.id} action ${action.type} failed for deal ${deal.id}: ${message}`);
+      }
+    }
+
+    const userId = context.deal.assignedToUserId;
+    if (userId) {
+      await storage.createDealActivity({
+        dealId: deal.id,
+        userId,
+        type: 'automation',
+        content: errors.length === 0
+          ? `Automation "${automation.name}" ran`
+          : `Automation "${automation.name}" ran with errors`,
+        metadata: { automationId: automation.id, trigger: automation.trigger, errors }
+      }).catch(error => logger.error('pipeline-automation', `Failed to log automation ${automation.id} on deal ${deal.id}`, error));
+    }
+
+    // Recorded last so that idle checks see the run as newer than the activity it caused
+    await db.insert(pipelineStageAutomationRuns).values({
+      automationId: automation.id,
+      dealId: deal.id,
+      status: errors.length === 0 ? 'success' : 'failed',
+      error: errors.length > 0 ? errors.join('; ') : null
+    });
+  }
+
+  /**
+   * Run one action and return the deal as it is afterwards
+   */
+  private async runAction(action: StageAutomationAction, context: AutomationContext): Promise<Deal> {
+    const { deal } = context;
+
+    switch (action.type) {
+      case 'send_template': {
+        if (!context.contact) throw new Error('Deal has no contact');
+        const [template] = await db
+          .select()
+          .from(quickReplyTemplates)
+          .where(and(
+            eq(quickReplyTemplates.id, action.templateId),
+            eq(quickReplyTemplates.companyId, context.automation.companyId)
+          ));
+        if (!template) throw new Error('Template not found');
+
+        const [conversation] = await storage.getConversationsByContact(context.contact.id);
+        if (!conversation) throw new Error('Contact has no conversation to send on');
+        const connection = await storage.getChannelConnection(conversation.channelId);
+        if (!connection) throw new Error('Conversation channel not found');
+
+        await sendChannelText(conversation, context.contact, connection, this.render(template.content, context));
+        return deal;
+      }
+
+      case 'create_task': {
+        const owner = deal.assignedToUserId ? await storage.getUser(deal.assignedToUserId) : null;
+        await storage.createContactTask({
+          contactId: deal.contactId,
+          companyId: context.automation.companyId,
+          title: this.render(action.title, context),
+          description: action.description ? this.render(action.description, context) : null,
+          priority: action.priority,
+          dueDate: new Date(Date.now() + action.dueInDays * DAY_MS),
+          assignedTo: owner?.email || null
+        });
+        return deal;
+      }
+
+      case 'assign_owner': {
+        const user = await storage.getUser(action.userId);
+        if (!user || user.companyId !== context.automation.companyId) throw new Error('User not found');
+        return storage.updateDeal(deal.id, { assignedToUserId: action.userId });
+      }
+
+      case 'add_tags': {
+        const tags = Array.from(new Set([...(deal.tags || []), ...action.tags]));
+        if (tags.length === (deal.tags || []).length) return deal;
+        return storage.updateDeal(deal.id, { tags });
+      }
+
+      case 'webhook': {
+        const urlError = await validateWebhookUrl(action.url);
+        if (urlError) throw new Error(urlError);
+        await axios.post(action.url, {
+          text: this.render(action.message, context),
+          deal: { id: deal.id, title: deal.title, value: deal.value, currency: deal.currency, stageId: deal.stageId },
+          stage: { id: context.stage.id, name: context.stage.name },
+          trigger: context.automation.trigger
+        }, { timeout: WEBHOOK_TIMEOUT, maxRedirects: 0 });
+        return deal;
+      }
+
+      case 'move_stage': {
+        if (deal.stageId === action.stageId) return deal;
+        if (context.depth >= MAX_CHAIN_DEPTH) throw new Error('Too many chained stage moves');
+
+        const target = await storage.getPipelineStage(action.stageId);
+        if (!target || target.pipelineId !== deal.pipelineId) throw new Error('Target stage is not in the deal pipeline');
+
+        const moved = await storage.updateDealStageId(deal.id, action.stageId, { skipAutomations: true });
+        await this.handleStageChange(moved, deal.stageId, context.depth + 1);
+        return moved;
+      }
+    }
+  }
+
+  private render(text: string, context: AutomationContext): string {
+    const values: Record<string, string> = {
+      'contact.name': context.contact?.name || '',
+      'contact.phone': context.contact?.phone || '',
+      'contact.email': context.contact?.email || '',
+      'contact.company': context.contact?.company || '',
+      'deal.title': context.deal.title,
+      'deal.value': context.deal.value !== null ? String(context.deal.value) : '',
+      'stage.name': context.stage.name
+    };
+    return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key) => (key in values ? values[key] : match));
+  }
+}
+
+export const pipelineAutomationService = new PipelineAutomationService();
@@ -0,0 +1,366 @@
+import axios, { type AxiosResponse, type ResponseType } from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+
+/**
+ * Minimal S3 client (Signature Version 4) for AWS S3 and S3-compatible servers such as MinIO.
+ * Configured through environment variables:
+ *   S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY  required
+ *   S3_REGION                                          defaults to us-east-1
+ *   S3_ENDPOINT                                        e.g. http://localhost:9000 for MinIO, defaults to AWS
+ *   S3_PUBLIC_ENDPOINT                                 endpoint browsers reach, used for signed URLs
+ *   S3_FORCE_PATH_STYLE                                defaults to true when S3_ENDPOINT is set
+ */
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint: string;
+  publicEndpoint: string;
+  forcePathStyle: boolean;
+}
+
+export interface S3Object {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+const MULTIPART_PART_SIZE = 16 * 1024 * 1024;
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+export function getS3ConfigFromEnv(): S3Config | null {
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    return null;
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '');
+
+  return {
+    bucket: S3_BUCKET,
+    region,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    endpoint,
+    publicEndpoint: (process.env.S3_PUBLIC_ENDPOINT || endpoint).replace(/\/+$/, ''),
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : !!process.env.S3_ENDPOINT
+  };
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function xmlValue(xml: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? decodeXml(match[1]) : null;
+}
+
+export class S3Client {
+  constructor(private readonly config: S3Config) {}
+
+  get bucket(): string {
+    return this.config.bucket;
+  }
+
+  /**
+   * Upload a file, using a multipart upload for large files
+   */
+  async putObjectFromFile(key: string, filePath: string, contentType?: string): Promise<void> {
+    const { size } = await fsPromises.stat(filePath);
+
+    if (size > MULTIPART_THRESHOLD) {
+      await this.multipartUpload(key, filePath, size, contentType);
+      return;
+    }
+
+    await this.request('PUT', key, {
+      headers: {
+        'content-length': String(size),
+        ...(contentType ? { 'content-type': contentType } : {})
+      },
+      body: fs.createReadStream(filePath)
+    });
+  }
+
+  /**
+   * Download an object to a local file
+   */
+  async getObjectToFile(key: string, destinationPath: string): Promise<void> {
+    const stream = await this.getObjectStream(key);
+    await pipeline(stream, fs.createWriteStream(destinationPath));
+  }
+
+  async getObjectStream(key: string): Promise<Readable> {
+    const response = await this.request('GET', key, { responseType: 'stream' });
+    return response.data as Readable;
+  }
+
+  /**
+   * Get an object's size and modification time, or null when it does not exist
+   */
+  async headObject(key: string): Promise<S3Object | null> {
+    const response = await this.request('HEAD', key, { allowNotFound: true });
+    if (response.status === 404) {
+      return null;
+    }
+
+    return {
+      key,
+      size: parseInt(String(response.headers['content-length'] ?? '0')),
+      lastModified: new Date(String(response.headers['last-modified'] ?? new Date().toUTCString()))
+    };
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.request('DELETE', key, { allowNotFound: true });
+  }
+
+  /**
+   * List all objects under a prefix
+   */
+  async listObjects(prefix: string): Promise<S3Object[]> {
+    const objects: S3Object[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const response = await this.request('GET', '', { query, responseType: 'text' });
+      const xml = response.data as string;
+
+      for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        objects.push({
+          key: xmlValue(match[1], 'Key') || '',
+          size: parseInt(xmlValue(match[1], 'Size') || '0'),
+          lastModified: new Date(xmlValue(match[1], 'LastModified') || Date.now())
+        });
+      }
+
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : null;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  /**
+   * Check that the bucket exists and the credentials can access it
+   */
+  async checkBucket(): Promise<void> {
+    await this.request('HEAD', '');
+  }
+
+  /**
+   * Create a time-limited URL that downloads an object without credentials
+   */
+  presignGetUrl(key: string, expiresInSeconds: number, downloadName?: string): string {
+    const { host, basePath, baseUrl } = this.getTarget(this.config.publicEndpoint);
+    const { amzDate, scope } = this.getSigningDate();
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSeconds),
+      'X-Amz-SignedHeaders': 'host'
+    };
+    if (downloadName) {
+      query['response-content-disposition'] = `attachment; filename="${downloadName.replace(/"/g, '')}"`;
+    }
+
+    const canonicalUri = `${basePath}/${encodeKey(key)}`;
+    const canonicalQuery = this.canonicalQuery(query);
+    const signature = this.sign(
+      ['GET', canonicalUri, canonicalQuery, `host:${host}\n`, 'host', UNSIGNED_PAYLOAD].join('\n'),
+      amzDate,
+      scope
+    );
+
+    return `${baseUrl}${canonicalUri}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  private async multipartUpload(key: string, filePath: string, size: number, contentType?: string): Promise<void> {
+    const created = await this.request('POST', key, {
+      query: { uploads: '' },
+      headers: contentType ? { 'content-type': contentType } : {},
+      responseType: 'text'
+    });
+    const uploadId = xmlValue(created.data as string, 'UploadId');
+    if (!uploadId) {
+      throw new Error('S3 did not return a multipart upload ID');
+    }
+
+    try {
+      const parts: string[] = [];
+      for (let start = 0, partNumber = 1; start < size; start += MULTIPART_PART_SIZE, partNumber++) {
+        const end = Math.min(start + MULTIPART_PART_SIZE, size) - 1;
+        const response = await this.request('PUT', key, {
+          query: { partNumber: String(partNumber), uploadId },
+          headers: { 'content-length': String(end - start + 1) },
+          body: fs.createReadStream(filePath, { start, end })
+        });
+        parts.push(`<Part><PartNumber>${partNumber}</PartNumber><ETag>${response.headers['etag']}</ETag></Part>`);
+      }
+
+      await this.request('POST', key, {
+        query: { uploadId },
+        headers: { 'content-type': 'application/xml' },
+        body: `<CompleteMultipartUpload>${parts.join('')}</CompleteMultipartUpload>`
+      });
+    } catch (error) {
+      await this.request('DELETE', key, { query: { uploadId }, allowNotFound: true }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    options: {
+      query?: Record<string, string>;
+      headers?: Record<string, string>;
+      body?: Readable | string;
+      responseType?: ResponseType;
+      allowNotFound?: boolean;
+    } = {}
+  ): Promise<AxiosResponse> {
+    const { host, basePath, baseUrl } = this.getTarget(this.config.endpoint);
+    const { amzDate, scope } = this.getSigningDate();
+    const payloadHash = typeof options.body === 'string'
+      ? sha256Hex(options.body)
+      : options.body ? UNSIGNED_PAYLOAD : EMPTY_PAYLOAD_HASH;
+
+    const headers: Record<string, string> = {
+      ...options.headers,
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const signedHeaderNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const canonicalHeaders = signedHeaderNames
+      .map(name => `${name}:${String(headers[name]).trim()}\n`)
+      .join('');
+
+    const canonicalUri = key ? `${basePath}/${encodeKey(key)}` : `${basePath}/`;
+    const canonicalQuery = this.canonicalQuery(options.query || {});
+    const signature = this.sign(
+      [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaderNames.join(';'), payloadHash].join('\n'),
+      amzDate,
+      scope
+    );
+
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await axios.request({
+      method,
+      url: `${baseUrl}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ''}`,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`
+      },
+      data: options.body,
+      responseType: options.responseType || 'text',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      validateStatus: () => true
+    });
+
+    if (response.status >= 300 && !(options.allowNotFound && response.status === 404)) {
+      let body = '';
+      if (options.responseType === 'stream') {
+        (response.data as Readable).resume();
+      } else if (typeof response.data === 'string') {
+        body = response.data;
+      }
+      const code = xmlValue(body, 'Code') || `HTTP ${response.status}`;
+      const message = xmlValue(body, 'Message');
+      throw new Error(`S3 ${method} ${key || this.config.bucket} failed: ${code}${message ? ` - ${message}` : ''}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Resolve the host and path prefix for the bucket on the given endpoint
+   */
+  private getTarget(endpoint: string): { host: string; basePath: string; baseUrl: string } {
+    const url = new URL(endpoint);
+    const endpointPath = url.pathname.replace(/\/+$/, '');
+
+    if (this.config.forcePathStyle) {
+      return {
+        host: url.host,
+        basePath: `${endpointPath}/${encodeRfc3986(this.config.bucket)}`,
+        baseUrl: `${url.protocol}//${url.host}`
+      };
+    }
+
+    const host = `${this.config.bucket}.${url.host}`;
+    return { host, basePath: endpointPath, baseUrl: `${url.protocol}//${host}` };
+  }
+
+  private getSigningDate(): { amzDate: string; scope: string } {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    return { amzDate, scope: `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request` };
+  }
+
+  private canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+  }
+
+  private sign(canonicalRequest: string, amzDate: string, scope: string): string {
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, amzDate.slice(0, 8));
+    const regionKey = hmac(dateKey, this.config.region);
+    const serviceKey = hmac(regionKey, 's3');
+    const signingKey = hmac(serviceKey, 'aws4_request');
+
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+}
+
+/**
+ * Create a client from the S3_* environment variables, or null when they are not set
+ */
+export function createS3ClientFromEnv(): S3Client | null {
+  const config = getS3ConfigFromEnv();
+  return config ? new S3Client(config) : null;
+}
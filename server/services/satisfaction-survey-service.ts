@@ -0,0 +1,738 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { storage, type SatisfactionSurveyConfig } from '../storage';
+import {
+  conversationSurveys,
+  users,
+  type ChannelConnection,
+  type Contact,
+  type Conversation,
+  type ConversationSurvey,
+  type Message
+} from '@shared/schema';
+import { and, between, desc, eq, gt, inArray, isNotNull, sql } from 'drizzle-orm';
+import { smartWebSocketBroadcaster } from '../utils/smart-websocket-broadcaster';
+import { logger } from '../utils/logger';
+import { CLOSED_CONVERSATION_STATUSES } from './conversation-assignment-service';
+import { sendChannelText } from './channel-text-sender';
+
+export const SURVEY_CHANNEL_TYPES = [
+  'whatsapp_official',
+  'whatsapp',
+  'whatsapp_unofficial',
+  'messenger',
+  'instagram',
+  'email',
+  'webchat'
+];
+
+export const DEFAULT_SATISFACTION_SURVEY_CONFIG: SatisfactionSurveyConfig = {
+  enabled: false,
+  surveyType: 'csat',
+  channelTypes: [],
+  question: 'How would you rate the support you received today?',
+  askForComment: true,
+  commentPrompt: 'Thanks! Is there anything you would like to tell us about your experience? Just reply to this message.',
+  thankYouMessage: 'Thank you for your feedback!',
+  cooldownHours: 24,
+  expiryHours: 72
+};
+
+export interface SatisfactionScoreStats {
+  responses: number;
+  averageScore: number | null;
+  csat: number | null; // % of CSAT responses scoring 4 or 5
+  nps: number | null; // % promoters (9-10) minus % detractors (0-6)
+}
+
+export interface SatisfactionReport {
+  summary: SatisfactionScoreStats & { sent: number; responseRate: number | null };
+  byAgent: Array<SatisfactionScoreStats & { agentId: number | null; agentName: string | null }>;
+  byChannel: Array<SatisfactionScoreStats & { channelType: string }>;
+  trend: Array<SatisfactionScoreStats & { date: string }>;
+}
+
+const PENDING_STATUSES: ConversationSurvey['status'][] = ['sent', 'awaiting_comment'];
+
+const CSAT_LABELS: Record<number, string> = {
+  1: 'Very poor',
+  2: 'Poor',
+  3: 'Okay',
+  4: 'Good',
+  5: 'Excellent'
+};
+
+/** How long status updates are held back after the survey itself touches a closed conversation */
+const STATUS_HOLD_MS = 30 * 1000;
+const SURVEY_REPLY_TTL_MS = 5 * 60 * 1000;
+
+const SURVEY_PAYLOAD_PATTERN = /^survey:([a-f0-9]+):(\d{1,2})$/;
+
+const isClosedStatus = (status: string | null | undefined) =>
+  !!status && CLOSED_CONVERSATION_STATUSES.includes(status);
+
+const scoreRange = (surveyType: string) => surveyType === 'nps' ? { min: 0, max: 10 } : { min: 1, max: 5 };
+
+const surveyPayload = (token: string, score: number) => `survey:${token}:${score}`;
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const getPublicBaseUrl = (): string => {
+  let baseUrl = process.env.APP_URL || process.env.BASE_URL || process.env.PUBLIC_URL;
+
+  if (!baseUrl) {
+    const basePort = process.env.PORT || '9000';
+    const host = process.env.HOST || 'localhost';
+    const protocol = process.env.NODE_ENV === 'production' ? 'https' : 'http';
+    baseUrl = host === 'localhost' || host === '127.0.0.1' ? `${protocol}://${host}:${basePort}` : `${protocol}://${host}`;
+  }
+
+  return baseUrl.replace(/\/$/, '');
+};
+
+/**
+ * Satisfaction Survey Service
+ * Sends a CSAT or NPS survey when a conversation is closed, captures the score and optional
+ * comment from the contact's reply, and reports the results per agent, channel and day.
+ */
+export class SatisfactionSurveyService {
+  private statusHolds = new Map<number, number>();
+  private surveyReplies = new Map<number, number>();
+  private sending = new Set<number>();
+
+  async getConfig(companyId: number): Promise<SatisfactionSurveyConfig> {
+    const stored = await storage.getSatisfactionSurveyConfig(companyId);
+    return { ...DEFAULT_SATISFACTION_SURVEY_CONFIG, ...stored };
+  }
+
+  /**
+   * Send a survey when a conversation is closed or resolved
+   */
+  async handleStatusChange(conversation: Conversation): Promise<void> {
+    if (!isClosedStatus(conversation.status) || !conversation.companyId || !conversation.contactId || conversation.isGroup) {
+      return;
+    }
+
+    const config = await this.getConfig(conversation.companyId);
+    if (!config.enabled || !this.isChannelEnabled(config, conversation.channelType)) {
+      return;
+    }
+
+    if (this.sending.has(conversation.id)) {
+      return;
+    }
+
+    this.sending.add(conversation.id);
+    try {
+      if (await this.getPendingSurvey(conversation.id)) {
+        return;
+      }
+
+      if (config.cooldownHours > 0) {
+        const since = new Date(Date.now() - config.cooldownHours * 60 * 60 * 1000);
+        const [recent] = await db
+          .select({ id: conversationSurveys.id })
+          .from(conversationSurveys)
+          .where(and(
+            eq(conversationSurveys.contactId, conversation.contactId),
+            gt(conversationSurveys.sentAt, since)
+          ))
+          .limit(1);
+
+        if (recent) {
+          return;
+        }
+      }
+
+      await this.sendSurvey(conversation, config);
+    } finally {
+      this.sending.delete(conversation.id);
+    }
+  }
+
+  /**
+   * Capture survey answers from inbound messages. Messages consumed as survey replies are
+   * remembered so the flow executor can skip them.
+   */
+  async handleInboundMessage(message: Message): Promise<void> {
+    if (message.direction !== 'inbound' || message.isFromBot || message.isHistorySync) {
+      return;
+    }
+
+    const survey = await this.getPendingSurvey(message.conversationId);
+    if (!survey) {
+      return;
+    }
+
+    if (survey.status === 'awaiting_comment') {
+      const comment = (message.content || '').trim();
+      if (!comment) {
+        return;
+      }
+
+      this.markSurveyReply(message.id, survey.conversationId);
+      await this.complete(survey, { comment });
+      return;
+    }
+
+    const score = this.parseScore(message, survey);
+    if (score === null) {
+      await this.updateSurvey(survey.id, { status: 'expired' });
+      return;
+    }
+
+    this.markSurveyReply(message.id, survey.conversationId);
+    await this.recordScore(survey, score);
+  }
+
+  /**
+   * Record a score (and optional comment) submitted through a public survey link or the webchat widget
+   */
+  async respondByToken(token: string, response: { score?: number; comment?: string }): Promise<ConversationSurvey> {
+    const survey = await this.getSurveyByToken(token);
+    if (!survey) {
+      throw new Error('Survey not found');
+    }
+
+    if (survey.status === 'completed' && survey.comment) {
+      return survey;
+    }
+
+    if (survey.status === 'failed' || survey.status === 'expired' || survey.expiresAt < new Date()) {
+      throw new Error('This survey is no longer accepting responses');
+    }
+
+    let updated = survey;
+    if (response.score !== undefined && survey.score === null) {
+      const { min, max } = scoreRange(survey.surveyType);
+      if (!Number.isInteger(response.score) || response.score < min || response.score > max) {
+        throw new Error(`Score must be between ${min} and ${max}`);
+      }
+
+      updated = await this.recordScore(survey, response.score, { notify: !response.comment });
+    }
+
+    const comment = response.comment?.trim();
+    if (comment && updated.score !== null) {
+      updated = await this.complete(updated, { comment, notify: updated.channelType !== 'email' });
+    }
+
+    return updated;
+  }
+
+  async getSurveyByToken(token: string): Promise<ConversationSurvey | null> {
+    const [survey] = await db
+      .select()
+      .from(conversationSurveys)
+      .where(eq(conversationSurveys.token, token))
+      .limit(1);
+
+    return survey || null;
+  }
+
+  /**
+   * Whether an inbound message was consumed as a survey answer
+   */
+  isSurveyReply(messageId: number): boolean {
+    const expiresAt = this.surveyReplies.get(messageId);
+    return !!expiresAt && expiresAt > Date.now();
+  }
+
+  /**
+   * Drop status changes that would reopen a closed conversation because of survey traffic.
+   * Channel services mark conversations active/open on every message, including the survey
+   * prompt and the contact's answer.
+   */
+  withoutSurveyReopen<T extends { status?: string | null }>(conversationId: number, updates: T): T {
+    const holdUntil = this.statusHolds.get(conversationId);
+    if (!holdUntil || isClosedStatus(updates.status)) {
+      return updates;
+    }
+
+    if (holdUntil < Date.now()) {
+      this.statusHolds.delete(conversationId);
+      return updates;
+    }
+
+    const { status, ...rest } = updates;
+    return rest as T;
+  }
+
+  /**
+   * CSAT / NPS results for surveys answered within a date range
+   */
+  async getReport(companyId: number, startDate: Date, endDate: Date): Promise<SatisfactionReport> {
+    const scoreStats = {
+      responses: sql<number>`count(${conversationSurveys.score})`,
+      averageScore: sql<number | null>`round(avg(${conversationSurveys.score})::numeric, 2)`,
+      csatTotal: sql<number>`count(*) FILTER (WHERE ${conversationSurveys.surveyType} = 'csat' AND ${conversationSurveys.score} IS NOT NULL)`,
+      csatSatisfied: sql<number>`count(*) FILTER (WHERE ${conversationSurveys.surveyType} = 'csat' AND ${conversationSurveys.score} >= 4)`,
+      npsTotal: sql<number>`count(*) FILTER (WHERE ${conversationSurveys.surveyType} = 'nps' AND ${conversationSurveys.score} IS NOT NULL)`,
+      npsPromoters: sql<number>`count(*) FILTER (WHERE ${conversationSurveys.surveyType} = 'nps' AND ${conversationSurveys.score} >= 9)`,
+      npsDetractors: sql<number>`count(*) FILTER (WHERE ${conversationSurveys.surveyType} = 'nps' AND ${conversationSurveys.score} <= 6)`
+    };
+
+    const answered = and(
+      eq(conversationSurveys.companyId, companyId),
+      isNotNull(conversationSurveys.score),
+      between(conversationSurveys.respondedAt, startDate, endDate)
+    );
+
+    const [sentRow] = await db
+      .select({
+        sent: sql<number>`count(*) FILTER (WHERE ${conversationSurveys.status} <> 'failed')`,
+        answered: sql<number>`count(${conversationSurveys.score})`
+      })
+      .from(conversationSurveys)
+      .where(and(
+        eq(conversationSurveys.companyId, companyId),
+        between(conversationSurveys.sentAt, startDate, endDate)
+      ));
+
+    const [summaryRow] = await db
+      .select(scoreStats)
+      .from(conversationSurveys)
+      .where(answered);
+
+    const agentRows = await db
+      .select({
+        ...scoreStats,
+        agentId: conversationSurveys.agentId,
+        agentName: users.fullName
+      })
+      .from(conversationSurveys)
+      .leftJoin(users, eq(conversationSurveys.agentId, users.id))
+      .where(answered)
+      .groupBy(conversationSurveys.agentId, users.fullName)
+      .orderBy(desc(sql`count(${conversationSurveys.score})`));
+
+    const channelRows = await db
+      .select({ ...scoreStats, channelType: conversationSurveys.channelType })
+      .from(conversationSurveys)
+      .where(answered)
+      .groupBy(conversationSurveys.channelType)
+      .orderBy(desc(sql`count(${conversationSurveys.score})`));
+
+    const day = sql<string>`to_char(date_trunc('day', ${conversationSurveys.respondedAt}), 'YYYY-MM-DD')`;
+    const trendRows = await db
+      .select({ ...scoreStats, date: day })
+      .from(conversationSurveys)
+      .where(answered)
+      .groupBy(day)
+      .orderBy(day);
+
+    const sent = Number(sentRow?.sent) || 0;
+
+    return {
+      summary: {
+        ...this.toScoreStats(summaryRow),
+        sent,
+        responseRate: sent > 0 ? Math.round(((Number(sentRow?.answered) || 0) / sent) * 1000) / 10 : null
+      },
+      byAgent: agentRows.map(row => ({ ...this.toScoreStats(row), agentId: row.agentId, agentName: row.agentName })),
+      byChannel: channelRows.map(row => ({ ...this.toScoreStats(row), channelType: row.channelType })),
+      trend: trendRows.map(row => ({ ...this.toScoreStats(row), date: row.date }))
+    };
+  }
+
+  private toScoreStats(row: Record<string, unknown> | undefined): SatisfactionScoreStats {
+    const percent = (part: unknown, total: unknown) => {
+      const totalCount = Number(total) || 0;
+      return totalCount > 0 ? Math.round(((Number(part) || 0) / totalCount) * 1000) / 10 : null;
+    };
+
+    const npsTotal = Number(row?.npsTotal) || 0;
+
+    return {
+      responses: Number(row?.responses) || 0,
+      averageScore: row?.averageScore !== null && row?.averageScore !== undefined ? Number(row.averageScore) : null,
+      csat: percent(row?.csatSatisfied, row?.csatTotal),
+      nps: npsTotal > 0
+        ? Math.round((((Number(row?.npsPromoters) || 0) - (Number(row?.npsDetractors) || 0)) / npsTotal) * 1000) / 10
+        : null
+    };
+  }
+
+  private isChannelEnabled(config: SatisfactionSurveyConfig, channelType: string): boolean {
+    if (!SURVEY_CHANNEL_TYPES.includes(channelType)) {
+      return false;
+    }
+
+    return config.channelTypes.length === 0 || config.channelTypes.includes(channelType);
+  }
+
+  private async getPendingSurvey(conversationId: number): Promise<ConversationSurvey | null> {
+    const [survey] = await db
+      .select()
+      .from(conversationSurveys)
+      .where(and(
+        eq(conversationSurveys.conversationId, conversationId),
+        inArray(conversationSurveys.status, PENDING_STATUSES)
+      ))
+      .orderBy(desc(conversationSurveys.sentAt))
+      .limit(1);
+
+    if (!survey) {
+      return null;
+    }
+
+    if (survey.expiresAt < new Date()) {
+      await this.updateSurvey(survey.id, { status: 'expired' });
+      return null;
+    }
+
+    return survey;
+  }
+
+  private async updateSurvey(id: number, updates: Partial<ConversationSurvey>): Promise<ConversationSurvey> {
+    const [survey] = await db
+      .update(conversationSurveys)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(conversationSurveys.id, id))
+      .returning();
+
+    return survey;
+  }
+
+  private holdStatus(conversationId: number): void {
+    this.statusHolds.set(conversationId, Date.now() + STATUS_HOLD_MS);
+  }
+
+  private markSurveyReply(messageId: number, conversationId: number): void {
+    const now = Date.now();
+    this.surveyReplies.forEach((expiresAt, id) => {
+      if (expiresAt < now) this.surveyReplies.delete(id);
+    });
+
+    this.surveyReplies.set(messageId, now + SURVEY_REPLY_TTL_MS);
+    this.holdStatus(conversationId);
+  }
+
+  private parseScore(message: Message, survey: ConversationSurvey): number | null {
+    let metadata: any = message.metadata;
+    if (typeof metadata === 'string') {
+      try {
+        metadata = JSON.parse(metadata);
+      } catch {
+        metadata = null;
+      }
+    }
+
+    const payload: string | undefined = metadata?.button?.payload || metadata?.list?.payload || metadata?.quickReply?.payload;
+    const content = (message.content || '').trim();
+    const payloadMatch = (payload || content).match(SURVEY_PAYLOAD_PATTERN);
+
+    let score: number | null = null;
+    if (payloadMatch) {
+      if (payloadMatch[1] !== survey.token) {
+        return null;
+      }
+      score = Number(payloadMatch[2]);
+    } else if (/^⭐+$/u.test(content)) {
+      score = Array.from(content).length;
+    } else {
+      const numberMatch = content.match(/^(\d{1,2})(?:\s*(?:\/\s*\d{1,2}|⭐+|[-–:.]\s*\D*))?$/u);
+      score = numberMatch ? Number(numberMatch[1]) : null;
+    }
+
+    if (score === null) {
+      return null;
+    }
+
+    const { min, max } = scoreRange(survey.surveyType);
+    return score >= min && score <= max ? score : null;
+  }
+
+  private async recordScore(
+    survey: ConversationSurvey,
+    score: number,
+    options: { notify?: boolean } = {}
+  ): Promise<ConversationSurvey> {
+    const config = await this.getConfig(survey.companyId);
+    const notify = options.notify ?? true;
+
+    if (!config.askForComment) {
+      const updated = await this.updateSurvey(survey.id, { score, respondedAt: new Date(), status: 'completed' });
+      this.broadcastResponse(updated);
+      if (notify) await this.sendFollowUp(updated, config.thankYouMessage);
+      return updated;
+    }
+
+    const updated = await this.updateSurvey(survey.id, { score, respondedAt: new Date(), status: 'awaiting_comment' });
+    this.broadcastResponse(updated);
+    if (notify) await this.sendFollowUp(updated, config.commentPrompt);
+    return updated;
+  }
+
+  private async complete(
+    survey: ConversationSurvey,
+    options: { comment?: string; notify?: boolean }
+  ): Promise<ConversationSurvey> {
+    const updated = await this.updateSurvey(survey.id, {
+      comment: options.comment ?? survey.comment,
+      status: 'completed'
+    });
+    this.broadcastResponse(updated);
+
+    if (options.notify ?? true) {
+      const config = await this.getConfig(survey.companyId);
+      await this.sendFollowUp(updated, config.thankYouMessage);
+    }
+
+    return updated;
+  }
+
+  private broadcastResponse(survey: ConversationSurvey): void {
+    smartWebSocketBroadcaster.broadcastToCompany({
+      type: 'satisfactionSurveyResponse',
+      data: {
+        surveyId: survey.id,
+        conversationId: survey.conversationId,
+        agentId: survey.agentId,
+        surveyType: survey.surveyType,
+        score: survey.score,
+        comment: survey.comment,
+        status: survey.status
+      },
+      conversationId: survey.conversationId,
+      priority: 'normal',
+      batchable: true
+    }, survey.companyId);
+  }
+
+  private async sendSurvey(conversation: Conversation, config: SatisfactionSurveyConfig): Promise<void> {
+    const contact = await storage.getContact(conversation.contactId!);
+    const connection = conversation.channelId ? await storage.getChannelConnection(conversation.channelId) : null;
+    if (!contact || !connection) {
+      return;
+    }
+
+    const [survey] = await db
+      .insert(conversationSurveys)
+      .values({
+        companyId: conversation.companyId!,
+        conversationId: conversation.id,
+        contactId: contact.id,
+        channelId: connection.id,
+        channelType: conversation.channelType,
+        agentId: conversation.assignedToUserId ?? null,
+        surveyType: config.surveyType,
+        token: crypto.randomBytes(16).toString('hex'),
+        expiresAt: new Date(Date.now() + Math.max(1, config.expiryHours) * 60 * 60 * 1000)
+      })
+      .returning();
+
+    this.holdStatus(conversation.id);
+
+    try {
+      await this.dispatchSurvey(survey, conversation, contact, connection, config);
+    } catch (error) {
+      logger.error('satisfaction-survey', `Failed to send survey for conversation ${conversation.id}`, error);
+      await this.updateSurvey(survey.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async dispatchSurvey(
+    survey: ConversationSurvey,
+    conversation: Conversation,
+    contact: Contact,
+    connection: ChannelConnection,
+    config: SatisfactionSurveyConfig
+  ): Promise<void> {
+    const { min, max } = scoreRange(survey.surveyType);
+    const scores = Array.from({ length: max - min + 1 }, (_, index) => min + index);
+    const recipient = contact.identifier || contact.phone;
+    const scaleHint = survey.surveyType === 'nps'
+      ? `Reply with a number from 0 (not likely) to 10 (very likely).`
+      : `Reply with a number from 1 (very poor) to 5 (excellent).`;
+
+    switch (connection.channelType) {
+      case 'whatsapp_official': {
+        if (survey.surveyType === 'nps') {
+          await sendChannelText(conversation, contact, connection, `${config.question}\n\n${scaleHint}`);
+          return;
+        }
+
+        const { sendInteractiveMessage } = await import('./channels/whatsapp-official');
+        const interactiveMessage = {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: contact.phone || contact.identifier,
+          type: 'interactive',
+          interactive: {
+            type: 'list',
+            body: { text: config.question },
+            action: {
+              button: 'Rate us',
+              sections: [{
+                title: 'Your rating',
+                rows: scores.slice().reverse().map(score => ({
+                  id: surveyPayload(survey.token, score),
+                  title: '⭐'.repeat(score),
+                  description: CSAT_LABELS[score]
+                }))
+              }]
+            }
+          }
+        };
+
+        const result = await sendInteractiveMessage(connection.id, interactiveMessage);
+        if (!result.success) {
+          throw new Error('WhatsApp interactive message was not accepted');
+        }
+
+        await this.saveOutboundMessage(conversation, config.question, 'interactive', result.messageId, {
+          interactiveType: 'list',
+          options: interactiveMessage.interactive.action,
+          surveyToken: survey.token
+        });
+        return;
+      }
+
+      case 'messenger':
+      case 'instagram': {
+        if (!recipient) {
+          throw new Error('Contact has no recipient identifier');
+        }
+
+        const titles = scores.map(score => ({
+          title: survey.surveyType === 'nps' ? String(score) : '⭐'.repeat(score),
+          payload: surveyPayload(survey.token, score)
+        }));
+
+        let result: { success: boolean; messageId?: string; error?: string };
+        if (connection.channelType === 'messenger') {
+          const { sendMessengerQuickReply } = await import('./channels/messenger');
+          result = await sendMessengerQuickReply(connection.id, recipient, config.question, titles);
+        } else {
+          const { sendInstagramMessageWithQuickReplies } = await import('./channels/instagram');
+          result = await sendInstagramMessageWithQuickReplies(
+            connection.id,
+            recipient,
+            config.question,
+            titles.map(reply => ({ content_type: 'text' as const, ...reply }))
+          );
+        }
+
+        if (!result.success) {
+          throw new Error(result.error || 'Quick reply message was not accepted');
+        }
+
+        await this.saveOutboundMessage(conversation, config.question, 'quick_reply', result.messageId, {
+          quickReplies: titles,
+          surveyToken: survey.token
+        });
+        return;
+      }
+
+      case 'email': {
+        const to = contact.email || contact.identifier;
+        if (!to) {
+          throw new Error('Contact has no email address');
+        }
+
+        const emailService = await import('./channels/email');
+        await emailService.sendMessage(
+          connection.id,
+          connection.userId,
+          to,
+          'How did we do?',
+          this.buildEmailBody(survey, config.question, scores),
+          { isHtml: true, isFromBot: true }
+        );
+        return;
+      }
+
+      case 'webchat': {
+        if (!contact.identifier) {
+          throw new Error('Webchat contact has no session');
+        }
+
+        const webchatService = await import('./channels/webchat');
+        await webchatService.default.sendMessage(connection.id, contact.identifier, config.question, 'survey', undefined, {
+          isFromBot: true,
+          metadata: {
+            survey: { token: survey.token, type: survey.surveyType, min, max }
+          }
+        });
+        return;
+      }
+
+      default:
+        await sendChannelText(conversation, contact, connection, `${config.question}\n\n${scaleHint}`);
+    }
+  }
+
+  private buildEmailBody(survey: ConversationSurvey, question: string, scores: number[]): string {
+    const baseUrl = getPublicBaseUrl();
+    const links = scores.map(score => {
+      const label = survey.surveyType === 'nps' ? String(score) : `${'★'.repeat(score)}<br><small>${CSAT_LABELS[score]}</small>`;
+      const href = `${baseUrl}/api/satisfaction-surveys/respond/${survey.token}?score=${score}`;
+      return `<td style="padding:4px"><a href="${href}" style="display:inline-block;min-width:32px;padding:8px 10px;border:1px solid #d1d5db;border-radius:6px;color:#111827;text-decoration:none;text-align:center">${label}</a></td>`;
+    }).join('');
+
+    return `<div style="font-family:Arial,sans-serif;color:#111827">
+  <p style="font-size:16px">${escapeHtml(question)}</p>
+  <table role="presentation" cellspacing="0" cellpadding="0"><tr>${links}</tr></table>
+  <p style="font-size:12px;color:#6b7280">Click a rating to answer. It only takes a second.</p>
+</div>`;
+  }
+
+  private async sendFollowUp(survey: ConversationSurvey, text: string): Promise<void> {
+    if (!text.trim() || survey.channelType === 'email') {
+      return;
+    }
+
+    try {
+      const conversation = await storage.getConversation(survey.conversationId);
+      const contact = survey.contactId ? await storage.getContact(survey.contactId) : null;
+      const connection = survey.channelId ? await storage.getChannelConnection(survey.channelId) : null;
+      if (!conversation || !contact || !connection) {
+        return;
+      }
+
+      this.holdStatus(conversation.id);
+      await sendChannelText(conversation, contact, connection, text);
+    } catch (error) {
+      logger.error('satisfaction-survey', `Failed to send survey follow-up for conversation ${survey.conversationId}`, error);
+    }
+  }
+
+  private async saveOutboundMessage(
+    conversation: Conversation,
+    content: string,
+    type: string,
+    externalId: string | undefined,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    const savedMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      content,
+      type,
+      direction: 'outbound',
+      status: 'sent',
+      isFromBot: true,
+      externalId: externalId || null,
+      sentAt: new Date(),
+      metadata
+    });
+
+    smartWebSocketBroadcaster.broadcast({
+      type: 'newMessage',
+      data: savedMessage,
+      companyId: conversation.companyId!,
+      conversationId: conversation.id,
+      priority: 'high',
+      batchable: false
+    });
+  }
+}
+
+export const satisfactionSurveyService = new SatisfactionSurveyService();
@@ -2,6 +2,7 @@ import { storage } from '../storage';
 import { eq, and, lte, gte, desc, asc, sql } from 'drizzle-orm';
 import { scheduledMessages } from '@shared/schema';
 import { ChannelConnection } from '@shared/schema';
+import { businessHoursService } from './business-hours-service';
 
 export interface ScheduledMessageData {
   companyId: number;
@@ -16,6 +17,7 @@ export interface ScheduledMessageData {
   caption?: string;
   scheduledFor: Date;
   timezone?: string;
+  businessHoursCalendarId?: number | null;
   metadata?: any;
   createdBy: number;
 }
@@ -38,6 +40,7 @@ export class ScheduledMessageService {
       caption: data.caption,
       scheduledFor: data.scheduledFor,
       timezone: data.timezone || 'UTC',
+      businessHoursCalendarId: data.businessHoursCalendarId || null,
       metadata: data.metadata || {},
       createdBy: data.createdBy,
       status: 'pending'
@@ -160,13 +163,42 @@ export class ScheduledMessageService {
     return result[0];
   }
 
+  /**
+   * Move a due message to its calendar's next opening when the calendar is closed.
+   * Returns the new send time, or null when the message can be sent now.
+   */
+  static async deferUntilBusinessHours(scheduledMessage: any): Promise<Date | null> {
+    if (!scheduledMessage.businessHoursCalendarId) {
+      return null;
+    }
+
+    const calendar = await businessHoursService.getCompanyCalendar(
+      scheduledMessage.companyId,
+      scheduledMessage.businessHoursCalendarId
+    );
+    const now = new Date();
+    if (!calendar || businessHoursService.isOpen(calendar, now)) {
+      return null;
+    }
+
+    const nextOpening = businessHoursService.getNextOpening(calendar, now);
+    await storage.db
+      .update(scheduledMessages)
+      .set({ scheduledFor: nextOpening, updatedAt: now })
+      .where(and(eq(scheduledMessages.id, scheduledMessage.id), eq(scheduledMessages.status, 'pending')));
+
+    return nextOpening;
+  }
+
   /**
    * Process a scheduled message (send it)
    */
   static async processScheduledMessage(scheduledMessage: any) {
     try {
+      if (await this.deferUntilBusinessHours(scheduledMessage)) {
+        return;
+      }
 
-      
 
       await this.updateStatus(scheduledMessage.id, 'processing');
 
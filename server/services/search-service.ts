@@ -0,0 +1,323 @@
+import { db } from '../db';
+import { contacts, conversations, messages, notes } from '@shared/schema';
+import { and, desc, eq, gte, inArray, isNull, lte, or, sql, type SQL } from 'drizzle-orm';
+
+export type SearchResultType = 'messages' | 'contacts' | 'notes';
+
+export interface SearchFilters {
+  companyId?: number;
+  channelType?: string;
+  from?: Date;
+  to?: Date;
+  direction?: 'inbound' | 'outbound';
+  assignedToUserId?: number;
+}
+
+export interface SearchOptions {
+  types: SearchResultType[];
+  limit: number;
+  offset: number;
+}
+
+export interface MessageSearchHit {
+  messageId: number;
+  conversationId: number;
+  contactId: number | null;
+  contactName: string | null;
+  channelId: number;
+  channelType: string;
+  assignedToUserId: number | null;
+  direction: string;
+  emailSubject: string | null;
+  snippet: string;
+  createdAt: Date | null;
+}
+
+export interface ContactSearchHit {
+  contactId: number;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  identifierType: string | null;
+  conversationId: number | null;
+  channelId: number | null;
+  channelType: string | null;
+}
+
+export interface NoteSearchHit {
+  noteId: number;
+  contactId: number;
+  contactName: string;
+  authorId: number;
+  snippet: string;
+  createdAt: Date | null;
+  conversationId: number | null;
+  channelId: number | null;
+  channelType: string | null;
+}
+
+export interface SearchResults {
+  messages: MessageSearchHit[];
+  contacts: ContactSearchHit[];
+  notes: NoteSearchHit[];
+}
+
+/**
+ * Delimiters wrapped around matched terms in snippets. Control characters never
+ * appear in message text, so the client can split on them without escaping HTML.
+ */
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Must stay identical to the expression of idx_messages_search_document so the GIN index is used
+ */
+const messageDocument = sql`to_tsvector('simple', coalesce(${messages.content}, '') || ' ' || coalesce(${messages.emailSubject}, '') || ' ' || coalesce(${messages.emailPlainText}, ''))`;
+
+/**
+ * Turn free text into a prefix-matching tsquery ("refund pol" -> "refund:* & pol:*").
+ * Only letters and digits survive, so user input can never produce a tsquery syntax error.
+ */
+export function buildPrefixTsQuery(query: string): string | null {
+  const tokens = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!tokens || tokens.length === 0) {
+    return null;
+  }
+  return Array.from(new Set(tokens)).slice(0, 8).map(token => `${token}:*`).join(' & ');
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const highlightTerm = (text: string, term: string) => {
+  const index = text.toLowerCase().indexOf(term.toLowerCase());
+  if (index === -1) {
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+  }
+  const start = Math.max(0, index - 60);
+  const end = Math.min(text.length, index + term.length + 100);
+  return `${start > 0 ? '…' : ''}${text.slice(start, index)}${HIGHLIGHT_START}${text.slice(index, index + term.length)}${HIGHLIGHT_END}${text.slice(index + term.length, end)}${end < text.length ? '…' : ''}`;
+};
+
+class SearchService {
+  /**
+   * Search message bodies, email subjects/bodies, contacts and notes of a company.
+   * Channel type and assignee filters apply to the conversation a hit belongs to (for contacts
+   * and notes: any of the contact's conversations); a direction filter limits results to messages.
+   */
+  async search(query: string, filters: SearchFilters, options: SearchOptions): Promise<SearchResults> {
+    const wantsMessages = options.types.includes('messages');
+    const wantsContactsAndNotes = !filters.direction;
+
+    const [messageHits, contactHits, noteHits] = await Promise.all([
+      wantsMessages ? this.searchMessages(query, filters, options) : Promise.resolve([]),
+      wantsContactsAndNotes && options.types.includes('contacts') ? this.searchContacts(query, filters, options) : Promise.resolve([]),
+      wantsContactsAndNotes && options.types.includes('notes') ? this.searchNotes(query, filters, options) : Promise.resolve([])
+    ]);
+
+    return { messages: messageHits, contacts: contactHits, notes: noteHits };
+  }
+
+  private conversationConditions(filters: SearchFilters): SQL[] {
+    const conditions: SQL[] = [
+      or(eq(conversations.isGroup, false), isNull(conversations.isGroup))!,
+      isNull(conversations.groupJid)
+    ];
+
+    if (filters.companyId) {
+      conditions.push(eq(conversations.companyId, filters.companyId));
+    }
+    if (filters.channelType) {
+      conditions.push(eq(conversations.channelType, filters.channelType));
+    }
+    if (filters.assignedToUserId) {
+      conditions.push(eq(conversations.assignedToUserId, filters.assignedToUserId));
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Restrict contacts (or notes, through their contact) to those with a conversation matching the filters
+   */
+  private hasMatchingConversation(contactIdColumn: typeof contacts.id | typeof notes.contactId, filters: SearchFilters): SQL {
+    return sql`EXISTS (
+      SELECT 1 FROM ${conversations}
+      WHERE ${conversations.contactId} = ${contactIdColumn} AND ${and(...this.conversationConditions(filters))}
+    )`;
+  }
+
+  /**
+   * Most recent matching conversation per contact, used as the deep-link target of contact and note hits
+   */
+  private async latestConversations(contactIds: number[], filters: SearchFilters) {
+    const targets = new Map<number, { conversationId: number; channelId: number; channelType: string }>();
+    if (contactIds.length === 0) {
+      return targets;
+    }
+
+    const rows = await db
+      .selectDistinctOn([conversations.contactId], {
+        contactId: conversations.contactId,
+        conversationId: conversations.id,
+        channelId: conversations.channelId,
+        channelType: conversations.channelType
+      })
+      .from(conversations)
+      .where(and(inArray(conversations.contactId, contactIds), ...this.conversationConditions(filters)))
+      .orderBy(conversations.contactId, sql`${conversations.lastMessageAt} DESC NULLS LAST`);
+
+    for (const { contactId, ...target } of rows) {
+      if (contactId !== null) {
+        targets.set(contactId, target);
+      }
+    }
+    return targets;
+  }
+
+  private resolveTarget(targets: Awaited<ReturnType<SearchService['latestConversations']>>, contactId: number) {
+    const target = targets.get(contactId);
+    return {
+      conversationId: target?.conversationId ?? null,
+      channelId: target?.channelId ?? null,
+      channelType: target?.channelType ?? null
+    };
+  }
+
+  private async searchMessages(query: string, filters: SearchFilters, options: SearchOptions): Promise<MessageSearchHit[]> {
+    const tsQueryText = buildPrefixTsQuery(query);
+    if (!tsQueryText) {
+      return [];
+    }
+
+    const tsQuery = sql`to_tsquery('simple', ${tsQueryText})`;
+    const conditions: SQL[] = [
+      sql`${messageDocument} @@ ${tsQuery}`,
+      ...this.conversationConditions(filters)
+    ];
+
+    if (filters.direction) {
+      conditions.push(eq(messages.direction, filters.direction));
+    }
+    if (filters.from) {
+      conditions.push(gte(messages.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(messages.createdAt, filters.to));
+    }
+
+    const rows = await db
+      .select({
+        messageId: messages.id,
+        conversationId: messages.conversationId,
+        contactId: conversations.contactId,
+        contactName: contacts.name,
+        channelId: conversations.channelId,
+        channelType: conversations.channelType,
+        assignedToUserId: conversations.assignedToUserId,
+        direction: messages.direction,
+        emailSubject: messages.emailSubject,
+        snippet: sql<string>`ts_headline('simple', coalesce(${messages.emailPlainText}, ${messages.content}, ''), ${tsQuery}, ${HEADLINE_OPTIONS})`,
+        createdAt: messages.createdAt
+      })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .leftJoin(contacts, eq(conversations.contactId, contacts.id))
+      .where(and(...conditions))
+      .orderBy(desc(sql`ts_rank(${messageDocument}, ${tsQuery})`), desc(messages.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    return rows;
+  }
+
+  private async searchContacts(query: string, filters: SearchFilters, options: SearchOptions): Promise<ContactSearchHit[]> {
+    const term = query.trim();
+    const pattern = `%${escapeLike(term)}%`;
+    const digits = term.replace(/\D/g, '');
+
+    const matches: SQL[] = [
+      sql`${contacts.name} ILIKE ${pattern}`,
+      sql`${contacts.email} ILIKE ${pattern}`,
+      sql`${contacts.phone} ILIKE ${pattern}`
+    ];
+    if (digits.length >= 3) {
+      matches.push(sql`regexp_replace(coalesce(${contacts.phone}, ''), '\\D', '', 'g') LIKE ${`%${digits}%`}`);
+    }
+
+    const conditions: SQL[] = [or(...matches)!, eq(contacts.isActive, true)];
+    if (filters.companyId) {
+      conditions.push(eq(contacts.companyId, filters.companyId));
+    }
+    if (filters.from) {
+      conditions.push(gte(contacts.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(contacts.createdAt, filters.to));
+    }
+    if (filters.channelType || filters.assignedToUserId) {
+      conditions.push(this.hasMatchingConversation(contacts.id, filters));
+    }
+
+    const rows = await db
+      .select({
+        contactId: contacts.id,
+        name: contacts.name,
+        phone: contacts.phone,
+        email: contacts.email,
+        identifierType: contacts.identifierType
+      })
+      .from(contacts)
+      .where(and(...conditions))
+      .orderBy(desc(sql`similarity(${contacts.name}, ${term})`), desc(contacts.updatedAt))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    const targets = await this.latestConversations(rows.map(row => row.contactId), filters);
+    return rows.map(row => ({ ...row, ...this.resolveTarget(targets, row.contactId) }));
+  }
+
+  private async searchNotes(query: string, filters: SearchFilters, options: SearchOptions): Promise<NoteSearchHit[]> {
+    const term = query.trim();
+
+    const conditions: SQL[] = [sql`${notes.content} ILIKE ${`%${escapeLike(term)}%`}`];
+    if (filters.companyId) {
+      conditions.push(eq(contacts.companyId, filters.companyId));
+    }
+    if (filters.from) {
+      conditions.push(gte(notes.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(notes.createdAt, filters.to));
+    }
+    if (filters.channelType || filters.assignedToUserId) {
+      conditions.push(this.hasMatchingConversation(notes.contactId, filters));
+    }
+
+    const rows = await db
+      .select({
+        noteId: notes.id,
+        contactId: notes.contactId,
+        contactName: contacts.name,
+        authorId: notes.userId,
+        content: notes.content,
+        createdAt: notes.createdAt
+      })
+      .from(notes)
+      .innerJoin(contacts, eq(notes.contactId, contacts.id))
+      .where(and(...conditions))
+      .orderBy(desc(notes.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    const targets = await this.latestConversations(rows.map(row => row.contactId), filters);
+    return rows.map(({ content, ...row }) => ({
+      ...row,
+      snippet: highlightTerm(content, term),
+      ...this.resolveTarget(targets, row.contactId)
+    }));
+  }
+}
+
+export const searchService = new SearchService();
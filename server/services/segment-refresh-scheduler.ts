@@ -0,0 +1,63 @@
+import { CampaignService } from './campaignService';
+import { logger } from '../utils/logger';
+
+const DEFAULT_REFRESH_INTERVAL = 15 * 60 * 1000;
+
+/**
+ * Segment Refresh Scheduler
+ * Periodically recalculates the contact count of dynamic segments so it tracks contact changes
+ * (new tags, messages, deal moves, campaign engagement) without anyone re-saving the segment.
+ */
+export class SegmentRefreshScheduler {
+  private static instance: SegmentRefreshScheduler;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRefreshing = false;
+  private readonly REFRESH_INTERVAL = Math.max(60 * 1000, parseInt(process.env.SEGMENT_REFRESH_INTERVAL || '', 10) || DEFAULT_REFRESH_INTERVAL);
+  private campaignService = new CampaignService();
+
+  static getInstance(): SegmentRefreshScheduler {
+    if (!SegmentRefreshScheduler.instance) {
+      SegmentRefreshScheduler.instance = new SegmentRefreshScheduler();
+    }
+    return SegmentRefreshScheduler.instance;
+  }
+
+  /**
+   * Start the segment refresh scheduler
+   */
+  start() {
+    if (this.intervalId) {
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      this.refresh().catch(error => logger.error('segments', 'Error refreshing segment counts', error));
+    }, this.REFRESH_INTERVAL);
+  }
+
+  /**
+   * Stop the segment refresh scheduler
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.isRefreshing) {
+      return;
+    }
+
+    this.isRefreshing = true;
+    try {
+      const refreshed = await this.campaignService.refreshSegmentContactCounts();
+      if (refreshed > 0) {
+        logger.debug('segments', `Refreshed contact counts for ${refreshed} dynamic segments`);
+      }
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+}
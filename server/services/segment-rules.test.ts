@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import type { SegmentRule, SegmentRuleGroup } from '@shared/schema';
+
+vi.mock('../db', async () => {
+  const { drizzle } = await import('drizzle-orm/node-postgres');
+  return { db: drizzle.mock() };
+});
+
+const { buildSegmentRulesCondition, hasSegmentRules, parseSegmentRules } = await import('./segment-rules');
+
+const dialect = new PgDialect();
+const compile = (condition: SQL | null) => condition ? dialect.sqlToQuery(condition) : null;
+
+const rule = (overrides: Partial<SegmentRule>): SegmentRule => ({
+  type: 'rule',
+  field: 'name',
+  operator: 'equals',
+  value: 'Ada',
+  ...overrides
+} as SegmentRule);
+
+const group = (rules: SegmentRuleGroup['rules'], combinator: 'and' | 'or' = 'and'): SegmentRuleGroup => ({
+  type: 'group',
+  combinator,
+  rules
+});
+
+describe('parseSegmentRules', () => {
+  it('accepts a nested rule tree', () => {
+    const tree = group([
+      rule({ field: 'email', operator: 'contains', value: '@example.com' }),
+      group([rule({ field: 'tags', operator: 'has_any', value: ['vip'] })], 'or')
+    ]);
+    expect(parseSegmentRules(tree)).toEqual(tree);
+  });
+
+  it('rejects operators the field does not support', () => {
+    expect(() => parseSegmentRules(group([rule({ field: 'tags', operator: 'contains' })])))
+      .toThrow('Operator is not supported for this field');
+  });
+
+  it('requires a field name for custom field rules', () => {
+    expect(() => parseSegmentRules(group([rule({ field: 'custom_field', operator: 'equals' })])))
+      .toThrow('Custom field rules need a field name');
+  });
+
+  it('limits nesting depth', () => {
+    let tree = group([rule({})]);
+    for (let i = 0; i < 5; i++) {
+      tree = group([tree]);
+    }
+    expect(() => parseSegmentRules(tree)).toThrow('at most 5 levels deep');
+  });
+
+  it('limits the total number of rules', () => {
+    const tree = group([group(Array.from({ length: 60 }, () => rule({}))), group(Array.from({ length: 60 }, () => rule({})))]);
+    expect(() => parseSegmentRules(tree)).toThrow('at most 100 rules');
+  });
+});
+
+describe('hasSegmentRules', () => {
+  it('is false for missing and empty trees', () => {
+    expect(hasSegmentRules(null)).toBe(false);
+    expect(hasSegmentRules(group([]))).toBe(false);
+    expect(hasSegmentRules(group([group([])]))).toBe(false);
+  });
+
+  it('is true when any group holds a rule', () => {
+    expect(hasSegmentRules(group([group([]), group([rule({})])]))).toBe(true);
+  });
+});
+
+describe('buildSegmentRulesCondition', () => {
+  it('matches everything for empty groups and incomplete rules', () => {
+    expect(buildSegmentRulesCondition(null)).toBeNull();
+    expect(buildSegmentRulesCondition(group([]))).toBeNull();
+    expect(buildSegmentRulesCondition(group([rule({ value: '' }), rule({ field: 'tags', operator: 'has_any', value: [] })]))).toBeNull();
+  });
+
+  it('compares text case-insensitively', () => {
+    const query = compile(buildSegmentRulesCondition(group([rule({ value: ' Ada ' })])));
+    expect(query?.sql).toBe('(lower(coalesce("contacts"."name", \'\')) = lower($1))');
+    expect(query?.params).toEqual(['Ada']);
+  });
+
+  it('escapes LIKE wildcards in contains rules', () => {
+    const query = compile(buildSegmentRulesCondition(group([rule({ field: 'email', operator: 'contains', value: '50%_off' })])));
+    expect(query?.sql).toContain('"contacts"."email" ILIKE $1');
+    expect(query?.params).toEqual(['%50\\%\\_off%']);
+  });
+
+  it('joins rules with the group combinator and nests groups', () => {
+    const query = compile(buildSegmentRulesCondition(group([
+      rule({ field: 'company', operator: 'is_set', value: undefined }),
+      group([
+        rule({ value: 'Ada' }),
+        rule({ value: 'Grace' })
+      ], 'or')
+    ])));
+    expect(query?.sql).toMatch(/^\(\(.*company.* and \(\(.* or .*\)\)\)\)$/);
+    expect(query?.params).toEqual(['Ada', 'Grace']);
+  });
+
+  it('requires every tag for has_all and none for has_none', () => {
+    const all = compile(buildSegmentRulesCondition(group([rule({ field: 'tags', operator: 'has_all', value: ['VIP', 'Lead'] })])));
+    expect(all?.sql.match(/EXISTS/g)).toHaveLength(2);
+    expect(all?.params).toEqual(['vip', 'lead']);
+
+    const none = compile(buildSegmentRulesCondition(group([rule({ field: 'tags', operator: 'has_none', value: ['vip'] })])));
+    expect(none?.sql).toMatch(/^\(NOT coalesce\(EXISTS/);
+  });
+
+  it('excludes the day itself for "after" a pure date', () => {
+    const query = compile(buildSegmentRulesCondition(group([rule({ field: 'created_at', operator: 'after', value: '2024-05-01' })])));
+    expect(query?.sql).toContain('"contacts"."created_at" >= $1');
+    expect(query?.params).toEqual([new Date('2024-05-02T00:00:00Z')]);
+  });
+
+  it('negates membership subqueries for has_none', () => {
+    const query = compile(buildSegmentRulesCondition(group([rule({ field: 'channel', operator: 'has_none', value: ['whatsapp'] })])));
+    expect(query?.sql).toMatch(/^\(not exists \(select 1 from "conversations"/);
+    expect(query?.params).toEqual(['whatsapp']);
+  });
+});
@@ -0,0 +1,364 @@
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  SEGMENT_RULE_FIELDS,
+  SEGMENT_RULE_FIELD_OPERATORS,
+  SEGMENT_RULE_OPERATORS,
+  campaignRecipients,
+  contacts,
+  conversations,
+  deals,
+  messages,
+  type SegmentCampaignEngagement,
+  type SegmentCustomFieldFilter,
+  type SegmentRule,
+  type SegmentRuleGroup
+} from '@shared/schema';
+import { and, eq, exists, gt, inArray, isNotNull, not, or, sql, type SQL, type SQLWrapper } from 'drizzle-orm';
+
+const MAX_RULE_DEPTH = 5;
+const MAX_RULES = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ruleValueSchema = z.union([
+  z.string().max(500),
+  z.number(),
+  z.boolean(),
+  z.array(z.union([z.string().max(200), z.number()])).max(200)
+]);
+
+const segmentRuleSchema = z.object({
+  type: z.literal('rule'),
+  field: z.enum(SEGMENT_RULE_FIELDS),
+  operator: z.enum(SEGMENT_RULE_OPERATORS),
+  value: ruleValueSchema.optional(),
+  customField: z.string().trim().min(1).max(100).optional(),
+  campaignId: z.number().int().positive().optional()
+}).refine(rule => SEGMENT_RULE_FIELD_OPERATORS[rule.field].includes(rule.operator), {
+  message: 'Operator is not supported for this field'
+}).refine(rule => rule.field !== 'custom_field' || !!rule.customField, {
+  message: 'Custom field rules need a field name'
+});
+
+export const segmentRuleGroupSchema: z.ZodType<SegmentRuleGroup> = z.lazy(() => z.object({
+  type: z.literal('group'),
+  combinator: z.enum(['and', 'or']),
+  rules: z.array(z.union([segmentRuleSchema, segmentRuleGroupSchema])).max(MAX_RULES)
+}));
+
+const isGroup = (node: SegmentRule | SegmentRuleGroup): node is SegmentRuleGroup => node.type === 'group';
+
+/**
+ * Validate a rule tree from a request body. Throws with a readable message when invalid.
+ */
+export function parseSegmentRules(input: unknown): SegmentRuleGroup {
+  const result = segmentRuleGroupSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(`Invalid segment rules: ${issue?.path.join('.') || 'rules'} ${issue?.message || ''}`.trim());
+  }
+
+  let ruleCount = 0;
+  const checkDepth = (group: SegmentRuleGroup, depth: number) => {
+    if (depth > MAX_RULE_DEPTH) {
+      throw new Error(`Invalid segment rules: groups can be nested at most ${MAX_RULE_DEPTH} levels deep`);
+    }
+    for (const node of group.rules) {
+      if (isGroup(node)) {
+        checkDepth(node, depth + 1);
+      } else if (++ruleCount > MAX_RULES) {
+        throw new Error(`Invalid segment rules: a segment can have at most ${MAX_RULES} rules`);
+      }
+    }
+  };
+  checkDepth(result.data, 1);
+
+  return result.data;
+}
+
+/**
+ * Whether a rule tree has at least one rule that can be evaluated
+ */
+export function hasSegmentRules(group: SegmentRuleGroup | undefined | null): boolean {
+  if (!group || !Array.isArray(group.rules)) {
+    return false;
+  }
+  return group.rules.some(node => isGroup(node) ? hasSegmentRules(node) : true);
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const toList = (value: SegmentRule['value']): Array<string | number> => {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null || value === '') return [];
+  return [value as string | number];
+};
+
+const toStringList = (value: SegmentRule['value']) =>
+  toList(value).map(item => String(item).trim()).filter(Boolean);
+
+const toNumberList = (value: SegmentRule['value']) =>
+  toList(value).map(Number).filter(Number.isInteger);
+
+/**
+ * Parse a YYYY-MM-DD (or full ISO) value. Pure dates are read as the start of that day (UTC).
+ */
+const toDate = (value: SegmentRule['value']): Date | null => {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const isPureDate = (value: SegmentRule['value']) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * SQL condition for a single custom contact field filter
+ */
+export function buildCustomFieldFilterCondition(filter: SegmentCustomFieldFilter): SQL {
+  const field = filter.field.trim();
+  const jsonValue = sql`(${contacts.customFields} -> ${field}::text)`;
+  const textValue = sql`(${contacts.customFields} ->> ${field}::text)`;
+  const value = filter.value === undefined || filter.value === null ? '' : String(filter.value);
+  const equals = sql`(
+    (jsonb_typeof(${jsonValue}) = 'array' AND ${jsonValue} ? ${value}::text)
+    OR lower(${textValue}) = lower(${value}::text)
+  )`;
+
+  switch (filter.operator) {
+    case 'is_set':
+      return sql`(${contacts.customFields} ? ${field}::text)`;
+    case 'is_not_set':
+      return sql`NOT (${contacts.customFields} ? ${field}::text)`;
+    case 'not_equals':
+      return sql`NOT coalesce(${equals}, false)`;
+    case 'contains':
+      return sql`${textValue} ILIKE ${'%' + value + '%'}`;
+    case 'gt':
+    case 'lt': {
+      const operator = filter.operator === 'gt' ? sql`>` : sql`<`;
+      const numeric = Number(value);
+      if (value !== '' && Number.isFinite(numeric)) {
+        return sql`(CASE WHEN jsonb_typeof(${jsonValue}) = 'number' THEN (${textValue})::numeric END) ${operator} ${numeric}`;
+      }
+      return sql`${textValue} ${operator} ${value}::text`;
+    }
+    case 'equals':
+    default:
+      return equals;
+  }
+}
+
+function textCondition(column: SQLWrapper, rule: SegmentRule): SQL | null {
+  const value = rule.value === undefined || rule.value === null ? '' : String(rule.value).trim();
+  const filled = sql`(${column} IS NOT NULL AND ${column} <> '')`;
+
+  switch (rule.operator) {
+    case 'is_set':
+      return filled;
+    case 'is_not_set':
+      return sql`NOT ${filled}`;
+  }
+
+  if (!value) {
+    return null;
+  }
+
+  switch (rule.operator) {
+    case 'equals':
+      return sql`lower(coalesce(${column}, '')) = lower(${value})`;
+    case 'not_equals':
+      return sql`lower(coalesce(${column}, '')) <> lower(${value})`;
+    case 'contains':
+      return sql`${column} ILIKE ${`%${escapeLike(value)}%`}`;
+    case 'not_contains':
+      return sql`coalesce(${column}, '') NOT ILIKE ${`%${escapeLike(value)}%`}`;
+    default:
+      return null;
+  }
+}
+
+function dateCondition(column: SQLWrapper, rule: SegmentRule): SQL | null {
+  switch (rule.operator) {
+    case 'is_set':
+      return sql`${column} IS NOT NULL`;
+    case 'is_not_set':
+      return sql`${column} IS NULL`;
+    case 'within_last_days':
+    case 'not_within_last_days': {
+      const days = Number(rule.value);
+      if (!Number.isFinite(days) || days < 0) return null;
+      const since = new Date(Date.now() - days * DAY_MS);
+      return rule.operator === 'within_last_days'
+        ? sql`${column} >= ${since}`
+        : sql`(${column} IS NULL OR ${column} < ${since})`;
+    }
+    case 'before': {
+      const date = toDate(rule.value);
+      return date ? sql`${column} < ${date}` : null;
+    }
+    case 'after': {
+      const date = toDate(rule.value);
+      if (!date) return null;
+      // "after 2024-05-01" excludes the day itself
+      const bound = isPureDate(rule.value) ? new Date(date.getTime() + DAY_MS) : date;
+      return sql`${column} >= ${bound}`;
+    }
+    default:
+      return null;
+  }
+}
+
+function tagCondition(rule: SegmentRule): SQL | null {
+  const tags = toStringList(rule.value).map(tag => tag.toLowerCase());
+  if (tags.length === 0) return null;
+
+  const hasTag = (tagList: string[]) => sql`EXISTS (
+    SELECT 1 FROM unnest(${contacts.tags}) AS contact_tag
+    WHERE lower(trim(coalesce(contact_tag, ''))) IN (${sql.join(tagList.map(tag => sql`${tag}`), sql`, `)})
+  )`;
+
+  switch (rule.operator) {
+    case 'has_all':
+      return and(...tags.map(tag => hasTag([tag]))) ?? null;
+    case 'has_none':
+      return sql`NOT coalesce(${hasTag(tags)}, false)`;
+    case 'has_any':
+    default:
+      return hasTag(tags);
+  }
+}
+
+/**
+ * has_any -> EXISTS, has_none -> NOT EXISTS
+ */
+function membershipCondition(rule: SegmentRule, subquery: SQLWrapper): SQL {
+  const condition = exists(subquery);
+  return rule.operator === 'has_none' ? not(condition) : condition;
+}
+
+function campaignEngagementCondition(rule: SegmentRule): SQL | null {
+  const engagement = rule.value as SegmentCampaignEngagement;
+  let engagementCondition: SQL | undefined;
+
+  switch (engagement) {
+    case 'delivered':
+      engagementCondition = or(
+        inArray(campaignRecipients.status, ['delivered', 'read']),
+        isNotNull(campaignRecipients.deliveredAt)
+      );
+      break;
+    case 'read':
+      engagementCondition = or(eq(campaignRecipients.status, 'read'), isNotNull(campaignRecipients.readAt));
+      break;
+    case 'failed':
+      engagementCondition = eq(campaignRecipients.status, 'failed');
+      break;
+    case 'replied':
+      engagementCondition = exists(
+        db.select({ one: sql`1` })
+          .from(messages)
+          .where(and(
+            eq(messages.conversationId, campaignRecipients.conversationId),
+            eq(messages.direction, 'inbound'),
+            gt(messages.createdAt, campaignRecipients.sentAt)
+          ))
+      );
+      break;
+    default:
+      return null;
+  }
+
+  const condition = exists(
+    db.select({ one: sql`1` })
+      .from(campaignRecipients)
+      .where(and(
+        eq(campaignRecipients.contactId, contacts.id),
+        rule.campaignId ? eq(campaignRecipients.campaignId, rule.campaignId) : undefined,
+        engagementCondition
+      ))
+  );
+
+  return rule.operator === 'not_equals' ? not(condition) : condition;
+}
+
+const lastMessageAt = sql`(
+  SELECT max(${conversations.lastMessageAt}) FROM ${conversations}
+  WHERE ${conversations.contactId} = ${contacts.id}
+)`;
+
+function ruleCondition(rule: SegmentRule): SQL | null {
+  switch (rule.field) {
+    case 'name':
+      return textCondition(contacts.name, rule);
+    case 'email':
+      return textCondition(contacts.email, rule);
+    case 'phone':
+      return textCondition(contacts.phone, rule);
+    case 'company':
+      return textCondition(contacts.company, rule);
+    case 'source':
+      return textCondition(contacts.source, rule);
+    case 'created_at':
+      return dateCondition(contacts.createdAt, rule);
+    case 'last_message_at':
+      return dateCondition(lastMessageAt, rule);
+    case 'custom_field': {
+      if (!rule.customField) return null;
+      const valueless = rule.operator === 'is_set' || rule.operator === 'is_not_set';
+      if (!valueless && (rule.value === undefined || rule.value === null || String(rule.value) === '')) return null;
+      return buildCustomFieldFilterCondition({
+        field: rule.customField,
+        operator: rule.operator as SegmentCustomFieldFilter['operator'],
+        value: Array.isArray(rule.value) ? undefined : rule.value
+      });
+    }
+    case 'tags':
+      return tagCondition(rule);
+    case 'channel': {
+      const channelTypes = toStringList(rule.value);
+      if (channelTypes.length === 0) return null;
+      return membershipCondition(rule, db.select({ one: sql`1` })
+        .from(conversations)
+        .where(and(eq(conversations.contactId, contacts.id), inArray(conversations.channelType, channelTypes))));
+    }
+    case 'conversation_status': {
+      const statuses = toStringList(rule.value);
+      if (statuses.length === 0) return null;
+      return membershipCondition(rule, db.select({ one: sql`1` })
+        .from(conversations)
+        .where(and(eq(conversations.contactId, contacts.id), inArray(conversations.status, statuses))));
+    }
+    case 'deal_stage': {
+      const stageIds = toNumberList(rule.value);
+      if (stageIds.length === 0) return null;
+      return membershipCondition(rule, db.select({ one: sql`1` })
+        .from(deals)
+        .where(and(eq(deals.contactId, contacts.id), inArray(deals.stageId, stageIds))));
+    }
+    case 'campaign_engagement':
+      return campaignEngagementCondition(rule);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compile a rule tree into a condition on the contacts table. Incomplete rules (e.g. no value
+ * yet) are skipped so a half-built segment still previews; empty groups match everything.
+ */
+export function buildSegmentRulesCondition(group: SegmentRuleGroup | undefined | null): SQL | null {
+  if (!group || !Array.isArray(group.rules)) {
+    return null;
+  }
+
+  const conditions = group.rules
+    .map(node => isGroup(node) ? buildSegmentRulesCondition(node) : ruleCondition(node))
+    .filter((condition): condition is SQL => !!condition);
+
+  if (conditions.length === 0) {
+    return null;
+  }
+
+  const combined = group.combinator === 'or' ? or(...conditions) : and(...conditions);
+  return combined ? sql`(${combined})` : null;
+}
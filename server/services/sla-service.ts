@@ -0,0 +1,452 @@
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  conversations,
+  slaPolicies,
+  type Conversation,
+  type InsertSlaPolicy,
+  type Message,
+  type SlaPolicy
+} from '@shared/schema';
+import { and, asc, between, eq, isNotNull, isNull, lte, or, sql } from 'drizzle-orm';
+import { addBusinessMinutes } from '../utils/business-hours';
+import { businessHoursService, toBusinessHours } from './business-hours-service';
+import { smartWebSocketBroadcaster } from '../utils/smart-websocket-broadcaster';
+import { logger } from '../utils/logger';
+import { CLOSED_CONVERSATION_STATUSES, conversationAssignmentService } from './conversation-assignment-service';
+
+export type SlaBreachType = 'first_response' | 'resolution';
+
+export type SlaPolicyInput = Omit<InsertSlaPolicy, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>;
+
+export interface ConversationSlaState {
+  slaPolicyId: number | null;
+  firstResponseDueAt: Date | null;
+  firstRespondedAt: Date | null;
+  resolutionDueAt: Date | null;
+  resolvedAt: Date | null;
+  firstResponseBreachedAt: Date | null;
+  resolutionBreachedAt: Date | null;
+}
+
+export interface SlaTargetStats {
+  total: number;
+  met: number;
+  breached: number;
+  pending: number;
+  attainment: number | null; // % of completed targets that were met; null when none completed
+}
+
+export interface SlaAttainment {
+  conversations: number;
+  firstResponse: SlaTargetStats;
+  resolution: SlaTargetStats;
+}
+
+const BREACH_CHECK_INTERVAL = 60 * 1000;
+const BREACH_BATCH_SIZE = 200;
+
+const isClosedStatus = (status: string | null | undefined) =>
+  !!status && CLOSED_CONVERSATION_STATUSES.includes(status);
+
+const toSlaState = (conversation: Conversation): ConversationSlaState => ({
+  slaPolicyId: conversation.slaPolicyId,
+  firstResponseDueAt: conversation.firstResponseDueAt,
+  firstRespondedAt: conversation.firstRespondedAt,
+  resolutionDueAt: conversation.resolutionDueAt,
+  resolvedAt: conversation.resolvedAt,
+  firstResponseBreachedAt: conversation.firstResponseBreachedAt,
+  resolutionBreachedAt: conversation.resolutionBreachedAt
+});
+
+/**
+ * SLA Service
+ * Matches conversations to company SLA policies, runs the first-response and resolution
+ * timers, and escalates conversations whose timers run out.
+ */
+export class SlaService {
+  private breachInterval: NodeJS.Timeout | null = null;
+  private isChecking = false;
+
+  /**
+   * Start the breach monitor
+   */
+  start(): void {
+    if (this.breachInterval) {
+      logger.info('sla', 'SLA breach monitor is already running');
+      return;
+    }
+
+    this.breachInterval = setInterval(() => {
+      this.checkBreaches().catch(error => logger.error('sla', 'Error checking SLA breaches', error));
+    }, BREACH_CHECK_INTERVAL);
+  }
+
+  /**
+   * Stop the breach monitor
+   */
+  stop(): void {
+    if (this.breachInterval) {
+      clearInterval(this.breachInterval);
+      this.breachInterval = null;
+    }
+  }
+
+  async getPolicies(companyId: number): Promise<SlaPolicy[]> {
+    return db
+      .select()
+      .from(slaPolicies)
+      .where(eq(slaPolicies.companyId, companyId))
+      .orderBy(asc(slaPolicies.priority), asc(slaPolicies.id));
+  }
+
+  async getPolicy(id: number): Promise<SlaPolicy | null> {
+    const [policy] = await db.select().from(slaPolicies).where(eq(slaPolicies.id, id));
+    return policy || null;
+  }
+
+  async createPolicy(companyId: number, data: SlaPolicyInput): Promise<SlaPolicy> {
+    const [policy] = await db
+      .insert(slaPolicies)
+      .values({ ...data, companyId })
+      .returning();
+    return policy;
+  }
+
+  async updatePolicy(id: number, updates: Partial<SlaPolicyInput>): Promise<SlaPolicy> {
+    const [policy] = await db
+      .update(slaPolicies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(slaPolicies.id, id))
+      .returning();
+    return policy;
+  }
+
+  /**
+   * Delete a policy; timers that are still running for it are cleared
+   */
+  async deletePolicy(id: number): Promise<void> {
+    await db
+      .update(conversations)
+      .set({ slaPolicyId: null, firstResponseDueAt: null, resolutionDueAt: null })
+      .where(and(eq(conversations.slaPolicyId, id), isNull(conversations.resolvedAt)));
+
+    await db.delete(slaPolicies).where(eq(slaPolicies.id, id));
+  }
+
+  /**
+   * First active policy (by priority) whose channel and contact-tag conditions match
+   */
+  async findMatchingPolicy(conversation: Conversation): Promise<SlaPolicy | null> {
+    if (!conversation.companyId) {
+      return null;
+    }
+
+    const policies = (await this.getPolicies(conversation.companyId)).filter(policy => policy.isActive);
+    if (policies.length === 0) {
+      return null;
+    }
+
+    let contactTags: string[] = [];
+    if (conversation.contactId && policies.some(policy => policy.contactTags.length > 0)) {
+      const contact = await storage.getContact(conversation.contactId);
+      contactTags = (contact?.tags || []).map(tag => tag.toLowerCase());
+    }
+
+    return policies.find(policy =>
+      (policy.channelTypes.length === 0 || policy.channelTypes.includes(conversation.channelType)) &&
+      (policy.channelIds.length === 0 || policy.channelIds.includes(conversation.channelId)) &&
+      (policy.contactTags.length === 0 || policy.contactTags.some(tag => contactTags.includes(tag.toLowerCase())))
+    ) || null;
+  }
+
+  /**
+   * Start (or restart) the SLA timers of a conversation from the given time
+   */
+  async startTimers(conversation: Conversation, startedAt: Date = new Date()): Promise<Conversation | null> {
+    if (!conversation.companyId || conversation.isGroup || conversation.isHistorySync) {
+      return null;
+    }
+
+    const policy = await this.findMatchingPolicy(conversation);
+    if (!policy) {
+      if (!conversation.slaPolicyId) {
+        return null;
+      }
+      return this.saveState(conversation, {
+        slaPolicyId: null,
+        firstResponseDueAt: null,
+        firstRespondedAt: null,
+        resolutionDueAt: null,
+        resolvedAt: null,
+        firstResponseBreachedAt: null,
+        resolutionBreachedAt: null
+      });
+    }
+
+    const calendar = policy.businessHoursCalendarId
+      ? await businessHoursService.getCompanyCalendar(conversation.companyId, policy.businessHoursCalendarId)
+      : null;
+    const businessHours = calendar ? toBusinessHours(calendar) : null;
+
+    return this.saveState(conversation, {
+      slaPolicyId: policy.id,
+      firstResponseDueAt: policy.firstResponseMinutes
+        ? addBusinessMinutes(startedAt, policy.firstResponseMinutes, businessHours)
+        : null,
+      firstRespondedAt: null,
+      resolutionDueAt: policy.resolutionMinutes
+        ? addBusinessMinutes(startedAt, policy.resolutionMinutes, businessHours)
+        : null,
+      resolvedAt: null,
+      firstResponseBreachedAt: null,
+      resolutionBreachedAt: null
+    });
+  }
+
+  /**
+   * Stop the first-response timer when an agent replies. Bot, flow, campaign, survey and
+   * out-of-office sends have no agent sender and leave the timer running.
+   */
+  async handleMessageCreated(message: Message): Promise<void> {
+    if (message.direction !== 'outbound' || message.isFromBot || message.isHistorySync) {
+      return;
+    }
+    if (message.senderType !== 'user' || !message.senderId) {
+      return;
+    }
+
+    const conversation = await storage.getConversation(message.conversationId);
+    if (!conversation?.slaPolicyId || conversation.firstRespondedAt || conversation.resolvedAt) {
+      return;
+    }
+
+    await this.saveState(conversation, { firstRespondedAt: message.createdAt || new Date() });
+  }
+
+  /**
+   * Stop the timers when a conversation is closed and restart them when it is reopened
+   */
+  async handleStatusChange(conversation: Conversation): Promise<void> {
+    if (isClosedStatus(conversation.status)) {
+      if (conversation.slaPolicyId && !conversation.resolvedAt) {
+        await this.saveState(conversation, { resolvedAt: new Date() });
+      }
+      return;
+    }
+
+    if (conversation.resolvedAt) {
+      await this.startTimers(conversation);
+    }
+  }
+
+  private async saveState(conversation: Conversation, updates: Partial<ConversationSlaState>): Promise<Conversation> {
+    const updatedConversation = await storage.updateConversation(conversation.id, updates);
+
+    smartWebSocketBroadcaster.broadcastToCompany({
+      type: 'slaUpdated',
+      data: { conversationId: conversation.id, sla: toSlaState(updatedConversation) },
+      conversationId: conversation.id,
+      priority: 'normal',
+      batchable: true
+    }, conversation.companyId!);
+
+    return updatedConversation;
+  }
+
+  /**
+   * Mark overdue timers as breached and run the policy escalation for each
+   */
+  async checkBreaches(): Promise<number> {
+    if (this.isChecking) {
+      return 0;
+    }
+
+    this.isChecking = true;
+    try {
+      const now = new Date();
+      const firstResponseOverdue = and(
+        isNotNull(conversations.firstResponseDueAt),
+        lte(conversations.firstResponseDueAt, now),
+        isNull(conversations.firstRespondedAt),
+        isNull(conversations.firstResponseBreachedAt)
+      );
+      const resolutionOverdue = and(
+        isNotNull(conversations.resolutionDueAt),
+        lte(conversations.resolutionDueAt, now),
+        isNull(conversations.resolutionBreachedAt)
+      );
+
+      const overdue = await db
+        .select()
+        .from(conversations)
+        .where(and(
+          isNotNull(conversations.slaPolicyId),
+          isNull(conversations.resolvedAt),
+          or(firstResponseOverdue, resolutionOverdue)
+        ))
+        .limit(BREACH_BATCH_SIZE);
+
+      let breaches = 0;
+      for (const conversation of overdue) {
+        try {
+          breaches += await this.processOverdueConversation(conversation, now);
+        } catch (error) {
+          logger.error('sla', `Failed to process SLA breach for conversation ${conversation.id}`, error);
+        }
+      }
+
+      return breaches;
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async processOverdueConversation(conversation: Conversation, now: Date): Promise<number> {
+    const breachTypes: SlaBreachType[] = [];
+    const updates: Partial<ConversationSlaState> = {};
+
+    if (conversation.firstResponseDueAt && conversation.firstResponseDueAt <= now &&
+        !conversation.firstRespondedAt && !conversation.firstResponseBreachedAt) {
+      breachTypes.push('first_response');
+      updates.firstResponseBreachedAt = now;
+    }
+    if (conversation.resolutionDueAt && conversation.resolutionDueAt <= now && !conversation.resolutionBreachedAt) {
+      breachTypes.push('resolution');
+      updates.resolutionBreachedAt = now;
+    }
+
+    if (breachTypes.length === 0) {
+      return 0;
+    }
+
+    let updatedConversation = await this.saveState(conversation, updates);
+    const policy = await this.getPolicy(conversation.slaPolicyId!);
+
+    for (const breachType of breachTypes) {
+      smartWebSocketBroadcaster.broadcastToCompany({
+        type: 'slaBreached',
+        data: {
+          conversationId: conversation.id,
+          breachType,
+          policyId: policy?.id ?? null,
+          policyName: policy?.name ?? null,
+          assignedToUserId: updatedConversation.assignedToUserId,
+          sla: toSlaState(updatedConversation)
+        },
+        conversationId: conversation.id,
+        priority: 'high',
+        batchable: false
+      }, conversation.companyId!);
+
+      logger.info('sla', `Conversation ${conversation.id} breached ${breachType} SLA (policy ${conversation.slaPolicyId})`);
+    }
+
+    if (policy) {
+      updatedConversation = await this.escalate(updatedConversation, policy, breachTypes);
+    }
+
+    return breachTypes.length;
+  }
+
+  /**
+   * Run the escalation actions configured on the policy: notify, tag, then reassign
+   */
+  private async escalate(conversation: Conversation, policy: SlaPolicy, breachTypes: SlaBreachType[]): Promise<Conversation> {
+    const { escalation } = policy;
+    const previousAssigneeId = conversation.assignedToUserId;
+
+    const notifyUserIds = new Set(escalation.notifyUserIds || []);
+    if (escalation.notifyAssignee && previousAssigneeId) {
+      notifyUserIds.add(previousAssigneeId);
+    }
+
+    for (const userId of Array.from(notifyUserIds)) {
+      smartWebSocketBroadcaster.broadcastToUser({
+        type: 'slaEscalation',
+        data: {
+          conversationId: conversation.id,
+          contactId: conversation.contactId,
+          breachTypes,
+          policyId: policy.id,
+          policyName: policy.name
+        },
+        companyId: conversation.companyId!,
+        priority: 'high',
+        batchable: false
+      }, userId);
+    }
+
+    if (escalation.addTags?.length && conversation.contactId) {
+      try {
+        const contact = await storage.getContact(conversation.contactId);
+        if (contact) {
+          const tags = Array.from(new Set([...(contact.tags || []), ...escalation.addTags]));
+          if (tags.length !== (contact.tags || []).length) {
+            await storage.updateContact(contact.id, { tags });
+          }
+        }
+      } catch (error) {
+        logger.error('sla', `Failed to tag contact of conversation ${conversation.id}`, error);
+      }
+    }
+
+    if (escalation.reassign) {
+      try {
+        const reassigned = await conversationAssignmentService.reassignConversation(conversation, escalation.reassignToUserId);
+        if (reassigned) {
+          return reassigned;
+        }
+        logger.debug('sla', `No agent available to take over conversation ${conversation.id}`);
+      } catch (error) {
+        logger.error('sla', `Failed to reassign conversation ${conversation.id} on SLA breach`, error);
+      }
+    }
+
+    return conversation;
+  }
+
+  /**
+   * First-response and resolution attainment for conversations created in a date range
+   */
+  async getAttainment(companyId: number, startDate: Date, endDate: Date): Promise<SlaAttainment> {
+    const [row] = await db
+      .select({
+        conversations: sql<number>`count(*)`,
+        firstResponseTotal: sql<number>`count(*) FILTER (WHERE ${conversations.firstResponseDueAt} IS NOT NULL)`,
+        firstResponseMet: sql<number>`count(*) FILTER (WHERE ${conversations.firstRespondedAt} <= ${conversations.firstResponseDueAt})`,
+        firstResponseBreached: sql<number>`count(*) FILTER (WHERE ${conversations.firstResponseBreachedAt} IS NOT NULL OR ${conversations.firstRespondedAt} > ${conversations.firstResponseDueAt})`,
+        resolutionTotal: sql<number>`count(*) FILTER (WHERE ${conversations.resolutionDueAt} IS NOT NULL)`,
+        resolutionMet: sql<number>`count(*) FILTER (WHERE ${conversations.resolvedAt} <= ${conversations.resolutionDueAt})`,
+        resolutionBreached: sql<number>`count(*) FILTER (WHERE ${conversations.resolutionBreachedAt} IS NOT NULL OR ${conversations.resolvedAt} > ${conversations.resolutionDueAt})`
+      })
+      .from(conversations)
+      .where(and(
+        eq(conversations.companyId, companyId),
+        isNotNull(conversations.slaPolicyId),
+        between(conversations.createdAt, startDate, endDate)
+      ));
+
+    const stats = (total: unknown, met: unknown, breached: unknown): SlaTargetStats => {
+      const totalCount = Number(total) || 0;
+      const metCount = Number(met) || 0;
+      const breachedCount = Number(breached) || 0;
+      const completed = metCount + breachedCount;
+      return {
+        total: totalCount,
+        met: metCount,
+        breached: breachedCount,
+        pending: Math.max(0, totalCount - completed),
+        attainment: completed > 0 ? Math.round((metCount / completed) * 1000) / 10 : null
+      };
+    };
+
+    return {
+      conversations: Number(row?.conversations) || 0,
+      firstResponse: stats(row?.firstResponseTotal, row?.firstResponseMet, row?.firstResponseBreached),
+      resolution: stats(row?.resolutionTotal, row?.resolutionMet, row?.resolutionBreached)
+    };
+  }
+}
+
+export const slaService = new SlaService();
@@ -0,0 +1,93 @@
+import path from 'path';
+import { IStorageProvider, BackupFile, UploadOptions, DownloadOptions } from './storage-provider.interface';
+import { createS3ClientFromEnv, S3Client } from '../s3-client';
+
+/**
+ * S3-compatible Storage Provider (AWS S3, MinIO, ...)
+ * Backups are stored under S3_BACKUP_PREFIX (default "backups/") in the S3_BUCKET bucket.
+ */
+export class S3StorageProvider implements IStorageProvider {
+  readonly name = 's3';
+  private client: S3Client | null;
+  private prefix: string;
+
+  constructor() {
+    this.client = createS3ClientFromEnv();
+    this.prefix = (process.env.S3_BACKUP_PREFIX ?? 'backups/').replace(/^\/+/, '');
+  }
+
+  private getClient(): S3Client {
+    if (!this.client) {
+      throw new Error('S3 storage is not configured. Set S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.');
+    }
+    return this.client;
+  }
+
+  private getKey(filename: string): string {
+    return `${this.prefix}${path.basename(filename)}`;
+  }
+
+  async uploadBackup(options: UploadOptions): Promise<void> {
+    try {
+      await this.getClient().putObjectFromFile(this.getKey(options.filename), options.filePath, 'application/octet-stream');
+    } catch (error) {
+      throw new Error(`Failed to upload to S3: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async downloadBackup(options: DownloadOptions): Promise<void> {
+    try {
+      await this.getClient().getObjectToFile(this.getKey(options.filename), options.destinationPath);
+    } catch (error) {
+      throw new Error(`Failed to download from S3: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async deleteBackup(filename: string): Promise<void> {
+    try {
+      await this.getClient().deleteObject(this.getKey(filename));
+    } catch (error) {
+      throw new Error(`Failed to delete from S3: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async listBackups(): Promise<BackupFile[]> {
+    try {
+      const objects = await this.getClient().listObjects(this.prefix);
+      return objects
+        .map(object => ({ ...object, filename: object.key.slice(this.prefix.length) }))
+        .filter(object => !object.filename.includes('/') && (object.filename.endsWith('.sql') || object.filename.endsWith('.backup')))
+        .map(object => ({
+          filename: object.filename,
+          size: object.size,
+          created_at: object.lastModified
+        }));
+    } catch (error) {
+      throw new Error(`Failed to list S3 backups: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.client) {
+      return false;
+    }
+
+    try {
+      await this.client.checkBucket();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Describe the configured bucket for the admin UI, without credentials
+   */
+  getStatus(): { configured: boolean; bucket: string | null; prefix: string } {
+    return {
+      configured: !!this.client,
+      bucket: this.client?.bucket ?? null,
+      prefix: this.prefix
+    };
+  }
+}
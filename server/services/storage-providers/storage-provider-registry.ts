@@ -1,6 +1,7 @@
 import { IStorageProvider } from './storage-provider.interface';
 import { LocalStorageProvider } from './local-storage-provider';
 import { GoogleDriveStorageProvider } from './google-drive-storage-provider';
+import { S3StorageProvider } from './s3-storage-provider';
 
 /**
  * Storage Provider Registry
@@ -79,6 +80,9 @@ export class StorageProviderRegistry {
 
 
     this.register(new GoogleDriveStorageProvider());
+
+
+    this.register(new S3StorageProvider());
   }
 }
 
@@ -0,0 +1,544 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import axios from 'axios';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  webhookDeliveries,
+  webhookSubscriptions,
+  type Conversation,
+  type InsertWebhookSubscription,
+  type WebhookDelivery,
+  type WebhookDeliveryAttempt,
+  type WebhookEvent,
+  type WebhookSubscription
+} from '@shared/schema';
+import { and, asc, desc, eq, inArray, lt, lte, notInArray, sql } from 'drizzle-orm';
+import { generateWebhookSignature } from '../middleware/api-auth';
+import { logger } from '../utils/logger';
+import { CLOSED_CONVERSATION_STATUSES } from './conversation-assignment-service';
+
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export type WebhookSubscriptionInput = Pick<InsertWebhookSubscription, 'name' | 'url' | 'events' | 'isActive'>;
+
+/**
+ * Subscription as returned to clients; secrets are only revealed on creation and rotation
+ */
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret' | 'previousSecret'> & {
+  secretHint: string;
+  hasPreviousSecret: boolean;
+};
+
+export interface WebhookDeliveryFilters {
+  subscriptionId?: number;
+  status?: WebhookDelivery['status'];
+  eventType?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const DISPATCH_INTERVAL = 15 * 1000;
+const DISPATCH_BATCH_SIZE = 25;
+const REQUEST_TIMEOUT = 10 * 1000;
+const STALE_SENDING_AFTER = 5 * 60 * 1000;
+const SUBSCRIPTION_CACHE_TTL = 60 * 1000;
+const SECRET_ROTATION_GRACE = 24 * 60 * 60 * 1000;
+const DELIVERY_RETENTION_DAYS = 30;
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+const MAX_LOGGED_ATTEMPTS = 20;
+
+// Minutes to wait after each failed attempt: retries span roughly a day before giving up
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 30, 60, 120, 240, 480, 720];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+const generateSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+/**
+ * Delay before the next attempt, with ±10% jitter so failing endpoints are not hit in bursts
+ */
+const getRetryDelay = (attemptCount: number) => {
+  const minutes = RETRY_DELAYS_MINUTES[Math.min(attemptCount, RETRY_DELAYS_MINUTES.length) - 1];
+  const jitter = 0.9 + Math.random() * 0.2;
+  return Math.round(minutes * 60 * 1000 * jitter);
+};
+
+export const isPrivateAddress = (address: string): boolean => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224;
+  }
+
+  const normalized = address.toLowerCase();
+  return normalized === '::' || normalized === '::1' ||
+    /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+};
+
+/**
+ * Reason a URL cannot receive webhooks, or null when it can. Endpoints must be public HTTPS
+ * URLs so tenants cannot reach services on the internal network.
+ */
+export async function validateWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URLs must use HTTPS';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Webhook URLs must not contain credentials';
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.local') || hostname.endsWith('.internal')) {
+    return 'Webhook URLs must point to a public host';
+  }
+
+  try {
+    const addresses = net.isIP(hostname)
+      ? [{ address: hostname }]
+      : await dns.promises.lookup(hostname, { all: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return 'Webhook URLs must point to a public host';
+    }
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+
+  return null;
+}
+
+export const toPublicSubscription = (subscription: WebhookSubscription): PublicWebhookSubscription => {
+  const { secret, previousSecret, ...rest } = subscription;
+  return {
+    ...rest,
+    secretHint: secret.slice(-4),
+    hasPreviousSecret: !!previousSecret && !!subscription.previousSecretExpiresAt && subscription.previousSecretExpiresAt > new Date()
+  };
+};
+
+/**
+ * Webhook Subscription Service
+ * Fans company events out to subscribed webhook endpoints. Every event is stored as a delivery
+ * before it is sent and retried with exponential backoff for about a day, so events survive
+ * restarts and endpoint outages.
+ */
+export class WebhookSubscriptionService {
+  private dispatchInterval: NodeJS.Timeout | null = null;
+  private isDispatching = false;
+  private lastCleanupAt = 0;
+  private cache = new Map<number, { subscriptions: WebhookSubscription[]; expiresAt: number }>();
+
+  /**
+   * Start the delivery dispatcher
+   */
+  start(): void {
+    if (this.dispatchInterval) {
+      logger.info('webhooks', 'Webhook dispatcher is already running');
+      return;
+    }
+
+    this.dispatchInterval = setInterval(() => this.triggerDispatch(), DISPATCH_INTERVAL);
+  }
+
+  /**
+   * Stop the delivery dispatcher
+   */
+  stop(): void {
+    if (this.dispatchInterval) {
+      clearInterval(this.dispatchInterval);
+      this.dispatchInterval = null;
+    }
+  }
+
+  async getSubscriptions(companyId: number): Promise<WebhookSubscription[]> {
+    return db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.companyId, companyId))
+      .orderBy(asc(webhookSubscriptions.name));
+  }
+
+  async getSubscription(id: number): Promise<WebhookSubscription | null> {
+    const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription || null;
+  }
+
+  async createSubscription(companyId: number, createdById: number, data: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const [subscription] = await db
+      .insert(webhookSubscriptions)
+      .values({ ...data, companyId, createdById, secret: generateSecret() })
+      .returning();
+    this.cache.delete(companyId);
+    return subscription;
+  }
+
+  async updateSubscription(id: number, updates: Partial<WebhookSubscriptionInput>): Promise<WebhookSubscription> {
+    const [subscription] = await db
+      .update(webhookSubscriptions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    this.cache.delete(subscription.companyId);
+    return subscription;
+  }
+
+  /**
+   * Delete a subscription together with its delivery log
+   */
+  async deleteSubscription(subscription: WebhookSubscription): Promise<void> {
+    await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, subscription.id));
+    this.cache.delete(subscription.companyId);
+  }
+
+  /**
+   * Replace the signing secret. Deliveries keep carrying a signature made with the old secret
+   * for a grace period so receivers can switch over without dropping events.
+   */
+  async rotateSecret(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    const [rotated] = await db
+      .update(webhookSubscriptions)
+      .set({
+        secret: generateSecret(),
+        previousSecret: subscription.secret,
+        previousSecretExpiresAt: new Date(Date.now() + SECRET_ROTATION_GRACE),
+        updatedAt: new Date()
+      })
+      .where(eq(webhookSubscriptions.id, subscription.id))
+      .returning();
+    this.cache.delete(subscription.companyId);
+    return rotated;
+  }
+
+  private async getActiveSubscriptions(companyId: number): Promise<WebhookSubscription[]> {
+    const cached = this.cache.get(companyId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.subscriptions;
+    }
+
+    const subscriptions = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.companyId, companyId), eq(webhookSubscriptions.isActive, true)));
+    this.cache.set(companyId, { subscriptions, expiresAt: Date.now() + SUBSCRIPTION_CACHE_TTL });
+    return subscriptions;
+  }
+
+  /**
+   * Queue an event for every active subscription of the company that listens to it
+   */
+  async emit(companyId: number | null | undefined, event: WebhookEvent, data: unknown): Promise<void> {
+    if (!companyId) {
+      return;
+    }
+
+    const subscriptions = (await this.getActiveSubscriptions(companyId))
+      .filter(subscription => subscription.events.includes(event));
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const eventId = crypto.randomUUID();
+    const payload = { id: eventId, event, createdAt: new Date().toISOString(), companyId, data };
+
+    await db.insert(webhookDeliveries).values(subscriptions.map(subscription => ({
+      companyId,
+      subscriptionId: subscription.id,
+      eventId,
+      eventType: event,
+      payload,
+      maxAttempts: MAX_ATTEMPTS,
+      nextAttemptAt: new Date()
+    })));
+
+    this.triggerDispatch();
+  }
+
+  /**
+   * Queue an event for the company that owns the conversation
+   */
+  async emitForConversation(conversationId: number, event: WebhookEvent, data: unknown): Promise<void> {
+    const conversation = await storage.getConversation(conversationId);
+    await this.emit(conversation?.companyId, event, data);
+  }
+
+  /**
+   * Queue conversation.assigned / conversation.closed when an update assigns or closes a conversation
+   */
+  async handleConversationUpdate(
+    previous: Pick<Conversation, 'status' | 'assignedToUserId'>,
+    conversation: Conversation
+  ): Promise<void> {
+    if (conversation.assignedToUserId && conversation.assignedToUserId !== previous.assignedToUserId) {
+      await this.emit(conversation.companyId, 'conversation.assigned', {
+        conversation,
+        previousAssignedToUserId: previous.assignedToUserId
+      });
+    }
+
+    const isClosed = CLOSED_CONVERSATION_STATUSES.includes(conversation.status || '');
+    if (isClosed && !CLOSED_CONVERSATION_STATUSES.includes(previous.status || '')) {
+      await this.emit(conversation.companyId, 'conversation.closed', { conversation });
+    }
+  }
+
+  /**
+   * Send a sample event to a single subscription regardless of the events it listens to
+   */
+  async sendTest(subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const eventId = crypto.randomUUID();
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values({
+        companyId: subscription.companyId,
+        subscriptionId: subscription.id,
+        eventId,
+        eventType: WEBHOOK_TEST_EVENT,
+        payload: {
+          id: eventId,
+          event: WEBHOOK_TEST_EVENT,
+          createdAt: new Date().toISOString(),
+          companyId: subscription.companyId,
+          data: { subscriptionId: subscription.id, message: 'This is a test event' }
+        },
+        maxAttempts: 1,
+        nextAttemptAt: new Date()
+      })
+      .returning();
+
+    this.triggerDispatch();
+    return delivery;
+  }
+
+  /**
+   * Send a past delivery again as a new delivery with the same event id, so receivers can
+   * deduplicate it
+   */
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const [redelivery] = await db
+      .insert(webhookDeliveries)
+      .values({
+        companyId: delivery.companyId,
+        subscriptionId: delivery.subscriptionId,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        payload: delivery.payload,
+        maxAttempts: MAX_ATTEMPTS,
+        nextAttemptAt: new Date(),
+        redeliveryOfId: delivery.id
+      })
+      .returning();
+
+    this.triggerDispatch();
+    return redelivery;
+  }
+
+  async getDelivery(id: number): Promise<WebhookDelivery | null> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || null;
+  }
+
+  async getDeliveries(companyId: number, filters: WebhookDeliveryFilters = {}): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const conditions = [eq(webhookDeliveries.companyId, companyId)];
+    if (filters.subscriptionId) {
+      conditions.push(eq(webhookDeliveries.subscriptionId, filters.subscriptionId));
+    }
+    if (filters.status) {
+      conditions.push(eq(webhookDeliveries.status, filters.status));
+    }
+    if (filters.eventType) {
+      conditions.push(eq(webhookDeliveries.eventType, filters.eventType));
+    }
+    const where = and(...conditions);
+
+    const [deliveries, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(webhookDeliveries)
+        .where(where)
+        .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+        .limit(filters.limit ?? 50)
+        .offset(filters.offset ?? 0),
+      db.select({ total: sql<number>`COUNT(*)::int` }).from(webhookDeliveries).where(where)
+    ]);
+
+    return { deliveries, total };
+  }
+
+  private triggerDispatch(): void {
+    this.dispatch().catch(error => logger.error('webhooks', 'Error dispatching webhook deliveries', error));
+  }
+
+  /**
+   * Send every due delivery, batch by batch
+   */
+  private async dispatch(): Promise<void> {
+    if (this.isDispatching) {
+      return;
+    }
+    this.isDispatching = true;
+
+    try {
+      await this.releaseStaleDeliveries();
+
+      let batch = await this.claimDueDeliveries();
+      while (batch.length > 0) {
+        await Promise.all(batch.map(delivery => this.attemptDelivery(delivery)));
+        batch = await this.claimDueDeliveries();
+      }
+
+      if (Date.now() - this.lastCleanupAt > CLEANUP_INTERVAL) {
+        this.lastCleanupAt = Date.now();
+        await this.cleanupOldDeliveries();
+      }
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+
+  /**
+   * Mark due deliveries as sending. Rows locked by another instance are skipped so each
+   * delivery is sent by one process only.
+   */
+  private async claimDueDeliveries(): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, new Date())))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(DISPATCH_BATCH_SIZE)
+      .for('update', { skipLocked: true });
+
+    return db
+      .update(webhookDeliveries)
+      .set({ status: 'sending', lastAttemptAt: new Date() })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  /**
+   * Deliveries left in `sending` by a process that stopped mid-request are sent again
+   */
+  private async releaseStaleDeliveries(): Promise<void> {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: 'pending', nextAttemptAt: new Date() })
+      .where(and(
+        eq(webhookDeliveries.status, 'sending'),
+        lt(webhookDeliveries.lastAttemptAt, new Date(Date.now() - STALE_SENDING_AFTER))
+      ));
+  }
+
+  private async cleanupOldDeliveries(): Promise<void> {
+    const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await db
+      .delete(webhookDeliveries)
+      .where(and(
+        lt(webhookDeliveries.createdAt, cutoff),
+        notInArray(webhookDeliveries.status, ['pending', 'sending'])
+      ));
+  }
+
+  /**
+   * Signature header value: one `v1=` HMAC-SHA256 of `<timestamp>.<body>` per valid secret
+   */
+  private sign(subscription: WebhookSubscription, timestamp: number, body: string): string {
+    const secrets = [subscription.secret];
+    if (subscription.previousSecret && subscription.previousSecretExpiresAt && subscription.previousSecretExpiresAt > new Date()) {
+      secrets.push(subscription.previousSecret);
+    }
+    return secrets.map(secret => `v1=${generateWebhookSignature(`${timestamp}.${body}`, secret)}`).join(',');
+  }
+
+  private async attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+    const subscription = await this.getSubscription(delivery.subscriptionId);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    if (!subscription || !subscription.isActive) {
+      error = 'Subscription is disabled';
+    } else {
+      error = await validateWebhookUrl(subscription.url);
+    }
+
+    if (subscription && !error) {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(startedAt / 1000);
+
+      try {
+        const response = await axios.post(subscription.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'PowerChat-Webhook/1.0',
+            'X-Webhook-Id': delivery.eventId,
+            'X-Webhook-Event': delivery.eventType,
+            'X-Webhook-Delivery': String(delivery.id),
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': this.sign(subscription, timestamp, body)
+          },
+          timeout: REQUEST_TIMEOUT,
+          maxRedirects: 0,
+          responseType: 'text',
+          validateStatus: () => true
+        });
+
+        responseStatus = response.status;
+        responseBody = typeof response.data === 'string' ? response.data.slice(0, MAX_RESPONSE_BODY_LENGTH) : null;
+        if (response.status < 200 || response.status >= 300) {
+          error = `Endpoint responded with HTTP ${response.status}`;
+        }
+      } catch (requestError: any) {
+        error = requestError?.code === 'ECONNABORTED' ? 'Request timed out' : (requestError?.message || 'Request failed');
+      }
+    }
+
+    const now = new Date();
+    const durationMs = Date.now() - startedAt;
+    const attemptCount = delivery.attemptCount + 1;
+    const attempt: WebhookDeliveryAttempt = { at: now.toISOString(), responseStatus, error, durationMs };
+    const attempts = [...(delivery.attempts || []), attempt].slice(-MAX_LOGGED_ATTEMPTS);
+
+    const isDelivered = !error;
+    const canRetry = !isDelivered && subscription?.isActive && attemptCount < delivery.maxAttempts;
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: isDelivered ? 'delivered' : canRetry ? 'pending' : 'failed',
+        attemptCount,
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: canRetry ? new Date(now.getTime() + getRetryDelay(attemptCount)) : null,
+        responseStatus,
+        responseBody,
+        error,
+        durationMs,
+        deliveredAt: isDelivered ? now : null
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+
+    if (!isDelivered && !canRetry) {
+      logger.warn('webhooks', `Webhook delivery ${delivery.id} (${delivery.eventType}) failed after ${attemptCount} attempt(s): ${error}`);
+    }
+  }
+}
+
+export const webhookSubscriptionService = new WebhookSubscriptionService();
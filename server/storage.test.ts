@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Deal, PipelineStage } from '@shared/schema';
+
+const mocks = vi.hoisted(() => ({
+  selectResults: [] as unknown[][],
+  update: vi.fn(),
+  handleStageChange: vi.fn(),
+  emitWebhook: vi.fn()
+}));
+
+vi.mock('./db', () => {
+  const tx = {
+    select: () => ({ from: () => ({ where: async () => mocks.selectResults.shift() || [] }) }),
+    update: () => ({ set: (values: object) => ({ where: () => ({ returning: async () => [mocks.update(values)] }) }) })
+  };
+  return { getDb: () => ({ transaction: (callback: (tx: unknown) => unknown) => callback(tx) }), pool: {} };
+});
+vi.mock('connect-pg-simple', () => ({ default: () => class {} }));
+vi.mock('./services/pipeline-automation-service', () => ({
+  pipelineAutomationService: { handleStageChange: mocks.handleStageChange }
+}));
+vi.mock('./services/webhook-subscription-service', () => ({
+  webhookSubscriptionService: { emit: mocks.emitWebhook }
+}));
+
+const { storage } = await import('./storage');
+
+const deal = (overrides: Partial<Deal> = {}) => ({
+  id: 7,
+  companyId: 1,
+  pipelineId: 1,
+  stageId: 10,
+  stage: 'lead',
+  title: 'Renewal',
+  value: 500,
+  dueDate: null,
+  ...overrides
+} as Deal);
+
+const stage = (overrides: Partial<PipelineStage> = {}) => ({
+  id: 20,
+  pipelineId: 2,
+  name: 'Proposal',
+  requiredFields: [],
+  ...overrides
+} as PipelineStage);
+
+describe('updateDealPipelineAndStage', () => {
+  beforeEach(() => {
+    mocks.selectResults = [];
+    mocks.update.mockReset().mockImplementation(values => ({ ...deal(), ...values }));
+    mocks.handleStageChange.mockReset().mockResolvedValue(undefined);
+    mocks.emitWebhook.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('runs stage automations after moving the deal to another pipeline', async () => {
+    mocks.selectResults = [[deal()], [stage({ requiredFields: ['value'] })]];
+
+    const moved = await storage.updateDealPipelineAndStage(7, 2, 20);
+
+    expect(moved).toMatchObject({ id: 7, pipelineId: 2, stageId: 20, stage: 'proposal' });
+    await vi.waitFor(() => expect(mocks.handleStageChange).toHaveBeenCalledWith(moved, 10));
+    await vi.waitFor(() => expect(mocks.emitWebhook).toHaveBeenCalledWith(1, 'deal.stage_changed', {
+      deal: moved,
+      previousStage: 'lead',
+      previousStageId: 10
+    }));
+  });
+
+  it('rejects the move when the deal misses fields the stage requires', async () => {
+    mocks.selectResults = [[deal({ value: null })], [stage({ requiredFields: ['value', 'dueDate'] })]];
+
+    await expect(storage.updateDealPipelineAndStage(7, 2, 20)).rejects.toMatchObject({
+      message: 'Fill in value, dueDate before the deal can enter Proposal',
+      missingFields: ['value', 'dueDate']
+    });
+    expect(mocks.update).not.toHaveBeenCalled();
+    expect(mocks.handleStageChange).not.toHaveBeenCalled();
+  });
+});
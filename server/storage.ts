@@ -20,6 +20,7 @@ import {
   apiRateLimits, type ApiRateLimit, type InsertApiRateLimit,
   // apiWebhooks, type ApiWebhook, type InsertApiWebhook, // REMOVED: table doesn't exist
   flows, type Flow, type InsertFlow,
+  flowVersions,
   flowAssignments, type FlowAssignment, type InsertFlowAssignment,
   flowExecutions, flowStepExecutions,
   flowSessions, flowSessionVariables, flowSessionCursors,
@@ -42,7 +43,7 @@ import {
   planAiBillingEvents, type PlanAiBillingEvent, type InsertPlanAiBillingEvent,
   appSettings,
   companySettings,
-  // companyCustomFields, // REMOVED: table doesn't exist
+  companyCustomFields, type CompanyCustomField, type CustomFieldEntity, type CustomFieldType, type CustomFieldOption,
   paymentTransactions,
   languages,
   translationNamespaces,
@@ -78,7 +79,8 @@ import {
   databaseBackupLogs, type DatabaseBackupLog, type InsertDatabaseBackupLog,
 
   type DealStatus, type DealPriority,
-  type CompanySetting
+  type CompanySetting,
+  type WebhookEvent
 } from "@shared/schema";
 
 // Import stub definitions for missing tables
@@ -87,14 +89,14 @@ import {
   calendarBookings, type CalendarBooking, type InsertCalendarBooking,
   pipelines, type Pipeline, type InsertPipeline,
   pipelineStageReverts, type PipelineStageRevert, type InsertPipelineStageRevert,
-  pipelineStageRevertLogs, type PipelineStageRevertLog, type InsertPipelineStageRevertLog,
-  companyCustomFields
+  pipelineStageRevertLogs, type PipelineStageRevertLog, type InsertPipelineStageRevertLog
 } from "@shared/schema-stubs";
 
 import session from "express-session";
 import { eq, and, desc, asc, or, sql, count, isNull, isNotNull, gt, gte, lt, lte, inArray, ne, not, SQL } from "drizzle-orm";
 import { filterGroupChatsFromConversations, isWhatsAppGroupChatId } from "./utils/whatsapp-group-filter";
 import { validatePhoneNumber as validatePhoneNumberUtil } from "./utils/phone-validation";
+import { assertRequiredFields, isMissingRequiredFieldsError } from "./utils/deal-required-fields";
 
 
 export interface AppSetting {
@@ -264,6 +266,40 @@ export interface DataRetentionPolicyConfig {
   notificationDays?: number;
 }
 
+export type ConversationAssignmentStrategy = 'round_robin' | 'least_open' | 'skills';
+
+export interface ConversationAssignmentChannelRule {
+  strategy?: ConversationAssignmentStrategy;
+  requiredSkills?: string[];
+  matchContactTags?: boolean;
+  eligibleUserIds?: number[];
+}
+
+export interface ConversationAssignmentPolicyConfig {
+  enabled: boolean;
+  strategy: ConversationAssignmentStrategy;
+  respectAvailability: boolean;
+  maxConcurrentChats: number; // 0 = unlimited
+  eligibleUserIds?: number[];
+  channelRules?: Record<string, ConversationAssignmentChannelRule>; // keyed by channel connection id
+  reassignOnOffline: boolean;
+  offlineGraceMinutes: number;
+}
+
+export type SatisfactionSurveyType = 'csat' | 'nps';
+
+export interface SatisfactionSurveyConfig {
+  enabled: boolean;
+  surveyType: SatisfactionSurveyType;
+  channelTypes: string[]; // empty = every supported channel
+  question: string;
+  askForComment: boolean;
+  commentPrompt: string;
+  thankYouMessage: string;
+  cooldownHours: number; // minimum hours between surveys to the same contact
+  expiryHours: number; // unanswered surveys stop accepting replies after this
+}
+
 export interface IStorage {
   getAllCompanies(): Promise<Company[]>;
   getCompany(id: number): Promise<Company | undefined>;
@@ -400,6 +436,12 @@ export interface IStorage {
   getDataRetentionPolicy(companyId: number, platform: string): Promise<DataRetentionPolicyConfig | null>;
   setDataRetentionPolicy(companyId: number, platform: string, policyConfig: DataRetentionPolicyConfig): Promise<CompanySetting>;
 
+  getConversationAssignmentPolicy(companyId: number): Promise<ConversationAssignmentPolicyConfig | null>;
+  setConversationAssignmentPolicy(companyId: number, policyConfig: ConversationAssignmentPolicyConfig): Promise<CompanySetting>;
+
+  getSatisfactionSurveyConfig(companyId: number): Promise<SatisfactionSurveyConfig | null>;
+  setSatisfactionSurveyConfig(companyId: number, config: SatisfactionSurveyConfig): Promise<CompanySetting>;
+
   getWhatsAppProxyConfig(companyId: number): Promise<WhatsAppProxyConfig | null>;
   saveWhatsAppProxyConfig(companyId: number, config: WhatsAppProxyConfig): Promise<WhatsAppProxyConfig>;
 
@@ -619,6 +661,8 @@ export interface IStorage {
 
   getFlows(userId: number): Promise<Flow[]>;
   getFlow(id: number): Promise<Flow | undefined>;
+  getPublishedFlow(id: number): Promise<Flow | undefined>;
+  getFlowAtVersion(id: number, flowVersionId?: number | null): Promise<Flow | undefined>;
   createFlow(flow: InsertFlow): Promise<Flow>;
   updateFlow(id: number, updates: Partial<InsertFlow>): Promise<Flow>;
   deleteFlow(id: number): Promise<boolean>;
@@ -761,7 +805,7 @@ export interface IStorage {
   createDeal(deal: InsertDeal): Promise<Deal>;
   updateDeal(id: number, updates: Partial<InsertDeal>): Promise<Deal>;
   updateDealStage(id: number, stage: DealStatus): Promise<Deal>;
-  updateDealStageId(id: number, stageId: number): Promise<Deal>;
+  updateDealStageId(id: number, stageId: number, options?: { skipAutomations?: boolean; dealUpdates?: Partial<InsertDeal> }): Promise<Deal>;
   updateDealPipelineAndStage(id: number, pipelineId: number, stageId: number): Promise<Deal>;
   deleteDeal(id: number, companyId?: number): Promise<{ success: boolean; reason?: string }>;
 
@@ -2932,9 +2976,26 @@ export class DatabaseStorage implements IStorage {
     return contact;
   }
 
+  /**
+   * Queue an event for the company's webhook subscriptions without delaying the caller
+   */
+  private emitWebhookEvent(companyId: number | null | undefined, event: WebhookEvent, data: unknown): void {
+    if (!companyId) return;
+    import('./services/webhook-subscription-service')
+      .then(({ webhookSubscriptionService }) => webhookSubscriptionService.emit(companyId, event, data))
+      .catch(error => console.error(`Error queueing ${event} webhook:`, error));
+  }
+
+  private runStageAutomations(deal: Deal, previousStageId: number | null): void {
+    import('./services/pipeline-automation-service')
+      .then(({ pipelineAutomationService }) => pipelineAutomationService.handleStageChange(deal, previousStageId))
+      .catch(error => console.error(`Error running stage automations for deal ${deal.id}:`, error));
+  }
+
   async createContact(contact: InsertContact): Promise<Contact> {
     try {
       const [newContact] = await db.insert(contacts).values(contact).returning();
+      this.emitWebhookEvent(newContact?.companyId, 'contact.created', newContact);
       return newContact;
     } catch (error: any) {
 
@@ -3101,6 +3162,8 @@ export class DatabaseStorage implements IStorage {
       .where(eq(contacts.id, id))
       .returning();
 
+    this.emitWebhookEvent(updatedContact?.companyId, 'contact.updated', updatedContact);
+
 
     if (updates.tags !== undefined) {
       try {
@@ -3224,7 +3287,8 @@ export class DatabaseStorage implements IStorage {
           isStarred: conversations.isStarred,
           isArchived: conversations.isArchived,
           starredAt: conversations.starredAt,
-          archivedAt: conversations.archivedAt
+          archivedAt: conversations.archivedAt,
+          visitorMetadata: conversations.visitorMetadata
         })
         .from(conversations)
         .leftJoin(contacts, eq(conversations.contactId, contacts.id))
@@ -3391,15 +3455,57 @@ export class DatabaseStorage implements IStorage {
 
   async createConversation(conversation: InsertConversation): Promise<Conversation> {
     const [newConversation] = await db.insert(conversations).values(conversation).returning();
+
+    if (newConversation && !newConversation.assignedToUserId && !newConversation.isGroup && !newConversation.isHistorySync) {
+      import('./services/conversation-assignment-service')
+        .then(({ conversationAssignmentService }) => conversationAssignmentService.autoAssign(newConversation))
+        .catch(error => console.error(`Error auto-assigning conversation ${newConversation.id}:`, error));
+    }
+
+    if (newConversation && !newConversation.isGroup && !newConversation.isHistorySync) {
+      import('./services/sla-service')
+        .then(({ slaService }) => slaService.startTimers(newConversation, newConversation.createdAt || new Date()))
+        .catch(error => console.error(`Error starting SLA timers for conversation ${newConversation.id}:`, error));
+    }
+
     return newConversation;
   }
 
   async updateConversation(id: number, updates: Partial<InsertConversation>): Promise<Conversation> {
+    if (updates.status !== undefined) {
+      const { satisfactionSurveyService } = await import('./services/satisfaction-survey-service');
+      updates = satisfactionSurveyService.withoutSurveyReopen(id, updates);
+    }
+
+    const [previous] = updates.status !== undefined || updates.assignedToUserId !== undefined
+      ? await db
+        .select({ status: conversations.status, assignedToUserId: conversations.assignedToUserId })
+        .from(conversations)
+        .where(eq(conversations.id, id))
+      : [];
+
     const [updatedConversation] = await db
       .update(conversations)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(conversations.id, id))
       .returning();
+
+    if (updatedConversation && previous) {
+      import('./services/webhook-subscription-service')
+        .then(({ webhookSubscriptionService }) => webhookSubscriptionService.handleConversationUpdate(previous, updatedConversation))
+        .catch(error => console.error(`Error queueing conversation webhooks for conversation ${id}:`, error));
+    }
+
+    if (updatedConversation && updates.status !== undefined) {
+      import('./services/sla-service')
+        .then(({ slaService }) => slaService.handleStatusChange(updatedConversation))
+        .catch(error => console.error(`Error updating SLA timers for conversation ${id}:`, error));
+
+      import('./services/satisfaction-survey-service')
+        .then(({ satisfactionSurveyService }) => satisfactionSurveyService.handleStatusChange(updatedConversation))
+        .catch(error => console.error(`Error sending satisfaction survey for conversation ${id}:`, error));
+    }
+
     return updatedConversation;
   }
 
@@ -3718,6 +3824,29 @@ export class DatabaseStorage implements IStorage {
 
       if (message.direction === 'inbound' && !message.isFromBot) {
         await this.updateConversationUnreadCount(message.conversationId);
+
+        try {
+          const { satisfactionSurveyService } = await import('./services/satisfaction-survey-service');
+          await satisfactionSurveyService.handleInboundMessage(newMessage);
+        } catch (error) {
+          console.error(`Error processing survey reply for conversation ${newMessage.conversationId}:`, error);
+        }
+
+        import('./services/out-of-office-service')
+          .then(({ outOfOfficeService }) => outOfOfficeService.handleInboundMessage(newMessage))
+          .catch(error => console.error(`Error sending out-of-office reply for conversation ${newMessage.conversationId}:`, error));
+      }
+
+      if (newMessage.direction === 'inbound' && !newMessage.isHistorySync) {
+        import('./services/webhook-subscription-service')
+          .then(({ webhookSubscriptionService }) => webhookSubscriptionService.emitForConversation(newMessage.conversationId, 'message.received', newMessage))
+          .catch(error => console.error(`Error queueing message.received webhook for message ${newMessage.id}:`, error));
+      }
+
+      if (newMessage.direction === 'outbound' && !newMessage.isFromBot) {
+        import('./services/sla-service')
+          .then(({ slaService }) => slaService.handleMessageCreated(newMessage))
+          .catch(error => console.error(`Error updating SLA timers for conversation ${newMessage.conversationId}:`, error));
       }
 
       return newMessage;
@@ -3735,6 +3864,19 @@ export class DatabaseStorage implements IStorage {
       .set(updates)
       .where(eq(messages.id, id))
       .returning();
+
+    if (updatedMessage && updates.status !== undefined) {
+      import('./services/webhook-subscription-service')
+        .then(({ webhookSubscriptionService }) => webhookSubscriptionService.emitForConversation(updatedMessage.conversationId, 'message.status', {
+          messageId: updatedMessage.id,
+          externalId: updatedMessage.externalId,
+          conversationId: updatedMessage.conversationId,
+          direction: updatedMessage.direction,
+          status: updatedMessage.status
+        }))
+        .catch(error => console.error(`Error queueing message.status webhook for message ${id}:`, error));
+    }
+
     return updatedMessage;
   }
 
@@ -4120,9 +4262,75 @@ export class DatabaseStorage implements IStorage {
     return flow;
   }
 
+  /**
+   * Flow with the nodes and edges of its published version, which is what new sessions run.
+   * Flows that were never published fall back to their draft.
+   */
+  async getPublishedFlow(id: number): Promise<Flow | undefined> {
+    const flow = await this.getFlow(id);
+    if (!flow?.publishedVersionId) {
+      return flow;
+    }
+    return this.getFlowAtVersion(id, flow.publishedVersionId);
+  }
+
+  /**
+   * Flow with the nodes and edges of a specific published version, used to keep running
+   * sessions on the version they started with. Without a version this is the published flow.
+   */
+  async getFlowAtVersion(id: number, flowVersionId?: number | null): Promise<Flow | undefined> {
+    if (!flowVersionId) {
+      return this.getPublishedFlow(id);
+    }
+
+    const [row] = await db
+      .select({ flow: flows, version: flowVersions })
+      .from(flows)
+      .leftJoin(flowVersions, and(eq(flowVersions.id, flowVersionId), eq(flowVersions.flowId, flows.id)))
+      .where(eq(flows.id, id));
+
+    if (!row) {
+      return undefined;
+    }
+    if (!row.version) {
+      return row.flow;
+    }
+
+    return {
+      ...row.flow,
+      name: row.version.name,
+      description: row.version.description,
+      nodes: row.version.nodes,
+      edges: row.version.edges
+    };
+  }
+
   async createFlow(flow: InsertFlow): Promise<Flow> {
-    const [newFlow] = await db.insert(flows).values(flow).returning();
-    return newFlow;
+    const { toElementArray } = await import('./services/flow-version-service');
+
+    return db.transaction(async (tx: any) => {
+      const [newFlow] = await tx.insert(flows).values(flow).returning();
+
+      const [initialVersion] = await tx.insert(flowVersions).values({
+        flowId: newFlow.id,
+        companyId: newFlow.companyId,
+        version: 1,
+        name: newFlow.name,
+        description: newFlow.description,
+        nodes: toElementArray(newFlow.nodes),
+        edges: toElementArray(newFlow.edges),
+        note: 'Initial version',
+        publishedById: newFlow.userId
+      }).returning();
+
+      const [publishedFlow] = await tx
+        .update(flows)
+        .set({ publishedVersionId: initialVersion.id, publishedAt: initialVersion.publishedAt })
+        .where(eq(flows.id, newFlow.id))
+        .returning();
+
+      return publishedFlow;
+    });
   }
 
   async updateFlow(id: number, updates: Partial<InsertFlow>): Promise<Flow> {
@@ -6582,6 +6790,42 @@ export class DatabaseStorage implements IStorage {
     return this.saveCompanySetting(companyId, key, policyConfig);
   }
 
+  async getConversationAssignmentPolicy(companyId: number): Promise<ConversationAssignmentPolicyConfig | null> {
+    try {
+      const setting = await this.getCompanySetting(companyId, 'conversation_assignment_policy');
+      const policy = (setting?.value as ConversationAssignmentPolicyConfig) ?? null;
+      if (!policy) return null;
+      const maxConcurrentChats = typeof policy.maxConcurrentChats === 'number' && Number.isFinite(policy.maxConcurrentChats) && policy.maxConcurrentChats > 0
+        ? policy.maxConcurrentChats
+        : 0;
+      const offlineGraceMinutes = typeof policy.offlineGraceMinutes === 'number' && Number.isFinite(policy.offlineGraceMinutes) && policy.offlineGraceMinutes >= 0
+        ? policy.offlineGraceMinutes
+        : 5;
+      return { ...policy, maxConcurrentChats, offlineGraceMinutes };
+    } catch (error) {
+      console.error(`Error getting conversation assignment policy for company ${companyId}:`, error);
+      return null;
+    }
+  }
+
+  async setConversationAssignmentPolicy(companyId: number, policyConfig: ConversationAssignmentPolicyConfig): Promise<CompanySetting> {
+    return this.saveCompanySetting(companyId, 'conversation_assignment_policy', policyConfig);
+  }
+
+  async getSatisfactionSurveyConfig(companyId: number): Promise<SatisfactionSurveyConfig | null> {
+    try {
+      const setting = await this.getCompanySetting(companyId, 'satisfaction_survey_config');
+      return (setting?.value as SatisfactionSurveyConfig) ?? null;
+    } catch (error) {
+      console.error(`Error getting satisfaction survey config for company ${companyId}:`, error);
+      return null;
+    }
+  }
+
+  async setSatisfactionSurveyConfig(companyId: number, config: SatisfactionSurveyConfig): Promise<CompanySetting> {
+    return this.saveCompanySetting(companyId, 'satisfaction_survey_config', config);
+  }
+
 
 
   async getDealsByStage(stage: DealStatus): Promise<Deal[]> {
@@ -7087,6 +7331,13 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
+      if (deal.stageId) {
+        const [stage] = await db.select().from(pipelineStages).where(eq(pipelineStages.id, deal.stageId));
+        if (stage) {
+          assertRequiredFields(deal as Partial<Deal>, stage);
+        }
+      }
+
       const processedDeal = {
         ...deal,
         pipelineId,
@@ -7114,10 +7365,14 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
+      if (newDeal.stageId) {
+        this.runStageAutomations(newDeal, null);
+      }
+
       return newDeal;
     } catch (error: any) {
       console.error('Error creating deal:', error);
-      if (error.message === 'Contact ID is required') {
+      if (error.message === 'Contact ID is required' || isMissingRequiredFieldsError(error)) {
         throw error;
       }
       throw new Error('Failed to create deal');
@@ -7176,7 +7431,7 @@ export class DatabaseStorage implements IStorage {
 
         let dealWithNewStage = null;
         if (stageId !== null) {
-          dealWithNewStage = await this.updateDealStageId(id, stageId);
+          dealWithNewStage = await this.updateDealStageId(id, stageId, { dealUpdates: otherUpdates });
         }
 
         if (Object.keys(otherUpdates).length > 0) {
@@ -7252,12 +7507,20 @@ export class DatabaseStorage implements IStorage {
       return updatedDeal;
     } catch (error) {
       console.error(`Error updating deal with ID ${id}:`, error);
+      if (isMissingRequiredFieldsError(error)) {
+        throw error;
+      }
       throw new Error('Failed to update deal');
     }
   }
 
   async updateDealStage(id: number, stage: DealStatus): Promise<Deal> {
     try {
+      const [previous] = await db
+        .select({ stage: deals.stage, stageId: deals.stageId })
+        .from(deals)
+        .where(eq(deals.id, id));
+
       const [updatedDeal] = await db
         .update(deals)
         .set({
@@ -7272,6 +7535,14 @@ export class DatabaseStorage implements IStorage {
         throw new Error(`Deal with ID ${id} not found`);
       }
 
+      if (previous && previous.stage !== updatedDeal.stage) {
+        this.emitWebhookEvent(updatedDeal.companyId, 'deal.stage_changed', {
+          deal: updatedDeal,
+          previousStage: previous.stage,
+          previousStageId: previous.stageId
+        });
+      }
+
       return updatedDeal;
     } catch (error) {
       console.error(`Error updating stage for deal with ID ${id}:`, error);
@@ -8320,9 +8591,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateDealStageId(id: number, stageId: number): Promise<Deal> {
-    try {
-      return await db.transaction(async (tx: any) => {
+  /**
+   * Move a deal to another stage of its pipeline. The deal must have the fields the stage
+   * requires, taking into account dealUpdates that are saved together with the move.
+   */
+  async updateDealStageId(
+    id: number,
+    stageId: number,
+    options: { skipAutomations?: boolean; dealUpdates?: Partial<InsertDeal> } = {}
+  ): Promise<Deal> {
+    try {
+      let previousStageId: number | null = null;
+      let previousStage: DealStatus | null = null;
+      const result: Deal = await db.transaction(async (tx: any) => {
         const [pipelineStage] = await tx
           .select()
           .from(pipelineStages)
@@ -8339,13 +8620,18 @@ export class DatabaseStorage implements IStorage {
         }
 
 
-        const previousStageId = deal.stageId;
+        previousStageId = deal.stageId;
+        previousStage = deal.stage;
 
 
         if (pipelineStage.pipelineId !== deal.pipelineId) {
           throw new Error(`Pipeline stage ${stageId} does not belong to deal's pipeline ${deal.pipelineId}`);
         }
 
+        if (deal.stageId !== stageId) {
+          assertRequiredFields({ ...deal, ...options.dealUpdates }, pipelineStage);
+        }
+
         const stageEnumValue = this.mapPipelineStageToEnum(pipelineStage.name);
 
         const [updatedDeal] = await tx
@@ -8382,13 +8668,30 @@ export class DatabaseStorage implements IStorage {
 
         return updatedDeal;
       });
+
+      if (previousStageId !== stageId) {
+        this.emitWebhookEvent(result.companyId, 'deal.stage_changed', {
+          deal: result,
+          previousStage,
+          previousStageId
+        });
+
+        if (!options.skipAutomations) {
+          this.runStageAutomations(result, previousStageId);
+        }
+      }
+
+      return result;
     } catch (error) {
       console.error(`Error updating stage for deal ${id}:`, error);
+      if (isMissingRequiredFieldsError(error)) {
+        throw error;
+      }
       throw new Error(`Failed to update deal stage: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private mapPipelineStageToEnum(stageName: string): string {
+  mapPipelineStageToEnum(stageName: string): string {
     const lowerStageName = stageName.toLowerCase();
 
     if (lowerStageName.includes('lead') || lowerStageName.includes('new')) {
@@ -8421,7 +8724,9 @@ export class DatabaseStorage implements IStorage {
 
   async updateDealPipelineAndStage(id: number, pipelineId: number, stageId: number): Promise<Deal> {
     try {
-      return await db.transaction(async (tx: any) => {
+      let previousStageId: number | null = null;
+      let previousStage: DealStatus | null = null;
+      const result: Deal = await db.transaction(async (tx: any) => {
 
         const [deal] = await tx.select().from(deals).where(eq(deals.id, id));
         if (!deal) {
@@ -8443,6 +8748,10 @@ export class DatabaseStorage implements IStorage {
           throw new Error(`Pipeline stage ${stageId} does not belong to pipeline ${pipelineId}`);
         }
 
+        if (deal.stageId !== stageId) {
+          assertRequiredFields(deal, pipelineStage);
+        }
+
         const stageEnumValue = this.mapPipelineStageToEnum(pipelineStage.name);
 
 
@@ -8462,10 +8771,26 @@ export class DatabaseStorage implements IStorage {
           throw new Error(`Deal with ID ${id} not found`);
         }
 
+        previousStageId = deal.stageId;
+        previousStage = deal.stage;
         return updatedDeal;
       });
+
+      if (previousStageId !== stageId) {
+        this.emitWebhookEvent(result.companyId, 'deal.stage_changed', {
+          deal: result,
+          previousStage,
+          previousStageId
+        });
+        this.runStageAutomations(result, previousStageId);
+      }
+
+      return result;
     } catch (error) {
       console.error(`Error updating pipeline and stage for deal ${id}:`, error);
+      if (isMissingRequiredFieldsError(error)) {
+        throw error;
+      }
 
 
       const isUniqueConstraintError =
@@ -13166,7 +13491,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getCompanyCustomFields(companyId: number, entity: 'deal' | 'contact' | 'company'): Promise<any[]> {
+  async getCompanyCustomFields(companyId: number, entity: CustomFieldEntity): Promise<CompanyCustomField[]> {
     try {
       return await db
         .select()
@@ -13184,16 +13509,29 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getCompanyCustomField(id: number): Promise<CompanyCustomField | undefined> {
+    try {
+      const [field] = await db
+        .select()
+        .from(companyCustomFields)
+        .where(eq(companyCustomFields.id, id));
+      return field;
+    } catch (error) {
+      console.error(`Error getting custom field ${id}:`, error);
+      return undefined;
+    }
+  }
+
   async createCompanyCustomField(data: {
     companyId: number;
-    entity: 'deal' | 'contact' | 'company';
+    entity: CustomFieldEntity;
     fieldName: string;
-    fieldType: 'text' | 'number' | 'select' | 'multi_select' | 'date' | 'boolean';
+    fieldType: CustomFieldType;
     fieldLabel: string;
-    options?: any;
+    options?: CustomFieldOption[] | null;
     required?: boolean;
     displayOrder?: number;
-  }): Promise<any> {
+  }): Promise<CompanyCustomField> {
     try {
       const [result] = await db
         .insert(companyCustomFields)
@@ -13217,11 +13555,11 @@ export class DatabaseStorage implements IStorage {
 
   async updateCompanyCustomField(id: number, updates: Partial<{
     fieldLabel: string;
-    fieldType: 'text' | 'number' | 'select' | 'multi_select' | 'date' | 'boolean';
-    options?: any;
-    required?: boolean;
-    displayOrder?: number;
-  }>): Promise<any> {
+    fieldType: CustomFieldType;
+    options: CustomFieldOption[] | null;
+    required: boolean;
+    displayOrder: number;
+  }>): Promise<CompanyCustomField> {
     try {
       const [result] = await db
         .update(companyCustomFields)
@@ -13240,9 +13578,21 @@ export class DatabaseStorage implements IStorage {
 
   async deleteCompanyCustomField(id: number): Promise<boolean> {
     try {
-      await db
+      const [deleted] = await db
         .delete(companyCustomFields)
-        .where(eq(companyCustomFields.id, id));
+        .where(eq(companyCustomFields.id, id))
+        .returning();
+
+      if (deleted?.entity === 'contact') {
+        await db
+          .update(contacts)
+          .set({ customFields: sql`${contacts.customFields} - ${deleted.fieldName}::text` })
+          .where(and(
+            eq(contacts.companyId, deleted.companyId),
+            sql`${contacts.customFields} ? ${deleted.fieldName}::text`
+          ));
+      }
+
       return true;
     } catch (error) {
       console.error(`Error deleting custom field ${id}:`, error);
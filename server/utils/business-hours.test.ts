@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { SlaBusinessHours } from '@shared/schema';
+import {
+  addBusinessMinutes,
+  getNextBusinessOpening,
+  isValidBusinessHours,
+  isWithinBusinessHours,
+  parseTimeOfDay
+} from './business-hours';
+
+// Monday to Friday, 09:00-17:00 New York time. DST starts on Sunday 2026-03-08.
+const weekdays = (holidays: string[] = []): SlaBusinessHours => ({
+  timezone: 'America/New_York',
+  days: [0, 1, 2, 3, 4, 5, 6].map(weekday => ({
+    enabled: weekday >= 1 && weekday <= 5,
+    start: '09:00',
+    end: '17:00'
+  })),
+  holidays
+});
+
+describe('parseTimeOfDay', () => {
+  it('returns minutes since midnight', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('0:00')).toBe(0);
+    expect(parseTimeOfDay('24:00')).toBe(1440);
+  });
+
+  it('rejects malformed times', () => {
+    expect(parseTimeOfDay('24:01')).toBeNull();
+    expect(parseTimeOfDay('12:60')).toBeNull();
+    expect(parseTimeOfDay('9:5')).toBeNull();
+    expect(parseTimeOfDay('noon')).toBeNull();
+  });
+});
+
+describe('isValidBusinessHours', () => {
+  it('accepts a calendar with an open weekday', () => {
+    expect(isValidBusinessHours(weekdays())).toBe(true);
+  });
+
+  it('rejects unknown timezones, closed weeks and inverted windows', () => {
+    expect(isValidBusinessHours({ ...weekdays(), timezone: 'Mars/Olympus' })).toBe(false);
+    expect(isValidBusinessHours({ ...weekdays(), days: weekdays().days.map(day => ({ ...day, enabled: false })) })).toBe(false);
+    expect(isValidBusinessHours({ ...weekdays(), days: weekdays().days.map(day => ({ ...day, start: '17:00', end: '09:00' })) })).toBe(false);
+    expect(isValidBusinessHours({ ...weekdays(), days: weekdays().days.slice(0, 5) })).toBe(false);
+  });
+});
+
+describe('addBusinessMinutes', () => {
+  it('adds minutes around the clock without a calendar', () => {
+    const start = new Date('2026-03-07T12:00:00Z');
+    expect(addBusinessMinutes(start, 90).toISOString()).toBe('2026-03-07T13:30:00.000Z');
+    expect(addBusinessMinutes(start, 90, null).toISOString()).toBe('2026-03-07T13:30:00.000Z');
+  });
+
+  it('adds minutes inside the open window', () => {
+    // Monday 10:00 EST
+    expect(addBusinessMinutes(new Date('2026-03-02T15:00:00Z'), 60, weekdays()).toISOString())
+      .toBe('2026-03-02T16:00:00.000Z');
+  });
+
+  it('starts counting at opening time when started before it', () => {
+    // Monday 07:00 EST -> 09:30 EST
+    expect(addBusinessMinutes(new Date('2026-03-02T12:00:00Z'), 30, weekdays()).toISOString())
+      .toBe('2026-03-02T14:30:00.000Z');
+  });
+
+  it('carries the remainder over to the next open day', () => {
+    // Monday 16:30 EST + 60 -> Tuesday 09:30 EST
+    expect(addBusinessMinutes(new Date('2026-03-02T21:30:00Z'), 60, weekdays()).toISOString())
+      .toBe('2026-03-03T14:30:00.000Z');
+  });
+
+  it('skips weekends across a DST change', () => {
+    // Friday 16:00 EST + 120 -> Monday 10:00 EDT
+    expect(addBusinessMinutes(new Date('2026-03-06T21:00:00Z'), 120, weekdays()).toISOString())
+      .toBe('2026-03-09T14:00:00.000Z');
+  });
+
+  it('skips holidays', () => {
+    // Monday 16:30 EST + 60 with Tuesday off -> Wednesday 09:30 EST
+    expect(addBusinessMinutes(new Date('2026-03-02T21:30:00Z'), 60, weekdays(['2026-03-03'])).toISOString())
+      .toBe('2026-03-04T14:30:00.000Z');
+  });
+});
+
+describe('isWithinBusinessHours', () => {
+  it('is open inside the window and closed at closing time, on weekends and holidays', () => {
+    expect(isWithinBusinessHours(new Date('2026-03-02T17:00:00Z'), weekdays())).toBe(true);
+    expect(isWithinBusinessHours(new Date('2026-03-02T22:00:00Z'), weekdays())).toBe(false);
+    expect(isWithinBusinessHours(new Date('2026-03-07T17:00:00Z'), weekdays())).toBe(false);
+    expect(isWithinBusinessHours(new Date('2026-03-02T17:00:00Z'), weekdays(['2026-03-02']))).toBe(false);
+  });
+
+  it('treats a missing calendar as always open', () => {
+    expect(isWithinBusinessHours(new Date('2026-03-07T03:00:00Z'), null)).toBe(true);
+  });
+});
+
+describe('getNextBusinessOpening', () => {
+  it('returns the moment itself while open', () => {
+    const open = new Date('2026-03-02T17:00:00Z');
+    expect(getNextBusinessOpening(open, weekdays())).toEqual(open);
+  });
+
+  it('returns the next opening after a weekend', () => {
+    // Saturday 12:00 EST -> Monday 09:00 EDT
+    expect(getNextBusinessOpening(new Date('2026-03-07T17:00:00Z'), weekdays()).toISOString())
+      .toBe('2026-03-09T13:00:00.000Z');
+  });
+});
@@ -0,0 +1,173 @@
+import type { SlaBusinessHours } from '@shared/schema';
+import { normalizeTimezone, validateTimezone } from './timezone';
+
+const MINUTE_MS = 60 * 1000;
+const MAX_DAYS_AHEAD = 366;
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  minuteOfDay: number;
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Parse "HH:mm" into minutes since midnight, or null when malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '0';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    weekday: WEEKDAYS[get('weekday')] ?? 0,
+    minuteOfDay: Number(get('hour')) * 60 + Number(get('minute')) + Number(get('second')) / 60
+  };
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC Date (DST-aware)
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, minuteOfDay: number, timezone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day) + minuteOfDay * MINUTE_MS;
+  let guess = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(guess), timezone);
+    const observed = Date.UTC(parts.year, parts.month - 1, parts.day) + parts.minuteOfDay * MINUTE_MS;
+    guess += wallClock - observed;
+  }
+  return new Date(guess);
+}
+
+const toDateKey = (parts: Pick<ZonedParts, 'year' | 'month' | 'day'>) =>
+  `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+
+/**
+ * Check that a calendar has a valid timezone and at least one open weekday
+ */
+export function isValidBusinessHours(calendar: SlaBusinessHours): boolean {
+  if (!validateTimezone(calendar.timezone) || !Array.isArray(calendar.days) || calendar.days.length !== 7) {
+    return false;
+  }
+  return calendar.days.some(day => {
+    if (!day?.enabled) return false;
+    const start = parseTimeOfDay(day.start);
+    const end = parseTimeOfDay(day.end);
+    return start !== null && end !== null && start < end;
+  });
+}
+
+/**
+ * Add working minutes to a start time. Without a calendar the minutes are added 24/7;
+ * with one, time only counts inside the open window of each non-holiday weekday.
+ */
+export function addBusinessMinutes(start: Date, minutes: number, calendar?: SlaBusinessHours | null): Date {
+  if (!calendar || !isValidBusinessHours(calendar)) {
+    return new Date(start.getTime() + minutes * MINUTE_MS);
+  }
+
+  const timezone = normalizeTimezone(calendar.timezone);
+  const holidays = new Set(calendar.holidays || []);
+  let remaining = minutes;
+  let cursor = start;
+
+  for (let i = 0; i < MAX_DAYS_AHEAD; i++) {
+    const parts = getZonedParts(cursor, timezone);
+    const day = calendar.days[parts.weekday];
+    const open = day?.enabled ? parseTimeOfDay(day.start) : null;
+    const close = day?.enabled ? parseTimeOfDay(day.end) : null;
+
+    if (open !== null && close !== null && open < close && !holidays.has(toDateKey(parts))) {
+      const windowStart = Math.max(open, parts.minuteOfDay);
+      if (windowStart < close) {
+        const available = close - windowStart;
+        if (remaining <= available) {
+          return zonedTimeToUtc(parts.year, parts.month, parts.day, windowStart + remaining, timezone);
+        }
+        remaining -= available;
+      }
+    }
+
+    const nextDay = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + 1));
+    cursor = zonedTimeToUtc(nextDay.getUTCFullYear(), nextDay.getUTCMonth() + 1, nextDay.getUTCDate(), 0, timezone);
+  }
+
+  return new Date(start.getTime() + minutes * MINUTE_MS);
+}
+
+/**
+ * Open and close minutes of a calendar day, or null when the day is closed or a holiday
+ */
+function getOpenWindow(calendar: SlaBusinessHours, parts: ZonedParts, holidays: Set<string>): [number, number] | null {
+  const day = calendar.days[parts.weekday];
+  if (!day?.enabled || holidays.has(toDateKey(parts))) return null;
+  const open = parseTimeOfDay(day.start);
+  const close = parseTimeOfDay(day.end);
+  return open !== null && close !== null && open < close ? [open, close] : null;
+}
+
+/**
+ * Whether the calendar is open at the given moment. An invalid or missing calendar counts as always open.
+ */
+export function isWithinBusinessHours(date: Date, calendar?: SlaBusinessHours | null): boolean {
+  if (!calendar || !isValidBusinessHours(calendar)) {
+    return true;
+  }
+
+  const parts = getZonedParts(date, normalizeTimezone(calendar.timezone));
+  const window = getOpenWindow(calendar, parts, new Set(calendar.holidays || []));
+  return !!window && parts.minuteOfDay >= window[0] && parts.minuteOfDay < window[1];
+}
+
+/**
+ * The given moment when the calendar is open, otherwise the start of its next open window
+ */
+export function getNextBusinessOpening(date: Date, calendar?: SlaBusinessHours | null): Date {
+  if (!calendar || !isValidBusinessHours(calendar)) {
+    return date;
+  }
+
+  const timezone = normalizeTimezone(calendar.timezone);
+  const holidays = new Set(calendar.holidays || []);
+  let cursor = date;
+
+  for (let i = 0; i < MAX_DAYS_AHEAD; i++) {
+    const parts = getZonedParts(cursor, timezone);
+    const window = getOpenWindow(calendar, parts, holidays);
+
+    if (window && parts.minuteOfDay < window[1]) {
+      return parts.minuteOfDay >= window[0]
+        ? cursor
+        : zonedTimeToUtc(parts.year, parts.month, parts.day, window[0], timezone);
+    }
+
+    const nextDay = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + 1));
+    cursor = zonedTimeToUtc(nextDay.getUTCFullYear(), nextDay.getUTCMonth() + 1, nextDay.getUTCDate(), 0, timezone);
+  }
+
+  return date;
+}
@@ -0,0 +1,29 @@
+import { storage } from '../storage';
+import type { CompanyCustomField, CustomFieldValue } from '@shared/schema';
+import { mergeCustomFieldValues, validateCustomFieldValues } from '@shared/utils/custom-fields';
+
+export interface ResolvedContactCustomFields {
+  customFields: Record<string, CustomFieldValue>;
+  errors: string[];
+}
+
+/**
+ * Validate incoming custom field values for a contact against the company's field definitions
+ * and merge them into the contact's existing values. Pass `existing` for updates so that only
+ * the supplied keys are validated and changed.
+ */
+export async function resolveContactCustomFields(
+  companyId: number,
+  input: Record<string, unknown> | null | undefined,
+  existing?: Record<string, CustomFieldValue> | null,
+  definitions?: CompanyCustomField[]
+): Promise<ResolvedContactCustomFields> {
+  const fieldDefinitions = definitions || await storage.getCompanyCustomFields(companyId, 'contact');
+  const isUpdate = existing !== undefined;
+  const { values, errors } = validateCustomFieldValues(fieldDefinitions, input, { partial: isUpdate });
+
+  return {
+    customFields: mergeCustomFieldValues(existing, values),
+    errors
+  };
+}
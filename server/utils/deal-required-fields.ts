@@ -0,0 +1,34 @@
+import type { Deal, DealRequiredField, PipelineStage } from '@shared/schema';
+
+/**
+ * Error raised when a deal would enter a stage without the fields the stage requires
+ */
+export type MissingRequiredFieldsError = Error & { missingFields: DealRequiredField[] };
+
+const isMissing = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Required fields of the stage that the deal has not filled in
+ */
+export function getMissingRequiredFields(deal: Partial<Deal>, stage: Pick<PipelineStage, 'requiredFields'>): DealRequiredField[] {
+  return (stage.requiredFields || []).filter(field =>
+    isMissing(deal[field as DealRequiredField])
+  ) as DealRequiredField[];
+}
+
+/**
+ * Throw when the deal has not filled in every field the stage requires
+ */
+export function assertRequiredFields(deal: Partial<Deal>, stage: Pick<PipelineStage, 'name' | 'requiredFields'>): void {
+  const missingFields = getMissingRequiredFields(deal, stage);
+  if (missingFields.length > 0) {
+    const error = new Error(`Fill in ${missingFields.join(', ')} before the deal can enter ${stage.name}`) as MissingRequiredFieldsError;
+    error.missingFields = missingFields;
+    throw error;
+  }
+}
+
+export function isMissingRequiredFieldsError(error: unknown): error is MissingRequiredFieldsError {
+  return error instanceof Error && Array.isArray((error as MissingRequiredFieldsError).missingFields);
+}
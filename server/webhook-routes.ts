@@ -6,6 +6,10 @@ import TikTokService from "./services/channels/tiktok";
 import instagramService from './services/channels/instagram';
 import twilioSmsService from './services/channels/twilio-sms';
 import webchatService from './services/channels/webchat';
+import customChannelService, {
+  CUSTOM_CHANNEL_SIGNATURE_HEADER,
+  CUSTOM_CHANNEL_TIMESTAMP_HEADER
+} from './services/channels/custom-channel';
 import {
   createWhatsAppWebhookSecurity,
   createTikTokWebhookSecurity,
@@ -161,6 +165,38 @@ export function registerWebhookRoutes(app: Express): void {
     }
   );
 
+  /**
+   * Custom channel inbound webhook
+   * The raw body is kept so the HMAC signature can be verified against the exact bytes sent
+   */
+  app.post('/api/webhooks/custom/:connectionId',
+    express.raw({ type: '*/*', limit: '1mb' }),
+    async (req, res) => {
+      const connectionId = parseInt(req.params.connectionId);
+      if (isNaN(connectionId)) {
+        return res.status(404).json({ success: false, error: 'Unknown connection' });
+      }
+
+      try {
+        const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+        const result = await customChannelService.processWebhook(
+          connectionId,
+          rawBody,
+          req.get(CUSTOM_CHANNEL_TIMESTAMP_HEADER),
+          req.get(CUSTOM_CHANNEL_SIGNATURE_HEADER)
+        );
+
+        if (!result.ok) {
+          return res.status(result.status).json({ success: false, error: result.error, processed: result.processed });
+        }
+        return res.status(200).json({ success: true, processed: result.processed });
+      } catch (error) {
+        console.error('Error processing custom channel webhook:', error);
+        return res.status(500).json({ success: false, error: 'Failed to process webhook' });
+      }
+    }
+  );
+
   /**
    * Call Agent Health Check Endpoint
    * Super admins: full access. Company admins: their company's connections only (channelId or companyId required).
@@ -72,10 +72,22 @@
 
   const SID_KEY = 'pc_webchat_sid_' + TOKEN;
   const PROFILE_KEY = 'pc_webchat_profile_' + TOKEN;
+  const VISITOR_KEY = 'pc_webchat_visitor_' + TOKEN;
+  const GREETED_KEY = 'pc_webchat_greeted_' + TOKEN;
+  const MAX_PAGE_HISTORY = 20;
 
   let sid = localStorage.getItem(SID_KEY);
-  let pollInterval = null;
-  let lastPoll = null;
+  let socket = null;
+  let eventSource = null;
+  let reconnectTimer = null;
+  let reconnectDelay = 1000;
+  let socketFailures = 0;
+  let realtimeActive = false;
+  let lastMessageId = null;
+  let agentTypingTimer = null;
+  let visitorTyping = false;
+  let visitorTypingTimer = null;
+  let lastTypingSentAt = 0;
   let config = {};
   let selectedFile = null;
   const shownMsgIds = new Set();
@@ -84,6 +96,10 @@
   let lastSentTime = 0;
   let lastTempMsgId = null;
   let isSending = false;
+  let proactiveEl = null;
+  let pendingGreeting = null;
+
+  const visitor = trackPageView();
 
 
   const style = document.createElement('link');
@@ -167,6 +183,7 @@
     .then(data => {
       config = data;
       applyConfig();
+      setupProactiveTriggers();
     })
     .catch(e => console.error('Failed to load widget config:', e));
 
@@ -199,19 +216,6 @@
     }
 
 
-    const applyPosition = (el) => {
-      if (!el) return;
-      el.style.right = el.style.left = '';
-      el.style.transform = '';
-      if (config.position === 'bottom-left') {
-        el.style.left = '24px';
-      } else if (config.position === 'bottom-center') {
-        el.style.left = '50%';
-        el.style.transform = 'translateX(-50%)';
-      } else {
-        el.style.right = '24px';
-      }
-    };
     applyPosition(win);
     applyPosition(btn);
 
@@ -255,6 +259,20 @@
     if (attachBtn) attachBtn.style.display = config.allowFileUpload ? 'flex' : 'none';
   }
 
+  function applyPosition(el) {
+    if (!el) return;
+    el.style.right = el.style.left = '';
+    el.style.transform = '';
+    if (config.position === 'bottom-left') {
+      el.style.left = '24px';
+    } else if (config.position === 'bottom-center') {
+      el.style.left = '50%';
+      el.style.transform = 'translateX(-50%)';
+    } else {
+      el.style.right = '24px';
+    }
+  }
+
   function adjustColor(color, amount) {
     const num = parseInt((color || '#1c7cf5').replace('#', ''), 16);
     const r = Math.max(0, Math.min(255, (num >> 16) + amount));
@@ -308,11 +326,20 @@
             <path d="M18 6L6 18M6 6l12 12"/>
           </svg>
         `;
+        dismissProactive();
+        if (config.offline && config.offline.isOffline) {
+          showOfflineForm();
+          return;
+        }
         ensureSession().then(() => {
-          startPolling();
+          startRealtime();
           if (config.welcomeMessage && elMsgs.children.length === 0) {
             push('in', config.welcomeMessage, null, null);
           }
+          if (pendingGreeting) {
+            push('in', pendingGreeting, null, null);
+            pendingGreeting = null;
+          }
         });
       } else {
         btn.innerHTML = `
@@ -320,14 +347,14 @@
             <path d="M20 2H4c-1.1 0-2 .9-2 2v18l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2z"/>
           </svg>
         `;
-        stopPolling();
+        stopRealtime();
       }
     };
 
 
     if (elClose) elClose.onclick = () => {
       win.style.display = 'none';
-      stopPolling();
+      stopRealtime();
     };
 
 
@@ -423,6 +450,7 @@
       if (isSending) return;
       
       const text = elInput.value.trim();
+      setVisitorTyping(false);
       if (!text && !selectedFile) return;
 
 
@@ -471,6 +499,9 @@
     };
 
     if (elSend) elSend.onclick = sendMessage;
+    if (elInput) elInput.addEventListener('input', () => {
+      setVisitorTyping(elInput.value.trim().length > 0);
+    });
     if (elInput) elInput.addEventListener('keydown', (e) => {
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
@@ -574,71 +605,296 @@
   }
 
   async function ensureSession() {
-    if (!sid) {
+    if (sid) return;
 
-      let profile = null;
-      try { profile = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null'); } catch {}
-      if (!profile || !profile.name || !profile.phone) {
-        profile = await showPrechatForm();
-        if (!profile) return; // user closed
-      }
+    const form = config.prechatForm || { enabled: false, fields: [] };
+    let saved = {};
+    try { saved = JSON.parse(localStorage.getItem(PROFILE_KEY) || '{}') || {}; } catch {}
+
+    // Returning visitors skip the form while their saved answers still cover it
+    const hasConsent = form.consent && form.consent.enabled;
+    const canSkipForm = !form.enabled || (!hasConsent && form.fields.every(f => !f.required || saved[f.key]));
+    if (canSkipForm && !(await createSession(form.enabled ? saved : {}, false))) return;
 
+    await showPrechatForm(form, saved);
+  }
+
+  /**
+   * Start a session; returns an error message when the server rejects the details
+   */
+  async function createSession(fields, consent) {
+    try {
       const r = await fetch(API + '/api/webchat/session', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ token: TOKEN, visitorName: profile.name, visitorEmail: profile.email || '', visitorPhone: profile.phone })
+        body: JSON.stringify({ token: TOKEN, fields, consent, metadata: visitorMetadata() })
       });
       const j = await r.json();
+      if (!r.ok || !j.sessionId) return j.error || 'Could not start the chat';
       sid = j.sessionId;
       localStorage.setItem(SID_KEY, sid);
+      return null;
+    } catch (e) {
+      return 'Could not start the chat';
     }
   }
 
-  function showPrechatForm() {
+  function showPrechatForm(form, saved) {
     return new Promise((resolve) => {
       const overlay = win.querySelector('#pc-prechat');
-      const nameEl = win.querySelector('#pc-prechat-name');
-      const phoneEl = win.querySelector('#pc-prechat-phone');
-      const emailEl = win.querySelector('#pc-prechat-email');
-      const emailLabel = win.querySelector('#pc-prechat-email-label');
+      const titleEl = win.querySelector('#pc-prechat-title');
+      const descEl = win.querySelector('#pc-prechat-desc');
+      const fieldsEl = win.querySelector('#pc-prechat-fields');
+      const consentEl = win.querySelector('#pc-prechat-consent');
+      const consentInput = win.querySelector('#pc-prechat-consent-input');
+      const consentText = win.querySelector('#pc-prechat-consent-text');
       const startBtn = win.querySelector('#pc-prechat-start');
       const errorEl = win.querySelector('#pc-prechat-error');
+      const hasConsent = form.consent && form.consent.enabled;
+      const inputs = {};
+
+      if (form.title) titleEl.textContent = form.title;
+      if (form.description) descEl.textContent = form.description;
+
+      fieldsEl.innerHTML = '';
+      form.fields.forEach((field) => {
+        const label = document.createElement('label');
+        label.textContent = field.label + (field.required ? ' *' : ' (optional)');
+
+        let input;
+        if (field.type === 'select') {
+          input = document.createElement('select');
+          ['', ...(field.options || [])].forEach((option) => {
+            const el = document.createElement('option');
+            el.value = option;
+            el.textContent = option || 'Select...';
+            input.appendChild(el);
+          });
+        } else if (field.type === 'textarea') {
+          input = document.createElement('textarea');
+          input.rows = 3;
+        } else {
+          input = document.createElement('input');
+          input.type = field.type || 'text';
+          input.addEventListener('keydown', (e) => { if (e.key === 'Enter') { e.preventDefault(); submit(); } });
+        }
+        input.value = saved[field.key] || '';
 
-      if (config.collectEmail === false) {
-        if (emailLabel) emailLabel.style.display = 'none';
-        if (emailEl) emailEl.style.display = 'none';
-      }
+        fieldsEl.appendChild(label);
+        fieldsEl.appendChild(input);
+        inputs[field.key] = input;
+      });
 
-      try {
-        const saved = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null');
-        if (saved) {
-          if (nameEl) nameEl.value = saved.name || '';
-          if (phoneEl) phoneEl.value = saved.phone || '';
-          if (emailEl) emailEl.value = saved.email || '';
-        }
-      } catch {}
+      consentEl.style.display = hasConsent ? 'flex' : 'none';
+      if (hasConsent) {
+        consentText.textContent = form.consent.text;
+        consentInput.checked = false;
+      }
 
       overlay.style.display = 'block';
       errorEl.style.display = 'none';
       errorEl.textContent = '';
 
-      const submit = () => {
-        const name = (nameEl.value || '').trim();
-        const phone = (phoneEl.value || '').trim();
-        const email = (emailEl?.value || '').trim();
-        if (!name) { errorEl.textContent = 'Name is required'; errorEl.style.display = 'block'; return; }
-        if (!phone || phone.replace(/\D/g,'').length < 6) { errorEl.textContent = 'Valid phone is required'; errorEl.style.display = 'block'; return; }
-        const profile = { name, phone, email };
-        localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+      const showError = (message) => {
+        errorEl.textContent = message;
+        errorEl.style.display = 'block';
+      };
+
+      const submit = async () => {
+        const answers = {};
+        for (const field of form.fields) {
+          const value = (inputs[field.key].value || '').trim();
+          if (field.required && !value) { showError(field.label + ' is required'); return; }
+          if (value) answers[field.key] = value;
+        }
+        if (hasConsent && !consentInput.checked) { showError('Please accept the terms to start the chat'); return; }
+
+        startBtn.disabled = true;
+        const error = await createSession(answers, !!hasConsent);
+        startBtn.disabled = false;
+        if (error) { showError(error); return; }
+
+        localStorage.setItem(PROFILE_KEY, JSON.stringify(answers));
         overlay.style.display = 'none';
-        resolve(profile);
+        resolve();
       };
 
       startBtn.onclick = submit;
-      [nameEl, phoneEl, emailEl].forEach(el => el && el.addEventListener('keydown', (e) => { if (e.key==='Enter') { e.preventDefault(); submit(); } }));
     });
   }
 
+  function showOfflineForm() {
+    const overlay = win.querySelector('#pc-offline');
+    const formEl = win.querySelector('#pc-offline-form');
+    const nameEl = win.querySelector('#pc-offline-name');
+    const emailEl = win.querySelector('#pc-offline-email');
+    const messageEl = win.querySelector('#pc-offline-message');
+    const sendBtn = win.querySelector('#pc-offline-send');
+    const errorEl = win.querySelector('#pc-offline-error');
+    const sentEl = win.querySelector('#pc-offline-sent');
+    const footer = win.querySelector('.pc-widget-footer');
+
+    win.querySelector('#pc-offline-desc').textContent = config.offline.message || '';
+    overlay.style.display = 'block';
+    if (footer) footer.style.display = 'none';
+
+    try {
+      const saved = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null');
+      if (saved) {
+        if (!nameEl.value) nameEl.value = saved.name || '';
+        if (!emailEl.value) emailEl.value = saved.email || '';
+      }
+    } catch {}
+
+    const showError = (message) => {
+      errorEl.textContent = message;
+      errorEl.style.display = 'block';
+    };
+
+    sendBtn.onclick = async () => {
+      const name = (nameEl.value || '').trim();
+      const email = (emailEl.value || '').trim();
+      const message = (messageEl.value || '').trim();
+      if (!name) { showError('Name is required'); return; }
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) { showError('Valid email is required'); return; }
+      if (!message) { showError('Message is required'); return; }
+
+      errorEl.style.display = 'none';
+      sendBtn.disabled = true;
+      try {
+        const r = await fetch(API + '/api/webchat/offline-message', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: TOKEN, sessionId: sid, name, email, message, metadata: visitorMetadata() })
+        });
+        const j = await r.json();
+        if (!r.ok) throw new Error(j.error || 'Could not send your message');
+
+        if (j.sessionId) {
+          sid = j.sessionId;
+          localStorage.setItem(SID_KEY, sid);
+        }
+        messageEl.value = '';
+        formEl.style.display = 'none';
+        sendBtn.style.display = 'none';
+        sentEl.style.display = 'block';
+      } catch (e) {
+        showError(e.message || 'Could not send your message');
+      } finally {
+        sendBtn.disabled = false;
+      }
+    };
+  }
+
+  /**
+   * Remember where the visitor came from and the pages they opened; pages opened after the
+   * session started are reported as they happen
+   */
+  function trackPageView() {
+    const page = { url: window.location.href, title: document.title, at: new Date().toISOString() };
+    let data = null;
+    try { data = JSON.parse(localStorage.getItem(VISITOR_KEY) || 'null'); } catch {}
+
+    if (!data) {
+      const params = new URLSearchParams(window.location.search);
+      const utm = {};
+      ['source', 'medium', 'campaign', 'term', 'content'].forEach((key) => {
+        const value = params.get('utm_' + key);
+        if (value) utm[key] = value;
+      });
+      data = { landingPage: page.url, referrer: document.referrer || '', utm, pageHistory: [] };
+    }
+    data.pageHistory = (data.pageHistory || []).concat(page).slice(-MAX_PAGE_HISTORY);
+    try { localStorage.setItem(VISITOR_KEY, JSON.stringify(data)); } catch {}
+
+    if (sid) {
+      fetch(API + '/api/webchat/page-view', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: TOKEN, sessionId: sid, page })
+      }).catch(() => {});
+    }
+    return data;
+  }
+
+  function visitorMetadata() {
+    return Object.assign({}, visitor, { userAgent: navigator.userAgent });
+  }
+
+  function hasGreeted() {
+    try { return !!sessionStorage.getItem(GREETED_KEY); } catch { return false; }
+  }
+
+  function setupProactiveTriggers() {
+    const triggers = config.proactiveTriggers || [];
+    if (!triggers.length || (config.offline && config.offline.isOffline) || hasGreeted()) return;
+
+    triggers.forEach((trigger) => {
+      const delay = Math.max(0, Number(trigger.delaySeconds) || 0) * 1000;
+      if (trigger.type === 'time_on_page') {
+        setTimeout(() => showProactiveMessage(trigger), delay);
+      } else if (trigger.type === 'url_match') {
+        if (matchesUrl(trigger.urlPattern)) setTimeout(() => showProactiveMessage(trigger), delay);
+      } else if (trigger.type === 'exit_intent') {
+        const onLeave = (e) => {
+          if (e.relatedTarget || e.clientY > 0) return;
+          document.removeEventListener('mouseout', onLeave);
+          showProactiveMessage(trigger);
+        };
+        document.addEventListener('mouseout', onLeave);
+      }
+    });
+  }
+
+  /**
+   * Patterns are /regular expressions/ or text matched anywhere in the URL, with * as a wildcard
+   */
+  function matchesUrl(pattern) {
+    if (!pattern) return false;
+    const url = window.location.href;
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    try {
+      if (regex) return new RegExp(regex[1], regex[2]).test(url);
+      return new RegExp(pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')).test(url);
+    } catch (e) {
+      return false;
+    }
+  }
+
+  function showProactiveMessage(trigger) {
+    if (proactiveEl || win.style.display === 'flex' || hasGreeted()) return;
+    try { sessionStorage.setItem(GREETED_KEY, trigger.id || trigger.type); } catch {}
+
+    proactiveEl = document.createElement('div');
+    proactiveEl.className = 'pc-proactive';
+    const text = document.createElement('div');
+    text.textContent = trigger.message;
+    const close = document.createElement('button');
+    close.className = 'pc-proactive-close';
+    close.setAttribute('aria-label', 'Dismiss');
+    close.textContent = '✕';
+    close.onclick = (e) => {
+      e.stopPropagation();
+      dismissProactive();
+    };
+    proactiveEl.appendChild(text);
+    proactiveEl.appendChild(close);
+    proactiveEl.onclick = () => {
+      pendingGreeting = trigger.message;
+      if (win.style.display !== 'flex') btn.click();
+    };
+
+    applyPosition(proactiveEl);
+    document.body.appendChild(proactiveEl);
+  }
+
+  function dismissProactive() {
+    if (proactiveEl) {
+      proactiveEl.remove();
+      proactiveEl = null;
+    }
+  }
+
   function push(type, content, msgId, mediaUrl, fileType, timestamp) {
     const elMsgs = win.querySelector('#pc-messages');
     if (msgId && shownMsgIds.has(msgId)) return null;
@@ -734,6 +990,52 @@
     return div;
   }
 
+  function renderSurveyRating(el, survey) {
+    const row = document.createElement('div');
+    row.style.display = 'flex';
+    row.style.flexWrap = 'wrap';
+    row.style.gap = '4px';
+    row.style.marginTop = '6px';
+
+    const min = typeof survey.min === 'number' ? survey.min : (survey.type === 'nps' ? 0 : 1);
+    const max = typeof survey.max === 'number' ? survey.max : (survey.type === 'nps' ? 10 : 5);
+    const buttons = [];
+
+    for (let score = min; score <= max; score++) {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.textContent = survey.type === 'nps' ? String(score) : '★'.repeat(score);
+      btn.style.padding = '4px 8px';
+      btn.style.border = '1px solid rgba(0,0,0,0.15)';
+      btn.style.borderRadius = '6px';
+      btn.style.background = '#fff';
+      btn.style.color = '#f59e0b';
+      btn.style.cursor = 'pointer';
+      if (survey.type === 'nps') btn.style.color = '#111827';
+
+      btn.onclick = async () => {
+        buttons.forEach(b => { b.disabled = true; b.style.cursor = 'default'; b.style.opacity = '0.5'; });
+        btn.style.opacity = '1';
+        btn.style.borderColor = '#f59e0b';
+        try {
+          await fetch(API + '/api/satisfaction-surveys/respond/' + encodeURIComponent(survey.token), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ score })
+          });
+        } catch (e) {
+          console.error('Failed to send rating:', e);
+          buttons.forEach(b => { b.disabled = false; b.style.cursor = 'pointer'; b.style.opacity = '1'; });
+        }
+      };
+
+      buttons.push(btn);
+      row.appendChild(btn);
+    }
+
+    el.insertBefore(row, el.querySelector('.pc-msg-time'));
+  }
+
   async function sendTextMessage(text) {
     try {
       const response = await fetch(API + '/api/webchat/message', {
@@ -817,59 +1119,187 @@
     }
   }
 
-  async function pollMessages() {
+  function handleMessage(m) {
+    if (m.id && (!lastMessageId || m.id > lastMessageId)) lastMessageId = m.id;
+
+    if (m.direction === 'outbound') {
+      hideAgentTyping();
+      const el = push('in', m.content, m.id, m.mediaUrl, null, m.sentAt || m.createdAt);
+      if (el && m.type === 'survey' && m.metadata && m.metadata.survey) {
+        renderSurveyRating(el, m.metadata.survey);
+      }
+    } else if (m.direction === 'inbound') {
+
+
+      const within10s = Date.now() - (lastSentTime || 0) < 10000;
+      const contentMatches = lastSentContent && m.content === lastSentContent;
+      const mediaMatches = !m.mediaUrl; // Only match if no media (text messages only)
+
+      if (within10s && contentMatches && mediaMatches) {
+        const selector = lastTempMsgId ? `[data-msg-id="${lastTempMsgId}"]` : '.pc-msg.pc-out:last-child';
+        const tempEl = win.querySelector(selector);
+        if (tempEl) {
+          tempEl.dataset.msgId = String(m.id);
+          const timeEl = tempEl.querySelector('.pc-msg-time');
+          if (timeEl) timeEl.textContent = new Date(m.sentAt || m.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+          shownMsgIds.add(String(m.id));
+          lastTempMsgId = null;
+          lastSentContent = null;
+          return; // skip pushing duplicate
+        }
+      }
+      push('out', m.content, m.id, m.mediaUrl, null, m.sentAt || m.createdAt);
+    }
+  }
+
+  function handleRealtimeEvent(event) {
+    if (!event || !event.type) return;
+
+    if (event.type === 'ready') {
+      reconnectDelay = 1000;
+      socketFailures = 0;
+    } else if (event.type === 'message' && event.data) {
+      handleMessage(event.data);
+    } else if (event.type === 'typing' && event.data) {
+      if (event.data.isTyping) showAgentTyping();
+      else hideAgentTyping();
+    } else if (event.type === 'read' && event.data) {
+      markRead(event.data.lastReadMessageId);
+    }
+  }
+
+  function showAgentTyping() {
+    const el = win.querySelector('#pc-typing');
+    if (!el) return;
+    el.style.display = 'flex';
+    const elMsgs = win.querySelector('#pc-messages');
+    elMsgs.scrollTop = elMsgs.scrollHeight;
+
+    clearTimeout(agentTypingTimer);
+    agentTypingTimer = setTimeout(hideAgentTyping, 8000);
+  }
+
+  function hideAgentTyping() {
+    clearTimeout(agentTypingTimer);
+    const el = win.querySelector('#pc-typing');
+    if (el) el.style.display = 'none';
+  }
+
+  function markRead(lastReadMessageId) {
+    if (!lastReadMessageId) return;
+    win.querySelectorAll('.pc-msg.pc-out[data-msg-id]').forEach((el) => {
+      const id = parseInt(el.dataset.msgId, 10);
+      if (isNaN(id) || id > lastReadMessageId || el.querySelector('.pc-msg-read')) return;
+      const timeEl = el.querySelector('.pc-msg-time');
+      if (!timeEl) return;
+      const read = document.createElement('span');
+      read.className = 'pc-msg-read';
+      read.textContent = ' · Seen';
+      timeEl.appendChild(read);
+    });
+  }
+
+  function sendTyping(isTyping) {
     if (!sid) return;
+    lastTypingSentAt = isTyping ? Date.now() : 0;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'typing', isTyping }));
+    } else if (eventSource) {
+      fetch(API + '/api/webchat/typing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: TOKEN, sessionId: sid, isTyping })
+      }).catch(() => {});
+    }
+  }
+
+  function setVisitorTyping(isTyping) {
+    clearTimeout(visitorTypingTimer);
+    if (isTyping) {
+      if (!visitorTyping || Date.now() - lastTypingSentAt > 3000) sendTyping(true);
+      visitorTyping = true;
+      visitorTypingTimer = setTimeout(() => setVisitorTyping(false), 4000);
+    } else if (visitorTyping) {
+      visitorTyping = false;
+      sendTyping(false);
+    }
+  }
+
+  function connectSocket() {
+    const wsUrl = API.replace(/^http/, 'ws') + '/ws/webchat';
+    let opened = false;
     try {
-      const url = API + '/api/webchat/messages/' + sid + '?token=' + TOKEN + (lastPoll ? '&since=' + lastPoll : '');
-      const r = await fetch(url);
-      const data = await r.json();
-
-      if (data.messages) {
-        data.messages.forEach(m => {
-
-          if (m.direction === 'outbound') {
-
-            push('in', m.content, m.id, m.mediaUrl, null, m.sentAt || m.createdAt);
-          } else if (m.direction === 'inbound') {
-
-
-            const within10s = Date.now() - (lastSentTime || 0) < 10000;
-            const contentMatches = lastSentContent && m.content === lastSentContent;
-            const mediaMatches = !m.mediaUrl; // Only match if no media (text messages only)
-
-            if (within10s && contentMatches && mediaMatches) {
-              const selector = lastTempMsgId ? `[data-msg-id="${lastTempMsgId}"]` : '.pc-msg.pc-out:last-child';
-              const tempEl = win.querySelector(selector);
-              if (tempEl) {
-                tempEl.dataset.msgId = String(m.id);
-                const timeEl = tempEl.querySelector('.pc-msg-time');
-                if (timeEl) timeEl.textContent = new Date(m.sentAt || m.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-                shownMsgIds.add(String(m.id));
-                lastTempMsgId = null;
-                lastSentContent = null;
-                return; // skip pushing duplicate
-              }
-            }
-            push('out', m.content, m.id, m.mediaUrl, null, m.sentAt || m.createdAt);
-          }
-        });
-        if (data.timestamp) lastPoll = data.timestamp;
-      }
+      socket = new WebSocket(wsUrl);
     } catch (e) {
-      console.error('Polling failed:', e);
+      socket = null;
+      socketFailures++;
+      scheduleReconnect();
+      return;
+    }
+
+    socket.onopen = () => {
+      opened = true;
+      socket.send(JSON.stringify({ type: 'auth', token: TOKEN, sessionId: sid, lastMessageId }));
+    };
+    socket.onmessage = (e) => {
+      try { handleRealtimeEvent(JSON.parse(e.data)); } catch (err) {}
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (!opened) socketFailures++;
+      scheduleReconnect();
+    };
+  }
+
+  function connectEventSource() {
+    const url = API + '/api/webchat/events/' + encodeURIComponent(sid) + '?token=' + encodeURIComponent(TOKEN) + (lastMessageId ? '&lastMessageId=' + lastMessageId : '');
+    eventSource = new EventSource(url);
+    eventSource.onmessage = (e) => {
+      try { handleRealtimeEvent(JSON.parse(e.data)); } catch (err) {}
+    };
+  }
+
+  function connectRealtime() {
+    if (!realtimeActive || !sid) return;
+
+    // Fall back to server-sent events when WebSocket connections keep failing to open
+    if (socketFailures >= 2 && typeof EventSource !== 'undefined') {
+      connectEventSource();
+    } else {
+      connectSocket();
     }
   }
 
-  function startPolling() {
-    if (pollInterval) return;
-    pollMessages();
-    pollInterval = setInterval(pollMessages, 3000);
+  function scheduleReconnect() {
+    if (!realtimeActive || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connectRealtime();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, 30000);
   }
 
-  function stopPolling() {
-    if (pollInterval) {
-      clearInterval(pollInterval);
-      pollInterval = null;
+  function startRealtime() {
+    if (realtimeActive) return;
+    realtimeActive = true;
+    connectRealtime();
+  }
+
+  function stopRealtime() {
+    realtimeActive = false;
+    setVisitorTyping(false);
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+      socket = null;
+    }
+    if (eventSource) {
+      eventSource.close();
+      eventSource = null;
     }
   }
 })();
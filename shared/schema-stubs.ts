@@ -60,10 +60,3 @@ export const pipelineStageRevertLogs = pgTable("pipeline_stage_revert_logs_stub"
 export type PipelineStageRevertLog = typeof pipelineStageRevertLogs.$inferSelect;
 export type InsertPipelineStageRevertLog = typeof pipelineStageRevertLogs.$inferInsert;
 
-// Company Custom Fields stub
-export const companyCustomFields = pgTable("company_custom_fields_stub", {
-    id: serial("id").primaryKey(),
-    companyId: integer("company_id"),
-    fieldName: text("field_name"),
-    createdAt: timestamp("created_at").defaultNow(),
-});
@@ -790,10 +790,16 @@ export const contacts = pgTable("contacts", {
   identifierType: text("identifier_type"),
   source: text("source"),
   notes: text("notes"),
+  customFields: jsonb("custom_fields").$type<Record<string, CustomFieldValue>>().notNull().default({}),
 
   isHistorySync: boolean("is_history_sync").default(false),
   historySyncBatchId: text("history_sync_batch_id"),
 
+  deletedAt: timestamp("deleted_at"),
+  anonymizedAt: timestamp("anonymized_at"),
+  deletionReason: text("deletion_reason"),
+  deletionMetadata: jsonb("deletion_metadata"),
+
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 });
@@ -812,10 +818,115 @@ export const insertContactSchema = createInsertSchema(contacts).pick({
   identifierType: true,
   source: true,
   notes: true,
+  customFields: true,
   isHistorySync: true,
   historySyncBatchId: true
 });
 
+export const customFieldEntityTypes = z.enum(['deal', 'contact', 'company']);
+export const customFieldTypes = z.enum(['text', 'number', 'select', 'multi_select', 'date', 'boolean']);
+
+export type CustomFieldEntity = z.infer<typeof customFieldEntityTypes>;
+export type CustomFieldType = z.infer<typeof customFieldTypes>;
+export type CustomFieldValue = string | number | boolean | string[] | null;
+
+export interface CustomFieldOption {
+  value: string;
+  label: string;
+}
+
+export const companyCustomFields = pgTable("company_custom_fields", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  entity: text("entity", { enum: ['deal', 'contact', 'company'] }).notNull(),
+  fieldName: text("field_name").notNull(),
+  fieldType: text("field_type", { enum: ['text', 'number', 'select', 'multi_select', 'date', 'boolean'] }).notNull(),
+  fieldLabel: text("field_label").notNull(),
+  options: jsonb("options").$type<CustomFieldOption[] | null>(),
+  required: boolean("required").notNull().default(false),
+  displayOrder: integer("display_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueCompanyEntityField: unique("company_custom_fields_company_id_entity_field_name_key").on(table.companyId, table.entity, table.fieldName)
+}));
+
+export const insertCompanyCustomFieldSchema = createInsertSchema(companyCustomFields).pick({
+  companyId: true,
+  entity: true,
+  fieldName: true,
+  fieldType: true,
+  fieldLabel: true,
+  options: true,
+  required: true,
+  displayOrder: true
+});
+
+export type CompanyCustomField = typeof companyCustomFields.$inferSelect;
+export type InsertCompanyCustomField = z.infer<typeof insertCompanyCustomFieldSchema>;
+
+export type WebChatPrechatFieldType = 'text' | 'email' | 'tel' | 'textarea' | 'select';
+
+/**
+ * Pre-chat form field; the `name`, `email` and `phone` keys fill the contact, any other key is
+ * stored in the contact's custom fields
+ */
+export interface WebChatPrechatField {
+  key: string;
+  label: string;
+  type: WebChatPrechatFieldType;
+  required: boolean;
+  options?: string[];
+}
+
+export interface WebChatPrechatForm {
+  enabled: boolean;
+  title?: string;
+  description?: string;
+  fields: WebChatPrechatField[];
+  consent?: {
+    enabled: boolean;
+    text: string;
+  };
+}
+
+export type WebChatProactiveTriggerType = 'time_on_page' | 'url_match' | 'exit_intent';
+
+export interface WebChatProactiveTrigger {
+  id: string;
+  type: WebChatProactiveTriggerType;
+  enabled: boolean;
+  message: string;
+  delaySeconds?: number;
+  urlPattern?: string;
+}
+
+export interface WebChatOfflineMode {
+  enabled: boolean;
+  calendarId?: number | null;
+  message?: string;
+  notifyEmail?: string;
+}
+
+export interface WebChatPageView {
+  url: string;
+  title?: string;
+  at: string;
+}
+
+/**
+ * Where a webchat visitor came from, captured by the widget
+ */
+export interface WebChatVisitorMetadata {
+  landingPage?: string;
+  referrer?: string;
+  utm?: Partial<Record<'source' | 'medium' | 'campaign' | 'term' | 'content', string>>;
+  pageHistory?: WebChatPageView[];
+  userAgent?: string;
+  consentText?: string;
+  consentAt?: string;
+}
+
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").references(() => companies.id),
@@ -848,6 +959,17 @@ export const conversations = pgTable("conversations", {
   starredAt: timestamp("starred_at"),
   archivedAt: timestamp("archived_at"),
 
+  slaPolicyId: integer("sla_policy_id"),
+  firstResponseDueAt: timestamp("first_response_due_at"),
+  firstRespondedAt: timestamp("first_responded_at"),
+  resolutionDueAt: timestamp("resolution_due_at"),
+  resolvedAt: timestamp("resolved_at"),
+  firstResponseBreachedAt: timestamp("first_response_breached_at"),
+  resolutionBreachedAt: timestamp("resolution_breached_at"),
+  outOfOfficeRepliedAt: timestamp("out_of_office_replied_at"),
+
+  visitorMetadata: jsonb("visitor_metadata").$type<WebChatVisitorMetadata | null>(),
+
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 });
@@ -877,7 +999,16 @@ export const insertConversationSchema = createInsertSchema(conversations).pick({
   isStarred: true,
   isArchived: true,
   starredAt: true,
-  archivedAt: true
+  archivedAt: true,
+  slaPolicyId: true,
+  firstResponseDueAt: true,
+  firstRespondedAt: true,
+  resolutionDueAt: true,
+  resolvedAt: true,
+  firstResponseBreachedAt: true,
+  resolutionBreachedAt: true,
+  outOfOfficeRepliedAt: true,
+  visitorMetadata: true
 });
 
 export const groupParticipants = pgTable("group_participants", {
@@ -941,6 +1072,9 @@ export const messages = pgTable("messages", {
   isHistorySync: boolean("is_history_sync").default(false),
   historySyncBatchId: text("history_sync_batch_id"),
 
+  anonymizedAt: timestamp("anonymized_at"),
+  anonymizationReason: text("anonymization_reason"),
+
   createdAt: timestamp("created_at").defaultNow()
 });
 
@@ -980,6 +1114,209 @@ export const insertNoteSchema = createInsertSchema(notes).pick({
   content: true
 });
 
+export const agentAssignmentProfiles = pgTable("agent_assignment_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  availability: text("availability", {
+    enum: ['available', 'away', 'offline']
+  }).notNull().default('available'),
+  skills: text("skills").array().notNull().default([]),
+  maxConcurrentChats: integer("max_concurrent_chats"), // null = use company policy default
+  autoAssignEnabled: boolean("auto_assign_enabled").notNull().default(true),
+  lastAssignedAt: timestamp("last_assigned_at"),
+  lastSeenAt: timestamp("last_seen_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export type AgentAssignmentProfile = typeof agentAssignmentProfiles.$inferSelect;
+export type InsertAgentAssignmentProfile = typeof agentAssignmentProfiles.$inferInsert;
+
+export interface SlaBusinessHoursDay {
+  enabled: boolean;
+  start: string; // HH:mm in the calendar timezone
+  end: string;   // HH:mm in the calendar timezone
+}
+
+/**
+ * Working-hours calendar used to pause SLA clocks outside business hours.
+ * `days` is indexed by weekday (0 = Sunday); holidays are YYYY-MM-DD dates.
+ */
+export interface SlaBusinessHours {
+  timezone: string;
+  days: SlaBusinessHoursDay[];
+  holidays?: string[];
+}
+
+export interface SlaEscalation {
+  reassign: boolean;
+  reassignToUserId?: number | null; // null = pick an agent using the assignment policy
+  notifyAssignee: boolean;
+  notifyUserIds: number[];
+  addTags: string[]; // added to the conversation's contact
+}
+
+export const slaPolicies = pgTable("sla_policies", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  priority: integer("priority").notNull().default(0), // lower runs first
+  channelTypes: text("channel_types").array().notNull().default([]), // empty = all channels
+  channelIds: integer("channel_ids").array().notNull().default([]), // empty = all connections
+  contactTags: text("contact_tags").array().notNull().default([]), // empty = any contact
+  firstResponseMinutes: integer("first_response_minutes"),
+  resolutionMinutes: integer("resolution_minutes"),
+  businessHoursCalendarId: integer("business_hours_calendar_id").references(() => businessHoursCalendars.id, { onDelete: 'set null' }), // null = 24/7
+  escalation: jsonb("escalation").$type<SlaEscalation>().notNull().default({
+    reassign: false,
+    reassignToUserId: null,
+    notifyAssignee: true,
+    notifyUserIds: [],
+    addTags: []
+  }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type InsertSlaPolicy = typeof slaPolicies.$inferInsert;
+
+export interface BusinessHoursHoliday {
+  date: string; // YYYY-MM-DD in the calendar timezone
+  name: string;
+  source: 'manual' | 'ical';
+}
+
+/**
+ * Named company calendar shared by flows, campaigns, scheduled messages and out-of-office
+ * replies. `days` uses the same weekday layout as SLA business hours.
+ */
+export const businessHoursCalendars = pgTable("business_hours_calendars", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  description: text("description"),
+  timezone: text("timezone").notNull().default('UTC'),
+  days: jsonb("days").$type<SlaBusinessHoursDay[]>().notNull(),
+  holidays: jsonb("holidays").$type<BusinessHoursHoliday[]>().notNull().default([]),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export type BusinessHoursCalendar = typeof businessHoursCalendars.$inferSelect;
+export type InsertBusinessHoursCalendar = typeof businessHoursCalendars.$inferInsert;
+
+export const outOfOfficeReplies = pgTable("out_of_office_replies", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  channelConnectionId: integer("channel_connection_id").notNull().unique().references(() => channelConnections.id, { onDelete: 'cascade' }),
+  calendarId: integer("calendar_id").notNull().references(() => businessHoursCalendars.id, { onDelete: 'cascade' }),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  message: text("message").notNull(),
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(240), // per conversation
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export type OutOfOfficeReply = typeof outOfOfficeReplies.$inferSelect;
+export type InsertOutOfOfficeReply = typeof outOfOfficeReplies.$inferInsert;
+
+export const conversationSurveys = pgTable("conversation_surveys", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  contactId: integer("contact_id").references(() => contacts.id, { onDelete: 'set null' }),
+  channelId: integer("channel_id"),
+  channelType: text("channel_type").notNull(),
+  agentId: integer("agent_id").references(() => users.id, { onDelete: 'set null' }), // assignee when the conversation closed
+  surveyType: text("survey_type", { enum: ['csat', 'nps'] }).notNull(),
+  status: text("status", {
+    enum: ['sent', 'awaiting_comment', 'completed', 'expired', 'failed']
+  }).notNull().default('sent'),
+  token: text("token").notNull().unique(),
+  score: integer("score"),
+  comment: text("comment"),
+  error: text("error"),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+  respondedAt: timestamp("responded_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export type ConversationSurvey = typeof conversationSurveys.$inferSelect;
+export type InsertConversationSurvey = typeof conversationSurveys.$inferInsert;
+
+export const WEBHOOK_EVENTS = [
+  'message.received',
+  'message.status',
+  'conversation.assigned',
+  'conversation.closed',
+  'contact.created',
+  'contact.updated',
+  'deal.stage_changed',
+  'campaign.completed',
+  'flow.completed'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookDeliveryAttempt {
+  at: string;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  events: text("events").array().$type<WebhookEvent[]>().notNull().default([]),
+  secret: text("secret").notNull(),
+  previousSecret: text("previous_secret"), // still signs deliveries until previousSecretExpiresAt
+  previousSecretExpiresAt: timestamp("previous_secret_expires_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  subscriptionId: integer("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status", {
+    enum: ['pending', 'sending', 'delivered', 'failed']
+  }).notNull().default('pending'),
+  attemptCount: integer("attempt_count").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(10),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  attempts: jsonb("attempts").$type<WebhookDeliveryAttempt[]>().notNull().default([]),
+  redeliveryOfId: integer("redelivery_of_id"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
 
 export const calls = pgTable("calls", {
   id: serial("id").primaryKey(),
@@ -1186,6 +1523,66 @@ export const contactAuditLogs = pgTable("contact_audit_logs", {
 export type ContactAuditLog = typeof contactAuditLogs.$inferSelect;
 export type InsertContactAuditLog = typeof contactAuditLogs.$inferInsert;
 
+export const DATA_RETENTION_DATA_CLASSES = [
+  'message_bodies',
+  'media_files',
+  'call_recordings',
+  'flow_execution_logs',
+  'api_usage_logs'
+] as const;
+
+export type DataRetentionDataClass = typeof DATA_RETENTION_DATA_CLASSES[number];
+
+/**
+ * Company-wide retention settings shared by all retention policies.
+ * Contacts tagged with a legal hold tag are never touched by retention.
+ */
+export interface DataRetentionSettings {
+  legalHoldTags: string[];
+  notifyBeforeDeletion: boolean;
+  notificationDays: number;
+  notifyEmails: string[];
+  nextDeletionAt?: string | null; // announced deletion date when notifications are on
+}
+
+export interface DataRetentionRunResult {
+  policyId: number;
+  dataClass: DataRetentionDataClass;
+  channelTypes: string[];
+  cutoff: string;
+  matched: number;
+  processed: number;
+  errors: string[];
+}
+
+export const dataRetentionPolicies = pgTable("data_retention_policies", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  dataClass: text("data_class").$type<DataRetentionDataClass>().notNull(),
+  channelTypes: text("channel_types").array().notNull().default([]), // empty = all channels
+  retentionDays: integer("retention_days").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export const dataRetentionRuns = pgTable("data_retention_runs", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  dryRun: boolean("dry_run").notNull().default(false),
+  trigger: text("trigger", { enum: ['schedule', 'manual'] }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  status: text("status", { enum: ['completed', 'failed'] }).notNull(),
+  results: jsonb("results").$type<DataRetentionRunResult[]>().notNull().default([]),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at")
+});
+
+export type DataRetentionPolicy = typeof dataRetentionPolicies.$inferSelect;
+export type InsertDataRetentionPolicy = typeof dataRetentionPolicies.$inferInsert;
+export type DataRetentionRun = typeof dataRetentionRuns.$inferSelect;
+
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 
@@ -1255,10 +1652,33 @@ export const flows = pgTable("flows", {
   nodes: jsonb("nodes").notNull().default([]),
   edges: jsonb("edges").notNull().default([]),
   version: integer("version").notNull().default(1),
+  publishedVersionId: integer("published_version_id"), // flow_versions row new sessions run on; nodes/edges above are the draft
+  publishedAt: timestamp("published_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow()
 });
 
+/**
+ * Immutable snapshot of a flow taken when it is published. Sessions keep running on the
+ * version they started with; rollback publishes a copy of an older version.
+ */
+export const flowVersions = pgTable("flow_versions", {
+  id: serial("id").primaryKey(),
+  flowId: integer("flow_id").notNull().references(() => flows.id, { onDelete: 'cascade' }),
+  companyId: integer("company_id").references(() => companies.id),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  nodes: jsonb("nodes").notNull().default([]),
+  edges: jsonb("edges").notNull().default([]),
+  note: text("note"),
+  rolledBackFromVersionId: integer("rolled_back_from_version_id"),
+  publishedById: integer("published_by_id").references(() => users.id, { onDelete: 'set null' }),
+  publishedAt: timestamp("published_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueFlowVersion: unique("flow_versions_flow_id_version_key").on(table.flowId, table.version)
+}));
+
 export const insertFlowSchema = createInsertSchema(flows).pick({
   userId: true,
   companyId: true,
@@ -1283,6 +1703,7 @@ export const flowSessions = pgTable("flow_sessions", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull().unique(),
   flowId: integer("flow_id").notNull().references(() => flows.id),
+  flowVersionId: integer("flow_version_id").references(() => flowVersions.id, { onDelete: 'set null' }),
   conversationId: integer("conversation_id").notNull().references(() => conversations.id),
   contactId: integer("contact_id").notNull().references(() => contacts.id),
   companyId: integer("company_id").references(() => companies.id),
@@ -1397,6 +1818,7 @@ export const insertFlowAssignmentSchema = createInsertSchema(flowAssignments).pi
 export const insertFlowSessionSchema = createInsertSchema(flowSessions).pick({
   sessionId: true,
   flowId: true,
+  flowVersionId: true,
   conversationId: true,
   contactId: true,
   companyId: true,
@@ -1437,11 +1859,69 @@ export const insertFlowSessionCursorSchema = createInsertSchema(flowSessionCurso
 
 export type Flow = typeof flows.$inferSelect;
 export type InsertFlow = z.infer<typeof insertFlowSchema>;
+export type FlowVersion = typeof flowVersions.$inferSelect;
+export type InsertFlowVersion = typeof flowVersions.$inferInsert;
 export type FlowAssignment = typeof flowAssignments.$inferSelect;
 export type InsertFlowAssignment = z.infer<typeof insertFlowAssignmentSchema>;
 export type FlowNodeType = z.infer<typeof flowNodeTypes>;
 export type FlowStatus = z.infer<typeof flowStatusTypes>;
 
+export const FLOW_CONDITION_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'starts_with',
+  'ends_with',
+  'matches_regex',
+  'in_list',
+  'not_in_list',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+  'date_before',
+  'date_after',
+  'within_last_days',
+  'is_set',
+  'is_not_set'
+] as const;
+
+export type FlowConditionOperator = typeof FLOW_CONDITION_OPERATORS[number];
+
+/**
+ * A single comparison in a rules-mode condition node. `variable` is any execution context
+ * variable, optionally followed by a JSON path into it (e.g. `http.response.data.items[0].status`).
+ * `value` and `valueTo` may contain {{variables}}; `in_list` values are comma separated.
+ */
+export interface FlowConditionRule {
+  type: 'rule';
+  id: string;
+  variable: string;
+  operator: FlowConditionOperator;
+  value?: string;
+  valueTo?: string; // upper bound for `between`
+  caseSensitive?: boolean;
+}
+
+export interface FlowConditionGroup {
+  type: 'group';
+  id: string;
+  combinator: 'and' | 'or';
+  rules: Array<FlowConditionRule | FlowConditionGroup>;
+}
+
+/**
+ * Named output of a rules-mode condition node, connected through the `branch-<id>` handle.
+ * Branches are checked in order; the first match wins, otherwise the `default` handle is taken.
+ */
+export interface FlowConditionBranch {
+  id: string;
+  name: string;
+  conditions: FlowConditionGroup;
+}
+
 export type FlowSession = typeof flowSessions.$inferSelect;
 export type InsertFlowSession = z.infer<typeof insertFlowSessionSchema>;
 export type FlowSessionVariable = typeof flowSessionVariables.$inferSelect;
@@ -1750,18 +2230,24 @@ export const dealPriorityTypes = z.enum([
 export const pipelineStages = pgTable("pipeline_stages", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").references(() => companies.id),
+  pipelineId: integer("pipeline_id").notNull(),
   name: text("name").notNull(),
   color: text("color").notNull(),
   order: integer("order_num").notNull(),
+  winProbability: integer("win_probability"), // 0-100; null = default for the stage type
+  requiredFields: text("required_fields").array().notNull().default([]), // deal fields that must be set to enter the stage
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow()
 });
 
 export const insertPipelineStageSchema = createInsertSchema(pipelineStages).pick({
   companyId: true,
+  pipelineId: true,
   name: true,
   color: true,
-  order: true
+  order: true,
+  winProbability: true,
+  requiredFields: true
 });
 
 export const plans = pgTable("plans", {
@@ -2713,11 +3199,13 @@ export const deals = pgTable("deals", {
   companyId: integer("company_id").references(() => companies.id),
   contactId: integer("contact_id").notNull().references(() => contacts.id),
   title: text("title").notNull(),
+  pipelineId: integer("pipeline_id").notNull(),
   stageId: integer("stage_id").references(() => pipelineStages.id),
   stage: text("stage", {
     enum: ['lead', 'qualified', 'contacted', 'demo_scheduled', 'proposal', 'negotiation', 'closed_won', 'closed_lost']
   }).notNull().default('lead'),
   value: integer("value"),
+  currency: text("currency"), // ISO 4217 code; null = company base currency
   priority: text("priority", { enum: ['low', 'medium', 'high'] }).default('medium'),
   dueDate: timestamp("due_date"),
   assignedToUserId: integer("assigned_to_user_id").references(() => users.id),
@@ -2733,9 +3221,11 @@ export const insertDealSchema = createInsertSchema(deals).pick({
   companyId: true,
   contactId: true,
   title: true,
+  pipelineId: true,
   stageId: true,
   stage: true,
   value: true,
+  currency: true,
   priority: true,
   dueDate: true,
   assignedToUserId: true,
@@ -2763,6 +3253,88 @@ export const insertDealActivitySchema = createInsertSchema(dealActivities).pick(
   metadata: true
 });
 
+export const products = pgTable("products", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  sku: text("sku"),
+  description: text("description"),
+  unitPrice: numeric("unit_price", { precision: 14, scale: 2 }).notNull().default("0"),
+  currency: text("currency"), // null = company base currency
+  taxRate: numeric("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueCompanySku: unique("unique_product_company_sku").on(table.companyId, table.sku)
+}));
+
+export const dealLineItems = pgTable("deal_line_items", {
+  id: serial("id").primaryKey(),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: 'cascade' }),
+  productId: integer("product_id").references(() => products.id, { onDelete: 'set null' }),
+  name: text("name").notNull(),
+  quantity: numeric("quantity", { precision: 14, scale: 3 }).notNull().default("1"),
+  unitPrice: numeric("unit_price", { precision: 14, scale: 2 }).notNull().default("0"),
+  discountPercent: numeric("discount_percent", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxRate: numeric("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  total: numeric("total", { precision: 14, scale: 2 }).notNull().default("0"), // after discount and tax, in the deal currency
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+/**
+ * Company currency settings for deals. Rates give the value of one unit of a currency in
+ * the base currency and are maintained by hand.
+ */
+export interface DealCurrencySettings {
+  baseCurrency: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * Deal fields a stage can require before a deal may enter it
+ */
+export const DEAL_REQUIRED_FIELDS = ['value', 'currency', 'dueDate', 'assignedToUserId', 'description', 'tags'] as const;
+export type DealRequiredField = typeof DEAL_REQUIRED_FIELDS[number];
+
+export type StageAutomationTrigger = 'enter' | 'exit' | 'idle';
+
+/**
+ * Action run by a pipeline stage automation. Message and task text may use
+ * {{contact.name}}, {{deal.title}}, {{deal.value}} and {{stage.name}}.
+ */
+export type StageAutomationAction =
+  | { type: 'send_template'; templateId: number } // quick reply template, sent on the contact's latest conversation
+  | { type: 'create_task'; title: string; description?: string; dueInDays: number; priority: 'low' | 'medium' | 'high' | 'urgent' } // assigned to the deal owner
+  | { type: 'assign_owner'; userId: number }
+  | { type: 'webhook'; url: string; message: string } // Slack-style { text } payload
+  | { type: 'move_stage'; stageId: number }
+  | { type: 'add_tags'; tags: string[] };
+
+export const pipelineStageAutomations = pgTable("pipeline_stage_automations", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  stageId: integer("stage_id").notNull().references(() => pipelineStages.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  trigger: text("trigger").$type<StageAutomationTrigger>().notNull(),
+  idleDays: integer("idle_days"), // idle trigger: days without deal activity while in the stage
+  actions: jsonb("actions").$type<StageAutomationAction[]>().notNull().default([]),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export const pipelineStageAutomationRuns = pgTable("pipeline_stage_automation_runs", {
+  id: serial("id").primaryKey(),
+  automationId: integer("automation_id").notNull().references(() => pipelineStageAutomations.id, { onDelete: 'cascade' }),
+  dealId: integer("deal_id").notNull().references(() => deals.id, { onDelete: 'cascade' }),
+  status: text("status", { enum: ['success', 'failed'] }).notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+});
+
 export const updateStatus = pgEnum('update_status', ['pending', 'downloading', 'validating', 'applying', 'completed', 'failed', 'rolled_back']);
 
 export const systemUpdates = pgTable("system_updates", {
@@ -2810,11 +3382,75 @@ export type Deal = typeof deals.$inferSelect;
 export type InsertDeal = z.infer<typeof insertDealSchema>;
 export type DealActivity = typeof dealActivities.$inferSelect;
 export type InsertDealActivity = z.infer<typeof insertDealActivitySchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = typeof products.$inferInsert;
+export type DealLineItem = typeof dealLineItems.$inferSelect;
+export type InsertDealLineItem = typeof dealLineItems.$inferInsert;
+export type PipelineStageAutomation = typeof pipelineStageAutomations.$inferSelect;
+export type InsertPipelineStageAutomation = typeof pipelineStageAutomations.$inferInsert;
+export type PipelineStageAutomationRun = typeof pipelineStageAutomationRuns.$inferSelect;
 export type DealStatus = z.infer<typeof dealStatusTypes>;
 export type DealPriority = z.infer<typeof dealPriorityTypes>;
 export type PipelineStage = typeof pipelineStages.$inferSelect;
 export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
 
+/**
+ * Default win probability (0-100) per deal stage type, used for stages without
+ * an explicit win probability
+ */
+export const DEFAULT_STAGE_WIN_PROBABILITIES: Record<DealStatus, number> = {
+  lead: 10,
+  qualified: 20,
+  contacted: 30,
+  demo_scheduled: 40,
+  proposal: 60,
+  negotiation: 80,
+  closed_won: 100,
+  closed_lost: 0
+};
+
+export interface DealForecastTotals {
+  openDeals: number;
+  openValue: number;
+  weightedValue: number;
+  wonDeals: number;
+  wonValue: number;
+  lostDeals: number;
+}
+
+export interface DealForecastBucket extends DealForecastTotals {
+  key: string; // YYYY-MM, user id, pipeline id or 'none'
+  label: string;
+}
+
+export interface DealForecastStage {
+  stageId: number;
+  pipelineId: number;
+  name: string;
+  order: number;
+  winProbability: number;
+  probabilitySource: 'stage' | 'default';
+  openDeals: number;
+  openValue: number;
+  weightedValue: number;
+  reached: number; // deals that entered the stage
+  advanced: number; // of those, deals that later moved to a later stage
+  conversionRate: number | null;
+  avgDaysInStage: number | null;
+}
+
+export interface DealForecastReport {
+  generatedAt: string;
+  currency: string; // company base currency all values are converted to
+  missingRates: string[]; // deal currencies without an exchange rate
+  filters: { pipelineId: number | null; ownerId: number | null; from: string | null; to: string | null };
+  totals: DealForecastTotals;
+  stages: DealForecastStage[];
+  byMonth: DealForecastBucket[];
+  byOwner: DealForecastBucket[];
+  byPipeline: DealForecastBucket[];
+}
+
 export type AppSetting = typeof appSettings.$inferSelect;
 export type InsertAppSetting = typeof appSettings.$inferInsert;
 
@@ -3065,10 +3701,41 @@ export const campaigns = pgTable("campaigns", {
     messageVariation: false
   }),
 
+  abTestSettings: jsonb("ab_test_settings").$type<CampaignAbTestSettings | null>(),
+
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow()
 });
 
+export type CampaignAbTestMetric = 'delivery_rate' | 'read_rate' | 'reply_rate';
+export type CampaignAbTestStatus = 'pending' | 'testing' | 'winner_selected';
+
+export interface CampaignAbTestVariant {
+  id: string;
+  name: string;
+  content: string;
+  mediaUrls?: string[];
+  splitPercentage: number; // share of the test cohort, all variants add up to 100
+}
+
+/**
+ * A/B test of a campaign. `testCohortPercentage` of the recipients is split across the variants
+ * first; once `testWindowHours` have passed the variant with the best `winnerMetric` is sent to
+ * everyone else. `status`, `testStartedAt` and the winner fields are maintained by the server.
+ */
+export interface CampaignAbTestSettings {
+  enabled: boolean;
+  variants: CampaignAbTestVariant[];
+  testCohortPercentage: number;
+  winnerMetric: CampaignAbTestMetric;
+  testWindowHours: number;
+  status?: CampaignAbTestStatus;
+  testStartedAt?: string;
+  winnerVariantId?: string;
+  winnerSelectedAt?: string;
+  winnerSelectedBy?: 'auto' | 'manual';
+}
+
 export const campaignRecipients = pgTable("campaign_recipients", {
   id: serial("id").primaryKey(),
   campaignId: integer("campaign_id").notNull().references(() => campaigns.id),
@@ -3090,6 +3757,7 @@ export const campaignRecipients = pgTable("campaign_recipients", {
 
   externalMessageId: text("external_message_id"),
   conversationId: integer("conversation_id").references(() => conversations.id),
+  variantId: text("variant_id"),
 
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow()
@@ -3231,6 +3899,7 @@ export const scheduledMessages = pgTable("scheduled_messages", {
 
   scheduledFor: timestamp("scheduled_for").notNull(),
   timezone: text("timezone").default('UTC'),
+  businessHoursCalendarId: integer("business_hours_calendar_id"), // hold until the calendar is open
   
 
   status: scheduledMessageStatusEnum("status").default('pending'),
@@ -3316,7 +3985,8 @@ export const insertCampaignSchema = createInsertSchema(campaigns).pick({
   dripSettings: true,
   rateLimitSettings: true,
   complianceSettings: true,
-  antiBanSettings: true
+  antiBanSettings: true,
+  abTestSettings: true
 });
 
 export const insertCampaignRecipientSchema = createInsertSchema(campaignRecipients).pick({
@@ -3356,6 +4026,7 @@ export type InsertContactSegment = z.infer<typeof insertContactSegmentSchema>;
  * - created_after: ISO date string for filtering contacts created after this date
  * - created_before: ISO date string for filtering contacts created before this date
  * - excludedContactIds: Array of contact IDs to exclude from the segment
+ * - customFields: Conditions on company-defined contact fields (all must match)
  */
 export interface SegmentFilterCriteria {
   tags?: string[];
@@ -3363,9 +4034,98 @@ export interface SegmentFilterCriteria {
   created_before?: string;
   excludedContactIds?: number[];
   contactIds?: number[];
+  customFields?: SegmentCustomFieldFilter[];
+  rules?: SegmentRuleGroup; // nested AND/OR rules, combined with the filters above using AND
   [key: string]: any; // Allow additional fields for extensibility
 }
 
+export type SegmentCustomFieldOperator = 'equals' | 'not_equals' | 'contains' | 'gt' | 'lt' | 'is_set' | 'is_not_set';
+
+/**
+ * Condition on a contact custom field. `field` is the field_name of the definition;
+ * gt/lt compare numerically for number fields and lexically (YYYY-MM-DD) for dates.
+ */
+export interface SegmentCustomFieldFilter {
+  field: string;
+  operator: SegmentCustomFieldOperator;
+  value?: string | number | boolean;
+}
+
+export const SEGMENT_RULE_FIELDS = [
+  'name',
+  'email',
+  'phone',
+  'company',
+  'source',
+  'created_at',
+  'custom_field',
+  'tags',
+  'channel',
+  'last_message_at',
+  'deal_stage',
+  'campaign_engagement',
+  'conversation_status'
+] as const;
+
+export type SegmentRuleField = typeof SEGMENT_RULE_FIELDS[number];
+
+export const SEGMENT_RULE_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'gt',
+  'lt',
+  'is_set',
+  'is_not_set',
+  'has_any',
+  'has_all',
+  'has_none',
+  'before',
+  'after',
+  'within_last_days',
+  'not_within_last_days'
+] as const;
+
+export type SegmentRuleOperator = typeof SEGMENT_RULE_OPERATORS[number];
+
+export const SEGMENT_RULE_FIELD_OPERATORS: Record<SegmentRuleField, readonly SegmentRuleOperator[]> = {
+  name: ['equals', 'not_equals', 'contains', 'not_contains', 'is_set', 'is_not_set'],
+  email: ['equals', 'not_equals', 'contains', 'not_contains', 'is_set', 'is_not_set'],
+  phone: ['equals', 'not_equals', 'contains', 'not_contains', 'is_set', 'is_not_set'],
+  company: ['equals', 'not_equals', 'contains', 'not_contains', 'is_set', 'is_not_set'],
+  source: ['equals', 'not_equals', 'contains', 'not_contains', 'is_set', 'is_not_set'],
+  created_at: ['before', 'after', 'within_last_days', 'not_within_last_days'],
+  custom_field: ['equals', 'not_equals', 'contains', 'gt', 'lt', 'is_set', 'is_not_set'],
+  tags: ['has_any', 'has_all', 'has_none'],
+  channel: ['has_any', 'has_none'],
+  last_message_at: ['before', 'after', 'within_last_days', 'not_within_last_days', 'is_set', 'is_not_set'],
+  deal_stage: ['has_any', 'has_none'],
+  campaign_engagement: ['equals', 'not_equals'],
+  conversation_status: ['has_any', 'has_none']
+};
+
+export type SegmentCampaignEngagement = 'delivered' | 'read' | 'replied' | 'failed';
+
+/**
+ * A single segment condition. `customField` names the custom field for `custom_field` rules;
+ * `campaignId` narrows `campaign_engagement` rules to one campaign (any campaign when omitted).
+ */
+export interface SegmentRule {
+  type: 'rule';
+  field: SegmentRuleField;
+  operator: SegmentRuleOperator;
+  value?: string | number | boolean | Array<string | number>;
+  customField?: string;
+  campaignId?: number;
+}
+
+export interface SegmentRuleGroup {
+  type: 'group';
+  combinator: 'and' | 'or';
+  rules: Array<SegmentRule | SegmentRuleGroup>;
+}
+
 export type Campaign = typeof campaigns.$inferSelect;
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 
@@ -3776,6 +4536,15 @@ export const knowledgeBaseDocuments = pgTable("knowledge_base_documents", {
   processingError: text("processing_error"),
   processingDurationMs: integer("processing_duration_ms"),
 
+  // Set for pages ingested from a website source
+  sourceId: integer("source_id").references(() => knowledgeBaseSources.id, { onDelete: 'cascade' }),
+  sourceUrl: text("source_url"),
+  contentHash: text("content_hash"),
+
+  // Metadata used to filter retrieval
+  tags: text("tags").array().notNull().default([]),
+  language: text("language"),
+
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow()
 });
@@ -3785,10 +4554,12 @@ export const knowledgeBaseChunks = pgTable("knowledge_base_chunks", {
   documentId: integer("document_id").notNull().references(() => knowledgeBaseDocuments.id, { onDelete: 'cascade' }),
 
   content: text("content").notNull(),
+  section: text("section"),
   chunkIndex: integer("chunk_index").notNull(),
   tokenCount: integer("token_count"),
 
-
+  // Only set when the node's knowledge base uses the Postgres vector store
+  embedding: real("embedding").array(),
 
   startPosition: integer("start_position"),
   endPosition: integer("end_position"),
@@ -3806,6 +4577,19 @@ export const knowledgeBaseConfigs = pgTable("knowledge_base_configs", {
   maxRetrievedChunks: integer("max_retrieved_chunks").default(3),
   similarityThreshold: real("similarity_threshold").default(0.7),
   embeddingModel: text("embedding_model").default('text-embedding-3-small'),
+  vectorStore: text("vector_store", {
+    enum: ['pinecone', 'postgres']
+  }).notNull().default('pinecone'),
+  chunkTargetTokens: integer("chunk_target_tokens").notNull().default(500),
+  chunkOverlapTokens: integer("chunk_overlap_tokens").notNull().default(80),
+
+  retrievalMode: text("retrieval_mode", {
+    enum: ['vector', 'hybrid']
+  }).notNull().default('hybrid'),
+  rerankEnabled: boolean("rerank_enabled").notNull().default(false),
+  citationsEnabled: boolean("citations_enabled").notNull().default(false),
+  filterTags: text("filter_tags").array().notNull().default([]), // only documents with one of these tags
+  filterByLanguage: boolean("filter_by_language").notNull().default(false),
 
   contextPosition: text("context_position", {
     enum: ['before_system', 'after_system', 'before_user']
@@ -3833,6 +4617,28 @@ export const knowledgeBaseDocumentNodes = pgTable("knowledge_base_document_nodes
   uniqueDocumentNode: unique().on(table.documentId, table.nodeId)
 }));
 
+export const knowledgeBaseSources = pgTable("knowledge_base_sources", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  nodeId: text("node_id").notNull(),
+
+  type: text("type", { enum: ['sitemap', 'website'] }).notNull(),
+  url: text("url").notNull(),
+  maxPages: integer("max_pages").notNull().default(50),
+  syncIntervalHours: integer("sync_interval_hours"), // null = manual sync only
+
+  status: text("status", {
+    enum: ['pending', 'syncing', 'completed', 'failed']
+  }).notNull().default('pending'),
+  pageCount: integer("page_count").notNull().default(0),
+  lastSyncError: text("last_sync_error"),
+  lastSyncedAt: timestamp("last_synced_at"),
+  nextSyncAt: timestamp("next_sync_at"),
+
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
 export const knowledgeBaseUsage = pgTable("knowledge_base_usage", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").notNull().references(() => companies.id, { onDelete: 'cascade' }),
@@ -3852,6 +4658,8 @@ export const knowledgeBaseUsage = pgTable("knowledge_base_usage", {
   contextInjected: boolean("context_injected").default(false),
   contextLength: integer("context_length"),
 
+  trace: jsonb("trace"), // candidates of each retrieval stage, for debugging answers
+
   createdAt: timestamp("created_at").notNull().defaultNow()
 });
 
@@ -3930,12 +4738,18 @@ export const insertKnowledgeBaseDocumentSchema = createInsertSchema(knowledgeBas
   chunkCount: true,
   embeddingModel: true,
   processingError: true,
-  processingDurationMs: true
+  processingDurationMs: true,
+  sourceId: true,
+  sourceUrl: true,
+  contentHash: true,
+  tags: true,
+  language: true
 });
 
 export const insertKnowledgeBaseChunkSchema = createInsertSchema(knowledgeBaseChunks).pick({
   documentId: true,
   content: true,
+  section: true,
   chunkIndex: true,
   tokenCount: true,
   startPosition: true,
@@ -3950,6 +4764,14 @@ export const insertKnowledgeBaseConfigSchema = createInsertSchema(knowledgeBaseC
   maxRetrievedChunks: true,
   similarityThreshold: true,
   embeddingModel: true,
+  vectorStore: true,
+  chunkTargetTokens: true,
+  chunkOverlapTokens: true,
+  retrievalMode: true,
+  rerankEnabled: true,
+  citationsEnabled: true,
+  filterTags: true,
+  filterByLanguage: true,
   contextPosition: true,
   contextTemplate: true
 });
@@ -3973,7 +4795,17 @@ export const insertKnowledgeBaseUsageSchema = createInsertSchema(knowledgeBaseUs
   retrievalDurationMs: true,
   embeddingDurationMs: true,
   contextInjected: true,
-  contextLength: true
+  contextLength: true,
+  trace: true
+});
+
+export const insertKnowledgeBaseSourceSchema = createInsertSchema(knowledgeBaseSources).pick({
+  companyId: true,
+  nodeId: true,
+  type: true,
+  url: true,
+  maxPages: true,
+  syncIntervalHours: true
 });
 
 export const historySyncBatches = pgTable("history_sync_batches", {
@@ -4270,5 +5102,8 @@ export type InsertKnowledgeBaseConfig = z.infer<typeof insertKnowledgeBaseConfig
 export type KnowledgeBaseDocumentNode = typeof knowledgeBaseDocumentNodes.$inferSelect;
 export type InsertKnowledgeBaseDocumentNode = z.infer<typeof insertKnowledgeBaseDocumentNodeSchema>;
 
+export type KnowledgeBaseSource = typeof knowledgeBaseSources.$inferSelect;
+export type InsertKnowledgeBaseSource = z.infer<typeof insertKnowledgeBaseSourceSchema>;
+
 export type KnowledgeBaseUsage = typeof knowledgeBaseUsage.$inferSelect;
 export type InsertKnowledgeBaseUsage = z.infer<typeof insertKnowledgeBaseUsageSchema>;
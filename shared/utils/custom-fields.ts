@@ -0,0 +1,208 @@
+/**
+ * Custom Field Utilities
+ * Shared helpers for validating and formatting company-defined custom field values
+ */
+
+import type { CustomFieldOption, CustomFieldType, CustomFieldValue } from '../schema';
+
+export interface CustomFieldDefinition {
+  fieldName: string;
+  fieldType: CustomFieldType;
+  fieldLabel: string;
+  options?: CustomFieldOption[] | null;
+  required?: boolean;
+}
+
+export interface CustomFieldValidationResult {
+  values: Record<string, CustomFieldValue>;
+  errors: string[];
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'on'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off'];
+
+/**
+ * Convert a human label into a stable field key (e.g. "Customer Tier" -> "customer_tier")
+ */
+export function toCustomFieldName(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 64);
+}
+
+/**
+ * Check whether a value counts as "not set" for a custom field
+ */
+export function isEmptyCustomFieldValue(value: unknown): boolean {
+  return value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function resolveOption(definition: CustomFieldDefinition, raw: string): string | null {
+  const candidate = raw.trim().toLowerCase();
+  const option = (definition.options || []).find(opt =>
+    opt.value.toLowerCase() === candidate || opt.label.toLowerCase() === candidate
+  );
+  return option ? option.value : null;
+}
+
+/**
+ * Coerce a raw value (from JSON, CSV or a flow variable) into the type of the field.
+ * Select values may be given either as option value or option label.
+ * Throws an Error with a user-facing message when the value does not fit the field type.
+ */
+export function coerceCustomFieldValue(definition: CustomFieldDefinition, raw: unknown): CustomFieldValue {
+  if (isEmptyCustomFieldValue(raw)) {
+    return null;
+  }
+
+  const label = definition.fieldLabel || definition.fieldName;
+
+  switch (definition.fieldType) {
+    case 'text':
+      return (typeof raw === 'object' ? JSON.stringify(raw) : String(raw)).trim();
+
+    case 'number': {
+      const parsed = typeof raw === 'number' ? raw : Number(String(raw).trim().replace(/,/g, ''));
+      if (!Number.isFinite(parsed)) {
+        throw new Error(`${label} must be a number`);
+      }
+      return parsed;
+    }
+
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const normalized = String(raw).trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      throw new Error(`${label} must be true or false`);
+    }
+
+    case 'date': {
+      const date = raw instanceof Date ? raw : new Date(String(raw).trim());
+      if (isNaN(date.getTime())) {
+        throw new Error(`${label} must be a valid date`);
+      }
+      return date.toISOString().split('T')[0];
+    }
+
+    case 'select': {
+      const value = resolveOption(definition, String(raw));
+      if (!value) {
+        throw new Error(`${label} must be one of: ${(definition.options || []).map(opt => opt.label).join(', ')}`);
+      }
+      return value;
+    }
+
+    case 'multi_select': {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[,;|]/);
+      const values: string[] = [];
+      for (const item of items) {
+        if (!item.trim()) continue;
+        const value = resolveOption(definition, item);
+        if (!value) {
+          throw new Error(`${label}: "${item.trim()}" is not a valid option`);
+        }
+        if (!values.includes(value)) {
+          values.push(value);
+        }
+      }
+      return values.length > 0 ? values : null;
+    }
+
+    default:
+      throw new Error(`${label} has an unsupported field type`);
+  }
+}
+
+/**
+ * Validate a map of custom field values against the company's field definitions.
+ * Unknown keys are reported as errors; empty values clear the field.
+ * When `partial` is false, required fields missing from the input are reported too.
+ */
+export function validateCustomFieldValues(
+  definitions: CustomFieldDefinition[],
+  input: Record<string, unknown> | null | undefined,
+  options: { partial?: boolean } = {}
+): CustomFieldValidationResult {
+  const values: Record<string, CustomFieldValue> = {};
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const byName = new Map(definitions.map(definition => [definition.fieldName, definition]));
+
+  for (const [key, raw] of Object.entries(input || {})) {
+    const definition = byName.get(key);
+    if (!definition) {
+      errors.push(`Unknown custom field: ${key}`);
+      continue;
+    }
+
+    seen.add(key);
+    try {
+      const value = coerceCustomFieldValue(definition, raw);
+      if (value === null && definition.required) {
+        errors.push(`${definition.fieldLabel} is required`);
+        continue;
+      }
+      values[key] = value;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (!options.partial) {
+    for (const definition of definitions) {
+      if (definition.required && !seen.has(definition.fieldName)) {
+        errors.push(`${definition.fieldLabel} is required`);
+      }
+    }
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Merge validated values into an existing custom field map, dropping cleared (null) entries
+ */
+export function mergeCustomFieldValues(
+  existing: Record<string, CustomFieldValue> | null | undefined,
+  updates: Record<string, CustomFieldValue>
+): Record<string, CustomFieldValue> {
+  const merged: Record<string, CustomFieldValue> = { ...(existing || {}) };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Format a stored value for display or CSV export (select values are shown by label)
+ */
+export function formatCustomFieldValue(definition: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (isEmptyCustomFieldValue(value)) {
+    return '';
+  }
+
+  const labelFor = (optionValue: string) =>
+    (definition.options || []).find(opt => opt.value === optionValue)?.label || optionValue;
+
+  switch (definition.fieldType) {
+    case 'select':
+      return labelFor(String(value));
+    case 'multi_select':
+      return (Array.isArray(value) ? value : [String(value)]).map(labelFor).join('; ');
+    case 'boolean':
+      return value ? 'true' : 'false';
+    default:
+      return String(value);
+  }
+}
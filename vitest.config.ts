@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    root: import.meta.dirname,
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+  },
+});